@@ -15,7 +15,9 @@ import { ZoomControls } from './components/ZoomControls'
 import { ThemeToggle } from './components/ThemeToggle'
 import { TextPropertiesPanel } from './components/TextPropertiesPanel'
 import { ShapePropertiesPanel } from './components/ShapePropertiesPanel'
+import { StickyNotePanel } from './components/StickyNotePanel'
 import { KeyboardShortcutsPanel } from './components/KeyboardShortcutsPanel'
+import { VersionHistoryPanel } from './components/VersionHistoryPanel'
 import { ContextMenu } from './components/ContextMenu'
 
 /** Sync default text color when theme changes */
@@ -54,8 +56,10 @@ function WhiteboardApp() {
       {/* Floating UI */}
       <TopBar />
       <ThemeToggle resolved={resolved} toggle={toggle} />
+      <VersionHistoryPanel />
       <TextPropertiesPanel isDark={resolved === 'dark'} />
       <ShapePropertiesPanel isDark={resolved === 'dark'} />
+      <StickyNotePanel />
       <FloatingToolbar />
 
       {/* Bottom-right stack: zoom + minimap */}
@@ -30,7 +30,7 @@ export function ContextMenu({ event, onClose }: ContextMenuProps) {
   const duplicateSelectedShapes = useWhiteboardStore((s) => s.duplicateSelectedShapes)
   const copySelectedShapes = useWhiteboardStore((s) => s.copySelectedShapes)
   const cutSelectedShapes = useWhiteboardStore((s) => s.cutSelectedShapes)
-  const pasteShapes = useWhiteboardStore((s) => s.pasteShapes)
+  const pasteFromClipboard = useWhiteboardStore((s) => s.pasteFromClipboard)
   const selectMultiple = useWhiteboardStore((s) => s.selectMultiple)
   const bringToFront = useWhiteboardStore((s) => s.bringToFront)
   const sendToBack = useWhiteboardStore((s) => s.sendToBack)
@@ -38,6 +38,11 @@ export function ContextMenu({ event, onClose }: ContextMenuProps) {
   const unlockSelectedShapes = useWhiteboardStore((s) => s.unlockSelectedShapes)
   const groupSelectedShapes = useWhiteboardStore((s) => s.groupSelectedShapes)
   const ungroupSelectedShapes = useWhiteboardStore((s) => s.ungroupSelectedShapes)
+  const setCroppingImageId = useWhiteboardStore((s) => s.setCroppingImageId)
+  const resetImageCrop = useWhiteboardStore((s) => s.resetImageCrop)
+  const flipSelectedImages = useWhiteboardStore((s) => s.flipSelectedImages)
+  const setSelectedImageFilter = useWhiteboardStore((s) => s.setSelectedImageFilter)
+  const replaceImage = useWhiteboardStore((s) => s.replaceImage)
 
   const hasSelection = selectedIds.size > 0
   const multipleSelected = selectedIds.size > 1
@@ -45,6 +50,8 @@ export function ContextMenu({ event, onClose }: ContextMenuProps) {
   const hasLocked = hasSelection && Array.from(selectedIds).some((id) => shapes.get(id)?.isLocked)
   const hasUnlocked = hasSelection && Array.from(selectedIds).some((id) => !shapes.get(id)?.isLocked)
   const hasGroup = hasSelection && Array.from(selectedIds).some((id) => shapes.get(id)?.type === 'group')
+  const single = selectedIds.size === 1 ? shapes.get(Array.from(selectedIds)[0]!) : undefined
+  const image = single?.type === 'image' && !single.isLocked ? single : undefined
 
   // Close on Escape or click outside
   useEffect(() => {
@@ -85,13 +92,46 @@ export function ContextMenu({ event, onClose }: ContextMenuProps) {
     [onClose],
   )
 
+  // Reads the system clipboard and pastes at the click
+  const paste = () => pasteFromClipboard(event.canvasPoint)
+
+  // Picks a file and swaps it in, keeping the image's bounds
+  const replace = (id: string) => {
+    const input = document.createElement('input')
+    input.type = 'file'
+    input.accept = 'image/*'
+    input.onchange = () => {
+      const file = input.files?.[0]
+      if (file) void replaceImage(id, file)
+    }
+    input.click()
+  }
+
+  const imageItems: MenuEntry[] = image
+    ? [
+        { label: 'Crop', action: () => exec(() => setCroppingImageId(image.id)) },
+        ...(image.props.crop
+          ? [{ label: 'Reset crop', action: () => exec(() => resetImageCrop(image.id)) } as MenuItem]
+          : []),
+        { label: 'Flip horizontal', action: () => exec(() => flipSelectedImages('horizontal')) },
+        { label: 'Flip vertical', action: () => exec(() => flipSelectedImages('vertical')) },
+        {
+          label: image.props.filter?.grayscale ? 'Show in color' : 'Grayscale',
+          action: () => exec(() => setSelectedImageFilter({ grayscale: image.props.filter?.grayscale ? 0 : 1 })),
+        },
+        { label: 'Replace image\u2026', action: () => exec(() => replace(image.id)) },
+        'separator',
+      ]
+    : []
+
   const items: MenuEntry[] = hasSelection
     ? [
         { label: 'Copy', shortcut: `${mod}C`, action: () => exec(copySelectedShapes) },
         { label: 'Cut', shortcut: `${mod}X`, action: () => exec(cutSelectedShapes) },
-        { label: 'Paste', shortcut: `${mod}V`, action: () => exec(pasteShapes) },
+        { label: 'Paste', shortcut: `${mod}V`, action: () => exec(paste) },
         { label: 'Duplicate', shortcut: `${mod}D`, action: () => exec(duplicateSelectedShapes) },
         'separator',
+        ...imageItems,
         { label: 'Bring to front', action: () => exec(bringToFront) },
         { label: 'Send to back', action: () => exec(sendToBack) },
         'separator',
@@ -116,7 +156,7 @@ export function ContextMenu({ event, onClose }: ContextMenuProps) {
         },
       ]
     : [
-        { label: 'Paste', shortcut: `${mod}V`, action: () => exec(pasteShapes) },
+        { label: 'Paste', shortcut: `${mod}V`, action: () => exec(paste) },
         'separator',
         {
           label: 'Select all',
@@ -1,11 +1,15 @@
 import {
   MousePointer2,
+  Hand,
   Square,
   Circle,
   Minus,
   MoveRight,
   Pencil,
   Type,
+  Eraser,
+  Frame,
+  StickyNote,
 } from 'lucide-react'
 import { useWhiteboardStore } from '@ozdemircibaris/react-whiteboard'
 import type { ToolType } from '@ozdemircibaris/react-whiteboard'
@@ -18,9 +22,11 @@ type ToolEntry = { type: ToolType; label: string; icon: React.ReactNode }
 const TOOL_GROUPS: ToolEntry[][] = [
   [
     { type: 'select', label: 'Select (V)', icon: <MousePointer2 size={18} /> },
+    { type: 'hand', label: 'Hand (H)', icon: <Hand size={18} /> },
   ],
   [
     { type: 'draw', label: 'Draw (D)', icon: <Pencil size={18} /> },
+    { type: 'eraser', label: 'Eraser (E)', icon: <Eraser size={18} /> },
   ],
   [
     { type: 'rectangle', label: 'Rectangle (R)', icon: <Square size={18} /> },
@@ -32,6 +38,8 @@ const TOOL_GROUPS: ToolEntry[][] = [
   ],
   [
     { type: 'text', label: 'Text (T)', icon: <Type size={18} /> },
+    { type: 'frame', label: 'Frame (F)', icon: <Frame size={18} /> },
+    { type: 'sticky', label: 'Sticky note (N)', icon: <StickyNote size={18} /> },
   ],
 ]
 
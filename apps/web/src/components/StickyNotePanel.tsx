@@ -0,0 +1,44 @@
+import { useState } from 'react'
+import {
+  STICKY_NOTE_COLORS,
+  useToolManager,
+  useWhiteboardStore,
+} from '@ozdemircibaris/react-whiteboard'
+import type { StickyNoteTool } from '@ozdemircibaris/react-whiteboard'
+import { GlassPanel } from './GlassPanel'
+import { PanelSection } from './PanelSection'
+import { ColorSwatch } from './ColorSwatch'
+
+const NOTE_COLOR_LABELS = ['Yellow', 'Pink', 'Blue', 'Green', 'Orange', 'Purple']
+
+/** Note color palette, shown while the sticky note tool is active */
+export function StickyNotePanel() {
+  const currentTool = useWhiteboardStore((s) => s.currentTool)
+  const tool = useToolManager().getTool('sticky') as StickyNoteTool | undefined
+  const [color, setColor] = useState(() => tool?.getColor() ?? STICKY_NOTE_COLORS[0])
+
+  if (currentTool !== 'sticky' || !tool) return null
+
+  const pick = (c: string) => {
+    tool.setColor(c)
+    setColor(c)
+  }
+
+  return (
+    <div className="absolute top-3 left-1/2 -translate-x-1/2 z-50">
+      <GlassPanel className="flex items-center gap-4 px-4 py-2">
+        <PanelSection label="Note">
+          {STICKY_NOTE_COLORS.map((c, i) => (
+            <ColorSwatch
+              key={c}
+              color={c}
+              label={NOTE_COLOR_LABELS[i]}
+              active={color === c}
+              onClick={() => pick(c)}
+            />
+          ))}
+        </PanelSection>
+      </GlassPanel>
+    </div>
+  )
+}
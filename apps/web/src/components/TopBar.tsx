@@ -9,12 +9,15 @@ import {
   FolderOpen,
   Image,
   FileCode2,
+  FileOutput,
   Trash2,
 } from 'lucide-react'
 import {
   useWhiteboardStore,
   exportToJSON,
+  exportToExcalidraw,
   parseDocument,
+  importExcalidraw,
   documentToStoreData,
   downloadFile,
   pickAndReadFile,
@@ -57,16 +60,28 @@ export function TopBar() {
 
   const handleLoad = async () => {
     try {
-      const text = await pickAndReadFile('.json')
+      const text = await pickAndReadFile('.json,.excalidraw')
       if (!text) return
-      const doc = parseDocument(text)
+      const isExcalidraw = JSON.parse(text).type === 'excalidraw'
+      const { document: doc, warnings } = isExcalidraw
+        ? importExcalidraw(text)
+        : { document: parseDocument(text), warnings: [] }
       const data = documentToStoreData(doc)
       loadDocument(data.shapes, data.shapeIds, data.viewport)
+      if (warnings.length > 0) {
+        const messages = [...new Set(warnings.map((w) => w.message))]
+        alert(`Some parts of the drawing could not be imported exactly:\n\n${messages.join('\n')}`)
+      }
     } catch {
       alert('Invalid whiteboard file')
     }
   }
 
+  const handleExportExcalidraw = async () => {
+    const json = await exportToExcalidraw(shapes, shapeIds)
+    downloadFile(json, 'whiteboard.excalidraw', 'application/json')
+  }
+
   const handleExportPng = () => {
     downloadPng(shapes, shapeIds, selectedIds)
   }
@@ -131,7 +146,7 @@ export function TopBar() {
         />
         <IconButton
           icon={<FolderOpen size={16} />}
-          label="Load JSON"
+          label="Load JSON / Excalidraw"
           onClick={handleLoad}
         />
         <IconButton
@@ -146,6 +161,12 @@ export function TopBar() {
           onClick={handleExportSvg}
           disabled={shapeIds.length === 0}
         />
+        <IconButton
+          icon={<FileOutput size={16} />}
+          label="Export Excalidraw"
+          onClick={handleExportExcalidraw}
+          disabled={shapeIds.length === 0}
+        />
 
         <Separator />
 
@@ -0,0 +1,139 @@
+import { useState } from 'react'
+import { History, X, Plus, GitCompare, RotateCcw, Trash2 } from 'lucide-react'
+import { useWhiteboardStore } from '@ozdemircibaris/react-whiteboard'
+import type { Checkpoint } from '@ozdemircibaris/react-whiteboard'
+import { GlassPanel } from './GlassPanel'
+import { IconButton } from './IconButton'
+
+export function VersionHistoryPanel() {
+  const [open, setOpen] = useState(false)
+  const [name, setName] = useState('')
+  const [comparingId, setComparingId] = useState<string | null>(null)
+  const checkpoints = useWhiteboardStore((s) => s.checkpoints)
+  const diff = useWhiteboardStore((s) => s.diffHighlight)
+  const createCheckpoint = useWhiteboardStore((s) => s.createCheckpoint)
+  const restoreCheckpoint = useWhiteboardStore((s) => s.restoreCheckpoint)
+  const deleteCheckpoint = useWhiteboardStore((s) => s.deleteCheckpoint)
+  const compareCheckpoint = useWhiteboardStore((s) => s.compareCheckpoint)
+  const setDiffHighlight = useWhiteboardStore((s) => s.setDiffHighlight)
+
+  const handleCreate = async () => {
+    const trimmed = name.trim()
+    try {
+      await createCheckpoint(trimmed || `Version ${checkpoints.length + 1}`)
+      setName('')
+    } catch {
+      alert('Could not save this version — storage may be full')
+    }
+  }
+
+  const handleCompare = async (checkpoint: Checkpoint) => {
+    if (comparingId === checkpoint.id && diff) {
+      setDiffHighlight(null)
+      setComparingId(null)
+      return
+    }
+    await compareCheckpoint(checkpoint.id)
+    setComparingId(checkpoint.id)
+  }
+
+  const handleClose = () => {
+    setDiffHighlight(null)
+    setComparingId(null)
+    setOpen(false)
+  }
+
+  if (!open) {
+    return (
+      <div className="absolute top-3 right-14 z-20">
+        <GlassPanel className="p-1">
+          <IconButton
+            icon={<History size={16} />}
+            label="Version History"
+            onClick={() => setOpen(true)}
+          />
+        </GlassPanel>
+      </div>
+    )
+  }
+
+  return (
+    <div className="absolute top-3 right-14 z-20">
+      <GlassPanel className="p-3 w-[260px]">
+        <div className="flex items-center justify-between mb-2">
+          <span
+            className="text-xs font-semibold"
+            style={{ color: 'var(--wb-text)' }}
+          >
+            Version History
+          </span>
+          <IconButton
+            icon={<X size={14} />}
+            label="Close"
+            onClick={handleClose}
+          />
+        </div>
+
+        <div className="flex items-center gap-1 mb-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleCreate() }}
+            placeholder="Checkpoint name"
+            className="min-w-0 flex-1 rounded-md px-2 py-1 text-xs bg-transparent"
+            style={{ color: 'var(--wb-text)', border: '1px solid var(--wb-border)' }}
+          />
+          <IconButton
+            icon={<Plus size={14} />}
+            label="Save Checkpoint"
+            onClick={handleCreate}
+          />
+        </div>
+
+        {checkpoints.length === 0 && (
+          <span className="text-xs" style={{ color: 'var(--wb-text-disabled)' }}>
+            No checkpoints yet
+          </span>
+        )}
+
+        <div className="space-y-0.5">
+          {[...checkpoints].reverse().map((checkpoint) => (
+            <div key={checkpoint.id} className="flex items-center gap-1">
+              <div className="min-w-0 flex-1">
+                <div className="truncate text-xs" style={{ color: 'var(--wb-text)' }}>
+                  {checkpoint.name}
+                </div>
+                <div className="text-[10px]" style={{ color: 'var(--wb-text-disabled)' }}>
+                  {new Date(checkpoint.createdAt).toLocaleTimeString()} · {checkpoint.shapeCount} shapes
+                </div>
+              </div>
+              <IconButton
+                icon={<GitCompare size={14} />}
+                label="Compare with Current"
+                active={comparingId === checkpoint.id && !!diff}
+                onClick={() => handleCompare(checkpoint)}
+              />
+              <IconButton
+                icon={<RotateCcw size={14} />}
+                label="Restore"
+                onClick={() => { restoreCheckpoint(checkpoint.id); setComparingId(null) }}
+              />
+              <IconButton
+                icon={<Trash2 size={14} />}
+                label="Delete"
+                onClick={() => deleteCheckpoint(checkpoint.id)}
+                destructive
+              />
+            </div>
+          ))}
+        </div>
+
+        {diff && comparingId && (
+          <div className="mt-2 text-[10px]" style={{ color: 'var(--wb-text-disabled)' }}>
+            {diff.added.length} added · {diff.changed.length} changed · {diff.removed.length} removed
+          </div>
+        )}
+      </GlassPanel>
+    </div>
+  )
+}
@@ -0,0 +1,263 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { createTestStore, getState, makeRect, makeEllipse, makeArrow, resetShapeCounter } from './storeFactory'
+import {
+  findBindingTarget,
+  getArrowEndpoints,
+  getBindingPoint,
+  releaseMovedArrow,
+  remapArrowBindings,
+  resolveBoundArrow,
+} from '../utils/arrowBinding'
+import type { ArrowShape, Shape } from '../types'
+
+/** Arrow from (0, 50) to (200, 50) whose end is bound to the center of `targetId` */
+function makeBoundArrow(targetId: string, overrides: Partial<ArrowShape> = {}): ArrowShape {
+  return makeArrow({
+    id: 'a1',
+    x: 0,
+    y: 50,
+    width: 200,
+    height: 1,
+    ...overrides,
+    props: {
+      stroke: '#000000',
+      strokeWidth: 2,
+      strokeStyle: 'solid',
+      start: { x: 0, y: 0 },
+      end: { x: 200, y: 0 },
+      startArrowhead: 'none',
+      endArrowhead: 'arrow',
+      endBinding: { shapeId: targetId, focus: { x: 0.5, y: 0.5 }, gap: 0 },
+      ...overrides.props,
+    },
+  })
+}
+
+function endpoints(store: ReturnType<typeof createTestStore>, id = 'a1') {
+  return getArrowEndpoints(getState(store).shapes.get(id) as ArrowShape)
+}
+
+describe('arrowBinding utils', () => {
+  beforeEach(() => {
+    resetShapeCounter()
+  })
+
+  describe('findBindingTarget', () => {
+    const rect = makeRect({ id: 'r1', x: 100, y: 100, width: 100, height: 50 })
+    const shapes = new Map<string, Shape>([['r1', rect]])
+
+    it('binds a point near the outline with the distance as gap', () => {
+      const binding = findBindingTarget({ x: 95, y: 125 }, shapes, ['r1'], 10)
+      expect(binding).not.toBeNull()
+      expect(binding!.shapeId).toBe('r1')
+      expect(binding!.gap).toBeCloseTo(5)
+      expect(binding!.focus).toEqual({ x: 0, y: 0.5 })
+    })
+
+    it('binds a point inside the shape with zero gap', () => {
+      const binding = findBindingTarget({ x: 150, y: 125 }, shapes, ['r1'], 10)
+      expect(binding).toEqual({ shapeId: 'r1', focus: { x: 0.5, y: 0.5 }, gap: 0 })
+    })
+
+    it('returns null beyond the threshold', () => {
+      expect(findBindingTarget({ x: 50, y: 125 }, shapes, ['r1'], 10)).toBeNull()
+    })
+
+    it('prefers the topmost shape', () => {
+      const top = makeRect({ id: 'r2', x: 120, y: 100, width: 50, height: 50 })
+      const both = new Map<string, Shape>([['r1', rect], ['r2', top]])
+      expect(findBindingTarget({ x: 140, y: 120 }, both, ['r1', 'r2'], 10)!.shapeId).toBe('r2')
+    })
+
+    it('skips non-bindable shapes', () => {
+      const arrow = makeArrow({ id: 'a9', x: 100, y: 100 })
+      const only = new Map<string, Shape>([['a9', arrow]])
+      expect(findBindingTarget({ x: 100, y: 100 }, only, ['a9'], 10)).toBeNull()
+    })
+  })
+
+  describe('getBindingPoint', () => {
+    it('stops at the rectangle outline, backed off by the gap', () => {
+      const rect = makeRect({ x: 100, y: 0, width: 100, height: 100 })
+      const binding = { shapeId: rect.id, focus: { x: 0.5, y: 0.5 }, gap: 4 }
+      const point = getBindingPoint(rect, binding, { x: 0, y: 50 })
+      expect(point.x).toBeCloseTo(96)
+      expect(point.y).toBeCloseTo(50)
+    })
+
+    it('stops at the ellipse outline', () => {
+      const ellipse = makeEllipse({ x: 100, y: 0, width: 100, height: 100 })
+      const binding = { shapeId: ellipse.id, focus: { x: 0.5, y: 0.5 }, gap: 0 }
+      const point = getBindingPoint(ellipse, binding, { x: 150, y: -100 })
+      expect(point.x).toBeCloseTo(150)
+      expect(point.y).toBeCloseTo(0)
+    })
+
+    it('respects target rotation', () => {
+      const rect = makeRect({ x: 100, y: 0, width: 100, height: 100, rotation: Math.PI / 2 })
+      const binding = { shapeId: rect.id, focus: { x: 0, y: 0.5 }, gap: 0 }
+      // Rotated 90° around (150, 50): the local left-middle focus now sits at the top-middle
+      const point = getBindingPoint(rect, binding, { x: 150, y: -100 })
+      expect(point.x).toBeCloseTo(150)
+      expect(point.y).toBeCloseTo(0)
+    })
+
+    it('returns the focus point when the reference is inside the target', () => {
+      const rect = makeRect({ x: 0, y: 0, width: 100, height: 100 })
+      const binding = { shapeId: rect.id, focus: { x: 0.25, y: 0.75 }, gap: 0 }
+      expect(getBindingPoint(rect, binding, { x: 50, y: 50 })).toEqual({ x: 25, y: 75 })
+    })
+  })
+
+  describe('resolveBoundArrow', () => {
+    it('leaves unbound arrows untouched', () => {
+      const arrow = makeArrow()
+      expect(resolveBoundArrow(arrow, new Map())).toBe(arrow)
+    })
+
+    it('normalizes position and relative points', () => {
+      const rect = makeRect({ id: 'r1', x: 300, y: 0, width: 100, height: 100 })
+      const arrow = makeBoundArrow('r1')
+      const resolved = resolveBoundArrow(arrow, new Map<string, Shape>([['r1', rect]]))
+      expect(resolved.x).toBe(0)
+      expect(resolved.width).toBeCloseTo(300)
+      const { start, end } = getArrowEndpoints(resolved)
+      expect(start).toEqual({ x: 0, y: 50 })
+      expect(end.x).toBeCloseTo(300)
+      expect(end.y).toBeCloseTo(50)
+    })
+  })
+
+  describe('releaseMovedArrow', () => {
+    it('drops bindings when the arrow moves without its target', () => {
+      const arrow = makeBoundArrow('r1')
+      const moved = releaseMovedArrow(arrow, { ...arrow, x: 10 }, new Set(['a1'])) as ArrowShape
+      expect(moved.props.endBinding).toBeNull()
+    })
+
+    it('keeps bindings when the target moves too', () => {
+      const arrow = makeBoundArrow('r1')
+      const moved = releaseMovedArrow(arrow, { ...arrow, x: 10 }, new Set(['a1', 'r1'])) as ArrowShape
+      expect(moved.props.endBinding?.shapeId).toBe('r1')
+    })
+
+    it('keeps bindings on style-only changes', () => {
+      const arrow = makeBoundArrow('r1')
+      const styled = { ...arrow, props: { ...arrow.props, stroke: '#ff0000' } }
+      expect(releaseMovedArrow(arrow, styled, new Set(['a1']))).toBe(styled)
+    })
+  })
+
+  describe('remapArrowBindings', () => {
+    it('remaps copied targets and drops the rest', () => {
+      const arrow = makeBoundArrow('r1', {
+        props: { startBinding: { shapeId: 'r0', focus: { x: 0, y: 0 }, gap: 0 } } as ArrowShape['props'],
+      })
+      const remapped = remapArrowBindings(arrow, new Map([['r1', 'r1-copy']])) as ArrowShape
+      expect(remapped.props.endBinding?.shapeId).toBe('r1-copy')
+      expect(remapped.props.startBinding).toBeNull()
+    })
+  })
+})
+
+describe('arrow bindings in the store', () => {
+  let store: ReturnType<typeof createTestStore>
+
+  beforeEach(() => {
+    resetShapeCounter()
+    store = createTestStore()
+    store.getState().addShape(makeRect({ id: 'r1', x: 200, y: 0, width: 100, height: 100 }))
+    store.getState().addShape(makeBoundArrow('r1'))
+  })
+
+  it('updateShape moves bound arrows with their target', () => {
+    store.getState().updateShape('r1', { x: 300, y: 100 })
+    const { start, end } = endpoints(store)
+    expect(start).toEqual({ x: 0, y: 50 })
+    expect(end.x).toBeCloseTo(300)
+    expect(end.y).toBeCloseTo(135.71, 1)
+  })
+
+  it('updateShape records the synced arrow in the same history entry', () => {
+    const historyBefore = getState(store).history.length
+    store.getState().updateShape('r1', { x: 300 })
+
+    const state = getState(store)
+    expect(state.history.length).toBe(historyBefore + 1)
+    const action = state.history[state.historyIndex]!.action
+    expect(action.type).toBe('update')
+    if (action.type === 'update') {
+      expect(action.before.map((s) => s.id)).toEqual(['r1', 'a1'])
+    }
+  })
+
+  it('updateShapesBatch moves bound arrows with their target', () => {
+    store.getState().updateShapesBatch(new Map([['r1', { x: 400 }]]))
+    expect(endpoints(store).end.x).toBeCloseTo(400)
+  })
+
+  it('moving the arrow alone releases its binding', () => {
+    store.getState().updateShapesBatch(new Map([['a1', { x: 20 }]]))
+    const arrow = getState(store).shapes.get('a1') as ArrowShape
+    expect(arrow.props.endBinding).toBeNull()
+  })
+
+  it('moving arrow and target together keeps the binding', () => {
+    store.getState().updateShapesBatch(new Map<string, Partial<Shape>>([
+      ['a1', { x: 50 }],
+      ['r1', { x: 250 }],
+    ]))
+    const arrow = getState(store).shapes.get('a1') as ArrowShape
+    expect(arrow.props.endBinding?.shapeId).toBe('r1')
+    expect(endpoints(store).end.x).toBeCloseTo(250)
+  })
+
+  it('undo and redo re-sync arrows after a batch move', () => {
+    const before = [getState(store).shapes.get('r1')!]
+    store.getState().updateShapesBatch(new Map([['r1', { x: 400 }]]))
+    store.getState().recordBatchUpdate(before, [getState(store).shapes.get('r1')!])
+
+    store.getState().undo()
+    expect(endpoints(store).end.x).toBeCloseTo(200)
+
+    store.getState().redo()
+    expect(endpoints(store).end.x).toBeCloseTo(400)
+  })
+
+  it('deleteShapes clears bindings and undo restores them', () => {
+    store.getState().deleteShapes(['r1'])
+    let arrow = getState(store).shapes.get('a1') as ArrowShape
+    expect(arrow.props.endBinding).toBeNull()
+    expect(endpoints(store).end.x).toBe(200)
+
+    store.getState().undo()
+    arrow = getState(store).shapes.get('a1') as ArrowShape
+    expect(arrow.props.endBinding?.shapeId).toBe('r1')
+
+    store.getState().updateShape('r1', { x: 500 })
+    expect(endpoints(store).end.x).toBeCloseTo(500)
+
+    store.getState().undo()
+    store.getState().redo()
+    store.getState().undo()
+    store.getState().redo()
+    arrow = getState(store).shapes.get('a1') as ArrowShape
+    expect(arrow.props.endBinding?.shapeId).toBe('r1')
+  })
+
+  it('redo of a delete clears the binding again', () => {
+    store.getState().deleteShape('r1')
+    store.getState().undo()
+    store.getState().redo()
+    const arrow = getState(store).shapes.get('a1') as ArrowShape
+    expect(arrow.props.endBinding).toBeNull()
+  })
+
+  it('duplicating an arrow without its target drops the binding', () => {
+    store.getState().select('a1')
+    store.getState().duplicateSelectedShapes()
+    const copyId = [...getState(store).selectedIds][0]!
+    const copy = getState(store).shapes.get(copyId) as ArrowShape
+    expect(copy.props.endBinding).toBeNull()
+  })
+})
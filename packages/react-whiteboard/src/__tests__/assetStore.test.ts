@@ -0,0 +1,251 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import type { ImageShape } from '../types'
+import { AssetStore, DecodedImageCache, assetStore, bindAssetStore } from '../assets'
+import { exportToJSON } from '../utils/serialization'
+import { drawImage } from '../core/renderer/imageRenderer'
+import { blobToDataUrl, clearBlobStore, dataUrlToBlobUrl, storeBlobAsUrl } from '../utils/imageBlobStore'
+import { createTestStore, getState, makeImage, makeRect, resetShapeCounter } from './storeFactory'
+
+/** Lets a test make every image's fingerprint the same */
+const fingerprint = vi.hoisted(() => ({ override: null as string | null }))
+vi.mock('../utils/fnv1a', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../utils/fnv1a')>()
+  return { ...actual, hashBytes: (data: Uint8Array) => fingerprint.override ?? actual.hashBytes(data) }
+})
+
+/** Loads on the next tick as a 1024x512 image */
+class FakeImage {
+  naturalWidth = 1024
+  naturalHeight = 512
+  complete = false
+  onload: (() => void) | null = null
+  set src(_value: string) {
+    setTimeout(() => {
+      this.complete = true
+      this.onload?.()
+    }, 0)
+  }
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0))
+const png = (...bytes: number[]) => new Blob([new Uint8Array(bytes)], { type: 'image/png' })
+
+describe('AssetStore', () => {
+  let assets: AssetStore
+  let urlCount: number
+
+  beforeEach(() => {
+    resetShapeCounter()
+    urlCount = 0
+    URL.createObjectURL = vi.fn(() => `blob:test/${++urlCount}`)
+    URL.revokeObjectURL = vi.fn()
+    assets = new AssetStore()
+  })
+
+  afterEach(() => {
+    fingerprint.override = null
+    vi.unstubAllGlobals()
+    clearBlobStore()
+  })
+
+  it('stores identical images once', async () => {
+    const url = await assets.add(png(1, 2, 3))
+    expect(await assets.add(png(1, 2, 3))).toBe(url)
+    expect(await assets.add(png(4))).not.toBe(url)
+    expect(assets.addBytes(new Uint8Array([1, 2, 3]), 'image/png')).toBe(url)
+    expect(URL.createObjectURL).toHaveBeenCalledTimes(2)
+
+    // Loading the same data URL twice gives one blob URL
+    const dataUrl = await blobToDataUrl(png(7, 7))
+    expect(dataUrlToBlobUrl(dataUrl)).toBe(dataUrlToBlobUrl(dataUrl))
+  })
+
+  it('compares the bytes of images whose fingerprints collide', async () => {
+    fingerprint.override = 'same'
+    const url = await assets.add(png(1, 2, 3))
+    expect(await assets.add(png(3, 2, 1))).not.toBe(url)
+    expect(assets.addBytes(new Uint8Array([4, 5, 6]), 'image/png')).not.toBe(url)
+    expect(assets.addBytes(new Uint8Array([1, 2, 3]), 'image/png')).toBe(url)
+    expect(URL.createObjectURL).toHaveBeenCalledTimes(3)
+  })
+
+  it('hands uploads the SHA-256 of the image', async () => {
+    const url = await assets.add(png(1, 2, 3))
+    const upload = vi.fn((_blob: Blob, _info: { hash: string }) => Promise.resolve('https://cdn.test/image.png'))
+    assets.setUploadHandler(upload)
+    assets.setReferences({}, [url])
+    await vi.waitFor(() => expect(upload).toHaveBeenCalled())
+    expect(upload.mock.calls[0]![1].hash).toBe('039058c6f2c0cb492c533b0a4d14ef77cc0f78abccced5287d84a1a2011cfb81')
+    assets.setUploadHandler(null)
+  })
+
+  it('follows shape changes without rescanning the board', async () => {
+    const store = createTestStore()
+    const src = await assets.add(png(1, 2, 3))
+    bindAssetStore(store, assets)
+    const changeReferences = vi.spyOn(assets, 'changeReferences')
+    const named = () => changeReferences.mock.calls.flatMap(([, added, removed]) => [...added, ...removed])
+    store.getState().addShape(makeImage({ id: 'a', props: { src } as ImageShape['props'] }))
+    store.getState().addShape(makeImage({ id: 'b', props: { src } as ImageShape['props'] }))
+    // Once per holder (shapes and history), however many shapes show it
+    expect(assets.refCount(src)).toBe(2)
+    const namedByImages = named().length
+
+    // Other shapes changing don't name the image again
+    store.getState().addShape(makeRect({ id: 'r' }))
+    store.getState().updateShape('r', { x: 50 })
+    expect(named()).toHaveLength(namedByImages)
+
+    // Still shown by the other shape
+    store.getState().deleteShapes(['a'])
+    store.setState({ history: [], historyIndex: -1 })
+    await tick()
+    expect(assets.refCount(src)).toBe(1)
+  })
+
+  it('keeps images while shapes, history or the clipboard refer to them', async () => {
+    const store = createTestStore({ history: { maxEntries: 1 } })
+    const src = await assets.add(png(1, 2, 3))
+    const unbind = bindAssetStore(store, assets)
+    store.getState().addShape(makeImage({ id: 'img', props: { src } as ImageShape['props'] }))
+    expect(assets.refCount(src)).toBe(2)
+
+    // Deleted, but undoable
+    store.getState().select('img')
+    store.getState().copySelectedShapes()
+    store.getState().deleteShapes(['img'])
+    await tick()
+    expect(assets.refCount(src)).toBe(2)
+
+    // Out of the history, still on the clipboard
+    store.getState().addShape(makeRect())
+    await tick()
+    expect(assets.has(src)).toBe(true)
+
+    store.getState().addShape(makeImage({ id: 'again', props: { src } as ImageShape['props'] }))
+    unbind()
+    await tick()
+    expect(assets.has(src)).toBe(false)
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith(src)
+  })
+
+  it('keeps an image that moves between holders in one change', async () => {
+    const store = createTestStore({ history: { maxEntries: 0 } })
+    const src = await assets.add(png(1))
+    bindAssetStore(store, assets)
+    store.getState().addShape(makeImage({ id: 'img', props: { src } as ImageShape['props'] }))
+    // Replaced, then recorded — as `replaceImage` does
+    const image = getState(store).shapes.get('img') as ImageShape
+    store.getState().updateShape('img', { props: { ...image.props, src: 'https://example.com/other.png' } }, false)
+    store.getState().setHistoryOptions({ maxEntries: 10 })
+    store.getState().recordBatchUpdate([image], [getState(store).shapes.get('img')!])
+    await tick()
+    expect(assets.has(src)).toBe(true)
+  })
+
+  it('switches shapes to the uploaded URL without an undo step', async () => {
+    // The shared store, which documents are saved through
+    assets = assetStore
+    const store = createTestStore()
+    const src = await assets.add(png(1, 2, 3))
+    const unused = await assets.add(png(9))
+    const unbind = bindAssetStore(store, assets)
+    store.getState().addShape(makeImage({ id: 'img', props: { src } as ImageShape['props'] }))
+
+    const upload = vi.fn((_blob: Blob, info: { hash: string }) => Promise.resolve(`https://cdn.test/${info.hash}.png`))
+    assets.setUploadHandler(upload)
+    await tick()
+    expect(upload).toHaveBeenCalledTimes(1)
+    const remoteUrl = upload.mock.results[0]!.value as Promise<string>
+    expect((getState(store).shapes.get('img') as ImageShape).props.src).toBe(await remoteUrl)
+    expect(getState(store).history).toHaveLength(1)
+    expect(assets.getRemoteUrl(src)).toBe(await remoteUrl)
+    // Still drawn from the local blob
+    expect(assets.resolve(await remoteUrl)).toBe(src)
+    expect(assets.has(unused)).toBe(true)
+
+    // Undoing back to the blob URL still saves the uploaded URL
+    store.getState().undo()
+    store.getState().redo()
+    const doc = JSON.parse(await exportToJSON(getState(store).shapes, getState(store).shapeIds, getState(store).viewport))
+    expect(doc.shapes[0].props.src).toBe(await remoteUrl)
+    unbind()
+    assets.setUploadHandler(null)
+  })
+
+  it('gives the same Blob one URL through the blob store helpers', () => {
+    const blob = png(5)
+    expect(storeBlobAsUrl(blob)).toBe(storeBlobAsUrl(blob))
+  })
+})
+
+describe('DecodedImageCache', () => {
+  beforeEach(() => {
+    vi.stubGlobal('Image', FakeImage)
+    URL.revokeObjectURL = vi.fn()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('drops the least recently drawn images over its byte budget, without revoking URLs', async () => {
+    const imageBytes = 1024 * 512 * 4
+    const cache = new DecodedImageCache(undefined, imageBytes * 2)
+    const loaded = vi.fn()
+    cache.onLoad(loaded)
+
+    expect(cache.get('blob:a')).toBeNull()
+    cache.get('blob:b')
+    await tick()
+    expect(loaded.mock.calls).toEqual([['blob:a'], ['blob:b']])
+    expect(cache.get('blob:a')).not.toBeNull()
+
+    // b was drawn least recently
+    cache.get('blob:c')
+    await tick()
+    expect(cache.byteSize).toBe(imageBytes * 2)
+    expect(cache.get('blob:a')).not.toBeNull()
+    expect(cache.get('blob:b')).toBeNull()
+    expect(URL.revokeObjectURL).not.toHaveBeenCalled()
+  })
+
+  it('draws images from mipmaps at low zoom', async () => {
+    const close = vi.fn()
+    const createImageBitmap = vi.fn((_image: unknown, options: ImageBitmapOptions) =>
+      Promise.resolve({ width: options.resizeWidth!, height: options.resizeHeight!, close }))
+    vi.stubGlobal('createImageBitmap', createImageBitmap)
+    const cache = new DecodedImageCache()
+    cache.get('blob:a')
+    await tick()
+
+    // 1024px wide, shown 200px wide: two halvings still cover it
+    expect(cache.get('blob:a', 200)).toMatchObject({ scale: 1, source: expect.any(FakeImage) })
+    await tick()
+    expect(createImageBitmap).toHaveBeenCalledWith(expect.any(FakeImage), expect.objectContaining({ resizeWidth: 256, resizeHeight: 128 }))
+    expect(cache.get('blob:a', 200)).toMatchObject({ scale: 0.25, source: { width: 256 } })
+    expect(cache.get('blob:a', 2000)!.scale).toBe(1)
+
+    cache.clear()
+    expect(close).toHaveBeenCalled()
+    expect(cache.byteSize).toBe(0)
+  })
+
+  it('picks the mipmap for the zoom the canvas draws at', async () => {
+    vi.stubGlobal('createImageBitmap', (_image: unknown, options: ImageBitmapOptions) =>
+      Promise.resolve({ width: options.resizeWidth!, height: options.resizeHeight!, close: () => {} }))
+    const image = makeImage({ width: 1024, height: 512, props: { src: 'blob:zoomed', naturalWidth: 1024, naturalHeight: 512, crop: { x: 512, y: 0, width: 512, height: 512 } } as ImageShape['props'] })
+    const ctx = document.createElement('canvas').getContext('2d')!
+    ctx.getTransform = () => ({ a: 0.1, b: 0 }) as DOMMatrix
+    const draw = vi.spyOn(ctx, 'drawImage')
+
+    drawImage(ctx, image, false, () => {})
+    await tick()
+    drawImage(ctx, image, false, () => {})
+    await tick()
+    drawImage(ctx, image, false, () => {})
+    // About 205px on screen: the crop, in natural pixels, is drawn from the 256px wide copy
+    expect(draw).toHaveBeenLastCalledWith(expect.objectContaining({ width: 256 }), 128, 0, 128, 128, 0, 0, 1024, 512)
+    draw.mockRestore()
+  })
+})
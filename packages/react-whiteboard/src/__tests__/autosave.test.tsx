@@ -0,0 +1,79 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { render, cleanup, act, waitFor } from '@testing-library/react'
+import { WhiteboardProvider, useWhiteboardContext } from '../context'
+import type { IncrementalPersistenceAdapter, PersistenceOp } from '../persistence'
+import { makeRect } from './storeFactory'
+
+describe('incremental autosave', () => {
+  afterEach(cleanup)
+
+  it('saves changes again after a failed write', async () => {
+    const saved: PersistenceOp[][] = []
+    let failNext = true
+    const adapter: IncrementalPersistenceAdapter = {
+      load: () => Promise.resolve(null),
+      save: () => Promise.resolve(),
+      saveChanges: (ops) => {
+        if (failNext) {
+          failNext = false
+          return Promise.reject(new Error('Quota exceeded'))
+        }
+        saved.push(ops)
+        return Promise.resolve()
+      },
+      compact: () => Promise.resolve(),
+    }
+    const onPersistenceError = vi.fn()
+
+    let context!: ReturnType<typeof useWhiteboardContext>
+    function Probe() {
+      context = useWhiteboardContext()
+      return null
+    }
+    render(
+      <WhiteboardProvider persistenceAdapter={adapter} autosaveInterval={10} onPersistenceError={onPersistenceError}>
+        <Probe />
+      </WhiteboardProvider>,
+    )
+    await act(() => Promise.resolve())
+
+    act(() => context.store.getState().addShape(makeRect({ id: 'a' })))
+    await waitFor(() => expect(onPersistenceError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Quota exceeded' })))
+
+    // Nothing changed since, yet the next autosave writes the lost ops
+    await waitFor(() => expect(saved).toHaveLength(1))
+    expect(saved[0]).toEqual([
+      { type: 'create', shapes: [expect.objectContaining({ id: 'a' })] },
+      { type: 'reorder', shapeIds: ['a'] },
+    ])
+  })
+
+  it('saves a viewport-only change', async () => {
+    const saved: PersistenceOp[][] = []
+    const adapter: IncrementalPersistenceAdapter = {
+      load: () => Promise.resolve(null),
+      save: () => Promise.resolve(),
+      saveChanges: (ops) => {
+        saved.push(ops)
+        return Promise.resolve()
+      },
+      compact: () => Promise.resolve(),
+    }
+
+    let context!: ReturnType<typeof useWhiteboardContext>
+    function Probe() {
+      context = useWhiteboardContext()
+      return null
+    }
+    render(
+      <WhiteboardProvider persistenceAdapter={adapter} autosaveInterval={10}>
+        <Probe />
+      </WhiteboardProvider>,
+    )
+    await act(() => Promise.resolve())
+
+    act(() => context.store.getState().setViewport({ x: 40, y: 30, zoom: 2 }))
+    await waitFor(() => expect(saved).toHaveLength(1))
+    expect(saved[0]).toEqual([{ type: 'viewport', viewport: { x: 40, y: 30, zoom: 2 } }])
+  })
+})
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import type { PathShape, Shape } from '../types'
+import { exportToBinary, importFromBinary } from '../utils/binaryFormat'
+import { exportToJSON, parseDocument } from '../utils/serialization'
+import { makeArrow, makeFrame, makePath, makeRect, makeText, resetShapeCounter } from './storeFactory'
+
+const viewport = { x: 12.5, y: -40, zoom: 1.25 }
+
+function boardOf(shapes: Shape[]) {
+  return { shapes: new Map(shapes.map((shape) => [shape.id, shape])), shapeIds: shapes.map((shape) => shape.id) }
+}
+
+/** A freehand stroke with pen pressure, like DrawTool records */
+function makeStroke(id: string, pointCount: number, seed: number): PathShape {
+  let x = seed * 7.3
+  let y = seed * 3.1
+  const points = Array.from({ length: pointCount }, (_, i) => {
+    x += Math.cos(i / 9 + seed) * 2.37
+    y += Math.sin(i / 7 + seed) * 1.91
+    return { x, y, pressure: 0.5 + Math.sin(i / 5) * 0.25 }
+  })
+  const colors = ['#1e1e1e', '#e03131', '#2f9e44', '#1971c2']
+  return makePath({ id, props: { ...makePath().props, points, stroke: colors[seed % colors.length]! } })
+}
+
+describe('binary format', () => {
+  beforeEach(() => resetShapeCounter())
+
+  it('round-trips shapes, order and viewport', async () => {
+    const frame = makeFrame({ id: 'f', props: { ...makeFrame().props, childIds: ['t'] } })
+    const text = makeText({ id: 't', parentId: 'f', rotation: 0.3, meta: { tags: ['a', 'b'], note: null } })
+    const arrow = makeArrow({ id: 'a', x: -3.75 })
+    const { shapes, shapeIds } = boardOf([makeRect({ id: 'r', opacity: 0.35 }), arrow, frame, makeStroke('p', 50, 1)])
+    shapes.set('t', text)
+
+    const bytes = await exportToBinary(shapes, shapeIds, viewport)
+    const doc = await importFromBinary(bytes)
+    const expected = parseDocument(await exportToJSON(shapes, shapeIds, viewport))
+
+    expect(doc.viewport).toEqual(viewport)
+    expect(doc.shapeIds).toEqual(expected.shapeIds)
+    // Everything but the quantized points comes back exactly
+    const withoutPoints = (list: Shape[]) => list.map((shape) => (shape.type === 'path' ? { ...shape, props: {} } : shape))
+    expect(withoutPoints(doc.shapes)).toEqual(withoutPoints(expected.shapes))
+  })
+
+  it('keeps points within the configured precision', async () => {
+    const stroke = makeStroke('p', 200, 2)
+    const { shapes, shapeIds } = boardOf([stroke])
+
+    for (const precision of [0, 1, 3]) {
+      const doc = await importFromBinary(await exportToBinary(shapes, shapeIds, viewport, { precision }))
+      const points = (doc.shapes[0] as PathShape).props.points
+      const tolerance = 0.5 / 10 ** precision + 1e-9
+      stroke.props.points.forEach((point, i) => {
+        expect(Math.abs(points[i]!.x - point.x)).toBeLessThanOrEqual(tolerance)
+        expect(Math.abs(points[i]!.y - point.y)).toBeLessThanOrEqual(tolerance)
+        expect(Math.abs(points[i]!.pressure! - point.pressure!)).toBeLessThanOrEqual(tolerance)
+      })
+    }
+  })
+
+  it('quantizes only path and line points', async () => {
+    const anchors = [{ x: 1.23456, y: 2.34567 }, { x: 3.45678, y: 4.56789 }]
+    const rect: Shape = { ...makeRect({ id: 'r' }), meta: { anchors } }
+    const { shapes, shapeIds } = boardOf([rect])
+    const doc = await importFromBinary(await exportToBinary(shapes, shapeIds, viewport, { precision: 0 }))
+    expect(doc.shapes[0]!.meta).toEqual({ anchors })
+  })
+
+  it('keeps points exact when quantizing them would overflow', async () => {
+    const stroke = makeStroke('p', 3, 0)
+    stroke.props.points = [{ x: 1_000_000.123, y: -2_500_000.5, pressure: 0.5 }, { x: 1_000_001.456, y: -2_500_001.25, pressure: 0.75 }]
+    const { shapes, shapeIds } = boardOf([stroke])
+    const doc = await importFromBinary(await exportToBinary(shapes, shapeIds, viewport, { precision: 10 }))
+    expect((doc.shapes[0] as PathShape).props.points).toEqual(stroke.props.points)
+  })
+
+  it('reads uncompressed files and rejects others', async () => {
+    const { shapes, shapeIds } = boardOf([makeRect({ id: 'r' })])
+    const bytes = await exportToBinary(shapes, shapeIds, viewport, { compress: false })
+    expect((await importFromBinary(bytes.buffer)).shapeIds).toEqual(['r'])
+
+    await expect(importFromBinary(new TextEncoder().encode('{"version":1}'))).rejects.toThrow('not a .wbz file')
+    await expect(importFromBinary(bytes.slice(0, bytes.length - 4))).rejects.toThrow('Invalid binary document')
+    await expect(exportToBinary(shapes, shapeIds, viewport, { precision: -1 })).rejects.toThrow('Invalid precision')
+  })
+
+  it('is far smaller than JSON for boards of freehand strokes', async () => {
+    const { shapes, shapeIds } = boardOf(Array.from({ length: 100 }, (_, i) => makeStroke(`p${i}`, 300, i)))
+
+    const json = await exportToJSON(shapes, shapeIds, viewport)
+    const jsonBytes = new TextEncoder().encode(json).length
+    const binaryBytes = (await exportToBinary(shapes, shapeIds, viewport)).length
+    const rawBytes = (await exportToBinary(shapes, shapeIds, viewport, { compress: false })).length
+
+    // 30,000 points: about 4.3 MB of pretty-printed JSON, 100 KB as .wbz
+    expect(binaryBytes).toBeLessThan(jsonBytes / 30)
+    expect(rawBytes).toBeLessThan(jsonBytes / 20)
+  })
+})
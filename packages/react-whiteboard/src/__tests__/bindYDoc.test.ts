@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import * as Y from 'yjs'
+import { bindYDoc } from '../collaboration'
+import { createTestStore, makeRect, makeEllipse, resetShapeCounter } from './storeFactory'
+
+type TestStore = ReturnType<typeof createTestStore>
+
+/** Relay every update between two in-memory docs, as a network provider would */
+function connect(a: Y.Doc, b: Y.Doc) {
+  const relay = (target: Y.Doc) => (update: Uint8Array, origin: unknown) => {
+    if (origin !== 'remote') Y.applyUpdate(target, update, 'remote')
+  }
+  a.on('update', relay(b))
+  b.on('update', relay(a))
+}
+
+function setupPeers() {
+  const docA = new Y.Doc()
+  const docB = new Y.Doc()
+  connect(docA, docB)
+  const storeA = createTestStore()
+  const storeB = createTestStore()
+  const unbindA = bindYDoc(storeA, docA)
+  const unbindB = bindYDoc(storeB, docB)
+  return { docA, docB, storeA, storeB, unbindA, unbindB }
+}
+
+function ids(store: TestStore) {
+  return store.getState().shapeIds
+}
+
+describe('bindYDoc', () => {
+  beforeEach(() => {
+    resetShapeCounter()
+  })
+
+  it('propagates added shapes to the other peer', () => {
+    const { storeA, storeB, docA } = setupPeers()
+    const rect = makeRect({ id: 'r1', x: 10 })
+    storeA.getState().addShape(rect)
+
+    expect(ids(storeB)).toEqual(['r1'])
+    expect(storeB.getState().shapes.get('r1')).toEqual(rect)
+    expect(docA.getMap('shapes').get('r1')).toEqual(rect)
+    expect(docA.getArray('shapeIds').toArray()).toEqual(['r1'])
+  })
+
+  it('propagates updates, deletes and reorders', () => {
+    const { storeA, storeB } = setupPeers()
+    storeA.getState().addShape(makeRect({ id: 'a' }))
+    storeA.getState().addShape(makeEllipse({ id: 'b' }))
+    storeA.getState().addShape(makeRect({ id: 'c' }))
+
+    storeB.getState().updateShape('a', { x: 250 })
+    expect(storeA.getState().shapes.get('a')!.x).toBe(250)
+
+    storeA.getState().select('a')
+    storeA.getState().bringToFront()
+    expect(ids(storeB)).toEqual(['b', 'c', 'a'])
+
+    storeB.getState().deleteShapes(['b', 'c'])
+    expect(ids(storeA)).toEqual(['a'])
+    expect(storeA.getState().shapes.has('b')).toBe(false)
+  })
+
+  it('sends one transaction per local store update', () => {
+    const { storeA, docA } = setupPeers()
+    let transactions = 0
+    docA.on('afterTransaction', () => { transactions++ })
+
+    storeA.getState().addShape(makeRect({ id: 'a' }))
+    storeA.getState().updateShape('a', { y: 40 })
+    storeA.getState().deleteShapes(['a'])
+    expect(transactions).toBe(3)
+  })
+
+  it('applies remote changes without writing local history', () => {
+    const { storeA, storeB } = setupPeers()
+    storeA.getState().addShape(makeRect({ id: 'a' }))
+    storeA.getState().updateShape('a', { x: 99 })
+
+    expect(storeA.getState().history).toHaveLength(2)
+    expect(storeB.getState().history).toHaveLength(0)
+    expect(storeB.getState().canUndo()).toBe(false)
+
+    // Undo is local, and its result syncs like any other change
+    storeA.getState().undo()
+    expect(storeB.getState().shapes.get('a')!.x).toBe(0)
+  })
+
+  it('removes remotely deleted shapes from the selection', () => {
+    const { storeA, storeB } = setupPeers()
+    storeA.getState().addShape(makeRect({ id: 'a' }))
+    storeB.getState().select('a')
+
+    storeA.getState().deleteShapes(['a'])
+    expect(storeB.getState().selectedIds.size).toBe(0)
+  })
+
+  it('loads an existing document into the store, or seeds an empty one', () => {
+    const doc = new Y.Doc()
+    const seeded = createTestStore()
+    seeded.getState().addShape(makeRect({ id: 'a' }))
+    seeded.getState().addShape(makeRect({ id: 'b' }))
+    bindYDoc(seeded, doc)
+    expect(doc.getArray('shapeIds').toArray()).toEqual(['a', 'b'])
+
+    const joining = createTestStore()
+    joining.getState().addShape(makeEllipse({ id: 'local' }))
+    bindYDoc(joining, doc)
+    expect(ids(joining)).toEqual(['a', 'b'])
+    expect(joining.getState().history).toHaveLength(0)
+  })
+
+  it('ignores shape IDs whose shape is missing', () => {
+    const doc = new Y.Doc()
+    const store = createTestStore()
+    bindYDoc(store, doc)
+
+    doc.transact(() => {
+      doc.getMap('shapes').set('a', makeRect({ id: 'a' }))
+      doc.getArray<string>('shapeIds').push(['a', 'ghost', 'a'])
+    })
+    expect(ids(store)).toEqual(['a'])
+
+    // The next local change to the order rewrites the array from the store
+    store.getState().addShape(makeRect({ id: 'b' }))
+    expect(doc.getArray('shapeIds').toArray()).toEqual(['a', 'b'])
+  })
+
+  it('stops syncing once unbound', () => {
+    const { storeA, storeB, unbindB } = setupPeers()
+    unbindB()
+    storeA.getState().addShape(makeRect({ id: 'a' }))
+    storeB.getState().addShape(makeRect({ id: 'b' }))
+    expect(ids(storeA)).toEqual(['a'])
+    expect(ids(storeB)).toEqual(['b'])
+  })
+})
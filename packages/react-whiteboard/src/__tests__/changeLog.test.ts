@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { ShapeChangeTracker, applyPersistenceOps } from '../persistence'
+import { parseDocument, serializeDocument } from '../utils/serialization'
+import { createTestStore, getState, makeRect, resetShapeCounter } from './storeFactory'
+
+function trackedStore(options?: { trackViewport?: boolean }) {
+  const store = createTestStore()
+  const tracker = new ShapeChangeTracker(options)
+  store.subscribe((state, prev) => tracker.record(prev, state))
+  return { store, tracker }
+}
+
+describe('ShapeChangeTracker', () => {
+  beforeEach(() => resetShapeCounter())
+
+  it('collects created, updated and deleted shapes since the last take', () => {
+    const { store, tracker } = trackedStore()
+    store.getState().addShape(makeRect({ id: 'a' }))
+    store.getState().addShape(makeRect({ id: 'b' }))
+    tracker.takeOps(getState(store))
+    expect(tracker.hasChanges).toBe(false)
+
+    store.getState().addShape(makeRect({ id: 'c' }))
+    store.getState().updateShape('a', { x: 10 })
+    store.getState().updateShape('a', { x: 20 })
+    store.getState().deleteShapes(['b'])
+
+    expect(tracker.takeOps(getState(store))).toEqual([
+      { type: 'create', shapes: [getState(store).shapes.get('c')] },
+      { type: 'update', shapes: [expect.objectContaining({ id: 'a', x: 20 })] },
+      { type: 'delete', ids: ['b'] },
+      { type: 'reorder', shapeIds: ['a', 'c'] },
+    ])
+  })
+
+  it('leaves out shapes created and deleted between saves', () => {
+    const { store, tracker } = trackedStore()
+    store.getState().addShape(makeRect({ id: 'a' }))
+    store.getState().updateShape('a', { x: 10 })
+    store.getState().deleteShapes(['a'])
+
+    expect(tracker.takeOps(getState(store))).toEqual([{ type: 'reorder', shapeIds: [] }])
+  })
+
+  it('saves a shape deleted and re-created between saves as an update', () => {
+    const { store, tracker } = trackedStore()
+    store.getState().addShape(makeRect({ id: 'a' }))
+    tracker.takeOps(getState(store))
+    store.getState().deleteShapes(['a'])
+    store.getState().undo()
+
+    const ops = tracker.takeOps(getState(store))
+    expect(ops.map((op) => op.type)).toEqual(['update', 'reorder'])
+  })
+
+  it('puts back ops that failed to save, merged with later changes', () => {
+    const { store, tracker } = trackedStore()
+    store.getState().addShape(makeRect({ id: 'a' }))
+    store.getState().addShape(makeRect({ id: 'b' }))
+    tracker.takeOps(getState(store))
+
+    store.getState().addShape(makeRect({ id: 'c' }))
+    store.getState().addShape(makeRect({ id: 'd' }))
+    store.getState().updateShape('a', { x: 10 })
+    store.getState().deleteShapes(['b'])
+    const failed = tracker.takeOps(getState(store))
+
+    // Changed again while the write was failing
+    store.getState().updateShape('c', { x: 30 })
+    store.getState().deleteShapes(['d'])
+    tracker.restore(failed)
+
+    expect(tracker.takeOps(getState(store))).toEqual([
+      { type: 'create', shapes: [expect.objectContaining({ id: 'c', x: 30 })] },
+      { type: 'update', shapes: [expect.objectContaining({ id: 'a', x: 10 })] },
+      { type: 'delete', ids: ['b'] },
+      { type: 'reorder', shapeIds: ['a', 'c'] },
+    ])
+  })
+
+  it('collects viewport changes only when asked to', () => {
+    const shapesOnly = trackedStore()
+    shapesOnly.store.getState().setViewport({ x: 10 })
+    expect(shapesOnly.tracker.hasChanges).toBe(false)
+
+    const { store, tracker } = trackedStore({ trackViewport: true })
+    store.getState().setViewport({ x: 10 })
+    store.getState().setViewport({ zoom: 2 })
+    expect(tracker.hasChanges).toBe(true)
+    const failed = tracker.takeOps(getState(store))
+    expect(failed).toEqual([{ type: 'viewport', viewport: { x: 10, y: 0, zoom: 2 } }])
+
+    tracker.restore(failed)
+    expect(tracker.takeOps(getState(store))).toEqual(failed)
+  })
+})
+
+describe('applyPersistenceOps', () => {
+  beforeEach(() => resetShapeCounter())
+
+  it('replays ops on top of a document', () => {
+    const a = makeRect({ id: 'a' })
+    const b = makeRect({ id: 'b' })
+    const doc = serializeDocument(new Map([['a', a], ['b', b]]), ['a', 'b'], { x: 5, y: 5, zoom: 2 })
+
+    const result = applyPersistenceOps(doc, [
+      { type: 'create', shapes: [makeRect({ id: 'c' })] },
+      { type: 'update', shapes: [{ ...a, x: 50 }] },
+      { type: 'delete', ids: ['b'] },
+      { type: 'reorder', shapeIds: ['c', 'a', 'b'] },
+    ])
+
+    expect(result.shapeIds).toEqual(['c', 'a'])
+    expect(result.shapes.find((shape) => shape.id === 'a')!.x).toBe(50)
+    expect(result.viewport).toEqual({ x: 5, y: 5, zoom: 2 })
+    expect(() => parseDocument(JSON.stringify(result))).not.toThrow()
+  })
+
+  it('starts from an empty board without a document', () => {
+    const result = applyPersistenceOps(null, [
+      { type: 'create', shapes: [makeRect({ id: 'a' })] },
+      { type: 'reorder', shapeIds: ['a'] },
+    ])
+    expect(result.shapeIds).toEqual(['a'])
+    expect(result.viewport).toEqual({ x: 0, y: 0, zoom: 1 })
+  })
+
+  it('takes the viewport from the last viewport op', () => {
+    const doc = serializeDocument(new Map(), [], { x: 5, y: 5, zoom: 2 })
+    const result = applyPersistenceOps(doc, [
+      { type: 'viewport', viewport: { x: 1, y: 1, zoom: 1 } },
+      { type: 'viewport', viewport: { x: 20, y: -4, zoom: 0.5 } },
+    ])
+    expect(result.viewport).toEqual({ x: 20, y: -4, zoom: 0.5 })
+  })
+})
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import type { Shape } from '../types'
+import { LocalStorageAdapter } from '../persistence'
+import { diffDocuments } from '../utils/documentDiff'
+import { serializeDocument } from '../utils/serialization'
+import { createTestStore, getState, makeEllipse, makeRect, makeText, resetShapeCounter } from './storeFactory'
+
+describe('diffDocuments', () => {
+  const viewport = { x: 0, y: 0, zoom: 1 }
+
+  it('reports added, removed and changed shapes with the changed fields', () => {
+    const a = makeRect({ id: 'a', x: 0 })
+    const b = makeEllipse({ id: 'b' })
+    const t = makeText({ id: 't' })
+    const before = serializeDocument(new Map<string, Shape>([['a', a], ['b', b], ['t', t]]), ['a', 'b', 't'], viewport)
+
+    const c = makeRect({ id: 'c' })
+    const movedA = { ...a, x: 50, props: { ...a.props, fill: '#ff0000' } }
+    const after = serializeDocument(new Map<string, Shape>([['c', c], ['a', movedA], ['t', t]]), ['c', 'a', 't'], viewport)
+
+    const diff = diffDocuments(before, after)
+    expect(diff.added.map((s) => s.id)).toEqual(['c'])
+    expect(diff.removed.map((s) => s.id)).toEqual(['b'])
+    expect(diff.changed).toEqual([{ id: 'a', before: a, after: movedA, fields: ['x', 'props.fill'] }])
+  })
+
+  it('finds nothing between equal documents', () => {
+    const doc = serializeDocument(new Map([['a', makeRect({ id: 'a' })]]), ['a'], viewport)
+    expect(diffDocuments(doc, structuredClone(doc))).toEqual({ added: [], removed: [], changed: [] })
+  })
+})
+
+describe('checkpoints', () => {
+  let store: ReturnType<typeof createTestStore>
+
+  beforeEach(() => {
+    resetShapeCounter()
+    localStorage.clear()
+    store = createTestStore()
+  })
+
+  it('restores a checkpoint as one undoable step', async () => {
+    store.getState().addShape(makeRect({ id: 'a', x: 0 }))
+    store.getState().addShape(makeRect({ id: 'b', x: 100 }))
+    store.getState().createBoundText('a')
+    const checkpoint = await store.getState().createCheckpoint('v1')
+    expect(checkpoint).toMatchObject({ name: 'v1', shapeCount: 3 })
+
+    store.getState().deleteShapes(['b'])
+    store.getState().updateShape('a', { x: 40 })
+    store.getState().addShape(makeEllipse({ id: 'e' }))
+    store.getState().select('e')
+    store.getState().sendToBack()
+    const edited = getState(store)
+
+    expect(await store.getState().restoreCheckpoint(checkpoint.id)).toBe(true)
+    let state = getState(store)
+    expect(state.shapeIds).toEqual(['a', 'b'])
+    expect(state.shapes.get('a')!.x).toBe(0)
+    expect(state.shapes.size).toBe(3)
+    expect(state.selectedIds.size).toBe(0)
+    expect(state.history[state.historyIndex]!.label).toBe('Restore "v1"')
+
+    store.getState().undo()
+    state = getState(store)
+    expect(state.shapeIds).toEqual(edited.shapeIds)
+    expect([...state.shapes.values()]).toEqual(expect.arrayContaining([...edited.shapes.values()]))
+    expect(state.shapes.size).toBe(edited.shapes.size)
+
+    store.getState().redo()
+    expect(getState(store).shapeIds).toEqual(['a', 'b'])
+  })
+
+  it('keeps the restored stacking order', async () => {
+    store.getState().addShape(makeRect({ id: 'a' }))
+    store.getState().addShape(makeRect({ id: 'b' }))
+    store.getState().select('a')
+    store.getState().bringToFront()
+    const checkpoint = await store.getState().createCheckpoint('b under a')
+
+    store.getState().clearShapes()
+    await store.getState().restoreCheckpoint(checkpoint.id)
+    expect(getState(store).shapeIds).toEqual(['b', 'a'])
+    expect(await store.getState().restoreCheckpoint('missing')).toBe(false)
+  })
+
+  it('stores snapshots through the persistence adapter', async () => {
+    const adapter = new LocalStorageAdapter({ key: 'board' })
+    store.getState().setPersistenceAdapter(adapter)
+    store.getState().addShape(makeRect({ id: 'a' }))
+    const first = await store.getState().createCheckpoint('first')
+    const second = await store.getState().createCheckpoint('second')
+    expect(localStorage.getItem(`board:checkpoint:${first.id}`)).toContain('"a"')
+
+    // Another store on the same adapter sees them
+    const other = createTestStore()
+    other.getState().setPersistenceAdapter(adapter)
+    expect((await other.getState().listCheckpoints()).map((c) => c.name)).toEqual(['first', 'second'])
+    expect(await other.getState().restoreCheckpoint(first.id)).toBe(true)
+    expect(getState(other).shapeIds).toEqual(['a'])
+
+    await other.getState().deleteCheckpoint(second.id)
+    expect(getState(other).checkpoints.map((c) => c.name)).toEqual(['first'])
+    expect(await adapter.loadCheckpoint(second.id)).toBeNull()
+  })
+
+  it('does not list a checkpoint the adapter failed to store', async () => {
+    const onError = vi.fn()
+    const adapter = new LocalStorageAdapter({ key: 'board', onError })
+    store.getState().setPersistenceAdapter(adapter)
+    store.getState().addShape(makeRect({ id: 'a' }))
+    const { setItem: originalSetItem } = Storage.prototype
+    const setItem = vi.spyOn(Storage.prototype, 'setItem').mockImplementation(function (this: Storage, key, value) {
+      // The snapshot fits, the index update doesn't
+      if (key === 'board:checkpoints') throw new DOMException('Quota exceeded', 'QuotaExceededError')
+      originalSetItem.call(this, key, value)
+    })
+
+    await expect(store.getState().createCheckpoint('full')).rejects.toThrow('Quota exceeded')
+    setItem.mockRestore()
+    expect(onError).toHaveBeenCalledTimes(1)
+    expect(getState(store).checkpoints).toEqual([])
+    expect(await store.getState().listCheckpoints()).toEqual([])
+    expect(Object.keys(localStorage).filter((key) => key.startsWith('board:checkpoint'))).toEqual([])
+  })
+
+  it('highlights the diff against a checkpoint until restored', async () => {
+    store.getState().addShape(makeRect({ id: 'a' }))
+    store.getState().addShape(makeRect({ id: 'b' }))
+    const checkpoint = await store.getState().createCheckpoint('v1')
+
+    store.getState().deleteShapes(['b'])
+    store.getState().updateShape('a', { width: 10 })
+    store.getState().addShape(makeEllipse({ id: 'e' }))
+
+    const diff = await store.getState().compareCheckpoint(checkpoint.id)
+    expect(diff).toMatchObject({
+      added: [{ id: 'e' }],
+      removed: [{ id: 'b' }],
+      changed: [{ id: 'a', fields: ['width'] }],
+    })
+    expect(getState(store).diffHighlight).toBe(diff)
+
+    await store.getState().restoreCheckpoint(checkpoint.id)
+    expect(getState(store).diffHighlight).toBeNull()
+  })
+})
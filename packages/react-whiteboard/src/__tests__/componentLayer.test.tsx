@@ -0,0 +1,99 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { render, cleanup, act, fireEvent } from '@testing-library/react'
+import { WhiteboardProvider, useWhiteboardContext } from '../context'
+import { ComponentLayer } from '../components/ComponentLayer'
+import type { EmbeddedComponentProps } from '../core/renderer/ShapeRendererRegistry'
+import { exportToSvg } from '../utils/exportSvg'
+import { makeComponent, makeRect } from './storeFactory'
+
+function Counter({ componentProps, isEditing, updateComponentProps }: EmbeddedComponentProps) {
+  const count = componentProps.count as number
+  return (
+    <button data-editing={isEditing} onClick={() => updateComponentProps({ count: count + 1 })}>
+      {count}
+    </button>
+  )
+}
+
+/** Render the layer in an 800x600 container and hand back the provider's context */
+function renderLayer() {
+  let context!: ReturnType<typeof useWhiteboardContext>
+  function Probe() {
+    context = useWhiteboardContext()
+    return null
+  }
+  const view = render(
+    <WhiteboardProvider>
+      <Probe />
+      <ComponentLayer containerSizeRef={{ current: { width: 800, height: 600 } }} setupVersion={0} />
+    </WhiteboardProvider>,
+  )
+  const embed = (id: string) => view.container.querySelector<HTMLElement>(`[data-shape-id="${id}"]`)
+  return { ...view, context, embed }
+}
+
+describe('ComponentLayer', () => {
+  afterEach(cleanup)
+
+  it('mounts registered components for on-screen shapes and follows the viewport', () => {
+    const { context, embed } = renderLayer()
+    const { store, shapeRendererRegistry } = context
+    act(() => {
+      store.getState().addShape(makeComponent({ id: 'c1', x: 100, y: 50 }))
+      store.getState().addShape(makeComponent({ id: 'far', x: 5000, y: 5000 }))
+      store.getState().addShape(makeComponent({ id: 'other', props: { componentType: 'chart', componentProps: {} } }))
+    })
+    expect(embed('c1')).toBeNull()
+
+    act(() => shapeRendererRegistry.registerComponent('counter', Counter))
+    expect(embed('c1')?.textContent).toBe('0')
+    expect(embed('far')).toBeNull()
+    expect(embed('other')).toBeNull()
+
+    act(() => store.getState().setViewport({ x: 10, y: 20, zoom: 2 }))
+    expect(embed('c1')!.style.transform).toBe('translate(210px, 120px) scale(2)')
+
+    act(() => store.getState().updateShape('c1', { rotation: Math.PI / 2 }))
+    expect(embed('c1')!.style.transform).toContain('rotate(1.5707963267948966rad)')
+
+    act(() => shapeRendererRegistry.unregisterComponent('counter'))
+    expect(embed('c1')).toBeNull()
+  })
+
+  it('is interactive only when selected alone or in edit mode', () => {
+    const { context, embed } = renderLayer()
+    const { store, shapeRendererRegistry } = context
+    act(() => {
+      shapeRendererRegistry.registerComponent('counter', Counter)
+      store.getState().addShape(makeComponent({ id: 'c1' }))
+      store.getState().addShape(makeRect({ id: 'r1' }))
+    })
+    expect(embed('c1')!.style.pointerEvents).toBe('none')
+
+    act(() => store.getState().select('c1'))
+    expect(embed('c1')!.style.pointerEvents).toBe('auto')
+    act(() => store.getState().selectMultiple(['c1', 'r1']))
+    expect(embed('c1')!.style.pointerEvents).toBe('none')
+
+    act(() => { fireEvent.doubleClick(embed('c1')!) })
+    expect(store.getState().editingComponentId).toBe('c1')
+    expect(embed('c1')!.querySelector('button')!.dataset.editing).toBe('true')
+
+    // Component updates are undoable
+    act(() => { fireEvent.click(embed('c1')!.querySelector('button')!) })
+    expect(embed('c1')!.textContent).toBe('1')
+    act(() => store.getState().undo())
+    expect(embed('c1')!.textContent).toBe('0')
+
+    // Deselecting ends edit mode
+    act(() => store.getState().select('r1'))
+    expect(store.getState().editingComponentId).toBeNull()
+    expect(embed('c1')!.style.pointerEvents).toBe('none')
+  })
+
+  it('exports a placeholder labelled with the component type', async () => {
+    const shape = makeComponent({ id: 'c1', props: { componentType: 'chart', componentProps: {} } })
+    const svg = await exportToSvg(new Map([['c1', shape]]), ['c1'])
+    expect(svg).toContain('&lt;chart&gt;')
+  })
+})
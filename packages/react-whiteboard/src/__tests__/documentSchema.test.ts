@@ -0,0 +1,129 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { parseDocument, parseDocumentLenient } from '../utils/serialization'
+import { registerMigration } from '../utils/migrations'
+import { validateShape } from '../utils/documentSchema'
+import type { ArrowShape, FrameShape } from '../types'
+import { makeArrow, makeFrame, makePath, makeRect, makeText } from './storeFactory'
+
+function documentJSON(shapes: unknown[], shapeIds: unknown[], version = 1): string {
+  return JSON.stringify({
+    version,
+    source: 'react-whiteboard',
+    viewport: { x: 0, y: 0, zoom: 1 },
+    shapes,
+    shapeIds,
+  })
+}
+
+describe('document validation', () => {
+  it('accepts the built-in shapes as created', () => {
+    for (const shape of [makeRect(), makeArrow(), makeText(), makePath()]) {
+      expect(validateShape(JSON.parse(JSON.stringify(shape)), 'shape')).toEqual([])
+    }
+    // Custom shape types only need an object of props
+    expect(validateShape({ ...makeRect(), type: 'chart', props: { series: [] } }, 'shape')).toEqual([])
+  })
+
+  it('names the path of each invalid value', () => {
+    const path = makePath({ id: 'p' })
+    const points = [{ x: 0, y: 0 }, { x: 1, y: 1 }, { x: 2, y: 2 }, { x: '3', y: 3 }]
+    expect(validateShape({ ...path, props: { ...path.props, points } }, 'shapes[12]')).toEqual([
+      'shapes[12].props.points[3].x is not a number',
+    ])
+
+    const text = makeText()
+    const { seed: _seed, ...withoutSeed } = text
+    expect(validateShape({ ...withoutSeed, props: { ...text.props, align: 'justify' } }, 's')).toEqual([
+      's.seed is missing',
+    ])
+    expect(validateShape({ ...text, props: { ...text.props, align: 'justify' } }, 's')).toEqual([
+      "s.props.align is not one of 'left', 'center', 'right'",
+    ])
+    const arrow = makeArrow()
+    const endBinding = { shapeId: 'r', focus: { x: 0.5 }, gap: 4 }
+    expect(validateShape({ ...arrow, props: { ...arrow.props, endBinding } }, 'a')).toEqual([
+      'a.props.endBinding.focus.y is missing',
+    ])
+    expect(validateShape(null, 'n')).toEqual(['n is not an object'])
+  })
+
+  it('throws on the first problem in strict mode', () => {
+    const rect = makeRect({ id: 'r1' })
+    const json = documentJSON([rect, { ...rect, id: 'r2', x: null }, { ...rect, id: 'r3', opacity: 'x' }], ['r1'])
+    expect(() => parseDocument(json)).toThrow('Invalid document: shapes[1].x is not a number (and 1 more)')
+    expect(() => parseDocument(documentJSON([rect], ['r1', 'gone']))).toThrow("shapeIds[1] 'gone' has no shape")
+    expect(() => parseDocument(documentJSON([rect, rect], ['r1']))).toThrow('is used by an earlier shape')
+  })
+
+  it('drops invalid shapes in lenient mode and returns warnings', () => {
+    const rect = makeRect({ id: 'r1' })
+    const broken = { ...makeRect({ id: 'r2' }), props: { ...rect.props, fillStyle: 'zigzag' } }
+    const { document, warnings } = parseDocumentLenient(documentJSON([rect, broken], ['r1', 'r2']))
+
+    expect(document.shapes.map((shape) => shape.id)).toEqual(['r1'])
+    expect(document.shapeIds).toEqual(['r1'])
+    expect(warnings).toEqual([
+      "shapes[1].props.fillStyle is not one of 'solid', 'hachure', 'cross-hatch', 'dots'",
+      "shapeIds[1] 'r2' has no shape",
+    ])
+    expect(() => parseDocumentLenient('"nope"')).toThrow('not an object')
+  })
+
+  it('clears references to dropped shapes in lenient mode', () => {
+    const keeper = makeFrame({ id: 'f2', props: { name: 'Kept', fill: 'transparent', stroke: '#000', childIds: ['gone'] } })
+    const gone = { ...makeRect({ id: 'gone', parentId: 'f2' }), opacity: 'x' }
+    const brokenFrame = { ...makeFrame({ id: 'f', props: { name: 'Broken', fill: 'transparent', stroke: '#000', childIds: ['c'] } }), x: null }
+    const child = makeRect({ id: 'c', parentId: 'f' })
+    const base = makeArrow({ id: 'a' })
+    const arrow = { ...base, props: { ...base.props, endBinding: { shapeId: 'gone', focus: { x: 0.5, y: 0.5 }, gap: 4 } } }
+
+    const { document, warnings } = parseDocumentLenient(documentJSON([keeper, gone, brokenFrame, child, arrow], ['f', 'a', 'f2']))
+
+    const shapes = new Map(document.shapes.map((shape) => [shape.id, shape]))
+    expect([...shapes.keys()]).toEqual(['f2', 'c', 'a'])
+    // The orphaned child takes the dropped frame's place
+    expect(document.shapeIds).toEqual(['c', 'a', 'f2'])
+    expect(shapes.get('c')!.parentId).toBeNull()
+    expect((shapes.get('f2') as FrameShape).props.childIds).toEqual([])
+    expect((shapes.get('a') as ArrowShape).props.endBinding).toBeNull()
+    expect(warnings).toEqual([
+      'shapes[1].opacity is not a number',
+      'shapes[2].x is not a number',
+      "shapes[0].props.childIds 'gone' was dropped",
+      "shapes[3].parentId 'f' was dropped",
+      "shapes[4].props.endBinding.shapeId 'gone' was dropped",
+      "shapeIds[0] 'f' has no shape",
+    ])
+    expect(() => parseDocument(JSON.stringify(document))).not.toThrow()
+  })
+})
+
+describe('registerMigration', () => {
+  const cleanups: (() => void)[] = []
+  afterEach(() => cleanups.splice(0).forEach((cleanup) => cleanup()))
+
+  it('upgrades older documents through the registered steps', () => {
+    // Version 0 stored shapes under `items` and used `zoomLevel`
+    cleanups.push(registerMigration(0, 1, (doc) => {
+      const { items, view, ...rest } = doc as { items: unknown[]; view: { x: number; y: number; zoomLevel: number } }
+      return { ...rest, shapes: items, viewport: { x: view.x, y: view.y, zoom: view.zoomLevel } }
+    }))
+    const json = JSON.stringify({
+      version: 0,
+      source: 'react-whiteboard',
+      view: { x: 1, y: 2, zoomLevel: 3 },
+      items: [makeRect({ id: 'r1' })],
+      shapeIds: ['r1'],
+    })
+
+    const doc = parseDocument(json)
+    expect(doc.version).toBe(1)
+    expect(doc.viewport).toEqual({ x: 1, y: 2, zoom: 3 })
+    expect(doc.shapeIds).toEqual(['r1'])
+  })
+
+  it('rejects missing and backward steps', () => {
+    expect(() => parseDocument(documentJSON([], [], 0))).toThrow('Unsupported document version: 0')
+    expect(() => registerMigration(2, 1, (doc) => doc)).toThrow('later version')
+  })
+})
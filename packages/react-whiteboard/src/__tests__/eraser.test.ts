@@ -0,0 +1,300 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import {
+  createTestStore,
+  getState,
+  makeFrame,
+  makeRect,
+  makePath,
+  makeText,
+  resetShapeCounter,
+} from './storeFactory'
+import { eraserHitsShape, sampleSegment, segmentDistance, splitPathByEraser } from '../utils/eraser'
+import { EraserTool } from '../tools/EraserTool'
+import { createToolState, type ToolEventContext } from '../tools/types'
+import type { GroupShape, PathShape, RectangleShape, Shape } from '../types'
+
+/** Horizontal path from (0, 0) to (100, 0) with a point every 10 units */
+function makeHorizontalPath(overrides: Partial<PathShape> = {}): PathShape {
+  return makePath({
+    x: 0,
+    y: 0,
+    width: 100,
+    height: 0,
+    ...overrides,
+    props: {
+      stroke: '#000000',
+      strokeWidth: 2,
+      strokeStyle: 'solid',
+      points: Array.from({ length: 11 }, (_, i) => ({ x: i * 10, y: 0 })),
+      isComplete: true,
+      ...overrides.props,
+    },
+  })
+}
+
+let idCounter = 0
+const nextId = () => `frag-${++idCounter}`
+
+describe('eraser utils', () => {
+  beforeEach(() => {
+    resetShapeCounter()
+    idCounter = 0
+  })
+
+  describe('segmentDistance', () => {
+    it('returns 0 for crossing segments', () => {
+      expect(segmentDistance({ x: 0, y: -1 }, { x: 0, y: 1 }, { x: -1, y: 0 }, { x: 1, y: 0 })).toBe(0)
+    })
+
+    it('returns the gap between parallel segments', () => {
+      expect(segmentDistance({ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 0, y: 5 }, { x: 10, y: 5 })).toBe(5)
+    })
+  })
+
+  describe('sampleSegment', () => {
+    it('includes both endpoints and respects the step', () => {
+      const samples = sampleSegment({ x: 0, y: 0 }, { x: 20, y: 0 }, 5)
+      expect(samples).toHaveLength(5)
+      expect(samples[0]).toEqual({ x: 0, y: 0 })
+      expect(samples[4]).toEqual({ x: 20, y: 0 })
+    })
+
+    it('returns two samples for a zero-length segment', () => {
+      expect(sampleSegment({ x: 3, y: 3 }, { x: 3, y: 3 }, 5)).toHaveLength(2)
+    })
+  })
+
+  describe('eraserHitsShape', () => {
+    it('hits a rectangle the trail passes through', () => {
+      const rect = makeRect({ x: 0, y: 0, width: 50, height: 50 })
+      expect(eraserHitsShape(rect, { x: -20, y: 25 }, { x: 80, y: 25 }, 4)).toBe(true)
+    })
+
+    it('misses a rectangle the trail passes by', () => {
+      const rect = makeRect({ x: 0, y: 0, width: 50, height: 50 })
+      expect(eraserHitsShape(rect, { x: -20, y: 80 }, { x: 80, y: 80 }, 4)).toBe(false)
+    })
+
+    it('never hits locked shapes', () => {
+      const rect = makeRect({ x: 0, y: 0, width: 50, height: 50, isLocked: true })
+      expect(eraserHitsShape(rect, { x: 25, y: 25 }, { x: 25, y: 25 }, 4)).toBe(false)
+    })
+
+    it('tests paths against the stroke, not the bounding box', () => {
+      const path = makePath({
+        x: 0,
+        y: 0,
+        width: 100,
+        height: 100,
+        props: {
+          stroke: '#000000',
+          strokeWidth: 2,
+          strokeStyle: 'solid',
+          points: [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }],
+          isComplete: true,
+        },
+      })
+      // Inside the bounding box but far from the stroke
+      expect(eraserHitsShape(path, { x: 20, y: 80 }, { x: 30, y: 80 }, 4)).toBe(false)
+      // Crossing the vertical part of the stroke
+      expect(eraserHitsShape(path, { x: 90, y: 50 }, { x: 110, y: 50 }, 4)).toBe(true)
+    })
+  })
+
+  describe('splitPathByEraser', () => {
+    it('returns null when the trail misses the path', () => {
+      const path = makeHorizontalPath()
+      expect(splitPathByEraser(path, [[{ x: 50, y: 40 }, { x: 60, y: 40 }]], 4, nextId)).toBeNull()
+    })
+
+    it('splits the path into two fragments around the erased part', () => {
+      const path = makeHorizontalPath()
+      const fragments = splitPathByEraser(path, [[{ x: 50, y: -20 }, { x: 50, y: 20 }]], 4, nextId)!
+      expect(fragments).toHaveLength(2)
+      expect(fragments[0]).toMatchObject({ id: 'frag-1', x: 0, width: 40 })
+      expect(fragments[1]).toMatchObject({ id: 'frag-2', x: 60, width: 40 })
+      expect(fragments[1]!.props.points[0]).toEqual({ x: 0, y: 0, pressure: undefined })
+      expect(fragments[0]!.props.stroke).toBe(path.props.stroke)
+    })
+
+    it('cuts between sparse points the trail crosses', () => {
+      const path = makeHorizontalPath({
+        props: { points: [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 99, y: 0 }, { x: 100, y: 0 }] } as PathShape['props'],
+      })
+      const fragments = splitPathByEraser(path, [[{ x: 50, y: -20 }, { x: 50, y: 20 }]], 2, nextId)!
+      expect(fragments).toHaveLength(2)
+      expect(fragments[0]!.props.points).toHaveLength(2)
+      expect(fragments[1]!.x).toBe(99)
+    })
+
+    it('returns no fragments when the whole stroke is erased', () => {
+      const path = makeHorizontalPath()
+      expect(splitPathByEraser(path, [[{ x: -10, y: 0 }, { x: 110, y: 0 }]], 4, nextId)).toEqual([])
+    })
+
+    it('drops single-point leftovers', () => {
+      const path = makeHorizontalPath()
+      const fragments = splitPathByEraser(path, [[{ x: 10, y: -20 }, { x: 10, y: 20 }]], 4, nextId)!
+      expect(fragments).toHaveLength(1)
+      expect(fragments[0]!.x).toBe(20)
+    })
+  })
+})
+
+describe('replaceShapes', () => {
+  let store: ReturnType<typeof createTestStore>
+
+  beforeEach(() => {
+    resetShapeCounter()
+    store = createTestStore()
+  })
+
+  it('puts replacements in the z-order slot of the replaced shape', () => {
+    const a = makeRect({ id: 'a' })
+    const path = makeHorizontalPath({ id: 'p' })
+    const b = makeRect({ id: 'b' })
+    for (const shape of [a, path, b]) store.getState().addShape(shape)
+
+    const fragments = splitPathByEraser(path, [[{ x: 50, y: -20 }, { x: 50, y: 20 }]], 4, nextId)!
+    store.getState().replaceShapes(new Map([['p', fragments]]))
+
+    const state = getState(store)
+    expect(state.shapeIds).toEqual(['a', ...fragments.map((f) => f.id), 'b'])
+    expect(state.shapes.has('p')).toBe(false)
+  })
+
+  it('records a single undo step that restores the exact z-order', () => {
+    const a = makeRect({ id: 'a' })
+    const b = makeRect({ id: 'b' })
+    const c = makeRect({ id: 'c' })
+    for (const shape of [a, b, c]) store.getState().addShape(shape)
+    const historyBefore = getState(store).history.length
+    const replacement = makeRect({ id: 'b2' })
+
+    store.getState().replaceShapes(new Map<string, Shape[]>([['b', [replacement]], ['a', []]]))
+    expect(getState(store).history.length).toBe(historyBefore + 1)
+    expect(getState(store).shapeIds).toEqual(['b2', 'c'])
+
+    store.getState().undo()
+    expect(getState(store).shapeIds).toEqual(['a', 'b', 'c'])
+    expect(getState(store).shapes.has('b2')).toBe(false)
+
+    store.getState().redo()
+    expect(getState(store).shapeIds).toEqual(['b2', 'c'])
+    expect(getState(store).shapes.has('a')).toBe(false)
+  })
+
+  it('cascades bound text and clears selection', () => {
+    const rect = makeRect({ id: 'r1', props: { boundTextId: 't1' } as RectangleShape['props'] })
+    store.getState().addShape(rect)
+    store.setState((s) => {
+      const shapes = new Map(s.shapes)
+      shapes.set('t1', makeText({ id: 't1', parentId: 'r1' }))
+      return { shapes }
+    })
+    store.getState().select('r1')
+
+    store.getState().replaceShapes(new Map([['r1', []]]))
+    const state = getState(store)
+    expect(state.shapes.has('t1')).toBe(false)
+    expect(state.selectedIds.size).toBe(0)
+
+    store.getState().undo()
+    expect(getState(store).shapes.has('t1')).toBe(true)
+    expect(getState(store).shapeIds).toEqual(['r1'])
+  })
+
+  it('ignores unknown IDs', () => {
+    store.getState().addShape(makeRect({ id: 'a' }))
+    const historyBefore = getState(store).history.length
+    store.getState().replaceShapes(new Map([['missing', []]]))
+    expect(getState(store).history.length).toBe(historyBefore)
+  })
+
+  it('skips history when recordHistory is false', () => {
+    store.getState().addShape(makeRect({ id: 'a' }))
+    const historyBefore = getState(store).history.length
+    store.getState().replaceShapes(new Map([['a', []]]), false)
+    expect(getState(store).history.length).toBe(historyBefore)
+    expect(getState(store).shapeIds).toEqual([])
+  })
+})
+
+describe('EraserTool', () => {
+  function pointerAt(x: number, y: number, altKey = false): ToolEventContext {
+    return {
+      screenPoint: { x, y },
+      canvasPoint: { x, y },
+      viewport: { x: 0, y: 0, zoom: 1 },
+      shiftKey: false,
+      ctrlKey: false,
+      metaKey: false,
+      altKey,
+      button: 0,
+      pressure: 0.5,
+    }
+  }
+
+  function setup() {
+    const frame = makeFrame({ id: 'f', x: 300, y: 0, width: 200, height: 200, props: { ...makeFrame().props, childIds: ['c'] } })
+    const group: GroupShape = {
+      ...makeRect({ id: 'g', x: 0, y: 300, width: 100, height: 100 }),
+      type: 'group',
+      props: { childIds: ['m'] },
+    }
+    const shapes = new Map<string, Shape>([
+      ['a', makeRect({ id: 'a', x: 0, y: 0, width: 100, height: 100 })],
+      ['far', makeRect({ id: 'far', x: 5000, y: 5000, width: 100, height: 100 })],
+      ['f', frame],
+      ['c', makeRect({ id: 'c', parentId: 'f', x: 350, y: 50, width: 50, height: 50 })],
+      ['g', group],
+      ['m', makeRect({ id: 'm', parentId: 'g', x: 0, y: 300, width: 100, height: 100 })],
+    ])
+    const store = createTestStore()
+    store.getState().loadDocument(shapes, ['a', 'far', 'f', 'g'], { x: 0, y: 0, zoom: 1 })
+    return store
+  }
+
+  beforeEach(() => {
+    resetShapeCounter()
+  })
+
+  it('looks up shapes near each segment in the spatial index', () => {
+    const store = setup()
+    const search = vi.spyOn(store.getState().spatialIndex, 'search')
+    const tool = new EraserTool()
+    const state = createToolState()
+
+    tool.onPointerDown(pointerAt(50, -20), store.getState(), state)
+    tool.onPointerMove(pointerAt(50, 120), store.getState(), state)
+    expect(search).toHaveBeenCalledTimes(2)
+    expect(search.mock.results[1]!.value).not.toContain('far')
+    expect([...state.erasingIds]).toEqual(['a'])
+
+    // Frame children are erased on their own
+    tool.onPointerMove(pointerAt(375, 75), store.getState(), state)
+    expect(state.erasingIds.has('c')).toBe(true)
+
+    tool.onPointerUp(pointerAt(375, 75), store.getState(), state)
+    expect(getState(store).shapes.has('a')).toBe(false)
+    expect(getState(store).shapes.has('c')).toBe(false)
+    expect(getState(store).shapes.has('far')).toBe(true)
+  })
+
+  it('skips group members and restores marks with Alt', () => {
+    const store = setup()
+    const tool = new EraserTool()
+    const state = createToolState()
+
+    tool.onPointerDown(pointerAt(50, 280), store.getState(), state)
+    tool.onPointerMove(pointerAt(50, 420), store.getState(), state)
+    expect(state.erasingIds.has('m')).toBe(false)
+
+    // Alt unmarks what the trail passes over again
+    tool.onPointerDown(pointerAt(50, -20), store.getState(), state)
+    tool.onPointerMove(pointerAt(50, 120), store.getState(), state)
+    expect(state.erasingIds.has('a')).toBe(true)
+    tool.onPointerMove(pointerAt(50, -20, true), store.getState(), state)
+    expect(state.erasingIds.has('a')).toBe(false)
+  })
+})
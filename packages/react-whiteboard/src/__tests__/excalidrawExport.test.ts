@@ -0,0 +1,224 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { exportToExcalidraw, serializeExcalidrawScene } from '../utils/excalidrawExport'
+import { importExcalidraw } from '../utils/excalidrawImport'
+import {
+  makeArrow,
+  makeEllipse,
+  makeFrame,
+  makeLine,
+  makePath,
+  makeRect,
+  makeText,
+  resetShapeCounter,
+} from './storeFactory'
+import type { GroupShape, ImageShape, Shape } from '../types'
+
+const DATA_URL = 'data:image/png;base64,iVBORw0KGgo='
+
+function makeImage(overrides: Partial<ImageShape> = {}): ImageShape {
+  return {
+    id: 'img',
+    type: 'image',
+    x: 0,
+    y: 300,
+    width: 80,
+    height: 60,
+    rotation: 0,
+    opacity: 1,
+    isLocked: false,
+    parentId: null,
+    seed: 5,
+    roughness: 0,
+    props: { src: DATA_URL, naturalWidth: 80, naturalHeight: 60 },
+    ...overrides,
+  }
+}
+
+function makeGroup(id: string, childIds: string[], parentId: string | null = null): GroupShape {
+  return {
+    id,
+    type: 'group',
+    x: 0,
+    y: 0,
+    width: 0,
+    height: 0,
+    rotation: 0,
+    opacity: 1,
+    isLocked: false,
+    parentId,
+    seed: 1,
+    roughness: 0,
+    props: { childIds },
+  }
+}
+
+/** A board exercising every exported shape type */
+function buildBoard(): { shapes: Map<string, Shape>; shapeIds: string[] } {
+  const list: Shape[] = [
+    makeRect({
+      id: 'box',
+      x: 100,
+      y: 100,
+      width: 200,
+      height: 100,
+      seed: 11,
+      roughness: 1,
+      props: { fill: '#a5d8ff', fillStyle: 'hachure', stroke: '#1971c2', strokeWidth: 2, strokeStyle: 'dashed', cornerRadius: 10, boundTextId: 'label' },
+    }),
+    makeText({ id: 'label', x: 108, y: 108, width: 184, height: 24, parentId: 'box', props: { align: 'center' } as never }),
+    makeEllipse({ id: 'oval', x: 400, y: 0, rotation: 0.3, opacity: 0.5, parentId: 'inner' }),
+    makeRect({ id: 'square', x: 520, y: 0, parentId: 'inner' }),
+    makeLine({ id: 'rule', x: 400, y: 150, width: 100, height: 0, parentId: 'outer', props: { points: [{ x: 0, y: 0 }, { x: 100, y: 0 }] } as never }),
+    makeGroup('inner', ['oval', 'square'], 'outer'),
+    makeGroup('outer', ['inner', 'rule']),
+    makeArrow({
+      id: 'link',
+      x: 0,
+      y: 150,
+      width: 96,
+      height: 1,
+      props: {
+        stroke: '#000000',
+        strokeWidth: 2,
+        strokeStyle: 'solid',
+        start: { x: 0, y: 0 },
+        end: { x: 96, y: 0 },
+        startArrowhead: 'none',
+        endArrowhead: 'triangle',
+        startBinding: null,
+        endBinding: { shapeId: 'box', focus: { x: 0, y: 0.5 }, gap: 4 },
+      },
+    }),
+    makePath({
+      id: 'scribble',
+      x: 0,
+      y: 0,
+      width: 100,
+      height: 50,
+      props: {
+        stroke: '#2f9e44',
+        strokeWidth: 4,
+        strokeStyle: 'solid',
+        points: [{ x: 0, y: 0, pressure: 0.3 }, { x: 50, y: 50, pressure: 0.6 }, { x: 100, y: 0, pressure: 0.9 }],
+        isComplete: true,
+      },
+    }),
+    makeText({ id: 'note', x: 0, y: 400, props: { fontFamily: 'mono', text: 'Note' } as never }),
+    makeImage(),
+  ]
+  return {
+    shapes: new Map(list.map((s) => [s.id, s])),
+    shapeIds: ['box', 'outer', 'link', 'scribble', 'note', 'img'],
+  }
+}
+
+describe('excalidraw export', () => {
+  beforeEach(() => {
+    resetShapeCounter()
+  })
+
+  it('emits a valid scene with elements in z-order', async () => {
+    const { shapes, shapeIds } = buildBoard()
+    const scene = await serializeExcalidrawScene(shapes, shapeIds)
+    expect(scene.type).toBe('excalidraw')
+    expect(scene.version).toBe(2)
+    expect(scene.elements.map((e) => e.id)).toEqual([
+      'box', 'label', 'oval', 'square', 'rule', 'link', 'scribble', 'note', 'img',
+    ])
+    expect(scene.elements.map((e) => e.type)).toEqual([
+      'rectangle', 'text', 'ellipse', 'rectangle', 'line', 'arrow', 'freedraw', 'text', 'image',
+    ])
+  })
+
+  it('turns group membership into groupIds, innermost first', async () => {
+    const { shapes, shapeIds } = buildBoard()
+    const scene = await serializeExcalidrawScene(shapes, shapeIds)
+    const byId = new Map(scene.elements.map((e) => [e.id, e]))
+    expect(byId.get('oval')!.groupIds).toEqual(['inner', 'outer'])
+    expect(byId.get('rule')!.groupIds).toEqual(['outer'])
+    expect(byId.get('box')!.groupIds).toEqual([])
+  })
+
+  it('links bound text and bound arrows both ways', async () => {
+    const { shapes, shapeIds } = buildBoard()
+    const scene = await serializeExcalidrawScene(shapes, shapeIds)
+    const byId = new Map(scene.elements.map((e) => [e.id, e]))
+    expect(byId.get('label')).toMatchObject({ containerId: 'box', verticalAlign: 'middle', textAlign: 'center' })
+    expect(byId.get('box')!.boundElements).toEqual([
+      { id: 'label', type: 'text' },
+      { id: 'link', type: 'arrow' },
+    ])
+    expect(byId.get('link')!.endBinding).toMatchObject({ elementId: 'box', gap: 4, fixedPoint: [0, 0.5] })
+  })
+
+  it('writes freedraw pressures and image files', async () => {
+    const { shapes, shapeIds } = buildBoard()
+    const scene = await serializeExcalidrawScene(shapes, shapeIds)
+    const byId = new Map(scene.elements.map((e) => [e.id, e]))
+    expect(byId.get('scribble')).toMatchObject({ pressures: [0.3, 0.6, 0.9], simulatePressure: false })
+
+    const fileId = byId.get('img')!.fileId!
+    expect(scene.files![fileId]).toMatchObject({ id: fileId, mimeType: 'image/png', dataURL: DATA_URL })
+  })
+
+  it('writes one file per distinct image, named by its SHA-256', async () => {
+    const image = (id: string, src: string) =>
+      ({ ...makeRect({ id }), type: 'image', props: { src, naturalWidth: 10, naturalHeight: 10 } }) as ImageShape
+    const other = 'data:image/png;base64,AAAA'
+    const shapes = new Map<string, Shape>([
+      ['a', image('a', DATA_URL)],
+      ['b', image('b', other)],
+      ['c', image('c', DATA_URL)],
+    ])
+    const scene = await serializeExcalidrawScene(shapes, ['a', 'b', 'c'])
+    const [a, b, c] = scene.elements.map((e) => e.fileId!)
+    expect(a).toMatch(/^[0-9a-f]{64}$/)
+    expect(c).toBe(a)
+    expect(b).not.toBe(a)
+    expect(Object.keys(scene.files!)).toHaveLength(2)
+    expect(scene.files![b!]!.dataURL).toBe(other)
+  })
+
+  it('drops shapes and bindings without an Excalidraw equivalent', async () => {
+    const custom = { ...makeRect({ id: 'widget' }), type: 'react-component', props: { componentType: 'x', componentProps: {} } } as Shape
+    const arrow = makeArrow({
+      id: 'a',
+      props: { ...makeArrow().props, endBinding: { shapeId: 'widget', focus: { x: 0.5, y: 0.5 }, gap: 0 } },
+    })
+    const shapes = new Map<string, Shape>([['widget', custom], ['a', arrow]])
+    const scene = await serializeExcalidrawScene(shapes, ['widget', 'a'])
+    expect(scene.elements.map((e) => e.id)).toEqual(['a'])
+    expect(scene.elements[0]!.endBinding).toBeNull()
+  })
+
+  it('exports frames with their children carrying the frameId', async () => {
+    const frame = makeFrame({ id: 'f', props: { name: 'Hero', fill: '#fff', stroke: '#ccc', childIds: ['r'] } })
+    const rect = makeRect({ id: 'r', parentId: 'f' })
+    const shapes = new Map<string, Shape>([['f', frame], ['r', rect]])
+    const scene = await serializeExcalidrawScene(shapes, ['f'])
+    expect(scene.elements.map((e) => [e.id, e.type, e.frameId])).toEqual([
+      ['r', 'rectangle', 'f'],
+      ['f', 'frame', null],
+    ])
+    expect(scene.elements[1]!.name).toBe('Hero')
+  })
+
+  it('round-trips through importExcalidraw', async () => {
+    const { shapes, shapeIds } = buildBoard()
+    const json = await exportToExcalidraw(shapes, shapeIds)
+    const { document, warnings } = importExcalidraw(json)
+
+    expect(warnings).toEqual([])
+    expect(document.shapeIds).toEqual(shapeIds)
+    const imported = new Map(document.shapes.map((s) => [s.id, s]))
+    expect(imported.size).toBe(shapes.size)
+
+    for (const [id, shape] of shapes) {
+      if (shape.type === 'group') {
+        expect(imported.get(id)).toMatchObject({ type: 'group', parentId: shape.parentId, props: shape.props })
+      } else {
+        expect(imported.get(id)).toEqual(shape)
+      }
+    }
+  })
+})
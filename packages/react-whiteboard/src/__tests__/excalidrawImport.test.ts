@@ -0,0 +1,293 @@
+import { describe, it, expect } from 'vitest'
+import { importExcalidraw } from '../utils/excalidrawImport'
+import type { ExcalidrawElement, ExcalidrawScene } from '../utils/excalidrawFormat'
+import type {
+  ArrowShape,
+  GroupShape,
+  ImageShape,
+  LineShape,
+  PathShape,
+  RectangleShape,
+  Shape,
+  TextShape,
+} from '../types'
+
+function el(overrides: Partial<ExcalidrawElement> & Pick<ExcalidrawElement, 'id' | 'type'>): ExcalidrawElement {
+  return {
+    x: 0,
+    y: 0,
+    width: 100,
+    height: 50,
+    angle: 0,
+    strokeColor: '#1e1e1e',
+    backgroundColor: 'transparent',
+    fillStyle: 'solid',
+    strokeWidth: 2,
+    strokeStyle: 'solid',
+    roughness: 1,
+    opacity: 100,
+    seed: 7,
+    groupIds: [],
+    roundness: null,
+    isDeleted: false,
+    ...overrides,
+  }
+}
+
+function scene(elements: ExcalidrawElement[], extra: Partial<ExcalidrawScene> = {}): string {
+  return JSON.stringify({ type: 'excalidraw', version: 2, source: 'test', elements, ...extra })
+}
+
+function importShapes(elements: ExcalidrawElement[], extra: Partial<ExcalidrawScene> = {}) {
+  const { document, warnings } = importExcalidraw(scene(elements, extra))
+  const shapes = new Map<string, Shape>(document.shapes.map((s) => [s.id, s]))
+  return { document, warnings, shapes }
+}
+
+describe('importExcalidraw', () => {
+  it('throws on non-Excalidraw input', () => {
+    expect(() => importExcalidraw('[]')).toThrow('unrecognized type')
+    expect(() => importExcalidraw(JSON.stringify({ type: 'excalidraw' }))).toThrow('missing elements')
+  })
+
+  it('converts the viewport from scroll and zoom', () => {
+    const { document } = importShapes([], { appState: { scrollX: 10, scrollY: -20, zoom: { value: 2 } } })
+    expect(document.viewport).toEqual({ x: 20, y: -40, zoom: 2 })
+    expect(document.source).toBe('react-whiteboard')
+  })
+
+  it('maps rectangle style, rotation, opacity and corner radius', () => {
+    const { shapes, document, warnings } = importShapes([
+      el({
+        id: 'r',
+        type: 'rectangle',
+        x: 10,
+        y: 20,
+        width: 200,
+        height: 200,
+        angle: 0.5,
+        opacity: 50,
+        backgroundColor: '#ffc9c9',
+        fillStyle: 'cross-hatch',
+        strokeStyle: 'dashed',
+        roughness: 2,
+        seed: 1234,
+        roundness: { type: 3 },
+      }),
+    ])
+    const rect = shapes.get('r') as RectangleShape
+    expect(rect).toMatchObject({
+      type: 'rectangle',
+      x: 10,
+      y: 20,
+      rotation: 0.5,
+      opacity: 0.5,
+      seed: 1234,
+      roughness: 2,
+      props: { fill: '#ffc9c9', fillStyle: 'cross-hatch', strokeStyle: 'dashed', cornerRadius: 32 },
+    })
+    expect(document.shapeIds).toEqual(['r'])
+    expect(warnings).toEqual([])
+  })
+
+  it('skips deleted elements and keeps z-order', () => {
+    const { document } = importShapes([
+      el({ id: 'a', type: 'ellipse' }),
+      el({ id: 'gone', type: 'rectangle', isDeleted: true }),
+      el({ id: 'b', type: 'rectangle' }),
+    ])
+    expect(document.shapeIds).toEqual(['a', 'b'])
+  })
+
+  it('converts a diamond to an outline path with a warning', () => {
+    const { shapes, warnings } = importShapes([
+      el({ id: 'd', type: 'diamond', backgroundColor: '#fff' }),
+    ])
+    const path = shapes.get('d') as PathShape
+    expect(path.type).toBe('path')
+    expect(path.props.points).toHaveLength(5)
+    expect(path.props.points[1]).toEqual({ x: 100, y: 25, pressure: undefined })
+    expect(warnings).toEqual([
+      expect.objectContaining({ code: 'approximated', elementId: 'd', elementType: 'diamond' }),
+    ])
+    expect(warnings[0]!.message).toContain('fill')
+  })
+
+  it('normalizes two-point lines to their bounds', () => {
+    const { shapes } = importShapes([
+      el({ id: 'l', type: 'line', x: 50, y: 50, points: [[0, 0], [-30, 40]] }),
+    ])
+    const line = shapes.get('l') as LineShape
+    expect(line).toMatchObject({ x: 20, y: 50, width: 30, height: 40 })
+    expect(line.props.points).toEqual([{ x: 30, y: 0 }, { x: 0, y: 40 }])
+  })
+
+  it('converts multi-point lines to paths and straightens multi-point arrows', () => {
+    const { shapes, warnings } = importShapes([
+      el({ id: 'l', type: 'line', points: [[0, 0], [10, 10], [20, 0]] }),
+      el({ id: 'a', type: 'arrow', points: [[0, 0], [50, 50], [100, 0]] }),
+    ])
+    expect(shapes.get('l')!.type).toBe('path')
+    const arrow = shapes.get('a') as ArrowShape
+    expect(arrow.props.start).toEqual({ x: 0, y: 0 })
+    expect(arrow.props.end).toEqual({ x: 100, y: 0 })
+    expect(warnings.map((w) => w.elementId)).toEqual(['l', 'a'])
+  })
+
+  it('maps arrowheads and warns about unsupported ones', () => {
+    const { shapes, warnings } = importShapes([
+      el({ id: 'a', type: 'arrow', points: [[0, 0], [100, 0]], startArrowhead: 'dot', endArrowhead: 'triangle' }),
+    ])
+    const arrow = shapes.get('a') as ArrowShape
+    expect(arrow.props.startArrowhead).toBe('arrow')
+    expect(arrow.props.endArrowhead).toBe('triangle')
+    expect(warnings).toHaveLength(1)
+    expect(warnings[0]!.message).toContain('dot')
+  })
+
+  it('keeps freedraw pressures unless pressure was simulated', () => {
+    const { shapes } = importShapes([
+      el({ id: 'p', type: 'freedraw', x: 5, y: 5, points: [[0, 0], [10, -10]], pressures: [0.2, 0.8], simulatePressure: false }),
+      el({ id: 'q', type: 'freedraw', points: [[0, 0], [10, 10]], pressures: [], simulatePressure: true }),
+    ])
+    const p = shapes.get('p') as PathShape
+    expect(p).toMatchObject({ x: 5, y: -5, width: 10, height: 10 })
+    expect(p.props.points).toEqual([{ x: 0, y: 10, pressure: 0.2 }, { x: 10, y: 0, pressure: 0.8 }])
+    expect((shapes.get('q') as PathShape).props.points[0]!.pressure).toBeUndefined()
+  })
+
+  it('maps text font, alignment and color', () => {
+    const { shapes, warnings } = importShapes([
+      el({ id: 't', type: 'text', text: 'Hi', fontSize: 28, fontFamily: 3, textAlign: 'center', strokeColor: '#e03131', lineHeight: 1.35 }),
+      el({ id: 'u', type: 'text', text: '?', fontFamily: 99 }),
+    ])
+    expect((shapes.get('t') as TextShape).props).toMatchObject({
+      text: 'Hi',
+      fontSize: 28,
+      fontFamily: 'mono',
+      align: 'center',
+      color: '#e03131',
+      lineHeight: 1.35,
+    })
+    expect((shapes.get('u') as TextShape).props.fontFamily).toBe('hand')
+    expect(warnings).toEqual([expect.objectContaining({ code: 'approximated', elementId: 'u' })])
+  })
+
+  it('binds container text into rectangles and keeps it out of z-order', () => {
+    const { shapes, document } = importShapes([
+      el({ id: 'r', type: 'rectangle', x: 100, y: 100, width: 200, height: 80, boundElements: [{ id: 't', type: 'text' }] }),
+      el({ id: 't', type: 'text', text: 'Label', containerId: 'r' }),
+    ])
+    expect((shapes.get('r') as RectangleShape).props.boundTextId).toBe('t')
+    expect(shapes.get('t')).toMatchObject({ parentId: 'r', x: 108, y: 108, width: 184 })
+    expect(document.shapeIds).toEqual(['r'])
+  })
+
+  it('keeps text from unsupported containers as free text', () => {
+    const { shapes, document, warnings } = importShapes([
+      el({ id: 'a', type: 'arrow', points: [[0, 0], [100, 0]] }),
+      el({ id: 't', type: 'text', text: 'Label', x: 40, y: -10, containerId: 'a' }),
+    ])
+    expect(shapes.get('t')).toMatchObject({ parentId: null, x: 40, y: -10 })
+    expect(document.shapeIds).toEqual(['a', 't'])
+    expect(warnings).toEqual([expect.objectContaining({ code: 'detached-text', elementId: 't' })])
+  })
+
+  it('binds arrow endpoints to their targets', () => {
+    const { shapes, warnings } = importShapes([
+      el({ id: 'r', type: 'rectangle', x: 200, y: 0, width: 100, height: 100 }),
+      el({ id: 'd', type: 'diamond', x: -200, y: 0 }),
+      el({
+        id: 'a',
+        type: 'arrow',
+        x: 0,
+        y: 50,
+        points: [[0, 0], [195, 0]],
+        startBinding: { elementId: 'd', focus: 0, gap: 5 },
+        endBinding: { elementId: 'r', focus: 0, gap: 5 },
+      }),
+    ])
+    const arrow = shapes.get('a') as ArrowShape
+    expect(arrow.props.startBinding).toBeNull()
+    expect(arrow.props.endBinding).toEqual({ shapeId: 'r', focus: { x: 0, y: 0.5 }, gap: 5 })
+    expect(warnings).toContainEqual(expect.objectContaining({ code: 'dropped-binding', elementId: 'a' }))
+  })
+
+  it('builds nested groups in the slot of their first child', () => {
+    const { shapes, document } = importShapes([
+      el({ id: 'x', type: 'rectangle', x: 500 }),
+      el({ id: 'a', type: 'rectangle', x: 0, y: 0, groupIds: ['inner', 'outer'] }),
+      el({ id: 'b', type: 'ellipse', x: 50, y: 100, groupIds: ['inner', 'outer'] }),
+      el({ id: 'c', type: 'rectangle', x: 300, y: 0, groupIds: ['outer'] }),
+    ])
+    expect(document.shapeIds).toEqual(['x', 'outer'])
+
+    const outer = shapes.get('outer') as GroupShape
+    const inner = shapes.get('inner') as GroupShape
+    expect(outer.props.childIds).toEqual(['inner', 'c'])
+    expect(inner.props.childIds).toEqual(['a', 'b'])
+    expect(inner.parentId).toBe('outer')
+    expect(shapes.get('a')!.parentId).toBe('inner')
+    expect(shapes.get('c')!.parentId).toBe('outer')
+    expect(outer).toMatchObject({ x: 0, y: 0, width: 400, height: 150 })
+  })
+
+  it('inlines image files and reports missing ones', () => {
+    const dataURL = 'data:image/png;base64,AAAA'
+    const { shapes, warnings } = importShapes(
+      [
+        el({ id: 'i', type: 'image', fileId: 'f1', scale: [-1, 1] }),
+        el({ id: 'j', type: 'image', fileId: 'missing' }),
+      ],
+      { files: { f1: { id: 'f1', mimeType: 'image/png', dataURL } } },
+    )
+    expect((shapes.get('i') as ImageShape).props.src).toBe(dataURL)
+    expect(shapes.has('j')).toBe(false)
+    expect(warnings.map((w) => [w.code, w.elementId])).toEqual([
+      ['unsupported-property', 'i'],
+      ['missing-file', 'j'],
+    ])
+  })
+
+  it('reads image sizes from the files rather than the elements', () => {
+    const toDataURL = (mime: string, bytes: number[]) =>
+      `data:${mime};base64,${btoa(String.fromCharCode(...bytes))}`
+    // PNG signature and IHDR chunk for 640 x 480
+    const png = toDataURL('image/png', [
+      0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13, 0x49, 0x48, 0x44, 0x52,
+      0, 0, 0x02, 0x80, 0, 0, 0x01, 0xe0, 8, 6, 0, 0, 0,
+    ])
+    // JPEG with an APP0 segment before a 300 x 200 baseline frame
+    const jpeg = toDataURL('image/jpeg', [
+      0xff, 0xd8, 0xff, 0xe0, 0, 4, 0, 0, 0xff, 0xc0, 0, 11, 8, 0, 200, 0x01, 0x2c, 1, 1, 0x11, 0,
+    ])
+    const { shapes } = importShapes(
+      [
+        el({ id: 'p', type: 'image', fileId: 'png', width: 320, height: 240 }),
+        el({ id: 'j', type: 'image', fileId: 'jpeg', width: 30, height: 20 }),
+        el({ id: 'u', type: 'image', fileId: 'unknown', width: 50, height: 40 }),
+      ],
+      {
+        files: {
+          png: { id: 'png', mimeType: 'image/png', dataURL: png },
+          jpeg: { id: 'jpeg', mimeType: 'image/jpeg', dataURL: jpeg },
+          unknown: { id: 'unknown', mimeType: 'image/png', dataURL: 'data:image/png;base64,AAAA' },
+        },
+      },
+    )
+    expect(shapes.get('p')).toMatchObject({ width: 320, height: 240, props: { naturalWidth: 640, naturalHeight: 480 } })
+    expect(shapes.get('j')).toMatchObject({ props: { naturalWidth: 300, naturalHeight: 200 } })
+    // Falls back to the drawn size when the header can't be read
+    expect(shapes.get('u')).toMatchObject({ props: { naturalWidth: 50, naturalHeight: 40 } })
+  })
+
+  it('reports unsupported and malformed elements', () => {
+    const { document, warnings } = importShapes([
+      el({ id: 'f', type: 'frame' }),
+      el({ id: 'e', type: 'embeddable' }),
+      { id: 'bad', type: 'rectangle' } as ExcalidrawElement,
+    ])
+    expect(document.shapes).toEqual([])
+    expect(warnings.map((w) => w.code)).toEqual(['unsupported-element', 'unsupported-element', 'invalid-element'])
+  })
+})
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { render, cleanup, fireEvent, waitFor } from '@testing-library/react'
+import { useRef } from 'react'
+import type { ImageShape, Shape } from '../types'
+import { useFileDrop, type FileDropHandler } from '../hooks/useFileDrop'
+import { serializeDocument } from '../utils/serialization'
+import { createTestStore, getState, makeFrame, makeRect, resetShapeCounter } from './storeFactory'
+
+/** Decodes every image as 400x200 */
+class FakeImage {
+  naturalWidth = 400
+  naturalHeight = 200
+  onload: (() => void) | null = null
+  onerror: (() => void) | null = null
+  set src(_value: string) {
+    setTimeout(() => this.onload?.(), 0)
+  }
+}
+
+function documentFile(shapes: Shape[], name = 'board.json'): File {
+  const doc = serializeDocument(new Map(shapes.map((s) => [s.id, s])), shapes.filter((s) => !s.parentId).map((s) => s.id), { x: 0, y: 0, zoom: 1 })
+  return new File([JSON.stringify(doc)], name, { type: 'application/json' })
+}
+
+const image = (name: string) => new File(['png'], name, { type: 'image/png' })
+
+describe('file drop', () => {
+  let store: ReturnType<typeof createTestStore>
+
+  beforeEach(() => {
+    resetShapeCounter()
+    store = createTestStore()
+    vi.stubGlobal('Image', FakeImage)
+    let urls = 0
+    URL.createObjectURL = vi.fn(() => `blob:test/${++urls}`)
+  })
+
+  afterEach(() => {
+    cleanup()
+    vi.unstubAllGlobals()
+  })
+
+  it('lays out several images in a grid centered on the drop point', async () => {
+    const ids = await store.getState().dropFiles([image('a.png'), image('b.png'), image('c.png')], { x: 1000, y: 500 })
+
+    const shapes = ids.map((id) => getState(store).shapes.get(id) as ImageShape)
+    expect(shapes.map((s) => s.type)).toEqual(['image', 'image', 'image'])
+    // Scaled to 400x200; two columns of 400 with a 20 gap, two rows of 200
+    expect(shapes.map((s) => [s.x, s.y, s.width, s.height])).toEqual([
+      [590, 290, 400, 200],
+      [1010, 290, 400, 200],
+      [590, 510, 400, 200],
+    ])
+    expect(getState(store).selectedIds).toEqual(new Set(ids))
+
+    // One undo step
+    store.getState().undo()
+    expect(getState(store).shapes.size).toBe(0)
+  })
+
+  it('inserts documents, Excalidraw scenes and SVGs, and skips unreadable files', async () => {
+    const frame = makeFrame({ id: 'f', x: 0, y: 0, width: 200, height: 100, props: { ...makeFrame().props, childIds: ['r'] } })
+    const child = makeRect({ id: 'r', parentId: 'f', x: 10, y: 10 })
+    const scene = JSON.stringify({
+      type: 'excalidraw', version: 2, source: 'test',
+      elements: [{ id: 'e1', type: 'ellipse', x: 0, y: 0, width: 60, height: 40, angle: 0, strokeColor: '#000', backgroundColor: 'transparent' }],
+    })
+    const files = [
+      documentFile([frame, child]),
+      new File([scene], 'sketch.excalidraw'),
+      new File(['<svg xmlns="http://www.w3.org/2000/svg"><rect width="30" height="30"/></svg>'], 'icon.svg'),
+      new File(['{"not":"a document"}'], 'broken.json'),
+      new File(['hello'], 'notes.txt', { type: 'text/plain' }),
+    ]
+
+    const ids = await store.getState().dropFiles(files, { x: 0, y: 0 })
+
+    const state = getState(store)
+    expect(ids.map((id) => state.shapes.get(id)!.type)).toEqual(['frame', 'ellipse', 'rectangle'])
+    expect(ids).not.toContain('f')
+    // The frame keeps its (re-keyed) child
+    const copy = state.shapes.get(ids[0]!)!
+    const [childId] = copy.type === 'frame' ? copy.props.childIds : []
+    expect(state.shapes.get(childId!)).toMatchObject({ parentId: copy.id, x: copy.x + 10 })
+    expect(state.shapeIds).toEqual(ids)
+  })
+
+  it('lets onFileDrop intercept files before inserting the rest', async () => {
+    const dropFiles = vi.fn().mockResolvedValue([])
+    store.setState({ dropFiles })
+    const onFileDrop: FileDropHandler = async ({ file }) => file.name.endsWith('.csv')
+
+    function Harness({ handler }: { handler: FileDropHandler }) {
+      const containerRef = useRef<HTMLDivElement>(null)
+      const viewportRef = useRef({ x: 0, y: 0, zoom: 1 })
+      useFileDrop({ getState: store.getState, containerRef, viewportRef, onFileDrop: handler })
+      return <div data-testid="drop" ref={containerRef} />
+    }
+    const view = render(<Harness handler={onFileDrop} />)
+
+    const csv = new File(['a,b'], 'data.csv')
+    const png = image('photo.png')
+    const target = view.getByTestId('drop')
+    const over = fireEvent.dragOver(target, { dataTransfer: { types: ['Files'] } })
+    expect(over).toBe(false)
+    fireEvent.drop(target, { dataTransfer: { types: ['Files'], files: [csv, png] } })
+
+    await waitFor(() => expect(dropFiles).toHaveBeenCalledTimes(1))
+    expect(dropFiles.mock.calls[0]![0]).toEqual([png])
+  })
+
+  it('reports files that fail and inserts the others', async () => {
+    const onFileDrop: FileDropHandler = ({ file }) => {
+      if (file.name === 'data.csv') throw new Error('Unsupported table')
+    }
+    const onFileDropError = vi.fn()
+
+    function Harness() {
+      const containerRef = useRef<HTMLDivElement>(null)
+      const viewportRef = useRef({ x: 0, y: 0, zoom: 1 })
+      useFileDrop({ getState: store.getState, containerRef, viewportRef, onFileDrop, onFileDropError })
+      return <div data-testid="drop" ref={containerRef} />
+    }
+    const view = render(<Harness />)
+
+    const csv = new File(['a,b'], 'data.csv')
+    const broken = new File(['{"not":"a document"}'], 'broken.json')
+    const png = image('photo.png')
+    fireEvent.drop(view.getByTestId('drop'), { dataTransfer: { types: ['Files'], files: [csv, broken, png] } })
+
+    await waitFor(() => expect(getState(store).shapeIds).toHaveLength(1))
+    expect(getState(store).shapes.get(getState(store).shapeIds[0]!)!.type).toBe('image')
+    expect(onFileDropError).toHaveBeenCalledTimes(2)
+    expect(onFileDropError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Unsupported table' }), csv)
+    expect(onFileDropError).toHaveBeenCalledWith(expect.any(Error), broken)
+  })
+
+  it('reports what an Excalidraw scene lost in conversion', async () => {
+    const onFileDropWarning = vi.fn()
+
+    function Harness() {
+      const containerRef = useRef<HTMLDivElement>(null)
+      const viewportRef = useRef({ x: 0, y: 0, zoom: 1 })
+      useFileDrop({ getState: store.getState, containerRef, viewportRef, onFileDropWarning })
+      return <div data-testid="drop" ref={containerRef} />
+    }
+    const view = render(<Harness />)
+
+    const element = {
+      x: 0, y: 0, width: 100, height: 50, angle: 0, strokeColor: '#1e1e1e', backgroundColor: 'transparent',
+      fillStyle: 'solid', strokeWidth: 2, strokeStyle: 'solid', roughness: 1, opacity: 100, seed: 7,
+      groupIds: [], roundness: null, isDeleted: false,
+    }
+    const elements = [{ ...element, id: 'r', type: 'rectangle' }, { ...element, id: 'e', type: 'embeddable' }]
+    const scene = new File([JSON.stringify({ type: 'excalidraw', version: 2, source: 'test', elements })], 'scene.excalidraw')
+    fireEvent.drop(view.getByTestId('drop'), { dataTransfer: { types: ['Files'], files: [scene] } })
+
+    await waitFor(() => expect(onFileDropWarning).toHaveBeenCalledTimes(1))
+    expect(onFileDropWarning).toHaveBeenCalledWith(
+      [expect.objectContaining({ code: 'unsupported-element', elementId: 'e', elementType: 'embeddable' })],
+      scene,
+    )
+    expect(getState(store).shapeIds).toHaveLength(1)
+  })
+})
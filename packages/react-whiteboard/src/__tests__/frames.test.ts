@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import type { FrameShape, Shape } from '../types'
+import {
+  adoptEnclosedShapes,
+  expandFrameChildren,
+  getFrameChildren,
+  reparentToFrames,
+} from '../utils/frames'
+import { getShapeAtPoint } from '../utils/hitTest'
+import { serializeDocument } from '../utils/serialization'
+import { createToolState } from '../tools/types'
+import { startMove, applyMove } from '../tools/handlers'
+import { createTestStore, getState, makeFrame, makeRect, resetShapeCounter } from './storeFactory'
+
+function toMap(...shapes: Shape[]): Map<string, Shape> {
+  return new Map(shapes.map((s) => [s.id, s]))
+}
+
+function frameOf(store: ReturnType<typeof createTestStore>, id = 'f'): FrameShape {
+  return getState(store).shapes.get(id) as FrameShape
+}
+
+describe('frame membership utils', () => {
+  beforeEach(() => {
+    resetShapeCounter()
+  })
+
+  it('adopts only top-level shapes lying entirely inside the frame', () => {
+    const frame = makeFrame({ id: 'f', x: 0, y: 0 })
+    const shapes = toMap(
+      makeRect({ id: 'in', x: 10, y: 10, width: 50, height: 50 }),
+      makeRect({ id: 'partly', x: 380, y: 10, width: 50, height: 50 }),
+      frame,
+    )
+    const result = adoptEnclosedShapes(frame, shapes, ['in', 'partly', 'f'])
+
+    expect(result.shapeIds).toEqual(['partly', 'f'])
+    expect(result.shapes.get('in')!.parentId).toBe('f')
+    expect((result.shapes.get('f') as FrameShape).props.childIds).toEqual(['in'])
+    expect(result.changedIds).toEqual(new Set(['f', 'in']))
+  })
+
+  it('moves shapes into the frame under their center and back out', () => {
+    const shapes = toMap(
+      makeFrame({ id: 'f', x: 0, y: 0 }),
+      makeRect({ id: 'r', x: 350, y: 0, width: 100, height: 100 }),
+    )
+    const joined = reparentToFrames(shapes, ['f', 'r'], ['r'])
+    expect(joined.shapeIds).toEqual(['f'])
+    expect(joined.shapes.get('r')!.parentId).toBe('f')
+    expect(shapes.get('r')!.parentId).toBeNull()
+
+    joined.shapes.set('r', { ...joined.shapes.get('r')!, x: 500 })
+    const left = reparentToFrames(joined.shapes, joined.shapeIds, ['r'])
+    expect(left.shapeIds).toEqual(['f', 'r'])
+    expect((left.shapes.get('f') as FrameShape).props.childIds).toEqual([])
+  })
+
+  it('leaves frames, group children and bound text where they are', () => {
+    const shapes = toMap(
+      makeFrame({ id: 'f', x: 0, y: 0 }),
+      makeFrame({ id: 'inner', x: 10, y: 10, width: 50, height: 50 }),
+      makeRect({ id: 'grouped', x: 10, y: 10, parentId: 'g' }),
+    )
+    const result = reparentToFrames(shapes, ['f', 'inner'], ['inner', 'grouped'])
+    expect(result.shapes).toBe(shapes)
+    expect(result.changedIds.size).toBe(0)
+  })
+
+  it('lists frame children right after their frame', () => {
+    const shapes = toMap(
+      makeFrame({ id: 'f', props: { name: 'F', fill: '#fff', stroke: '#000', childIds: ['a', 'gone'] } }),
+      makeRect({ id: 'a', parentId: 'f' }),
+      makeRect({ id: 'top' }),
+    )
+    expect(expandFrameChildren(shapes, ['f', 'top'])).toEqual(['f', 'a', 'top'])
+  })
+})
+
+describe('frame store actions', () => {
+  let store: ReturnType<typeof createTestStore>
+
+  beforeEach(() => {
+    resetShapeCounter()
+    store = createTestStore()
+  })
+
+  it('adds a frame around existing shapes as one undo step', () => {
+    store.getState().addShape(makeRect({ id: 'a', x: 20, y: 20 }))
+    store.getState().addShape(makeRect({ id: 'out', x: 600, y: 20 }))
+    store.getState().addFrame(makeFrame({ id: 'f', x: 0, y: 0 }))
+
+    expect(getState(store).shapeIds).toEqual(['out', 'f'])
+    expect(frameOf(store).props.childIds).toEqual(['a'])
+
+    store.getState().undo()
+    expect(getState(store).shapeIds).toEqual(['a', 'out'])
+    expect(getState(store).shapes.get('a')!.parentId).toBeNull()
+    expect(getState(store).shapes.has('f')).toBe(false)
+
+    store.getState().redo()
+    expect(getState(store).shapeIds).toEqual(['out', 'f'])
+    expect(getState(store).shapes.get('a')!.parentId).toBe('f')
+  })
+
+  it('records a move and the frame drop as a single history entry', () => {
+    store.getState().addFrame(makeFrame({ id: 'f', x: 0, y: 0 }))
+    store.getState().addShape(makeRect({ id: 'r', x: 600, y: 0 }))
+    const before = [getState(store).shapes.get('r')!]
+    const historyLength = getState(store).history.length
+
+    store.getState().updateShape('r', { x: 50 }, false)
+    store.getState().updateFrameMembership(['r'], before)
+
+    expect(getState(store).history).toHaveLength(historyLength + 1)
+    expect(frameOf(store).props.childIds).toEqual(['r'])
+    expect(getState(store).shapeIds).toEqual(['f'])
+
+    store.getState().undo()
+    expect(getState(store).shapes.get('r')!.x).toBe(600)
+    expect(getState(store).shapes.get('r')!.parentId).toBeNull()
+    expect(getState(store).shapeIds).toEqual(['f', 'r'])
+  })
+
+  it('moves children with their frame', () => {
+    store.getState().addShape(makeRect({ id: 'a', x: 20, y: 20 }))
+    store.getState().addFrame(makeFrame({ id: 'f', x: 0, y: 0 }))
+    store.getState().select('f')
+
+    const state = createToolState()
+    const { beforeStates } = startMove({ x: 5, y: 5 }, getState(store), state)
+    state.dragCurrent = { x: 105, y: 55 }
+    applyMove(getState(store), state)
+
+    expect(getState(store).shapes.get('f')).toMatchObject({ x: 100, y: 50 })
+    expect(getState(store).shapes.get('a')).toMatchObject({ x: 120, y: 70 })
+    expect(beforeStates.map((s) => s.id)).toEqual(['f', 'a'])
+  })
+
+  it('deletes children with their frame and restores them on undo', () => {
+    store.getState().addShape(makeRect({ id: 'a', x: 20, y: 20 }))
+    store.getState().addFrame(makeFrame({ id: 'f', x: 0, y: 0 }))
+    store.getState().deleteShapes(['f'])
+    expect(getState(store).shapes.size).toBe(0)
+
+    store.getState().undo()
+    const frame = frameOf(store)
+    expect(getFrameChildren(frame, getState(store).shapes).map((s) => s.id)).toEqual(['a'])
+    expect(getState(store).shapeIds).toEqual(['f'])
+  })
+
+  it('duplicates a frame with its children under new IDs', () => {
+    store.getState().addShape(makeRect({ id: 'a', x: 20, y: 20 }))
+    store.getState().addFrame(makeFrame({ id: 'f', x: 0, y: 0 }))
+    store.getState().select('f')
+    store.getState().duplicateSelectedShapes()
+
+    const { shapes, shapeIds } = getState(store)
+    expect(shapeIds).toHaveLength(2)
+    const copy = shapes.get(shapeIds[1]!) as FrameShape
+    expect(copy.id).not.toBe('f')
+    const children = getFrameChildren(copy, shapes)
+    expect(children).toHaveLength(1)
+    expect(children[0]!.id).not.toBe('a')
+  })
+
+  it('keeps frame children in serialized documents', () => {
+    store.getState().addShape(makeRect({ id: 'a', x: 20, y: 20 }))
+    store.getState().addFrame(makeFrame({ id: 'f', x: 0, y: 0 }))
+    const { shapes, shapeIds, viewport } = getState(store)
+    const doc = serializeDocument(shapes, shapeIds, viewport)
+    expect(doc.shapes.map((s) => s.id)).toEqual(['f', 'a'])
+  })
+})
+
+describe('frame hit testing', () => {
+  it('hits children inside the frame, and the frame by its title or border', () => {
+    const shapes = toMap(
+      makeFrame({ id: 'f', x: 0, y: 0, props: { name: 'F', fill: '#fff', stroke: '#000', childIds: ['a'] } }),
+      makeRect({ id: 'a', x: 20, y: 20, width: 50, height: 50, parentId: 'f' }),
+    )
+    expect(getShapeAtPoint({ x: 40, y: 40 }, shapes, ['f'])?.id).toBe('a')
+    expect(getShapeAtPoint({ x: 10, y: -10 }, shapes, ['f'])?.id).toBe('f')
+    expect(getShapeAtPoint({ x: 0, y: 150 }, shapes, ['f'])?.id).toBe('f')
+    expect(getShapeAtPoint({ x: 200, y: 150 }, shapes, ['f'])).toBeNull()
+  })
+})
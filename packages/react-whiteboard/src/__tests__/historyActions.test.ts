@@ -1,5 +1,5 @@
-import { describe, it, expect, beforeEach } from 'vitest'
-import { createTestStore, getState, makeRect, resetShapeCounter } from './storeFactory'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createTestStore, getState, makePath, makeRect, resetShapeCounter } from './storeFactory'
 
 describe('historyActions', () => {
   let store: ReturnType<typeof createTestStore>
@@ -155,4 +155,203 @@ describe('historyActions', () => {
       expect(getState(store).history.length).toBe(before)
     })
   })
+
+  describe('compact update entries', () => {
+    it('keeps only the changed props of a long path', () => {
+      const points = Array.from({ length: 2000 }, (_, i) => ({ x: i, y: i % 7 }))
+      const path = makePath({ id: 'p', props: { ...makePath().props, points } })
+      store.getState().addShape(path)
+      store.getState().updateShape('p', { props: { ...path.props, stroke: '#ff0000' } })
+
+      const entry = getState(store).history[1]!
+      expect(entry.action).toEqual({
+        type: 'update',
+        before: [{ id: 'p', props: { stroke: '#000000' } }],
+        after: [{ id: 'p', props: { stroke: '#ff0000' } }],
+      })
+      expect(entry.size).toBeLessThan(getState(store).history[0]!.size / 100)
+
+      store.getState().undo()
+      expect(getState(store).shapes.get('p')).toEqual(path)
+      store.getState().redo()
+      expect(getState(store).shapes.get('p')!.props).toEqual({ ...path.props, stroke: '#ff0000' })
+    })
+  })
+
+  describe('transact', () => {
+    it('records everything in the transaction as one labelled step', () => {
+      store.getState().addShape(makeRect({ id: 'base' }))
+      const result = store.getState().transact('Add pair', () => {
+        store.getState().addShape(makeRect({ id: 'a' }))
+        store.getState().transact('inner', () => store.getState().updateShape('a', { x: 30 }))
+        store.getState().addShape(makeRect({ id: 'b' }))
+        return 'done'
+      })
+
+      expect(result).toBe('done')
+      const { history, historyIndex, historyTransaction } = getState(store)
+      expect(history).toHaveLength(2)
+      expect(historyIndex).toBe(1)
+      expect(historyTransaction).toBeNull()
+      expect(history[1]!.label).toBe('Add pair')
+
+      store.getState().undo()
+      expect(getState(store).shapeIds).toEqual(['base'])
+      store.getState().redo()
+      expect(getState(store).shapeIds).toEqual(['base', 'a', 'b'])
+      expect(getState(store).shapes.get('a')!.x).toBe(30)
+    })
+
+    it('ends the transaction when the callback throws', () => {
+      expect(() => store.getState().transact('Broken', () => {
+        store.getState().addShape(makeRect({ id: 'a' }))
+        throw new Error('boom')
+      })).toThrow('boom')
+
+      expect(getState(store).historyTransaction).toBeNull()
+      expect(getState(store).history).toHaveLength(1)
+      expect(getState(store).history[0]!.label).toBe('Broken')
+    })
+
+    it('records nothing for an empty transaction', () => {
+      store.getState().transact('Nothing', () => {})
+      expect(getState(store).history).toHaveLength(0)
+    })
+  })
+
+  describe('history options', () => {
+    it('caps history by memory and trims when the cap shrinks', () => {
+      store = createTestStore({ history: { maxEntries: Infinity, maxBytes: 20_000 } })
+      for (let i = 0; i < 100; i++) store.getState().addShape(makeRect({ id: `s${i}` }))
+
+      const total = () => getState(store).history.reduce((sum, entry) => sum + entry.size, 0)
+      expect(total()).toBeLessThanOrEqual(20_000)
+      expect(getState(store).history.length).toBeLessThan(100)
+      expect(getState(store).historyIndex).toBe(getState(store).history.length - 1)
+
+      store.getState().setHistoryOptions({ maxEntries: 3 })
+      expect(getState(store).history).toHaveLength(3)
+      expect(getState(store).history[2]!.action).toMatchObject({ type: 'create', shapes: [{ id: 's99' }] })
+    })
+
+    it('merges rapid updates to the same shapes within the merge window', () => {
+      store = createTestStore({ history: { mergeWindow: 500 } })
+      const now = vi.spyOn(Date, 'now').mockReturnValue(1000)
+      store.getState().addShape(makeRect({ id: 'a', x: 0 }))
+      store.getState().addShape(makeRect({ id: 'b', x: 0 }))
+
+      store.getState().updateShape('a', { x: 10 })
+      now.mockReturnValue(1300)
+      store.getState().updateShape('a', { x: 20, y: 5 })
+      now.mockReturnValue(1700)
+      store.getState().updateShape('a', { x: 30 })
+      expect(getState(store).history).toHaveLength(3)
+
+      // Too late, or another shape: separate steps
+      now.mockReturnValue(2500)
+      store.getState().updateShape('a', { x: 40 })
+      store.getState().updateShape('b', { x: 40 })
+      expect(getState(store).history).toHaveLength(5)
+
+      store.getState().undo()
+      store.getState().undo()
+      expect(getState(store).shapes.get('a')).toMatchObject({ x: 30, y: 5 })
+      store.getState().undo()
+      expect(getState(store).shapes.get('a')).toMatchObject({ x: 0, y: 0 })
+      now.mockRestore()
+    })
+  })
+
+  describe('undo tree', () => {
+    const ids = () => getState(store).shapeIds
+
+    beforeEach(() => {
+      store = createTestStore({ history: { undoTree: true } })
+    })
+
+    it('keeps undone steps as a branch and jumps between branches', () => {
+      store.getState().addShape(makeRect({ id: 'a' }))
+      store.getState().addShape(makeRect({ id: 'b' }))
+      const [first, second] = getState(store).history
+      store.getState().undo()
+      store.getState().addShape(makeRect({ id: 'c' }))
+      expect(ids()).toEqual(['a', 'c'])
+
+      const branches = store.getState().listHistoryBranches()
+      expect(branches.map((b) => b.entries.map((e) => e.id))).toEqual([
+        [first!.id, second!.id],
+        [first!.id, getState(store).history[1]!.id],
+      ])
+      expect(branches.map((b) => b.isActive)).toEqual([false, true])
+
+      expect(store.getState().goToHistoryEntry(second!.id)).toBe(true)
+      expect(ids()).toEqual(['a', 'b'])
+      expect(getState(store).history.map((e) => e.id)).toEqual([first!.id, second!.id])
+
+      // Back to the start and down the newest branch with redo
+      store.getState().goToHistoryEntry(null)
+      expect(ids()).toEqual([])
+      store.getState().redo()
+      store.getState().redo()
+      expect(ids()).toEqual(['a', 'b'])
+      expect(store.getState().goToHistoryEntry('missing')).toBe(false)
+    })
+
+    it('records transactions as one node and caps the whole tree', () => {
+      store.getState().setHistoryOptions({ maxEntries: 3 })
+      store.getState().addShape(makeRect({ id: 'a' }))
+      store.getState().undo()
+      store.getState().transact('Two', () => {
+        store.getState().addShape(makeRect({ id: 'b' }))
+        store.getState().addShape(makeRect({ id: 'c' }))
+      })
+      expect(getState(store).historyTree.size).toBe(2)
+      expect(store.getState().listHistoryBranches()).toHaveLength(2)
+
+      // Dropping the first entry of the path drops the branch next to it too
+      store.getState().addShape(makeRect({ id: 'd' }))
+      store.getState().addShape(makeRect({ id: 'e' }))
+      const { historyTree, history } = getState(store)
+      expect(historyTree.size).toBe(2)
+      expect(history).toHaveLength(2)
+      expect(historyTree.get(history[0]!.id)!.parentId).toBeNull()
+      expect(store.getState().listHistoryBranches()).toHaveLength(1)
+    })
+
+    it('merges updates in place and follows the newest branch after a jump', () => {
+      store.getState().setHistoryOptions({ mergeWindow: 500 })
+      const now = vi.spyOn(Date, 'now').mockReturnValue(1000)
+      store.getState().addShape(makeRect({ id: 'a', x: 0 }))
+      store.getState().updateShape('a', { x: 10 })
+      store.getState().updateShape('a', { x: 20 })
+      const [create, move] = getState(store).history
+      expect(getState(store).historyTree.get(create!.id)!.childIds).toEqual([move!.id])
+
+      // Branch off the create, then jump back into the first branch midway
+      now.mockReturnValue(5000)
+      store.getState().updateShape('a', { x: 30 })
+      store.getState().undo()
+      store.getState().undo()
+      store.getState().updateShape('a', { y: 50 })
+      store.getState().goToHistoryEntry(move!.id)
+      expect(getState(store).shapes.get('a')).toMatchObject({ x: 20, y: 0 })
+      store.getState().redo()
+      expect(getState(store).shapes.get('a')).toMatchObject({ x: 30, y: 0 })
+      now.mockRestore()
+    })
+
+    it('builds the tree from the history when turned on, and drops it when off', () => {
+      store = createTestStore()
+      store.getState().addShape(makeRect({ id: 'a' }))
+      store.getState().addShape(makeRect({ id: 'b' }))
+      store.getState().setHistoryOptions({ undoTree: true })
+      expect(store.getState().listHistoryBranches()).toEqual([
+        { entries: getState(store).history, isActive: true },
+      ])
+
+      store.getState().setHistoryOptions({ undoTree: false })
+      expect(getState(store).historyTree.size).toBe(0)
+      expect(store.getState().goToHistoryEntry(null)).toBe(false)
+    })
+  })
 })
@@ -0,0 +1,238 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import type { ImageShape, Point } from '../types'
+import { panImageCrop, resizeImageCrop } from '../utils/imageEditing'
+import { rotatePoint } from '../utils/hitTest'
+import { renderImage } from '../utils/svgShapeRenderers'
+import { clearImageCache, drawImage } from '../core/renderer/imageRenderer'
+import { ToolManager } from '../tools/ToolManager'
+import type { ITool, ToolEventContext } from '../tools/types'
+import { createToolState } from '../tools/types'
+import { createTestStore, getState, makeImage, resetShapeCounter } from './storeFactory'
+
+function pointerAt(x: number, y: number): ToolEventContext {
+  return {
+    screenPoint: { x, y },
+    canvasPoint: { x, y },
+    viewport: { x: 0, y: 0, zoom: 1 },
+    shiftKey: false,
+    ctrlKey: false,
+    metaKey: false,
+    altKey: false,
+    button: 0,
+    pressure: 0.5,
+  }
+}
+
+/** A point given in the image's unrotated frame, in canvas space */
+function onCanvas(image: ImageShape, local: Point): Point {
+  return rotatePoint(local, { x: image.x + image.width / 2, y: image.y + image.height / 2 }, image.rotation)
+}
+
+/** Loads instantly as a 300x300 image */
+class FakeImage {
+  naturalWidth = 300
+  naturalHeight = 300
+  complete = true
+  onload: (() => void) | null = null
+  onerror: (() => void) | null = null
+  set src(_value: string) {
+    setTimeout(() => this.onload?.(), 0)
+  }
+}
+
+// 400x200 image shown at half size
+const cropped = () => makeImage({ id: 'img', width: 100, height: 100, props: { crop: { x: 100, y: 0, width: 200, height: 200 } } as ImageShape['props'] })
+
+describe('image crop geometry', () => {
+  beforeEach(() => resetShapeCounter())
+
+  it('crops from a handle, mirrored for flipped images and within the image', () => {
+    const image = makeImage()
+    expect(resizeImageCrop(image, 'right-center', -50, 0)).toMatchObject({
+      width: 150,
+      props: { crop: { x: 0, y: 0, width: 300, height: 200 } },
+    })
+    // The shown right edge is the image's left edge
+    const flipped = makeImage({ props: { flipX: true } as ImageShape['props'] })
+    expect(resizeImageCrop(flipped, 'right-center', -50, 0).props.crop).toEqual({ x: 100, y: 0, width: 300, height: 200 })
+    expect(resizeImageCrop(image, 'left-center', -30, 0)).toMatchObject({ x: 0, width: 200, props: { crop: { x: 0, width: 400 } } })
+  })
+
+  it('keeps the opposite edge of a rotated image in place', () => {
+    const image = makeImage({ rotation: Math.PI / 2 })
+    const anchor = onCanvas(image, { x: image.x, y: image.y + image.height / 2 })
+
+    // Rotated a quarter turn, the image's right edge points down
+    const next = resizeImageCrop(image, 'right-center', 0, -50)
+    expect(next.width).toBe(150)
+    const moved = onCanvas(next, { x: next.x, y: next.y + next.height / 2 })
+    expect(moved.x).toBeCloseTo(anchor.x)
+    expect(moved.y).toBeCloseTo(anchor.y)
+  })
+
+  it('pans the image under the crop without leaving the image', () => {
+    const image = cropped()
+    expect(panImageCrop(image, 20, 0)).toMatchObject({ x: 0, width: 100, props: { crop: { x: 60, width: 200 } } })
+    expect(panImageCrop(image, 100, 40).props.crop).toEqual({ x: 0, y: 0, width: 200, height: 200 })
+    expect(panImageCrop(image, -500, 0).props.crop).toMatchObject({ x: 200 })
+  })
+})
+
+describe('image crop mode', () => {
+  let store: ReturnType<typeof createTestStore>
+  let tool: ITool
+
+  beforeEach(() => {
+    resetShapeCounter()
+    store = createTestStore()
+    const manager = new ToolManager()
+    manager.setStoreGetter(() => store.getState())
+    tool = manager.getTool('select')!
+  })
+
+  it('crops by dragging a handle after a double-click, as one undo step', () => {
+    store.getState().addShape(makeImage({ id: 'img' }))
+    tool.onDoubleClick!(pointerAt(100, 50), store.getState())
+    expect(getState(store).croppingImageId).toBe('img')
+    expect(getState(store).selectedIds).toEqual(new Set(['img']))
+
+    const state = createToolState()
+    tool.onPointerDown(pointerAt(200, 50), store.getState(), state)
+    tool.onPointerMove(pointerAt(150, 50), store.getState(), state)
+    tool.onPointerUp(pointerAt(150, 50), store.getState(), state)
+    expect(getState(store).shapes.get('img')).toMatchObject({ width: 150, props: { crop: { x: 0, width: 300 } } })
+
+    store.getState().undo()
+    expect(getState(store).shapes.get('img')).toMatchObject({ width: 200 })
+    expect((getState(store).shapes.get('img') as ImageShape).props).not.toHaveProperty('crop')
+
+    // Clicking away leaves crop mode
+    tool.onPointerDown(pointerAt(500, 500), store.getState(), state)
+    tool.onPointerUp(pointerAt(500, 500), store.getState(), state)
+    expect(getState(store).croppingImageId).toBeNull()
+  })
+
+  it('ignores locked images and leaves crop mode when deselected', () => {
+    store.getState().addShape(makeImage({ id: 'locked', isLocked: true }))
+    store.getState().setCroppingImageId('locked')
+    expect(getState(store).croppingImageId).toBeNull()
+
+    store.getState().addShape(makeImage({ id: 'img' }))
+    store.getState().setCroppingImageId('img')
+    store.getState().select('locked')
+    expect(getState(store).croppingImageId).toBeNull()
+  })
+})
+
+describe('image editing actions', () => {
+  let store: ReturnType<typeof createTestStore>
+
+  beforeEach(() => {
+    resetShapeCounter()
+    store = createTestStore()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+    clearImageCache()
+  })
+
+  it('flips and filters the selected images', () => {
+    store.getState().addShape(makeImage({ id: 'a' }))
+    store.getState().addShape(makeImage({ id: 'b', props: { flipX: true } as ImageShape['props'] }))
+    store.getState().selectMultiple(['a', 'b'])
+
+    store.getState().flipSelectedImages('horizontal')
+    expect(['a', 'b'].map((id) => (getState(store).shapes.get(id) as ImageShape).props.flipX)).toEqual([true, false])
+    store.getState().undo()
+    expect((getState(store).shapes.get('a') as ImageShape).props.flipX).toBeUndefined()
+
+    store.getState().setSelectedImageFilter({ grayscale: 1 })
+    expect((getState(store).shapes.get('a') as ImageShape).props.filter).toEqual({ brightness: 1, grayscale: 1 })
+    store.getState().setSelectedImageFilter({ grayscale: 0 })
+    expect((getState(store).shapes.get('a') as ImageShape).props).not.toHaveProperty('filter')
+  })
+
+  it('replaces the image inside the same bounds and resets crops', async () => {
+    vi.stubGlobal('Image', FakeImage)
+    URL.createObjectURL = vi.fn(() => 'blob:test/new')
+    store.getState().addShape(cropped())
+
+    expect(await store.getState().replaceImage('img', new Blob(['png'], { type: 'image/png' }))).toBe(true)
+    // A square image in a 1:1 shape shows whole
+    expect(getState(store).shapes.get('img')).toMatchObject({
+      x: 0, y: 0, width: 100, height: 100,
+      props: { src: 'blob:test/new', naturalWidth: 300, naturalHeight: 300 },
+    })
+    expect((getState(store).shapes.get('img') as ImageShape).props).not.toHaveProperty('crop')
+
+    store.getState().addShape(makeImage({ id: 'wide' }))
+    await store.getState().replaceImage('wide', new Blob(['png'], { type: 'image/png' }))
+    expect((getState(store).shapes.get('wide') as ImageShape).props.crop).toEqual({ x: 0, y: 75, width: 300, height: 150 })
+  })
+
+  it('shows the whole image again at the same scale', () => {
+    store.getState().addShape(cropped())
+    store.getState().resetImageCrop('img')
+    expect(getState(store).shapes.get('img')).toMatchObject({ x: -50, y: 0, width: 200, height: 100 })
+    expect((getState(store).shapes.get('img') as ImageShape).props).not.toHaveProperty('crop')
+  })
+
+  it('draws the crop, flips and filter on canvas and in SVG', () => {
+    const image = makeImage({
+      ...cropped(),
+      props: { ...cropped().props, flipX: true, filter: { brightness: 1.2, grayscale: 1 } },
+    })
+
+    vi.stubGlobal('Image', class extends FakeImage {
+      naturalWidth = 400
+      naturalHeight = 200
+    })
+    const ctx = document.createElement('canvas').getContext('2d')!
+    const filters: string[] = []
+    const draw = vi.spyOn(ctx, 'drawImage').mockImplementation(() => filters.push(ctx.filter))
+    const scale = vi.spyOn(ctx, 'scale')
+    drawImage(ctx, image, false, () => {})
+    expect(draw).toHaveBeenCalledWith(expect.any(FakeImage), 100, 0, 200, 200, 0, 0, 100, 100)
+    expect(scale).toHaveBeenCalledWith(-1, 1)
+    expect(filters).toEqual(['brightness(1.2) grayscale(1)'])
+
+    const g = renderImage(image)
+    const view = g.querySelector('svg')!
+    expect(view.getAttribute('viewBox')).toBe('0 0 100 100')
+    const img = view.querySelector('image')!
+    // The whole image, mirrored about its center and clipped by the viewport
+    expect(['x', 'y', 'width', 'height'].map((name) => img.getAttribute(name))).toEqual(['-50', '0', '200', '100'])
+    expect(img.getAttribute('transform')).toBe('matrix(-1 0 0 1 100 0)')
+    expect(img.getAttribute('filter')).toBe('url(#image-filter-img)')
+    expect(g.querySelector('filter#image-filter-img feFuncR')!.getAttribute('slope')).toBe('1.2')
+    expect(g.querySelector('feColorMatrix')!.getAttribute('values')).toBe('0')
+
+    // Unedited images are drawn as before
+    const plain = renderImage(makeImage())
+    expect(plain.querySelector('svg, filter')).toBeNull()
+    expect(plain.querySelector('image')!.getAttribute('width')).toBe('200')
+  })
+
+  it('draws images whose stored size is not their pixel size', () => {
+    vi.stubGlobal('Image', FakeImage)
+    const ctx = document.createElement('canvas').getContext('2d')!
+    const draw = vi.spyOn(ctx, 'drawImage')
+
+    // Stored at its 150x150 display size, as imports do; the image is 300x300
+    const imported = makeImage({ width: 150, height: 150, props: { naturalWidth: 150, naturalHeight: 150 } as ImageShape['props'] })
+    drawImage(ctx, imported, false, () => {})
+    expect(draw).toHaveBeenLastCalledWith(expect.any(FakeImage), 0, 0, 150, 150)
+
+    // Crops map from the stored size to the image's pixels
+    const croppedImport = makeImage({
+      ...imported,
+      width: 75,
+      height: 75,
+      props: { ...imported.props, crop: { x: 75, y: 0, width: 75, height: 75 } },
+    })
+    drawImage(ctx, croppedImport, false, () => {})
+    expect(draw).toHaveBeenLastCalledWith(expect.any(FakeImage), 150, 0, 150, 150, 0, 0, 75, 75)
+  })
+})
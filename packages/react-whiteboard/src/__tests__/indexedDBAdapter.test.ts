@@ -0,0 +1,227 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { IDBFactory, IDBObjectStore } from 'fake-indexeddb'
+import type { ImageShape, Shape } from '../types'
+import { IndexedDBAdapter } from '../persistence'
+import { serializeDocument, parseDocument } from '../utils/serialization'
+import { clearBlobStore, getBlob, storeBlobAsUrl } from '../utils/imageBlobStore'
+import { createTestStore, getState, makeRect, resetShapeCounter } from './storeFactory'
+
+function makeImage(id: string, src: string): ImageShape {
+  return {
+    ...makeRect({ id }),
+    type: 'image',
+    props: { src, naturalWidth: 10, naturalHeight: 10 },
+  } as ImageShape
+}
+
+function documentJSON(shapes: Shape[]): string {
+  const map = new Map(shapes.map((shape) => [shape.id, shape]))
+  return JSON.stringify(serializeDocument(map, [...map.keys()], { x: 0, y: 0, zoom: 1 }))
+}
+
+function imageSources(json: string): string[] {
+  return parseDocument(json).shapes.map((shape) => (shape as ImageShape).props.src)
+}
+
+describe('IndexedDBAdapter', () => {
+  let factory: IDBFactory
+  let adapters: IndexedDBAdapter[]
+  let urlCount = 0
+
+  function createAdapter(boardId?: string, onError?: (error: Error) => void) {
+    const adapter = new IndexedDBAdapter({ boardId, indexedDB: factory, onError })
+    adapters.push(adapter)
+    return adapter
+  }
+
+  async function storedBlobKeys(): Promise<string[]> {
+    const db = await new Promise<IDBDatabase>((resolve) => {
+      const req = factory.open('react-whiteboard')
+      req.onsuccess = () => resolve(req.result)
+    })
+    const keys = await new Promise<IDBValidKey[]>((resolve) => {
+      const req = db.transaction('blobs').objectStore('blobs').getAllKeys()
+      req.onsuccess = () => resolve(req.result)
+    })
+    db.close()
+    return keys.map(String)
+  }
+
+  beforeEach(() => {
+    resetShapeCounter()
+    factory = new IDBFactory()
+    adapters = []
+    URL.createObjectURL = vi.fn(() => `blob:test/${++urlCount}`)
+    URL.revokeObjectURL = vi.fn()
+  })
+
+  afterEach(() => {
+    for (const adapter of adapters) adapter.close()
+    clearBlobStore()
+  })
+
+  it('saves and loads documents per board', async () => {
+    const a = createAdapter('a')
+    const b = createAdapter('b')
+    expect(await a.load()).toBeNull()
+
+    await a.save(documentJSON([makeRect({ id: 'r1' })]))
+    await b.save(documentJSON([makeRect({ id: 'r2' })]))
+    expect(parseDocument((await a.load())!).shapeIds).toEqual(['r1'])
+    expect(parseDocument((await b.load())!).shapeIds).toEqual(['r2'])
+    expect((await a.listBoards()).sort()).toEqual(['a', 'b'])
+
+    await a.clear()
+    expect(await a.load()).toBeNull()
+    expect(await b.listBoards()).toEqual(['b'])
+  })
+
+  it('stores each image once by content and restores it as a blob URL', async () => {
+    const put = vi.spyOn(IDBObjectStore.prototype, 'put')
+    const blobPuts = () => put.mock.contexts.filter((store) => (store as IDBObjectStore).name === 'blobs').length
+    const url = storeBlobAsUrl(new Blob([new Uint8Array([1, 2, 3])], { type: 'image/png' }))
+    const a = createAdapter('a')
+
+    await a.save(documentJSON([makeImage('i1', url)]))
+    await a.save(documentJSON([makeImage('i1', url), makeRect({ id: 'r1' })]))
+    // The same bytes as a data URL, from another board
+    await createAdapter('b').save(documentJSON([makeImage('i2', 'data:image/png;base64,AQID')]))
+    expect(blobPuts()).toBe(1)
+    expect(await storedBlobKeys()).toHaveLength(1)
+
+    const [src] = imageSources((await createAdapter('a').load())!)
+    expect(src).toMatch(/^blob:/)
+    expect(getBlob(src!)!.type).toBe('image/png')
+    put.mockRestore()
+  })
+
+  it('deletes images nothing refers to anymore', async () => {
+    const a = createAdapter('a')
+    const first = storeBlobAsUrl(new Blob([new Uint8Array([1])], { type: 'image/png' }))
+    const second = storeBlobAsUrl(new Blob([new Uint8Array([2])], { type: 'image/png' }))
+
+    await a.save(documentJSON([makeImage('i1', first), makeImage('i2', second)]))
+    await a.saveCheckpoint({ id: 'c1', name: 'v1', createdAt: 1, shapeCount: 2 }, documentJSON([makeImage('i2', second)]))
+    expect(await storedBlobKeys()).toHaveLength(2)
+
+    // The checkpoint still holds the second image
+    await a.save(documentJSON([makeImage('i1', first)]))
+    await a.clear()
+    expect(await storedBlobKeys()).toHaveLength(1)
+
+    await a.deleteCheckpoint('c1')
+    expect(await storedBlobKeys()).toHaveLength(0)
+  })
+
+  it('writes new images in the transaction that writes the document referring to them', async () => {
+    // Otherwise another board's cleanup could delete them in between
+    const put = vi.spyOn(IDBObjectStore.prototype, 'put')
+    const putIn = (name: string) =>
+      (put.mock.contexts as IDBObjectStore[]).filter((store) => store.name === name).map((store) => store.transaction)
+    const a = createAdapter('a')
+
+    await a.save(documentJSON([makeImage('i1', storeBlobAsUrl(new Blob([new Uint8Array([4])], { type: 'image/png' })))]))
+    expect(putIn('blobs')[0]).toBe(putIn('documents')[0])
+
+    await a.saveCheckpoint(
+      { id: 'c1', name: 'v1', createdAt: 1, shapeCount: 1 },
+      documentJSON([makeImage('i2', storeBlobAsUrl(new Blob([new Uint8Array([5])], { type: 'image/png' })))]),
+    )
+    expect(putIn('blobs')[1]).toBe(putIn('checkpoints')[0])
+    expect(imageSources((await createAdapter('a').load())!)[0]).toMatch(/^blob:/)
+    put.mockRestore()
+  })
+
+  it('stores checkpoints per board, loading images as data URLs', async () => {
+    const a = createAdapter('a')
+    const url = storeBlobAsUrl(new Blob([new Uint8Array([1, 2, 3])], { type: 'image/png' }))
+    await a.saveCheckpoint({ id: 'c2', name: 'later', createdAt: 20, shapeCount: 1 }, documentJSON([makeImage('i', url)]))
+    await a.saveCheckpoint({ id: 'c1', name: 'earlier', createdAt: 10, shapeCount: 0 }, documentJSON([]))
+    await createAdapter('b').saveCheckpoint({ id: 'c3', name: 'other', createdAt: 5, shapeCount: 0 }, documentJSON([]))
+
+    expect((await a.listCheckpoints()).map((c) => c.name)).toEqual(['earlier', 'later'])
+    expect(imageSources((await a.loadCheckpoint('c2'))!)).toEqual(['data:image/png;base64,AQID'])
+    expect(await a.loadCheckpoint('c3')).toBeNull()
+  })
+
+  it('works as the store checkpoint backend', async () => {
+    const store = createTestStore()
+    store.getState().setPersistenceAdapter(createAdapter('a'))
+    store.getState().addShape(makeRect({ id: 'r1' }))
+    const checkpoint = await store.getState().createCheckpoint('v1')
+    store.getState().deleteShapes(['r1'])
+
+    expect(await store.getState().restoreCheckpoint(checkpoint.id)).toBe(true)
+    expect(getState(store).shapeIds).toEqual(['r1'])
+  })
+
+  it('replays logged ops on load and folds them in on compact', async () => {
+    const a = createAdapter('a')
+    const url = storeBlobAsUrl(new Blob([new Uint8Array([1, 2, 3])], { type: 'image/png' }))
+    await a.save(documentJSON([makeRect({ id: 'r1' }), makeRect({ id: 'r2' })]))
+    await a.saveChanges([
+      { type: 'create', shapes: [makeImage('i1', url)] },
+      { type: 'reorder', shapeIds: ['r1', 'r2', 'i1'] },
+    ])
+    await a.saveChanges([
+      { type: 'update', shapes: [makeRect({ id: 'r1', x: 40 })] },
+      { type: 'delete', ids: ['r2'] },
+      { type: 'reorder', shapeIds: ['r1', 'i1'] },
+    ])
+
+    const check = async (json: string | null) => {
+      const doc = parseDocument(json!)
+      expect(doc.shapeIds).toEqual(['r1', 'i1'])
+      expect(doc.shapes.find((shape) => shape.id === 'r1')!.x).toBe(40)
+      expect((doc.shapes.find((shape) => shape.id === 'i1') as ImageShape).props.src).toMatch(/^blob:/)
+    }
+    await check(await createAdapter('a').load())
+    expect(await storedBlobKeys()).toHaveLength(1)
+
+    await a.compact()
+    await check(await createAdapter('a').load())
+    // A full save replaces the log
+    await a.saveChanges([{ type: 'delete', ids: ['i1'] }])
+    await a.save(documentJSON([makeRect({ id: 'r3' })]))
+    expect(parseDocument((await createAdapter('a').load())!).shapeIds).toEqual(['r3'])
+  })
+
+  it('lists boards with only logged ops and deletes images their compaction drops', async () => {
+    const a = createAdapter('a')
+    const url = storeBlobAsUrl(new Blob([new Uint8Array([7])], { type: 'image/png' }))
+    await a.saveChanges([{ type: 'create', shapes: [makeImage('i1', url)] }, { type: 'reorder', shapeIds: ['i1'] }])
+    expect(await a.listBoards()).toEqual(['a'])
+
+    await a.saveChanges([{ type: 'delete', ids: ['i1'] }, { type: 'reorder', shapeIds: [] }])
+    expect(await storedBlobKeys()).toHaveLength(1)
+    await a.compact()
+    expect(await storedBlobKeys()).toHaveLength(0)
+
+    await a.clear()
+    expect(await a.listBoards()).toEqual([])
+  })
+
+  it('reports failures to onError', async () => {
+    const onError = vi.fn()
+    await createAdapter('a', onError).save('not json')
+    expect(onError).toHaveBeenCalledWith(expect.any(Error))
+  })
+
+  it('rejects logged ops it fails to write, keeping none of them', async () => {
+    const onError = vi.fn()
+    const a = createAdapter('a', onError)
+    const add = vi.spyOn(IDBObjectStore.prototype, 'add').mockImplementationOnce(() => {
+      throw new DOMException('Quota exceeded', 'QuotaExceededError')
+    })
+
+    const ops = [{ type: 'create' as const, shapes: [makeRect({ id: 'r1' })] }, { type: 'reorder' as const, shapeIds: ['r1'] }]
+    await expect(a.saveChanges(ops)).rejects.toThrow('Quota exceeded')
+    expect(onError).toHaveBeenCalledWith(expect.any(Error))
+    expect(await a.load()).toBeNull()
+
+    // Saving them again works once storage does
+    await a.saveChanges(ops)
+    expect(parseDocument((await a.load())!).shapeIds).toEqual(['r1'])
+    add.mockRestore()
+  })
+})
@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import * as Y from 'yjs'
+import { Awareness } from 'y-protocols/awareness'
+import { bindPresence, AwarenessPresenceAdapter } from '../collaboration'
+import type { PresenceAdapter } from '../collaboration'
+import { getPeerColor } from '../utils/presence'
+import type { PeerPresence, PresenceState } from '../types'
+import { createTestStore, makeRect } from './storeFactory'
+
+/** In-memory presence hub: every adapter sees the others' latest state */
+function createHub() {
+  const states = new Map<string, PresenceState>()
+  const listeners = new Map<string, (peers: PeerPresence[]) => void>()
+  const notify = () => {
+    for (const [clientId, listener] of listeners) {
+      const peers = [...states].filter(([id]) => id !== clientId).map(([id, s]) => ({ ...s, clientId: id }))
+      listener(peers)
+    }
+  }
+  return {
+    adapter(clientId: string): PresenceAdapter {
+      return {
+        setLocalState: vi.fn((state: PresenceState | null) => {
+          if (state) states.set(clientId, state)
+          else states.delete(clientId)
+          notify()
+        }),
+        subscribe(listener) {
+          listeners.set(clientId, listener)
+          notify()
+          return () => listeners.delete(clientId)
+        },
+      }
+    },
+  }
+}
+
+describe('presence store actions', () => {
+  it('setCursorPosition skips identical points', () => {
+    const store = createTestStore()
+    const listener = vi.fn()
+    store.subscribe((s) => s.cursorPosition, listener)
+
+    store.getState().setCursorPosition({ x: 1, y: 2 })
+    store.getState().setCursorPosition({ x: 1, y: 2 })
+    store.getState().setCursorPosition(null)
+    expect(listener).toHaveBeenCalledTimes(2)
+    expect(store.getState().cursorPosition).toBeNull()
+  })
+
+  it('presence changes never write history', () => {
+    const store = createTestStore()
+    store.getState().setCursorPosition({ x: 5, y: 5 })
+    store.getState().setPeers([])
+    expect(store.getState().history).toHaveLength(0)
+  })
+})
+
+describe('bindPresence', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('publishes cursor, selection, tool and viewport to peers', () => {
+    const hub = createHub()
+    const storeA = createTestStore()
+    const storeB = createTestStore()
+    bindPresence(storeA, hub.adapter('a'), { name: 'Ada' })
+    bindPresence(storeB, hub.adapter('b'), { name: 'Bo', color: '#123456' })
+
+    storeA.getState().addShape(makeRect({ id: 'r' }))
+    storeA.getState().select('r')
+    vi.advanceTimersByTime(50)
+    storeA.getState().setCursorPosition({ x: 40, y: 60 })
+    vi.advanceTimersByTime(50)
+
+    expect(storeB.getState().peers).toEqual([
+      {
+        clientId: 'a',
+        user: { name: 'Ada' },
+        cursor: { x: 40, y: 60 },
+        selectedIds: ['r'],
+        tool: 'select',
+        viewport: { x: 0, y: 0, zoom: 1 },
+      },
+    ])
+    expect(storeA.getState().peers.map((p) => p.user)).toEqual([{ name: 'Bo', color: '#123456' }])
+  })
+
+  it('throttles updates but always sends the latest state', () => {
+    const hub = createHub()
+    const store = createTestStore()
+    const adapter = hub.adapter('a')
+    bindPresence(store, adapter, { name: 'Ada' }, { throttleMs: 100 })
+    expect(adapter.setLocalState).toHaveBeenCalledTimes(1)
+
+    for (let i = 1; i <= 5; i++) store.getState().setCursorPosition({ x: i, y: 0 })
+    expect(adapter.setLocalState).toHaveBeenCalledTimes(2)
+
+    vi.advanceTimersByTime(100)
+    expect(adapter.setLocalState).toHaveBeenCalledTimes(3)
+    expect(vi.mocked(adapter.setLocalState).mock.lastCall![0]!.cursor).toEqual({ x: 5, y: 0 })
+
+    vi.advanceTimersByTime(500)
+    expect(adapter.setLocalState).toHaveBeenCalledTimes(3)
+  })
+
+  it('ignores store changes that presence does not carry', () => {
+    const hub = createHub()
+    const store = createTestStore()
+    const adapter = hub.adapter('a')
+    bindPresence(store, adapter, { name: 'Ada' })
+
+    store.getState().addShape(makeRect())
+    store.getState().setIsDrawing(true)
+    expect(adapter.setLocalState).toHaveBeenCalledTimes(1)
+  })
+
+  it('withdraws presence and clears peers when unbound', () => {
+    const hub = createHub()
+    const storeA = createTestStore()
+    const storeB = createTestStore()
+    const unbindA = bindPresence(storeA, hub.adapter('a'), { name: 'Ada' })
+    const unbindB = bindPresence(storeB, hub.adapter('b'), { name: 'Bo' })
+    expect(storeB.getState().peers).toHaveLength(1)
+
+    unbindA()
+    expect(storeA.getState().peers).toEqual([])
+    expect(storeB.getState().peers).toEqual([])
+    unbindB()
+  })
+})
+
+describe('AwarenessPresenceAdapter', () => {
+  it('reports other clients with a valid presence field', () => {
+    const local = new Awareness(new Y.Doc())
+    const remote = new Awareness(new Y.Doc())
+    const adapter = new AwarenessPresenceAdapter(local)
+    const listener = vi.fn()
+    adapter.subscribe(listener)
+
+    const state: PresenceState = {
+      user: { name: 'Bo' },
+      cursor: null,
+      selectedIds: [],
+      tool: 'draw',
+      viewport: { x: 0, y: 0, zoom: 2 },
+    }
+    adapter.setLocalState(state)
+    remote.setLocalStateField('whiteboard', state)
+    local.states.set(remote.clientID, remote.getLocalState()!)
+    local.states.set(999, { whiteboard: { cursor: 'garbage' } })
+    local.emit('change', [{ added: [remote.clientID, 999], updated: [], removed: [] }, 'remote'])
+
+    const peers = listener.mock.lastCall![0] as PeerPresence[]
+    expect(peers).toEqual([{ ...state, clientId: String(remote.clientID) }])
+    expect(local.getLocalState()).toEqual({ whiteboard: state })
+
+    local.destroy()
+    remote.destroy()
+  })
+})
+
+describe('getPeerColor', () => {
+  const palette = ['#a', '#b', '#c']
+
+  it('prefers the user color', () => {
+    expect(getPeerColor({ clientId: '1', user: { name: 'x', color: '#fff' } }, palette)).toBe('#fff')
+  })
+
+  it('picks a stable palette entry per client', () => {
+    const color = getPeerColor({ clientId: '42', user: { name: 'x' } }, palette)
+    expect(palette).toContain(color)
+    expect(getPeerColor({ clientId: '42', user: { name: 'y' } }, palette)).toBe(color)
+  })
+})
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest'
+import { applyShapePatch, diffShape, diffShapes, isDeepEqual, mergeShapePatches } from '../utils/shapeDiff'
+import { makePath, makeRect } from './storeFactory'
+
+describe('shapeDiff', () => {
+  it('compares JSON-like values structurally', () => {
+    expect(isDeepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toBe(true)
+    expect(isDeepEqual({ a: [1, 2] }, { a: [1, 3] })).toBe(false)
+    expect(isDeepEqual([1], { 0: 1 })).toBe(false)
+    expect(isDeepEqual({ a: 1 }, { b: 1 })).toBe(false)
+    expect(isDeepEqual({ a: 1 }, { a: 1, b: 2 })).toBe(false)
+    expect(isDeepEqual(null, {})).toBe(false)
+  })
+
+  it('records only the changed fields and props', () => {
+    const points = Array.from({ length: 1000 }, (_, i) => ({ x: i, y: i }))
+    const path = makePath({ id: 'p', props: { ...makePath().props, points } })
+    // A clone, as the keyboard and style actions take before snapshots
+    const before = structuredClone(path)
+    const after = { ...path, x: 40, props: { ...path.props, stroke: '#ff0000' } }
+
+    expect(diffShape(before, after)).toEqual({
+      before: { id: 'p', x: 0, props: { stroke: '#000000' } },
+      after: { id: 'p', x: 40, props: { stroke: '#ff0000' } },
+    })
+    expect(diffShape(path, structuredClone(path))).toBeNull()
+  })
+
+  it('records added and removed fields as undefined, and applies them', () => {
+    const rect = makeRect({ id: 'r' })
+    const bound = { ...rect, meta: { tag: 1 }, props: { ...rect.props, boundTextId: 't' } }
+    const diff = diffShape(rect, bound)!
+    expect(diff.before).toEqual({ id: 'r', meta: undefined, props: { boundTextId: undefined } })
+
+    const restored = applyShapePatch(bound, diff.before)
+    expect(restored).toEqual(rect)
+    expect('meta' in restored).toBe(false)
+    expect(applyShapePatch(rect, diff.after)).toEqual(bound)
+  })
+
+  it('pairs shapes by ID and drops unchanged ones', () => {
+    const a = makeRect({ id: 'a' })
+    const b = makeRect({ id: 'b' })
+    const result = diffShapes([a, b], [{ ...b, y: 9 }, a])
+    expect(result).toEqual({ before: [{ id: 'b', y: 0 }], after: [{ id: 'b', y: 9 }] })
+  })
+
+  it('merges patches prop by prop', () => {
+    expect(mergeShapePatches({ id: 'a', x: 1, props: { fill: 'red' } }, { id: 'a', y: 2, props: { stroke: 'blue' } }))
+      .toEqual({ id: 'a', x: 1, y: 2, props: { fill: 'red', stroke: 'blue' } })
+  })
+})
@@ -0,0 +1,85 @@
+import { bench, describe } from 'vitest'
+import type { Shape } from '../types'
+import { SpatialIndex } from '../utils/spatialIndex'
+import { getShapeAtPoint, getShapesInBounds } from '../utils/hitTest'
+import { snapToShapes } from '../utils/snapping'
+import { boundsIntersect } from '../utils/canvas'
+import { createTestStore, makeRect, seededRandom } from './storeFactory'
+
+/** Shapes on a square board at roughly constant density */
+function makeBoard(count: number): { shapes: Map<string, Shape>; shapeIds: string[] } {
+  const next = seededRandom(count)
+  const side = Math.sqrt(count) * 150
+  const shapes = new Map<string, Shape>()
+  for (let i = 0; i < count; i++) {
+    const shape = makeRect({
+      id: `s${i}`,
+      x: next() * side,
+      y: next() * side,
+      width: 40 + next() * 60,
+      height: 30 + next() * 45,
+    })
+    shapes.set(shape.id, shape)
+  }
+  return { shapes, shapeIds: [...shapes.keys()] }
+}
+
+for (const count of [1_000, 10_000, 50_000]) {
+  const { shapes, shapeIds } = makeBoard(count)
+  const index = new SpatialIndex()
+  index.rebuild(shapes)
+
+  const point = { x: 1234, y: 987 }
+  const viewport = { x: 500, y: 500, width: 1600, height: 900 }
+  const moving = { x: 800, y: 600, width: 120, height: 80 }
+  const none = new Set<string>()
+
+  describe(`hit test, ${count} shapes`, () => {
+    bench('scan', () => {
+      getShapeAtPoint(point, shapes, shapeIds, 2)
+    })
+    bench('index', () => {
+      getShapeAtPoint(point, shapes, shapeIds, 2, undefined, index)
+    })
+  })
+
+  describe(`marquee, ${count} shapes`, () => {
+    bench('scan', () => {
+      getShapesInBounds(viewport, shapes, shapeIds)
+    })
+    bench('index', () => {
+      getShapesInBounds(viewport, shapes, shapeIds, true, index)
+    })
+  })
+
+  describe(`snapping, ${count} shapes`, () => {
+    bench('scan', () => {
+      snapToShapes(moving, shapes, shapeIds, none)
+    })
+    bench('index', () => {
+      snapToShapes(moving, shapes, shapeIds, none, 5, index)
+    })
+  })
+
+  describe(`viewport culling, ${count} shapes`, () => {
+    bench('scan', () => {
+      shapeIds.filter((id) => boundsIntersect(shapes.get(id)!, viewport))
+    })
+    bench('index', () => {
+      index.queryShapeIds(shapes, shapeIds, viewport).filter((id) => boundsIntersect(shapes.get(id)!, viewport))
+    })
+  })
+
+  describe(`drag update, ${count} shapes`, () => {
+    const store = createTestStore()
+    store.getState().loadDocument(shapes, shapeIds, { x: 0, y: 0, zoom: 1 })
+    let dx = 0
+
+    bench('move one shape, then hit test', () => {
+      dx = (dx + 1) % 100
+      store.getState().updateShapesBatch(new Map([['s0', { x: dx }]]))
+      const state = store.getState()
+      getShapeAtPoint(point, state.shapes, state.shapeIds, 2, undefined, state.spatialIndex)
+    })
+  })
+}
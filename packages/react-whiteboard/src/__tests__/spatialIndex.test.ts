@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import type { Shape } from '../types'
+import { QuadTree, type QuadTreeBox } from '../utils/quadTree'
+import { SpatialIndex } from '../utils/spatialIndex'
+import { getShapeAtPoint, getShapesInBounds } from '../utils/hitTest'
+import { snapToShapes } from '../utils/snapping'
+import { createTestStore, getState, makeEllipse, makeRect, makeText, resetShapeCounter, seededRandom } from './storeFactory'
+
+function randomBoxes(count: number, next: () => number): Map<string, QuadTreeBox> {
+  const boxes = new Map<string, QuadTreeBox>()
+  for (let i = 0; i < count; i++) {
+    // Mostly small boxes, some huge ones, spread well past the initial root
+    const size = next() < 0.05 ? next() * 20000 : next() * 200
+    const minX = (next() - 0.5) * 40000
+    const minY = (next() - 0.5) * 40000
+    boxes.set(`b${i}`, { minX, minY, maxX: minX + size, maxY: minY + size * next() })
+  }
+  return boxes
+}
+
+function bruteForce(boxes: Map<string, QuadTreeBox>, q: QuadTreeBox): string[] {
+  return [...boxes]
+    .filter(([, b]) => b.minX <= q.maxX && b.maxX >= q.minX && b.minY <= q.maxY && b.maxY >= q.minY)
+    .map(([id]) => id)
+    .sort()
+}
+
+function randomBoard(count: number, next: () => number): { shapes: Map<string, Shape>; shapeIds: string[] } {
+  const shapes = new Map<string, Shape>()
+  for (let i = 0; i < count; i++) {
+    const make = i % 2 === 0 ? makeRect : makeEllipse
+    const shape = make({
+      id: `s${i}`,
+      x: next() * 3000,
+      y: next() * 3000,
+      width: 10 + next() * 150,
+      height: 10 + next() * 150,
+      rotation: next() < 0.3 ? next() * Math.PI : 0,
+    })
+    shapes.set(shape.id, shape)
+  }
+  return { shapes, shapeIds: [...shapes.keys()] }
+}
+
+describe('QuadTree', () => {
+  it('finds the same boxes as a linear scan', () => {
+    const next = seededRandom(7)
+    const boxes = randomBoxes(2000, next)
+    const tree = new QuadTree()
+    for (const [id, box] of boxes) tree.insert(id, box)
+
+    // Move some boxes and drop others
+    for (let i = 0; i < 500; i++) {
+      const id = `b${i}`
+      if (i % 2) {
+        tree.remove(id)
+        boxes.delete(id)
+      } else {
+        const box = { minX: next() * 1000, minY: next() * 1000, maxX: 1100, maxY: 1100 }
+        tree.insert(id, box)
+        boxes.set(id, box)
+      }
+    }
+    expect(tree.size).toBe(boxes.size)
+
+    for (let i = 0; i < 50; i++) {
+      const minX = (next() - 0.5) * 40000
+      const minY = (next() - 0.5) * 40000
+      const query = { minX, minY, maxX: minX + next() * 5000, maxY: minY + next() * 5000 }
+      expect(tree.search(query).sort()).toEqual(bruteForce(boxes, query))
+    }
+  })
+
+  it('returns entries with non-finite boxes from every search', () => {
+    const tree = new QuadTree()
+    tree.insert('inf', { minX: -Infinity, minY: 0, maxX: Infinity, maxY: 10 })
+    tree.insert('a', { minX: 0, minY: 0, maxX: 10, maxY: 10 })
+    expect(tree.search({ minX: 500, minY: 500, maxX: 600, maxY: 600 })).toEqual(['inf'])
+    expect(tree.remove('inf')).toBe(true)
+    expect(tree.get('a')).toEqual({ minX: 0, minY: 0, maxX: 10, maxY: 10 })
+
+    tree.clear()
+    expect(tree.size).toBe(0)
+  })
+})
+
+describe('SpatialIndex queries', () => {
+  const next = seededRandom(42)
+  const { shapes, shapeIds } = randomBoard(1500, next)
+  const index = new SpatialIndex()
+
+  it('hit tests the same shapes as a full scan', () => {
+    for (let i = 0; i < 200; i++) {
+      const point = { x: next() * 3200 - 100, y: next() * 3200 - 100 }
+      const expected = getShapeAtPoint(point, shapes, shapeIds, 2)
+      expect(getShapeAtPoint(point, shapes, shapeIds, 2, undefined, index)).toBe(expected)
+    }
+  })
+
+  it('marquee selects and snaps the same shapes as a full scan', () => {
+    for (let i = 0; i < 50; i++) {
+      const area = { x: next() * 2500, y: next() * 2500, width: next() * 800, height: next() * 800 }
+      expect(getShapesInBounds(area, shapes, shapeIds, true, index))
+        .toEqual(getShapesInBounds(area, shapes, shapeIds, true))
+      expect(getShapesInBounds(area, shapes, shapeIds, false, index))
+        .toEqual(getShapesInBounds(area, shapes, shapeIds, false))
+
+      const moving = { ...area, width: 80, height: 40 }
+      const exclude = new Set([shapeIds[i]!])
+      expect(snapToShapes(moving, shapes, shapeIds, exclude, 5, index))
+        .toEqual(snapToShapes(moving, shapes, shapeIds, exclude, 5))
+    }
+  })
+
+  it('lists only the given IDs, in their order', () => {
+    const area = { x: 0, y: 0, width: 3200, height: 3200 }
+    const reversed = [...shapeIds].reverse()
+    expect(index.queryShapeIds(shapes, reversed, area)).toEqual(reversed)
+
+    const few = [shapeIds[10]!, shapeIds[3]!]
+    expect(index.queryShapeIds(shapes, few, area)).toEqual(few)
+  })
+})
+
+describe('store spatial index', () => {
+  let store: ReturnType<typeof createTestStore>
+  const area = { x: 0, y: 0, width: 100, height: 100 }
+
+  function idsInArea(): string[] {
+    const { spatialIndex, shapes, shapeIds } = getState(store)
+    return spatialIndex.queryShapeIds(shapes, shapeIds, area)
+  }
+
+  beforeEach(() => {
+    resetShapeCounter()
+    store = createTestStore()
+  })
+
+  it('follows shape actions and undo/redo', () => {
+    store.getState().addShape(makeRect({ id: 'a', x: 10, y: 10, width: 20, height: 20 }))
+    store.getState().addShape(makeRect({ id: 'b', x: 500, y: 500 }))
+    expect(idsInArea()).toEqual(['a'])
+
+    store.getState().updateShape('b', { x: 40, y: 40 })
+    expect(idsInArea()).toEqual(['a', 'b'])
+
+    store.getState().deleteShapes(['a'])
+    expect(idsInArea()).toEqual(['b'])
+
+    store.getState().undo()
+    expect(idsInArea()).toEqual(['b', 'a'])
+    store.getState().undo()
+    expect(idsInArea()).toEqual(['a'])
+    store.getState().redo()
+    expect(idsInArea()).toEqual(['b', 'a'])
+
+    store.getState().updateShapesBatch(new Map([['a', { x: 900 }], ['b', { x: 900 }]]))
+    expect(idsInArea()).toEqual([])
+    expect(getState(store).spatialIndex.size).toBe(2)
+  })
+
+  it('indexes non-top-level shapes but lists only top-level ones', () => {
+    store.getState().addShape(makeRect({ id: 'r', x: 0, y: 0 }))
+    const text = store.getState().createBoundText('r')!
+    const { spatialIndex, shapes } = getState(store)
+    expect(spatialIndex.search(shapes, area)).toContain(text.id)
+    expect(idsInArea()).toEqual(['r'])
+  })
+
+  it('rebuilds on load and clear', () => {
+    store.getState().addShape(makeRect({ id: 'old', x: 0, y: 0 }))
+    const text = makeText({ id: 't', x: 20, y: 20 })
+    store.getState().loadDocument(new Map([['t', text]]), ['t'], { x: 0, y: 0, zoom: 1 })
+    expect(idsInArea()).toEqual(['t'])
+    expect(getState(store).spatialIndex.size).toBe(1)
+
+    store.getState().clearShapes()
+    expect(getState(store).spatialIndex.size).toBe(0)
+  })
+
+  it('catches up with shapes set outside the store actions', () => {
+    store.getState().addShape(makeRect({ id: 'a', x: 10, y: 10 }))
+    const shapes = new Map(getState(store).shapes)
+    shapes.set('a', makeRect({ id: 'a', x: 700, y: 700 }))
+    shapes.set('b', makeRect({ id: 'b', x: 10, y: 10 }))
+    store.setState({ shapes, shapeIds: ['a', 'b'] })
+    expect(idsInArea()).toEqual(['b'])
+
+    // Actions after the external change still keep the index right
+    store.getState().updateShape('a', { x: 0, y: 0 })
+    expect(idsInArea()).toEqual(['a', 'b'])
+  })
+})
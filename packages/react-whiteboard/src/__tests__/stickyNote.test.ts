@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import type { StickyShape, TextShape } from '../types'
+import { fitStickyNoteFontSize, resolveBoundTextProps, STICKY_NOTE_MIN_FONT_SIZE, STICKY_NOTE_SIZE } from '../utils/stickyNote'
+import { getBoundTextShape } from '../utils/boundText'
+import { exportToSvg } from '../utils/exportSvg'
+import { ToolManager } from '../tools/ToolManager'
+import type { StickyNoteTool } from '../tools/StickyNoteTool'
+import type { ToolEventContext } from '../tools/types'
+import { createToolState } from '../tools/types'
+import { createTestStore, getState, makeRect, makeSticky, makeText, resetShapeCounter } from './storeFactory'
+
+const FONT = { fontSize: 24, fontFamily: 'sans', fontWeight: 400, fontStyle: 'normal', lineHeight: 1.25 } as const
+
+function lines(count: number): string {
+  return Array.from({ length: count }, (_, i) => `line ${i}`).join('\n')
+}
+
+function pointerAt(x: number, y: number): ToolEventContext {
+  return {
+    screenPoint: { x, y },
+    canvasPoint: { x, y },
+    viewport: { x: 0, y: 0, zoom: 1 },
+    shiftKey: false,
+    ctrlKey: false,
+    metaKey: false,
+    altKey: false,
+    button: 0,
+    pressure: 0.5,
+  }
+}
+
+describe('fitStickyNoteFontSize', () => {
+  it('keeps the maximum size when the text fits', () => {
+    expect(fitStickyNoteFontSize('Hello', FONT, 180, 180)).toBe(24)
+    expect(fitStickyNoteFontSize('', FONT, 180, 180)).toBe(24)
+  })
+
+  it('shrinks to the largest size that fits the height', () => {
+    // 4 lines at 1.25 line height fit 100 units up to a 20px font
+    expect(fitStickyNoteFontSize(lines(4), FONT, 180, 100)).toBe(20)
+  })
+
+  it('never shrinks below the minimum size', () => {
+    expect(fitStickyNoteFontSize(lines(100), FONT, 180, 100)).toBe(STICKY_NOTE_MIN_FONT_SIZE)
+  })
+})
+
+describe('resolveBoundTextProps', () => {
+  it('fits text on sticky notes only', () => {
+    const props = { ...FONT, text: lines(20) }
+    expect(resolveBoundTextProps(makeRect(), props)).toBe(props)
+    expect(resolveBoundTextProps(makeSticky(), props).fontSize).toBeLessThan(FONT.fontSize)
+  })
+})
+
+describe('sticky note store integration', () => {
+  let store: ReturnType<typeof createTestStore>
+
+  beforeEach(() => {
+    resetShapeCounter()
+    store = createTestStore()
+  })
+
+  it('binds text to a sticky note and duplicates both', () => {
+    store.getState().addShape(makeSticky({ id: 's' }))
+    const text = store.getState().createBoundText('s')!
+    store.getState().updateShape(text.id, { props: { ...text.props, text: 'Idea' } })
+
+    const sticky = getState(store).shapes.get('s') as StickyShape
+    expect(sticky.props.boundTextId).toBe(text.id)
+
+    store.getState().select('s')
+    store.getState().duplicateSelectedShapes()
+    const copy = getState(store).shapes.get(getState(store).shapeIds[1]!) as StickyShape
+    const copyText = getBoundTextShape(copy, getState(store).shapes)
+    expect(copyText?.id).not.toBe(text.id)
+    expect(copyText?.props.text).toBe('Idea')
+  })
+
+  it('exports the note and its text to SVG', async () => {
+    const text = makeText({ id: 't', parentId: 's', props: { ...makeText().props, text: 'Idea' } })
+    store.getState().addShape(makeSticky({ id: 's', props: { color: '#bfdbfe', boundTextId: 't' } }))
+    const shapes = new Map(getState(store).shapes).set('t', text)
+
+    const svg = await exportToSvg(shapes, ['s'])
+    expect(svg).toContain('fill="#bfdbfe"')
+    expect(svg).toContain('feDropShadow')
+    expect(svg).toContain('Idea')
+  })
+})
+
+describe('StickyNoteTool', () => {
+  let store: ReturnType<typeof createTestStore>
+  let tool: StickyNoteTool
+
+  beforeEach(() => {
+    store = createTestStore()
+    const manager = new ToolManager()
+    manager.setStoreGetter(() => store.getState())
+    tool = manager.getTool('sticky') as StickyNoteTool
+  })
+
+  afterEach(() => {
+    document.body.innerHTML = ''
+  })
+
+  it('places a default-size note on click and starts editing its text', () => {
+    const state = createToolState()
+    tool.setColor('#bbf7d0')
+    tool.onPointerDown(pointerAt(300, 300), store.getState(), state)
+    tool.onPointerUp(pointerAt(300, 300), store.getState(), state)
+
+    const [id] = getState(store).shapeIds
+    const sticky = getState(store).shapes.get(id!) as StickyShape
+    expect(sticky).toMatchObject({
+      x: 300 - STICKY_NOTE_SIZE / 2,
+      width: STICKY_NOTE_SIZE,
+      height: STICKY_NOTE_SIZE,
+      props: { color: '#bbf7d0' },
+    })
+    const text = getState(store).shapes.get(sticky.props.boundTextId!) as TextShape
+    expect(text.parentId).toBe(sticky.id)
+    expect(getState(store).currentTool).toBe('text')
+    expect(document.querySelector('textarea')).not.toBeNull()
+  })
+
+  it('sizes a square note by dragging', () => {
+    const state = createToolState()
+    tool.onPointerDown(pointerAt(0, 0), store.getState(), state)
+    tool.onPointerMove(pointerAt(150, 90), store.getState(), state)
+    tool.onPointerUp(pointerAt(150, 90), store.getState(), state)
+
+    const sticky = getState(store).shapes.get(getState(store).shapeIds[0]!)!
+    expect(sticky).toMatchObject({ x: 0, y: 0, width: 150, height: 150 })
+  })
+})
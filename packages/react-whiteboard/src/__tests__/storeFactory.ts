@@ -1,12 +1,15 @@
-import { createWhiteboardStore, type WhiteboardStore } from '../core/store/createStore'
-import type { Shape, RectangleShape, EllipseShape, LineShape, ArrowShape, PathShape, TextShape } from '../types'
+import { createWhiteboardStore, type WhiteboardStore, type WhiteboardStoreOptions } from '../core/store/createStore'
+import type {
+  Shape, RectangleShape, EllipseShape, LineShape, ArrowShape, PathShape, TextShape, FrameShape, StickyShape, ReactComponentShape,
+  ImageShape,
+} from '../types'
 
 /**
  * Create an isolated Zustand store instance for testing.
  * Each call returns a fresh store so tests don't leak state.
  */
-export function createTestStore() {
-  return createWhiteboardStore()
+export function createTestStore(options?: WhiteboardStoreOptions) {
+  return createWhiteboardStore(options)
 }
 
 /** Convenience: get store state without subscribing */
@@ -135,6 +138,67 @@ export function makeText(overrides: Partial<TextShape> = {}): TextShape {
   } as TextShape
 }
 
+export function makeFrame(overrides: Partial<FrameShape> = {}): FrameShape {
+  return {
+    ...baseShape({ width: 400, height: 300, ...overrides }),
+    type: 'frame',
+    props: {
+      name: 'Frame',
+      fill: '#ffffff',
+      stroke: '#d1d5db',
+      childIds: [],
+      ...overrides.props,
+    },
+  } as FrameShape
+}
+
+export function makeSticky(overrides: Partial<StickyShape> = {}): StickyShape {
+  return {
+    ...baseShape({ width: 200, height: 200, ...overrides }),
+    type: 'sticky',
+    props: {
+      color: '#fef08a',
+      boundTextId: null,
+      ...overrides.props,
+    },
+  } as StickyShape
+}
+
+export function makeComponent(overrides: Partial<ReactComponentShape> = {}): ReactComponentShape {
+  return {
+    ...baseShape({ width: 240, height: 160, ...overrides }),
+    type: 'react-component',
+    props: {
+      componentType: 'counter',
+      componentProps: { count: 0 },
+      ...overrides.props,
+    },
+  } as ReactComponentShape
+}
+
+export function makeImage(overrides: Partial<ImageShape> = {}): ImageShape {
+  return {
+    ...baseShape({ width: 200, height: 100, ...overrides }),
+    type: 'image',
+    props: {
+      src: 'data:image/png;base64,AAAA',
+      naturalWidth: 400,
+      naturalHeight: 200,
+      ...overrides.props,
+    },
+  } as ImageShape
+}
+
+/** Deterministic pseudo-random numbers in [0, 1), for generated boards */
+export function seededRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
 /** Reset the shape counter between test suites if needed */
 export function resetShapeCounter(): void {
   shapeCounter = 0
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest'
+import type { EllipseShape, LineShape, PathShape, RectangleShape, TextShape } from '../types'
+import { importFromSvg } from '../utils/svgImport'
+import { parsePathData } from '../utils/svgPathData'
+
+const svg = (body: string) => `<svg xmlns="http://www.w3.org/2000/svg" width="400" height="300">${body}</svg>`
+
+describe('importFromSvg', () => {
+  it('converts boxes, applying transforms and inherited styles', () => {
+    const shapes = importFromSvg(svg(`
+      <g fill="#ff0000" opacity="0.5" transform="translate(100 50)">
+        <rect x="10" y="20" width="80" height="40" rx="6" stroke="#000" stroke-width="2" />
+        <circle cx="0" cy="0" r="25" style="fill: none; stroke: #1971c2; opacity: 0.5" />
+        <ellipse cx="50" cy="50" rx="30" ry="10" transform="rotate(90 50 50)" stroke-dasharray="4 2" />
+      </g>
+    `))
+
+    expect(shapes.map((shape) => shape.type)).toEqual(['rectangle', 'ellipse', 'ellipse'])
+    const [rect, circle, ellipse] = shapes as [RectangleShape, EllipseShape, EllipseShape]
+    expect(rect).toMatchObject({ x: 110, y: 70, width: 80, height: 40, rotation: 0, opacity: 0.5, roughness: 0 })
+    expect(rect.props).toMatchObject({ fill: '#ff0000', fillStyle: 'solid', stroke: '#000', strokeWidth: 2, cornerRadius: 6 })
+    expect(circle).toMatchObject({ x: 75, y: 25, width: 50, height: 50, opacity: 0.25 })
+    expect(circle.props).toMatchObject({ fill: 'transparent', stroke: '#1971c2' })
+    // Rotated about its own center: same box, with a rotation
+    expect(ellipse.x + ellipse.width / 2).toBeCloseTo(150)
+    expect(ellipse.y + ellipse.height / 2).toBeCloseTo(100)
+    expect(ellipse).toMatchObject({ width: 60, height: 20 })
+    expect(ellipse.rotation).toBeCloseTo(Math.PI / 2)
+    expect(ellipse.props.strokeStyle).toBe('dashed')
+    expect(new Set(shapes.map((shape) => shape.id)).size).toBe(3)
+  })
+
+  it('turns lines, polylines and paths into lines and freehand paths', () => {
+    const shapes = importFromSvg(svg(`
+      <line x1="0" y1="0" x2="30" y2="40" stroke="#333" />
+      <polygon points="0,0 20,0 20,20" fill="#2f9e44" />
+      <path d="M10 10 h20 v20 M100 100 Q 120 80 140 100" stroke="#e03131" stroke-width="3" />
+      <rect width="10" height="10" transform="skewX(30)" />
+    `))
+
+    expect(shapes.map((shape) => shape.type)).toEqual(['line', 'path', 'path', 'path', 'path'])
+    const line = shapes[0] as LineShape
+    expect(line).toMatchObject({ x: 0, y: 0, width: 30, height: 40 })
+    expect(line.props.points).toEqual([{ x: 0, y: 0 }, { x: 30, y: 40 }])
+
+    // Closed polygon, outlined in its fill color
+    const polygon = shapes[1] as PathShape
+    expect(polygon.props.points).toHaveLength(4)
+    expect(polygon.props.points.at(-1)).toEqual(polygon.props.points[0])
+    expect(polygon.props.stroke).toBe('#2f9e44')
+
+    // One shape per subpath, points relative to the shape
+    const [first, curve] = [shapes[2] as PathShape, shapes[3] as PathShape]
+    expect(first).toMatchObject({ x: 10, y: 10, width: 20, height: 20 })
+    expect(first.props.points).toEqual([{ x: 0, y: 0 }, { x: 20, y: 0 }, { x: 20, y: 20 }])
+    expect(first.props).toMatchObject({ stroke: '#e03131', strokeWidth: 3, isComplete: true })
+    expect(curve.x).toBe(100)
+    expect(curve.y).toBeCloseTo(90)
+    expect(curve.props.points.length).toBeGreaterThan(3)
+
+    // Skewed boxes become outlines
+    const skewed = shapes[4] as PathShape
+    expect(skewed.props.points).toHaveLength(5)
+    expect(skewed.width).toBeCloseTo(10 + 10 * Math.tan(Math.PI / 6))
+  })
+
+  it('converts text and images, and skips definitions and hidden content', () => {
+    const shapes = importFromSvg(svg(`
+      <defs><rect id="hidden" width="5" height="5" /></defs>
+      <rect width="5" height="5" display="none" />
+      <text x="200" y="40" font-size="24" font-family="Georgia, serif" font-weight="bold" text-anchor="middle" fill="#1e1e1e">
+        <tspan x="200">Hello</tspan><tspan x="200" dy="30">world</tspan>
+      </text>
+      <image href="data:image/png;base64,AAAA" x="5" y="6" width="64" height="32" />
+    `))
+
+    expect(shapes.map((shape) => shape.type)).toEqual(['text', 'image'])
+    const text = shapes[0] as TextShape
+    expect(text.props).toMatchObject({
+      text: 'Hello\nworld', fontSize: 24, fontFamily: 'serif', fontWeight: 700, align: 'center', color: '#1e1e1e',
+    })
+    expect(text.x + text.width / 2).toBeCloseTo(200)
+    expect(shapes[1]).toMatchObject({
+      x: 5, y: 6, width: 64, height: 32,
+      props: { src: 'data:image/png;base64,AAAA', naturalWidth: 64, naturalHeight: 32 },
+    })
+  })
+
+  it('rejects markup that is not SVG', () => {
+    expect(() => importFromSvg('<div>nope</div>')).toThrow('Invalid SVG')
+    expect(() => importFromSvg('<svg><rect></svg>')).toThrow('Invalid SVG')
+    expect(importFromSvg(svg(''))).toEqual([])
+  })
+})
+
+describe('parsePathData', () => {
+  it('reads relative commands, implicit linetos and compact numbers', () => {
+    expect(parsePathData('m10 10 5 5-5.5.5zl1 1')).toEqual([
+      [{ x: 10, y: 10 }, { x: 15, y: 15 }, { x: 9.5, y: 15.5 }, { x: 10, y: 10 }],
+      [{ x: 10, y: 10 }, { x: 11, y: 11 }],
+    ])
+  })
+
+  it('flattens arcs through their endpoint', () => {
+    // Half circle of radius 10 from (0,0) to (20,0), compact flags
+    const [points] = parsePathData('M0 0a10 10 0 0120 0')
+    expect(points!.at(-1)).toEqual({ x: 20, y: 0 })
+    for (const point of points!) {
+      expect(Math.hypot(point.x - 10, point.y)).toBeCloseTo(10)
+      expect(point.y).toBeLessThanOrEqual(1e-9)
+    }
+  })
+
+  it('keeps what was parsed before malformed data', () => {
+    expect(parsePathData('M0 0 L10 0 L20 x')).toEqual([[{ x: 0, y: 0 }, { x: 10, y: 0 }]])
+    expect(parsePathData('')).toEqual([])
+  })
+})
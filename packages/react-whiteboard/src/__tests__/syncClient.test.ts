@@ -0,0 +1,263 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { SyncClient, SyncRoom } from '../sync'
+import type {
+  SyncClientMessage, SyncClientOptions, SyncServerMessage, SyncTransport, SyncTransportHandlers,
+} from '../sync'
+import { createTestStore, makeRect, makeEllipse, resetShapeCounter } from './storeFactory'
+
+/** In-memory transport to a room; messages round-trip through JSON like on a socket */
+class MemoryTransport implements SyncTransport {
+  private handlers: SyncTransportHandlers | null = null
+  private connection: ReturnType<SyncRoom['connect']> | null = null
+  sent: SyncClientMessage[] = []
+  received: SyncServerMessage[] = []
+  /** Simulates messages lost on the way to the client */
+  dropIncoming = false
+
+  constructor(private readonly room: SyncRoom) {}
+
+  connect(handlers: SyncTransportHandlers): void {
+    this.handlers = handlers
+    this.goOnline()
+  }
+
+  send(message: SyncClientMessage): void {
+    this.sent.push(message)
+    this.connection?.receive(JSON.parse(JSON.stringify(message)))
+  }
+
+  close(): void {
+    this.goOffline()
+    this.handlers = null
+  }
+
+  goOnline(): void {
+    this.connection = this.room.connect((message: SyncServerMessage) => {
+      if (this.dropIncoming) return
+      this.received.push(message)
+      this.handlers?.onMessage(JSON.parse(JSON.stringify(message)))
+    })
+    this.handlers?.onOpen()
+  }
+
+  goOffline(): void {
+    this.connection?.disconnect()
+    this.connection = null
+    this.handlers?.onClose()
+  }
+}
+
+/** Changes sent by a client */
+function sentChanges(transport: MemoryTransport) {
+  return transport.sent.flatMap((message) => (message.type === 'change' ? [message.change] : []))
+}
+
+/** A client in `room`; every store update is sent right away unless `options` say otherwise */
+function join(room: SyncRoom, clientId: string, store = createTestStore(), options?: SyncClientOptions) {
+  const transport = new MemoryTransport(room)
+  const client = new SyncClient(store, transport, { clientId, batchInterval: 0, ...options })
+  client.connect()
+  return { store, transport, client }
+}
+
+describe('SyncClient', () => {
+  beforeEach(() => {
+    resetShapeCounter()
+  })
+
+  it('relays local create, update, delete and reorder to peers', () => {
+    const room = new SyncRoom()
+    const a = join(room, 'a')
+    const b = join(room, 'b')
+
+    a.store.getState().addShape(makeRect({ id: 'r' }))
+    a.store.getState().addShape(makeEllipse({ id: 'e' }))
+    b.store.getState().updateShape('r', { x: 300 })
+    a.store.getState().select('r')
+    a.store.getState().bringToFront()
+
+    expect(b.store.getState().shapeIds).toEqual(['e', 'r'])
+    expect(a.store.getState().shapes.get('r')!.x).toBe(300)
+
+    b.store.getState().deleteShapes(['e'])
+    expect(a.store.getState().shapeIds).toEqual(['r'])
+    expect(a.client.pendingCount).toBe(0)
+    expect(room.seq).toBe(5)
+  })
+
+  it('applies remote changes without history and keeps shape objects on ack', () => {
+    const room = new SyncRoom()
+    const a = join(room, 'a')
+    const b = join(room, 'b')
+    const rect = makeRect({ id: 'r' })
+    a.store.getState().addShape(rect)
+
+    expect(a.store.getState().shapes.get('r')).toBe(rect)
+    expect(b.store.getState().history).toHaveLength(0)
+    expect(b.store.getState().shapes.get('r')).toEqual(rect)
+  })
+
+  it('sends late joiners the snapshot followed by the changes after it', () => {
+    const room = new SyncRoom({ maxLogLength: 2 })
+    const a = join(room, 'a')
+    for (const id of ['s1', 's2', 's3', 's4']) a.store.getState().addShape(makeRect({ id }))
+
+    const late = join(room, 'late')
+    const welcome = late.transport.received[0]
+    expect(welcome).toMatchObject({ type: 'welcome', snapshot: { seq: 3 } })
+    expect(welcome!.type === 'welcome' && welcome!.changes.map((c) => c.seq)).toEqual([4])
+    expect(late.store.getState().shapeIds).toEqual(['s1', 's2', 's3', 's4'])
+    expect(late.client.status).toBe('online')
+  })
+
+  it('seeds an empty room from the store, but lets an existing room replace it', () => {
+    const room = new SyncRoom()
+    const seeded = createTestStore()
+    seeded.getState().addShape(makeRect({ id: 'local' }))
+    join(room, 'a', seeded)
+    expect(room.getSnapshot().shapeIds).toEqual(['local'])
+
+    const other = createTestStore()
+    other.getState().addShape(makeRect({ id: 'mine' }))
+    join(room, 'b', other)
+    expect(other.getState().shapeIds).toEqual(['local'])
+  })
+
+  it('queues changes while offline and replays them on reconnect', () => {
+    const room = new SyncRoom()
+    const a = join(room, 'a')
+    const b = join(room, 'b')
+    a.store.getState().addShape(makeRect({ id: 'r' }))
+
+    a.transport.goOffline()
+    expect(a.client.status).toBe('offline')
+    a.store.getState().updateShape('r', { x: 50 })
+    a.store.getState().addShape(makeRect({ id: 'offline' }))
+    b.store.getState().addShape(makeEllipse({ id: 'meanwhile' }))
+    // Queued as one change
+    expect(a.client.pendingCount).toBe(1)
+    expect(b.store.getState().shapes.get('r')!.x).toBe(0)
+
+    a.transport.goOnline()
+    expect(a.client.pendingCount).toBe(0)
+    expect(b.store.getState().shapes.get('r')!.x).toBe(50)
+    expect(a.store.getState().shapeIds).toEqual(b.store.getState().shapeIds)
+    expect(new Set(a.store.getState().shapeIds)).toEqual(new Set(['r', 'offline', 'meanwhile']))
+  })
+
+  it('folds offline changes into one op per shape', () => {
+    const room = new SyncRoom()
+    const a = join(room, 'a')
+    const b = join(room, 'b')
+    a.store.getState().addShape(makeRect({ id: 'r' }))
+
+    a.transport.goOffline()
+    for (let x = 1; x <= 20; x++) a.store.getState().updateShape('r', { x })
+    a.store.getState().addShape(makeRect({ id: 'temp' }))
+    a.store.getState().updateShape('temp', { x: 5 })
+    a.store.getState().deleteShapes(['temp'])
+    expect(a.client.pendingCount).toBe(1)
+
+    a.transport.goOnline()
+    const [change] = sentChanges(a.transport).slice(-1)
+    expect(change!.ops).toEqual([
+      { type: 'update', shapes: [expect.objectContaining({ shape: expect.objectContaining({ id: 'r', x: 20 }) })] },
+      expect.objectContaining({ type: 'reorder', shapeIds: ['r'] }),
+    ])
+    expect(b.store.getState().shapes.get('r')!.x).toBe(20)
+    expect(b.store.getState().shapeIds).toEqual(['r'])
+  })
+
+  it('does not resend a change whose ack was lost', () => {
+    const room = new SyncRoom()
+    const a = join(room, 'a')
+
+    // The server applies the change, but the connection drops before the echo
+    a.transport.dropIncoming = true
+    a.store.getState().addShape(makeRect({ id: 'r' }))
+    expect(a.client.pendingCount).toBe(1)
+    a.transport.goOffline()
+    a.transport.dropIncoming = false
+
+    a.transport.goOnline()
+    expect(a.client.pendingCount).toBe(0)
+    expect(room.seq).toBe(1)
+    expect(a.store.getState().shapeIds).toEqual(['r'])
+  })
+
+  it('resolves an update racing a delete the way the server does', () => {
+    const room = new SyncRoom()
+    const a = join(room, 'a')
+    const b = join(room, 'b')
+    a.store.getState().addShape(makeRect({ id: 'r' }))
+    b.store.getState().select('r')
+
+    b.transport.goOffline()
+    b.store.getState().updateShape('r', { x: 99 })
+    a.store.getState().deleteShapes(['r'])
+    b.transport.goOnline()
+
+    expect(b.store.getState().shapes.has('r')).toBe(false)
+    expect(b.store.getState().selectedIds.size).toBe(0)
+    expect(a.store.getState().shapes.has('r')).toBe(false)
+  })
+
+  it('reports messages the server rejects', () => {
+    const room = new SyncRoom()
+    const onError = vi.fn()
+    const a = join(room, 'a', createTestStore(), { onError })
+    a.transport.send({ type: 'unknown' } as unknown as SyncClientMessage)
+    expect(onError).toHaveBeenCalledWith(new Error('Unknown message type'))
+  })
+
+  it('stops sending after disconnect', () => {
+    const room = new SyncRoom()
+    const a = join(room, 'a')
+    const b = join(room, 'b')
+    a.client.disconnect()
+    a.store.getState().addShape(makeRect({ id: 'r' }))
+    expect(b.store.getState().shapes.size).toBe(0)
+    expect(room.size).toBe(1)
+  })
+})
+
+describe('SyncClient batching', () => {
+  beforeEach(() => {
+    resetShapeCounter()
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('sends the store updates of one interval as one change', () => {
+    const room = new SyncRoom()
+    const a = join(room, 'a', createTestStore(), { batchInterval: 50 })
+    const b = join(room, 'b')
+    a.store.getState().addShape(makeRect({ id: 'r' }))
+    vi.advanceTimersByTime(50)
+
+    // A drag: one update per frame
+    for (let x = 1; x <= 10; x++) a.store.getState().updateShape('r', { x })
+    expect(sentChanges(a.transport)).toHaveLength(1)
+    vi.advanceTimersByTime(50)
+    const changes = sentChanges(a.transport)
+    expect(changes).toHaveLength(2)
+    expect(changes[1]!.ops).toEqual([
+      { type: 'update', shapes: [expect.objectContaining({ shape: expect.objectContaining({ x: 10 }) })] },
+    ])
+    expect(b.store.getState().shapes.get('r')!.x).toBe(10)
+  })
+
+  it('keeps batched updates when a remote change arrives first', () => {
+    const room = new SyncRoom()
+    const a = join(room, 'a', createTestStore(), { batchInterval: 50 })
+    const b = join(room, 'b')
+    a.store.getState().addShape(makeRect({ id: 'mine' }))
+    b.store.getState().addShape(makeRect({ id: 'theirs' }))
+
+    expect(new Set(a.store.getState().shapeIds)).toEqual(new Set(['mine', 'theirs']))
+    expect(b.store.getState().shapeIds).toEqual(a.store.getState().shapeIds)
+  })
+})
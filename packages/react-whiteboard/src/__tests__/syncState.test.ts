@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyChange,
+  compareVersions,
+  createSyncState,
+  fromSyncSnapshot,
+  incrementVersion,
+  mergeVersions,
+  toSyncSnapshot,
+} from '../sync'
+import type { SyncOp } from '../sync'
+import { makeRect } from './storeFactory'
+
+function change(clientId: string, ...ops: SyncOp[]) {
+  return { clientId, clientSeq: 1, ops }
+}
+
+describe('version vectors', () => {
+  it('compares causal order', () => {
+    expect(compareVersions({ a: 1 }, { a: 1 })).toBe('equal')
+    expect(compareVersions({ a: 2 }, { a: 1 })).toBe('after')
+    expect(compareVersions({ a: 1 }, { a: 1, b: 1 })).toBe('before')
+    expect(compareVersions({ a: 2 }, { a: 1, b: 1 })).toBe('concurrent')
+  })
+
+  it('merges and increments', () => {
+    expect(mergeVersions({ a: 2, b: 1 }, { b: 3, c: 1 })).toEqual({ a: 2, b: 3, c: 1 })
+    expect(incrementVersion({ a: 2 }, 'b')).toEqual({ a: 2, b: 1 })
+  })
+})
+
+describe('applyChange', () => {
+  it('creates shapes and sets the order', () => {
+    const state = createSyncState()
+    const rect = makeRect({ id: 'r' })
+    applyChange(state, change('a',
+      { type: 'create', shapes: [{ shape: rect, version: { a: 1 } }] },
+      { type: 'reorder', shapeIds: ['r'], version: { a: 1 } },
+    ))
+    expect(state.shapes.get('r')!.shape).toBe(rect)
+    expect(state.shapeIds).toEqual(['r'])
+  })
+
+  it('drops stale updates and lets concurrent ones win by arrival', () => {
+    const state = createSyncState()
+    applyChange(state, change('a', { type: 'create', shapes: [{ shape: makeRect({ id: 'r', x: 0 }), version: { a: 1 } }] }))
+
+    applyChange(state, change('b', { type: 'update', shapes: [{ shape: makeRect({ id: 'r', x: 10 }), version: { a: 1, b: 1 } }] }))
+    applyChange(state, change('a', { type: 'update', shapes: [{ shape: makeRect({ id: 'r', x: 20 }), version: { a: 2 } }] }))
+    expect(state.shapes.get('r')!.shape.x).toBe(20)
+    expect(state.shapes.get('r')!.version).toEqual({ a: 2, b: 1 })
+
+    // Replay of an already seen write
+    applyChange(state, change('b', { type: 'update', shapes: [{ shape: makeRect({ id: 'r', x: 10 }), version: { a: 1, b: 1 } }] }))
+    expect(state.shapes.get('r')!.shape.x).toBe(20)
+  })
+
+  it('lets deletes win over concurrent updates, but not over later writes', () => {
+    const state = createSyncState()
+    applyChange(state, change('a',
+      { type: 'create', shapes: [{ shape: makeRect({ id: 'r' }), version: { a: 1 } }] },
+      { type: 'reorder', shapeIds: ['r'], version: { a: 1 } },
+    ))
+    applyChange(state, change('a', { type: 'delete', shapes: [{ id: 'r', version: { a: 2 } }] }))
+    expect(state.shapeIds).toEqual([])
+
+    applyChange(state, change('b', { type: 'update', shapes: [{ shape: makeRect({ id: 'r', x: 5 }), version: { a: 1, b: 1 } }] }))
+    expect(state.shapes.has('r')).toBe(false)
+
+    // Undo of the delete has seen it, so it restores the shape
+    applyChange(state, change('a', { type: 'create', shapes: [{ shape: makeRect({ id: 'r' }), version: { a: 3 } }] }))
+    expect(state.shapes.has('r')).toBe(true)
+    expect(state.tombstones.has('r')).toBe(false)
+  })
+
+  it('keeps concurrently created shapes when orders conflict', () => {
+    const state = createSyncState()
+    applyChange(state, change('a',
+      { type: 'create', shapes: [{ shape: makeRect({ id: 'x' }), version: { a: 1 } }] },
+      { type: 'reorder', shapeIds: ['x'], version: { a: 1 } },
+    ))
+    applyChange(state, change('b',
+      { type: 'create', shapes: [{ shape: makeRect({ id: 'y' }), version: { b: 1 } }] },
+      { type: 'reorder', shapeIds: ['y'], version: { b: 1 } },
+    ))
+    expect(state.shapeIds).toEqual(['y', 'x'])
+    expect(state.orderVersion).toEqual({ a: 1, b: 1 })
+  })
+
+  it('round-trips through snapshots', () => {
+    const state = createSyncState()
+    applyChange(state, change('a',
+      { type: 'create', shapes: [{ shape: makeRect({ id: 'r' }), version: { a: 1 } }] },
+      { type: 'delete', shapes: [{ id: 'gone', version: { a: 1 } }] },
+    ))
+    const restored = fromSyncSnapshot(JSON.parse(JSON.stringify(toSyncSnapshot(state))))
+    expect(restored.shapes.get('r')!.version).toEqual({ a: 1 })
+    expect(restored.tombstones.get('gone')).toEqual({ a: 1 })
+  })
+})
@@ -0,0 +1,216 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import type { ImageShape, ReactComponentShape, TextShape } from '../types'
+import {
+  CLIPBOARD_MIME_TYPE, classifyClipboardText, readClipboardData, serializeClipboardShapes, writeSystemClipboard,
+} from '../utils/systemClipboard'
+import { LINK_CARD_COMPONENT } from '../utils/linkCard'
+import { renderHook } from '@testing-library/react'
+import { useClipboardPaste } from '../hooks/useClipboardPaste'
+import { getBlob, isBlobUrl } from '../utils/imageBlobStore'
+import { createTestStore, getState, makeFrame, makeImage, makeRect, makeText, resetShapeCounter } from './storeFactory'
+
+// jsdom can't render PNGs
+vi.mock('../utils/exportPng', () => ({ exportToPng: () => 'data:image/png;base64,iVBORw0KGgo=' }))
+
+/** Minimal paste event data: text by MIME type plus files */
+function dataTransfer(data: Record<string, string>, files: File[] = []): DataTransfer {
+  return {
+    getData: (type: string) => data[type] ?? '',
+    items: files.map((file) => ({ kind: 'file', type: file.type, getAsFile: () => file })),
+  } as unknown as DataTransfer
+}
+
+/** Mount the paste handler of a board in a new container */
+function mountBoard(board: ReturnType<typeof createTestStore>) {
+  const container = document.body.appendChild(document.createElement('div'))
+  const hook = renderHook(() => useClipboardPaste({
+    getState: board.getState,
+    containerRef: { current: container },
+    viewportRef: { current: { x: 0, y: 0, zoom: 1 } },
+  }))
+  return { container, unmount: () => { hook.unmount(); container.remove() } }
+}
+
+/** A Cmd/Ctrl+V paste event with `data` on the system clipboard */
+function paste(target: EventTarget, data: Record<string, string>): void {
+  const event = new Event('paste', { bubbles: true, cancelable: true })
+  Object.assign(event, { clipboardData: dataTransfer(data) })
+  target.dispatchEvent(event)
+}
+
+/** jsdom's Blob has no text() */
+function readText(blob: Promise<Blob> | undefined): Promise<string> {
+  return blob!.then((value) => new Promise((resolve) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.readAsText(value)
+  }))
+}
+
+class FakeClipboardItem {
+  static supports = (type: string) => type !== 'image/svg+xml'
+  constructor(readonly items: Record<string, Promise<Blob>>) {}
+}
+
+describe('system clipboard', () => {
+  let store: ReturnType<typeof createTestStore>
+
+  beforeEach(() => {
+    resetShapeCounter()
+    store = createTestStore()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('writes the payload, text and a PNG on copy', async () => {
+    const write = vi.fn().mockResolvedValue(undefined)
+    vi.stubGlobal('navigator', { clipboard: { write } })
+    vi.stubGlobal('ClipboardItem', FakeClipboardItem)
+
+    const frame = makeFrame({ id: 'f', props: { ...makeFrame().props, childIds: ['r'] } })
+    store.getState().addShape(frame)
+    store.getState().addShape(makeRect({ id: 'r', parentId: 'f' }))
+    store.getState().select('f')
+    store.getState().copySelectedShapes()
+    await vi.waitFor(() => expect(write).toHaveBeenCalledTimes(1))
+
+    const [item] = write.mock.calls[0]![0] as FakeClipboardItem[]
+    expect(Object.keys(item!.items).sort()).toEqual(['image/png', 'text/plain', CLIPBOARD_MIME_TYPE].sort())
+    const text = await readText(item!.items['text/plain'])
+    expect(await readText(item!.items[CLIPBOARD_MIME_TYPE])).toBe(text)
+    expect((await item!.items['image/png']!).size).toBeGreaterThan(0)
+    // The frame travels with its child
+    const content = classifyClipboardText(text)
+    expect(content?.kind === 'shapes' && content.shapes.map((shape) => shape.id)).toEqual(['f', 'r'])
+  })
+
+  it('reports failed writes and reads nothing without the Clipboard API', async () => {
+    vi.stubGlobal('navigator', { clipboard: { write: vi.fn().mockRejectedValue(new Error('denied')) } })
+    vi.stubGlobal('ClipboardItem', FakeClipboardItem)
+    expect(await writeSystemClipboard([makeText()])).toBe(false)
+
+    vi.stubGlobal('navigator', {})
+    expect(await writeSystemClipboard([makeText()])).toBe(false)
+
+    // Falls back to the internal clipboard
+    store.getState().addShape(makeRect({ id: 'r1' }))
+    store.getState().select('r1')
+    store.getState().copySelectedShapes()
+    const ids = await store.getState().pasteFromClipboard({ x: 500, y: 500 })
+    expect(ids).toHaveLength(1)
+    expect(getState(store).shapes.get(ids[0]!)).toMatchObject({ x: 20, y: 20 })
+  })
+
+  it('pastes the internal clipboard when the last copy did not reach the system one', async () => {
+    const write = vi.fn().mockRejectedValue(new Error('insecure context'))
+    vi.stubGlobal('navigator', { clipboard: { write } })
+    vi.stubGlobal('ClipboardItem', FakeClipboardItem)
+    const board = mountBoard(store)
+    store.getState().addShape(makeRect({ id: 'r1' }))
+    store.getState().select('r1')
+    store.getState().copySelectedShapes()
+    await vi.waitFor(() => expect(write).toHaveBeenCalled())
+    await Promise.resolve()
+
+    // The system clipboard still holds text copied earlier
+    paste(document.body, { 'text/plain': 'stale' })
+    await Promise.resolve()
+    const pasted = [...getState(store).shapes.values()].filter((shape) => shape.id !== 'r1')
+    expect(pasted.map((shape) => shape.type)).toEqual(['rectangle'])
+    board.unmount()
+  })
+
+  it('pastes into the board last pressed on', async () => {
+    const other = createTestStore()
+    const first = mountBoard(store)
+    const second = mountBoard(other)
+    const shapeCount = (board: typeof store) => getState(board).shapes.size
+
+    // No board pressed yet: the first one
+    paste(document.body, { 'text/plain': 'one' })
+    await vi.waitFor(() => expect(shapeCount(store)).toBe(1))
+    expect(shapeCount(other)).toBe(0)
+
+    second.container.dispatchEvent(new Event('pointerdown'))
+    paste(document.body, { 'text/plain': 'two' })
+    await vi.waitFor(() => expect(shapeCount(other)).toBe(1))
+    // Pastes inside a board go to it
+    paste(first.container, { 'text/plain': 'three' })
+    await vi.waitFor(() => expect(shapeCount(store)).toBe(2))
+    expect(shapeCount(other)).toBe(1)
+
+    first.unmount()
+    second.unmount()
+  })
+
+  it('classifies pasted data', async () => {
+    const payload = await serializeClipboardShapes([makeRect({ id: 'r1' })])
+    const image = new File(['png'], 'a.png', { type: 'image/png' })
+
+    expect(readClipboardData(dataTransfer({ 'text/plain': payload }, [image]))).toMatchObject({ kind: 'shapes' })
+    expect(readClipboardData(dataTransfer({ 'text/plain': 'caption' }, [image]))).toEqual({ kind: 'image', blob: image })
+    expect(readClipboardData(dataTransfer({ 'text/plain': '  <?xml version="1.0"?>\n<svg width="1"></svg>' })))
+      .toEqual({ kind: 'svg', markup: '<?xml version="1.0"?>\n<svg width="1"></svg>' })
+    expect(readClipboardData(dataTransfer({ 'text/plain': ' https://example.com/a?b=1 ' })))
+      .toEqual({ kind: 'url', url: 'https://example.com/a?b=1' })
+    expect(readClipboardData(dataTransfer({ 'text/plain': 'javascript:alert(1)' }))).toMatchObject({ kind: 'text' })
+    expect(readClipboardData(dataTransfer({ 'text/plain': 'Line one\r\nLine two\n' })))
+      .toEqual({ kind: 'text', text: 'Line one\nLine two' })
+    expect(readClipboardData(dataTransfer({ 'text/plain': '{"type":"other"}' }))).toMatchObject({ kind: 'text' })
+    expect(readClipboardData(dataTransfer({ 'text/plain': '   ' }))).toBeNull()
+  })
+
+  it('pastes shapes with fresh IDs, centered on the point, as one undo step', async () => {
+    store.getState().addShape(makeRect({ id: 'keep' }))
+    const shapes = [makeRect({ id: 'a', x: 0, y: 0, width: 100, height: 50 }), makeRect({ id: 'b', x: 200, y: 150 })]
+
+    const ids = await store.getState().pasteClipboardContent({ kind: 'shapes', shapes }, { x: 1000, y: 1000 })
+
+    const state = getState(store)
+    expect(ids).toHaveLength(2)
+    expect(ids).not.toContain('a')
+    expect(state.selectedIds).toEqual(new Set(ids))
+    // Bounds (0,0)-(300,250) centered on (1000,1000)
+    expect(state.shapes.get(ids[0]!)).toMatchObject({ x: 850, y: 875 })
+    expect(state.shapes.get(ids[1]!)).toMatchObject({ x: 1050, y: 1025 })
+
+    store.getState().undo()
+    expect(Array.from(getState(store).shapes.keys())).toEqual(['keep'])
+  })
+
+  it('stores pasted DataURL images as blob URLs', async () => {
+    const [id] = await store.getState().pasteClipboardContent({ kind: 'shapes', shapes: [makeImage()] }, { x: 0, y: 0 })
+
+    const { src } = (getState(store).shapes.get(id!) as ImageShape).props
+    expect(isBlobUrl(src)).toBe(true)
+    expect(getBlob(src)!.type).toBe('image/png')
+    expect(JSON.stringify(getState(store).history)).not.toContain('base64')
+  })
+
+  it('pastes text, URLs and SVG markup as shapes at the pointer', async () => {
+    store.getState().setCursorPosition({ x: 300, y: 200 })
+    store.getState().setCurrentTextProps({ fontSize: 32, color: '#e03131' })
+
+    const [textId] = await store.getState().pasteClipboardContent({ kind: 'text', text: 'Hello\nthere' })
+    const text = getState(store).shapes.get(textId!) as TextShape
+    expect(text.props).toMatchObject({ text: 'Hello\nthere', fontSize: 32, color: '#e03131' })
+    expect(text.x + text.width / 2).toBeCloseTo(300)
+    expect(text.y + text.height / 2).toBeCloseTo(200)
+
+    const [cardId] = await store.getState().pasteClipboardContent({ kind: 'url', url: 'https://example.com/docs' })
+    const card = getState(store).shapes.get(cardId!) as ReactComponentShape
+    expect(card.props).toEqual({
+      componentType: LINK_CARD_COMPONENT,
+      componentProps: { url: 'https://example.com/docs', title: 'example.com' },
+    })
+
+    const markup = '<svg xmlns="http://www.w3.org/2000/svg"><rect width="10" height="10"/><circle cx="50" cy="5" r="5"/></svg>'
+    const svgIds = await store.getState().pasteClipboardContent({ kind: 'svg', markup }, { x: 0, y: 0 })
+    expect(svgIds.map((id) => getState(store).shapes.get(id)!.type)).toEqual(['rectangle', 'ellipse'])
+    expect(getState(store).shapes.get(svgIds[0]!)).toMatchObject({ x: -27.5, y: -5 })
+    expect(getState(store).selectedIds).toEqual(new Set(svgIds))
+  })
+})
@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { bindTabSync, type TabSyncBinding } from '../collaboration'
+import { createTestStore, getState, makeRect, resetShapeCounter } from './storeFactory'
+
+const HEARTBEAT = 20
+
+/** Delivers to the other channels of the same name in a later task, like BroadcastChannel */
+class FakeBroadcastChannel {
+  static open = new Set<FakeBroadcastChannel>()
+  onmessage: ((event: MessageEvent) => void) | null = null
+
+  constructor(readonly name: string) {
+    FakeBroadcastChannel.open.add(this)
+  }
+
+  postMessage(data: unknown): void {
+    for (const channel of FakeBroadcastChannel.open) {
+      if (channel === this || channel.name !== this.name) continue
+      setTimeout(() => {
+        if (FakeBroadcastChannel.open.has(channel)) channel.onmessage?.({ data } as MessageEvent)
+      }, 0)
+    }
+  }
+
+  close(): void {
+    FakeBroadcastChannel.open.delete(this)
+  }
+}
+
+/** Grants each lock name to one request at a time, in request order */
+class FakeLockManager {
+  private readonly queues = new Map<string, (() => void)[]>()
+
+  request(name: string, options: LockOptions, callback: () => Promise<void>): Promise<void> {
+    const queue = this.queues.get(name) ?? []
+    this.queues.set(name, queue)
+    return new Promise((resolve, reject) => {
+      const grant = () => {
+        callback().then(resolve, reject).finally(() => {
+          queue.shift()
+          queue[0]?.()
+        })
+      }
+      queue.push(grant)
+      options.signal?.addEventListener('abort', () => {
+        const index = queue.indexOf(grant)
+        if (index <= 0) return
+        queue.splice(index, 1)
+        reject(new DOMException('Aborted', 'AbortError'))
+      })
+      if (queue.length === 1) grant()
+    })
+  }
+}
+
+/** Deliver pending messages and run timers due within `ms` */
+function advance(ms = 0): Promise<void> {
+  return vi.advanceTimersByTimeAsync(ms).then(() => {})
+}
+
+describe('bindTabSync', () => {
+  let bindings: TabSyncBinding[]
+
+  function openTab(store = createTestStore(), onLeaderChange?: (isLeader: boolean) => void) {
+    const binding = bindTabSync(store, { channel: 'board', heartbeatInterval: HEARTBEAT, onLeaderChange })
+    bindings.push(binding)
+    return { store, binding }
+  }
+
+  beforeEach(() => {
+    resetShapeCounter()
+    bindings = []
+    vi.useFakeTimers()
+    vi.stubGlobal('BroadcastChannel', FakeBroadcastChannel)
+  })
+
+  afterEach(() => {
+    for (const binding of bindings) binding.unbind()
+    FakeBroadcastChannel.open.clear()
+    vi.unstubAllGlobals()
+    vi.useRealTimers()
+  })
+
+  it('applies shape ops from other tabs without recording history', async () => {
+    const a = openTab()
+    const b = openTab()
+    await advance()
+
+    a.store.getState().addShape(makeRect({ id: 'r1' }))
+    a.store.getState().addShape(makeRect({ id: 'r2' }))
+    await advance()
+    expect(getState(b.store).shapeIds).toEqual(['r1', 'r2'])
+    expect(getState(b.store).history).toHaveLength(0)
+
+    b.store.getState().updateShape('r1', { x: 50 })
+    b.store.getState().select('r2')
+    a.store.getState().deleteShapes(['r2'])
+    await advance()
+    expect(getState(a.store).shapes.get('r1')!.x).toBe(50)
+    expect(getState(b.store).shapeIds).toEqual(['r1'])
+    expect(getState(b.store).selectedIds.size).toBe(0)
+
+    // Undo in the first tab only reverts its own change
+    a.store.getState().undo()
+    await advance()
+    expect(getState(b.store).shapeIds).toEqual(['r1', 'r2'])
+    expect(getState(b.store).shapes.get('r1')!.x).toBe(50)
+  })
+
+  it('ends with the same order in every tab when tabs add shapes at once', async () => {
+    const a = openTab()
+    const b = openTab()
+    const c = openTab()
+    await advance()
+
+    // Every tab adds a shape before hearing from the others
+    a.store.getState().addShape(makeRect({ id: 'ra' }))
+    b.store.getState().addShape(makeRect({ id: 'rb' }))
+    c.store.getState().addShape(makeRect({ id: 'rc' }))
+    await advance()
+    const order = getState(a.store).shapeIds
+    expect([...order].sort()).toEqual(['ra', 'rb', 'rc'])
+    expect(getState(b.store).shapeIds).toEqual(order)
+    expect(getState(c.store).shapeIds).toEqual(order)
+
+    // A reorder racing a new shape
+    b.store.getState().select(order[0]!)
+    b.store.getState().bringToFront()
+    a.store.getState().addShape(makeRect({ id: 'rd' }))
+    await advance()
+    expect([...getState(a.store).shapeIds].sort()).toEqual(['ra', 'rb', 'rc', 'rd'])
+    expect(getState(b.store).shapeIds).toEqual(getState(a.store).shapeIds)
+    expect(getState(c.store).shapeIds).toEqual(getState(a.store).shapeIds)
+  })
+
+  it('ends with the latest write of a shape in every tab when tabs change it at once', async () => {
+    const a = openTab()
+    const b = openTab()
+    await advance()
+    a.store.getState().addShape(makeRect({ id: 'r1', x: 0, y: 0 }))
+    await advance()
+
+    // Both tabs update the shape before hearing from each other
+    a.store.getState().updateShape('r1', { x: 10 })
+    b.store.getState().updateShape('r1', { y: 30 })
+    await advance()
+    const winner = getState(a.store).shapes.get('r1')!
+    expect([{ x: 10, y: 0 }, { x: 0, y: 30 }]).toContainEqual({ x: winner.x, y: winner.y })
+    expect(getState(b.store).shapes.get('r1')).toEqual(winner)
+
+    // An older update arriving after the delete doesn't bring the shape back
+    b.store.getState().updateShape('r1', { x: 50 })
+    a.store.getState().updateShape('r1', { x: 60 })
+    a.store.getState().deleteShapes(['r1'])
+    await advance()
+    expect(getState(a.store).shapes.has('r1')).toBe(false)
+    expect(getState(b.store).shapes.has('r1')).toBe(false)
+    expect(getState(b.store).shapeIds).toEqual([])
+  })
+
+  it('elects the oldest tab and hands a joining tab its board', async () => {
+    const changes: boolean[] = []
+    const first = openTab(createTestStore(), (isLeader) => changes.push(isLeader))
+    first.store.getState().addShape(makeRect({ id: 'r1' }))
+    await advance(HEARTBEAT * 2)
+    expect(first.binding.isLeader()).toBe(true)
+
+    const second = openTab()
+    await advance(HEARTBEAT * 2)
+    expect(second.binding.isLeader()).toBe(false)
+    expect(getState(second.store).shapeIds).toEqual(['r1'])
+
+    first.binding.unbind()
+    await advance()
+    expect(second.binding.isLeader()).toBe(true)
+    expect(changes).toEqual([true])
+  })
+
+  it('elects the tab holding the Web Lock, even when its timers stop', async () => {
+    vi.stubGlobal('navigator', { locks: new FakeLockManager() })
+    const first = openTab()
+    await advance()
+    expect(first.binding.isLeader()).toBe(true)
+
+    // No heartbeats run, as in a throttled background tab
+    const second = openTab()
+    await advance()
+    expect(second.binding.isLeader()).toBe(false)
+    await advance(HEARTBEAT * 10)
+    expect(first.binding.isLeader()).toBe(true)
+    expect(second.binding.isLeader()).toBe(false)
+
+    first.binding.unbind()
+    await advance()
+    expect(second.binding.isLeader()).toBe(true)
+  })
+})
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, vi, type Mock } from 'vitest'
+import type { Shape, Viewport } from '../types'
+import { resolveTheme } from '../types/theme'
+import { TileCache, type TileRenderer, type TileScene } from '../core/renderer/TileCache'
+import { SpatialIndex } from '../utils/spatialIndex'
+import { makeRect, resetShapeCounter } from './storeFactory'
+
+function makeTarget() {
+  const noop = () => {}
+  return {
+    save: noop, restore: noop, setTransform: noop, beginPath: noop, rect: noop, clip: noop,
+    drawImage: vi.fn(),
+  } as unknown as CanvasRenderingContext2D & { drawImage: ReturnType<typeof vi.fn> }
+}
+
+function makeScene(shapes: Shape[], hiddenIds: ReadonlySet<string> = new Set()): TileScene {
+  const map = new Map(shapes.map((s) => [s.id, s]))
+  return { shapes: map, shapeIds: shapes.map((s) => s.id), spatialIndex: new SpatialIndex(), hiddenIds }
+}
+
+function withShapes(scene: TileScene, shapes: Shape[]): TileScene {
+  const map = new Map(scene.shapes)
+  for (const shape of shapes) map.set(shape.id, shape)
+  return { ...scene, shapes: map }
+}
+
+describe('TileCache', () => {
+  const theme = resolveTheme()
+  const viewport: Viewport = { x: 0, y: 0, zoom: 1 }
+  let renderer: TileRenderer & { drawShapesOn: Mock<TileRenderer['drawShapesOn']> }
+  let target: ReturnType<typeof makeTarget>
+
+  /** Shapes drawn into each tile rendered by the last call */
+  function renderedTiles(): string[][] {
+    return renderer.drawShapesOn.mock.calls.map(([, shapes]) => [...shapes].map((s) => s.id))
+  }
+
+  beforeEach(() => {
+    resetShapeCounter()
+    renderer = { getTheme: () => theme, drawShapesOn: vi.fn<TileRenderer['drawShapesOn']>() }
+    target = makeTarget()
+  })
+
+  it('renders visible tiles plus a ring once, then only blits them', () => {
+    const cache = new TileCache({ frameBudget: Infinity })
+    const scene = makeScene([makeRect({ id: 'a', x: 100, y: 100, width: 50, height: 50 })])
+
+    // 800x600 at zoom 1 covers 2x2 tiles of 512px; the ring adds 12 more
+    expect(cache.draw(target, renderer, scene, viewport, 800, 600)).toBe(false)
+    expect(renderer.drawShapesOn).toHaveBeenCalledTimes(16)
+    expect(target.drawImage).toHaveBeenCalledTimes(4)
+    expect(renderedTiles().filter((ids) => ids.length > 0)).toEqual([['a']])
+
+    // Panning into the ring blits what is there and only extends the ring
+    renderer.drawShapesOn.mockClear()
+    target.drawImage.mockClear()
+    cache.draw(target, renderer, scene, { x: -300, y: -200, zoom: 1 }, 800, 600)
+    expect(target.drawImage).toHaveBeenCalledTimes(6)
+    expect(renderer.drawShapesOn).toHaveBeenCalledTimes(4)
+    expect(renderedTiles()).toEqual([[], [], [], []])
+  })
+
+  it('re-renders only the tiles under a changed shape', () => {
+    const cache = new TileCache({ frameBudget: Infinity })
+    const a = makeRect({ id: 'a', x: 100, y: 100, width: 50, height: 50 })
+    const b = makeRect({ id: 'b', x: 100, y: 700, width: 50, height: 50 })
+    let scene = makeScene([a, b])
+    cache.draw(target, renderer, scene, viewport, 800, 600)
+    renderer.drawShapesOn.mockClear()
+
+    // Moving a from tile (0,0) to tile (1,0) redraws those two
+    scene = withShapes(scene, [{ ...a, x: 600 }])
+    cache.draw(target, renderer, scene, viewport, 800, 600)
+    expect(renderedTiles()).toEqual(expect.arrayContaining([[], ['a']]))
+    expect(renderer.drawShapesOn).toHaveBeenCalledTimes(2)
+
+    // A change that doesn't affect drawing keeps every tile
+    renderer.drawShapesOn.mockClear()
+    scene = withShapes(scene, [{ ...scene.shapes.get('b')!, isLocked: true }])
+    cache.draw(target, renderer, scene, viewport, 800, 600)
+    expect(renderer.drawShapesOn).not.toHaveBeenCalled()
+  })
+
+  it('leaves hidden shapes out and redraws their tiles when they return', () => {
+    const cache = new TileCache({ frameBudget: Infinity })
+    const scene = makeScene([makeRect({ id: 'a', x: 100, y: 100, width: 50, height: 50 })])
+    cache.draw(target, renderer, scene, viewport, 800, 600)
+    renderer.drawShapesOn.mockClear()
+
+    cache.draw(target, renderer, { ...scene, hiddenIds: new Set(['a']) }, viewport, 800, 600)
+    expect(renderedTiles()).toEqual([[]])
+
+    renderer.drawShapesOn.mockClear()
+    cache.draw(target, renderer, scene, viewport, 800, 600)
+    expect(renderedTiles()).toEqual([['a']])
+  })
+
+  it('redraws tiles whose stacking order changed', () => {
+    const cache = new TileCache({ frameBudget: Infinity })
+    const a = makeRect({ id: 'a', x: 100, y: 100, width: 50, height: 50 })
+    const b = makeRect({ id: 'b', x: 120, y: 120, width: 50, height: 50 })
+    const scene = makeScene([a, b])
+    cache.draw(target, renderer, scene, viewport, 800, 600)
+    renderer.drawShapesOn.mockClear()
+
+    cache.draw(target, renderer, { ...scene, shapeIds: ['b', 'a'] }, viewport, 800, 600)
+    expect(renderedTiles()).toEqual([['b', 'a']])
+  })
+
+  it('renders progressively within the budget, standing in with other zoom levels', () => {
+    const cache = new TileCache({ frameBudget: 0 })
+    const scene = makeScene([makeRect({ id: 'a', x: 100, y: 100, width: 50, height: 50 })])
+
+    // One tile per frame until all 16 are done
+    let frames = 1
+    while (cache.draw(target, renderer, scene, viewport, 800, 600)) frames++
+    expect(frames).toBe(16)
+    expect(cache.size).toBe(16)
+
+    // Zooming in needs a finer level; the old tiles fill in meanwhile
+    target.drawImage.mockClear()
+    expect(cache.draw(target, renderer, scene, { x: 0, y: 0, zoom: 1.3 }, 800, 600)).toBe(true)
+    expect(target.drawImage.mock.calls.length).toBeGreaterThan(1)
+  })
+
+  it('invalidates matching shapes on request and everything on a theme change', () => {
+    const cache = new TileCache({ frameBudget: Infinity })
+    const scene = makeScene([makeRect({ id: 'a', x: 100, y: 100, width: 50, height: 50 })])
+    cache.draw(target, renderer, scene, viewport, 800, 600)
+
+    renderer.drawShapesOn.mockClear()
+    cache.invalidate((shape) => shape.id === 'a')
+    cache.draw(target, renderer, scene, viewport, 800, 600)
+    expect(renderedTiles()).toEqual([['a']])
+
+    renderer.drawShapesOn.mockClear()
+    const dark = resolveTheme({ frameTitle: '#fff' })
+    cache.draw(target, { ...renderer, getTheme: () => dark }, scene, viewport, 800, 600)
+    expect(renderer.drawShapesOn).toHaveBeenCalledTimes(16)
+
+    cache.clear()
+    expect(cache.size).toBe(0)
+  })
+})
@@ -1,6 +1,25 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { renderHook, cleanup } from '@testing-library/react'
+import { HandTool } from '../tools/HandTool'
+import { createToolState, type ToolEventContext } from '../tools/types'
+import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts'
 import { createTestStore, getState, resetShapeCounter } from './storeFactory'
 
+function pointerAt(x: number, y: number): ToolEventContext {
+  return {
+    screenPoint: { x, y },
+    // Canvas points move with the viewport; panning must not depend on them
+    canvasPoint: { x: x * 2, y: y * 2 },
+    viewport: { x: 0, y: 0, zoom: 1 },
+    shiftKey: false,
+    ctrlKey: false,
+    metaKey: false,
+    altKey: false,
+    button: 0,
+    pressure: 0.5,
+  }
+}
+
 describe('viewportActions (extended)', () => {
   let store: ReturnType<typeof createTestStore>
 
@@ -84,6 +103,76 @@ describe('viewportActions (extended)', () => {
     })
   })
 
+  describe('glide', () => {
+    let originalRAF: typeof globalThis.requestAnimationFrame
+    let originalCAF: typeof globalThis.cancelAnimationFrame
+    let pending: FrameRequestCallback | null
+    let cancelMock: ReturnType<typeof vi.fn<(handle: number) => void>>
+
+    beforeEach(() => {
+      originalRAF = globalThis.requestAnimationFrame
+      originalCAF = globalThis.cancelAnimationFrame
+      pending = null
+      globalThis.requestAnimationFrame = (cb: FrameRequestCallback) => {
+        pending = cb
+        return 7
+      }
+      cancelMock = vi.fn<(handle: number) => void>()
+      globalThis.cancelAnimationFrame = cancelMock
+    })
+
+    afterEach(() => {
+      globalThis.requestAnimationFrame = originalRAF
+      globalThis.cancelAnimationFrame = originalCAF
+    })
+
+    /** Run queued frames 16ms apart until the glide stops */
+    function runFrames(start: number, limit = 1000): number {
+      let time = start
+      let frames = 0
+      while (pending && frames < limit) {
+        const cb = pending
+        pending = null
+        time += 16
+        cb(time)
+        frames++
+      }
+      return frames
+    }
+
+    it('moves the viewport in the release direction and comes to rest', () => {
+      const start = performance.now()
+      store.getState().glide(1, -0.5)
+      const frames = runFrames(start)
+
+      const vp = getState(store).viewport
+      expect(frames).toBeGreaterThan(1)
+      expect(frames).toBeLessThan(1000)
+      expect(vp.x).toBeGreaterThan(16)
+      expect(vp.y).toBeLessThan(-8)
+      // Travel is bounded by the friction series: v * 16 / (1 - friction)
+      expect(vp.x).toBeLessThan(16 / (1 - 0.92) + 1)
+    })
+
+    it('does not start for negligible velocity', () => {
+      store.getState().glide(0.001, 0)
+      expect(pending).toBeNull()
+      expect(getState(store).viewport.x).toBe(0)
+    })
+
+    it('stopGlide cancels the animation', () => {
+      store.getState().glide(1, 0)
+      store.getState().stopGlide()
+      expect(cancelMock).toHaveBeenCalledWith(7)
+    })
+
+    it('pan cancels an active glide', () => {
+      store.getState().glide(1, 0)
+      store.getState().pan(5, 5)
+      expect(cancelMock).toHaveBeenCalledWith(7)
+    })
+  })
+
   describe('zoom without center', () => {
     it('zooms without adjusting pan', () => {
       store.getState().setViewport({ x: 50, y: 50 })
@@ -105,4 +194,106 @@ describe('viewportActions (extended)', () => {
       expect(vp.y).toBe(50)
     })
   })
+
+  describe('HandTool', () => {
+    let now: number
+
+    beforeEach(() => {
+      now = 1000
+      vi.spyOn(performance, 'now').mockImplementation(() => now)
+    })
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('pans by the screen distance dragged, grabbing while dragging', () => {
+      const tool = new HandTool()
+      const state = createToolState()
+      expect(tool.cursor).toBe('grab')
+      expect(tool.onPointerMove(pointerAt(10, 10), store.getState(), state)).toEqual({ handled: false, cursor: 'grab' })
+
+      expect(tool.onPointerDown(pointerAt(10, 10), store.getState(), state)).toMatchObject({ handled: true, cursor: 'grabbing' })
+      expect(getState(store).isPanning).toBe(true)
+      now += 200
+      expect(tool.onPointerMove(pointerAt(40, -10), store.getState(), state)).toEqual({ handled: true, cursor: 'grabbing' })
+      now += 200
+      tool.onPointerMove(pointerAt(45, -5), store.getState(), state)
+      expect(getState(store).viewport).toMatchObject({ x: 35, y: -15 })
+
+      // Paused before release: no glide
+      const glide = vi.fn()
+      store.setState({ glide })
+      now += 200
+      tool.onPointerUp(pointerAt(45, -5), store.getState(), state)
+      expect(getState(store).isPanning).toBe(false)
+      expect(glide).not.toHaveBeenCalled()
+    })
+
+    it('keeps gliding after a fast release', () => {
+      const tool = new HandTool()
+      const state = createToolState()
+      const glide = vi.fn()
+      store.setState({ glide })
+
+      tool.onPointerDown(pointerAt(0, 0), store.getState(), state)
+      now += 20
+      tool.onPointerMove(pointerAt(20, 10), store.getState(), state)
+      now += 20
+      tool.onPointerMove(pointerAt(40, 20), store.getState(), state)
+      tool.onPointerUp(pointerAt(40, 20), store.getState(), state)
+      expect(glide).toHaveBeenCalledWith(1, 0.5)
+    })
+  })
+
+  describe('Space to pan', () => {
+    const press = (type: 'keydown' | 'keyup', init: KeyboardEventInit = {}) =>
+      window.dispatchEvent(new KeyboardEvent(type, { code: 'Space', key: ' ', ...init }))
+
+    beforeEach(() => {
+      store.getState().setTool('rectangle')
+      renderHook(() => useKeyboardShortcuts({ getState: store.getState }))
+    })
+
+    afterEach(cleanup)
+
+    it('switches to the hand tool while Space is held', () => {
+      press('keydown')
+      expect(getState(store).currentTool).toBe('hand')
+      // Key repeat doesn't overwrite the tool to go back to
+      press('keydown', { repeat: true })
+      press('keyup')
+      expect(getState(store).currentTool).toBe('rectangle')
+    })
+
+    it('keeps a tool picked while Space is held', () => {
+      press('keydown')
+      store.getState().setTool('ellipse')
+      press('keyup')
+      expect(getState(store).currentTool).toBe('ellipse')
+    })
+
+    it('restores the tool when the window loses focus', () => {
+      press('keydown')
+      window.dispatchEvent(new Event('blur'))
+      expect(getState(store).currentTool).toBe('rectangle')
+    })
+
+    it('ignores Space typed into inputs', () => {
+      const input = document.createElement('input')
+      document.body.appendChild(input)
+      input.dispatchEvent(new KeyboardEvent('keydown', { code: 'Space', key: ' ', bubbles: true }))
+      expect(getState(store).currentTool).toBe('rectangle')
+      input.remove()
+    })
+
+    it('works in readOnly mode', () => {
+      cleanup()
+      renderHook(() => useKeyboardShortcuts({ getState: store.getState, readOnly: true }))
+      press('keydown')
+      expect(getState(store).currentTool).toBe('hand')
+      press('keyup')
+      expect(getState(store).currentTool).toBe('rectangle')
+    })
+  })
 })
@@ -0,0 +1,312 @@
+import { contentHash, readBlobBytes } from '../persistence/indexedDBHelpers'
+import { hashBytes } from '../utils/fnv1a'
+import { DecodedImageCache } from './DecodedImageCache'
+
+/**
+ * What an upload handler is told about the image it uploads.
+ * @public
+ */
+export interface AssetUploadInfo {
+  /** The image's blob URL */
+  url: string
+  /** SHA-256 of the content — identical files have the same one */
+  hash: string
+}
+
+/**
+ * Uploads an image and resolves with the URL shapes should use instead of
+ * its blob URL, e.g. one on a CDN. If it rejects the blob URL stays.
+ * @public
+ */
+export type AssetUploadHandler = (blob: Blob, info: AssetUploadInfo) => Promise<string>
+
+/** @public */
+export interface AssetStoreOptions {
+  /** Most bytes of decoded images kept for drawing (default: 256 MB) */
+  maxDecodedBytes?: number
+}
+
+interface AssetRecord {
+  url: string
+  blob: Blob
+  /**
+   * Content, kept to tell images with the same fingerprint apart. Null until
+   * read, for blobs stored without reading them
+   */
+  bytes: Uint8Array<ArrayBuffer> | null
+  /** SHA-256 of the content, computed for uploads */
+  hash: string | null
+  /** Number of holders referring to the asset */
+  refs: number
+  /** The URL the upload handler resolved with */
+  remoteUrl: string | null
+  uploading: boolean
+}
+
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false
+  }
+  return true
+}
+
+/**
+ * Image blobs behind the `blob:` URLs in image shapes.
+ *
+ * - Blobs are stored once per content: adding the same file twice returns
+ *   the same URL.
+ * - Holders (a board's shapes, its undo history, its clipboard — see
+ *   `bindAssetStore`) declare the image sources they refer to. An image is
+ *   only released, and its URL revoked, once no holder refers to it anymore.
+ *   Images never referred to are kept.
+ * - With an upload handler set, referenced images are uploaded once and
+ *   bound boards switch to the returned URL.
+ * - `images` keeps decoded images for drawing, within a byte budget.
+ * @public
+ */
+export class AssetStore {
+  /** Decoded images for the canvas renderer */
+  readonly images: DecodedImageCache
+  private readonly records = new Map<string, AssetRecord>()
+  /** Records with read content by a fast hash of it; equal fingerprints are compared byte by byte */
+  private readonly byFingerprint = new Map<string, AssetRecord[]>()
+  private readonly byRemoteUrl = new Map<string, AssetRecord>()
+  private readonly byBlob = new WeakMap<Blob, AssetRecord>()
+  /** Number of the holder's sources pointing at each record */
+  private readonly holders = new Map<object, Map<AssetRecord, number>>()
+  /** Records whose last reference went away, released after the current task */
+  private readonly unreferenced = new Set<AssetRecord>()
+  private readonly uploadListeners = new Set<(url: string, remoteUrl: string) => void>()
+  private uploadHandler: AssetUploadHandler | null = null
+
+  constructor(options?: AssetStoreOptions) {
+    this.images = new DecodedImageCache((src) => this.resolve(src), options?.maxDecodedBytes)
+  }
+
+  /**
+   * Store a blob and return its URL. Reads the blob, so a blob with the same
+   * content as one already stored gets that one's URL.
+   */
+  async add(blob: Blob): Promise<string> {
+    const known = this.byBlob.get(blob)
+    if (known) return known.url
+    const bytes = new Uint8Array(await readBlobBytes(blob))
+    return (this.byBlob.get(blob) ?? this.findContent(bytes))?.url ?? this.insert(blob, bytes)
+  }
+
+  /** Store decoded bytes (e.g. from a data URL), deduped like `add` */
+  addBytes(bytes: Uint8Array<ArrayBuffer>, type: string): string {
+    return this.findContent(bytes)?.url ?? this.insert(new Blob([bytes], { type }), bytes)
+  }
+
+  /**
+   * Store a blob without reading it. Only the same Blob object is deduped;
+   * prefer `add` where the caller can wait.
+   */
+  addSync(blob: Blob): string {
+    return this.byBlob.get(blob)?.url ?? this.insert(blob, null)
+  }
+
+  /** Whether `src` is a stored image's blob URL or uploaded URL */
+  has(src: string): boolean {
+    return this.lookup(src) !== undefined
+  }
+
+  /** The blob for a stored image's blob URL or uploaded URL */
+  getBlob(src: string): Blob | undefined {
+    return this.lookup(src)?.blob
+  }
+
+  /** The URL to load `src` from: its blob URL while the image is stored */
+  resolve(src: string): string {
+    return this.lookup(src)?.url ?? src
+  }
+
+  /** The URL the image was uploaded to, if it has been */
+  getRemoteUrl(src: string): string | null {
+    return this.lookup(src)?.remoteUrl ?? null
+  }
+
+  /** Number of holders referring to the image */
+  refCount(src: string): number {
+    return this.lookup(src)?.refs ?? 0
+  }
+
+  /**
+   * Replace the image sources `holder` refers to. Sources that aren't stored
+   * images are ignored. Images left without references are released at the
+   * end of the current task, so moving an image between holders in one go
+   * (e.g. deleting a shape into the undo history) keeps it.
+   */
+  setReferences(holder: object, sources: Iterable<string>): void {
+    const previous = this.holders.get(holder) ?? new Map<AssetRecord, number>()
+    this.holders.delete(holder)
+    this.changeReferences(holder, sources, [])
+    for (const record of previous.keys()) this.release(record)
+  }
+
+  /**
+   * Add and remove some of the sources `holder` refers to, keeping the rest.
+   * A source listed twice counts twice, so a holder can pass every change
+   * it sees; removing a source it never added does nothing.
+   */
+  changeReferences(holder: object, added: Iterable<string>, removed: Iterable<string>): void {
+    const counts = this.holders.get(holder) ?? new Map<AssetRecord, number>()
+    for (const src of added) {
+      const record = this.lookup(src)
+      if (!record) continue
+      const count = counts.get(record) ?? 0
+      counts.set(record, count + 1)
+      if (count === 0) this.retain(record)
+    }
+    for (const src of removed) {
+      const record = this.lookup(src)
+      const count = record ? counts.get(record) : undefined
+      if (!record || count === undefined) continue
+      if (count > 1) {
+        counts.set(record, count - 1)
+      } else {
+        counts.delete(record)
+        this.release(record)
+      }
+    }
+    if (counts.size > 0) this.holders.set(holder, counts)
+    else this.holders.delete(holder)
+  }
+
+  /**
+   * Upload images with `handler` — the referenced ones now, the others once
+   * something refers to them. Pass null to stop uploading.
+   */
+  setUploadHandler(handler: AssetUploadHandler | null): void {
+    this.uploadHandler = handler
+    for (const record of this.records.values()) {
+      if (record.refs > 0) this.upload(record)
+    }
+  }
+
+  /** Listen for images being uploaded; called with the blob URL and the uploaded URL */
+  onUpload(listener: (url: string, remoteUrl: string) => void): () => void {
+    this.uploadListeners.add(listener)
+    return () => {
+      this.uploadListeners.delete(listener)
+    }
+  }
+
+  /** Release an image now, whatever refers to it */
+  remove(src: string): void {
+    const record = this.lookup(src)
+    if (record) this.forget(record)
+  }
+
+  /** Release every image */
+  clear(): void {
+    for (const record of [...this.records.values()]) this.forget(record)
+    this.holders.clear()
+    this.images.clear()
+  }
+
+  private lookup(src: string): AssetRecord | undefined {
+    return this.records.get(src) ?? this.byRemoteUrl.get(src)
+  }
+
+  /** A stored image with exactly this content */
+  private findContent(bytes: Uint8Array): AssetRecord | undefined {
+    return this.byFingerprint.get(hashBytes(bytes))?.find((record) => sameBytes(record.bytes!, bytes))
+  }
+
+  private insert(blob: Blob, bytes: Uint8Array<ArrayBuffer> | null): string {
+    const record: AssetRecord = {
+      url: URL.createObjectURL(blob), blob, bytes, hash: null, refs: 0, remoteUrl: null, uploading: false,
+    }
+    this.records.set(record.url, record)
+    this.byBlob.set(blob, record)
+    if (bytes) this.indexContent(record, bytes)
+    return record.url
+  }
+
+  private indexContent(record: AssetRecord, bytes: Uint8Array<ArrayBuffer>): void {
+    record.bytes = bytes
+    const fingerprint = hashBytes(bytes)
+    const bucket = this.byFingerprint.get(fingerprint)
+    if (bucket) bucket.push(record)
+    else this.byFingerprint.set(fingerprint, [record])
+  }
+
+  private retain(record: AssetRecord): void {
+    record.refs++
+    if (record.refs === 1) this.upload(record)
+  }
+
+  private release(record: AssetRecord): void {
+    record.refs--
+    if (record.refs > 0) return
+    if (this.unreferenced.size === 0) queueMicrotask(() => this.releaseUnreferenced())
+    this.unreferenced.add(record)
+  }
+
+  private releaseUnreferenced(): void {
+    for (const record of this.unreferenced) {
+      if (record.refs === 0 && this.records.get(record.url) === record) this.forget(record)
+    }
+    this.unreferenced.clear()
+  }
+
+  private forget(record: AssetRecord): void {
+    URL.revokeObjectURL(record.url)
+    this.records.delete(record.url)
+    this.byBlob.delete(record.blob)
+    if (record.bytes) {
+      const fingerprint = hashBytes(record.bytes)
+      const bucket = this.byFingerprint.get(fingerprint)?.filter((other) => other !== record) ?? []
+      if (bucket.length > 0) this.byFingerprint.set(fingerprint, bucket)
+      else this.byFingerprint.delete(fingerprint)
+    }
+    this.images.delete(record.url)
+    if (record.remoteUrl !== null) {
+      this.byRemoteUrl.delete(record.remoteUrl)
+      this.images.delete(record.remoteUrl)
+    }
+  }
+
+  private upload(record: AssetRecord): void {
+    const handler = this.uploadHandler
+    if (!handler || record.remoteUrl !== null || record.uploading) return
+    record.uploading = true
+    this.hashOf(record)
+      .then((hash) => handler(record.blob, { url: record.url, hash }))
+      .then((remoteUrl) => {
+        if (this.records.get(record.url) !== record) return
+        record.remoteUrl = remoteUrl
+        this.byRemoteUrl.set(remoteUrl, record)
+        for (const listener of this.uploadListeners) listener(record.url, remoteUrl)
+      })
+      .catch(() => {
+        // Keeps the blob URL; uploaded again when a handler is set
+      })
+      .finally(() => {
+        record.uploading = false
+      })
+  }
+
+  private async hashOf(record: AssetRecord): Promise<string> {
+    if (record.hash !== null) return record.hash
+    let bytes = record.bytes
+    if (!bytes) {
+      bytes = new Uint8Array(await readBlobBytes(record.blob))
+      // Later adds of the same content can now reuse this one
+      const stored = this.records.get(record.url) === record
+      if (stored && !record.bytes && !this.findContent(bytes)) this.indexContent(record, bytes)
+    }
+    record.hash = await contentHash(bytes)
+    return record.hash
+  }
+}
+
+/**
+ * The asset store shared by image shapes, the blob store helpers and the
+ * canvas renderer.
+ * @public
+ */
+export const assetStore = new AssetStore()
@@ -0,0 +1,160 @@
+/** Decoded images take 4 bytes (RGBA) per pixel */
+const BYTES_PER_PIXEL = 4
+
+/** Narrowest mipmap; smaller on-screen images use this one */
+const MIN_MIPMAP_WIDTH = 64
+
+/**
+ * Default memory budget for decoded images (256 MB).
+ * @public
+ */
+export const DEFAULT_MAX_DECODED_BYTES = 256 * 1024 * 1024
+
+/**
+ * An image ready to draw. `source` may be a downscaled copy of the image:
+ * `scale` is its size relative to the image's natural size, which is
+ * `naturalWidth` x `naturalHeight` pixels.
+ * @public
+ */
+export interface DecodedImage {
+  source: CanvasImageSource
+  scale: number
+  naturalWidth: number
+  naturalHeight: number
+}
+
+interface CacheEntry {
+  image: HTMLImageElement
+  /** Downscaled copies by mipmap level (1 = half size…); null while one is being made */
+  mipmaps: Map<number, ImageBitmap | null>
+  /** Decoded size of the image and its mipmaps once loaded */
+  bytes: number
+}
+
+/**
+ * Decoded images by src, least recently drawn first. Once the decoded
+ * images exceed `maxBytes` the least recently drawn are dropped — only the
+ * decoded pixels: their URLs stay valid and reload when drawn again.
+ *
+ * Images drawn much smaller than their natural size are drawn from halved
+ * copies (mipmaps), made in the background with `createImageBitmap` where
+ * available.
+ * @public
+ */
+export class DecodedImageCache {
+  /** Most bytes of decoded images kept */
+  readonly maxBytes: number
+  private readonly resolve: (src: string) => string
+  private readonly entries = new Map<string, CacheEntry>()
+  private readonly listeners = new Set<(src: string) => void>()
+  private totalBytes = 0
+
+  /** `resolve` maps a src to the URL to load it from */
+  constructor(resolve: (src: string) => string = (src) => src, maxBytes = DEFAULT_MAX_DECODED_BYTES) {
+    this.resolve = resolve
+    this.maxBytes = maxBytes
+  }
+
+  /** Bytes of decoded images and mipmaps currently kept */
+  get byteSize(): number {
+    return this.totalBytes
+  }
+
+  /**
+   * The image to draw for `src` when it covers `pixelWidth` device pixels.
+   * Null until the image has loaded — listeners added with `onLoad` are
+   * called once it has, and again when a sharper-fitting mipmap is ready.
+   */
+  get(src: string, pixelWidth = Infinity): DecodedImage | null {
+    let entry = this.entries.get(src)
+    if (entry) {
+      // Most recently drawn last
+      this.entries.delete(src)
+      this.entries.set(src, entry)
+    } else {
+      entry = this.load(src)
+    }
+
+    const { image } = entry
+    if (!image.complete || image.naturalWidth === 0) return null
+
+    const { naturalWidth, naturalHeight } = image
+    let level = 0
+    const minWidth = Math.max(pixelWidth, MIN_MIPMAP_WIDTH)
+    while (image.naturalWidth / 2 ** (level + 1) >= minWidth) level++
+    if (level === 0) return { source: image, scale: 1, naturalWidth, naturalHeight }
+
+    const mipmap = entry.mipmaps.get(level)
+    if (mipmap) return { source: mipmap, scale: mipmap.width / naturalWidth, naturalWidth, naturalHeight }
+    if (mipmap === undefined) this.makeMipmap(src, entry, level)
+    // Full size until the mipmap is ready
+    return { source: image, scale: 1, naturalWidth, naturalHeight }
+  }
+
+  /**
+   * Listen for images (or their mipmaps) becoming ready, e.g. to redraw
+   * tiles rendered before they were.
+   */
+  onLoad(listener: (src: string) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /** Drop the decoded image for `src` */
+  delete(src: string): void {
+    const entry = this.entries.get(src)
+    if (!entry) return
+    this.entries.delete(src)
+    this.totalBytes -= entry.bytes
+    entry.image.onload = null
+    for (const mipmap of entry.mipmaps.values()) mipmap?.close()
+  }
+
+  /** Drop every decoded image */
+  clear(): void {
+    for (const src of [...this.entries.keys()]) this.delete(src)
+  }
+
+  private load(src: string): CacheEntry {
+    const image = new Image()
+    const entry: CacheEntry = { image, mipmaps: new Map(), bytes: 0 }
+    image.onload = () => {
+      if (this.entries.get(src) !== entry) return
+      this.grow(src, entry, image.naturalWidth * image.naturalHeight * BYTES_PER_PIXEL)
+    }
+    image.src = this.resolve(src)
+    this.entries.set(src, entry)
+    return entry
+  }
+
+  private makeMipmap(src: string, entry: CacheEntry, level: number): void {
+    if (typeof createImageBitmap !== 'function') return
+    const { image } = entry
+    const resizeWidth = Math.max(1, Math.round(image.naturalWidth / 2 ** level))
+    const resizeHeight = Math.max(1, Math.round(image.naturalHeight / 2 ** level))
+    entry.mipmaps.set(level, null)
+    createImageBitmap(image, { resizeWidth, resizeHeight, resizeQuality: 'high' }).then((bitmap) => {
+      if (this.entries.get(src) !== entry) {
+        bitmap.close()
+        return
+      }
+      entry.mipmaps.set(level, bitmap)
+      this.grow(src, entry, resizeWidth * resizeHeight * BYTES_PER_PIXEL)
+    }).catch(() => {
+      // Stays at full size
+    })
+  }
+
+  /** Account for newly decoded pixels, evict, and tell listeners */
+  private grow(src: string, entry: CacheEntry, bytes: number): void {
+    entry.bytes += bytes
+    this.totalBytes += bytes
+    for (const [oldest] of this.entries) {
+      if (this.totalBytes <= this.maxBytes) break
+      if (oldest !== src) this.delete(oldest)
+    }
+    for (const listener of this.listeners) listener(src)
+  }
+}
@@ -0,0 +1,127 @@
+import type { createWhiteboardStore, WhiteboardStore } from '../core/store/createStore'
+import type { HistoryAction, HistoryEntry, Shape } from '../types'
+import { assetStore, type AssetStore } from './AssetStore'
+
+/** Store API type that includes subscribeWithSelector overloads */
+type WhiteboardStoreApi = ReturnType<typeof createWhiteboardStore>
+
+/** Image sources of shapes or shape patches */
+function sourcesOf(items: { props?: object }[], out: string[]): void {
+  for (const item of items) {
+    const src = (item.props as { src?: unknown } | undefined)?.src
+    if (typeof src === 'string') out.push(src)
+  }
+}
+
+function actionSources(action: HistoryAction, out: string[]): void {
+  switch (action.type) {
+    case 'create':
+    case 'delete':
+      sourcesOf(action.shapes, out)
+      break
+    case 'update':
+      sourcesOf(action.before, out)
+      sourcesOf(action.after, out)
+      break
+    case 'batch':
+      for (const child of action.actions) actionSources(child, out)
+      break
+  }
+}
+
+/** Image sources by history entry; entries never change once recorded */
+const entrySources = new WeakMap<HistoryEntry, string[]>()
+
+function sourcesOfEntry(entry: HistoryEntry): string[] {
+  let sources = entrySources.get(entry)
+  if (!sources) {
+    sources = []
+    actionSources(entry.action, sources)
+    entrySources.set(entry, sources)
+  }
+  return sources
+}
+
+function historyEntries(state: WhiteboardStore): Set<HistoryEntry> {
+  // With the undo tree on, entries off the active branch are only in the tree
+  const entries = new Set(state.history)
+  for (const node of state.historyTree.values()) entries.add(node.entry)
+  return entries
+}
+
+/**
+ * Tell an asset store which images a whiteboard store refers to: those of
+ * its shapes, its undo history (including undone changes) and its
+ * clipboard. Images the board stops referring to are released, unless
+ * another bound board still does.
+ *
+ * Once an image is uploaded (see `AssetStore.setUploadHandler`) its shapes
+ * switch to the uploaded URL, without an undo step. Returns a function that
+ * removes the binding and drops the board's references.
+ * @public
+ */
+export function bindAssetStore(store: WhiteboardStoreApi, assets: AssetStore = assetStore): () => void {
+  const shapesHolder = {}
+  const historyHolder = {}
+  const clipboardHolder = {}
+
+  let entries = new Set<HistoryEntry>()
+
+  const updateReferences = (state: WhiteboardStore, prev?: WhiteboardStore) => {
+    if (state.shapes !== prev?.shapes) {
+      // Diff against the previous map: unchanged shapes are the same objects
+      const added: Shape[] = []
+      const removed: Shape[] = []
+      const before = prev?.shapes ?? new Map<string, Shape>()
+      for (const [id, shape] of state.shapes) {
+        const old = before.get(id)
+        if (old === shape) continue
+        added.push(shape)
+        if (old) removed.push(old)
+      }
+      for (const [id, shape] of before) {
+        if (!state.shapes.has(id)) removed.push(shape)
+      }
+      const addedSources: string[] = []
+      const removedSources: string[] = []
+      sourcesOf(added, addedSources)
+      sourcesOf(removed, removedSources)
+      assets.changeReferences(shapesHolder, addedSources, removedSources)
+    }
+    if (state.history !== prev?.history || state.historyTree !== prev.historyTree) {
+      const next = historyEntries(state)
+      const added: string[] = []
+      const removed: string[] = []
+      for (const entry of next) {
+        if (!entries.has(entry)) added.push(...sourcesOfEntry(entry))
+      }
+      for (const entry of entries) {
+        if (!next.has(entry)) removed.push(...sourcesOfEntry(entry))
+      }
+      entries = next
+      assets.changeReferences(historyHolder, added, removed)
+    }
+    if (state.clipboard !== prev?.clipboard) {
+      const sources: string[] = []
+      sourcesOf(state.clipboard, sources)
+      assets.setReferences(clipboardHolder, sources)
+    }
+  }
+
+  updateReferences(store.getState())
+  const unsubscribe = store.subscribe((state, prev) => updateReferences(state, prev))
+
+  const unsubscribeUploads = assets.onUpload((url, remoteUrl) => {
+    const state = store.getState()
+    for (const shape of state.shapes.values()) {
+      if (shape.type !== 'image' || shape.props.src !== url) continue
+      state.updateShape(shape.id, { props: { ...shape.props, src: remoteUrl } }, false)
+    }
+  })
+
+  return () => {
+    unsubscribe()
+    unsubscribeUploads()
+    for (const holder of [shapesHolder, historyHolder, clipboardHolder]) assets.setReferences(holder, [])
+  }
+}
@@ -0,0 +1,5 @@
+export { AssetStore, assetStore } from './AssetStore'
+export type { AssetStoreOptions, AssetUploadHandler, AssetUploadInfo } from './AssetStore'
+export { DecodedImageCache, DEFAULT_MAX_DECODED_BYTES } from './DecodedImageCache'
+export type { DecodedImage } from './DecodedImageCache'
+export { bindAssetStore } from './bindAssetStore'
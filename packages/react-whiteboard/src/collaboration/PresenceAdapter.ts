@@ -0,0 +1,89 @@
+import type { PeerPresence, PresenceState } from '../types'
+
+/**
+ * Pluggable presence transport.
+ *
+ * Implement `setLocalState` to publish this client's presence (null when it
+ * leaves) and `subscribe` to report the current list of remote peers.
+ * Works over any transport: Y.js awareness, a WebSocket room, BroadcastChannel…
+ * @public
+ */
+export interface PresenceAdapter {
+  setLocalState(state: PresenceState | null): void
+  /** Listener receives the full peer list (excluding this client) on every change */
+  subscribe(listener: (peers: PeerPresence[]) => void): () => void
+}
+
+// ============================================================================
+// AwarenessPresenceAdapter
+// ============================================================================
+
+/**
+ * The subset of the y-protocols `Awareness` API used by the adapter.
+ * @public
+ */
+export interface AwarenessLike {
+  clientID: number
+  getStates(): Map<number, Record<string, unknown>>
+  setLocalStateField(field: string, value: unknown): void
+  on(event: 'change', listener: () => void): void
+  off(event: 'change', listener: () => void): void
+}
+
+/** @public */
+export interface AwarenessPresenceAdapterOptions {
+  /** Awareness state field holding the whiteboard presence (default: 'whiteboard') */
+  field?: string
+}
+
+function isPresenceState(value: unknown): value is PresenceState {
+  if (!value || typeof value !== 'object') return false
+  const state = value as Partial<PresenceState>
+  return (
+    typeof state.user?.name === 'string' &&
+    Array.isArray(state.selectedIds) &&
+    typeof state.viewport === 'object' && state.viewport !== null
+  )
+}
+
+/**
+ * Presence adapter backed by a y-protocols `Awareness` instance, so presence
+ * travels over the same provider as the Y.Doc (see `bindYDoc`).
+ *
+ * Presence is kept under one awareness field, leaving the rest of the
+ * awareness state to other integrations. Peers whose field is missing or
+ * malformed are ignored.
+ * @public
+ */
+export class AwarenessPresenceAdapter implements PresenceAdapter {
+  private readonly awareness: AwarenessLike
+  private readonly field: string
+
+  constructor(awareness: AwarenessLike, options?: AwarenessPresenceAdapterOptions) {
+    this.awareness = awareness
+    this.field = options?.field ?? 'whiteboard'
+  }
+
+  setLocalState(state: PresenceState | null): void {
+    this.awareness.setLocalStateField(this.field, state)
+  }
+
+  subscribe(listener: (peers: PeerPresence[]) => void): () => void {
+    const onChange = () => listener(this.getPeers())
+    this.awareness.on('change', onChange)
+    onChange()
+    return () => this.awareness.off('change', onChange)
+  }
+
+  private getPeers(): PeerPresence[] {
+    const peers: PeerPresence[] = []
+    for (const [clientId, state] of this.awareness.getStates()) {
+      if (clientId === this.awareness.clientID) continue
+      const presence = state[this.field]
+      if (isPresenceState(presence)) {
+        peers.push({ ...presence, clientId: String(clientId) })
+      }
+    }
+    return peers
+  }
+}
@@ -0,0 +1,81 @@
+import type { createWhiteboardStore, WhiteboardStore } from '../core/store/createStore'
+import type { PresenceState, PresenceUser } from '../types'
+import type { PresenceAdapter } from './PresenceAdapter'
+
+/** Store API type that includes subscribeWithSelector overloads */
+type WhiteboardStoreApi = ReturnType<typeof createWhiteboardStore>
+
+/** @public */
+export interface BindPresenceOptions {
+  /** Minimum time between two published updates, in ms (default: 50) */
+  throttleMs?: number
+}
+
+const DEFAULT_THROTTLE_MS = 50
+
+function toPresenceState(state: WhiteboardStore, user: PresenceUser): PresenceState {
+  return {
+    user,
+    cursor: state.cursorPosition,
+    selectedIds: [...state.selectedIds],
+    tool: state.currentTool,
+    viewport: state.viewport,
+  }
+}
+
+/**
+ * Publish local presence (cursor, selection, tool, viewport) through a
+ * presence adapter and mirror remote peers into the store's `peers`.
+ *
+ * Updates are throttled — the first change is sent at once, later ones at
+ * most every `throttleMs`, and the latest state is always sent last.
+ * Returns a function that withdraws local presence and clears `peers`.
+ * @public
+ */
+export function bindPresence(
+  store: WhiteboardStoreApi,
+  adapter: PresenceAdapter,
+  user: PresenceUser,
+  options?: BindPresenceOptions,
+): () => void {
+  const throttleMs = options?.throttleMs ?? DEFAULT_THROTTLE_MS
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let pending = false
+
+  const publish = () => {
+    adapter.setLocalState(toPresenceState(store.getState(), user))
+  }
+
+  const schedule = () => {
+    if (timer !== null) {
+      pending = true
+      return
+    }
+    publish()
+    timer = setTimeout(function flush() {
+      if (pending) {
+        pending = false
+        publish()
+        timer = setTimeout(flush, throttleMs)
+      } else {
+        timer = null
+      }
+    }, throttleMs)
+  }
+
+  const unsubscribeStore = store.subscribe(
+    (s) => [s.cursorPosition, s.selectedIds, s.currentTool, s.viewport] as const,
+    schedule,
+    { equalityFn: (a, b) => a.every((value, i) => value === b[i]) },
+  )
+  const unsubscribePeers = adapter.subscribe((peers) => store.getState().setPeers(peers))
+  publish()
+
+  return () => {
+    if (timer !== null) clearTimeout(timer)
+    unsubscribeStore()
+    unsubscribePeers()
+    adapter.setLocalState(null)
+    store.getState().setPeers([])
+  }
+}
@@ -0,0 +1,324 @@
+import { nanoid } from 'nanoid'
+import type { createWhiteboardStore } from '../core/store/createStore'
+import type { ImageShape, Shape } from '../types'
+import { ShapeChangeTracker, type PersistenceOp } from '../persistence'
+import { getBlob, isBlobUrl, storeBlobAsUrl } from '../utils/imageBlobStore'
+
+/** Store API type that includes subscribeWithSelector overloads */
+type WhiteboardStoreApi = ReturnType<typeof createWhiteboardStore>
+
+/** @public */
+export interface TabSyncOptions {
+  /** BroadcastChannel name; tabs on the same channel share one board (default: 'react-whiteboard') */
+  channel?: string
+  /**
+   * Without Web Locks: how often each tab announces itself, in ms
+   * (default: 1000). Tabs silent for three intervals are dropped.
+   */
+  heartbeatInterval?: number
+  /** Called when this tab is elected or stops being the elected tab */
+  onLeaderChange?: (isLeader: boolean) => void
+}
+
+/** @public */
+export interface TabSyncBinding {
+  /** Whether this tab is the elected one, e.g. the only one that autosaves */
+  isLeader(): boolean
+  /** Stop syncing and let the other tabs know this one is gone */
+  unbind(): void
+}
+
+/**
+ * When a tab made a change: a Lamport clock, then the tab ID to break ties,
+ * so every tab sorts concurrent changes the same way.
+ */
+interface Stamp {
+  clock: number
+  tabId: string
+}
+
+/**
+ * Messages between tabs. Blob URLs only resolve in the tab that created
+ * them, so the blobs of shared images travel along, keyed by URL.
+ * - `hello`: a tab joined; answered with `here`, and with `snapshot` by the leader
+ * - `here`: heartbeat
+ * - `bye`: a tab left
+ */
+type TabSyncMessage =
+  | { type: 'hello' | 'here'; tabId: string; openedAt: number }
+  | { type: 'bye'; tabId: string }
+  | { type: 'ops'; ops: PersistenceOp[]; blobs: Record<string, Blob>; stamp: Stamp }
+  | { type: 'snapshot'; to: string; shapes: Shape[]; shapeIds: string[]; blobs: Record<string, Blob>; stamp: Stamp }
+
+const DEFAULT_CHANNEL = 'react-whiteboard'
+const DEFAULT_HEARTBEAT_INTERVAL = 1000
+/** Web Locks name prefix; the tab holding the lock for a channel is elected */
+const LOCK_PREFIX = 'react-whiteboard-tab-sync:'
+
+function compareStamps(a: Stamp, b: Stamp): number {
+  if (a.clock !== b.clock) return a.clock - b.clock
+  return a.tabId < b.tabId ? -1 : a.tabId > b.tabId ? 1 : 0
+}
+
+function collectBlobs(shapes: Shape[]): Record<string, Blob> {
+  const blobs: Record<string, Blob> = {}
+  for (const shape of shapes) {
+    if (shape.type !== 'image' || !isBlobUrl(shape.props.src)) continue
+    const blob = getBlob(shape.props.src)
+    if (blob) blobs[shape.props.src] = blob
+  }
+  return blobs
+}
+
+/**
+ * Keep a board in sync across same-origin tabs with a BroadcastChannel.
+ *
+ * Every local store update is broadcast as shape ops; ops from other tabs
+ * are applied without writing history entries, so undo only reverts local
+ * changes. Concurrent changes are ordered by Lamport clock (then tab ID):
+ * a shape ends as the latest write or delete of it, whatever order they
+ * arrive in, and the shape order as the latest one set, with the top-level
+ * shapes it doesn't list on top, oldest first. A joining tab
+ * takes the board from the elected tab.
+ *
+ * A single tab is elected, e.g. as the only autosave writer: the one
+ * holding a Web Lock, which browsers keep for hidden tabs too. Without Web
+ * Locks, the oldest tab still sending heartbeats is elected; a new tab
+ * waits one heartbeat before it can be.
+ *
+ * Without BroadcastChannel (SSR, older browsers) nothing is synced and the
+ * tab counts as elected.
+ * @public
+ */
+export function bindTabSync(store: WhiteboardStoreApi, options?: TabSyncOptions): TabSyncBinding {
+  if (typeof BroadcastChannel === 'undefined') return { isLeader: () => true, unbind: () => {} }
+
+  const heartbeatInterval = options?.heartbeatInterval ?? DEFAULT_HEARTBEAT_INTERVAL
+  const channelName = options?.channel ?? DEFAULT_CHANNEL
+  const channel = new BroadcastChannel(channelName)
+  const self = { tabId: nanoid(), openedAt: Date.now() }
+  const peers = new Map<string, { openedAt: number; lastSeen: number }>()
+  const tracker = new ShapeChangeTracker()
+  // Local blob URLs for the blob URLs of other tabs
+  const localBlobUrls = new Map<string, string>()
+  // Lamport clock, the latest order any tab set, when shapes were created
+  // and when each shape was last written or deleted
+  let clock = 0
+  let latestOrder = { stamp: { clock: 0, tabId: '' }, shapeIds: store.getState().shapeIds }
+  const createdAt = new Map<string, Stamp>()
+  const writtenAt = new Map<string, Stamp>()
+  let leader = false
+  let canLead = false
+  let applyingRemote = false
+  let bound = true
+
+  const post = (message: TabSyncMessage) => channel.postMessage(message)
+
+  const setLeader = (isLeader: boolean) => {
+    if (isLeader === leader) return
+    leader = isLeader
+    options?.onLeaderChange?.(leader)
+  }
+
+  /** Heartbeat election, without Web Locks */
+  const elect = () => {
+    if (!canLead) return
+    let isLeader = true
+    for (const [tabId, peer] of peers) {
+      if (peer.openedAt < self.openedAt || (peer.openedAt === self.openedAt && tabId < self.tabId)) isLeader = false
+    }
+    setLeader(isLeader)
+  }
+
+  const toLocalShape = (shape: Shape, blobs: Record<string, Blob>): Shape => {
+    if (shape.type !== 'image') return shape
+    const image = shape as ImageShape
+    const blob = blobs[image.props.src]
+    if (!blob) return shape
+    let src = localBlobUrls.get(image.props.src)
+    // Released once nothing referred to it
+    if (!src || !getBlob(src)) {
+      src = storeBlobAsUrl(blob)
+      localBlobUrls.set(image.props.src, src)
+    }
+    return { ...image, props: { ...image.props, src } }
+  }
+
+  /** Note a write to shape `id` stamped `stamp`; false if a later one was already noted */
+  const claim = (id: string, stamp: Stamp): boolean => {
+    const last = writtenAt.get(id)
+    if (last && compareStamps(stamp, last) <= 0) return false
+    writtenAt.set(id, stamp)
+    return true
+  }
+
+  /**
+   * Track the latest order, creation and write times from ops stamped
+   * `stamp`. Returns the ops without the writes that later ones replace.
+   */
+  const noteOps = (ops: PersistenceOp[], stamp: Stamp): PersistenceOp[] => {
+    const latest: PersistenceOp[] = []
+    for (const op of ops) {
+      switch (op.type) {
+        case 'create':
+        case 'update': {
+          const shapes = op.shapes.filter((shape) => claim(shape.id, stamp))
+          if (op.type === 'create') for (const shape of shapes) createdAt.set(shape.id, stamp)
+          if (shapes.length > 0) latest.push({ ...op, shapes })
+          break
+        }
+        case 'delete': {
+          const ids = op.ids.filter((id) => claim(id, stamp))
+          for (const id of ids) createdAt.delete(id)
+          if (ids.length > 0) latest.push({ type: 'delete', ids })
+          break
+        }
+        case 'reorder':
+          if (compareStamps(stamp, latestOrder.stamp) > 0) latestOrder = { stamp, shapeIds: op.shapeIds }
+          break
+      }
+    }
+    return latest
+  }
+
+  /** The latest order, then top-level shapes it doesn't list, oldest first */
+  const orderOf = (shapes: Map<string, Shape>): string[] => {
+    const ordered = latestOrder.shapeIds.filter((id) => shapes.has(id) && !shapes.get(id)!.parentId)
+    const listed = new Set(ordered)
+    const unlisted = [...shapes.values()]
+      .filter((shape) => !shape.parentId && !listed.has(shape.id))
+      .map((shape) => shape.id)
+    const zero = { clock: 0, tabId: '' }
+    unlisted.sort((a, b) =>
+      compareStamps(createdAt.get(a) ?? zero, createdAt.get(b) ?? zero) || (a < b ? -1 : a > b ? 1 : 0))
+    return [...ordered, ...unlisted]
+  }
+
+  const applyOps = (ops: PersistenceOp[], blobs: Record<string, Blob>, stamp: Stamp) => {
+    clock = Math.max(clock, stamp.clock)
+    const latest = noteOps(ops, stamp)
+    const state = store.getState()
+    const shapes = new Map(state.shapes)
+    let selectedIds = state.selectedIds
+    for (const op of latest) {
+      switch (op.type) {
+        case 'create':
+        case 'update':
+          for (const shape of op.shapes) shapes.set(shape.id, toLocalShape(shape, blobs))
+          break
+        case 'delete':
+          for (const id of op.ids) {
+            if (!shapes.delete(id) || !selectedIds.has(id)) continue
+            if (selectedIds === state.selectedIds) selectedIds = new Set(selectedIds)
+            selectedIds.delete(id)
+          }
+          break
+      }
+    }
+
+    const shapeIds = orderOf(shapes)
+    applyingRemote = true
+    store.setState({ shapes, shapeIds, selectedIds })
+    applyingRemote = false
+  }
+
+  const applySnapshot = (message: Extract<TabSyncMessage, { type: 'snapshot' }>) => {
+    clock = Math.max(clock, message.stamp.clock)
+    latestOrder = { stamp: message.stamp, shapeIds: message.shapeIds }
+    const shapes = new Map(message.shapes.map((shape) => [shape.id, toLocalShape(shape, message.blobs)]))
+    applyingRemote = true
+    store.setState({
+      shapes,
+      shapeIds: message.shapeIds.filter((id) => shapes.has(id)),
+      selectedIds: new Set<string>(),
+      history: [],
+      historyIndex: -1,
+      historyTree: new Map(),
+    })
+    applyingRemote = false
+  }
+
+  channel.onmessage = (event: MessageEvent<TabSyncMessage>) => {
+    const message = event.data
+    switch (message.type) {
+      case 'hello':
+      case 'here':
+        peers.set(message.tabId, { openedAt: message.openedAt, lastSeen: Date.now() })
+        if (message.type === 'hello') {
+          post({ type: 'here', ...self })
+          if (leader) {
+            const { shapes, shapeIds } = store.getState()
+            const all = [...shapes.values()]
+            post({ type: 'snapshot', to: message.tabId, shapes: all, shapeIds, blobs: collectBlobs(all), stamp: latestOrder.stamp })
+          }
+        }
+        elect()
+        break
+      case 'bye':
+        peers.delete(message.tabId)
+        elect()
+        break
+      case 'ops':
+        applyOps(message.ops, message.blobs, message.stamp)
+        break
+      case 'snapshot':
+        if (message.to === self.tabId) applySnapshot(message)
+        break
+    }
+  }
+
+  // ---- Local → other tabs ----
+  const unsubscribe = store.subscribe((state, prev) => {
+    if (applyingRemote) return
+    if (state.shapes === prev.shapes && state.shapeIds === prev.shapeIds) return
+    tracker.record(prev, state)
+    const ops = tracker.takeOps(state)
+    const stamp = { clock: ++clock, tabId: self.tabId }
+    noteOps(ops, stamp)
+    const shapes = ops.flatMap((op) => (op.type === 'create' || op.type === 'update' ? op.shapes : []))
+    post({ type: 'ops', ops, blobs: collectBlobs(shapes), stamp })
+  })
+
+  // ---- Election ----
+  let stopElection: () => void
+  const locks = typeof navigator === 'undefined' ? undefined : navigator.locks
+  if (locks) {
+    // Held until unbind; the next waiting tab gets it then
+    const abort = new AbortController()
+    let release!: () => void
+    const released = new Promise<void>((resolve) => { release = resolve })
+    locks.request(LOCK_PREFIX + channelName, { signal: abort.signal }, () => {
+      if (bound) setLeader(true)
+      return released
+    }).catch(() => {
+      // Aborted by unbind before it was granted
+    })
+    stopElection = () => {
+      abort.abort()
+      release()
+    }
+  } else {
+    const heartbeat = setInterval(() => {
+      post({ type: 'here', ...self })
+      const cutoff = Date.now() - heartbeatInterval * 3
+      for (const [tabId, peer] of peers) if (peer.lastSeen < cutoff) peers.delete(tabId)
+      canLead = true
+      elect()
+    }, heartbeatInterval)
+    stopElection = () => clearInterval(heartbeat)
+  }
+
+  post({ type: 'hello', ...self })
+
+  return {
+    isLeader: () => leader,
+    unbind: () => {
+      if (!bound) return
+      bound = false
+      stopElection()
+      unsubscribe()
+      post({ type: 'bye', tabId: self.tabId })
+      channel.close()
+    },
+  }
+}
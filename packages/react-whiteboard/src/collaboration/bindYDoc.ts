@@ -0,0 +1,202 @@
+import type * as Y from 'yjs'
+import type { createWhiteboardStore } from '../core/store/createStore'
+import type { ImageShape, Shape } from '../types'
+import { isBlobUrl, blobUrlToDataUrl } from '../utils/imageBlobStore'
+
+/** Store API type that includes subscribeWithSelector overloads */
+type WhiteboardStoreApi = ReturnType<typeof createWhiteboardStore>
+
+/** Name of the Y.Map holding shapes, keyed by shape ID */
+export const YDOC_SHAPES_KEY = 'shapes'
+
+/** Name of the Y.Array holding top-level shape IDs in z-order */
+export const YDOC_SHAPE_IDS_KEY = 'shapeIds'
+
+/**
+ * Replace blob URLs (local to this tab) with DataURLs before a shape is shared.
+ * Unresolved blob URLs are shared as-is and replaced once `resolve` completes.
+ */
+function toSharedShape(
+  shape: Shape,
+  dataUrls: Map<string, string>,
+  resolve: (shape: ImageShape) => void,
+): Shape {
+  if (shape.type !== 'image') return shape
+  const image = shape as ImageShape
+  if (!isBlobUrl(image.props.src)) return shape
+  const dataUrl = dataUrls.get(image.props.src)
+  if (dataUrl === undefined) {
+    resolve(image)
+    return shape
+  }
+  return { ...image, props: { ...image.props, src: dataUrl } }
+}
+
+/** Apply the minimal delete/insert to turn `yIds` into `next` */
+function syncShapeIds(yIds: Y.Array<string>, prev: string[], next: string[]): void {
+  let start = 0
+  while (start < prev.length && start < next.length && prev[start] === next[start]) start++
+  let prevEnd = prev.length
+  let nextEnd = next.length
+  while (prevEnd > start && nextEnd > start && prev[prevEnd - 1] === next[nextEnd - 1]) {
+    prevEnd--
+    nextEnd--
+  }
+  if (prevEnd > start) yIds.delete(start, prevEnd - start)
+  if (nextEnd > start) yIds.insert(start, next.slice(start, nextEnd))
+}
+
+/**
+ * Dedupe remote shape IDs and drop the ones without a shape — concurrent
+ * reorders and deletes can leave both behind in the Y.Array.
+ */
+function readShapeIds(yIds: Y.Array<string>, shapes: Map<string, Shape>): string[] {
+  const seen = new Set<string>()
+  const ids: string[] = []
+  for (const id of yIds.toArray()) {
+    if (seen.has(id) || !shapes.has(id)) continue
+    seen.add(id)
+    ids.push(id)
+  }
+  return ids
+}
+
+/**
+ * Two-way binding between a whiteboard store and a Y.js document.
+ *
+ * `shapes` is mirrored into the `'shapes'` Y.Map and `shapeIds` into the
+ * `'shapeIds'` Y.Array. Every local store update (addShape, updateShape,
+ * deleteShapes, reorder, undo/redo…) is sent as one Y transaction; remote
+ * transactions are applied to the store without writing history entries,
+ * so undo only ever reverts local changes.
+ *
+ * If the Y.Doc already has content it replaces the store's; otherwise the
+ * store seeds the Y.Doc. Transport (WebSocket, WebRTC…) is left to a Y.js provider.
+ * Returns a function that removes the binding.
+ * @public
+ */
+export function bindYDoc(store: WhiteboardStoreApi, ydoc: Y.Doc): () => void {
+  const yShapes = ydoc.getMap<Shape>(YDOC_SHAPES_KEY)
+  const yIds = ydoc.getArray<string>(YDOC_SHAPE_IDS_KEY)
+  // Transaction origin that marks changes made by this binding
+  const origin = {}
+  const dataUrls = new Map<string, string>()
+  let applyingRemote = false
+  let bound = true
+
+  const resolveImage = (image: ImageShape) => {
+    const blobUrl = image.props.src
+    blobUrlToDataUrl(blobUrl).then((dataUrl) => {
+      dataUrls.set(blobUrl, dataUrl)
+      if (!bound) return
+      const current = store.getState().shapes.get(image.id) as ImageShape | undefined
+      if (current?.props.src !== blobUrl) return
+      ydoc.transact(() => {
+        yShapes.set(image.id, { ...current, props: { ...current.props, src: dataUrl } })
+      }, origin)
+    }).catch(() => {
+      // Revoked before it could be read — the shape stays local
+    })
+  }
+
+  const pushLocal = (
+    next: Map<string, Shape>,
+    prev: Map<string, Shape>,
+    nextIds: string[],
+    prevIds: string[],
+  ) => {
+    ydoc.transact(() => {
+      if (next !== prev) {
+        for (const [id, shape] of next) {
+          if (prev.get(id) === shape) continue
+          yShapes.set(id, toSharedShape(shape, dataUrls, resolveImage))
+        }
+        for (const id of prev.keys()) {
+          if (!next.has(id)) yShapes.delete(id)
+        }
+      }
+      if (nextIds !== prevIds) syncShapeIds(yIds, prevIds, nextIds)
+    }, origin)
+  }
+
+  // ---- Initial sync ----
+  if (yShapes.size > 0 || yIds.length > 0) {
+    const shapes = new Map(yShapes.entries())
+    applyingRemote = true
+    store.setState({
+      shapes,
+      shapeIds: readShapeIds(yIds, shapes),
+      selectedIds: new Set<string>(),
+      history: [],
+      historyIndex: -1,
+      historyTree: new Map(),
+    })
+    applyingRemote = false
+  } else {
+    const { shapes, shapeIds } = store.getState()
+    pushLocal(shapes, new Map(), shapeIds, [])
+  }
+
+  // ---- Local → Y.Doc ----
+  const unsubscribe = store.subscribe((state, prevState) => {
+    if (applyingRemote) return
+    if (state.shapes === prevState.shapes && state.shapeIds === prevState.shapeIds) return
+    // Diff against what the Y.Array actually holds, which also drops any
+    // stale or duplicate IDs left behind by concurrent edits
+    const prevIds = state.shapeIds === prevState.shapeIds ? prevState.shapeIds : yIds.toArray()
+    pushLocal(state.shapes, prevState.shapes, state.shapeIds, prevIds)
+  })
+
+  // ---- Y.Doc → local ----
+  // Observers collect what a remote transaction touched; it is applied to the
+  // store once, after the transaction, so map and array changes land together
+  const changedKeys = new Set<string>()
+  let idsChanged = false
+
+  const onShapesChange = (event: Y.YMapEvent<Shape>) => {
+    if (event.transaction.origin === origin) return
+    for (const id of event.keysChanged) changedKeys.add(id)
+  }
+  const onShapeIdsChange = (event: Y.YArrayEvent<string>) => {
+    if (event.transaction.origin === origin) return
+    idsChanged = true
+  }
+
+  const onAfterTransaction = () => {
+    if (changedKeys.size === 0 && !idsChanged) return
+
+    const state = store.getState()
+    let shapes = state.shapes
+    let selectedIds = state.selectedIds
+    if (changedKeys.size > 0) {
+      shapes = new Map(state.shapes)
+      for (const id of changedKeys) {
+        const shape = yShapes.get(id)
+        if (shape) {
+          shapes.set(id, shape)
+        } else if (shapes.delete(id) && selectedIds.has(id)) {
+          if (selectedIds === state.selectedIds) selectedIds = new Set(selectedIds)
+          selectedIds.delete(id)
+        }
+      }
+    }
+    changedKeys.clear()
+    idsChanged = false
+
+    applyingRemote = true
+    store.setState({ shapes, shapeIds: readShapeIds(yIds, shapes), selectedIds })
+    applyingRemote = false
+  }
+
+  yShapes.observe(onShapesChange)
+  yIds.observe(onShapeIdsChange)
+  ydoc.on('afterTransaction', onAfterTransaction)
+
+  return () => {
+    bound = false
+    unsubscribe()
+    yShapes.unobserve(onShapesChange)
+    yIds.unobserve(onShapeIdsChange)
+    ydoc.off('afterTransaction', onAfterTransaction)
+  }
+}
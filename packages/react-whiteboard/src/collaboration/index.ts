@@ -0,0 +1,7 @@
+export { bindYDoc, YDOC_SHAPES_KEY, YDOC_SHAPE_IDS_KEY } from './bindYDoc'
+export { bindPresence } from './bindPresence'
+export type { BindPresenceOptions } from './bindPresence'
+export { bindTabSync } from './bindTabSync'
+export type { TabSyncOptions, TabSyncBinding } from './bindTabSync'
+export { AwarenessPresenceAdapter } from './PresenceAdapter'
+export type { PresenceAdapter, AwarenessLike, AwarenessPresenceAdapterOptions } from './PresenceAdapter'
@@ -1,12 +1,19 @@
 import { useRef, useEffect, useCallback } from 'react'
 import { useWhiteboardStore, useWhiteboardContext } from '../context'
 import { screenToCanvas, getVisibleBounds, expandBounds, boundsIntersect } from '../utils/canvas'
-import { handleImagePaste } from '../core/store/imagePasteActions'
+import { drawImageCropOverlay, onImageLoad } from '../core/renderer/imageRenderer'
+import { drawDocumentDiff } from '../core/renderer/diffRenderer'
 import { getShapeAtPoint } from '../utils/hitTest'
 import { useDualCanvasSetup } from '../hooks/useDualCanvasSetup'
 import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts'
+import { useClipboardPaste } from '../hooks/useClipboardPaste'
+import {
+  useFileDrop, type FileDropErrorHandler, type FileDropHandler, type FileDropWarningHandler,
+} from '../hooks/useFileDrop'
 import { useTouchGestures } from '../hooks/useTouchGestures'
 import { useTools } from '../hooks/useTools'
+import { useWheelZoom } from '../hooks/useWheelZoom'
+import { ComponentLayer } from './ComponentLayer'
 import { resolveTheme } from '../types/theme'
 import type { ThemeColors } from '../types/theme'
 import type { Point } from '../types'
@@ -42,6 +49,12 @@ export interface CanvasProps {
   theme?: Partial<ThemeColors>
   /** Called on right-click. Prevents browser context menu automatically. */
   onContextMenu?: (event: CanvasContextMenuEvent) => void
+  /** Called for each file dropped on the canvas; return true to handle it instead of inserting it */
+  onFileDrop?: FileDropHandler
+  /** Called for each dropped file that failed: `onFileDrop` threw, or it couldn't be read */
+  onFileDropError?: FileDropErrorHandler
+  /** Called for each dropped Excalidraw scene with what could not be converted exactly */
+  onFileDropWarning?: FileDropWarningHandler
 }
 
 const containerStyle: React.CSSProperties = {
@@ -57,6 +70,17 @@ const canvasBaseStyle: React.CSSProperties = {
   top: 0, left: 0,
 }
 
+/** Opacity of shapes marked by the eraser before they are deleted */
+const ERASING_OPACITY = 0.3
+
+function sameIds(a: ReadonlySet<string>, b: ReadonlySet<string>): boolean {
+  if (a.size !== b.size) return false
+  for (const id of a) {
+    if (!b.has(id)) return false
+  }
+  return true
+}
+
 const textOverlayStyle: React.CSSProperties = {
   position: 'absolute',
   top: 0, left: 0, right: 0, bottom: 0,
@@ -77,13 +101,16 @@ export function Canvas({
   readOnly = false,
   theme,
   onContextMenu,
+  onFileDrop,
+  onFileDropError,
+  onFileDropWarning,
 }: CanvasProps) {
   const resolvedBg = backgroundColor ?? theme?.canvasBackground ?? '#fafafa'
 
   // ── Dual canvas setup (static + interactive) ──────────────────────
   const {
     staticCanvasRef, interactiveCanvasRef, containerRef, containerSizeRef,
-    staticRendererRef, interactiveRendererRef, setupVersion,
+    staticRendererRef, interactiveRendererRef, tileCache, setupVersion,
   } = useDualCanvasSetup({ onReady, theme })
 
   const textOverlayRef = useRef<HTMLDivElement>(null)
@@ -93,6 +120,9 @@ export function Canvas({
   // ── Store selectors (minimal — only values that drive React rendering) ──
   const viewport = useWhiteboardStore((s) => s.viewport)
   const selectedIds = useWhiteboardStore((s) => s.selectedIds)
+  const peers = useWhiteboardStore((s) => s.peers)
+  const diffHighlight = useWhiteboardStore((s) => s.diffHighlight)
+  const croppingImageId = useWhiteboardStore((s) => s.croppingImageId)
   const isPanning = useWhiteboardStore((s) => s.isPanning)
   const pan = useWhiteboardStore((s) => s.pan)
   const zoom = useWhiteboardStore((s) => s.zoom)
@@ -106,6 +136,8 @@ export function Canvas({
   viewportRef.current = viewport
 
   const hadTransientRef = useRef(false)
+  /** Copy of the transient IDs the static canvas last excluded */
+  const transientSnapshotRef = useRef<ReadonlySet<string>>(new Set())
   const staticRafRef = useRef(0)
   const renderStaticRef = useRef<(() => void) | null>(null)
   const renderInteractiveRef = useRef<(() => void) | null>(null)
@@ -129,13 +161,26 @@ export function Canvas({
       (s) => s.shapeIds,
       (ids) => { shapeIdsRef.current = ids; scheduleStaticRender() },
     )
-    return () => { unsubShapes(); unsubIds() }
-  }, [store, toolManager])
+    // Tiles drawn before an image loaded are missing it
+    const unsubImages = onImageLoad((src) => {
+      tileCache.invalidate((shape) => shape.type === 'image' && (shape.props as { src?: string }).src === src)
+      scheduleStaticRender()
+    })
+    // (Un)registering a component swaps the placeholder and the live embed
+    const unsubComponents = shapeRendererRegistry.onComponentsChange(() => {
+      tileCache.invalidate((shape) => shape.type === 'react-component')
+      scheduleStaticRender()
+    })
+    return () => { unsubShapes(); unsubIds(); unsubImages(); unsubComponents() }
+  }, [store, toolManager, tileCache, shapeRendererRegistry])
 
   // ── Wire shape renderer registry to both renderers ────────────────
+  // Registered React components are drawn by ComponentLayer, not the canvases
   useEffect(() => {
-    staticRendererRef.current?.setRegistry(shapeRendererRegistry)
-    interactiveRendererRef.current?.setRegistry(shapeRendererRegistry)
+    for (const renderer of [staticRendererRef.current, interactiveRendererRef.current]) {
+      renderer?.setRegistry(shapeRendererRegistry)
+      renderer?.setComponentEmbeds(true)
+    }
   }, [shapeRendererRegistry, staticRendererRef, interactiveRendererRef, setupVersion])
 
   // ── Sync theme to both renderers + tool manager ───────────────────
@@ -152,18 +197,12 @@ export function Canvas({
   // ── Keyboard shortcuts (getState is stable — listener registered once) ──
   useKeyboardShortcuts({ getState: store.getState, readOnly })
 
-  // ── Image paste handler (uses viewportRef to avoid re-registration) ──
-  useEffect(() => {
-    if (readOnly) return
-    const onPaste = (e: ClipboardEvent) => {
-      const container = containerRef.current
-      if (!container) return
-      const rect = container.getBoundingClientRect()
-      handleImagePaste(e, store.getState(), viewportRef.current, rect.width, rect.height)
-    }
-    window.addEventListener('paste', onPaste)
-    return () => window.removeEventListener('paste', onPaste)
-  }, [readOnly, containerRef, store])
+  // ── Paste from the system clipboard (uses viewportRef to avoid re-registration) ──
+  useClipboardPaste({ getState: store.getState, containerRef, viewportRef, readOnly })
+  // ── File drop: images, SVG, documents, Excalidraw scenes at the drop point ──
+  useFileDrop({
+    getState: store.getState, containerRef, viewportRef, onFileDrop, onFileDropError, onFileDropWarning, readOnly,
+  })
 
   // ── Tool system (pointer events bound to interactive canvas) ──────
   const {
@@ -197,10 +236,10 @@ export function Canvas({
     if (width === 0 || height === 0) return
 
     // Read shapes/ids directly from the store for freshness
-    const storeState = store.getState()
-    const curShapes = storeState.shapes
-    const curShapeIds = storeState.shapeIds
+    const { shapes: curShapes, shapeIds: curShapeIds, spatialIndex } = store.getState()
     const transientIds = toolManager.getTransientShapeIds()
+    // Frames skip transient children too; the interactive canvas draws them
+    renderer.setHiddenShapeIds(transientIds)
 
     renderer.clear(width, height)
     ctx.save()
@@ -212,19 +251,13 @@ export function Canvas({
       renderer.drawGrid(viewport, width, height, gridSize)
     }
 
-    renderer.applyViewport(viewport)
-    const visibleBounds = getVisibleBounds(viewport, width, height)
-    const cullingBounds = expandBounds(visibleBounds, 100 / viewport.zoom)
-
-    for (const id of curShapeIds) {
-      if (transientIds.has(id)) continue
-      const shape = curShapes.get(id)
-      if (shape && boundsIntersect(shape, cullingBounds)) {
-        renderer.drawShape(shape, false, curShapes, true)
-      }
+    // Shapes come from cached tiles; any still rendering finish on later frames
+    const scene = { shapes: curShapes, shapeIds: curShapeIds, spatialIndex, hiddenIds: transientIds }
+    if (tileCache.draw(ctx, renderer, scene, viewport, width, height)) {
+      cancelAnimationFrame(staticRafRef.current)
+      staticRafRef.current = requestAnimationFrame(() => renderStaticRef.current?.())
     }
-    renderer.resetTransform()
-  }, [viewport, showGrid, gridSize, resolvedBg, staticCanvasRef, containerSizeRef, staticRendererRef, toolManager, store])
+  }, [viewport, showGrid, gridSize, resolvedBg, staticCanvasRef, containerSizeRef, staticRendererRef, tileCache, toolManager, store])
 
   // ── Interactive render: selection UI, transient shapes, overlays ──
   const renderInteractive = useCallback(() => {
@@ -243,32 +276,41 @@ export function Canvas({
     const curShapes = store.getState().shapes
     const transientIds = toolManager.getTransientShapeIds()
 
-    // Detect drag-start: re-render static canvas to exclude transient shapes (fixes ghost)
-    if (!hadTransientRef.current && transientIds.size > 0) {
+    // Detect drag start/end: re-render static canvas to exclude (fixes ghost) or
+    // include transient shapes, and clear the drag cache
+    if (hadTransientRef.current !== transientIds.size > 0) {
       renderer.clearDragCache()
       cancelAnimationFrame(staticRafRef.current)
       staticRafRef.current = requestAnimationFrame(() => renderStaticRef.current?.())
     }
-    // Detect drag-end: re-render static canvas to include all shapes + clear cache
-    if (hadTransientRef.current && transientIds.size === 0) {
+    // Transient set changed mid-drag (eraser marks/restores): re-render static canvas.
+    // The eraser's set is mutated in place, so compare contents — a mark and a
+    // restore in one move leave its size unchanged
+    const transientChanged = !sameIds(transientIds, transientSnapshotRef.current)
+    if (hadTransientRef.current && transientIds.size > 0 && transientChanged) {
       cancelAnimationFrame(staticRafRef.current)
       staticRafRef.current = requestAnimationFrame(() => renderStaticRef.current?.())
-      renderer.clearDragCache()
     }
     hadTransientRef.current = transientIds.size > 0
+    if (transientChanged) transientSnapshotRef.current = new Set(transientIds)
 
     renderer.clear(width, height)
     renderer.applyViewport(viewport)
 
     // Draw transient shapes using bitmap cache (avoids RoughJS recomputation)
-    // Shadow is applied only to the shape bitmaps, not to selection handles
+    // Shadow is applied only to the shape bitmaps, not to selection handles;
+    // shapes marked by the eraser are faded instead
     if (transientIds.size > 0) {
       const visibleBounds = getVisibleBounds(viewport, width, height)
       const cullingBounds = expandBounds(visibleBounds, 100 / viewport.zoom)
       ctx.save()
-      ctx.shadowColor = 'rgba(0, 0, 0, 0.12)'
-      ctx.shadowBlur = 8
-      ctx.shadowOffsetY = 3
+      if (toolManager.getErasingShapeIds().size > 0) {
+        ctx.globalAlpha = ERASING_OPACITY
+      } else {
+        ctx.shadowColor = 'rgba(0, 0, 0, 0.12)'
+        ctx.shadowBlur = 8
+        ctx.shadowOffsetY = 3
+      }
       for (const id of transientIds) {
         const shape = curShapes.get(id)
         if (shape && boundsIntersect(shape, cullingBounds)) {
@@ -278,15 +320,20 @@ export function Canvas({
       ctx.restore()
     }
 
+    const cropping = croppingImageId !== null ? curShapes.get(croppingImageId) : undefined
+    if (cropping?.type === 'image') drawImageCropOverlay(ctx, cropping, renderer.getTheme().selectionStroke, viewport.zoom)
+
     // Draw selection outlines (both transient and non-transient)
     for (const id of selectedIds) {
       const shape = curShapes.get(id)
       if (shape) renderer.drawSelectionForShape(shape)
     }
+    if (peers.length > 0) renderer.drawPeers(peers, curShapes, viewport.zoom)
+    if (diffHighlight) drawDocumentDiff(ctx, diffHighlight, curShapes, renderer.getTheme(), viewport.zoom)
 
     renderOverlay(ctx)
     renderer.resetTransform()
-  }, [selectedIds, viewport, renderOverlay, interactiveCanvasRef, containerSizeRef, interactiveRendererRef, toolManager, store])
+  }, [selectedIds, croppingImageId, peers, diffHighlight, viewport, renderOverlay, interactiveCanvasRef, containerSizeRef, interactiveRendererRef, toolManager, store])
 
   // ── Keep render refs current (StrictMode safe) ────────────────────
   useEffect(() => {
@@ -301,7 +348,7 @@ export function Canvas({
     return () => cancelAnimationFrame(raf)
   }, [renderStatic])
 
-  // ── Reactive interactive rendering (selection/overlay changes) ────
+  // ── Reactive interactive rendering (selection/presence/overlay changes)
   useEffect(() => {
     const raf = requestAnimationFrame(renderInteractive)
     return () => cancelAnimationFrame(raf)
@@ -316,22 +363,7 @@ export function Canvas({
   }, [setupVersion])
 
   // ── Wheel zoom (registered once — uses viewportRef for latest state) ──
-  useEffect(() => {
-    const canvas = interactiveCanvasRef.current
-    if (!canvas) return
-
-    const handleWheel = (e: WheelEvent) => {
-      e.preventDefault()
-      const container = containerRef.current
-      if (!container) return
-      const rect = container.getBoundingClientRect()
-      const center = screenToCanvas({ x: e.clientX, y: e.clientY }, viewportRef.current, rect)
-      zoom(-e.deltaY * 0.001, center)
-    }
-
-    canvas.addEventListener('wheel', handleWheel, { passive: false })
-    return () => canvas.removeEventListener('wheel', handleWheel)
-  }, [interactiveCanvasRef, containerRef, zoom])
+  useWheelZoom({ canvasRef: interactiveCanvasRef, containerRef, viewportRef, zoom })
 
   // ── Context menu (right-click) ────────────────────────────────────
   const handleContextMenu = useCallback(
@@ -343,8 +375,8 @@ export function Canvas({
       const rect = container.getBoundingClientRect()
       const screenPoint: Point = { x: e.clientX, y: e.clientY }
       const canvasPoint = screenToCanvas(screenPoint, viewportRef.current, rect)
-      const { shapes, shapeIds, selectedIds: sel } = store.getState()
-      const hitShape = getShapeAtPoint(canvasPoint, shapes, shapeIds, 5, shapeRendererRegistry)
+      const { shapes, shapeIds, selectedIds: sel, spatialIndex } = store.getState()
+      const hitShape = getShapeAtPoint(canvasPoint, shapes, shapeIds, 5, shapeRendererRegistry, spatialIndex)
       if (hitShape && !sel.has(hitShape.id)) {
         store.getState().select(hitShape.id)
       }
@@ -357,6 +389,7 @@ export function Canvas({
   return (
     <div ref={containerRef} className={className} style={containerStyle}>
       <canvas ref={staticCanvasRef} style={canvasBaseStyle} />
+      <ComponentLayer containerSizeRef={containerSizeRef} setupVersion={setupVersion} />
       <canvas
         ref={interactiveCanvasRef}
         role="application"
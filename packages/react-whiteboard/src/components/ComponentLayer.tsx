@@ -0,0 +1,133 @@
+import { memo, useCallback, useEffect, useMemo, useState } from 'react'
+import type { ComponentType } from 'react'
+import { useWhiteboardStore, useWhiteboardContext } from '../context'
+import type { EmbeddedComponentProps } from '../core/renderer/ShapeRendererRegistry'
+import type { ContainerSize } from '../hooks/useDualCanvasSetup'
+import type { ReactComponentShape, Viewport } from '../types'
+import { getVisibleBounds, expandBounds, boundsIntersect } from '../utils/canvas'
+import { expandFrameChildren } from '../utils/frames'
+
+/** Embeds this close to the screen (in screen pixels) stay mounted, so panning doesn't remount them */
+const CULL_MARGIN = 200
+
+const layerStyle: React.CSSProperties = {
+  position: 'absolute',
+  top: 0, left: 0, right: 0, bottom: 0,
+  pointerEvents: 'none',
+  overflow: 'hidden',
+}
+
+interface ComponentLayerProps {
+  containerSizeRef: React.RefObject<ContainerSize>
+  /** Bumped when the canvases are resized; re-runs culling */
+  setupVersion: number
+}
+
+interface Embed {
+  shape: ReactComponentShape
+  component: ComponentType<EmbeddedComponentProps>
+}
+
+/** CSS transform placing a shape's box on screen: viewport, then the shape's rotation about its center */
+function embedTransform(shape: ReactComponentShape, viewport: Viewport): string {
+  const { x, y, width, height, rotation } = shape
+  const place = `translate(${viewport.x + x * viewport.zoom}px, ${viewport.y + y * viewport.zoom}px) scale(${viewport.zoom})`
+  if (rotation === 0) return place
+  return `${place} translate(${width / 2}px, ${height / 2}px) rotate(${rotation}rad) translate(${-width / 2}px, ${-height / 2}px)`
+}
+
+/** The registered component; memoized so panning and zooming only move its wrapper */
+const EmbedContent = memo(function EmbedContent({
+  component: Component,
+  shape,
+  isSelected,
+  isEditing,
+}: Embed & { isSelected: boolean; isEditing: boolean }) {
+  const { store } = useWhiteboardContext()
+  const updateComponentProps = useCallback(
+    (props: Record<string, unknown>) => {
+      const current = store.getState().shapes.get(shape.id)
+      if (current?.type !== 'react-component') return
+      const componentProps = { ...current.props.componentProps, ...props }
+      store.getState().updateShape(shape.id, { props: { ...current.props, componentProps } })
+    },
+    [store, shape.id],
+  )
+
+  return (
+    <Component
+      shape={shape}
+      componentProps={shape.props.componentProps}
+      isSelected={isSelected}
+      isEditing={isEditing}
+      updateComponentProps={updateComponentProps}
+    />
+  )
+})
+
+/**
+ * Live DOM layer for React component shapes, stacked between the static and
+ * interactive canvases. Embeds follow the viewport and are culled off-screen.
+ * They ignore pointer events (so the canvas can select and drag them) unless
+ * the shape is the only one selected or is in edit mode; then it is raised
+ * above the interactive canvas.
+ * @internal
+ */
+export function ComponentLayer({ containerSizeRef, setupVersion }: ComponentLayerProps) {
+  const { store, shapeRendererRegistry } = useWhiteboardContext()
+  const shapes = useWhiteboardStore((s) => s.shapes)
+  const shapeIds = useWhiteboardStore((s) => s.shapeIds)
+  const viewport = useWhiteboardStore((s) => s.viewport)
+  const selectedIds = useWhiteboardStore((s) => s.selectedIds)
+  const editingComponentId = useWhiteboardStore((s) => s.editingComponentId)
+
+  const [componentsVersion, setComponentsVersion] = useState(0)
+  useEffect(
+    () => shapeRendererRegistry.onComponentsChange(() => setComponentsVersion((version) => version + 1)),
+    [shapeRendererRegistry],
+  )
+
+  const embeds = useMemo(() => {
+    const { width, height } = containerSizeRef.current
+    const area = expandBounds(getVisibleBounds(viewport, width, height), CULL_MARGIN / viewport.zoom)
+    const visible: Embed[] = []
+    for (const id of expandFrameChildren(shapes, shapeIds)) {
+      const shape = shapes.get(id)
+      if (shape?.type !== 'react-component' || !boundsIntersect(shape, area)) continue
+      const component = shapeRendererRegistry.getComponent(shape.props.componentType)
+      if (component) visible.push({ shape, component })
+    }
+    return visible
+    // componentsVersion and setupVersion re-run this when registrations or the container size change
+  }, [shapes, shapeIds, viewport, shapeRendererRegistry, containerSizeRef, componentsVersion, setupVersion])
+
+  return (
+    <div style={layerStyle}>
+      {embeds.map(({ shape, component }) => {
+        const isSelected = selectedIds.has(shape.id)
+        const isEditing = editingComponentId === shape.id
+        const interactive = isEditing || (isSelected && selectedIds.size === 1)
+        return (
+          <div
+            key={shape.id}
+            data-shape-id={shape.id}
+            onDoubleClick={isEditing ? undefined : () => store.getState().setEditingComponentId(shape.id)}
+            style={{
+              position: 'absolute',
+              top: 0, left: 0,
+              width: shape.width,
+              height: shape.height,
+              transform: embedTransform(shape, viewport),
+              transformOrigin: '0 0',
+              opacity: shape.opacity,
+              pointerEvents: interactive ? 'auto' : 'none',
+              zIndex: interactive ? 1 : undefined,
+            }}
+          >
+            <EmbedContent component={component} shape={shape} isSelected={isSelected} isEditing={isEditing} />
+          </div>
+        )
+      })}
+    </div>
+  )
+}
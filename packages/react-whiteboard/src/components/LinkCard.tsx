@@ -0,0 +1,40 @@
+import type { EmbeddedComponentProps } from '../core/renderer/ShapeRendererRegistry'
+
+const cardStyle: React.CSSProperties = {
+  boxSizing: 'border-box',
+  display: 'flex',
+  flexDirection: 'column',
+  justifyContent: 'center',
+  gap: 4,
+  width: '100%',
+  height: '100%',
+  padding: '0 16px',
+  border: '1px solid #dee2e6',
+  borderRadius: 8,
+  background: '#ffffff',
+  color: '#1e1e1e',
+  font: '14px system-ui, sans-serif',
+  textDecoration: 'none',
+  overflow: 'hidden',
+}
+
+const lineStyle: React.CSSProperties = { overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }
+
+/**
+ * Built-in embed for link card shapes (`LINK_CARD_COMPONENT`), created by
+ * pasting a URL. Opens the link in a new tab.
+ * @internal
+ */
+export function LinkCard({ componentProps }: EmbeddedComponentProps) {
+  const url = typeof componentProps.url === 'string' ? componentProps.url : ''
+  const title = typeof componentProps.title === 'string' ? componentProps.title : url
+  // Only web links are opened; anything else shows as text
+  const href = /^https?:\/\//i.test(url) ? url : undefined
+
+  return (
+    <a href={href} target="_blank" rel="noopener noreferrer" style={cardStyle} title={url}>
+      <span style={{ ...lineStyle, fontWeight: 600 }}>{title}</span>
+      <span style={{ ...lineStyle, fontSize: 12, color: '#868e96' }}>{url}</span>
+    </a>
+  )
+}
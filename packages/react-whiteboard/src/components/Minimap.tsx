@@ -1,9 +1,12 @@
 import { useRef, useEffect, useCallback, useMemo } from 'react'
 import { useWhiteboardStore, useWhiteboardContext } from '../context'
-import type { Shape } from '../types'
+import type { FrameShape, Shape } from '../types'
 import type { ThemeColors } from '../types/theme'
 import { resolveTheme } from '../types/theme'
 import { getShapesBounds } from '../utils/shapeBounds'
+import { expandFrameChildren, isFrame } from '../utils/frames'
+import { clamp } from '../utils/canvas'
+import { MIN_ZOOM, MAX_ZOOM } from '../core/store/viewportActions'
 
 /** @public */
 export interface MinimapProps {
@@ -20,6 +23,8 @@ export interface MinimapProps {
 
 const DEFAULT_WORLD = { x: 0, y: 0, width: 1000, height: 800 } as const
 const WORLD_PAD = 100
+/** Screen-space margin kept around a frame when navigating to it */
+const FRAME_FIT_PAD = 48
 
 function getWorldBounds(shapes: Map<string, Shape>, shapeIds: string[]) {
   const bounds = getShapesBounds(shapes, shapeIds)
@@ -34,6 +39,7 @@ function getWorldBounds(shapes: Map<string, Shape>, shapeIds: string[]) {
 
 /**
  * Minimap overview component showing all shapes and the current viewport.
+ * Frames are listed below the map; clicking one fits it in the viewport.
  * @public
  */
 export function Minimap({ width = 200, height = 150, className, theme: themeProp, canvasWidth, canvasHeight }: MinimapProps) {
@@ -52,6 +58,10 @@ export function Minimap({ width = 200, height = 150, className, theme: themeProp
 
   // Memoize world bounds + transform so render and handleClick share the same result
   const world = useMemo(() => getWorldBounds(shapes, shapeIds), [shapes, shapeIds])
+  const frames = useMemo(
+    () => shapeIds.map((id) => shapes.get(id)).filter(isFrame),
+    [shapes, shapeIds],
+  )
   const transform = useMemo(() => {
     const scaleX = width / world.width
     const scaleY = height / world.height
@@ -81,19 +91,19 @@ export function Minimap({ width = 200, height = 150, className, theme: themeProp
 
     const { scale, offsetX, offsetY } = transform
 
-    // Draw shapes as simplified rectangles
+    // Draw shapes as simplified rectangles; frames as outlines behind their children
     ctx.fillStyle = theme.minimapShapeFill
     ctx.strokeStyle = theme.minimapShapeStroke
     ctx.lineWidth = 1
 
-    for (const id of shapeIds) {
+    for (const id of expandFrameChildren(shapes, shapeIds)) {
       const s = shapes.get(id)
       if (!s) continue
       const x = (s.x - world.x) * scale + offsetX
       const y = (s.y - world.y) * scale + offsetY
       const w = Math.max(s.width * scale, 2)
       const h = Math.max(s.height * scale, 2)
-      ctx.fillRect(x, y, w, h)
+      if (s.type !== 'frame') ctx.fillRect(x, y, w, h)
       ctx.strokeRect(x, y, w, h)
     }
 
@@ -169,21 +179,72 @@ export function Minimap({ width = 200, height = 150, className, theme: themeProp
     [world, transform, setViewport, canvasWidth, canvasHeight],
   )
 
+  // Zoom and center the viewport on a frame
+  const goToFrame = useCallback(
+    (frame: FrameShape) => {
+      const actualW = canvasWidth ?? (typeof window !== 'undefined' ? window.innerWidth : 1200)
+      const actualH = canvasHeight ?? (typeof window !== 'undefined' ? window.innerHeight : 800)
+      const zoom = clamp(
+        Math.min(
+          (actualW - FRAME_FIT_PAD * 2) / frame.width,
+          (actualH - FRAME_FIT_PAD * 2) / frame.height,
+        ),
+        MIN_ZOOM,
+        MAX_ZOOM,
+      )
+      setViewport({
+        x: actualW / 2 - (frame.x + frame.width / 2) * zoom,
+        y: actualH / 2 - (frame.y + frame.height / 2) * zoom,
+        zoom,
+      })
+    },
+    [setViewport, canvasWidth, canvasHeight],
+  )
+
   return (
-    <canvas
-      ref={canvasRef}
-      width={width}
-      height={height}
-      onClick={handleClick}
-      aria-label="Minimap"
-      className={className}
-      style={{
-        width,
-        height,
-        borderRadius: 8,
-        border: `1px solid ${theme.minimapBorder}`,
-        cursor: 'pointer',
-      }}
-    />
+    <div className={className} style={{ width }}>
+      <canvas
+        ref={canvasRef}
+        width={width}
+        height={height}
+        onClick={handleClick}
+        aria-label="Minimap"
+        style={{
+          display: 'block',
+          width,
+          height,
+          borderRadius: 8,
+          border: `1px solid ${theme.minimapBorder}`,
+          cursor: 'pointer',
+        }}
+      />
+      {frames.length > 0 && (
+        <ul aria-label="Frames" style={{ listStyle: 'none', margin: '4px 0 0', padding: 0 }}>
+          {frames.map((frame) => (
+            <li key={frame.id}>
+              <button
+                type="button"
+                onClick={() => goToFrame(frame)}
+                style={{
+                  width: '100%',
+                  padding: '2px 6px',
+                  border: 'none',
+                  background: 'none',
+                  color: theme.frameTitle,
+                  font: '12px sans-serif',
+                  textAlign: 'left',
+                  overflow: 'hidden',
+                  textOverflow: 'ellipsis',
+                  whiteSpace: 'nowrap',
+                  cursor: 'pointer',
+                }}
+              >
+                {frame.props.name || 'Frame'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
   )
 }
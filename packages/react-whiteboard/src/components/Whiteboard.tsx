@@ -7,6 +7,7 @@ import type { Shape, Viewport } from '../types'
 import type { ThemeColors } from '../types/theme'
 import type { CustomShapeRenderer } from '../core/renderer/ShapeRendererRegistry'
 import type { ITool } from '../tools/types'
+import type { FileDropErrorHandler, FileDropHandler, FileDropWarningHandler } from '../hooks/useFileDrop'
 import type { PersistenceAdapter } from '../persistence'
 import { LocalStorageAdapter } from '../persistence'
 
@@ -46,6 +47,13 @@ export interface WhiteboardProps {
   /** Theme colors for canvas and minimap rendering */
   theme?: Partial<ThemeColors>
 
+  /** Called for each file dropped on the canvas; return true to handle it instead of inserting it */
+  onFileDrop?: FileDropHandler
+  /** Called for each dropped file that failed: `onFileDrop` threw, or it couldn't be read */
+  onFileDropError?: FileDropErrorHandler
+  /** Called for each dropped Excalidraw scene with what could not be converted exactly */
+  onFileDropWarning?: FileDropWarningHandler
+
   /** Fired when a new shape is added to the canvas */
   onShapeCreate?: (shape: Shape) => void
   /** Fired when an existing shape is modified */
@@ -95,6 +103,9 @@ function WhiteboardInner({
   onReady,
   minimap,
   theme,
+  onFileDrop,
+  onFileDropError,
+  onFileDropWarning,
   onShapeCreate,
   onShapeUpdate,
   onShapeDelete,
@@ -153,6 +164,9 @@ function WhiteboardInner({
         className={className}
         onReady={onReady}
         theme={theme}
+        onFileDrop={onFileDrop}
+        onFileDropError={onFileDropError}
+        onFileDropWarning={onFileDropWarning}
       />
       {showMinimap && (
         <div style={{ position: 'absolute', bottom: 16, right: 16, zIndex: 10 }}>
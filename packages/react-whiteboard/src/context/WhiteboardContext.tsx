@@ -1,4 +1,4 @@
-import { createContext, useContext, useRef, useMemo, useEffect, useCallback, type ReactNode } from 'react'
+import { createContext, useContext, useRef, useMemo, useEffect, useCallback, useState, type ReactNode } from 'react'
 import { useStore } from 'zustand'
 import { createWhiteboardStore } from '../core/store/createStore'
 import type { WhiteboardStore } from '../core/store/createStore'
@@ -8,10 +8,20 @@ import type { TextTool } from '../tools/TextTool'
 import { ShapeRendererRegistry } from '../core/renderer/ShapeRendererRegistry'
 import type { CustomShapeRenderer } from '../core/renderer/ShapeRendererRegistry'
 import { WhiteboardErrorBoundary } from '../components/WhiteboardErrorBoundary'
+import { LinkCard } from '../components/LinkCard'
+import { LINK_CARD_COMPONENT } from '../utils/linkCard'
 import type { WhiteboardErrorBoundaryProps } from '../components/WhiteboardErrorBoundary'
 import { loadFonts } from '../utils/fonts'
-import { parseDocument, documentToStoreData, exportToJSON } from '../utils/serialization'
+import { parseDocumentLenient, documentToStoreData, exportToJSON, serializeDocument } from '../utils/serialization'
+import { ShapeChangeTracker, isIncrementalAdapter, resolveOpImageBlobUrls } from '../persistence'
 import type { PersistenceAdapter } from '../persistence'
+import { bindYDoc, bindPresence, bindTabSync } from '../collaboration'
+import type { PresenceAdapter, TabSyncBinding, TabSyncOptions } from '../collaboration'
+import type { HistoryOptions, PresenceUser } from '../types'
+import { SyncClient } from '../sync'
+import { bindAssetStore } from '../assets'
+import type { SyncTransport } from '../sync'
+import type { Doc as YDoc } from 'yjs'
 
 // ============================================================================
 // Context
@@ -79,6 +89,7 @@ export function useShapeRendererRegistry(): ShapeRendererRegistry {
 // ============================================================================
 
 const DEFAULT_AUTOSAVE_INTERVAL = 5000
+const DEFAULT_COMPACT_AFTER = 50
 
 /** @public */
 export interface WhiteboardProviderProps {
@@ -89,12 +100,29 @@ export interface WhiteboardProviderProps {
   customShapes?: CustomShapeRenderer[]
   /** Custom tools to register (additive to default tools) */
   tools?: ITool[]
+  /** Undo history caps and merging, applied when the store is created. */
+  history?: Partial<HistoryOptions>
   /** Persistence adapter for saving/loading whiteboard state. */
   persistenceAdapter?: PersistenceAdapter
   /** Autosave interval in ms (default: 5000). Set to 0 to disable autosave. */
   autosaveInterval?: number
+  /** With an `IncrementalPersistenceAdapter`: compact its log after this many change saves (default: 50). */
+  compactAfter?: number
   /** Called when a persistence operation fails. */
   onPersistenceError?: (error: Error) => void
+  /**
+   * Sync the board with other tabs of the same origin (see `bindTabSync`).
+   * Only the elected tab autosaves. Takes effect once the saved board is loaded.
+   */
+  tabSync?: boolean | TabSyncOptions
+  /** Y.js document to keep shapes in sync with (see `bindYDoc`). */
+  ydoc?: YDoc
+  /** Transport to a `SyncRoom` for operation-based sync (see `SyncClient`). */
+  syncTransport?: SyncTransport
+  /** Presence transport for remote cursors and selections (see `bindPresence`). */
+  presenceAdapter?: PresenceAdapter
+  /** Name and color shown to peers. Presence is only published when set. */
+  presenceUser?: PresenceUser
   /** Custom error boundary fallback (ReactNode or render function). */
   errorFallback?: WhiteboardErrorBoundaryProps['fallback']
   /** Called when a rendering error is caught by the error boundary. */
@@ -111,9 +139,16 @@ export function WhiteboardProvider({
   fontUrls,
   customShapes,
   tools,
+  history,
   persistenceAdapter,
   autosaveInterval = DEFAULT_AUTOSAVE_INTERVAL,
+  compactAfter = DEFAULT_COMPACT_AFTER,
   onPersistenceError,
+  tabSync,
+  ydoc,
+  syncTransport,
+  presenceAdapter,
+  presenceUser,
   errorFallback,
   onError,
 }: WhiteboardProviderProps) {
@@ -123,13 +158,15 @@ export function WhiteboardProvider({
 
   // Lazy init (runs once per mount, no re-creation on re-render)
   if (!storeRef.current) {
-    storeRef.current = createWhiteboardStore()
+    storeRef.current = createWhiteboardStore({ history })
   }
   if (!toolManagerRef.current) {
     toolManagerRef.current = new ToolManager()
   }
   if (!registryRef.current) {
     registryRef.current = new ShapeRendererRegistry()
+    // Built-in embed for pasted URLs; replace it with registerComponent
+    registryRef.current.registerComponent(LINK_CARD_COMPONENT, LinkCard)
   }
 
   const store = storeRef.current
@@ -181,24 +218,28 @@ export function WhiteboardProvider({
   // Register/unregister custom tools from props
   useEffect(() => {
     if (!tools) return
-    for (const tool of tools) {
-      toolManager.registerTool(tool)
-    }
+    for (const tool of tools) toolManager.registerTool(tool)
     return () => {
-      for (const tool of tools) {
-        toolManager.unregisterTool(tool.type)
-      }
+      for (const tool of tools) toolManager.unregisterTool(tool.type)
     }
   }, [tools, toolManager])
 
+  // Keep the images the board, its history and clipboard refer to; release the rest
+  useEffect(() => bindAssetStore(store), [store])
+
   // ---- Persistence: load on mount ----
   const persistenceLoadedRef = useRef(false)
+  const [persistenceLoaded, setPersistenceLoaded] = useState(false)
   const onPersistenceErrorRef = useRef(onPersistenceError)
   onPersistenceErrorRef.current = onPersistenceError
 
   useEffect(() => {
-    if (!persistenceAdapter) {
+    const markLoaded = () => {
       persistenceLoadedRef.current = true
+      setPersistenceLoaded(true)
+    }
+    if (!persistenceAdapter) {
+      markLoaded()
       return
     }
 
@@ -206,50 +247,100 @@ export function WhiteboardProvider({
 
     persistenceAdapter.load().then((raw) => {
       if (cancelled || !raw) {
-        persistenceLoadedRef.current = true
+        markLoaded()
         return
       }
       try {
-        const doc = parseDocument(raw)
-        const { shapes, shapeIds, viewport } = documentToStoreData(doc)
+        // Invalid shapes are dropped and reported rather than losing the whole board
+        const { document, warnings } = parseDocumentLenient(raw)
+        const { shapes, shapeIds, viewport } = documentToStoreData(document)
         store.getState().loadDocument(shapes, shapeIds, viewport)
+        if (warnings.length > 0) {
+          onPersistenceErrorRef.current?.(new Error(`Dropped invalid shapes: ${warnings.join('; ')}`))
+        }
       } catch (err) {
         onPersistenceErrorRef.current?.(err instanceof Error ? err : new Error(String(err)))
         persistenceAdapter.clear?.()
       } finally {
-        persistenceLoadedRef.current = true
+        markLoaded()
       }
     }).catch((err) => {
       onPersistenceErrorRef.current?.(err instanceof Error ? err : new Error(String(err)))
-      persistenceLoadedRef.current = true
+      markLoaded()
     })
 
     return () => { cancelled = true }
   }, [store, persistenceAdapter])
 
   // ---- Persistence: autosave ----
+  // Incremental adapters get the changes since the last save; changes made
+  // while loading are left out, as the loaded document replaces them
   const dirtyRef = useRef(false)
+  const changeTrackerRef = useRef<ShapeChangeTracker | null>(null)
+  const changeSavesRef = useRef(0)
 
   useEffect(() => {
     if (!persistenceAdapter) return
+    if (isIncrementalAdapter(persistenceAdapter)) {
+      const tracker = new ShapeChangeTracker({ trackViewport: true })
+      changeTrackerRef.current = tracker
+      const unsubChanges = store.subscribe((state, prev) => {
+        if (persistenceLoadedRef.current) tracker.record(prev, state)
+      })
+      return () => {
+        unsubChanges()
+        changeTrackerRef.current = null
+      }
+    }
     const unsub = store.subscribe(
-      (s) => [s.shapes, s.shapeIds] as const,
+      (s) => [s.shapes, s.shapeIds, s.viewport] as const,
       () => { dirtyRef.current = true },
+      { equalityFn: (a, b) => a.every((value, i) => value === b[i]) },
     )
     return unsub
   }, [store, persistenceAdapter])
 
+  const tabSyncRef = useRef<TabSyncBinding | null>(null)
+
   const saveToAdapter = useCallback(async () => {
-    if (!persistenceAdapter || !dirtyRef.current || !persistenceLoadedRef.current) return
+    if (!persistenceAdapter || !persistenceLoadedRef.current) return
+    if (tabSyncRef.current && !tabSyncRef.current.isLeader()) return
+    const tracker = changeTrackerRef.current
+    if (tracker && isIncrementalAdapter(persistenceAdapter)) {
+      if (!tracker.hasChanges) return
+      const ops = tracker.takeOps(store.getState())
+      try {
+        await persistenceAdapter.saveChanges(
+          persistenceAdapter.acceptsBlobUrls ? ops : await resolveOpImageBlobUrls(ops),
+        )
+      } catch (err) {
+        // Written again with the next save
+        tracker.restore(ops)
+        onPersistenceErrorRef.current?.(err instanceof Error ? err : new Error(String(err)))
+        return
+      }
+      try {
+        if (++changeSavesRef.current >= compactAfter) {
+          changeSavesRef.current = 0
+          await persistenceAdapter.compact()
+        }
+      } catch (err) {
+        onPersistenceErrorRef.current?.(err instanceof Error ? err : new Error(String(err)))
+      }
+      return
+    }
+    if (!dirtyRef.current) return
     dirtyRef.current = false
     try {
       const { shapes, shapeIds, viewport } = store.getState()
-      const json = await exportToJSON(shapes, shapeIds, viewport)
+      const json = persistenceAdapter.acceptsBlobUrls
+        ? JSON.stringify(serializeDocument(shapes, shapeIds, viewport))
+        : await exportToJSON(shapes, shapeIds, viewport)
       await persistenceAdapter.save(json)
     } catch (err) {
       onPersistenceErrorRef.current?.(err instanceof Error ? err : new Error(String(err)))
     }
-  }, [store, persistenceAdapter])
+  }, [store, persistenceAdapter, compactAfter])
 
   useEffect(() => {
     if (!persistenceAdapter || autosaveInterval === 0) return
@@ -257,6 +348,58 @@ export function WhiteboardProvider({
     return () => clearInterval(id)
   }, [persistenceAdapter, autosaveInterval, saveToAdapter])
 
+  // ---- Persistence: checkpoints ----
+  useEffect(() => {
+    const state = store.getState()
+    state.setPersistenceAdapter(persistenceAdapter ?? null)
+    if (!persistenceAdapter) return
+    state.listCheckpoints().catch((err) => {
+      onPersistenceErrorRef.current?.(err instanceof Error ? err : new Error(String(err)))
+    })
+    return () => store.getState().setPersistenceAdapter(null)
+  }, [store, persistenceAdapter])
+
+  // ---- Collaboration ----
+  const tabSyncEnabled = !!tabSync
+  const tabSyncOptions = typeof tabSync === 'object' ? tabSync : undefined
+  const tabSyncChannel = tabSyncOptions?.channel
+  const tabSyncHeartbeat = tabSyncOptions?.heartbeatInterval
+  const onLeaderChangeRef = useRef(tabSyncOptions?.onLeaderChange)
+  onLeaderChangeRef.current = tabSyncOptions?.onLeaderChange
+
+  useEffect(() => {
+    if (!tabSyncEnabled || !persistenceLoaded) return
+    const binding = bindTabSync(store, {
+      channel: tabSyncChannel,
+      heartbeatInterval: tabSyncHeartbeat,
+      onLeaderChange: (isLeader) => onLeaderChangeRef.current?.(isLeader),
+    })
+    tabSyncRef.current = binding
+    return () => {
+      binding.unbind()
+      tabSyncRef.current = null
+    }
+  }, [store, tabSyncEnabled, tabSyncChannel, tabSyncHeartbeat, persistenceLoaded])
+
+  useEffect(() => {
+    if (!ydoc) return
+    return bindYDoc(store, ydoc)
+  }, [store, ydoc])
+
+  useEffect(() => {
+    if (!syncTransport) return
+    const client = new SyncClient(store, syncTransport)
+    client.connect()
+    return () => client.disconnect()
+  }, [store, syncTransport])
+
+  const presenceName = presenceUser?.name
+  const presenceColor = presenceUser?.color
+  useEffect(() => {
+    if (!presenceAdapter || presenceName === undefined) return
+    return bindPresence(store, presenceAdapter, { name: presenceName, color: presenceColor })
+  }, [store, presenceAdapter, presenceName, presenceColor])
+
   const value = useMemo<WhiteboardContextValue>(
     () => ({ store, toolManager, shapeRendererRegistry: registry }),
     [store, toolManager, registry],
@@ -1,9 +1,10 @@
 export { createWhiteboardStore } from './store'
-export type { WhiteboardStore } from './store'
+export type { WhiteboardStore, WhiteboardStoreOptions } from './store'
 export { CanvasRenderer } from './renderer'
 export { ShapeRendererRegistry } from './renderer/ShapeRendererRegistry'
 export type {
   CustomShapeRenderer,
   CustomShapeDrawContext,
   CustomShapeSvgContext,
+  EmbeddedComponentProps,
 } from './renderer/ShapeRendererRegistry'
@@ -1,6 +1,7 @@
+import type { ComponentType } from 'react'
 import type { RoughCanvas } from 'roughjs/bin/canvas'
 import type { RoughSVG } from 'roughjs/bin/svg'
-import type { Point, Shape } from '../../types'
+import type { Point, ReactComponentShape, Shape } from '../../types'
 
 // ============================================================================
 // Custom Shape Renderer Types
@@ -57,6 +58,24 @@ export interface CustomShapeRenderer {
   svgRender?: (context: CustomShapeSvgContext) => SVGGElement | null
 }
 
+/**
+ * Props passed to a component registered with
+ * {@link ShapeRendererRegistry.registerComponent}.
+ * @public
+ */
+export interface EmbeddedComponentProps {
+  /** The shape the component is embedded in (size it to `width`/`height`) */
+  shape: ReactComponentShape
+  /** The shape's `componentProps` */
+  componentProps: Record<string, unknown>
+  /** Whether the shape is selected */
+  isSelected: boolean
+  /** Whether the shape is in edit mode (double-clicked) */
+  isEditing: boolean
+  /** Merge values into the shape's `componentProps` as one undo step */
+  updateComponentProps: (props: Record<string, unknown>) => void
+}
+
 // ============================================================================
 // Registry
 // ============================================================================
@@ -68,6 +87,8 @@ export interface CustomShapeRenderer {
  */
 export class ShapeRendererRegistry {
   private renderers = new Map<string, CustomShapeRenderer>()
+  private components = new Map<string, ComponentType<EmbeddedComponentProps>>()
+  private componentListeners = new Set<() => void>()
 
   /** Register a custom shape renderer */
   registerRenderer(renderer: CustomShapeRenderer): void {
@@ -88,4 +109,32 @@ export class ShapeRendererRegistry {
   hasRenderer(type: string): boolean {
     return this.renderers.has(type)
   }
+
+  /**
+   * Register the React component mounted for `react-component` shapes whose
+   * `componentType` is `type`. The Canvas renders it live in a DOM layer over
+   * the board; exports draw a placeholder.
+   */
+  registerComponent(type: string, component: ComponentType<EmbeddedComponentProps>): void {
+    this.components.set(type, component)
+    this.componentListeners.forEach((listener) => listener())
+  }
+
+  /** Unregister a component by `componentType` */
+  unregisterComponent(type: string): void {
+    if (this.components.delete(type)) this.componentListeners.forEach((listener) => listener())
+  }
+
+  /** Get the component registered for a `componentType` */
+  getComponent(type: string): ComponentType<EmbeddedComponentProps> | undefined {
+    return this.components.get(type)
+  }
+
+  /** Listen for component (un)registration. Returns an unsubscribe function. */
+  onComponentsChange(listener: () => void): () => void {
+    this.componentListeners.add(listener)
+    return () => {
+      this.componentListeners.delete(listener)
+    }
+  }
 }
@@ -0,0 +1,355 @@
+import type { Shape, Viewport } from '../../types'
+import type { ThemeColors } from '../../types/theme'
+import type { SpatialIndex } from '../../utils/spatialIndex'
+import { getIndexBox } from '../../utils/spatialIndex'
+import type { QuadTreeBox } from '../../utils/quadTree'
+import { getDevicePixelRatio, getVisibleBounds } from '../../utils/canvas'
+import { shapeCacheKey } from '../../utils/shapeCacheKey'
+import type { CanvasRenderer } from './index'
+
+/** Tile side length in device pixels */
+const TILE_SIZE = 512
+
+/**
+ * Room around a shape's box for effects drawn in device pixels (shadows),
+ * which grow in canvas units as the zoom drops
+ */
+const TILE_BLEED = 24
+
+/** Tiles kept before the least recently drawn ones are dropped (~1 MB each) */
+const MAX_TILES = 128
+
+/** Above this many changed shapes, every tile is invalidated instead of checked */
+const MAX_DIRTY_BOXES = 256
+
+/** Zoom levels searched for a stand-in while a tile renders */
+const FALLBACK_LEVELS = [-1, 1, -2, 2, -3, 3, -4, 4]
+
+/** Default time spent rendering tiles per frame (ms) */
+const DEFAULT_FRAME_BUDGET = 8
+
+interface Tile {
+  level: number
+  col: number
+  row: number
+  canvas: HTMLCanvasElement
+  /** Content is stale: still drawn until it is re-rendered */
+  dirty: boolean
+}
+
+/**
+ * Shapes the static canvas shows.
+ * @internal
+ */
+export interface TileScene {
+  shapes: Map<string, Shape>
+  shapeIds: string[]
+  spatialIndex: SpatialIndex
+  /** Shapes drawn on the interactive canvas instead (being dragged or erased) */
+  hiddenIds: ReadonlySet<string>
+}
+
+/** Renderer calls the cache draws tiles with */
+export type TileRenderer = Pick<CanvasRenderer, 'getTheme' | 'drawShapesOn'>
+
+/**
+ * Discrete zoom level for a pixel scale: half powers of two, rounded up so
+ * tiles are only ever shrunk on screen, never blown up
+ */
+function levelFor(pixelScale: number): number {
+  return Math.ceil(Math.log2(pixelScale) * 2 - 1e-6)
+}
+
+/** Device pixels per canvas unit in a level's tiles */
+function levelScale(level: number): number {
+  return 2 ** (level / 2)
+}
+
+function tileKey(level: number, col: number, row: number): string {
+  return `${level}/${col}/${row}`
+}
+
+/** Everything about a shape that changes how it looks in a tile */
+function visualKey(shape: Shape): string {
+  return `${shape.x}|${shape.y}|${shape.parentId ?? ''}|${shapeCacheKey(shape, 1)}`
+}
+
+function sameTheme(a: ThemeColors | null, b: ThemeColors): boolean {
+  if (!a) return false
+  return (Object.keys(b) as (keyof ThemeColors)[]).every((key) => a[key] === b[key])
+}
+
+/**
+ * Bitmap cache for the static canvas. The board is cut into world-space
+ * tiles at discrete zoom levels; drawing the viewport blits tiles, so panning
+ * never touches RoughJS. Shapes that change invalidate only the tiles under
+ * their old and new boxes, and missing tiles render progressively within a
+ * per-frame time budget, with tiles from nearby zoom levels standing in.
+ * @internal
+ */
+export class TileCache {
+  private tiles = new Map<string, Tile>()
+  private frameBudget: number
+  private theme: ThemeColors | null = null
+  private shapes: Map<string, Shape> = new Map()
+  private shapeIds: string[] = []
+  private hiddenIds = new Set<string>()
+
+  constructor(options: { frameBudget?: number } = {}) {
+    this.frameBudget = options.frameBudget ?? DEFAULT_FRAME_BUDGET
+  }
+
+  /** Number of cached tiles */
+  get size(): number {
+    return this.tiles.size
+  }
+
+  /**
+   * Draw the scene's visible tiles onto the static canvas, rendering missing
+   * or stale ones first while the frame budget lasts. Returns true when
+   * tiles are left to render, so the caller should draw again next frame.
+   */
+  draw(
+    target: CanvasRenderingContext2D,
+    renderer: TileRenderer,
+    scene: TileScene,
+    viewport: Viewport,
+    width: number,
+    height: number,
+  ): boolean {
+    this.update(scene, renderer.getTheme())
+
+    const dpr = getDevicePixelRatio()
+    const level = levelFor(viewport.zoom * dpr)
+    const span = TILE_SIZE / levelScale(level)
+    const visible = getVisibleBounds(viewport, width, height)
+    const minCol = Math.floor(visible.x / span)
+    const maxCol = Math.floor((visible.x + visible.width) / span)
+    const minRow = Math.floor(visible.y / span)
+    const maxRow = Math.floor((visible.y + visible.height) / span)
+
+    // Slots to fill: visible ones nearest the center first, then a ring around them
+    const centerCol = (minCol + maxCol) / 2
+    const centerRow = (minRow + maxRow) / 2
+    const slots: { col: number; row: number; visible: boolean }[] = []
+    for (let col = minCol - 1; col <= maxCol + 1; col++) {
+      for (let row = minRow - 1; row <= maxRow + 1; row++) {
+        const isVisible = col >= minCol && col <= maxCol && row >= minRow && row <= maxRow
+        slots.push({ col, row, visible: isVisible })
+      }
+    }
+    const distance = (s: { col: number; row: number }) => Math.hypot(s.col - centerCol, s.row - centerRow)
+    slots.sort((a, b) => Number(b.visible) - Number(a.visible) || distance(a) - distance(b))
+
+    const deadline = performance.now() + this.frameBudget
+    let rendered = 0
+    let pending = false
+    for (const { col, row } of slots) {
+      const tile = this.tiles.get(tileKey(level, col, row))
+      if (tile && !tile.dirty) continue
+      if (rendered > 0 && performance.now() >= deadline) {
+        pending = true
+        break
+      }
+      this.renderTile(level, col, row, renderer, scene)
+      rendered++
+    }
+
+    target.save()
+    target.setTransform(1, 0, 0, 1, 0, 0)
+    const kept = new Set<string>()
+    for (let col = minCol; col <= maxCol; col++) {
+      for (let row = minRow; row <= maxRow; row++) {
+        const key = tileKey(level, col, row)
+        const tile = this.tiles.get(key)
+        if (tile) {
+          // Move to the back of the map: it is evicted last
+          this.tiles.delete(key)
+          this.tiles.set(key, tile)
+          kept.add(key)
+          this.blit(target, tile, viewport, dpr)
+        } else {
+          this.drawFallback(target, level, col, row, viewport, dpr)
+        }
+      }
+    }
+    target.restore()
+
+    this.evict(kept)
+    return pending
+  }
+
+  /** Mark the tiles under matching shapes stale, e.g. images that finished loading */
+  invalidate(match: (shape: Shape) => boolean): void {
+    const boxes: QuadTreeBox[] = []
+    for (const shape of this.shapes.values()) {
+      if (match(shape)) boxes.push(getIndexBox(shape))
+    }
+    this.invalidateBoxes(boxes)
+  }
+
+  /** Drop every tile */
+  clear(): void {
+    this.tiles.clear()
+  }
+
+  /** Invalidate tiles for whatever changed since the last draw */
+  private update(scene: TileScene, theme: ThemeColors): void {
+    const boxes: QuadTreeBox[] = []
+    let all = false
+    const mark = (shape: Shape | undefined) => {
+      if (!shape || all) return
+      if (boxes.length >= MAX_DIRTY_BOXES) all = true
+      else boxes.push(getIndexBox(shape))
+    }
+
+    if (!sameTheme(this.theme, theme)) {
+      this.theme = theme
+      all = true
+    }
+
+    // Changed, added and removed shapes
+    const prevShapes = this.shapes
+    if (scene.shapes !== prevShapes) {
+      for (const [id, shape] of scene.shapes) {
+        const prev = prevShapes.get(id)
+        if (prev === shape) continue
+        if (!prev || prev.props !== shape.props || visualKey(prev) !== visualKey(shape)) {
+          mark(prev)
+          mark(shape)
+        }
+      }
+      for (const [id, prev] of prevShapes) {
+        if (!scene.shapes.has(id)) mark(prev)
+      }
+    }
+
+    // Z-order: shapes kept in both lists whose relative position changed
+    if (scene.shapeIds !== this.shapeIds) {
+      const listed = new Set(scene.shapeIds)
+      const before = this.shapeIds.filter((id) => listed.has(id))
+      const kept = new Set(before)
+      const after = scene.shapeIds.filter((id) => kept.has(id))
+      for (let i = 0; i < after.length; i++) {
+        if (after[i] !== before[i]) mark(scene.shapes.get(after[i]!))
+      }
+    }
+
+    // Shapes that started or stopped being drawn on the interactive canvas
+    for (const id of this.hiddenIds) {
+      if (!scene.hiddenIds.has(id)) mark(scene.shapes.get(id) ?? prevShapes.get(id))
+    }
+    for (const id of scene.hiddenIds) {
+      if (!this.hiddenIds.has(id)) mark(scene.shapes.get(id))
+    }
+
+    this.shapes = scene.shapes
+    this.shapeIds = scene.shapeIds
+    this.hiddenIds = new Set(scene.hiddenIds)
+
+    if (all) {
+      for (const tile of this.tiles.values()) tile.dirty = true
+    } else {
+      this.invalidateBoxes(boxes)
+    }
+  }
+
+  private invalidateBoxes(boxes: QuadTreeBox[]): void {
+    if (boxes.length === 0) return
+    for (const tile of this.tiles.values()) {
+      if (tile.dirty) continue
+      const scale = levelScale(tile.level)
+      const span = TILE_SIZE / scale
+      const pad = TILE_BLEED / scale
+      const minX = tile.col * span - pad
+      const minY = tile.row * span - pad
+      const maxX = minX + span + pad * 2
+      const maxY = minY + span + pad * 2
+      tile.dirty = boxes.some((b) => b.minX <= maxX && b.maxX >= minX && b.minY <= maxY && b.maxY >= minY)
+    }
+  }
+
+  private renderTile(level: number, col: number, row: number, renderer: TileRenderer, scene: TileScene): void {
+    const key = tileKey(level, col, row)
+    let tile = this.tiles.get(key)
+    if (!tile) {
+      const canvas = document.createElement('canvas')
+      canvas.width = TILE_SIZE
+      canvas.height = TILE_SIZE
+      tile = { level, col, row, canvas, dirty: true }
+      this.tiles.set(key, tile)
+    }
+    const ctx = tile.canvas.getContext('2d')
+    if (!ctx) return
+
+    const scale = levelScale(level)
+    const span = TILE_SIZE / scale
+    const pad = TILE_BLEED / scale
+    const area = { x: col * span - pad, y: row * span - pad, width: span + pad * 2, height: span + pad * 2 }
+    const shapes: Shape[] = []
+    for (const id of scene.spatialIndex.queryShapeIds(scene.shapes, scene.shapeIds, area)) {
+      const shape = scene.shapes.get(id)
+      if (shape && !scene.hiddenIds.has(id)) shapes.push(shape)
+    }
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0)
+    ctx.clearRect(0, 0, TILE_SIZE, TILE_SIZE)
+    ctx.setTransform(scale, 0, 0, scale, -col * span * scale, -row * span * scale)
+    renderer.drawShapesOn(ctx, shapes, scene.shapes)
+    tile.dirty = false
+  }
+
+  /** Draw a tile at its place on screen, snapped to device pixels so tiles meet without seams */
+  private blit(target: CanvasRenderingContext2D, tile: Tile, viewport: Viewport, dpr: number): void {
+    const span = TILE_SIZE / levelScale(tile.level)
+    const toDevice = (world: number, pan: number) => Math.round((world * viewport.zoom + pan) * dpr)
+    const x0 = toDevice(tile.col * span, viewport.x)
+    const y0 = toDevice(tile.row * span, viewport.y)
+    const x1 = toDevice((tile.col + 1) * span, viewport.x)
+    const y1 = toDevice((tile.row + 1) * span, viewport.y)
+    target.drawImage(tile.canvas, x0, y0, x1 - x0, y1 - y0)
+  }
+
+  /** Fill a slot with scaled tiles from the nearest zoom level that has any */
+  private drawFallback(
+    target: CanvasRenderingContext2D,
+    level: number,
+    col: number,
+    row: number,
+    viewport: Viewport,
+    dpr: number,
+  ): void {
+    const span = TILE_SIZE / levelScale(level)
+    const minX = col * span
+    const minY = row * span
+    for (const offset of FALLBACK_LEVELS) {
+      const stand = [...this.tiles.values()].filter((tile) => {
+        if (tile.level !== level + offset) return false
+        const tileSpan = TILE_SIZE / levelScale(tile.level)
+        const x = tile.col * tileSpan
+        const y = tile.row * tileSpan
+        return x < minX + span && x + tileSpan > minX && y < minY + span && y + tileSpan > minY
+      })
+      if (stand.length === 0) continue
+
+      const x = Math.round((minX * viewport.zoom + viewport.x) * dpr)
+      const y = Math.round((minY * viewport.zoom + viewport.y) * dpr)
+      const size = Math.round(((minX + span) * viewport.zoom + viewport.x) * dpr) - x
+      target.save()
+      target.beginPath()
+      target.rect(x, y, size, size)
+      target.clip()
+      for (const tile of stand) this.blit(target, tile, viewport, dpr)
+      target.restore()
+      return
+    }
+  }
+
+  /** Drop the least recently drawn tiles beyond the limit, never ones on screen */
+  private evict(onScreen: Set<string>): void {
+    for (const key of this.tiles.keys()) {
+      if (this.tiles.size <= MAX_TILES) return
+      if (!onScreen.has(key)) this.tiles.delete(key)
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import type { Shape } from '../../types'
+import type { ThemeColors } from '../../types/theme'
+import type { DocumentDiff } from '../../utils/documentDiff'
+import { applyRotation } from './shapeRenderers/shared'
+
+/** Padding between a shape and its diff outline, in screen pixels */
+const OUTLINE_PADDING = 6
+
+/** Dash pattern of removed shapes' outlines, in screen pixels */
+const REMOVED_DASH = [6, 4]
+
+function drawOutline(
+  ctx: CanvasRenderingContext2D,
+  shape: Shape,
+  color: string,
+  zoom: number,
+  dashed: boolean,
+): void {
+  const pad = OUTLINE_PADDING / zoom
+  ctx.save()
+  applyRotation(ctx, shape.rotation, shape.x, shape.y, shape.width, shape.height)
+  ctx.strokeStyle = color
+  ctx.lineWidth = 2 / zoom
+  ctx.setLineDash(dashed ? REMOVED_DASH.map((d) => d / zoom) : [])
+  ctx.strokeRect(shape.x - pad, shape.y - pad, shape.width + pad * 2, shape.height + pad * 2)
+  ctx.restore()
+}
+
+/**
+ * Outline the shapes a diff added, changed and removed in the theme's diff
+ * colors. Added and changed shapes are outlined where they are now, removed
+ * ones (dashed) where they were. Expects the viewport transform to be applied.
+ */
+export function drawDocumentDiff(
+  ctx: CanvasRenderingContext2D,
+  diff: DocumentDiff,
+  shapes: Map<string, Shape>,
+  theme: ThemeColors,
+  zoom: number,
+): void {
+  for (const shape of diff.removed) drawOutline(ctx, shape, theme.diffRemoved, zoom, true)
+  for (const { after } of diff.changed) {
+    drawOutline(ctx, shapes.get(after.id) ?? after, theme.diffChanged, zoom, false)
+  }
+  for (const shape of diff.added) {
+    drawOutline(ctx, shapes.get(shape.id) ?? shape, theme.diffAdded, zoom, false)
+  }
+}
@@ -0,0 +1,41 @@
+import type { Viewport } from '../../types'
+
+/**
+ * Draw grid lines over the visible area, in screen space. Lines stay one
+ * pixel wide at any zoom; the spacing scales with it.
+ */
+export function drawGrid(
+  ctx: CanvasRenderingContext2D,
+  viewport: Viewport,
+  width: number,
+  height: number,
+  gridSize: number,
+  color: string,
+  dpr: number,
+): void {
+  const { x, y, zoom } = viewport
+
+  ctx.save()
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0)
+
+  const scaledGridSize = gridSize * zoom
+  const offsetX = x % scaledGridSize
+  const offsetY = y % scaledGridSize
+
+  ctx.beginPath()
+  ctx.strokeStyle = color
+  ctx.lineWidth = 1
+
+  for (let gx = offsetX; gx < width; gx += scaledGridSize) {
+    ctx.moveTo(gx, 0)
+    ctx.lineTo(gx, height)
+  }
+
+  for (let gy = offsetY; gy < height; gy += scaledGridSize) {
+    ctx.moveTo(0, gy)
+    ctx.lineTo(width, gy)
+  }
+
+  ctx.stroke()
+  ctx.restore()
+}
@@ -1,49 +1,66 @@
-import type { ImageShape } from '../../types'
+import type { Bounds, ImageShape } from '../../types'
+import { getImageCrop, getUncroppedImageBounds, imageFilterCss } from '../../utils/imageEditing'
 import type { DrawSelectionOutlineFn } from './shapeRenderers'
+import { assetStore } from '../../assets/AssetStore'
+import type { DecodedImage } from '../../assets/DecodedImageCache'
 
-/** Maximum number of cached images before eviction */
-const MAX_CACHE_SIZE = 50
+/** Opacity of the cropped-away part of an image in crop mode */
+const CROP_OVERLAY_ALPHA = 0.35
 
-/** Cache loaded HTMLImageElement instances to avoid re-decoding each frame */
-const imageCache = new Map<string, HTMLImageElement>()
-
-function evictOldest(): void {
-  if (imageCache.size <= MAX_CACHE_SIZE) return
-  // Map iterates in insertion order — delete the first (oldest) entry
-  const oldest = imageCache.keys().next().value
-  if (oldest !== undefined) {
-    // Revoke blob URLs to free memory (no-op for non-blob URLs)
-    if (oldest.startsWith('blob:')) URL.revokeObjectURL(oldest)
-    imageCache.delete(oldest)
-  }
+/**
+ * Listen for images finishing loading, e.g. to redraw cached bitmaps that
+ * were rendered before the image was available.
+ * @internal
+ */
+export function onImageLoad(listener: (src: string) => void): () => void {
+  return assetStore.images.onLoad(listener)
 }
 
-function getOrLoadImage(src: string): HTMLImageElement | null {
-  const cached = imageCache.get(src)
-  if (cached && cached.complete) return cached
-
-  if (!cached) {
-    evictOldest()
-    const img = new Image()
-    img.src = src
-    imageCache.set(src, img)
-    // Return null on first frame — image will render next frame after loading
-    return img.complete ? img : null
-  }
-
-  return null
+/**
+ * The decoded image to draw for `shape`, downscaled to the size it covers
+ * on the canvas. Null until it has loaded.
+ */
+function getDecodedImage(ctx: CanvasRenderingContext2D, shape: ImageShape): DecodedImage | null {
+  // Device pixels per canvas unit; not every context can tell
+  const transform = ctx.getTransform?.()
+  const scale = transform ? Math.hypot(transform.a, transform.b) : 1
+  const crop = getImageCrop(shape)
+  const pixelWidth = (shape.width / crop.width) * shape.props.naturalWidth * scale
+  return assetStore.images.get(shape.props.src, pixelWidth)
 }
 
 /**
  * Clear the image cache (useful for cleanup/testing).
+ * Drops decoded images only; image URLs stay valid.
  * @public
  */
 export function clearImageCache(): void {
-  imageCache.clear()
+  assetStore.images.clear()
+}
+
+/** Rotate about the shape's center */
+function rotateAboutCenter(ctx: CanvasRenderingContext2D, shape: ImageShape): void {
+  if (shape.rotation === 0) return
+  const cx = shape.x + shape.width / 2
+  const cy = shape.y + shape.height / 2
+  ctx.translate(cx, cy)
+  ctx.rotate(shape.rotation)
+  ctx.translate(-cx, -cy)
+}
+
+/** Mirror drawing inside `bounds` for flipped images */
+function flipWithin(ctx: CanvasRenderingContext2D, shape: ImageShape, bounds: Bounds): void {
+  const { flipX, flipY } = shape.props
+  if (!flipX && !flipY) return
+  const cx = bounds.x + bounds.width / 2
+  const cy = bounds.y + bounds.height / 2
+  ctx.translate(cx, cy)
+  ctx.scale(flipX ? -1 : 1, flipY ? -1 : 1)
+  ctx.translate(-cx, -cy)
 }
 
 /**
- * Draw an image shape on the canvas.
+ * Draw an image shape on the canvas: its crop, flips and filter.
  * @internal
  */
 export function drawImage(
@@ -52,24 +69,62 @@ export function drawImage(
   isSelected: boolean,
   drawSelection: DrawSelectionOutlineFn,
 ): void {
-  const { x, y, width, height, rotation, opacity, props } = shape
+  const { x, y, width, height, opacity, props } = shape
 
-  const img = getOrLoadImage(props.src)
-  if (!img) return
+  const decoded = getDecodedImage(ctx, shape)
+  if (!decoded) return
 
   ctx.save()
   ctx.globalAlpha = opacity
+  rotateAboutCenter(ctx, shape)
 
-  if (rotation !== 0) {
-    const cx = x + width / 2
-    const cy = y + height / 2
-    ctx.translate(cx, cy)
-    ctx.rotate(rotation)
-    ctx.translate(-cx, -cy)
+  ctx.save()
+  flipWithin(ctx, shape, shape)
+  ctx.filter = imageFilterCss(props.filter)
+  const { source } = decoded
+  const { crop } = props
+  if (crop) {
+    // Crops are in the stored natural size, which may not be the image's pixel size
+    const scaleX = (decoded.naturalWidth / props.naturalWidth) * decoded.scale
+    const scaleY = (decoded.naturalHeight / props.naturalHeight) * decoded.scale
+    ctx.drawImage(source, crop.x * scaleX, crop.y * scaleY, crop.width * scaleX, crop.height * scaleY, x, y, width, height)
+  } else {
+    ctx.drawImage(source, x, y, width, height)
   }
-
-  ctx.drawImage(img, x, y, width, height)
+  ctx.restore()
 
   if (isSelected) drawSelection(x, y, width, height)
   ctx.restore()
 }
+
+/**
+ * Crop mode: the cropped-away part of the image, faded, with an outline
+ * around the whole image. Drawn over the image.
+ * @internal
+ */
+export function drawImageCropOverlay(ctx: CanvasRenderingContext2D, shape: ImageShape, color: string, zoom: number): void {
+  const decoded = getDecodedImage(ctx, shape)
+  const full = getUncroppedImageBounds(shape)
+
+  ctx.save()
+  rotateAboutCenter(ctx, shape)
+
+  if (decoded) {
+    ctx.save()
+    ctx.beginPath()
+    ctx.rect(full.x, full.y, full.width, full.height)
+    ctx.rect(shape.x, shape.y, shape.width, shape.height)
+    ctx.clip('evenodd')
+    ctx.globalAlpha = CROP_OVERLAY_ALPHA
+    flipWithin(ctx, shape, full)
+    ctx.filter = imageFilterCss(shape.props.filter)
+    ctx.drawImage(decoded.source, full.x, full.y, full.width, full.height)
+    ctx.restore()
+  }
+
+  ctx.strokeStyle = color
+  ctx.lineWidth = 1 / zoom
+  ctx.setLineDash([4 / zoom, 4 / zoom])
+  ctx.strokeRect(full.x, full.y, full.width, full.height)
+  ctx.restore()
+}
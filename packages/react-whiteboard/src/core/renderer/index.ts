@@ -1,15 +1,9 @@
 import rough from 'roughjs'
 import type { RoughCanvas } from 'roughjs/bin/canvas'
+import type { Shape, Viewport, PeerPresence } from '../../types'
 import type {
-  Shape,
-  Viewport,
-  RectangleShape,
-  EllipseShape,
-  PathShape,
-  LineShape,
-  ArrowShape,
-  TextShape,
-  ImageShape,
+  RectangleShape, EllipseShape, PathShape, LineShape, ArrowShape, TextShape, ImageShape, FrameShape, StickyShape,
+  ReactComponentShape,
 } from '../../types'
 import { updateShapeFields } from '../../types'
 import type { ThemeColors } from '../../types/theme'
@@ -17,6 +11,7 @@ import { resolveTheme } from '../../types/theme'
 import { getDevicePixelRatio } from '../../utils/canvas'
 import { drawRotationHandle } from '../../utils/rotationHandle'
 import { shapeCacheKey } from '../../utils/shapeCacheKey'
+import { FRAME_TITLE_HEIGHT, getFrameChildren } from '../../utils/frames'
 import {
   drawRectangle,
   drawEllipse,
@@ -24,10 +19,15 @@ import {
   drawLine,
   drawArrow,
   drawText,
+  drawFrame,
+  drawSticky,
   drawBoundingBox,
+  drawComponentPlaceholder,
 } from './shapeRenderers'
 import { applyRotation } from './shapeRenderers/shared'
 import { drawImage } from './imageRenderer'
+import { drawPeers } from './presenceRenderer'
+import { drawGrid } from './gridRenderer'
 import type { ShapeRendererRegistry } from './ShapeRendererRegistry'
 
 /** Cached bitmap entry for a shape during drag */
@@ -55,6 +55,8 @@ export class CanvasRenderer {
   private theme: ThemeColors
   private registry: ShapeRendererRegistry | null = null
   private dragCache = new Map<string, DragCacheEntry>()
+  private hiddenIds: ReadonlySet<string> = new Set()
+  private componentEmbeds = false
 
   constructor(ctx: CanvasRenderingContext2D, theme?: Partial<ThemeColors>) {
     this.ctx = ctx
@@ -79,6 +81,22 @@ export class CanvasRenderer {
     this.registry = registry
   }
 
+  /**
+   * Skip these shapes when drawing frame children (e.g. children being
+   * dragged, which the interactive canvas draws instead)
+   */
+  setHiddenShapeIds(ids: ReadonlySet<string>): void {
+    this.hiddenIds = ids
+  }
+
+  /**
+   * Leave React component shapes with a registered component to the DOM
+   * embed layer instead of drawing their placeholder (live canvas only)
+   */
+  setComponentEmbeds(enabled: boolean): void {
+    this.componentEmbeds = enabled
+  }
+
   private get dpr(): number {
     return getDevicePixelRatio()
   }
@@ -109,31 +127,7 @@ export class CanvasRenderer {
    * Draw a grid pattern
    */
   drawGrid(viewport: Viewport, width: number, height: number, gridSize: number = 20): void {
-    const { x, y, zoom } = viewport
-
-    this.ctx.save()
-    this.ctx.setTransform(this.dpr, 0, 0, this.dpr, 0, 0)
-
-    const scaledGridSize = gridSize * zoom
-    const offsetX = x % scaledGridSize
-    const offsetY = y % scaledGridSize
-
-    this.ctx.beginPath()
-    this.ctx.strokeStyle = this.theme.grid
-    this.ctx.lineWidth = 1
-
-    for (let gx = offsetX; gx < width; gx += scaledGridSize) {
-      this.ctx.moveTo(gx, 0)
-      this.ctx.lineTo(gx, height)
-    }
-
-    for (let gy = offsetY; gy < height; gy += scaledGridSize) {
-      this.ctx.moveTo(0, gy)
-      this.ctx.lineTo(width, gy)
-    }
-
-    this.ctx.stroke()
-    this.ctx.restore()
+    drawGrid(this.ctx, viewport, width, height, gridSize, this.theme.grid, this.dpr)
   }
 
   /**
@@ -174,6 +168,18 @@ export class CanvasRenderer {
       case 'image':
         drawImage(this.ctx, shape as ImageShape, sel, fn)
         break
+      case 'sticky':
+        drawSticky(this.ctx, shape as StickyShape, sel, fn, allShapes)
+        break
+      case 'frame':
+        drawFrame(this.ctx, shape as FrameShape, sel, fn, this.theme.frameTitle, () =>
+          this.drawFrameChildren(shape as FrameShape, allShapes))
+        break
+      case 'react-component': {
+        const embedded = this.componentEmbeds && this.registry?.getComponent((shape as ReactComponentShape).props.componentType)
+        if (!embedded) drawComponentPlaceholder(this.ctx, shape as ReactComponentShape, sel, fn)
+        break
+      }
       default: {
         const custom = this.registry?.getRenderer(shape.type)
         if (custom) {
@@ -192,16 +198,23 @@ export class CanvasRenderer {
     }
   }
 
-  // ── Drag bitmap cache ─────────────────────────────────────────────
-
   /**
-   * Build a lightweight cache key from shape properties that affect rendering (excludes x,y).
-   * Delegates to the standalone shapeCacheKey utility for testability.
+   * Draw a frame's children. When the frame is drawn away from its stored
+   * position (drag bitmap cache), the children are offset to follow it.
    */
-  private getShapeCacheKey(shape: Shape, zoom: number): string {
-    return shapeCacheKey(shape, zoom)
+  private drawFrameChildren(frame: FrameShape, allShapes?: Map<string, Shape>): void {
+    if (!allShapes) return
+    const stored = allShapes.get(frame.id) ?? frame
+    this.ctx.save()
+    this.ctx.translate(frame.x - stored.x, frame.y - stored.y)
+    for (const child of getFrameChildren(frame, allShapes)) {
+      if (!this.hiddenIds.has(child.id)) this.drawShape(child, false, allShapes, true)
+    }
+    this.ctx.restore()
   }
 
+  // ── Drag bitmap cache ─────────────────────────────────────────────
+
   /**
    * Draw a shape using a cached offscreen bitmap.
    * On first call (cache miss), renders the shape to an offscreen canvas with RoughJS.
@@ -214,7 +227,7 @@ export class CanvasRenderer {
     zoom: number,
     allShapes?: Map<string, Shape>,
   ): void {
-    const key = this.getShapeCacheKey(shape, zoom)
+    const key = shapeCacheKey(shape, zoom)
     let entry = this.dragCache.get(shape.id)
 
     if (!entry || entry.key !== key) {
@@ -239,7 +252,8 @@ export class CanvasRenderer {
     allShapes?: Map<string, Shape>,
   ): DragCacheEntry {
     const strokeWidth = (shape.props as Record<string, unknown>)?.strokeWidth as number ?? 2
-    const padding = Math.max(strokeWidth, 2) + 12
+    // Frames also need room for the title label above them
+    const padding = Math.max(strokeWidth, 2) + 12 + (shape.type === 'frame' ? FRAME_TITLE_HEIGHT : 0)
     const { rotation, width, height } = shape
 
     // Compute axis-aligned bounding box of the rotated shape
@@ -264,14 +278,7 @@ export class CanvasRenderer {
     const tempY = halfH - height / 2
     const tempShape = updateShapeFields(shape, { x: tempX, y: tempY })
 
-    // Swap ctx/roughCanvas to render onto the offscreen canvas
-    const origCtx = this.ctx
-    const origRc = this.roughCanvas
-    this.ctx = offCtx
-    this.roughCanvas = rough.canvas(offCanvas)
-    this.drawShape(tempShape, false, allShapes, true)
-    this.ctx = origCtx
-    this.roughCanvas = origRc
+    this.drawOn(offCtx, () => this.drawShape(tempShape, false, allShapes, true))
 
     const entry: DragCacheEntry = { canvas: offCanvas, key, halfW, halfH }
     this.dragCache.set(shape.id, entry)
@@ -283,6 +290,27 @@ export class CanvasRenderer {
     this.dragCache.clear()
   }
 
+  /**
+   * Draw shapes onto another context (e.g. a tile of the static canvas cache)
+   * without selection outlines. The context's transform is used as is.
+   */
+  drawShapesOn(ctx: CanvasRenderingContext2D, shapes: Iterable<Shape>, allShapes: Map<string, Shape>): void {
+    this.drawOn(ctx, () => {
+      for (const shape of shapes) this.drawShape(shape, false, allShapes, true)
+    })
+  }
+
+  /** Swap ctx/roughCanvas to render onto an offscreen canvas */
+  private drawOn(ctx: CanvasRenderingContext2D, draw: () => void): void {
+    const origCtx = this.ctx
+    const origRc = this.roughCanvas
+    this.ctx = ctx
+    this.roughCanvas = rough.canvas(ctx.canvas)
+    draw()
+    this.ctx = origCtx
+    this.roughCanvas = origRc
+  }
+
   // ── Selection rendering ─────────────────────────────────────────
 
   /**
@@ -292,14 +320,23 @@ export class CanvasRenderer {
    */
   drawSelectionForShape(shape: Shape): void {
     const cornersOnly = shape.type === 'text'
+    const isFrame = shape.type === 'frame'
     this.ctx.save()
-    applyRotation(this.ctx, shape.rotation, shape.x, shape.y, shape.width, shape.height)
-    this.drawSelectionOutline(cornersOnly, shape.x, shape.y, shape.width, shape.height)
+    if (!isFrame) applyRotation(this.ctx, shape.rotation, shape.x, shape.y, shape.width, shape.height)
+    this.drawSelectionOutline(cornersOnly, shape.x, shape.y, shape.width, shape.height, !isFrame)
     this.ctx.restore()
   }
 
   /**
-   * Draw selection outline with resize handles
+   * Draw remote peers' selections and cursors in their presence colors.
+   * Expects the viewport transform to be applied.
+   */
+  drawPeers(peers: PeerPresence[], shapes: Map<string, Shape>, zoom: number): void {
+    drawPeers(this.ctx, peers, shapes, this.theme, zoom)
+  }
+
+  /**
+   * Draw selection outline with resize handles (and the rotation handle, unless disabled)
    */
   private drawSelectionOutline(
     cornersOnly: boolean,
@@ -307,6 +344,7 @@ export class CanvasRenderer {
     y: number,
     width: number,
     height: number,
+    rotatable: boolean = true,
   ): void {
     const handleRadius = 4
 
@@ -344,6 +382,7 @@ export class CanvasRenderer {
     }
 
     // Draw rotation handle above top-center
+    if (!rotatable) return
     drawRotationHandle(this.ctx, { x, y, width, height }, {
       stroke: this.theme.rotationStroke,
       fill: this.theme.rotationHandleFill,
@@ -0,0 +1,104 @@
+import type { PeerPresence, Shape } from '../../types'
+import type { ThemeColors } from '../../types/theme'
+import { FONT_FAMILIES } from '../../utils/fonts'
+import { getPeerColor } from '../../utils/presence'
+import { applyRotation } from './shapeRenderers/shared'
+
+/** Padding between a shape and a peer's selection outline, in screen pixels */
+const SELECTION_PADDING = 4
+
+/** Cursor arrow outline, in screen pixels, tip at the origin */
+const CURSOR_PATH: [number, number][] = [[0, 0], [0, 16], [4.5, 12], [8, 19], [10.5, 18], [7, 11], [12.5, 11]]
+
+const LABEL_FONT_SIZE = 12
+const LABEL_PADDING_X = 6
+const LABEL_HEIGHT = 18
+
+/**
+ * Draw a peer's selection as a colored outline around each selected shape.
+ * Expects the viewport transform to be applied; line widths stay constant on screen.
+ */
+function drawPeerSelection(
+  ctx: CanvasRenderingContext2D,
+  shape: Shape,
+  color: string,
+  zoom: number,
+): void {
+  const pad = SELECTION_PADDING / zoom
+  ctx.save()
+  applyRotation(ctx, shape.rotation, shape.x, shape.y, shape.width, shape.height)
+  ctx.strokeStyle = color
+  ctx.lineWidth = 2 / zoom
+  ctx.setLineDash([])
+  ctx.strokeRect(shape.x - pad, shape.y - pad, shape.width + pad * 2, shape.height + pad * 2)
+  ctx.restore()
+}
+
+/**
+ * Draw a peer's cursor arrow with its name label.
+ * Drawn at a fixed screen size regardless of zoom.
+ */
+function drawPeerCursor(
+  ctx: CanvasRenderingContext2D,
+  peer: PeerPresence,
+  color: string,
+  labelColor: string,
+  zoom: number,
+): void {
+  if (!peer.cursor) return
+  ctx.save()
+  ctx.translate(peer.cursor.x, peer.cursor.y)
+  ctx.scale(1 / zoom, 1 / zoom)
+
+  ctx.beginPath()
+  for (const [i, [px, py]] of CURSOR_PATH.entries()) {
+    if (i === 0) ctx.moveTo(px, py)
+    else ctx.lineTo(px, py)
+  }
+  ctx.closePath()
+  ctx.fillStyle = color
+  ctx.fill()
+  ctx.strokeStyle = labelColor
+  ctx.lineWidth = 1
+  ctx.stroke()
+
+  const name = peer.user.name
+  if (name) {
+    ctx.font = `${LABEL_FONT_SIZE}px ${FONT_FAMILIES.sans}`
+    const labelX = 10
+    const labelY = 20
+    const width = ctx.measureText(name).width + LABEL_PADDING_X * 2
+    ctx.fillStyle = color
+    ctx.beginPath()
+    ctx.roundRect(labelX, labelY, width, LABEL_HEIGHT, 4)
+    ctx.fill()
+    ctx.fillStyle = labelColor
+    ctx.textBaseline = 'middle'
+    ctx.fillText(name, labelX + LABEL_PADDING_X, labelY + LABEL_HEIGHT / 2)
+  }
+  ctx.restore()
+}
+
+/**
+ * Draw remote peers' selections, then their cursors on top.
+ * Selected shapes that no longer exist locally are skipped.
+ */
+export function drawPeers(
+  ctx: CanvasRenderingContext2D,
+  peers: PeerPresence[],
+  shapes: Map<string, Shape>,
+  theme: ThemeColors,
+  zoom: number,
+): void {
+  for (const peer of peers) {
+    const color = getPeerColor(peer, theme.presenceColors)
+    for (const id of peer.selectedIds) {
+      const shape = shapes.get(id)
+      if (shape) drawPeerSelection(ctx, shape, color, zoom)
+    }
+  }
+  for (const peer of peers) {
+    const color = getPeerColor(peer, theme.presenceColors)
+    drawPeerCursor(ctx, peer, color, theme.presenceLabelText, zoom)
+  }
+}
@@ -1,6 +1,7 @@
-import type { RectangleShape, EllipseShape, Shape } from '../../../types'
+import type { BoundTextContainer, Shape } from '../../../types'
 import { resolveFont, wrapTextLines } from '../../../utils/fonts'
 import { getBoundTextShape, BOUND_TEXT_PADDING, centerTextVertically } from '../../../utils/boundText'
+import { resolveBoundTextProps } from '../../../utils/stickyNote'
 import { applyRotation } from './shared'
 
 /**
@@ -9,18 +10,18 @@ import { applyRotation } from './shared'
  */
 export function drawBoundText(
   ctx: CanvasRenderingContext2D,
-  parent: RectangleShape | EllipseShape,
+  parent: BoundTextContainer,
   allShapes: Map<string, Shape>,
 ): void {
   const textShape = getBoundTextShape(parent, allShapes)
-  if (!textShape) return
+  if (!textShape?.props.text) return
 
-  const { text, fontSize, color, align, lineHeight } = textShape.props
-  if (!text) return
+  const textProps = resolveBoundTextProps(parent, textShape.props)
+  const { text, fontSize, color, align, lineHeight } = textProps
 
   const pad = BOUND_TEXT_PADDING
   const maxWidth = Math.max(parent.width - pad * 2, 20)
-  const { lines, height: textHeight } = wrapTextLines(text, maxWidth, textShape.props)
+  const { lines, height: textHeight } = wrapTextLines(text, maxWidth, textProps)
 
   ctx.save()
   ctx.globalAlpha = textShape.opacity
@@ -32,7 +33,7 @@ export function drawBoundText(
   clipToParent(ctx, parent)
 
   // Text rendering
-  ctx.font = resolveFont(textShape.props)
+  ctx.font = resolveFont(textProps)
   ctx.fillStyle = color
   ctx.textAlign = align as CanvasTextAlign
   ctx.textBaseline = 'top'
@@ -51,7 +52,7 @@ export function drawBoundText(
   ctx.restore()
 }
 
-function clipToParent(ctx: CanvasRenderingContext2D, parent: RectangleShape | EllipseShape): void {
+function clipToParent(ctx: CanvasRenderingContext2D, parent: BoundTextContainer): void {
   ctx.beginPath()
   if (parent.type === 'ellipse') {
     const cx = parent.x + parent.width / 2
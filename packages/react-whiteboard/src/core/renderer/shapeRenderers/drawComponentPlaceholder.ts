@@ -0,0 +1,58 @@
+import type { ReactComponentShape } from '../../../types'
+import type { DrawSelectionOutlineFn } from './shared'
+import { applyRotation, roundRect } from './shared'
+
+/**
+ * Look of a React component shape where it can't be mounted live: exports,
+ * and boards without a component registered for its `componentType`
+ */
+export const COMPONENT_PLACEHOLDER = {
+  fill: '#f1f3f5',
+  stroke: '#adb5bd',
+  dash: [6, 4],
+  labelColor: '#868e96',
+  fontFamily: 'system-ui, sans-serif',
+  fontSize: 13,
+  cornerRadius: 6,
+}
+
+/** Placeholder text: the shape's `title` prop when it has one (link cards), else its component type */
+export function componentPlaceholderLabel(shape: ReactComponentShape): string {
+  const { componentType, componentProps } = shape.props
+  return typeof componentProps.title === 'string' ? componentProps.title : `<${componentType}>`
+}
+
+export function drawComponentPlaceholder(
+  ctx: CanvasRenderingContext2D,
+  shape: ReactComponentShape,
+  isSelected: boolean,
+  drawSelection: DrawSelectionOutlineFn,
+): void {
+  const { x, y, width, height, rotation, opacity } = shape
+
+  ctx.save()
+  ctx.globalAlpha = opacity
+  applyRotation(ctx, rotation, x, y, width, height)
+
+  ctx.beginPath()
+  roundRect(ctx, x, y, width, height, COMPONENT_PLACEHOLDER.cornerRadius)
+  ctx.fillStyle = COMPONENT_PLACEHOLDER.fill
+  ctx.fill()
+  ctx.strokeStyle = COMPONENT_PLACEHOLDER.stroke
+  ctx.lineWidth = 1
+  ctx.setLineDash(COMPONENT_PLACEHOLDER.dash)
+  ctx.stroke()
+  ctx.setLineDash([])
+
+  ctx.save()
+  ctx.clip()
+  ctx.fillStyle = COMPONENT_PLACEHOLDER.labelColor
+  ctx.font = `500 ${COMPONENT_PLACEHOLDER.fontSize}px ${COMPONENT_PLACEHOLDER.fontFamily}`
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'middle'
+  ctx.fillText(componentPlaceholderLabel(shape), x + width / 2, y + height / 2)
+  ctx.restore()
+
+  if (isSelected) drawSelection(x, y, width, height)
+  ctx.restore()
+}
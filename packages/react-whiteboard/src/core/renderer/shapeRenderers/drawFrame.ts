@@ -0,0 +1,59 @@
+import type { FrameShape } from '../../../types'
+import { FRAME_TITLE_FONT_SIZE, getFrameTitleBounds } from '../../../utils/frames'
+import type { DrawSelectionOutlineFn } from './shared'
+
+/** Gap between the title label baseline and the frame's top edge */
+const TITLE_GAP = 4
+
+/**
+ * Draw a frame: background, children, border and title label.
+ * `drawChildren` runs with the context clipped to the frame. Frames ignore rotation.
+ */
+export function drawFrame(
+  ctx: CanvasRenderingContext2D,
+  shape: FrameShape,
+  isSelected: boolean,
+  drawSelection: DrawSelectionOutlineFn,
+  titleColor: string,
+  drawChildren: () => void,
+): void {
+  const { x, y, width, height, opacity, props } = shape
+
+  ctx.save()
+  ctx.globalAlpha = opacity
+  if (props.fill && props.fill !== 'transparent') {
+    ctx.fillStyle = props.fill
+    ctx.fillRect(x, y, width, height)
+  }
+
+  ctx.save()
+  ctx.beginPath()
+  ctx.rect(x, y, width, height)
+  ctx.clip()
+  drawChildren()
+  ctx.restore()
+
+  ctx.globalAlpha = opacity
+  ctx.strokeStyle = props.stroke
+  ctx.lineWidth = 1
+  ctx.setLineDash([])
+  ctx.strokeRect(x, y, width, height)
+
+  // Title label above the frame, cut off at the frame's width
+  if (props.name) {
+    const title = getFrameTitleBounds(shape)
+    ctx.save()
+    ctx.beginPath()
+    ctx.rect(title.x, title.y, title.width, title.height)
+    ctx.clip()
+    ctx.font = `500 ${FRAME_TITLE_FONT_SIZE}px sans-serif`
+    ctx.fillStyle = titleColor
+    ctx.textAlign = 'left'
+    ctx.textBaseline = 'bottom'
+    ctx.fillText(props.name, x, y - TITLE_GAP)
+    ctx.restore()
+  }
+
+  if (isSelected) drawSelection(x, y, width, height)
+  ctx.restore()
+}
@@ -0,0 +1,37 @@
+import type { Shape, StickyShape } from '../../../types'
+import type { DrawSelectionOutlineFn } from './shared'
+import { applyRotation } from './shared'
+import { drawBoundText } from './drawBoundText'
+
+/** Drop shadow that lifts the note off the board */
+const STICKY_SHADOW = { color: 'rgba(0, 0, 0, 0.18)', blur: 10, offsetY: 4 }
+
+export function drawSticky(
+  ctx: CanvasRenderingContext2D,
+  shape: StickyShape,
+  isSelected: boolean,
+  drawSelection: DrawSelectionOutlineFn,
+  allShapes?: Map<string, Shape>,
+): void {
+  const { x, y, width, height, rotation, opacity, props } = shape
+
+  ctx.save()
+  ctx.globalAlpha = opacity
+  applyRotation(ctx, rotation, x, y, width, height)
+
+  ctx.save()
+  ctx.shadowColor = STICKY_SHADOW.color
+  ctx.shadowBlur = STICKY_SHADOW.blur
+  ctx.shadowOffsetY = STICKY_SHADOW.offsetY
+  ctx.fillStyle = props.color
+  ctx.fillRect(x, y, width, height)
+  ctx.restore()
+
+  if (isSelected) drawSelection(x, y, width, height)
+  ctx.restore()
+
+  // Draw bound text after shape restore (gets its own save/restore internally)
+  if (allShapes && props.boundTextId) {
+    drawBoundText(ctx, shape, allShapes)
+  }
+}
@@ -9,4 +9,7 @@ export { drawPath } from './drawPath'
 export { drawLine } from './drawLine'
 export { drawArrow } from './drawArrow'
 export { drawText } from './drawText'
+export { drawFrame } from './drawFrame'
+export { drawSticky } from './drawSticky'
 export { drawBoundingBox } from './drawBoundingBox'
+export { drawComponentPlaceholder } from './drawComponentPlaceholder'
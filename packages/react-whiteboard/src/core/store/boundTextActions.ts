@@ -1,10 +1,10 @@
 import { nanoid } from 'nanoid'
-import type { Shape, TextShape } from '../../types'
-import { updateShapeFields } from '../../types'
+import type { TextShape } from '../../types'
 import type { StoreApi } from './types'
 import { wrapTextLines } from '../../utils/fonts'
 import {
-  canContainBoundText,
+  isBoundTextContainer,
+  withBoundTextId,
   getBoundTextShape,
   BOUND_TEXT_PADDING,
 } from '../../utils/boundText'
@@ -22,8 +22,7 @@ export function createBoundTextActions(set: StoreApi['set'], get: StoreApi['get'
     createBoundText: (parentId: string): TextShape | null => {
       const state = get()
       const parent = state.shapes.get(parentId)
-      if (!parent || !canContainBoundText(parent.type)) return null
-      if (parent.type !== 'rectangle' && parent.type !== 'ellipse') return null
+      if (!isBoundTextContainer(parent)) return null
 
       // Return existing bound text
       const existing = getBoundTextShape(parent, state.shapes)
@@ -55,11 +54,8 @@ export function createBoundTextActions(set: StoreApi['set'], get: StoreApi['get'
 
         // Update parent's boundTextId
         const currentParent = newShapes.get(parentId)
-        if (currentParent && (currentParent.type === 'rectangle' || currentParent.type === 'ellipse')) {
-          const updatedParent = updateShapeFields(currentParent, {
-            props: { ...currentParent.props, boundTextId: textShape.id },
-          })
-          newShapes.set(parentId, updatedParent)
+        if (isBoundTextContainer(currentParent)) {
+          newShapes.set(parentId, withBoundTextId(currentParent, textShape.id))
         }
 
         return { shapes: newShapes }
@@ -74,8 +70,7 @@ export function createBoundTextActions(set: StoreApi['set'], get: StoreApi['get'
     syncBoundTextToParent: (parentId: string): void => {
       const state = get()
       const parent = state.shapes.get(parentId)
-      if (!parent || !canContainBoundText(parent.type)) return
-      if (parent.type !== 'rectangle' && parent.type !== 'ellipse') return
+      if (!isBoundTextContainer(parent)) return
 
       const textShape = getBoundTextShape(parent, state.shapes)
       if (!textShape) return
@@ -103,8 +98,7 @@ export function createBoundTextActions(set: StoreApi['set'], get: StoreApi['get'
     removeBoundText: (parentId: string, recordHistory = true): void => {
       const state = get()
       const parent = state.shapes.get(parentId)
-      if (!parent || !canContainBoundText(parent.type)) return
-      if (parent.type !== 'rectangle' && parent.type !== 'ellipse') return
+      if (!isBoundTextContainer(parent)) return
 
       const textShape = getBoundTextShape(parent, state.shapes)
       if (!textShape) return
@@ -115,17 +109,13 @@ export function createBoundTextActions(set: StoreApi['set'], get: StoreApi['get'
 
         // Clear parent's boundTextId
         const currentParent = newShapes.get(parentId)
-        if (currentParent && (currentParent.type === 'rectangle' || currentParent.type === 'ellipse')) {
-          const updatedParent = updateShapeFields(currentParent, {
-            props: { ...currentParent.props, boundTextId: null },
-          })
-          newShapes.set(parentId, updatedParent)
+        if (isBoundTextContainer(currentParent)) {
+          newShapes.set(parentId, withBoundTextId(currentParent, null))
         }
 
         const historyUpdate = recordHistory
           ? pushHistory(
-              s.history,
-              s.historyIndex,
+              s,
               createHistoryEntry({ type: 'delete', shapes: [textShape] }),
             )
           : {}
@@ -0,0 +1,129 @@
+import { nanoid } from 'nanoid'
+import type { Checkpoint, HistoryAction, Shape } from '../../types'
+import type { PersistenceAdapter } from '../../persistence'
+import type { StoreApi } from './types'
+import { createHistoryEntry, pushHistory } from './historyHelpers'
+import { diffDocuments, type DocumentDiff } from '../../utils/documentDiff'
+import { documentToStoreData, exportToJSON, parseDocument, serializeDocument } from '../../utils/serialization'
+import type { WhiteboardDocument } from '../../utils/serialization'
+
+type CheckpointAdapter = PersistenceAdapter & Required<
+  Pick<PersistenceAdapter, 'saveCheckpoint' | 'loadCheckpoint' | 'listCheckpoints' | 'deleteCheckpoint'>
+>
+
+function supportsCheckpoints(adapter: PersistenceAdapter | null): adapter is CheckpointAdapter {
+  return !!adapter?.saveCheckpoint && !!adapter.loadCheckpoint && !!adapter.listCheckpoints && !!adapter.deleteCheckpoint
+}
+
+/**
+ * Named checkpoints: full snapshots of the board kept alongside the undo
+ * history. Snapshots go through the persistence adapter when it supports
+ * checkpoints and stay in memory otherwise.
+ */
+export function createCheckpointActions(set: StoreApi['set'], get: StoreApi['get']) {
+  const memorySnapshots = new Map<string, string>()
+
+  const loadSnapshot = async (id: string): Promise<WhiteboardDocument | null> => {
+    const adapter = get().persistenceAdapter
+    const raw = supportsCheckpoints(adapter) ? await adapter.loadCheckpoint(id) : memorySnapshots.get(id)
+    return raw ? parseDocument(raw) : null
+  }
+
+  return {
+    persistenceAdapter: null as PersistenceAdapter | null,
+    checkpoints: [] as Checkpoint[],
+    diffHighlight: null as DocumentDiff | null,
+
+    setPersistenceAdapter: (adapter: PersistenceAdapter | null) => set({ persistenceAdapter: adapter }),
+
+    /** Snapshot the board under `name`. Rejects, without adding the checkpoint, if it couldn't be stored */
+    createCheckpoint: async (name: string): Promise<Checkpoint> => {
+      const { shapes, shapeIds, viewport, persistenceAdapter: adapter } = get()
+      const checkpoint: Checkpoint = { id: nanoid(), name, createdAt: Date.now(), shapeCount: shapes.size }
+      if (supportsCheckpoints(adapter)) {
+        const data = adapter.acceptsBlobUrls
+          ? JSON.stringify(serializeDocument(shapes, shapeIds, viewport))
+          : await exportToJSON(shapes, shapeIds, viewport)
+        await adapter.saveCheckpoint(checkpoint, data)
+      } else {
+        memorySnapshots.set(checkpoint.id, await exportToJSON(shapes, shapeIds, viewport))
+      }
+      set((s) => ({ checkpoints: [...s.checkpoints, checkpoint] }))
+      return checkpoint
+    },
+
+    /** Saved checkpoints, oldest first; refreshes `checkpoints` from the adapter */
+    listCheckpoints: async (): Promise<Checkpoint[]> => {
+      const adapter = get().persistenceAdapter
+      if (!supportsCheckpoints(adapter)) return get().checkpoints
+      const checkpoints = await adapter.listCheckpoints()
+      set({ checkpoints })
+      return checkpoints
+    },
+
+    /**
+     * Replace the board with a checkpoint's shapes as one undo step.
+     * The viewport is kept. Returns false if the checkpoint has no snapshot;
+     * throws if the snapshot is not a valid document.
+     */
+    restoreCheckpoint: async (id: string): Promise<boolean> => {
+      const doc = await loadSnapshot(id)
+      if (!doc) return false
+      const restored = documentToStoreData(doc)
+      const name = get().checkpoints.find((c) => c.id === id)?.name ?? id
+
+      set((s) => {
+        // Top-level shapes in stacking order first, so undo restores the order
+        const topLevel = new Set(s.shapeIds)
+        const removed = [
+          ...s.shapeIds.map((sid) => s.shapes.get(sid)).filter((shape): shape is Shape => !!shape),
+          ...[...s.shapes.values()].filter((shape) => !topLevel.has(shape.id)),
+        ]
+        const added = [...restored.shapes.values()]
+        // Re-creating the shapes stacks them in insertion order
+        const createdIds = added.filter((shape) => !shape.parentId).map((shape) => shape.id)
+        const actions: HistoryAction[] = [
+          { type: 'delete', shapes: removed },
+          { type: 'create', shapes: added },
+        ]
+        if (createdIds.join('\n') !== restored.shapeIds.join('\n')) {
+          actions.push({ type: 'reorder', previousShapeIds: createdIds, newShapeIds: restored.shapeIds })
+        }
+
+        s.spatialIndex.rebuild(restored.shapes)
+        return {
+          shapes: restored.shapes,
+          shapeIds: restored.shapeIds,
+          selectedIds: new Set<string>(),
+          diffHighlight: null,
+          ...pushHistory(s, createHistoryEntry({ type: 'batch', actions }, `Restore "${name}"`)),
+        }
+      })
+      return true
+    },
+
+    deleteCheckpoint: async (id: string): Promise<void> => {
+      const adapter = get().persistenceAdapter
+      if (supportsCheckpoints(adapter)) await adapter.deleteCheckpoint(id)
+      else memorySnapshots.delete(id)
+      set((s) => ({ checkpoints: s.checkpoints.filter((c) => c.id !== id) }))
+    },
+
+    /**
+     * Diff a checkpoint against the current board and highlight the result
+     * on the canvas. Returns null if the checkpoint has no snapshot.
+     */
+    compareCheckpoint: async (id: string): Promise<DocumentDiff | null> => {
+      const doc = await loadSnapshot(id)
+      if (!doc) return null
+      // Serialized like the snapshot, so image sources compare equal
+      const { shapes, shapeIds, viewport } = get()
+      const diff = diffDocuments(doc, parseDocument(await exportToJSON(shapes, shapeIds, viewport)))
+      set({ diffHighlight: diff })
+      return diff
+    },
+
+    /** Highlight a diff on the canvas, or clear the highlight with null */
+    setDiffHighlight: (diff: DocumentDiff | null) => set({ diffHighlight: diff }),
+  }
+}
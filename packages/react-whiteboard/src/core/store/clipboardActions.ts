@@ -2,35 +2,112 @@ import { nanoid } from 'nanoid'
 import type { Shape } from '../../types'
 import { cloneShape } from '../../types'
 import type { StoreApi } from './types'
+import type { WhiteboardStore } from './createStore'
 import { createHistoryEntry, pushHistory } from './historyHelpers'
-import { collectBoundTextIds, getBoundTextIdFromShape } from '../../utils/boundText'
+import { collectBoundTextIds, getBoundTextIdFromShape, isBoundTextContainer, withBoundTextId } from '../../utils/boundText'
+import { collectFrameChildIds } from '../../utils/frames'
+import { detachBoundArrows, remapArrowBindings } from '../../utils/arrowBinding'
+import { writeSystemClipboard } from '../../utils/systemClipboard'
 
 const PASTE_OFFSET = 20
 
+/** Shapes with the frame children and bound text that travel with them */
+function withDependents(ids: Iterable<string>, shapes: Map<string, Shape>): Shape[] {
+  const selected = Array.from(ids)
+  const childIds = collectFrameChildIds(selected, shapes)
+  const allIds = new Set([...selected, ...childIds])
+  for (const btId of collectBoundTextIds(allIds, shapes)) allIds.add(btId)
+  return Array.from(allIds)
+    .map((id) => shapes.get(id))
+    .filter((s): s is Shape => s !== undefined)
+}
+
+/**
+ * Point a copy's references at the other copies: parentId (dropped when the
+ * parent was not copied), bound text, frame children and arrow bindings.
+ */
+function remapReferences(shape: Shape, idMap: Map<string, string>): Shape {
+  let updated: Shape = { ...shape, parentId: shape.parentId ? idMap.get(shape.parentId) ?? null : null }
+  const btId = getBoundTextIdFromShape(shape)
+  if (btId && idMap.has(btId) && isBoundTextContainer(updated)) {
+    updated = withBoundTextId(updated, idMap.get(btId)!)
+  }
+  if (updated.type === 'frame') {
+    const childIds = updated.props.childIds.filter((id) => idMap.has(id)).map((id) => idMap.get(id)!)
+    updated = { ...updated, props: { ...updated.props, childIds } }
+  }
+  return remapArrowBindings(updated, idMap)
+}
+
+/**
+ * Copies of `shapes` with fresh IDs and seeds, moved by (dx, dy). Their
+ * parentId, boundTextId, frame children and arrow bindings point at the
+ * other copies; references to shapes that were not copied are dropped.
+ */
+export function cloneWithFreshIds(shapes: Shape[], dx: number, dy: number): Shape[] {
+  const idMap = new Map<string, string>()
+  const newShapes = shapes.map((s): Shape => {
+    const newId = nanoid()
+    idMap.set(s.id, newId)
+    const cloned = cloneShape(s)
+    return { ...cloned, id: newId, x: s.x + dx, y: s.y + dy, seed: Math.floor(Math.random() * 2 ** 31) }
+  })
+  return newShapes.map((shape) => remapReferences(shape, idMap))
+}
+
+/** Add new shapes as one undo step and select them (children are added but not selected) */
+export function insertAsUndoStep(state: WhiteboardStore, newShapes: Shape[]): Partial<WhiteboardStore> {
+  const newShapeMap = new Map(state.shapes)
+  const newShapeIds = [...state.shapeIds]
+  const selectableIds: string[] = []
+
+  for (const shape of newShapes) {
+    newShapeMap.set(shape.id, shape)
+    // Bound text and frame children have a parentId and stay out of the z-order
+    if (!shape.parentId) {
+      newShapeIds.push(shape.id)
+      selectableIds.push(shape.id)
+    }
+  }
+
+  const historyUpdate = pushHistory(
+    state,
+    createHistoryEntry({ type: 'create', shapes: newShapes }),
+  )
+
+  return {
+    shapes: newShapeMap,
+    shapeIds: newShapeIds,
+    selectedIds: new Set(selectableIds),
+    ...historyUpdate,
+  }
+}
+
 /**
  * Clipboard actions: copy, cut, paste, duplicate.
- * Clipboard is internal (not system clipboard) for shape data.
- * Includes bound text children when copying/cutting container shapes.
+ * The internal clipboard always holds the copied shapes; copy and cut also
+ * put them on the system clipboard (see `writeSystemClipboard`), noting in
+ * `clipboardOnSystem` whether that worked.
+ * Includes frame children and bound text when copying/cutting container shapes.
  */
 export function createClipboardActions(set: StoreApi['set'], get: StoreApi['get']) {
+  /** Put `copied` on the system clipboard too, noting whether it got there */
+  const writeThrough = (copied: Shape[]) => {
+    writeSystemClipboard(copied).then((written) => {
+      if (get().clipboard === copied) set({ clipboardOnSystem: written })
+    })
+  }
+
   return {
     copySelectedShapes: () => {
       const { shapes, selectedIds } = get()
       if (selectedIds.size === 0) return
 
-      const copied = Array.from(selectedIds)
-        .map((id) => shapes.get(id))
-        .filter((s): s is Shape => s !== undefined)
-        .map((s) => cloneShape(s))
-
-      // Include bound text children
-      const boundTextIds = collectBoundTextIds(selectedIds, shapes)
-      for (const btId of boundTextIds) {
-        const bt = shapes.get(btId)
-        if (bt) copied.push(cloneShape(bt))
-      }
+      // Include frame children and bound text
+      const copied = withDependents(selectedIds, shapes).map((s) => cloneShape(s))
 
-      set({ clipboard: copied, clipboardPasteCount: 0 })
+      set({ clipboard: copied, clipboardPasteCount: 0, clipboardOnSystem: false })
+      writeThrough(copied)
     },
 
     cutSelectedShapes: () => {
@@ -38,20 +115,10 @@ export function createClipboardActions(set: StoreApi['set'], get: StoreApi['get'
       const { shapes, selectedIds } = state
       if (selectedIds.size === 0) return
 
-      const ids = Array.from(selectedIds)
-      const shapesToCut = ids
-        .map((id) => shapes.get(id))
-        .filter((s): s is Shape => s !== undefined)
-
+      // Include frame children and bound text
+      const shapesToCut = withDependents(selectedIds, shapes)
       if (shapesToCut.length === 0) return
-
-      // Include bound text children
-      const boundTextIds = collectBoundTextIds(ids, shapes)
-      const allIds = [...ids, ...boundTextIds]
-      for (const btId of boundTextIds) {
-        const bt = shapes.get(btId)
-        if (bt) shapesToCut.push(bt)
-      }
+      const allIds = shapesToCut.map((s) => s.id)
 
       const copied = shapesToCut.map((s) => cloneShape(s))
 
@@ -59,11 +126,15 @@ export function createClipboardActions(set: StoreApi['set'], get: StoreApi['get'
       const newShapes = new Map(shapes)
       const newSelectedIds = new Set<string>()
       allIds.forEach((id) => newShapes.delete(id))
+      const unboundArrows = detachBoundArrows(newShapes, idsSet)
 
       const historyUpdate = pushHistory(
-        state.history,
-        state.historyIndex,
-        createHistoryEntry({ type: 'delete', shapes: shapesToCut }),
+        state,
+        createHistoryEntry({
+          type: 'delete',
+          shapes: shapesToCut,
+          ...(unboundArrows.length > 0 && { unboundArrows }),
+        }),
       )
 
       set({
@@ -72,8 +143,10 @@ export function createClipboardActions(set: StoreApi['set'], get: StoreApi['get'
         selectedIds: newSelectedIds,
         clipboard: copied,
         clipboardPasteCount: 0,
+        clipboardOnSystem: false,
         ...historyUpdate,
       })
+      writeThrough(copied)
     },
 
     pasteShapes: () => {
@@ -84,55 +157,8 @@ export function createClipboardActions(set: StoreApi['set'], get: StoreApi['get'
       const pasteCount = (state.clipboardPasteCount ?? 0) + 1
       const offset = PASTE_OFFSET * pasteCount
 
-      // Create new shapes with fresh IDs and offset positions
-      const idMap = new Map<string, string>()
-      let newShapes = clipboard.map((s): Shape => {
-        const newId = nanoid()
-        idMap.set(s.id, newId)
-        const cloned = cloneShape(s)
-        return { ...cloned, id: newId, x: s.x + offset, y: s.y + offset, seed: Math.floor(Math.random() * 2 ** 31) }
-      })
-
-      // Remap parentId and boundTextId references
-      newShapes = newShapes.map((shape): Shape => {
-        let updated = shape
-        if (shape.parentId && idMap.has(shape.parentId)) {
-          updated = { ...updated, parentId: idMap.get(shape.parentId)! }
-        }
-        const btId = getBoundTextIdFromShape(shape)
-        if (btId && idMap.has(btId) && (shape.type === 'rectangle' || shape.type === 'ellipse')) {
-          updated = { ...shape, parentId: updated.parentId, props: { ...shape.props, boundTextId: idMap.get(btId)! } }
-        }
-        return updated
-      })
-
-      // Separate z-order shapes from bound text (bound text has parentId)
-      const newShapeMap = new Map(state.shapes)
-      const newShapeIds = [...state.shapeIds]
-      const selectableIds: string[] = []
-
-      for (const shape of newShapes) {
-        newShapeMap.set(shape.id, shape)
-        if (!shape.parentId || !idMap.has(shape.parentId)) {
-          // Only add to z-order if not a bound text child
-          newShapeIds.push(shape.id)
-          selectableIds.push(shape.id)
-        }
-      }
-
-      const historyUpdate = pushHistory(
-        state.history,
-        state.historyIndex,
-        createHistoryEntry({ type: 'create', shapes: newShapes }),
-      )
-
-      set({
-        shapes: newShapeMap,
-        shapeIds: newShapeIds,
-        selectedIds: new Set(selectableIds),
-        clipboardPasteCount: pasteCount,
-        ...historyUpdate,
-      })
+      const newShapes = cloneWithFreshIds(clipboard, offset, offset)
+      set({ ...insertAsUndoStep(state, newShapes), clipboardPasteCount: pasteCount })
     },
 
     duplicateSelectedShapes: () => {
@@ -140,64 +166,13 @@ export function createClipboardActions(set: StoreApi['set'], get: StoreApi['get'
       const { shapes, selectedIds } = state
       if (selectedIds.size === 0) return
 
-      const selected = Array.from(selectedIds)
-        .map((id) => shapes.get(id))
-        .filter((s): s is Shape => s !== undefined)
-
+      // Include frame children and bound text
+      const selected = withDependents(selectedIds, shapes)
       if (selected.length === 0) return
 
-      // Include bound text children
-      const boundTextIds = collectBoundTextIds(selectedIds, shapes)
-      for (const btId of boundTextIds) {
-        const bt = shapes.get(btId)
-        if (bt) selected.push(bt)
-      }
-
-      const idMap = new Map<string, string>()
-      let newShapes = selected.map((s): Shape => {
-        const newId = nanoid()
-        idMap.set(s.id, newId)
-        const cloned = cloneShape(s)
-        return { ...cloned, id: newId, x: s.x + PASTE_OFFSET, y: s.y + PASTE_OFFSET, seed: Math.floor(Math.random() * 2 ** 31) }
-      })
-
-      // Remap references
-      newShapes = newShapes.map((shape): Shape => {
-        let updated = shape
-        if (shape.parentId && idMap.has(shape.parentId)) {
-          updated = { ...updated, parentId: idMap.get(shape.parentId)! }
-        }
-        const btId = getBoundTextIdFromShape(shape)
-        if (btId && idMap.has(btId) && (shape.type === 'rectangle' || shape.type === 'ellipse')) {
-          updated = { ...shape, parentId: updated.parentId, props: { ...shape.props, boundTextId: idMap.get(btId)! } }
-        }
-        return updated
-      })
-
-      const newShapeMap = new Map(state.shapes)
-      const newShapeIds = [...state.shapeIds]
-      const selectableIds: string[] = []
-
-      for (const shape of newShapes) {
-        newShapeMap.set(shape.id, shape)
-        if (!shape.parentId || !idMap.has(shape.parentId)) {
-          newShapeIds.push(shape.id)
-          selectableIds.push(shape.id)
-        }
-      }
-
-      const historyUpdate = pushHistory(
-        state.history,
-        state.historyIndex,
-        createHistoryEntry({ type: 'create', shapes: newShapes }),
-      )
-
-      set({
-        shapes: newShapeMap,
-        shapeIds: newShapeIds,
-        selectedIds: new Set(selectableIds),
-        ...historyUpdate,
-      })
+      // Bindings to shapes outside the selection are dropped
+      const newShapes = cloneWithFreshIds(selected, PASTE_OFFSET, PASTE_OFFSET)
+      set(insertAsUndoStep(state, newShapes))
     },
   }
 }
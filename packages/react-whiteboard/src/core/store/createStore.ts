@@ -1,18 +1,33 @@
 import { create } from 'zustand'
 import { subscribeWithSelector } from 'zustand/middleware'
-import type { Shape, ToolType, Viewport, Point, HistoryEntry, TextShapeProps } from '../../types'
+import type {
+  Shape, ToolType, Viewport, Point, HistoryEntry, HistoryOptions, TextShapeProps, PeerPresence, FrameShape,
+  Checkpoint, HistoryBranch, HistoryTreeNode, ImageFilter,
+} from '../../types'
+import type { PersistenceAdapter } from '../../persistence'
+import type { DocumentDiff } from '../../utils/documentDiff'
+import type { ClipboardContent } from '../../utils/systemClipboard'
+import type { ExcalidrawImportWarning } from '../../utils/excalidrawFormat'
 import { cloneShape, updateShapeFields } from '../../types'
 import { createShapeActions } from './shapeActions'
 import { createViewportActions } from './viewportActions'
 import { createHistoryActions } from './historyActions'
+import { DEFAULT_HISTORY_OPTIONS } from './historyHelpers'
 import { createClipboardActions } from './clipboardActions'
+import { createSystemClipboardActions } from './systemClipboardActions'
+import { createFileDropActions } from './fileDropActions'
+import { createImageActions } from './imageActions'
 import { createZOrderActions } from './zOrderActions'
 import { createShapeStyleActions, type ShapeStyleDefaults } from './shapeStyleActions'
 import { createAlignmentActions } from './alignmentActions'
 import { createGroupActions } from './groupActions'
+import { createFrameActions } from './frameActions'
 import { createExportImportActions } from './exportImportActions'
 import { createBoundTextActions } from './boundTextActions'
+import { createPresenceActions } from './presenceActions'
+import { createCheckpointActions } from './checkpointActions'
 import { DEFAULT_TEXT_PROPS } from '../../utils/fonts'
+import { SpatialIndex } from '../../utils/spatialIndex'
 import type { TextShape } from '../../types'
 
 // ============================================================================
@@ -34,6 +49,17 @@ export interface WhiteboardStore {
   isPanning: boolean
   history: HistoryEntry[]
   historyIndex: number
+  /** Caps and merging applied to `history` */
+  historyOptions: HistoryOptions
+  /** The open `transact` call: its label and the index its entries start at */
+  historyTransaction: { label: string; start: number } | null
+  /**
+   * Undo tree nodes by entry ID, when `historyOptions.undoTree` is on.
+   * `history` is then the path from the first entry to the active branch tip.
+   */
+  historyTree: Map<string, HistoryTreeNode>
+  /** Spatial index of `shapes`, kept current by the shape and history actions */
+  spatialIndex: SpatialIndex
 
   // Shape actions
   addShape: (shape: Shape, recordHistory?: boolean) => void
@@ -41,6 +67,7 @@ export interface WhiteboardStore {
   updateShapesBatch: (updates: Map<string, Partial<Shape>>) => void
   deleteShape: (id: string, recordHistory?: boolean) => void
   deleteShapes: (ids: string[], recordHistory?: boolean) => void
+  replaceShapes: (replacements: Map<string, Shape[]>, recordHistory?: boolean) => void
   getShape: (id: string) => Shape | undefined
   clearShapes: (recordHistory?: boolean) => void
 
@@ -57,6 +84,8 @@ export interface WhiteboardStore {
   zoom: (delta: number, center?: Point) => void
   zoomTo: (zoom: number, center?: Point) => void
   animateZoom: (targetZoom: number, center?: Point, duration?: number) => void
+  glide: (velocityX: number, velocityY: number) => void
+  stopGlide: () => void
   resetViewport: () => void
 
   // Tool actions
@@ -66,21 +95,83 @@ export interface WhiteboardStore {
   setIsDrawing: (isDrawing: boolean) => void
   setIsPanning: (isPanning: boolean) => void
 
+  // Component edit mode
+  /** React component shape in edit mode; it leaves edit mode when deselected */
+  editingComponentId: string | null
+  setEditingComponentId: (id: string | null) => void
+
+  // Image editing
+  /** Image in crop mode; it leaves crop mode when deselected */
+  croppingImageId: string | null
+  /** Enter crop mode for an unlocked image (selecting it), or leave it with null */
+  setCroppingImageId: (id: string | null) => void
+  flipSelectedImages: (axis: 'horizontal' | 'vertical') => void
+  /** Merge into the filter of the selected images; the default filter is removed */
+  setSelectedImageFilter: (filter: Partial<ImageFilter>) => void
+  /** Show the whole image again, at the same scale and center */
+  resetImageCrop: (id: string) => void
+  /**
+   * Swap an image's picture for `blob`, keeping its bounds, flips and filter.
+   * The new image is cropped to the bounds' aspect ratio. Resolves false if
+   * the blob can't be decoded.
+   */
+  replaceImage: (id: string, blob: Blob) => Promise<boolean>
+
   // History actions
   undo: () => void
   redo: () => void
   canUndo: () => boolean
   canRedo: () => boolean
   recordBatchUpdate: (before: Shape[], after: Shape[]) => void
+  /** Record every history entry `fn` makes as one undo step */
+  transact: <T>(label: string, fn: () => T) => T
+  setHistoryOptions: (options: Partial<HistoryOptions>) => void
+  listHistoryBranches: () => HistoryBranch[]
+  /** Jump to any entry of the undo tree; null for the state before the first one */
+  goToHistoryEntry: (id: string | null) => boolean
 
   // Clipboard state & actions
   clipboard: Shape[]
   clipboardPasteCount: number
+  /** Whether the last copy or cut reached the system clipboard; pastes use `clipboard` while it hasn't */
+  clipboardOnSystem: boolean
   copySelectedShapes: () => void
   cutSelectedShapes: () => void
   pasteShapes: () => void
   duplicateSelectedShapes: () => void
 
+  // System clipboard actions
+  /**
+   * Add shapes with fresh IDs as one undo step, centered on `at` (canvas
+   * coordinates) when given, and select them. DataURL image sources are
+   * stored as blob URLs. Returns the new top-level IDs.
+   */
+  insertShapes: (shapes: Shape[], at?: Point) => string[]
+  /** Insert pasted content at `at`, or at the pointer; see {@link ClipboardContent} */
+  pasteClipboardContent: (content: ClipboardContent, at?: Point) => Promise<string[]>
+  /**
+   * Paste from the system clipboard (async Clipboard API), for menus and
+   * buttons; the Cmd/Ctrl+V paste event is handled by the canvas. Falls back
+   * to `pasteShapes` when the clipboard can't be read, or when the last copy
+   * didn't reach it.
+   */
+  pasteFromClipboard: (at?: Point) => Promise<string[]>
+
+  // File drop actions
+  /**
+   * Insert dropped files at `at` (canvas coordinates) as one undo step:
+   * images, `.svg`, whiteboard `.json` documents and `.excalidraw` scenes.
+   * Several files are laid out in a grid; files that can't be read or parsed
+   * are skipped and passed to `onError`. What Excalidraw scenes lost in
+   * conversion is passed to `onWarnings`. Returns the new top-level IDs.
+   */
+  dropFiles: (
+    files: File[],
+    at: Point,
+    onError?: (error: Error, file: File) => void,
+    onWarnings?: (warnings: ExcalidrawImportWarning[], file: File) => void,
+  ) => Promise<string[]>
+
   // Z-order actions
   bringToFront: () => void
   sendToBack: () => void
@@ -113,6 +204,10 @@ export interface WhiteboardStore {
   groupSelectedShapes: () => void
   ungroupSelectedShapes: () => void
 
+  // Frame actions
+  addFrame: (frame: FrameShape) => void
+  updateFrameMembership: (ids: string[], before?: Shape[]) => void
+
   // Export/import actions
   loadDocument: (shapes: Map<string, Shape>, shapeIds: string[], viewport: Viewport) => void
 
@@ -120,17 +215,55 @@ export interface WhiteboardStore {
   createBoundText: (parentId: string) => TextShape | null
   syncBoundTextToParent: (parentId: string) => void
   removeBoundText: (parentId: string, recordHistory?: boolean) => void
+
+  // Presence state & actions
+  /** Local pointer position in canvas space, published to peers */
+  cursorPosition: Point | null
+  /** Remote peers, as reported by the presence adapter */
+  peers: PeerPresence[]
+  setCursorPosition: (point: Point | null) => void
+  setPeers: (peers: PeerPresence[]) => void
+
+  // Checkpoint state & actions
+  /** Where checkpoints are saved; set by WhiteboardProvider */
+  persistenceAdapter: PersistenceAdapter | null
+  /** Known checkpoints, oldest first */
+  checkpoints: Checkpoint[]
+  /** Diff drawn over the canvas (see `compareCheckpoint`) */
+  diffHighlight: DocumentDiff | null
+  setPersistenceAdapter: (adapter: PersistenceAdapter | null) => void
+  createCheckpoint: (name: string) => Promise<Checkpoint>
+  listCheckpoints: () => Promise<Checkpoint[]>
+  restoreCheckpoint: (id: string) => Promise<boolean>
+  deleteCheckpoint: (id: string) => Promise<void>
+  compareCheckpoint: (id: string) => Promise<DocumentDiff | null>
+  setDiffHighlight: (diff: DocumentDiff | null) => void
 }
 
 // ============================================================================
 // Store Implementation
 // ============================================================================
 
+/** New selection; a component in edit mode or an image in crop mode leaves it once deselected */
+function withSelection(state: WhiteboardStore, selectedIds: Set<string>): Partial<WhiteboardStore> {
+  const keep = (id: string | null) => (id !== null && selectedIds.has(id) ? id : null)
+  return { selectedIds, editingComponentId: keep(state.editingComponentId), croppingImageId: keep(state.croppingImageId) }
+}
+
+/**
+ * Options for {@link createWhiteboardStore}.
+ * @public
+ */
+export interface WhiteboardStoreOptions {
+  /** Undo history caps and merging (defaults: {@link DEFAULT_HISTORY_OPTIONS}) */
+  history?: Partial<HistoryOptions>
+}
+
 /**
  * Create a new isolated Zustand whiteboard store instance.
  * @internal - Prefer using {@link WhiteboardProvider} which creates and manages the store.
  */
-export const createWhiteboardStore = () =>
+export const createWhiteboardStore = (options: WhiteboardStoreOptions = {}) =>
   create<WhiteboardStore>()(
     subscribeWithSelector((set, get) => ({
       // Initial state
@@ -143,34 +276,46 @@ export const createWhiteboardStore = () =>
       isPanning: false,
       history: [],
       historyIndex: -1,
+      historyOptions: { ...DEFAULT_HISTORY_OPTIONS, ...options.history },
+      historyTransaction: null,
+      historyTree: new Map(),
+      spatialIndex: new SpatialIndex(),
       clipboard: [],
       clipboardPasteCount: 0,
+      clipboardOnSystem: false,
+      editingComponentId: null,
 
       // Delegated actions
       ...createShapeActions(set, get),
       ...createViewportActions(set, get),
       ...createHistoryActions(set, get),
       ...createClipboardActions(set, get),
+      ...createSystemClipboardActions(set, get),
+      ...createFileDropActions(set, get),
+      ...createImageActions(set, get),
       ...createZOrderActions(set, get),
       ...createShapeStyleActions(set, get),
       ...createAlignmentActions(set, get),
       ...createGroupActions(set, get),
+      ...createFrameActions(set, get),
       ...createExportImportActions(set, get),
       ...createBoundTextActions(set, get),
+      ...createPresenceActions(set, get),
+      ...createCheckpointActions(set, get),
 
       // Selection actions (inline — small)
-      select: (id) => set({ selectedIds: new Set([id]) }),
+      select: (id) => set((state) => withSelection(state, new Set([id]))),
 
-      selectMultiple: (ids) => set({ selectedIds: new Set(ids) }),
+      selectMultiple: (ids) => set((state) => withSelection(state, new Set(ids))),
 
       deselect: (id) =>
         set((state) => {
           const newSelectedIds = new Set(state.selectedIds)
           newSelectedIds.delete(id)
-          return { selectedIds: newSelectedIds }
+          return withSelection(state, newSelectedIds)
         }),
 
-      clearSelection: () => set({ selectedIds: new Set<string>() }),
+      clearSelection: () => set({ selectedIds: new Set<string>(), editingComponentId: null, croppingImageId: null }),
 
       toggleSelection: (id) =>
         set((state) => {
@@ -180,16 +325,21 @@ export const createWhiteboardStore = () =>
           } else {
             newSelectedIds.add(id)
           }
-          return { selectedIds: newSelectedIds }
+          return withSelection(state, newSelectedIds)
         }),
 
       // Tool actions
-      setTool: (tool) => set({ currentTool: tool, selectedIds: new Set<string>() }),
+      setTool: (tool) =>
+        set({ currentTool: tool, selectedIds: new Set<string>(), editingComponentId: null, croppingImageId: null }),
 
       // Interaction actions
       setIsDrawing: (isDrawing) => set({ isDrawing }),
       setIsPanning: (isPanning) => set({ isPanning }),
 
+      // Component edit mode (selects the component)
+      setEditingComponentId: (id) =>
+        set(id === null ? { editingComponentId: null } : { editingComponentId: id, croppingImageId: null, selectedIds: new Set([id]) }),
+
       // Text styling defaults
       currentTextProps: { ...DEFAULT_TEXT_PROPS },
       setCurrentTextProps: (props) =>
@@ -13,12 +13,14 @@ export function createExportImportActions(_set: StoreApi['set'], get: StoreApi['
     loadDocument: (shapes: Map<string, Shape>, shapeIds: string[], viewport: Viewport) => {
       const state = get()
       state.clearSelection()
+      state.spatialIndex.rebuild(shapes)
       _set({
         shapes,
         shapeIds,
         viewport,
         history: [],
         historyIndex: -1,
+        historyTree: new Map(),
         selectedIds: new Set<string>(),
       })
     },
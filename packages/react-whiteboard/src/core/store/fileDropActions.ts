@@ -0,0 +1,115 @@
+import type { Point, Shape } from '../../types'
+import type { StoreApi } from './types'
+import { cloneWithFreshIds, insertAsUndoStep } from './clipboardActions'
+import { createImageShape } from './imagePasteActions'
+import { documentToStoreData, parseDocument, type WhiteboardDocument } from '../../utils/serialization'
+import { importExcalidraw } from '../../utils/excalidrawImport'
+import type { ExcalidrawImportWarning } from '../../utils/excalidrawFormat'
+import { importFromSvg } from '../../utils/svgImport'
+import { getShapesBounds, type ShapesBounds } from '../../utils/shapeBounds'
+
+/** Space (canvas units) between files laid out in a grid */
+const DROP_GRID_GAP = 20
+
+function readFileText(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`))
+    reader.readAsText(file)
+  })
+}
+
+/** A document's shapes, top-level ones in z-order, with embedded images as blob URLs */
+function documentShapes(doc: WhiteboardDocument): Shape[] {
+  const { shapes, shapeIds } = documentToStoreData(doc)
+  const topLevel = new Set(shapeIds)
+  return [...shapeIds.map((id) => shapes.get(id)!), ...Array.from(shapes.values()).filter((s) => !topLevel.has(s.id))]
+}
+
+interface DroppedFile {
+  shapes: Shape[]
+  /** What an Excalidraw scene lost in conversion */
+  warnings: ExcalidrawImportWarning[]
+}
+
+/**
+ * Shapes for one dropped file: images, SVG markup, whiteboard documents
+ * (`.json`) and Excalidraw scenes. Empty for other types.
+ */
+async function readDroppedFile(file: File): Promise<DroppedFile> {
+  const name = file.name.toLowerCase()
+  if (file.type === 'image/svg+xml' || name.endsWith('.svg')) return { shapes: importFromSvg(await readFileText(file)), warnings: [] }
+  if (file.type.startsWith('image/')) return { shapes: [await createImageShape(file, { x: 0, y: 0 })], warnings: [] }
+  if (name.endsWith('.excalidraw')) {
+    const { document, warnings } = importExcalidraw(await readFileText(file))
+    return { shapes: documentShapes(document), warnings }
+  }
+  if (name.endsWith('.json') || file.type === 'application/json') {
+    return { shapes: documentShapes(parseDocument(await readFileText(file))), warnings: [] }
+  }
+  return { shapes: [], warnings: [] }
+}
+
+function blockBounds(block: Shape[]): ShapesBounds | null {
+  const shapeMap = new Map(block.map((shape) => [shape.id, shape]))
+  return getShapesBounds(shapeMap, block.filter((s) => !s.parentId || !shapeMap.has(s.parentId)).map((s) => s.id))
+}
+
+/**
+ * Copies of each file's shapes with fresh IDs, arranged in a grid of equal
+ * cells (as square as possible, row by row) centered on `center`
+ */
+function layoutInGrid(blocks: Shape[][], center: Point): Shape[] {
+  const placed = blocks.map((block) => ({ block, bounds: blockBounds(block) }))
+    .filter((item): item is { block: Shape[]; bounds: ShapesBounds } => item.bounds !== null)
+  if (placed.length === 0) return []
+
+  const columns = Math.ceil(Math.sqrt(placed.length))
+  const rows = Math.ceil(placed.length / columns)
+  const cellWidth = Math.max(...placed.map(({ bounds }) => bounds.maxX - bounds.minX))
+  const cellHeight = Math.max(...placed.map(({ bounds }) => bounds.maxY - bounds.minY))
+  const left = center.x - (columns * cellWidth + (columns - 1) * DROP_GRID_GAP) / 2
+  const top = center.y - (rows * cellHeight + (rows - 1) * DROP_GRID_GAP) / 2
+
+  return placed.flatMap(({ block, bounds }, i) => {
+    const cellX = left + (i % columns) * (cellWidth + DROP_GRID_GAP) + cellWidth / 2
+    const cellY = top + Math.floor(i / columns) * (cellHeight + DROP_GRID_GAP) + cellHeight / 2
+    return cloneWithFreshIds(block, cellX - (bounds.minX + bounds.maxX) / 2, cellY - (bounds.minY + bounds.maxY) / 2)
+  })
+}
+
+/**
+ * File drop: dropped images, SVGs, documents and Excalidraw scenes become
+ * shapes at the drop point.
+ */
+export function createFileDropActions(set: StoreApi['set'], get: StoreApi['get']) {
+  return {
+    dropFiles: async (
+      files: File[],
+      at: Point,
+      onError?: (error: Error, file: File) => void,
+      onWarnings?: (warnings: ExcalidrawImportWarning[], file: File) => void,
+    ): Promise<string[]> => {
+      const results = await Promise.allSettled(files.map(readDroppedFile))
+      // Files that can't be read or parsed are skipped
+      results.forEach((result, i) => {
+        if (result.status === 'fulfilled') {
+          if (result.value.warnings.length > 0) onWarnings?.(result.value.warnings, files[i]!)
+          return
+        }
+        const err: unknown = result.reason
+        onError?.(err instanceof Error ? err : new Error(String(err)), files[i]!)
+      })
+      const blocks = results.flatMap((result) =>
+        (result.status === 'fulfilled' && result.value.shapes.length > 0 ? [result.value.shapes] : []))
+      const newShapes = layoutInGrid(blocks, at)
+      if (newShapes.length === 0) return []
+
+      // Leave any tool mid-gesture before the dropped shapes are added
+      get().setTool('select')
+      set(insertAsUndoStep(get(), newShapes))
+      return newShapes.filter((shape) => !shape.parentId).map((shape) => shape.id)
+    },
+  }
+}
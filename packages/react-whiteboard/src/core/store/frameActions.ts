@@ -0,0 +1,83 @@
+import type { FrameShape, HistoryAction, Shape } from '../../types'
+import type { StoreApi } from './types'
+import { createHistoryEntry, pushHistory } from './historyHelpers'
+import { adoptEnclosedShapes, reparentToFrames } from '../../utils/frames'
+
+/**
+ * Frame actions: creating frames and keeping frame membership in sync.
+ *
+ * Frame children keep their parentId pointing to the frame and are listed
+ * in its childIds. Like group children, they are removed from shapeIds.
+ */
+export function createFrameActions(set: StoreApi['set'], get: StoreApi['get']) {
+  return {
+    /**
+     * Add a frame on top of the z-order. Top-level shapes lying entirely
+     * inside it become its children, in the same undo step.
+     */
+    addFrame: (frame: FrameShape) => {
+      const state = get()
+      const withFrame = new Map(state.shapes).set(frame.id, frame)
+      const idsWithFrame = [...state.shapeIds.filter((id) => id !== frame.id), frame.id]
+      const { shapes, shapeIds, changedIds } = adoptEnclosedShapes(frame, withFrame, idsWithFrame)
+      const created = shapes.get(frame.id)!
+
+      let action: HistoryAction = { type: 'create', shapes: [created] }
+      if (changedIds.size > 0) {
+        const childIds = [...changedIds].filter((id) => id !== frame.id)
+        action = {
+          type: 'batch',
+          actions: [
+            {
+              type: 'update',
+              before: childIds.map((id) => state.shapes.get(id)!),
+              after: childIds.map((id) => shapes.get(id)!),
+            },
+            { type: 'reorder', previousShapeIds: state.shapeIds, newShapeIds: shapeIds },
+            action,
+          ],
+        }
+      }
+
+      set({
+        shapes,
+        shapeIds,
+        ...pushHistory(state, createHistoryEntry(action)),
+      })
+    },
+
+    /**
+     * Re-parent shapes to the frame under their center, e.g. after a drag:
+     * shapes dropped into a frame join it, children dragged out leave it.
+     * Pass the shapes' state from before the interaction as `before` to record
+     * the interaction and the membership change as a single undo step.
+     */
+    updateFrameMembership: (ids: string[], before: Shape[] = []) => {
+      const state = get()
+      const { shapes, shapeIds, changedIds } = reparentToFrames(state.shapes, state.shapeIds, ids)
+
+      const beforeById = new Map(before.map((shape) => [shape.id, shape]))
+      for (const id of changedIds) {
+        if (!beforeById.has(id)) beforeById.set(id, state.shapes.get(id)!)
+      }
+      if (beforeById.size === 0) return
+
+      const after = [...beforeById.keys()]
+        .map((id) => shapes.get(id))
+        .filter((s): s is Shape => s !== undefined)
+      const update: HistoryAction = { type: 'update', before: [...beforeById.values()], after }
+      const action: HistoryAction = shapeIds === state.shapeIds
+        ? update
+        : {
+            type: 'batch',
+            actions: [update, { type: 'reorder', previousShapeIds: state.shapeIds, newShapeIds: shapeIds }],
+          }
+
+      set({
+        shapes,
+        shapeIds,
+        ...pushHistory(state, createHistoryEntry(action)),
+      })
+    },
+  }
+}
@@ -1,27 +1,34 @@
-import type { HistoryAction, Shape } from '../../types'
+import type { ArrowShape, HistoryAction, HistoryBranch, HistoryOptions, Shape } from '../../types'
 import type { WhiteboardStore } from './createStore'
 import type { StoreApi } from './types'
-import { createHistoryEntry, pushHistory } from './historyHelpers'
+import { combineHistoryEntries, createHistoryEntry, pushHistory, trimHistory } from './historyHelpers'
+import {
+  addHistoryNode, buildHistoryTree, extendToNewestLeaf, getHistoryPath, listHistoryBranches, trimHistoryTree,
+} from './historyTree'
+import { detachBoundArrows, syncBoundArrows } from '../../utils/arrowBinding'
+import { applyShapePatch } from '../../utils/shapeDiff'
 
 /**
  * Removes shapes from state, cleaning up shapeIds and selectedIds.
+ * Arrows bound to removed shapes lose their binding.
  * Used by undo-create and redo-delete.
  */
 function removeShapes(
   s: WhiteboardStore,
   shapes: Shape[],
-  indexDelta: number,
+  changed: Set<string>,
 ): Partial<WhiteboardStore> {
   const newShapes = new Map(s.shapes)
   const idsToDelete = new Set(shapes.map((shape) => shape.id))
   shapes.forEach((shape) => newShapes.delete(shape.id))
+  const arrows = detachBoundArrows(newShapes, idsToDelete)
+  for (const shape of [...shapes, ...arrows]) changed.add(shape.id)
   const newSelectedIds = new Set(s.selectedIds)
   idsToDelete.forEach((id) => newSelectedIds.delete(id))
   return {
     shapes: newShapes,
     shapeIds: s.shapeIds.filter((sid) => !idsToDelete.has(sid)),
     selectedIds: newSelectedIds,
-    historyIndex: s.historyIndex + indexDelta,
   }
 }
 
@@ -64,12 +71,14 @@ export function sortParentFirst(shapes: Shape[], existingShapes: Map<string, Sha
 /**
  * Adds shapes to state, respecting parentId for bound text children.
  * Sorts parents before children and skips orphaned bound text.
+ * Restores arrows unbound by the original delete, then re-attaches them.
  * Used by undo-delete and redo-create.
  */
 function addShapes(
   s: WhiteboardStore,
   shapes: Shape[],
-  indexDelta: number,
+  changed: Set<string>,
+  unboundArrows: ArrowShape[] = [],
 ): Partial<WhiteboardStore> {
   const sorted = sortParentFirst(shapes, s.shapes)
   const newShapes = new Map(s.shapes)
@@ -81,10 +90,66 @@ function addShapes(
       newShapeIds.push(shape.id)
     }
   })
+  unboundArrows.forEach((arrow) => {
+    if (newShapes.has(arrow.id)) newShapes.set(arrow.id, arrow)
+  })
+  const arrows = syncBoundArrows(newShapes, sorted.map((shape) => shape.id))
+  for (const shape of [...sorted, ...unboundArrows, ...arrows]) changed.add(shape.id)
   return {
     shapes: newShapes,
     shapeIds: newShapeIds,
-    historyIndex: s.historyIndex + indexDelta,
+  }
+}
+
+/**
+ * Computes the state changes for a history action in the given direction.
+ * For undo, create→remove and delete→add; for redo, the reverse.
+ * Adds the IDs of the shapes it touches to `changed`.
+ */
+function applyAction(
+  s: WhiteboardStore,
+  action: HistoryAction,
+  isReverse: boolean,
+  changed: Set<string>,
+): Partial<WhiteboardStore> {
+  switch (action.type) {
+    case 'create':
+      return isReverse
+        ? removeShapes(s, action.shapes, changed)
+        : addShapes(s, action.shapes, changed)
+    case 'delete':
+      return isReverse
+        ? addShapes(s, action.shapes, changed, action.unboundArrows)
+        : removeShapes(s, action.shapes, changed)
+    case 'update': {
+      const patches = isReverse ? action.before : action.after
+      const newShapes = new Map(s.shapes)
+      const ids: string[] = []
+      for (const patch of patches) {
+        const shape = newShapes.get(patch.id)
+        if (!shape) continue
+        newShapes.set(patch.id, applyShapePatch(shape, patch))
+        ids.push(patch.id)
+      }
+      const arrows = syncBoundArrows(newShapes, ids)
+      for (const id of [...ids, ...arrows.map((arrow) => arrow.id)]) changed.add(id)
+      return { shapes: newShapes }
+    }
+    case 'reorder':
+      return { shapeIds: isReverse ? action.previousShapeIds : action.newShapeIds }
+    case 'batch': {
+      // Fold sub-actions over a working state; undo walks them backwards
+      const actions = isReverse ? [...action.actions].reverse() : action.actions
+      let current = s
+      for (const sub of actions) {
+        current = { ...current, ...applyAction(current, sub, isReverse, changed) }
+      }
+      return {
+        shapes: current.shapes,
+        shapeIds: current.shapeIds,
+        selectedIds: current.selectedIds,
+      }
+    }
   }
 }
 
@@ -98,35 +163,18 @@ function applyHistoryEntry(
   set: StoreApi['set'],
 ): void {
   const indexDelta = direction === 'undo' ? -1 : 1
-  // For undo, create→remove and delete→add; for redo, the reverse
-  const isReverse = direction === 'undo'
-
-  if (action.type === 'create') {
-    set((s) =>
-      isReverse
-        ? removeShapes(s, action.shapes, indexDelta)
-        : addShapes(s, action.shapes, indexDelta),
-    )
-  } else if (action.type === 'delete') {
-    set((s) =>
-      isReverse
-        ? addShapes(s, action.shapes, indexDelta)
-        : removeShapes(s, action.shapes, indexDelta),
-    )
-  } else if (action.type === 'update') {
-    const shapes = isReverse ? action.before : action.after
-    set((s) => {
-      const newShapes = new Map(s.shapes)
-      shapes.forEach((shape) => newShapes.set(shape.id, shape))
-      return { shapes: newShapes, historyIndex: s.historyIndex + indexDelta }
-    })
-  } else if (action.type === 'reorder') {
-    const shapeIds = isReverse ? action.previousShapeIds : action.newShapeIds
-    set((s) => ({ shapeIds, historyIndex: s.historyIndex + indexDelta }))
-  }
+  set((s) => {
+    const changed = new Set<string>()
+    const update = applyAction(s, action, direction === 'undo', changed)
+    if (update.shapes) s.spatialIndex.applyChanges(s.shapes, update.shapes, changed)
+    return { ...update, historyIndex: s.historyIndex + indexDelta }
+  })
 }
 
 export function createHistoryActions(set: StoreApi['set'], get: StoreApi['get']) {
+  // Nested transact calls join the outermost one
+  let transactionDepth = 0
+
   return {
     undo: () => {
       const state = get()
@@ -152,8 +200,91 @@ export function createHistoryActions(set: StoreApi['set'], get: StoreApi['get'])
 
       set((state) => {
         const entry = createHistoryEntry({ type: 'update', before, after })
-        return pushHistory(state.history, state.historyIndex, entry)
+        return pushHistory(state, entry)
+      })
+    },
+
+    /**
+     * Run `fn` and record every history entry it makes as one undo step,
+     * labelled `label`. Returns what `fn` returns.
+     */
+    transact: <T>(label: string, fn: () => T): T => {
+      if (transactionDepth > 0) return fn()
+
+      transactionDepth++
+      set((s) => ({ historyTransaction: { label, start: s.historyIndex + 1 } }))
+      try {
+        return fn()
+      } finally {
+        transactionDepth--
+        set((s) => {
+          const start = s.historyTransaction?.start ?? s.historyIndex + 1
+          const entries = s.history.slice(start, s.historyIndex + 1)
+          if (entries.length === 0) return { historyTransaction: null }
+          const combined = combineHistoryEntries(entries, label)
+          const history = [...s.history.slice(0, start), combined]
+          if (!s.historyOptions.undoTree) {
+            return { historyTransaction: null, ...trimHistory(history, history.length - 1, s.historyOptions) }
+          }
+          const tree = new Map(s.historyTree)
+          addHistoryNode(tree, combined, history[start - 1]?.id ?? null)
+          return { historyTransaction: null, ...trimHistoryTree(tree, history, history.length - 1, s.historyOptions) }
+        })
+      }
+    },
+
+    setHistoryOptions: (options: Partial<HistoryOptions>) => {
+      set((s) => {
+        const historyOptions = { ...s.historyOptions, ...options }
+        if (!historyOptions.undoTree) {
+          return { historyOptions, historyTree: new Map(), ...trimHistory(s.history, s.historyIndex, historyOptions) }
+        }
+        // Turning the tree on starts it from the current history
+        const tree = s.historyOptions.undoTree ? s.historyTree : buildHistoryTree(s.history)
+        return { historyOptions, ...trimHistoryTree(tree, s.history, s.historyIndex, historyOptions) }
+      })
+    },
+
+    /** Every branch of the undo tree; empty unless `undoTree` is on */
+    listHistoryBranches: (): HistoryBranch[] => listHistoryBranches(get().historyTree, get().history),
+
+    /**
+     * Move to any entry of the undo tree (null: before the first one) by
+     * undoing up to the common ancestor, then redoing down to the entry.
+     * Returns false unless `undoTree` is on, inside a transaction, or when
+     * the entry is unknown.
+     */
+    goToHistoryEntry: (id: string | null): boolean => {
+      const state = get()
+      if (!state.historyOptions.undoTree || state.historyTransaction) return false
+      if (id !== null && !state.historyTree.has(id)) return false
+
+      const current = state.history.slice(0, state.historyIndex + 1)
+      const target = getHistoryPath(state.historyTree, id)
+      let common = 0
+      while (common < current.length && current[common]!.id === target[common]?.id) common++
+
+      set((s) => {
+        const changed = new Set<string>()
+        let next = s
+        for (const entry of current.slice(common).reverse()) {
+          next = { ...next, ...applyAction(next, entry.action, true, changed) }
+        }
+        for (const entry of target.slice(common)) {
+          next = { ...next, ...applyAction(next, entry.action, false, changed) }
+        }
+        s.spatialIndex.applyChanges(s.shapes, next.shapes, changed)
+        // Redo keeps following the active branch when the entry is on it
+        const onActiveBranch = id === null || s.history.some((entry) => entry.id === id)
+        return {
+          shapes: next.shapes,
+          shapeIds: next.shapeIds,
+          selectedIds: next.selectedIds,
+          history: onActiveBranch ? s.history : extendToNewestLeaf(s.historyTree, target),
+          historyIndex: target.length - 1,
+        }
       })
+      return true
     },
   }
 }
@@ -1,25 +1,165 @@
 import { nanoid } from 'nanoid'
-import type { HistoryAction, HistoryEntry } from '../../types'
+import type { HistoryAction, HistoryEntry, HistoryOptions } from '../../types'
+import { diffShapes, mergeShapePatches } from '../../utils/shapeDiff'
+import type { WhiteboardStore } from './createStore'
+import { addHistoryNode, replaceHistoryNode, trimHistoryTree, type HistoryTree } from './historyTree'
 
+/** Default entry cap */
 export const MAX_HISTORY = 100
 
-export function createHistoryEntry(action: HistoryAction): HistoryEntry {
+/** @public */
+export const DEFAULT_HISTORY_OPTIONS: HistoryOptions = {
+  maxEntries: MAX_HISTORY,
+  maxBytes: 32 * 1024 * 1024,
+  mergeWindow: 0,
+  undoTree: false,
+}
+
+/** Store fields that recording history reads */
+type HistoryState = Pick<
+  WhiteboardStore,
+  'history' | 'historyIndex' | 'historyOptions' | 'historyTransaction' | 'historyTree'
+>
+
+/**
+ * Rough byte size of a value: 8 per number, 2 per string character, plus
+ * some overhead per object. Only meant for comparing against a budget.
+ */
+export function estimateSize(value: unknown): number {
+  switch (typeof value) {
+    case 'number':
+      return 8
+    case 'boolean':
+      return 4
+    case 'string':
+      return 16 + value.length * 2
+    case 'object': {
+      if (value === null) return 0
+      if (Array.isArray(value)) {
+        let size = 16
+        for (const item of value) size += estimateSize(item)
+        return size
+      }
+      let size = 32
+      for (const [key, item] of Object.entries(value)) size += key.length * 2 + estimateSize(item)
+      return size
+    }
+    default:
+      return 0
+  }
+}
+
+/** Keep only the changed fields of update actions, in batches too */
+function compactAction(action: HistoryAction): HistoryAction {
+  switch (action.type) {
+    case 'update':
+      return { type: 'update', ...diffShapes(action.before, action.after) }
+    case 'batch':
+      return { type: 'batch', actions: action.actions.map(compactAction) }
+    default:
+      return action
+  }
+}
+
+export function createHistoryEntry(action: HistoryAction, label?: string): HistoryEntry {
+  const compact = compactAction(action)
   return {
     id: nanoid(),
     timestamp: Date.now(),
+    action: compact,
+    ...(label !== undefined && { label }),
+    size: estimateSize(compact),
+  }
+}
+
+/** One entry holding several, applied in order as a single step */
+export function combineHistoryEntries(entries: HistoryEntry[], label: string): HistoryEntry {
+  const action: HistoryAction = entries.length === 1
+    ? entries[0]!.action
+    : { type: 'batch', actions: entries.map((entry) => entry.action) }
+  return {
+    id: nanoid(),
+    timestamp: entries[entries.length - 1]!.timestamp,
     action,
+    label,
+    size: entries.reduce((sum, entry) => sum + entry.size, 0),
   }
 }
 
-export function pushHistory(
+function shapeIdsKey(action: HistoryAction): string | null {
+  return action.type === 'update' ? action.before.map((patch) => patch.id).sort().join('\n') : null
+}
+
+/**
+ * `next` folded into `prev` when both update the same shapes within the
+ * merge window; null when they should stay separate steps.
+ */
+function mergeUpdates(prev: HistoryEntry, next: HistoryEntry, mergeWindow: number): HistoryEntry | null {
+  if (next.timestamp - prev.timestamp > mergeWindow || prev.label !== undefined) return null
+  const key = shapeIdsKey(prev.action)
+  if (key === null || key !== shapeIdsKey(next.action)) return null
+  if (prev.action.type !== 'update' || next.action.type !== 'update') return null
+
+  // Before comes from the first step, after from the last
+  const prevBefore = new Map(prev.action.before.map((patch) => [patch.id, patch]))
+  const nextAfter = new Map(next.action.after.map((patch) => [patch.id, patch]))
+  const before = next.action.before.map((patch) => mergeShapePatches(patch, prevBefore.get(patch.id)!))
+  const after = prev.action.after.map((patch) => mergeShapePatches(patch, nextAfter.get(patch.id)!))
+  const action: HistoryAction = { type: 'update', ...diffShapes(before, after) }
+  return { ...next, action, size: estimateSize(action) }
+}
+
+/**
+ * Drop the oldest entries beyond the configured count and memory caps.
+ * Entries from the current one on are always kept.
+ */
+export function trimHistory(
   history: HistoryEntry[],
   historyIndex: number,
-  entry: HistoryEntry
+  options: HistoryOptions,
 ): { history: HistoryEntry[]; historyIndex: number } {
-  const newHistory = history.slice(0, historyIndex + 1)
-  newHistory.push(entry)
-  if (newHistory.length > MAX_HISTORY) {
-    newHistory.shift()
+  let bytes = history.reduce((sum, entry) => sum + entry.size, 0)
+  let start = 0
+  while (start < historyIndex && (history.length - start > options.maxEntries || bytes > options.maxBytes)) {
+    bytes -= history[start]!.size
+    start++
+  }
+  if (start === 0) return { history, historyIndex }
+  return { history: history.slice(start), historyIndex: historyIndex - start }
+}
+
+/**
+ * Record an entry after the current one, dropping any redo steps (in
+ * undo-tree mode they stay in the tree as a branch). Merges rapid updates to
+ * the same shapes and applies the caps, except inside a transaction, which
+ * combines its entries when it ends.
+ */
+export function pushHistory(
+  state: HistoryState,
+  entry: HistoryEntry,
+): { history: HistoryEntry[]; historyIndex: number; historyTree?: HistoryTree } {
+  const newHistory = state.history.slice(0, state.historyIndex + 1)
+  if (state.historyTransaction) {
+    newHistory.push(entry)
+    return { history: newHistory, historyIndex: newHistory.length - 1 }
+  }
+
+  const tree = state.historyOptions.undoTree ? new Map(state.historyTree) : null
+  const top = newHistory[newHistory.length - 1]
+  // In the tree, entries with branches below them keep their ID, so they don't merge
+  const canMerge = top !== undefined
+    && state.historyIndex === state.history.length - 1
+    && state.historyOptions.mergeWindow > 0
+    && !tree?.get(top.id)?.childIds.length
+  const merged = canMerge ? mergeUpdates(top, entry, state.historyOptions.mergeWindow) : null
+  if (merged) {
+    newHistory[newHistory.length - 1] = merged
+    if (tree) replaceHistoryNode(tree, top!.id, merged)
+  } else {
+    newHistory.push(entry)
+    if (tree) addHistoryNode(tree, entry, top?.id ?? null)
   }
-  return { history: newHistory, historyIndex: newHistory.length - 1 }
+  return tree
+    ? trimHistoryTree(tree, newHistory, newHistory.length - 1, state.historyOptions)
+    : trimHistory(newHistory, newHistory.length - 1, state.historyOptions)
 }
@@ -0,0 +1,112 @@
+import type { HistoryBranch, HistoryEntry, HistoryOptions, HistoryTreeNode } from '../../types'
+
+/** Undo tree nodes keyed by entry ID */
+export type HistoryTree = Map<string, HistoryTreeNode>
+
+function rootIds(tree: HistoryTree): string[] {
+  const ids: string[] = []
+  for (const node of tree.values()) if (node.parentId === null) ids.push(node.entry.id)
+  return ids
+}
+
+/** Add `entry` as the newest child of `parentId` (mutates `tree`) */
+export function addHistoryNode(tree: HistoryTree, entry: HistoryEntry, parentId: string | null): void {
+  tree.set(entry.id, { entry, parentId, childIds: [] })
+  const parent = parentId === null ? undefined : tree.get(parentId)
+  if (parent) tree.set(parentId!, { ...parent, childIds: [...parent.childIds, entry.id] })
+}
+
+/** Put `entry` in the place of the node `id`, e.g. after merging (mutates `tree`) */
+export function replaceHistoryNode(tree: HistoryTree, id: string, entry: HistoryEntry): void {
+  const node = tree.get(id)
+  if (!node) return
+  tree.delete(id)
+  tree.set(entry.id, { ...node, entry })
+  const parent = node.parentId === null ? undefined : tree.get(node.parentId)
+  if (parent) {
+    const childIds = parent.childIds.map((childId) => (childId === id ? entry.id : childId))
+    tree.set(node.parentId!, { ...parent, childIds })
+  }
+  for (const childId of node.childIds) {
+    tree.set(childId, { ...tree.get(childId)!, parentId: entry.id })
+  }
+}
+
+/** A tree holding `history` as its only branch */
+export function buildHistoryTree(history: HistoryEntry[]): HistoryTree {
+  const tree: HistoryTree = new Map()
+  history.forEach((entry, i) => addHistoryNode(tree, entry, history[i - 1]?.id ?? null))
+  return tree
+}
+
+/** Entries from the first one down to `id`; empty for null or unknown IDs */
+export function getHistoryPath(tree: HistoryTree, id: string | null): HistoryEntry[] {
+  const path: HistoryEntry[] = []
+  let node = id === null ? undefined : tree.get(id)
+  while (node) {
+    path.push(node.entry)
+    node = node.parentId === null ? undefined : tree.get(node.parentId)
+  }
+  return path.reverse()
+}
+
+/** `path` continued through the newest child at each step, down to a leaf */
+export function extendToNewestLeaf(tree: HistoryTree, path: HistoryEntry[]): HistoryEntry[] {
+  const result = [...path]
+  const last = path[path.length - 1]
+  let childIds = last ? tree.get(last.id)?.childIds ?? [] : rootIds(tree)
+  while (childIds.length > 0) {
+    const node = tree.get(childIds[childIds.length - 1]!)!
+    result.push(node.entry)
+    childIds = node.childIds
+  }
+  return result
+}
+
+/** One branch per leaf, in the order the leaves were recorded */
+export function listHistoryBranches(tree: HistoryTree, history: HistoryEntry[]): HistoryBranch[] {
+  const tip = history[history.length - 1]?.id
+  const branches: HistoryBranch[] = []
+  for (const node of tree.values()) {
+    if (node.childIds.length > 0) continue
+    branches.push({ entries: getHistoryPath(tree, node.entry.id), isActive: node.entry.id === tip })
+  }
+  return branches
+}
+
+/** Delete a node and everything below it, returning the bytes freed (mutates `tree`) */
+function removeSubtree(tree: HistoryTree, id: string): number {
+  const node = tree.get(id)
+  if (!node) return 0
+  tree.delete(id)
+  return node.childIds.reduce((sum, childId) => sum + removeSubtree(tree, childId), node.entry.size)
+}
+
+/**
+ * Tree counterpart of `trimHistory`: while over the caps, drop the first
+ * entry of `history`. Branches that start before it can no longer be
+ * reached, so they go too. Entries from the current one on are always kept.
+ */
+export function trimHistoryTree(
+  tree: HistoryTree,
+  history: HistoryEntry[],
+  historyIndex: number,
+  options: HistoryOptions,
+): { history: HistoryEntry[]; historyIndex: number; historyTree: HistoryTree } {
+  let result = tree
+  let bytes = 0
+  for (const node of tree.values()) bytes += node.entry.size
+  let start = 0
+  while (start < historyIndex && (result.size > options.maxEntries || bytes > options.maxBytes)) {
+    if (result === tree) result = new Map(tree)
+    const first = history[start]!.id
+    const next = history[start + 1]!.id
+    for (const id of rootIds(result)) if (id !== first) bytes -= removeSubtree(result, id)
+    for (const id of result.get(first)!.childIds) if (id !== next) bytes -= removeSubtree(result, id)
+    bytes -= result.get(first)!.entry.size
+    result.delete(first)
+    result.set(next, { ...result.get(next)!, parentId: null })
+    start++
+  }
+  return { history: history.slice(start), historyIndex: historyIndex - start, historyTree: result }
+}
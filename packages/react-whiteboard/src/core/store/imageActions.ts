@@ -0,0 +1,92 @@
+import type { ImageFilter, ImageShape, Shape } from '../../types'
+import { cloneShape } from '../../types'
+import type { StoreApi } from './types'
+import type { WhiteboardStore } from './createStore'
+import { loadImageBlob } from './imagePasteActions'
+import { coverCrop, DEFAULT_IMAGE_FILTER } from '../../utils/imageEditing'
+
+/** Unlocked selected images */
+function selectedImages(state: WhiteboardStore): ImageShape[] {
+  return Array.from(state.selectedIds)
+    .map((id) => state.shapes.get(id))
+    .filter((shape): shape is ImageShape => shape?.type === 'image' && !shape.isLocked)
+}
+
+/** Apply `edit` to each image's props as one undo step */
+function editImages(
+  state: WhiteboardStore,
+  images: ImageShape[],
+  edit: (image: ImageShape) => ImageShape['props'],
+): void {
+  const before: Shape[] = []
+  const after: Shape[] = []
+  for (const image of images) {
+    before.push(cloneShape(image))
+    const props = edit(image)
+    state.updateShape(image.id, { props }, false)
+    after.push({ ...image, props })
+  }
+  if (before.length > 0) state.recordBatchUpdate(before, after)
+}
+
+/**
+ * Image editing: crop mode, flips, filters and replacing the image.
+ */
+export function createImageActions(set: StoreApi['set'], get: StoreApi['get']) {
+  return {
+    croppingImageId: null as string | null,
+
+    setCroppingImageId: (id: string | null) => {
+      const shape = id === null ? undefined : get().shapes.get(id)
+      if (shape?.type === 'image' && !shape.isLocked) {
+        set({ croppingImageId: shape.id, editingComponentId: null, selectedIds: new Set([shape.id]) })
+      } else {
+        set({ croppingImageId: null })
+      }
+    },
+
+    flipSelectedImages: (axis: 'horizontal' | 'vertical') => {
+      const key = axis === 'horizontal' ? 'flipX' : 'flipY'
+      editImages(get(), selectedImages(get()), (image) => ({ ...image.props, [key]: !image.props[key] }))
+    },
+
+    setSelectedImageFilter: (filter: Partial<ImageFilter>) => {
+      editImages(get(), selectedImages(get()), (image) => {
+        const next = { ...DEFAULT_IMAGE_FILTER, ...image.props.filter, ...filter }
+        const isDefault = next.brightness === DEFAULT_IMAGE_FILTER.brightness && next.grayscale === DEFAULT_IMAGE_FILTER.grayscale
+        const { filter: _previous, ...props } = image.props
+        return isDefault ? props : { ...props, filter: next }
+      })
+    },
+
+    resetImageCrop: (id: string) => {
+      const image = get().shapes.get(id)
+      if (image?.type !== 'image' || image.isLocked || !image.props.crop) return
+      const { crop, ...props } = image.props
+      // Keep the scale and center; the shape grows to the whole image
+      const width = (image.width / crop.width) * props.naturalWidth
+      const height = (image.height / crop.height) * props.naturalHeight
+      const updated: ImageShape = {
+        ...image,
+        x: image.x + (image.width - width) / 2,
+        y: image.y + (image.height - height) / 2,
+        width,
+        height,
+        props,
+      }
+      get().updateShape(id, updated)
+    },
+
+    replaceImage: async (id: string, blob: Blob): Promise<boolean> => {
+      const loaded = await loadImageBlob(blob).catch(() => null)
+      const image = get().shapes.get(id)
+      if (!loaded || image?.type !== 'image' || image.isLocked) return false
+      // Same bounds, flips and filter; the new image is cropped to fit without stretching
+      const { crop: _previous, ...props } = image.props
+      const crop = coverCrop(loaded.naturalWidth, loaded.naturalHeight, image.width / image.height)
+      const fits = crop.width === loaded.naturalWidth && crop.height === loaded.naturalHeight
+      editImages(get(), [image], () => (fits ? { ...props, ...loaded } : { ...props, ...loaded, crop }))
+      return true
+    },
+  }
+}
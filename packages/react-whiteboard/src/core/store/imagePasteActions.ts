@@ -1,78 +1,57 @@
 import { nanoid } from 'nanoid'
-import type { ImageShape, Viewport } from '../../types'
-import type { WhiteboardStore } from './createStore'
-import { storeBlobAsUrl } from '../../utils/imageBlobStore'
+import type { ImageShape, Point } from '../../types'
+import { assetStore } from '../../assets/AssetStore'
+
+/** Longer side (canvas units) of a pasted image; larger images are scaled down */
+const MAX_IMAGE_SIZE = 400
 
 /**
- * Handle pasting images from the clipboard.
- * Stores the image blob via ObjectURL (not base64) for efficient memory usage.
- * Returns true if an image was found and handled.
+ * Store an image blob and read its natural size. Stores the blob via
+ * ObjectURL (not base64) for efficient memory usage; the same image pasted
+ * twice is stored once. Rejects if the blob is not an image the browser can
+ * decode.
  */
-export function handleImagePaste(
-  event: ClipboardEvent,
-  store: WhiteboardStore,
-  viewport: Viewport,
-  canvasWidth: number,
-  canvasHeight: number,
-): boolean {
-  const items = event.clipboardData?.items
-  if (!items) return false
-
-  for (const item of Array.from(items)) {
-    if (!item.type.startsWith('image/')) continue
-
-    const blob = item.getAsFile()
-    if (!blob) continue
-
-    // Store blob and get a short ObjectURL (~50 chars) instead of multi-MB base64
-    const blobUrl = storeBlobAsUrl(blob)
+export async function loadImageBlob(blob: Blob): Promise<Pick<ImageShape['props'], 'src' | 'naturalWidth' | 'naturalHeight'>> {
+  // Store blob and get a short ObjectURL (~50 chars) instead of multi-MB base64
+  const blobUrl = await assetStore.add(blob)
 
+  return new Promise((resolve, reject) => {
     const img = new Image()
-    img.onload = () => {
-      // Calculate center of current viewport in canvas coordinates
-      const centerX = (canvasWidth / 2 - viewport.x) / viewport.zoom
-      const centerY = (canvasHeight / 2 - viewport.y) / viewport.zoom
-
-      // Scale image to fit reasonably on canvas (max 400px)
-      const maxSize = 400
-      let w = img.naturalWidth
-      let h = img.naturalHeight
-      if (w > maxSize || h > maxSize) {
-        const scale = maxSize / Math.max(w, h)
-        w = Math.round(w * scale)
-        h = Math.round(h * scale)
-      }
-
-      const shape: ImageShape = {
-        id: nanoid(),
-        type: 'image',
-        x: centerX - w / 2,
-        y: centerY - h / 2,
-        width: w,
-        height: h,
-        rotation: 0,
-        opacity: 1,
-        isLocked: false,
-        parentId: null,
-        seed: 0,
-        roughness: 0,
-        props: {
-          src: blobUrl,
-          naturalWidth: img.naturalWidth,
-          naturalHeight: img.naturalHeight,
-        },
-      }
-
-      // Switch to select tool before adding shape.
-      // If the user is mid-drag, this ensures isDragging is reset so
-      // scheduleStaticRender doesn't skip the static canvas render.
-      store.setTool('select')
-      store.addShape(shape, true)
-      store.select(shape.id)
-    }
+    img.onload = () => resolve({ src: blobUrl, naturalWidth: img.naturalWidth, naturalHeight: img.naturalHeight })
+    img.onerror = () => reject(new Error('Could not load the image'))
     img.src = blobUrl
-    return true
+  })
+}
+
+/**
+ * Build an image shape for a pasted image, centered on `center`.
+ * Rejects if the blob is not an image the browser can decode.
+ */
+export async function createImageShape(blob: Blob, center: Point): Promise<ImageShape> {
+  const props = await loadImageBlob(blob)
+
+  // Scale image to fit reasonably on canvas
+  let w = props.naturalWidth
+  let h = props.naturalHeight
+  if (w > MAX_IMAGE_SIZE || h > MAX_IMAGE_SIZE) {
+    const scale = MAX_IMAGE_SIZE / Math.max(w, h)
+    w = Math.round(w * scale)
+    h = Math.round(h * scale)
   }
 
-  return false
+  return {
+    id: nanoid(),
+    type: 'image',
+    x: center.x - w / 2,
+    y: center.y - h / 2,
+    width: w,
+    height: h,
+    rotation: 0,
+    opacity: 1,
+    isLocked: false,
+    parentId: null,
+    seed: 0,
+    roughness: 0,
+    props,
+  }
 }
@@ -1,5 +1,6 @@
 export { createWhiteboardStore } from './createStore'
-export type { WhiteboardStore } from './createStore'
+export type { WhiteboardStore, WhiteboardStoreOptions } from './createStore'
+export { DEFAULT_HISTORY_OPTIONS } from './historyHelpers'
 export { MIN_ZOOM, MAX_ZOOM } from './viewportActions'
 export { DEFAULT_SHAPE_STYLE } from './shapeStyleActions'
 export type { ShapeStyleDefaults } from './shapeStyleActions'
@@ -0,0 +1,22 @@
+import type { PeerPresence, Point } from '../../types'
+import type { StoreApi } from './types'
+
+/**
+ * Presence state: the local pointer position and the remote peers.
+ * Neither is part of the document, so changes never touch history.
+ */
+export function createPresenceActions(set: StoreApi['set'], get: StoreApi['get']) {
+  return {
+    cursorPosition: null as Point | null,
+    peers: [] as PeerPresence[],
+
+    setCursorPosition: (point: Point | null) => {
+      const current = get().cursorPosition
+      if (current === point) return
+      if (current && point && current.x === point.x && current.y === point.y) return
+      set({ cursorPosition: point })
+    },
+
+    setPeers: (peers: PeerPresence[]) => set({ peers }),
+  }
+}
@@ -1,8 +1,10 @@
-import type { Shape } from '../../types'
+import type { HistoryAction, Shape } from '../../types'
 import { updateShapeFields } from '../../types'
 import type { StoreApi } from './types'
 import { createHistoryEntry, pushHistory } from './historyHelpers'
-import { getBoundTextIdFromShape } from '../../utils/boundText'
+import { collectBoundTextIds } from '../../utils/boundText'
+import { collectFrameChildIds, replaceFrameChildren } from '../../utils/frames'
+import { detachBoundArrows, releaseMovedArrow, syncBoundArrows } from '../../utils/arrowBinding'
 
 export function createShapeActions(set: StoreApi['set'], get: StoreApi['get']) {
   return {
@@ -10,11 +12,11 @@ export function createShapeActions(set: StoreApi['set'], get: StoreApi['get']) {
       set((state) => {
         const newShapes = new Map(state.shapes)
         newShapes.set(shape.id, shape)
+        state.spatialIndex.applyChanges(state.shapes, newShapes, [shape.id])
 
         const historyUpdate = recordHistory
           ? pushHistory(
-              state.history,
-              state.historyIndex,
+              state,
               createHistoryEntry({ type: 'create', shapes: [shape] })
             )
           : {}
@@ -34,15 +36,23 @@ export function createShapeActions(set: StoreApi['set'], get: StoreApi['get']) {
         const shape = state.shapes.get(id)
         if (!shape) return {}
 
-        const updatedShape = updateShapeFields(shape, updates)
+        const updatedShape = releaseMovedArrow(shape, updateShapeFields(shape, updates), new Set([id]))
         const newShapes = new Map(state.shapes)
         newShapes.set(id, updatedShape)
 
+        // Keep arrows bound to this shape attached
+        const arrowsBefore = syncBoundArrows(newShapes, [id])
+        const arrowsAfter = arrowsBefore.map((arrow) => newShapes.get(arrow.id)!)
+        state.spatialIndex.applyChanges(state.shapes, newShapes, [id, ...arrowsBefore.map((arrow) => arrow.id)])
+
         const historyUpdate = recordHistory
           ? pushHistory(
-              state.history,
-              state.historyIndex,
-              createHistoryEntry({ type: 'update', before: [shape], after: [updatedShape] })
+              state,
+              createHistoryEntry({
+                type: 'update',
+                before: [shape, ...arrowsBefore],
+                after: [updatedShape, ...arrowsAfter],
+              })
             )
           : {}
 
@@ -62,21 +72,26 @@ export function createShapeActions(set: StoreApi['set'], get: StoreApi['get']) {
 
         const deletedShapes: Shape[] = [shape]
 
-        // Cascade-delete bound text child
-        const boundTextId = getBoundTextIdFromShape(shape)
-        if (boundTextId) {
-          const boundText = state.shapes.get(boundTextId)
-          if (boundText) {
-            deletedShapes.push(boundText)
-            newShapes.delete(boundTextId)
-          }
+        // Cascade-delete frame children and bound text
+        const childIds = collectFrameChildIds([id], state.shapes)
+        for (const cascadeId of [...childIds, ...collectBoundTextIds([id, ...childIds], state.shapes)]) {
+          deletedShapes.push(state.shapes.get(cascadeId)!)
+          newShapes.delete(cascadeId)
+          newSelectedIds.delete(cascadeId)
         }
 
+        // Arrows bound to the deleted shape stay in place but lose their binding
+        const unboundArrows = detachBoundArrows(newShapes, deletedShapes.map((s) => s.id))
+        state.spatialIndex.applyChanges(state.shapes, newShapes, [...deletedShapes, ...unboundArrows].map((s) => s.id))
+
         const historyUpdate = recordHistory
           ? pushHistory(
-              state.history,
-              state.historyIndex,
-              createHistoryEntry({ type: 'delete', shapes: deletedShapes })
+              state,
+              createHistoryEntry({
+                type: 'delete',
+                shapes: deletedShapes,
+                ...(unboundArrows.length > 0 && { unboundArrows }),
+              })
             )
           : {}
 
@@ -98,18 +113,18 @@ export function createShapeActions(set: StoreApi['set'], get: StoreApi['get']) {
 
         if (shapesToDelete.length === 0) return {}
 
+        // Frames take their children with them
+        for (const childId of collectFrameChildIds(ids, state.shapes)) {
+          if (idsSet.has(childId)) continue
+          shapesToDelete.push(state.shapes.get(childId)!)
+          idsSet.add(childId)
+        }
+
         // Collect bound text children for cascade deletion
-        const boundTextIds: string[] = []
-        for (const shape of shapesToDelete) {
-          const btId = getBoundTextIdFromShape(shape)
-          if (btId && !idsSet.has(btId)) {
-            const bt = state.shapes.get(btId)
-            if (bt) {
-              boundTextIds.push(btId)
-              shapesToDelete.push(bt)
-              idsSet.add(btId)
-            }
-          }
+        for (const btId of collectBoundTextIds(idsSet, state.shapes)) {
+          if (idsSet.has(btId)) continue
+          shapesToDelete.push(state.shapes.get(btId)!)
+          idsSet.add(btId)
         }
 
         const newShapes = new Map(state.shapes)
@@ -119,11 +134,17 @@ export function createShapeActions(set: StoreApi['set'], get: StoreApi['get']) {
           newSelectedIds.delete(id)
         }
 
+        const unboundArrows = detachBoundArrows(newShapes, idsSet)
+        state.spatialIndex.applyChanges(state.shapes, newShapes, [...idsSet, ...unboundArrows.map((s) => s.id)])
+
         const historyUpdate = recordHistory
           ? pushHistory(
-              state.history,
-              state.historyIndex,
-              createHistoryEntry({ type: 'delete', shapes: shapesToDelete })
+              state,
+              createHistoryEntry({
+                type: 'delete',
+                shapes: shapesToDelete,
+                ...(unboundArrows.length > 0 && { unboundArrows }),
+              })
             )
           : {}
 
@@ -136,18 +157,105 @@ export function createShapeActions(set: StoreApi['set'], get: StoreApi['get']) {
       })
     },
 
+    /**
+     * Replace shapes with new ones as a single undo step.
+     * Each key is removed (with its bound text) and its replacement shapes take
+     * its z-order slot, in shapeIds or in its frame. An empty replacement list
+     * simply deletes the shape.
+     */
+    replaceShapes: (replacements: Map<string, Shape[]>, recordHistory = true) => {
+      set((state) => {
+        const removed = Array.from(replacements.keys())
+          .map((id) => state.shapes.get(id))
+          .filter((shape): shape is Shape => shape !== undefined)
+
+        if (removed.length === 0) return {}
+
+        const removedIds = new Set(removed.map((shape) => shape.id))
+        const added = removed.flatMap((shape) => replacements.get(shape.id) ?? [])
+        for (const childId of collectFrameChildIds(removedIds, state.shapes)) {
+          if (removedIds.has(childId)) continue
+          removed.push(state.shapes.get(childId)!)
+          removedIds.add(childId)
+        }
+        for (const btId of collectBoundTextIds(removedIds, state.shapes)) {
+          if (removedIds.has(btId)) continue
+          removed.push(state.shapes.get(btId)!)
+          removedIds.add(btId)
+        }
+
+        const newShapes = new Map(state.shapes)
+        const newSelectedIds = new Set(state.selectedIds)
+        for (const id of removedIds) {
+          newShapes.delete(id)
+          newSelectedIds.delete(id)
+        }
+        for (const shape of added) newShapes.set(shape.id, shape)
+        const frames = replaceFrameChildren(newShapes, replacements)
+        const unboundArrows = detachBoundArrows(newShapes, removedIds)
+        state.spatialIndex.applyChanges(state.shapes, newShapes, [
+          ...removedIds,
+          ...[...added, ...frames.after, ...unboundArrows].map((shape) => shape.id),
+        ])
+
+        const newShapeIds = state.shapeIds.flatMap((id) =>
+          removedIds.has(id) ? (replacements.get(id) ?? []).map((shape) => shape.id) : [id]
+        )
+
+        let historyUpdate = {}
+        if (recordHistory) {
+          // Undo/redo of create/delete appends shapes to the z-order,
+          // so bracket them with reorders that pin the exact order on both sides
+          const kept = state.shapeIds.filter((id) => !removedIds.has(id))
+          const removedOrder = state.shapeIds.filter((id) => removedIds.has(id))
+          const actions: HistoryAction[] = [
+            { type: 'reorder', previousShapeIds: state.shapeIds, newShapeIds: [...kept, ...removedOrder] },
+            { type: 'delete', shapes: removed, ...(unboundArrows.length > 0 && { unboundArrows }) },
+          ]
+          if (added.length > 0) {
+            actions.push(
+              { type: 'create', shapes: added },
+              {
+                type: 'reorder',
+                previousShapeIds: [...kept, ...added.map((shape) => shape.id)],
+                newShapeIds,
+              },
+            )
+          }
+          if (frames.before.length > 0) {
+            actions.push({ type: 'update', before: frames.before, after: frames.after })
+          }
+          historyUpdate = pushHistory(
+            state,
+            createHistoryEntry({ type: 'batch', actions })
+          )
+        }
+
+        return {
+          shapes: newShapes,
+          shapeIds: newShapeIds,
+          selectedIds: newSelectedIds,
+          ...historyUpdate,
+        }
+      })
+    },
+
     /**
      * Batch-update multiple shapes in a single Map copy (no history).
      * Use for hot-path operations like drag-move to avoid N separate Map allocations.
+     * Arrows bound to updated shapes are re-synced in the same Map copy.
      */
     updateShapesBatch: (updates: Map<string, Partial<Shape>>) => {
       set((state) => {
         const newShapes = new Map(state.shapes)
+        const updatedIds = new Set(updates.keys())
         for (const [id, partial] of updates) {
           const shape = newShapes.get(id)
           if (!shape) continue
-          newShapes.set(id, updateShapeFields(shape, partial))
+          newShapes.set(id, releaseMovedArrow(shape, updateShapeFields(shape, partial), updatedIds))
         }
+        const arrows = syncBoundArrows(newShapes, updatedIds)
+        state.spatialIndex.applyChanges(state.shapes, newShapes, [...updatedIds, ...arrows.map((arrow) => arrow.id)])
         return { shapes: newShapes }
       })
     },
@@ -157,18 +265,19 @@ export function createShapeActions(set: StoreApi['set'], get: StoreApi['get']) {
     clearShapes: (recordHistory = true) => {
       set((state) => {
         const allShapes = Array.from(state.shapes.values())
+        const shapes = new Map<string, Shape>()
+        state.spatialIndex.rebuild(shapes)
 
         const historyUpdate =
           recordHistory && allShapes.length > 0
             ? pushHistory(
-                state.history,
-                state.historyIndex,
+                state,
                 createHistoryEntry({ type: 'delete', shapes: allShapes })
               )
             : {}
 
         return {
-          shapes: new Map(),
+          shapes,
           shapeIds: [],
           selectedIds: new Set<string>(),
           ...historyUpdate,
@@ -0,0 +1,123 @@
+import { nanoid } from 'nanoid'
+import type { Point, Shape, TextShape, TextShapeProps } from '../../types'
+import { updateShapeFields } from '../../types'
+import type { StoreApi } from './types'
+import type { WhiteboardStore } from './createStore'
+import { cloneWithFreshIds, insertAsUndoStep } from './clipboardActions'
+import { createImageShape } from './imagePasteActions'
+import { DEFAULT_TEXT_MAX_WIDTH, measureTextLines, wrapTextLines } from '../../utils/fonts'
+import { createLinkCardShape } from '../../utils/linkCard'
+import { dataUrlToBlobUrl } from '../../utils/imageBlobStore'
+import { getShapesBounds } from '../../utils/shapeBounds'
+import { importFromSvg } from '../../utils/svgImport'
+import { readSystemClipboard, type ClipboardContent } from '../../utils/systemClipboard'
+
+/** A text shape for pasted text, wrapped like typed text */
+function createTextShape(text: string, styleProps: Omit<TextShapeProps, 'text'>): TextShape {
+  const natural = measureTextLines(text, styleProps)
+  const wrapped = natural.width <= DEFAULT_TEXT_MAX_WIDTH ? natural : wrapTextLines(text, DEFAULT_TEXT_MAX_WIDTH, styleProps)
+  return {
+    id: nanoid(),
+    type: 'text',
+    x: 0,
+    y: 0,
+    width: Math.min(natural.width, DEFAULT_TEXT_MAX_WIDTH),
+    height: wrapped.height,
+    rotation: 0,
+    opacity: 1,
+    isLocked: false,
+    parentId: null,
+    seed: Math.floor(Math.random() * 2147483647),
+    roughness: 0,
+    props: { text, ...styleProps },
+  }
+}
+
+/** Shapes with DataURL image sources moved to blob URLs, as in loaded documents */
+function storeImageDataUrls(shapes: Shape[]): Shape[] {
+  return shapes.map((shape) =>
+    shape.type === 'image' && shape.props.src.startsWith('data:')
+      ? updateShapeFields(shape, { props: { ...shape.props, src: dataUrlToBlobUrl(shape.props.src) } })
+      : shape)
+}
+
+/** Shapes for pasted content, positioned anywhere (`insertShapes` moves them) */
+async function contentToShapes(content: ClipboardContent, textProps: Omit<TextShapeProps, 'text'>): Promise<Shape[]> {
+  const origin = { x: 0, y: 0 }
+  switch (content.kind) {
+    case 'shapes':
+      return content.shapes
+    case 'image':
+      try {
+        return [await createImageShape(content.blob, origin)]
+      } catch {
+        // Images the browser can't decode are skipped
+        return []
+      }
+    case 'svg':
+      try {
+        return importFromSvg(content.markup)
+      } catch {
+        // Markup the parser rejects is kept as text
+        return [createTextShape(content.markup, textProps)]
+      }
+    case 'url':
+      return [createLinkCardShape(content.url, origin)]
+    case 'text':
+      return [createTextShape(content.text, textProps)]
+  }
+}
+
+/**
+ * Whether a paste should take the internal clipboard over the system one:
+ * when the last copy or cut failed to reach the system clipboard.
+ * @internal
+ */
+export function usesInternalClipboard(state: Pick<WhiteboardStore, 'clipboard' | 'clipboardOnSystem'>): boolean {
+  return state.clipboard.length > 0 && !state.clipboardOnSystem
+}
+
+/**
+ * System clipboard paste: inserting shapes from another tab or app, images,
+ * SVG markup, URLs (as link cards) and plain text (as text shapes).
+ */
+export function createSystemClipboardActions(set: StoreApi['set'], get: StoreApi['get']) {
+  const insertShapes = (shapes: Shape[], at?: Point): string[] => {
+    if (shapes.length === 0) return []
+    let dx = 0
+    let dy = 0
+    if (at) {
+      const shapeMap = new Map(shapes.map((shape) => [shape.id, shape]))
+      const topLevel = shapes.filter((shape) => !shape.parentId || !shapeMap.has(shape.parentId))
+      const bounds = getShapesBounds(shapeMap, topLevel.map((shape) => shape.id))
+      if (bounds) {
+        dx = at.x - (bounds.minX + bounds.maxX) / 2
+        dy = at.y - (bounds.minY + bounds.maxY) / 2
+      }
+    }
+    const newShapes = cloneWithFreshIds(storeImageDataUrls(shapes), dx, dy)
+    set(insertAsUndoStep(get(), newShapes))
+    return newShapes.filter((shape) => !shape.parentId).map((shape) => shape.id)
+  }
+
+  const pasteClipboardContent = async (content: ClipboardContent, at?: Point): Promise<string[]> => {
+    const shapes = await contentToShapes(content, get().currentTextProps)
+    // Leave any tool mid-gesture before the pasted shapes are added
+    get().setTool('select')
+    return insertShapes(shapes, at ?? get().cursorPosition ?? undefined)
+  }
+
+  return {
+    insertShapes,
+    pasteClipboardContent,
+
+    pasteFromClipboard: async (at?: Point): Promise<string[]> => {
+      // The last copy didn't reach the system clipboard, which holds something older
+      const content = usesInternalClipboard(get()) ? null : await readSystemClipboard()
+      if (content) return pasteClipboardContent(content, at)
+      // No permission or nothing readable: fall back to the internal clipboard
+      get().pasteShapes()
+      return Array.from(get().selectedIds)
+    },
+  }
+}
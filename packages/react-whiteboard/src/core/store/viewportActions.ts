@@ -7,6 +7,10 @@ export const MIN_ZOOM = 0.1
 /** @public */
 export const MAX_ZOOM = 10
 const DEFAULT_ZOOM_DURATION = 200
+/** Fraction of glide velocity kept per 16ms frame */
+const GLIDE_FRICTION = 0.92
+/** Glide stops below this speed (screen px per ms) */
+const MIN_GLIDE_SPEED = 0.01
 
 const DEFAULT_VIEWPORT: Viewport = {
   x: 0,
@@ -22,6 +26,14 @@ export function createViewportActions(set: StoreApi['set'], get: StoreApi['get']
   // Track active zoom animation per store instance (not module-level)
   // so multiple whiteboard instances don't interfere with each other.
   let activeZoomAnimation: number | null = null
+  let activeGlideAnimation: number | null = null
+
+  function cancelGlide() {
+    if (activeGlideAnimation !== null) {
+      cancelAnimationFrame(activeGlideAnimation)
+      activeGlideAnimation = null
+    }
+  }
 
   return {
     setViewport: (viewport: Partial<Viewport>) =>
@@ -34,11 +46,12 @@ export function createViewportActions(set: StoreApi['set'], get: StoreApi['get']
       }),
 
     pan: (deltaX: number, deltaY: number) => {
-      // Cancel any active zoom animation when panning
+      // Cancel any active zoom or glide animation when panning
       if (activeZoomAnimation !== null) {
         cancelAnimationFrame(activeZoomAnimation)
         activeZoomAnimation = null
       }
+      cancelGlide()
 
       set((state) => ({
         viewport: {
@@ -110,6 +123,44 @@ export function createViewportActions(set: StoreApi['set'], get: StoreApi['get']
       activeZoomAnimation = requestAnimationFrame(step)
     },
 
+    /**
+     * Keep panning with the given velocity (screen px per ms), decaying with friction.
+     * Used for kinetic panning after a fast hand-tool release.
+     */
+    glide: (velocityX: number, velocityY: number) => {
+      cancelGlide()
+
+      let vx = velocityX
+      let vy = velocityY
+      let lastTime = performance.now()
+
+      function step(currentTime: number) {
+        const dt = Math.max(currentTime - lastTime, 0)
+        lastTime = currentTime
+
+        set((s) => ({
+          viewport: { ...s.viewport, x: s.viewport.x + vx * dt, y: s.viewport.y + vy * dt },
+        }))
+
+        const decay = Math.pow(GLIDE_FRICTION, dt / 16)
+        vx *= decay
+        vy *= decay
+
+        if (Math.hypot(vx, vy) >= MIN_GLIDE_SPEED) {
+          activeGlideAnimation = requestAnimationFrame(step)
+        } else {
+          activeGlideAnimation = null
+        }
+      }
+
+      if (Math.hypot(vx, vy) >= MIN_GLIDE_SPEED) {
+        activeGlideAnimation = requestAnimationFrame(step)
+      }
+    },
+
+    /** Stop an in-progress glide */
+    stopGlide: () => cancelGlide(),
+
     resetViewport: () =>
       set({ viewport: { ...DEFAULT_VIEWPORT } }),
   }
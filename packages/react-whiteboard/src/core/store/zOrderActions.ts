@@ -14,8 +14,7 @@ export function createZOrderActions(set: StoreApi['set'], get: StoreApi['get'])
     if (prev.length === newShapeIds.length && prev.every((id, i) => id === newShapeIds[i])) return
 
     const historyUpdate = pushHistory(
-      state.history,
-      state.historyIndex,
+      state,
       createHistoryEntry({ type: 'reorder', previousShapeIds: prev, newShapeIds }),
     )
 
@@ -6,3 +6,4 @@ export { useTextProperties } from './useTextProperties'
 export { useShapeProperties } from './useShapeProperties'
 export { useWhiteboardEvents } from './useWhiteboardEvents'
 export type { WhiteboardEventCallbacks } from './useWhiteboardEvents'
+export { usePresence } from './usePresence'
@@ -0,0 +1,73 @@
+import { useEffect } from 'react'
+import type { WhiteboardStore } from '../core/store/createStore'
+import { usesInternalClipboard } from '../core/store/systemClipboardActions'
+import type { Viewport } from '../types'
+import { screenToCanvas } from '../utils/canvas'
+import { isInputTarget } from '../utils/dom'
+import { readClipboardData } from '../utils/systemClipboard'
+
+interface ClipboardPasteOptions {
+  getState: () => WhiteboardStore
+  containerRef: React.RefObject<HTMLDivElement | null>
+  /** Latest viewport, read when an event arrives */
+  viewportRef: React.RefObject<Viewport>
+  readOnly?: boolean
+}
+
+/** Containers of the mounted boards, in mount order */
+const boards = new Set<HTMLElement>()
+/** The board last pressed on */
+let lastPressed: HTMLElement | null = null
+
+/**
+ * Whether a paste aimed at `target` is for `container`: pastes inside a
+ * board go to it, others to the board last pressed on (or the first one).
+ */
+function isPasteFor(container: HTMLElement, target: EventTarget | null): boolean {
+  if (target instanceof Node) {
+    if (container.contains(target)) return true
+    for (const board of boards) if (board.contains(target)) return false
+  }
+  const active = lastPressed && boards.has(lastPressed) ? lastPressed : boards.values().next().value
+  return active === container
+}
+
+/**
+ * Handle paste events: shapes copied from any whiteboard, images, SVG markup,
+ * URLs and text are inserted at the pointer (or the middle of the view).
+ * With several boards on a page, only the focused one pastes. Pastes into
+ * inputs are left alone; with nothing readable on the system clipboard, or
+ * when the last copy didn't reach it, the internal clipboard is pasted.
+ * @internal
+ */
+export function useClipboardPaste({ getState, containerRef, viewportRef, readOnly }: ClipboardPasteOptions): void {
+  useEffect(() => {
+    const container = containerRef.current
+    if (readOnly || !container) return
+    const onPointerDown = () => {
+      lastPressed = container
+    }
+    const onPaste = (e: ClipboardEvent) => {
+      if (isInputTarget(e.target) || !isPasteFor(container, e.target)) return
+      e.preventDefault()
+      const state = getState()
+      const content = e.clipboardData && !usesInternalClipboard(state) ? readClipboardData(e.clipboardData) : null
+      if (!content) {
+        state.pasteShapes()
+        return
+      }
+      const rect = container.getBoundingClientRect()
+      const center = { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 }
+      state.pasteClipboardContent(content, state.cursorPosition ?? screenToCanvas(center, viewportRef.current, rect))
+    }
+    boards.add(container)
+    container.addEventListener('pointerdown', onPointerDown, true)
+    window.addEventListener('paste', onPaste)
+    return () => {
+      boards.delete(container)
+      if (lastPressed === container) lastPressed = null
+      container.removeEventListener('pointerdown', onPointerDown, true)
+      window.removeEventListener('paste', onPaste)
+    }
+  }, [readOnly, getState, containerRef, viewportRef])
+}
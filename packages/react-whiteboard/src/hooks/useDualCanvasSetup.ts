@@ -1,5 +1,6 @@
 import { useRef, useState, useEffect, useCallback } from 'react'
 import { CanvasRenderer } from '../core/renderer'
+import { TileCache } from '../core/renderer/TileCache'
 import { getDevicePixelRatio } from '../utils/canvas'
 import type { ThemeColors } from '../types/theme'
 
@@ -15,7 +16,8 @@ interface DualCanvasSetupOptions {
 
 /**
  * Hook for dual-canvas initialization and resize handling.
- * Manages two stacked canvases (static + interactive) with matching DPI/size.
+ * Manages two stacked canvases (static + interactive) with matching DPI/size,
+ * and the tile cache the static canvas is drawn from.
  * @public
  */
 export function useDualCanvasSetup({ onReady, theme }: DualCanvasSetupOptions) {
@@ -25,6 +27,8 @@ export function useDualCanvasSetup({ onReady, theme }: DualCanvasSetupOptions) {
   const staticRendererRef = useRef<CanvasRenderer | null>(null)
   const interactiveRendererRef = useRef<CanvasRenderer | null>(null)
   const readyFiredRef = useRef(false)
+  // Tiles are in canvas space, so they outlive resizes and renderer swaps
+  const [tileCache] = useState(() => new TileCache())
   const themeRef = useRef(theme)
   themeRef.current = theme
 
@@ -98,6 +102,7 @@ export function useDualCanvasSetup({ onReady, theme }: DualCanvasSetupOptions) {
     containerSizeRef,
     staticRendererRef,
     interactiveRendererRef,
+    tileCache,
     setupCanvases,
     setupVersion,
   }
@@ -0,0 +1,118 @@
+import { useEffect, useRef } from 'react'
+import type { WhiteboardStore } from '../core/store/createStore'
+import type { Point, Viewport } from '../types'
+import { screenToCanvas } from '../utils/canvas'
+import type { ExcalidrawImportWarning } from '../utils/excalidrawFormat'
+
+/**
+ * A file dropped on the canvas, passed to `onFileDrop`.
+ * @public
+ */
+export interface CanvasFileDropEvent {
+  file: File
+  /** Drop position in canvas space */
+  canvasPoint: Point
+}
+
+/**
+ * Called for each dropped file before the built-in handling. Return (or
+ * resolve to) `true` when the app handled the file; other files are inserted
+ * as shapes.
+ * @public
+ */
+export type FileDropHandler = (event: CanvasFileDropEvent) => boolean | void | Promise<boolean | void>
+
+/**
+ * Called for each dropped file that could not be inserted: `onFileDrop`
+ * threw or rejected for it, or it could not be read or parsed.
+ * @public
+ */
+export type FileDropErrorHandler = (error: Error, file: File) => void
+
+/**
+ * Called for each dropped Excalidraw scene that was inserted with parts
+ * that could not be converted exactly.
+ * @public
+ */
+export type FileDropWarningHandler = (warnings: ExcalidrawImportWarning[], file: File) => void
+
+interface FileDropOptions {
+  getState: () => WhiteboardStore
+  containerRef: React.RefObject<HTMLDivElement | null>
+  /** Latest viewport, read when an event arrives */
+  viewportRef: React.RefObject<Viewport>
+  onFileDrop?: FileDropHandler
+  onFileDropError?: FileDropErrorHandler
+  onFileDropWarning?: FileDropWarningHandler
+  readOnly?: boolean
+}
+
+/**
+ * Accept files dragged onto the canvas and insert them at the drop point
+ * (see `dropFiles`). Listeners are registered once; `onFileDrop`,
+ * `onFileDropError` and `onFileDropWarning` are read when a drop arrives.
+ * @internal
+ */
+export function useFileDrop({
+  getState,
+  containerRef,
+  viewportRef,
+  onFileDrop,
+  onFileDropError,
+  onFileDropWarning,
+  readOnly,
+}: FileDropOptions): void {
+  const onFileDropRef = useRef(onFileDrop)
+  onFileDropRef.current = onFileDrop
+  const onFileDropErrorRef = useRef(onFileDropError)
+  onFileDropErrorRef.current = onFileDropError
+  const onFileDropWarningRef = useRef(onFileDropWarning)
+  onFileDropWarningRef.current = onFileDropWarning
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (readOnly || !container) return
+
+    const handleDragOver = (e: DragEvent) => {
+      if (!e.dataTransfer?.types.includes('Files')) return
+      e.preventDefault()
+      e.dataTransfer.dropEffect = 'copy'
+    }
+
+    const handleDrop = async (e: DragEvent) => {
+      const files = Array.from(e.dataTransfer?.files ?? [])
+      if (files.length === 0) return
+      e.preventDefault()
+      const canvasPoint = screenToCanvas({ x: e.clientX, y: e.clientY }, viewportRef.current, container.getBoundingClientRect())
+
+      const report = (err: unknown, file: File) => {
+        onFileDropErrorRef.current?.(err instanceof Error ? err : new Error(String(err)), file)
+      }
+
+      // One file failing doesn't stop the others
+      const remaining: File[] = []
+      for (const file of files) {
+        try {
+          if (await onFileDropRef.current?.({ file, canvasPoint }) !== true) remaining.push(file)
+        } catch (err) {
+          report(err, file)
+        }
+      }
+      if (remaining.length === 0) return
+      try {
+        await getState().dropFiles(remaining, canvasPoint, report, (warnings, file) => {
+          onFileDropWarningRef.current?.(warnings, file)
+        })
+      } catch (err) {
+        for (const file of remaining) report(err, file)
+      }
+    }
+
+    container.addEventListener('dragover', handleDragOver)
+    container.addEventListener('drop', handleDrop)
+    return () => {
+      container.removeEventListener('dragover', handleDragOver)
+      container.removeEventListener('drop', handleDrop)
+    }
+  }, [readOnly, getState, containerRef, viewportRef])
+}
@@ -14,10 +14,14 @@ const TOOL_SHORTCUTS: Record<string, ToolType> = {
   v: 'select',
   r: 'rectangle',
   o: 'ellipse',
+  f: 'frame',
+  n: 'sticky',
   l: 'line',
   a: 'arrow',
   d: 'draw',
   t: 'text',
+  e: 'eraser',
+  h: 'hand',
 }
 
 /**
@@ -46,6 +50,45 @@ export function useKeyboardShortcuts({ getState, readOnly = false }: KeyboardSho
     }
   }, [])
 
+  // Space-to-pan: hold Space to switch to the hand tool, release to restore.
+  // Panning doesn't change the board, so this works in readOnly mode too
+  useEffect(() => {
+    let previousTool: ToolType | null = null
+
+    const restore = () => {
+      const state = getState()
+      // Keep the user's choice if they switched tools while holding Space
+      if (previousTool !== null && state.currentTool === 'hand') {
+        state.setTool(previousTool)
+      }
+      previousTool = null
+    }
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isInputTarget(e.target)) return
+      e.preventDefault()
+      if (e.repeat || previousTool !== null) return
+      const state = getState()
+      if (state.currentTool === 'hand') return
+      previousTool = state.currentTool
+      state.setTool('hand')
+    }
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || previousTool === null) return
+      e.preventDefault()
+      restore()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    window.addEventListener('keyup', handleKeyUp)
+    window.addEventListener('blur', restore)
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown)
+      window.removeEventListener('keyup', handleKeyUp)
+      window.removeEventListener('blur', restore)
+    }
+  }, [getState])
+
   // Keyboard shortcuts (registered once — getState is stable)
   useEffect(() => {
     if (readOnly) return
@@ -86,12 +129,8 @@ export function useKeyboardShortcuts({ getState, readOnly = false }: KeyboardSho
         return
       }
 
-      // Paste: Cmd/Ctrl+V
-      if (isMod && e.key.toLowerCase() === 'v') {
-        e.preventDefault()
-        state.pasteShapes()
-        return
-      }
+      // Paste (Cmd/Ctrl+V) is left to the browser: the canvas handles the paste
+      // event, which carries the system clipboard's content
 
       // Duplicate: Cmd/Ctrl+D
       if (isMod && e.key.toLowerCase() === 'd') {
@@ -158,6 +197,13 @@ export function useKeyboardShortcuts({ getState, readOnly = false }: KeyboardSho
         return
       }
 
+      // Leave image crop mode, keeping the image selected: Escape or Enter
+      if ((e.key === 'Escape' || e.key === 'Enter') && state.croppingImageId !== null) {
+        e.preventDefault()
+        state.setCroppingImageId(null)
+        return
+      }
+
       // Clear selection: Escape
       if (e.key === 'Escape') {
         e.preventDefault()
@@ -203,7 +249,7 @@ export function useKeyboardShortcuts({ getState, readOnly = false }: KeyboardSho
         return
       }
 
-      // Tool switching: single letter keys (V, R, O, L, A, D, T)
+      // Tool switching: single letter keys (V, R, O, L, A, D, T, E, H)
       if (!isMod) {
         const tool = TOOL_SHORTCUTS[e.key.toLowerCase()]
         if (tool) {
@@ -0,0 +1,12 @@
+import { useWhiteboardStore } from '../context'
+import type { PeerPresence } from '../types'
+
+/**
+ * Remote peers reported by the presence adapter, for custom presence UIs
+ * (avatar stacks, "follow user" buttons…). Re-renders when any peer changes.
+ * Use `getPeerColor` to match the colors drawn on the canvas.
+ * @public
+ */
+export function usePresence(): PeerPresence[] {
+  return useWhiteboardStore((s) => s.peers)
+}
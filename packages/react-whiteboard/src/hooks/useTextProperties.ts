@@ -1,10 +1,10 @@
 import { useMemo, useCallback } from 'react'
 import { useWhiteboardStore } from '../context'
-import type { TextFontFamily, TextShapeProps, TextShape, RectangleShape, EllipseShape } from '../types'
+import type { TextFontFamily, TextShapeProps, TextShape } from '../types'
 import { FONT_FAMILIES, FONT_SIZE_PRESETS } from '../utils/fonts'
 import type { FontSizePreset } from '../utils/fonts'
 import { measureTextLines } from '../utils/fonts'
-import { getBoundTextShape, canContainBoundText } from '../utils/boundText'
+import { getBoundTextShape, isBoundTextContainer } from '../utils/boundText'
 
 /**
  * Headless hook for controlling text properties.
@@ -35,11 +35,8 @@ export function useTextProperties() {
       if (shape.type === 'text' && !seen.has(shape.id)) {
         seen.add(shape.id)
         result.push(shape as TextShape)
-      } else if (canContainBoundText(shape.type)) {
-        const boundText = getBoundTextShape(
-          shape as RectangleShape | EllipseShape,
-          shapes,
-        )
+      } else if (isBoundTextContainer(shape)) {
+        const boundText = getBoundTextShape(shape, shapes)
         if (boundText && !seen.has(boundText.id)) {
           seen.add(boundText.id)
           result.push(boundText)
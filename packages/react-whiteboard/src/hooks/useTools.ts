@@ -17,8 +17,8 @@ interface UseToolsOptions {
  * Handles pointer capture, panning, coordinate conversion, cursor updates,
  * tool overlay rendering, and text overlay setup.
  *
- * When `readOnly` is true, only pan gestures are processed — all tool
- * interactions are disabled.
+ * When `readOnly` is true, only pan gestures and the hand tool are
+ * processed — all other tool interactions are disabled.
  * @public
  */
 export function useTools({ containerRef, canvasRef, renderFnRef, readOnly = false }: UseToolsOptions) {
@@ -72,14 +72,18 @@ export function useTools({ containerRef, canvasRef, renderFnRef, readOnly = fals
   // Store actions
   const pan = useWhiteboardStore((s) => s.pan)
   const setIsPanning = useWhiteboardStore((s) => s.setIsPanning)
+  const setCursorPosition = useWhiteboardStore((s) => s.setCursorPosition)
+
+  // The hand tool only pans, so it works in readOnly mode too (e.g. Space-to-pan)
+  const toolsDisabled = readOnly && currentTool !== 'hand'
 
   // Update cursor when currentTool changes (skip in readOnly).
   // Tool activation is handled synchronously via store subscription
   // in WhiteboardContext — no need to call toolManager.setActiveTool here.
   useEffect(() => {
-    if (readOnly) return
+    if (toolsDisabled) return
     setCursorStyle(TOOL_CURSORS[currentTool] || 'default')
-  }, [currentTool, readOnly])
+  }, [currentTool, toolsDisabled])
 
   // Build ToolEventContext from a React pointer event.
   // Uses cachedRectRef (kept warm by ResizeObserver) to avoid layout thrash.
@@ -137,7 +141,7 @@ export function useTools({ containerRef, canvasRef, renderFnRef, readOnly = fals
       }
 
       // In readOnly mode, skip tool delegation
-      if (readOnly) return
+      if (toolsDisabled) return
 
       // Left click → delegate to active tool
       if (e.button === 0) {
@@ -151,7 +155,7 @@ export function useTools({ containerRef, canvasRef, renderFnRef, readOnly = fals
         requestRender()
       }
     },
-    [canvasRef, createEventContext, setIsPanning, requestRender, readOnly],
+    [canvasRef, createEventContext, setIsPanning, requestRender, toolsDisabled],
   )
 
   /**
@@ -161,6 +165,11 @@ export function useTools({ containerRef, canvasRef, renderFnRef, readOnly = fals
     (e: React.PointerEvent) => {
       const currentPoint = { x: e.clientX, y: e.clientY }
 
+      // Track the pointer for presence, in every mode
+      const ctx = createEventContext(e)
+      if (!ctx) return
+      setCursorPosition(ctx.canvasPoint)
+
       // Panning mode
       if (isPanningRef.current && lastPointerRef.current) {
         const dx = currentPoint.x - lastPointerRef.current.x
@@ -171,15 +180,12 @@ export function useTools({ containerRef, canvasRef, renderFnRef, readOnly = fals
       }
 
       // In readOnly mode, skip tool delegation
-      if (readOnly) {
+      if (toolsDisabled) {
         lastPointerRef.current = currentPoint
         return
       }
 
       // Delegate to tool
-      const ctx = createEventContext(e)
-      if (!ctx) return
-
       const result = toolManager.handlePointerMove(ctx)
       if (result.cursor) {
         setCursorStyle(result.cursor)
@@ -188,7 +194,7 @@ export function useTools({ containerRef, canvasRef, renderFnRef, readOnly = fals
       lastPointerRef.current = currentPoint
       requestRender()
     },
-    [pan, createEventContext, requestRender, readOnly],
+    [pan, createEventContext, setCursorPosition, requestRender, toolsDisabled],
   )
 
   /**
@@ -196,6 +202,8 @@ export function useTools({ containerRef, canvasRef, renderFnRef, readOnly = fals
    */
   const handlePointerUp = useCallback(
     (e: React.PointerEvent) => {
+      if (e.type === 'pointerleave') setCursorPosition(null)
+
       const canvas = canvasRef.current
       if (canvas) {
         try {
@@ -213,7 +221,7 @@ export function useTools({ containerRef, canvasRef, renderFnRef, readOnly = fals
       }
 
       // In readOnly mode, skip tool delegation
-      if (readOnly) {
+      if (toolsDisabled) {
         lastPointerRef.current = null
         return
       }
@@ -226,7 +234,7 @@ export function useTools({ containerRef, canvasRef, renderFnRef, readOnly = fals
       lastPointerRef.current = null
       requestRender()
     },
-    [canvasRef, createEventContext, setIsPanning, requestRender, readOnly],
+    [canvasRef, createEventContext, setIsPanning, setCursorPosition, requestRender, toolsDisabled],
   )
 
   /**
@@ -285,7 +293,7 @@ export function useTools({ containerRef, canvasRef, renderFnRef, readOnly = fals
     handlePointerUp,
     handleDoubleClick,
     renderOverlay,
-    cursorStyle: readOnly ? 'default' : cursorStyle,
+    cursorStyle: toolsDisabled ? 'default' : cursorStyle,
     setTextOverlayContainer,
     isPanningRef,
   }
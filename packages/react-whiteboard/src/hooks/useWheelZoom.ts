@@ -0,0 +1,36 @@
+import { useEffect } from 'react'
+import type { Point, Viewport } from '../types'
+import { screenToCanvas } from '../utils/canvas'
+
+interface WheelZoomOptions {
+  /** Element that receives wheel events */
+  canvasRef: React.RefObject<HTMLCanvasElement | null>
+  containerRef: React.RefObject<HTMLDivElement | null>
+  /** Latest viewport, read when an event arrives */
+  viewportRef: React.RefObject<Viewport>
+  zoom: (delta: number, center: Point) => void
+}
+
+/**
+ * Zoom around the pointer on wheel events. The listener is registered once
+ * (non-passive, so page scrolling can be prevented).
+ * @internal
+ */
+export function useWheelZoom({ canvasRef, containerRef, viewportRef, zoom }: WheelZoomOptions): void {
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault()
+      const container = containerRef.current
+      if (!container) return
+      const rect = container.getBoundingClientRect()
+      const center = screenToCanvas({ x: e.clientX, y: e.clientY }, viewportRef.current, rect)
+      zoom(-e.deltaY * 0.001, center)
+    }
+
+    canvas.addEventListener('wheel', handleWheel, { passive: false })
+    return () => canvas.removeEventListener('wheel', handleWheel)
+  }, [canvasRef, containerRef, viewportRef, zoom])
+}
@@ -32,13 +32,19 @@ export type {
   EllipseShape,
   LineShape,
   ArrowShape,
+  ArrowBinding,
   TextFontFamily,
   TextShapeProps,
   TextShape,
   PathPoint,
   PathShape,
+  ImageCrop,
+  ImageFilter,
   ImageShape,
   GroupShape,
+  FrameShape,
+  StickyShape,
+  BoundTextContainer,
   ReactComponentShape,
   Shape,
 
@@ -52,6 +58,16 @@ export type {
   // History
   HistoryAction,
   HistoryEntry,
+  HistoryOptions,
+  HistoryTreeNode,
+  HistoryBranch,
+  ShapePatch,
+  Checkpoint,
+
+  // Presence
+  PresenceUser,
+  PresenceState,
+  PeerPresence,
 
   // Store
   WhiteboardState,
@@ -80,6 +96,7 @@ export { LIGHT_THEME, DARK_THEME, resolveTheme } from './types'
 
 export { Canvas, Minimap, Whiteboard, WhiteboardErrorBoundary } from './components'
 export type { CanvasProps, CanvasContextMenuEvent, MinimapProps, WhiteboardProps, WhiteboardErrorBoundaryProps } from './components'
+export type { CanvasFileDropEvent, FileDropErrorHandler, FileDropHandler, FileDropWarningHandler } from './hooks/useFileDrop'
 
 // ============================================================================
 // @public — Context Provider & Hooks
@@ -107,6 +124,7 @@ export {
   useTextProperties,
   useShapeProperties,
   useWhiteboardEvents,
+  usePresence,
 } from './hooks'
 export type { WhiteboardEventCallbacks } from './hooks'
 
@@ -115,8 +133,9 @@ export type { WhiteboardEventCallbacks } from './hooks'
 // WhiteboardStore interface and zoom limit constants.
 // ============================================================================
 
-export type { WhiteboardStore } from './core'
+export type { WhiteboardStore, WhiteboardStoreOptions } from './core'
 export { MIN_ZOOM, MAX_ZOOM } from './core/store/viewportActions'
+export { DEFAULT_HISTORY_OPTIONS } from './core/store/historyHelpers'
 
 // ============================================================================
 // @internal — Core Internals (advanced / escape-hatch)
@@ -128,7 +147,8 @@ export { createWhiteboardStore, CanvasRenderer } from './core'
 
 // ============================================================================
 // @public — Custom Shape Renderer Registry
-// Register custom shape types with canvas draw, hit-test, and SVG export.
+// Register custom shape types with canvas draw, hit-test, and SVG export,
+// and React components mounted live for `react-component` shapes.
 // ============================================================================
 
 export { ShapeRendererRegistry } from './core'
@@ -136,19 +156,21 @@ export type {
   CustomShapeRenderer,
   CustomShapeDrawContext,
   CustomShapeSvgContext,
+  EmbeddedComponentProps,
 } from './core'
 
 // ============================================================================
 // @public — Tool System (custom tool API)
 // ============================================================================
 
-export { ToolManager } from './tools'
+export { ToolManager, EraserTool, HandTool, FrameTool, StickyNoteTool } from './tools'
 export type {
   ITool,
   ToolEventContext,
   ToolState,
   ToolProvider,
   ToolConfig,
+  EraserToolOptions,
 } from './tools'
 export { TOOL_CURSORS } from './tools'
 
@@ -156,8 +178,73 @@ export { TOOL_CURSORS } from './tools'
 // @public — Persistence
 // ============================================================================
 
-export type { PersistenceAdapter, LocalStorageAdapterOptions } from './persistence'
-export { LocalStorageAdapter } from './persistence'
+export type {
+  PersistenceAdapter,
+  IncrementalPersistenceAdapter,
+  PersistenceOp,
+  LocalStorageAdapterOptions,
+  IndexedDBAdapterOptions,
+} from './persistence'
+export { LocalStorageAdapter, IndexedDBAdapter, isIncrementalAdapter, applyPersistenceOps } from './persistence'
+
+// ============================================================================
+// @public — Collaboration (Y.js)
+// ============================================================================
+
+export {
+  bindYDoc,
+  YDOC_SHAPES_KEY,
+  YDOC_SHAPE_IDS_KEY,
+  bindPresence,
+  AwarenessPresenceAdapter,
+  bindTabSync,
+} from './collaboration'
+export type {
+  BindPresenceOptions,
+  TabSyncOptions,
+  TabSyncBinding,
+  PresenceAdapter,
+  AwarenessLike,
+  AwarenessPresenceAdapterOptions,
+} from './collaboration'
+export { getPeerColor } from './utils/presence'
+
+// ============================================================================
+// @public — Operation-based Sync
+// Also available from '@ozdemircibaris/react-whiteboard/sync' without React,
+// e.g. for hosting a SyncRoom in a server.
+// ============================================================================
+
+export {
+  SyncClient,
+  SyncRoom,
+  WebSocketSyncTransport,
+  applyChange,
+  compareVersions,
+  mergeVersions,
+  incrementVersion,
+  createSyncState,
+  toSyncSnapshot,
+  fromSyncSnapshot,
+} from './sync'
+export type {
+  VersionVector,
+  VersionedShape,
+  SyncOp,
+  SyncChange,
+  SequencedChange,
+  SyncSnapshot,
+  SyncClientMessage,
+  SyncServerMessage,
+  SyncTransport,
+  SyncTransportHandlers,
+  SyncState,
+  VersionOrder,
+  SyncRoomOptions,
+  SyncClientOptions,
+  SyncClientStatus,
+  WebSocketSyncTransportOptions,
+} from './sync'
 
 // ============================================================================
 // @public — Serialization Utilities
@@ -167,11 +254,35 @@ export {
   serializeDocument,
   exportToJSON,
   parseDocument,
+  parseDocumentLenient,
   documentToStoreData,
   downloadFile,
   pickAndReadFile,
 } from './utils/serialization'
-export type { WhiteboardDocument } from './utils/serialization'
+export type { WhiteboardDocument, ParsedDocument } from './utils/serialization'
+export { registerMigration } from './utils/migrations'
+export { exportToBinary, importFromBinary, WBZ_MIME_TYPE } from './utils/binaryFormat'
+export type { BinaryExportOptions } from './utils/binaryFormat'
+export type { DocumentMigration } from './utils/migrations'
+export { importExcalidraw } from './utils/excalidrawImport'
+export { exportToExcalidraw, serializeExcalidrawScene } from './utils/excalidrawExport'
+export type { ExcalidrawImportResult } from './utils/excalidrawImport'
+export type {
+  ExcalidrawScene,
+  ExcalidrawElement,
+  ExcalidrawBinding,
+  ExcalidrawFileData,
+  ExcalidrawImportWarning,
+  ExcalidrawImportWarningCode,
+} from './utils/excalidrawFormat'
+
+// ============================================================================
+// @public — Document Diff
+// Compare two documents, e.g. a checkpoint and the current board.
+// ============================================================================
+
+export { diffDocuments } from './utils/documentDiff'
+export type { DocumentDiff, ShapeChange } from './utils/documentDiff'
 
 // ============================================================================
 // @public — Export Utilities (PNG, SVG)
@@ -182,6 +293,16 @@ export type { ExportPngOptions } from './utils/exportPng'
 export { exportToSvg, downloadSvg } from './utils/exportSvg'
 export type { ExportSvgOptions } from './utils/exportSvg'
 export { clearImageCache } from './core/renderer/imageRenderer'
+export { importFromSvg } from './utils/svgImport'
+
+// ============================================================================
+// @public — System Clipboard
+// Copied shapes travel between tabs and apps; pasted URLs become link cards.
+// ============================================================================
+
+export { CLIPBOARD_MIME_TYPE } from './utils/systemClipboard'
+export type { ClipboardContent } from './utils/systemClipboard'
+export { LINK_CARD_COMPONENT } from './utils/linkCard'
 
 // ============================================================================
 // @public — Image Blob Store
@@ -196,6 +317,15 @@ export {
   clearBlobStore,
 } from './utils/imageBlobStore'
 
+// ============================================================================
+// @public — Image Assets
+// Deduped image blobs released once unreferenced, decoded-image cache with
+// mipmaps, and an upload hook for swapping blob URLs for remote URLs.
+// ============================================================================
+
+export { AssetStore, assetStore, bindAssetStore, DecodedImageCache, DEFAULT_MAX_DECODED_BYTES } from './assets'
+export type { AssetStoreOptions, AssetUploadHandler, AssetUploadInfo, DecodedImage } from './assets'
+
 // ============================================================================
 // @public — Font Utilities
 // ============================================================================
@@ -242,6 +372,7 @@ export {
   getShapesInBounds,
   getSelectionBounds,
 } from './utils/hitTest'
+export { SpatialIndex } from './utils/spatialIndex'
 
 // ============================================================================
 // @public — Snapping Utilities
@@ -250,6 +381,32 @@ export {
 export { snapToGrid, snapToShapes } from './utils/snapping'
 export type { SnapLine, SnapResult } from './utils/snapping'
 
+// ============================================================================
+// @public — Arrow Bindings
+// ============================================================================
+
+export { findBindingTarget, resolveBoundArrow, BINDING_DISTANCE } from './utils/arrowBinding'
+
+// ============================================================================
+// @public — Frames
+// ============================================================================
+
+export {
+  isFrame,
+  getFrameChildren,
+  getFrameAtPoint,
+  reparentToFrames,
+  adoptEnclosedShapes,
+  FRAME_TITLE_HEIGHT,
+} from './utils/frames'
+export type { FrameMembershipResult } from './utils/frames'
+
+// ============================================================================
+// @public — Sticky Notes
+// ============================================================================
+
+export { STICKY_NOTE_COLORS, STICKY_NOTE_SIZE, fitStickyNoteFontSize } from './utils/stickyNote'
+
 // ============================================================================
 // @public — Shape Bounds
 // ============================================================================
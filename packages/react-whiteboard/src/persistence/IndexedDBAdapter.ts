@@ -0,0 +1,406 @@
+import type { Checkpoint, Shape } from '../types'
+import type { WhiteboardDocument } from '../utils/serialization'
+import { blobToDataUrl, dataUrlToBlob, getBlob, isBlobUrl, storeBlobAsUrl } from '../utils/imageBlobStore'
+import type { IncrementalPersistenceAdapter, PersistenceOp } from './PersistenceAdapter'
+import { applyPersistenceOps } from './changeLog'
+import { blobContentHash, readBlobBytes, request, transactionDone } from './indexedDBHelpers'
+
+const DB_VERSION = 2
+const DOCUMENTS = 'documents'
+const BLOBS = 'blobs'
+const CHECKPOINTS = 'checkpoints'
+/** Ops saved by `saveChanges` since the board's document was last written */
+const OPS = 'ops'
+
+/** Image sources in stored documents refer to the blob store with this prefix */
+const BLOB_REF_PREFIX = 'idb-blob:'
+
+/** @public */
+export interface IndexedDBAdapterOptions {
+  /** Board to save and load; boards share the database and its images (default: 'default') */
+  boardId?: string
+  /** Database name (default: 'react-whiteboard') */
+  databaseName?: string
+  /** IndexedDB implementation to use instead of the global `indexedDB`, e.g. fake-indexeddb in tests */
+  indexedDB?: IDBFactory
+  /** Called when a storage operation fails (e.g. quota exceeded) */
+  onError?: (error: Error) => void
+}
+
+/** A board's document, a checkpoint's document, or a batch of logged ops */
+interface DocumentRecord {
+  boardId: string
+  data: string
+  blobHashes: string[]
+}
+
+interface CheckpointRecord extends DocumentRecord {
+  id: string
+  checkpoint: Checkpoint
+}
+
+interface BlobRecord {
+  hash: string
+  type: string
+  bytes: ArrayBuffer
+}
+
+/** Props of the image shapes among `shapes`, whose `src` can be rewritten */
+function imageProps(shapes: Shape[]): { src: string }[] {
+  return shapes.filter((shape) => shape.type === 'image').map((shape) => shape.props as { src: string })
+}
+
+/** Hashes of the stored images that `shapes` refer to */
+function blobHashesOf(shapes: Shape[]): string[] {
+  const srcs = imageProps(shapes).map((props) => props.src).filter((src) => src.startsWith(BLOB_REF_PREFIX))
+  return [...new Set(srcs.map((src) => src.slice(BLOB_REF_PREFIX.length)))]
+}
+
+/**
+ * Persistence adapter backed by IndexedDB, with room for many boards.
+ *
+ * Documents are stored per `boardId`. Their images go to a separate store,
+ * keyed by a hash of their content, so each image is written once and an
+ * autosave only rewrites the document. Images no board or checkpoint refers
+ * to anymore are deleted. Accepts `blob:` image sources as they are.
+ *
+ * Incremental: `saveChanges` appends ops to a log that `load` replays and
+ * `compact` folds into the document.
+ * @public
+ */
+export class IndexedDBAdapter implements IncrementalPersistenceAdapter {
+  readonly acceptsBlobUrls = true
+  readonly boardId: string
+  private readonly databaseName: string
+  private readonly factory: IDBFactory | null
+  private readonly onError?: (error: Error) => void
+  private db: Promise<IDBDatabase> | null = null
+  /** Blob hashes of the last saved document, to tell when images may have become unused */
+  private savedHashes: string | null = null
+
+  constructor(options?: IndexedDBAdapterOptions) {
+    this.boardId = options?.boardId ?? 'default'
+    this.databaseName = options?.databaseName ?? 'react-whiteboard'
+    this.factory = options?.indexedDB ?? (typeof indexedDB === 'undefined' ? null : indexedDB)
+    this.onError = options?.onError
+  }
+
+  async save(data: string): Promise<void> {
+    if (!this.factory) return
+    try {
+      const { record, images } = await this.prepareDocument(data)
+      await this.writeWithImages(images, [DOCUMENTS, OPS], async (tx) => {
+        tx.objectStore(DOCUMENTS).put({ boardId: this.boardId, ...record } satisfies DocumentRecord)
+        await this.deleteLoggedOps(tx)
+      })
+
+      const hashes = record.blobHashes.join()
+      if (this.savedHashes !== null && this.savedHashes !== hashes) await this.deleteUnusedImages()
+      this.savedHashes = hashes
+    } catch (err) {
+      this.report(err)
+    }
+  }
+
+  async load(): Promise<string | null> {
+    if (!this.factory) return null
+    try {
+      const db = await this.open()
+      const board = await this.readBoard(db.transaction([DOCUMENTS, OPS]))
+      if (!board) return null
+      this.savedHashes = board.record.blobHashes.join()
+      return await this.restoreImages(board.record, (blob) => Promise.resolve(storeBlobAsUrl(blob)))
+    } catch (err) {
+      this.report(err)
+      return null
+    }
+  }
+
+  async clear(): Promise<void> {
+    if (!this.factory) return
+    try {
+      const db = await this.open()
+      const tx = db.transaction([DOCUMENTS, OPS], 'readwrite')
+      tx.objectStore(DOCUMENTS).delete(this.boardId)
+      await this.deleteLoggedOps(tx)
+      await transactionDone(tx)
+      this.savedHashes = null
+      await this.deleteUnusedImages()
+    } catch (err) {
+      this.report(err)
+    }
+  }
+
+  /** IDs of the boards saved in the database */
+  async listBoards(): Promise<string[]> {
+    if (!this.factory) return []
+    try {
+      const db = await this.open()
+      const tx = db.transaction([DOCUMENTS, OPS])
+      const boards = new Set((await request(tx.objectStore(DOCUMENTS).getAllKeys())).map(String))
+      // Boards that so far only have logged ops
+      await new Promise<void>((resolve, reject) => {
+        const req = tx.objectStore(OPS).index('boardId').openKeyCursor(null, 'nextunique')
+        req.onsuccess = () => {
+          if (!req.result) return resolve()
+          boards.add(String(req.result.key))
+          req.result.continue()
+        }
+        req.onerror = () => reject(req.error)
+      })
+      return [...boards]
+    } catch (err) {
+      this.report(err)
+      return []
+    }
+  }
+
+  async saveChanges(ops: PersistenceOp[]): Promise<void> {
+    if (!this.factory || ops.length === 0) return
+    try {
+      const logged = JSON.parse(JSON.stringify(ops)) as PersistenceOp[]
+      const images = await this.collectImages(
+        logged.flatMap((op) => (op.type === 'create' || op.type === 'update' ? op.shapes : [])),
+      )
+      await this.writeWithImages(images, [OPS], (tx) => {
+        tx.objectStore(OPS).add({
+          boardId: this.boardId, data: JSON.stringify(logged), blobHashes: [...images.keys()],
+        } satisfies DocumentRecord)
+      })
+    } catch (err) {
+      this.report(err)
+      throw err
+    }
+  }
+
+  async compact(): Promise<void> {
+    if (!this.factory) return
+    try {
+      const db = await this.open()
+      const tx = db.transaction([DOCUMENTS, OPS], 'readwrite')
+      const board = await this.readBoard(tx)
+      if (board && board.logged > 0) {
+        tx.objectStore(DOCUMENTS).put({ boardId: this.boardId, ...board.record } satisfies DocumentRecord)
+        await this.deleteLoggedOps(tx)
+      }
+      await transactionDone(tx)
+      if (board && board.logged > 0) {
+        this.savedHashes = board.record.blobHashes.join()
+        await this.deleteUnusedImages()
+      }
+    } catch (err) {
+      this.report(err)
+    }
+  }
+
+  async saveCheckpoint(checkpoint: Checkpoint, data: string): Promise<void> {
+    if (!this.factory) return
+    try {
+      const { record, images } = await this.prepareDocument(data)
+      await this.writeWithImages(images, [CHECKPOINTS], (tx) => {
+        tx.objectStore(CHECKPOINTS).put({
+          boardId: this.boardId, id: checkpoint.id, checkpoint, ...record,
+        } satisfies CheckpointRecord)
+      })
+    } catch (err) {
+      this.report(err)
+      throw err
+    }
+  }
+
+  /** Image sources come back as data URLs, as in `exportToJSON`, so checkpoints compare cleanly */
+  async loadCheckpoint(id: string): Promise<string | null> {
+    if (!this.factory) return null
+    try {
+      const db = await this.open()
+      const record = await request<CheckpointRecord | undefined>(
+        db.transaction(CHECKPOINTS).objectStore(CHECKPOINTS).get([this.boardId, id]),
+      )
+      return record ? await this.restoreImages(record, (blob) => blobToDataUrl(blob)) : null
+    } catch (err) {
+      this.report(err)
+      return null
+    }
+  }
+
+  async listCheckpoints(): Promise<Checkpoint[]> {
+    if (!this.factory) return []
+    try {
+      const db = await this.open()
+      const index = db.transaction(CHECKPOINTS).objectStore(CHECKPOINTS).index('boardId')
+      const records = await request<CheckpointRecord[]>(index.getAll(this.boardId))
+      return records.map((record) => record.checkpoint).sort((a, b) => a.createdAt - b.createdAt)
+    } catch (err) {
+      this.report(err)
+      return []
+    }
+  }
+
+  async deleteCheckpoint(id: string): Promise<void> {
+    if (!this.factory) return
+    try {
+      const db = await this.open()
+      const tx = db.transaction(CHECKPOINTS, 'readwrite')
+      tx.objectStore(CHECKPOINTS).delete([this.boardId, id])
+      await transactionDone(tx)
+      await this.deleteUnusedImages()
+    } catch (err) {
+      this.report(err)
+    }
+  }
+
+  /** Close the database connection; it reopens on the next call */
+  close(): void {
+    this.db?.then((db) => db.close(), () => {})
+    this.db = null
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const req = this.factory!.open(this.databaseName, DB_VERSION)
+      req.onupgradeneeded = (event) => {
+        const db = req.result
+        if (event.oldVersion < 1) {
+          db.createObjectStore(DOCUMENTS, { keyPath: 'boardId' })
+          db.createObjectStore(BLOBS, { keyPath: 'hash' })
+          db.createObjectStore(CHECKPOINTS, { keyPath: ['boardId', 'id'] }).createIndex('boardId', 'boardId')
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(OPS, { autoIncrement: true }).createIndex('boardId', 'boardId')
+        }
+      }
+      this.db = request(req).catch((err) => {
+        this.db = null
+        throw err
+      })
+    }
+    return this.db
+  }
+
+  /** `collectImages` for a serialized document: the rewritten record and the images it uses */
+  private async prepareDocument(
+    data: string,
+  ): Promise<{ record: Omit<DocumentRecord, 'boardId'>; images: Map<string, Blob> }> {
+    const doc = JSON.parse(data) as WhiteboardDocument
+    const images = await this.collectImages(doc.shapes)
+    return { record: { data: JSON.stringify(doc), blobHashes: [...images.keys()] }, images }
+  }
+
+  /**
+   * The images of `shapes` by content hash, with their sources pointed at
+   * the blob store (mutates `shapes`).
+   */
+  private async collectImages(shapes: Shape[]): Promise<Map<string, Blob>> {
+    const images = new Map<string, Blob>()
+    for (const props of imageProps(shapes)) {
+      const blob = isBlobUrl(props.src) ? getBlob(props.src) : dataUrlToBlob(props.src)
+      if (!blob) continue
+      const hash = await blobContentHash(blob)
+      images.set(hash, blob)
+      props.src = BLOB_REF_PREFIX + hash
+    }
+    return images
+  }
+
+  /**
+   * Run `write` in one readwrite transaction with the `images` not stored
+   * yet, so `deleteUnusedImages` can't drop them before the record that
+   * refers to them is written. Their bytes are read beforehand, as a
+   * transaction can't wait for anything but its own requests.
+   */
+  private async writeWithImages(
+    images: Map<string, Blob>,
+    stores: string[],
+    write: (tx: IDBTransaction) => void | Promise<void>,
+  ): Promise<void> {
+    const db = await this.open()
+    const hashes = [...images.keys()]
+    const records = new Map<string, BlobRecord>()
+    for (;;) {
+      const tx = db.transaction([BLOBS, ...stores], 'readwrite')
+      const done = transactionDone(tx)
+      const blobs = tx.objectStore(BLOBS)
+      const existing = await Promise.all(hashes.map((hash) => request(blobs.getKey(hash))))
+      const missing = hashes.filter((_, i) => existing[i] === undefined)
+      const unread = missing.filter((hash) => !records.has(hash))
+      if (unread.length > 0) {
+        tx.abort()
+        await done.catch(() => {})
+        for (const hash of unread) {
+          const blob = images.get(hash)!
+          records.set(hash, { hash, type: blob.type, bytes: await readBlobBytes(blob) })
+        }
+        continue
+      }
+      for (const hash of missing) blobs.put(records.get(hash)!)
+      await write(tx)
+      await done
+      return
+    }
+  }
+
+  /**
+   * The board's document with its logged ops replayed, image sources still
+   * pointing at the blob store, and the number of logged batches. Null if
+   * nothing is saved for the board.
+   */
+  private async readBoard(
+    tx: IDBTransaction,
+  ): Promise<{ record: Omit<DocumentRecord, 'boardId'>; logged: number } | null> {
+    const [document, logged] = await Promise.all([
+      request<DocumentRecord | undefined>(tx.objectStore(DOCUMENTS).get(this.boardId)),
+      request<DocumentRecord[]>(tx.objectStore(OPS).index('boardId').getAll(this.boardId)),
+    ])
+    if (logged.length === 0) return document ? { record: document, logged: 0 } : null
+    const doc = applyPersistenceOps(
+      document ? (JSON.parse(document.data) as WhiteboardDocument) : null,
+      logged.flatMap((record) => JSON.parse(record.data) as PersistenceOp[]),
+    )
+    return { record: { data: JSON.stringify(doc), blobHashes: blobHashesOf(doc.shapes) }, logged: logged.length }
+  }
+
+  /** Delete the board's logged ops as part of `tx` */
+  private async deleteLoggedOps(tx: IDBTransaction): Promise<void> {
+    const keys = await request(tx.objectStore(OPS).index('boardId').getAllKeys(this.boardId))
+    for (const key of keys) tx.objectStore(OPS).delete(key)
+  }
+
+  /** The stored document with its image sources turned back into `toSrc` of each image */
+  private async restoreImages(
+    record: Pick<DocumentRecord, 'data' | 'blobHashes'>,
+    toSrc: (blob: Blob) => Promise<string>,
+  ): Promise<string> {
+    const doc = JSON.parse(record.data) as WhiteboardDocument
+    const db = await this.open()
+    const store = db.transaction(BLOBS).objectStore(BLOBS)
+    const blobs = await Promise.all(record.blobHashes.map((hash) => request<BlobRecord | undefined>(store.get(hash))))
+    const sources = new Map<string, string>()
+    for (const blob of blobs) {
+      if (blob) sources.set(BLOB_REF_PREFIX + blob.hash, await toSrc(new Blob([blob.bytes], { type: blob.type })))
+    }
+    for (const props of imageProps(doc.shapes)) {
+      const src = sources.get(props.src)
+      if (src !== undefined) props.src = src
+    }
+    return JSON.stringify(doc)
+  }
+
+  /** Delete images that no board, logged op or checkpoint refers to */
+  private async deleteUnusedImages(): Promise<void> {
+    const db = await this.open()
+    const tx = db.transaction([DOCUMENTS, OPS, CHECKPOINTS, BLOBS], 'readwrite')
+    const [documents, logged, checkpoints, keys] = await Promise.all([
+      request<DocumentRecord[]>(tx.objectStore(DOCUMENTS).getAll()),
+      request<DocumentRecord[]>(tx.objectStore(OPS).getAll()),
+      request<CheckpointRecord[]>(tx.objectStore(CHECKPOINTS).getAll()),
+      request(tx.objectStore(BLOBS).getAllKeys()),
+    ])
+    const used = new Set([...documents, ...logged, ...checkpoints].flatMap((record) => record.blobHashes))
+    for (const key of keys) if (!used.has(String(key))) tx.objectStore(BLOBS).delete(key)
+    await transactionDone(tx)
+  }
+
+  private report(err: unknown): void {
+    this.onError?.(err instanceof Error ? err : new Error(String(err)))
+  }
+}
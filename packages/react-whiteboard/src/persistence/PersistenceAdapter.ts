@@ -1,14 +1,67 @@
+import type { Checkpoint, Shape, Viewport } from '../types'
+
 /**
  * Pluggable persistence adapter interface.
  *
  * Implement `save` and `load` to persist whiteboard state to any backend.
  * The optional `clear` method removes persisted data.
+ *
+ * Adapters that implement all four checkpoint methods also store named
+ * checkpoints (see `createCheckpoint`); otherwise they are kept in memory.
  * @public
  */
 export interface PersistenceAdapter {
   save(data: string): Promise<void>
   load(): Promise<string | null>
   clear?(): Promise<void>
+  /**
+   * Set when `save` and `saveCheckpoint` take `blob:` image sources from the
+   * image blob store as they are, so callers can skip inlining them as base64.
+   */
+  readonly acceptsBlobUrls?: boolean
+  /** Store a checkpoint with its serialized document. Rejects if it was not stored */
+  saveCheckpoint?(checkpoint: Checkpoint, data: string): Promise<void>
+  /** The serialized document of a checkpoint, or null if there is none */
+  loadCheckpoint?(id: string): Promise<string | null>
+  /** All stored checkpoints, oldest first */
+  listCheckpoints?(): Promise<Checkpoint[]>
+  deleteCheckpoint?(id: string): Promise<void>
+}
+
+/**
+ * A change to the saved board. `create` and `update` carry the whole shape
+ * after the change; `reorder` carries the complete top-level order and
+ * `viewport` the new pan and zoom.
+ * @public
+ */
+export type PersistenceOp =
+  | { type: 'create'; shapes: Shape[] }
+  | { type: 'update'; shapes: Shape[] }
+  | { type: 'delete'; ids: string[] }
+  | { type: 'reorder'; shapeIds: string[] }
+  | { type: 'viewport'; viewport: Viewport }
+
+/**
+ * Adapter that saves only what changed instead of the whole document.
+ *
+ * `WhiteboardProvider` autosaves through `saveChanges` with the shapes
+ * created, updated and deleted and the viewport changes since the last
+ * save, and calls `compact`
+ * every so often. `load` returns the last full document with the logged ops
+ * replayed on top (see `applyPersistenceOps`); `save` replaces both.
+ * @public
+ */
+export interface IncrementalPersistenceAdapter extends PersistenceAdapter {
+  /** Append ops to the log. Rejects if they were not saved, so they can be saved again later. */
+  saveChanges(ops: PersistenceOp[]): Promise<void>
+  /** Fold the log into the saved document */
+  compact(): Promise<void>
+}
+
+/** @public */
+export function isIncrementalAdapter(adapter: PersistenceAdapter): adapter is IncrementalPersistenceAdapter {
+  return typeof (adapter as Partial<IncrementalPersistenceAdapter>).saveChanges === 'function' &&
+    typeof (adapter as Partial<IncrementalPersistenceAdapter>).compact === 'function'
 }
 
 // ============================================================================
@@ -27,7 +80,8 @@ export interface LocalStorageAdapterOptions {
  * Default persistence adapter backed by `localStorage`.
  *
  * Handles SSR (no `window`), quota-exceeded errors, and private-browsing
- * restrictions gracefully — errors are forwarded to `onError` instead of thrown.
+ * restrictions gracefully — errors are forwarded to `onError` instead of thrown,
+ * except by `saveCheckpoint`, which also rejects so the checkpoint isn't listed.
  * @public
  */
 export class LocalStorageAdapter implements PersistenceAdapter {
@@ -66,4 +120,63 @@ export class LocalStorageAdapter implements PersistenceAdapter {
       this.onError?.(err instanceof Error ? err : new Error(String(err)))
     }
   }
+
+  // Checkpoints: an index under `<key>:checkpoints`, each snapshot under
+  // `<key>:checkpoint:<id>`
+
+  async saveCheckpoint(checkpoint: Checkpoint, data: string): Promise<void> {
+    if (typeof window === 'undefined') return
+    const snapshotKey = `${this.key}:checkpoint:${checkpoint.id}`
+    try {
+      localStorage.setItem(snapshotKey, data)
+      const index = this.readCheckpointIndex().filter((c) => c.id !== checkpoint.id)
+      localStorage.setItem(`${this.key}:checkpoints`, JSON.stringify([...index, checkpoint]))
+    } catch (err) {
+      // Don't leave a snapshot the index doesn't list
+      try {
+        localStorage.removeItem(snapshotKey)
+      } catch {
+        // Storage is unavailable; nothing was written
+      }
+      const error = err instanceof Error ? err : new Error(String(err))
+      this.onError?.(error)
+      throw error
+    }
+  }
+
+  async loadCheckpoint(id: string): Promise<string | null> {
+    if (typeof window === 'undefined') return null
+    try {
+      return localStorage.getItem(`${this.key}:checkpoint:${id}`)
+    } catch (err) {
+      this.onError?.(err instanceof Error ? err : new Error(String(err)))
+      return null
+    }
+  }
+
+  async listCheckpoints(): Promise<Checkpoint[]> {
+    if (typeof window === 'undefined') return []
+    try {
+      return this.readCheckpointIndex()
+    } catch (err) {
+      this.onError?.(err instanceof Error ? err : new Error(String(err)))
+      return []
+    }
+  }
+
+  async deleteCheckpoint(id: string): Promise<void> {
+    if (typeof window === 'undefined') return
+    try {
+      localStorage.removeItem(`${this.key}:checkpoint:${id}`)
+      const index = this.readCheckpointIndex().filter((c) => c.id !== id)
+      localStorage.setItem(`${this.key}:checkpoints`, JSON.stringify(index))
+    } catch (err) {
+      this.onError?.(err instanceof Error ? err : new Error(String(err)))
+    }
+  }
+
+  private readCheckpointIndex(): Checkpoint[] {
+    const raw = localStorage.getItem(`${this.key}:checkpoints`)
+    return raw ? (JSON.parse(raw) as Checkpoint[]) : []
+  }
 }
@@ -0,0 +1,161 @@
+import type { Shape } from '../types'
+import type { WhiteboardStore } from '../core/store/createStore'
+import { FORMAT_VERSION, resolveImageBlobUrls, type WhiteboardDocument } from '../utils/serialization'
+import type { PersistenceOp } from './PersistenceAdapter'
+
+type ShapeState = Pick<WhiteboardStore, 'shapes' | 'shapeIds' | 'viewport'>
+
+/**
+ * Collects the shapes created, updated and deleted across store updates,
+ * so an incremental save only writes those. Viewport changes are collected
+ * too when `trackViewport` is set.
+ * @internal
+ */
+export class ShapeChangeTracker {
+  private readonly added = new Set<string>()
+  private readonly updated = new Set<string>()
+  private readonly deleted = new Set<string>()
+  private reordered = false
+  private viewportChanged = false
+  private readonly trackViewport: boolean
+
+  constructor(options?: { trackViewport?: boolean }) {
+    this.trackViewport = options?.trackViewport ?? false
+  }
+
+  get hasChanges(): boolean {
+    return this.reordered || this.viewportChanged ||
+      this.added.size > 0 || this.updated.size > 0 || this.deleted.size > 0
+  }
+
+  /** Note what changed from `prev` to `next` */
+  record(prev: ShapeState, next: ShapeState): void {
+    if (next.shapes !== prev.shapes) {
+      for (const [id, shape] of next.shapes) {
+        const before = prev.shapes.get(id)
+        if (before === shape) continue
+        if (before) {
+          if (!this.added.has(id)) this.updated.add(id)
+        } else if (this.deleted.delete(id)) {
+          // Deleted and re-created since the last save: still saved under this ID
+          this.updated.add(id)
+        } else {
+          this.added.add(id)
+        }
+      }
+      for (const id of prev.shapes.keys()) {
+        if (next.shapes.has(id)) continue
+        this.updated.delete(id)
+        // A shape created and deleted between saves was never saved
+        if (!this.added.delete(id)) this.deleted.add(id)
+      }
+    }
+    if (next.shapeIds !== prev.shapeIds) this.reordered = true
+    if (this.trackViewport && next.viewport !== prev.viewport) this.viewportChanged = true
+  }
+
+  /** Ops for everything noted so far, with shapes as they are in `state`. Starts over. */
+  takeOps(state: ShapeState): PersistenceOp[] {
+    const shapesOf = (ids: Set<string>) =>
+      [...ids].map((id) => state.shapes.get(id)).filter((shape): shape is Shape => !!shape)
+    const ops: PersistenceOp[] = []
+    if (this.added.size > 0) ops.push({ type: 'create', shapes: shapesOf(this.added) })
+    if (this.updated.size > 0) ops.push({ type: 'update', shapes: shapesOf(this.updated) })
+    if (this.deleted.size > 0) ops.push({ type: 'delete', ids: [...this.deleted] })
+    if (this.reordered) ops.push({ type: 'reorder', shapeIds: [...state.shapeIds] })
+    if (this.viewportChanged) ops.push({ type: 'viewport', viewport: { ...state.viewport } })
+    this.reset()
+    return ops
+  }
+
+  /**
+   * Put back ops from `takeOps` that failed to save, merged with what
+   * changed since, so the next save writes them again.
+   */
+  restore(ops: PersistenceOp[]): void {
+    for (const op of ops) {
+      switch (op.type) {
+        case 'create':
+          for (const { id } of op.shapes) {
+            // Created then deleted before anything was saved
+            if (this.deleted.delete(id)) continue
+            this.updated.delete(id)
+            this.added.add(id)
+          }
+          break
+        case 'update':
+          for (const { id } of op.shapes) {
+            if (!this.added.has(id) && !this.deleted.has(id)) this.updated.add(id)
+          }
+          break
+        case 'delete':
+          for (const id of op.ids) {
+            // Re-created since: saved under this ID
+            if (this.added.delete(id)) this.updated.add(id)
+            else this.deleted.add(id)
+          }
+          break
+        case 'reorder':
+          this.reordered = true
+          break
+        case 'viewport':
+          this.viewportChanged = true
+          break
+      }
+    }
+  }
+
+  reset(): void {
+    this.added.clear()
+    this.updated.clear()
+    this.deleted.clear()
+    this.reordered = false
+    this.viewportChanged = false
+  }
+}
+
+/**
+ * Replay persistence ops on top of a document (or an empty board for null).
+ * The viewport is kept from `doc` unless an op changes it.
+ * @public
+ */
+export function applyPersistenceOps(doc: WhiteboardDocument | null, ops: PersistenceOp[]): WhiteboardDocument {
+  const shapes = new Map((doc?.shapes ?? []).map((shape) => [shape.id, shape]))
+  let shapeIds = doc?.shapeIds ?? []
+  let viewport = doc?.viewport ?? { x: 0, y: 0, zoom: 1 }
+  for (const op of ops) {
+    switch (op.type) {
+      case 'create':
+      case 'update':
+        for (const shape of op.shapes) shapes.set(shape.id, shape)
+        break
+      case 'delete':
+        for (const id of op.ids) shapes.delete(id)
+        break
+      case 'reorder':
+        shapeIds = op.shapeIds
+        break
+      case 'viewport':
+        viewport = op.viewport
+        break
+    }
+  }
+  return {
+    version: FORMAT_VERSION,
+    source: 'react-whiteboard',
+    viewport,
+    shapes: [...shapes.values()],
+    shapeIds: shapeIds.filter((id) => shapes.has(id)),
+  }
+}
+
+/**
+ * Ops with blob URL image sources inlined as DataURLs, for adapters that
+ * don't accept blob URLs.
+ * @internal
+ */
+export function resolveOpImageBlobUrls(ops: PersistenceOp[]): Promise<PersistenceOp[]> {
+  return Promise.all(ops.map(async (op) =>
+    op.type === 'create' || op.type === 'update' ? { ...op, shapes: await resolveImageBlobUrls(op.shapes) } : op,
+  ))
+}
@@ -1,2 +1,10 @@
-export type { PersistenceAdapter, LocalStorageAdapterOptions } from './PersistenceAdapter'
-export { LocalStorageAdapter } from './PersistenceAdapter'
+export type {
+  PersistenceAdapter,
+  IncrementalPersistenceAdapter,
+  PersistenceOp,
+  LocalStorageAdapterOptions,
+} from './PersistenceAdapter'
+export { LocalStorageAdapter, isIncrementalAdapter } from './PersistenceAdapter'
+export { ShapeChangeTracker, applyPersistenceOps, resolveOpImageBlobUrls } from './changeLog'
+export type { IndexedDBAdapterOptions } from './IndexedDBAdapter'
+export { IndexedDBAdapter } from './IndexedDBAdapter'
@@ -0,0 +1,56 @@
+import { hashBytes } from '../utils/fnv1a'
+
+/** @internal */
+export function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+/** @internal */
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'))
+  })
+}
+
+/** @internal */
+export function readBlobBytes(blob: Blob): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as ArrayBuffer)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsArrayBuffer(blob)
+  })
+}
+
+/**
+ * SHA-256 where available; two seeded FNV-1a passes plus the length elsewhere (e.g. insecure origins)
+ * @internal
+ */
+export async function contentHash(data: Uint8Array<ArrayBuffer>): Promise<string> {
+  if (globalThis.crypto?.subtle) {
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data))
+    return Array.from(digest, (b) => b.toString(16).padStart(2, '0')).join('')
+  }
+  return hashBytes(data)
+}
+
+/** Hashes of blobs already read, so autosaves don't re-read unchanged images */
+const hashCache = new WeakMap<Blob, string>()
+
+/**
+ * Hash of a blob's content, cached per blob.
+ * @internal
+ */
+export async function blobContentHash(blob: Blob): Promise<string> {
+  let hash = hashCache.get(blob)
+  if (!hash) {
+    hash = await contentHash(new Uint8Array(await readBlobBytes(blob)))
+    hashCache.set(blob, hash)
+  }
+  return hash
+}
@@ -0,0 +1,355 @@
+import { nanoid } from 'nanoid'
+import type { createWhiteboardStore } from '../core/store/createStore'
+import type { Shape } from '../types'
+import type {
+  SyncChange,
+  SyncOp,
+  SyncServerMessage,
+  SyncTransport,
+  VersionedShape,
+  VersionVector,
+} from './protocol'
+import {
+  applyChange,
+  cloneSyncState,
+  createSyncState,
+  fromSyncSnapshot,
+  getShapeVersion,
+  incrementVersion,
+  type SyncState,
+} from './syncState'
+
+/** Store API type that includes subscribeWithSelector overloads */
+type WhiteboardStoreApi = ReturnType<typeof createWhiteboardStore>
+
+/** @public */
+export interface SyncClientOptions {
+  /** Stable ID for this client (default: random). Reuse it across reloads to keep replay protection. */
+  clientId?: string
+  /**
+   * Store updates within this many ms are sent as one change, e.g. the
+   * frames of a drag (default: 50). 0 sends every update right away.
+   */
+  batchInterval?: number
+  /** Called when the server rejects a message */
+  onError?: (error: Error) => void
+}
+
+const DEFAULT_BATCH_INTERVAL = 50
+
+type SyncWrite =
+  | { type: 'create' | 'update'; entry: VersionedShape }
+  | { type: 'delete'; entry: { id: string; version: VersionVector } }
+
+/**
+ * `ops` folded into one op per shape, as if applied in order: the last
+ * write of each shape, and nothing for shapes created and deleted among
+ * them. The last reorder wins.
+ */
+function compactOps(ops: SyncOp[]): SyncOp[] {
+  const writes = new Map<string, SyncWrite>()
+  let reorder: Extract<SyncOp, { type: 'reorder' }> | null = null
+  for (const op of ops) {
+    switch (op.type) {
+      case 'create':
+      case 'update':
+        for (const entry of op.shapes) {
+          const prev = writes.get(entry.shape.id)
+          writes.set(entry.shape.id, { type: prev?.type === 'create' ? 'create' : op.type, entry })
+        }
+        break
+      case 'delete':
+        for (const entry of op.shapes) {
+          if (writes.get(entry.id)?.type === 'create') writes.delete(entry.id)
+          else writes.set(entry.id, { type: 'delete', entry })
+        }
+        break
+      case 'reorder':
+        reorder = op
+        break
+    }
+  }
+
+  const created: VersionedShape[] = []
+  const updated: VersionedShape[] = []
+  const deleted: { id: string; version: VersionVector }[] = []
+  for (const write of writes.values()) {
+    if (write.type === 'delete') deleted.push(write.entry)
+    else (write.type === 'create' ? created : updated).push(write.entry)
+  }
+  const compacted: SyncOp[] = []
+  if (created.length > 0) compacted.push({ type: 'create', shapes: created })
+  if (updated.length > 0) compacted.push({ type: 'update', shapes: updated })
+  if (deleted.length > 0) compacted.push({ type: 'delete', shapes: deleted })
+  if (reorder) compacted.push(reorder)
+  return compacted
+}
+
+/** @public */
+export type SyncClientStatus = 'offline' | 'connecting' | 'online'
+
+/**
+ * Syncs a whiteboard store with a `SyncRoom` over any `SyncTransport`.
+ *
+ * Local store updates become `SyncChange`s of create/update/delete/reorder
+ * ops — one per `batchInterval`, with one op per shape — applied
+ * optimistically and queued until the server echoes them back. The store always shows the server's state with the pending changes
+ * replayed on top, so remote changes are applied without history entries and
+ * conflicts resolve the same way the server resolves them.
+ *
+ * While offline, changes keep queueing, folded into one change per shape;
+ * on reconnect the client receives the snapshot, drops the changes the
+ * server already applied and resends the rest. Messages the server rejects
+ * go to `onError`.
+ * The server's document replaces the store's on join, unless it is empty —
+ * then the store seeds it.
+ * @public
+ */
+export class SyncClient {
+  readonly clientId: string
+  private readonly store: WhiteboardStoreApi
+  private readonly transport: SyncTransport
+  private readonly batchInterval: number
+  private readonly onError?: (error: Error) => void
+  /** Server state, as of the last change received */
+  private confirmed: SyncState = createSyncState()
+  /** `confirmed` with the pending changes replayed — what the store shows */
+  private local: SyncState = createSyncState()
+  private pending: SyncChange[] = []
+  private clientSeq = 0
+  /** `clientSeq` of the last change sent; later pending changes can still be folded together */
+  private lastSentSeq = 0
+  /** Store state before the updates not yet committed, and when they will be */
+  private batchBase: { shapes: Map<string, Shape>; shapeIds: string[] } | null = null
+  private batchTimer: ReturnType<typeof setTimeout> | null = null
+  private joined = false
+  private applyingRemote = false
+  private unsubscribe: (() => void) | null = null
+  private _status: SyncClientStatus = 'offline'
+  private statusListeners = new Set<(status: SyncClientStatus) => void>()
+
+  constructor(store: WhiteboardStoreApi, transport: SyncTransport, options?: SyncClientOptions) {
+    this.store = store
+    this.transport = transport
+    this.clientId = options?.clientId ?? nanoid()
+    this.batchInterval = options?.batchInterval ?? DEFAULT_BATCH_INTERVAL
+    this.onError = options?.onError
+  }
+
+  get status(): SyncClientStatus {
+    return this._status
+  }
+
+  /** Local changes not yet acknowledged by the server */
+  get pendingCount(): number {
+    return this.pending.length
+  }
+
+  /** Listen for status changes. Returns an unsubscribe function. */
+  onStatusChange(listener: (status: SyncClientStatus) => void): () => void {
+    this.statusListeners.add(listener)
+    return () => { this.statusListeners.delete(listener) }
+  }
+
+  /** Start tracking the store and open the transport */
+  connect(): void {
+    if (this.unsubscribe) return
+    this.unsubscribe = this.store.subscribe((state, prev) => {
+      if (this.applyingRemote) return
+      if (state.shapes === prev.shapes && state.shapeIds === prev.shapeIds) return
+      if (this.batchInterval === 0) {
+        this.commitLocal(prev.shapes, state.shapes, prev.shapeIds, state.shapeIds)
+      } else if (!this.batchBase) {
+        this.batchBase = { shapes: prev.shapes, shapeIds: prev.shapeIds }
+        this.batchTimer = setTimeout(() => this.flush(), this.batchInterval)
+      }
+    })
+    this.setStatus('connecting')
+    this.transport.connect({
+      onOpen: () => {
+        this.setStatus('connecting')
+        this.transport.send({ type: 'hello', clientId: this.clientId })
+      },
+      onMessage: (message) => this.handleMessage(message),
+      onClose: () => this.setStatus('offline'),
+    })
+  }
+
+  /** Stop tracking the store and close the transport. Pending changes are kept. */
+  disconnect(): void {
+    this.flush()
+    this.unsubscribe?.()
+    this.unsubscribe = null
+    this.transport.close()
+    this.setStatus('offline')
+  }
+
+  private setStatus(status: SyncClientStatus): void {
+    if (status === this._status) return
+    this._status = status
+    for (const listener of this.statusListeners) listener(status)
+  }
+
+  // ---- Local → server ----
+
+  /** Commit the store updates batched so far */
+  private flush(): void {
+    if (this.batchTimer !== null) clearTimeout(this.batchTimer)
+    this.batchTimer = null
+    const base = this.batchBase
+    if (!base) return
+    this.batchBase = null
+    const { shapes, shapeIds } = this.store.getState()
+    this.commitLocal(base.shapes, shapes, base.shapeIds, shapeIds)
+  }
+
+  /** Turn a store update into a change and queue it */
+  private commitLocal(
+    prevShapes: Map<string, Shape>,
+    shapes: Map<string, Shape>,
+    prevIds: string[],
+    shapeIds: string[],
+  ): void {
+    const ops = this.diff(prevShapes, shapes, prevIds, shapeIds)
+    if (ops.length === 0) return
+    applyChange(this.local, { clientId: this.clientId, clientSeq: this.clientSeq, ops })
+    const last = this.pending[this.pending.length - 1]
+    if (this._status !== 'online' && last && last.clientSeq > this.lastSentSeq) {
+      // Not sent yet: fold into the queued change, so the queue doesn't grow per update
+      this.pending[this.pending.length - 1] = { ...last, ops: compactOps([...last.ops, ...ops]) }
+      return
+    }
+    const change: SyncChange = { clientId: this.clientId, clientSeq: ++this.clientSeq, ops }
+    this.pending.push(change)
+    if (this._status === 'online') this.send(change)
+  }
+
+  private send(change: SyncChange): void {
+    this.transport.send({ type: 'change', change })
+    this.lastSentSeq = change.clientSeq
+  }
+
+  private diff(
+    prevShapes: Map<string, Shape>,
+    shapes: Map<string, Shape>,
+    prevIds: string[],
+    shapeIds: string[],
+  ): SyncOp[] {
+    const created: VersionedShape[] = []
+    const updated: VersionedShape[] = []
+    const deleted: { id: string; version: VersionVector }[] = []
+    if (shapes !== prevShapes) {
+      for (const [id, shape] of shapes) {
+        const prev = prevShapes.get(id)
+        if (prev === shape) continue
+        const entry = { shape, version: incrementVersion(getShapeVersion(this.local, id), this.clientId) }
+        if (prev) updated.push(entry)
+        else created.push(entry)
+      }
+      for (const id of prevShapes.keys()) {
+        if (shapes.has(id)) continue
+        deleted.push({ id, version: incrementVersion(getShapeVersion(this.local, id), this.clientId) })
+      }
+    }
+
+    const ops: SyncOp[] = []
+    if (created.length > 0) ops.push({ type: 'create', shapes: created })
+    if (updated.length > 0) ops.push({ type: 'update', shapes: updated })
+    if (deleted.length > 0) ops.push({ type: 'delete', shapes: deleted })
+    const reordered = shapeIds !== prevIds &&
+      (shapeIds.length !== prevIds.length || shapeIds.some((id, i) => id !== prevIds[i]))
+    if (reordered) {
+      ops.push({ type: 'reorder', shapeIds, version: incrementVersion(this.local.orderVersion, this.clientId) })
+    }
+    return ops
+  }
+
+  // ---- Server → local ----
+
+  private handleMessage(message: SyncServerMessage): void {
+    // Local updates go first, as the store is rebuilt from the queued changes
+    this.flush()
+    switch (message.type) {
+      case 'welcome': {
+        const isFirstJoin = !this.joined
+        this.joined = true
+        this.confirmed = fromSyncSnapshot(message.snapshot)
+        for (const change of message.changes) this.applyConfirmed(change)
+        if (isFirstJoin) {
+          // Changes made before the first join are new to the server — number
+          // them after whatever it has seen from this client ID
+          this.clientSeq = message.lastClientSeq
+          this.pending = this.pending.map((change) => ({ ...change, clientSeq: ++this.clientSeq }))
+        } else {
+          this.pending = this.pending.filter((change) => change.clientSeq > message.lastClientSeq)
+        }
+
+        const isEmpty = this.confirmed.seq === 0 && this.confirmed.shapes.size === 0
+        this.rebuildLocal()
+        if (isFirstJoin && isEmpty) {
+          // Seed the empty room with what the store already holds
+          const { shapes, shapeIds } = this.store.getState()
+          this.commitLocal(new Map(), shapes, [], shapeIds)
+        }
+        this.setStatus('online')
+        for (const change of [...this.pending]) this.send(change)
+        if (!(isFirstJoin && isEmpty)) this.applyToStore()
+        break
+      }
+      case 'change': {
+        const { change } = message
+        const own = this.pending[0]
+        if (change.clientId === this.clientId && own?.clientSeq === change.clientSeq) {
+          // Acknowledgement: apply our own copy, which holds the store's shape objects
+          this.pending.shift()
+          this.applyConfirmed({ ...own, seq: change.seq })
+        } else {
+          this.applyConfirmed(change)
+        }
+        this.rebuildLocal()
+        this.applyToStore()
+        break
+      }
+      case 'error':
+        this.onError?.(new Error(message.message))
+        break
+    }
+  }
+
+  private applyConfirmed(change: SyncChange & { seq: number }): void {
+    applyChange(this.confirmed, change)
+    this.confirmed.seq = change.seq
+  }
+
+  private rebuildLocal(): void {
+    this.local = cloneSyncState(this.confirmed)
+    for (const change of this.pending) applyChange(this.local, change)
+  }
+
+  /** Show `local` in the store, keeping shape objects that did not change */
+  private applyToStore(): void {
+    const state = this.store.getState()
+    let changed = this.local.shapes.size !== state.shapes.size
+    const shapes = new Map<string, Shape>()
+    for (const [id, { shape }] of this.local.shapes) {
+      shapes.set(id, shape)
+      if (state.shapes.get(id) !== shape) changed = true
+    }
+    const shapeIds = this.local.shapeIds
+    const idsChanged = shapeIds.length !== state.shapeIds.length ||
+      shapeIds.some((id, i) => id !== state.shapeIds[i])
+    if (!changed && !idsChanged) return
+
+    let selectedIds = state.selectedIds
+    if ([...selectedIds].some((id) => !shapes.has(id))) {
+      selectedIds = new Set([...selectedIds].filter((id) => shapes.has(id)))
+    }
+    this.applyingRemote = true
+    this.store.setState({
+      shapes: changed ? shapes : state.shapes,
+      shapeIds: idsChanged ? shapeIds : state.shapeIds,
+      selectedIds,
+    })
+    this.applyingRemote = false
+  }
+}
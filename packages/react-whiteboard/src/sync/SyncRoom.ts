@@ -0,0 +1,121 @@
+import type { SequencedChange, SyncClientMessage, SyncServerMessage, SyncSnapshot } from './protocol'
+import {
+  applyChange,
+  createSyncState,
+  fromSyncSnapshot,
+  toSyncSnapshot,
+  type SyncState,
+} from './syncState'
+
+/** @public */
+export interface SyncRoomOptions {
+  /** Snapshot to start from (e.g. restored from disk) */
+  snapshot?: SyncSnapshot
+  /** Changes kept after the snapshot before they are folded into it (default: 500) */
+  maxLogLength?: number
+}
+
+/** A connected peer: where to send its messages and which client it is */
+interface RoomConnection {
+  send: (message: SyncServerMessage) => void
+  clientId: string | null
+}
+
+const DEFAULT_MAX_LOG_LENGTH = 500
+
+/**
+ * Authoritative sync room, independent of any network library.
+ *
+ * Applies incoming changes in arrival order, numbers them, and broadcasts
+ * them to every connection — the sender included, which serves as its
+ * acknowledgement. Late joiners get the snapshot followed by the logged
+ * changes after it. Replayed changes (already applied `clientSeq`) are dropped.
+ * @public
+ */
+export class SyncRoom {
+  private state: SyncState
+  private snapshot: SyncSnapshot
+  private log: SequencedChange[] = []
+  private readonly lastClientSeq = new Map<string, number>()
+  private readonly connections = new Set<RoomConnection>()
+  private readonly maxLogLength: number
+
+  constructor(options?: SyncRoomOptions) {
+    this.maxLogLength = options?.maxLogLength ?? DEFAULT_MAX_LOG_LENGTH
+    this.state = options?.snapshot ? fromSyncSnapshot(options.snapshot) : createSyncState()
+    this.snapshot = toSyncSnapshot(this.state)
+  }
+
+  /** Number of open connections */
+  get size(): number {
+    return this.connections.size
+  }
+
+  /** Current sequence number */
+  get seq(): number {
+    return this.state.seq
+  }
+
+  /**
+   * Register a connection. Returns the handler for its incoming messages
+   * and a function to call when it closes.
+   */
+  connect(send: (message: SyncServerMessage) => void): {
+    receive: (message: SyncClientMessage) => void
+    disconnect: () => void
+  } {
+    const connection: RoomConnection = { send, clientId: null }
+    this.connections.add(connection)
+    return {
+      receive: (message) => this.receive(connection, message),
+      disconnect: () => { this.connections.delete(connection) },
+    }
+  }
+
+  /** The current document state as a snapshot */
+  getSnapshot(): SyncSnapshot {
+    return toSyncSnapshot(this.state)
+  }
+
+  private receive(connection: RoomConnection, message: SyncClientMessage): void {
+    switch (message.type) {
+      case 'hello':
+        connection.clientId = message.clientId
+        connection.send({
+          type: 'welcome',
+          snapshot: this.snapshot,
+          changes: this.log,
+          lastClientSeq: this.lastClientSeq.get(message.clientId) ?? 0,
+        })
+        break
+      case 'change': {
+        const { change } = message
+        if (connection.clientId === null || change.clientId !== connection.clientId) {
+          connection.send({ type: 'error', message: 'Change sent before hello or for another client' })
+          return
+        }
+        if (change.clientSeq <= (this.lastClientSeq.get(change.clientId) ?? 0)) return
+        this.lastClientSeq.set(change.clientId, change.clientSeq)
+
+        applyChange(this.state, change)
+        this.state.seq++
+        const sequenced: SequencedChange = { ...change, seq: this.state.seq }
+        this.log.push(sequenced)
+        if (this.log.length > this.maxLogLength) this.compact()
+
+        for (const peer of this.connections) {
+          if (peer.clientId !== null) peer.send({ type: 'change', change: sequenced })
+        }
+        break
+      }
+      default:
+        connection.send({ type: 'error', message: 'Unknown message type' })
+    }
+  }
+
+  /** Fold the log into the snapshot */
+  private compact(): void {
+    this.snapshot = toSyncSnapshot(this.state)
+    this.log = []
+  }
+}
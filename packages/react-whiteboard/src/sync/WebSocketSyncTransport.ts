@@ -0,0 +1,88 @@
+import type { SyncClientMessage, SyncServerMessage, SyncTransport, SyncTransportHandlers } from './protocol'
+
+/** Minimal WebSocket constructor — the browser's, or e.g. the `ws` package's in Node */
+type WebSocketConstructor = new (url: string) => WebSocket
+
+/** @public */
+export interface WebSocketSyncTransportOptions {
+  /** WebSocket implementation (default: the global `WebSocket`) */
+  WebSocket?: WebSocketConstructor
+  /** Delay before the first reconnect attempt in ms (default: 500) */
+  reconnectDelay?: number
+  /** Upper bound for the exponential reconnect backoff in ms (default: 10000) */
+  maxReconnectDelay?: number
+}
+
+/**
+ * JSON-over-WebSocket sync transport that reconnects with exponential backoff
+ * until `close()` is called.
+ * @public
+ */
+export class WebSocketSyncTransport implements SyncTransport {
+  private readonly url: string
+  private readonly WebSocketImpl: WebSocketConstructor
+  private readonly reconnectDelay: number
+  private readonly maxReconnectDelay: number
+  private socket: WebSocket | null = null
+  private handlers: SyncTransportHandlers | null = null
+  private attempts = 0
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(url: string, options?: WebSocketSyncTransportOptions) {
+    this.url = url
+    this.WebSocketImpl = options?.WebSocket ?? WebSocket
+    this.reconnectDelay = options?.reconnectDelay ?? 500
+    this.maxReconnectDelay = options?.maxReconnectDelay ?? 10000
+  }
+
+  connect(handlers: SyncTransportHandlers): void {
+    this.handlers = handlers
+    this.open()
+  }
+
+  send(message: SyncClientMessage): void {
+    if (this.socket?.readyState === 1) this.socket.send(JSON.stringify(message))
+  }
+
+  close(): void {
+    this.handlers = null
+    if (this.reconnectTimer !== null) clearTimeout(this.reconnectTimer)
+    this.reconnectTimer = null
+    this.socket?.close()
+    this.socket = null
+  }
+
+  private open(): void {
+    const socket = new this.WebSocketImpl(this.url)
+    this.socket = socket
+    socket.onopen = () => {
+      this.attempts = 0
+      this.handlers?.onOpen()
+    }
+    socket.onmessage = (event: MessageEvent) => {
+      let message: SyncServerMessage
+      try {
+        message = JSON.parse(String(event.data)) as SyncServerMessage
+      } catch {
+        return
+      }
+      this.handlers?.onMessage(message)
+    }
+    socket.onclose = () => {
+      if (this.socket !== socket) return
+      this.socket = null
+      if (!this.handlers) return
+      this.handlers.onClose()
+      this.scheduleReconnect()
+    }
+  }
+
+  private scheduleReconnect(): void {
+    const delay = Math.min(this.reconnectDelay * 2 ** this.attempts, this.maxReconnectDelay)
+    this.attempts++
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      if (this.handlers) this.open()
+    }, delay)
+  }
+}
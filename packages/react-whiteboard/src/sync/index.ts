@@ -0,0 +1,28 @@
+export type {
+  VersionVector,
+  VersionedShape,
+  SyncOp,
+  SyncChange,
+  SequencedChange,
+  SyncSnapshot,
+  SyncClientMessage,
+  SyncServerMessage,
+  SyncTransport,
+  SyncTransportHandlers,
+} from './protocol'
+export {
+  applyChange,
+  compareVersions,
+  mergeVersions,
+  incrementVersion,
+  createSyncState,
+  toSyncSnapshot,
+  fromSyncSnapshot,
+} from './syncState'
+export type { SyncState, VersionOrder } from './syncState'
+export { SyncRoom } from './SyncRoom'
+export type { SyncRoomOptions } from './SyncRoom'
+export { SyncClient } from './SyncClient'
+export type { SyncClientOptions, SyncClientStatus } from './SyncClient'
+export { WebSocketSyncTransport } from './WebSocketSyncTransport'
+export type { WebSocketSyncTransportOptions } from './WebSocketSyncTransport'
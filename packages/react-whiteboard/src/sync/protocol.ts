@@ -0,0 +1,112 @@
+import type { Shape } from '../types'
+
+// ============================================================================
+// Operations
+// ============================================================================
+
+/**
+ * Per-shape version vector: client ID → number of writes by that client.
+ * A write that has seen another one carries a vector that dominates it.
+ * @public
+ */
+export type VersionVector = Record<string, number>
+
+/** @public */
+export interface VersionedShape {
+  shape: Shape
+  version: VersionVector
+}
+
+/**
+ * A sync operation, shaped like the store's `HistoryAction`s.
+ * `create` and `update` carry the full shape after the change; `delete`
+ * carries the deleted IDs; `reorder` carries the complete top-level order.
+ * @public
+ */
+export type SyncOp =
+  | { type: 'create'; shapes: VersionedShape[] }
+  | { type: 'update'; shapes: VersionedShape[] }
+  | { type: 'delete'; shapes: { id: string; version: VersionVector }[] }
+  | { type: 'reorder'; shapeIds: string[]; version: VersionVector }
+
+/**
+ * Operations produced by one local store update, applied atomically.
+ * `clientSeq` increases by one per change and lets the server drop replays.
+ * @public
+ */
+export interface SyncChange {
+  clientId: string
+  clientSeq: number
+  ops: SyncOp[]
+}
+
+/**
+ * A change accepted by the server, numbered in the order it was applied.
+ * @public
+ */
+export interface SequencedChange extends SyncChange {
+  seq: number
+}
+
+/**
+ * Serializable document state at a given sequence number.
+ * Tombstones keep the version of deleted shapes so stale updates cannot revive them.
+ * @public
+ */
+export interface SyncSnapshot {
+  seq: number
+  shapes: VersionedShape[]
+  tombstones: Record<string, VersionVector>
+  shapeIds: string[]
+  orderVersion: VersionVector
+}
+
+// ============================================================================
+// Messages
+// ============================================================================
+
+/**
+ * Client → server messages.
+ * - `hello`: sent on every (re)connect, answered with `welcome`
+ * - `change`: a local change, answered by its broadcast back to every client
+ * @public
+ */
+export type SyncClientMessage =
+  | { type: 'hello'; clientId: string }
+  | { type: 'change'; change: SyncChange }
+
+/**
+ * Server → client messages.
+ * - `welcome`: the snapshot, the changes after it, and the last `clientSeq`
+ *   applied for this client (so it can drop pending changes the server already has)
+ * - `change`: a change accepted from any client, including the recipient's own
+ * - `error`: the previous message was rejected
+ * @public
+ */
+export type SyncServerMessage =
+  | { type: 'welcome'; snapshot: SyncSnapshot; changes: SequencedChange[]; lastClientSeq: number }
+  | { type: 'change'; change: SequencedChange }
+  | { type: 'error'; message: string }
+
+// ============================================================================
+// Transport
+// ============================================================================
+
+/** @public */
+export interface SyncTransportHandlers {
+  onOpen: () => void
+  onMessage: (message: SyncServerMessage) => void
+  onClose: () => void
+}
+
+/**
+ * Pluggable message transport between a `SyncClient` and a `SyncRoom`.
+ * Implementations reconnect on their own and call `onOpen` after each
+ * (re)connection; `send` is only called while open.
+ * @public
+ */
+export interface SyncTransport {
+  connect(handlers: SyncTransportHandlers): void
+  send(message: SyncClientMessage): void
+  close(): void
+}
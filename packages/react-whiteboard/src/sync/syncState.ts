@@ -0,0 +1,191 @@
+import type { SyncChange, SyncOp, SyncSnapshot, VersionedShape, VersionVector } from './protocol'
+
+/**
+ * In-memory document state shared by `SyncRoom` and `SyncClient`.
+ * Both apply changes with `applyChange`, which is deterministic, so a
+ * client replaying the server's order always reaches the server's state.
+ * @public
+ */
+export interface SyncState {
+  seq: number
+  shapes: Map<string, VersionedShape>
+  tombstones: Map<string, VersionVector>
+  shapeIds: string[]
+  orderVersion: VersionVector
+}
+
+/** @public */
+export type VersionOrder = 'equal' | 'before' | 'after' | 'concurrent'
+
+// ============================================================================
+// Version vectors
+// ============================================================================
+
+/**
+ * Causal order of `a` relative to `b`.
+ * @public
+ */
+export function compareVersions(a: VersionVector, b: VersionVector): VersionOrder {
+  let aAhead = false
+  let bAhead = false
+  for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    const av = a[key] ?? 0
+    const bv = b[key] ?? 0
+    if (av > bv) aAhead = true
+    else if (bv > av) bAhead = true
+  }
+  if (aAhead && bAhead) return 'concurrent'
+  if (aAhead) return 'after'
+  if (bAhead) return 'before'
+  return 'equal'
+}
+
+/** @public */
+export function mergeVersions(a: VersionVector, b: VersionVector): VersionVector {
+  const merged = { ...a }
+  for (const [key, value] of Object.entries(b)) {
+    merged[key] = Math.max(merged[key] ?? 0, value)
+  }
+  return merged
+}
+
+/**
+ * Version for a new write by `clientId` on top of `base`.
+ * @public
+ */
+export function incrementVersion(base: VersionVector, clientId: string): VersionVector {
+  return { ...base, [clientId]: (base[clientId] ?? 0) + 1 }
+}
+
+// ============================================================================
+// State
+// ============================================================================
+
+/** @public */
+export function createSyncState(): SyncState {
+  return { seq: 0, shapes: new Map(), tombstones: new Map(), shapeIds: [], orderVersion: {} }
+}
+
+/** Shallow copy — entries are replaced, never mutated, so they can be shared */
+export function cloneSyncState(state: SyncState): SyncState {
+  return {
+    seq: state.seq,
+    shapes: new Map(state.shapes),
+    tombstones: new Map(state.tombstones),
+    shapeIds: state.shapeIds,
+    orderVersion: state.orderVersion,
+  }
+}
+
+/** @public */
+export function toSyncSnapshot(state: SyncState): SyncSnapshot {
+  return {
+    seq: state.seq,
+    shapes: [...state.shapes.values()],
+    tombstones: Object.fromEntries(state.tombstones),
+    shapeIds: state.shapeIds,
+    orderVersion: state.orderVersion,
+  }
+}
+
+/** @public */
+export function fromSyncSnapshot(snapshot: SyncSnapshot): SyncState {
+  return {
+    seq: snapshot.seq,
+    shapes: new Map(snapshot.shapes.map((entry) => [entry.shape.id, entry])),
+    tombstones: new Map(Object.entries(snapshot.tombstones)),
+    shapeIds: snapshot.shapeIds,
+    orderVersion: snapshot.orderVersion,
+  }
+}
+
+/** Version of the latest write on a shape, live or deleted */
+export function getShapeVersion(state: SyncState, id: string): VersionVector {
+  return state.shapes.get(id)?.version ?? state.tombstones.get(id) ?? {}
+}
+
+// ============================================================================
+// Applying operations
+// ============================================================================
+
+/**
+ * Write a shape. Stale writes (already seen) are dropped, and a deleted
+ * shape only comes back through a write that has seen its deletion —
+ * a concurrent update loses against a delete.
+ */
+function applyPut(state: SyncState, entry: VersionedShape): void {
+  const id = entry.shape.id
+  const tombstone = state.tombstones.get(id)
+  if (tombstone) {
+    if (compareVersions(entry.version, tombstone) !== 'after') return
+    state.tombstones.delete(id)
+    state.shapes.set(id, entry)
+    return
+  }
+  const current = state.shapes.get(id)
+  if (current) {
+    const order = compareVersions(entry.version, current.version)
+    if (order === 'before' || order === 'equal') return
+    state.shapes.set(id, { shape: entry.shape, version: mergeVersions(current.version, entry.version) })
+    return
+  }
+  state.shapes.set(id, entry)
+}
+
+function applyDelete(state: SyncState, id: string, version: VersionVector): void {
+  const current = state.shapes.get(id)
+  if (!current) {
+    const tombstone = state.tombstones.get(id)
+    state.tombstones.set(id, tombstone ? mergeVersions(tombstone, version) : version)
+    return
+  }
+  const order = compareVersions(version, current.version)
+  if (order === 'before' || order === 'equal') return
+  state.shapes.delete(id)
+  state.tombstones.set(id, mergeVersions(current.version, version))
+}
+
+/**
+ * Replace the top-level order. An order written without seeing the current
+ * one keeps the current order's top-level shapes it does not mention, so
+ * concurrently created shapes are not lost.
+ */
+function applyReorder(state: SyncState, shapeIds: string[], version: VersionVector): void {
+  const order = compareVersions(version, state.orderVersion)
+  if (order === 'before' || order === 'equal') return
+  const next = [...new Set(shapeIds)]
+  if (order === 'concurrent') {
+    const mentioned = new Set(next)
+    for (const id of state.shapeIds) {
+      if (!mentioned.has(id) && state.shapes.get(id)?.shape.parentId === null) next.push(id)
+    }
+  }
+  state.shapeIds = next
+  state.orderVersion = mergeVersions(state.orderVersion, version)
+}
+
+function applyOp(state: SyncState, op: SyncOp): void {
+  switch (op.type) {
+    case 'create':
+    case 'update':
+      for (const entry of op.shapes) applyPut(state, entry)
+      break
+    case 'delete':
+      for (const { id, version } of op.shapes) applyDelete(state, id, version)
+      break
+    case 'reorder':
+      applyReorder(state, op.shapeIds, op.version)
+      break
+  }
+}
+
+/**
+ * Apply a change in place. The top-level order is pruned of deleted shapes afterwards.
+ * @public
+ */
+export function applyChange(state: SyncState, change: SyncChange): void {
+  for (const op of change.ops) applyOp(state, op)
+  if (state.shapeIds.some((id) => !state.shapes.has(id))) {
+    state.shapeIds = state.shapeIds.filter((id) => state.shapes.has(id))
+  }
+}
@@ -1,9 +1,17 @@
-import type { ArrowShape, Point } from '../types'
+import type { WhiteboardStore } from '../core/store'
+import type { ArrowShape, Point, Shape, Viewport } from '../types'
 import { BaseLineTool } from './BaseLineTool'
+import {
+  BINDING_DISTANCE,
+  findBindingTarget,
+  getArrowEndpoints,
+  resolveBoundArrow,
+} from '../utils/arrowBinding'
 
 /**
  * Arrow tool - draws arrows by dragging
  * Shift+drag snaps to 45-degree angles
+ * Endpoints released over a shape's outline bind to that shape
  */
 export class ArrowTool extends BaseLineTool {
   readonly type = 'arrow' as const
@@ -44,6 +52,32 @@ export class ArrowTool extends BaseLineTool {
     }
   }
 
+  /**
+   * Bind endpoints released over a shape's outline and snap them to it
+   */
+  protected override finalizeShape(
+    shape: Shape,
+    store: WhiteboardStore,
+    viewport: Viewport
+  ): Shape {
+    if (shape.type !== 'arrow') return shape
+
+    const threshold = BINDING_DISTANCE / viewport.zoom
+    const { start, end } = getArrowEndpoints(shape)
+    const endBinding = findBindingTarget(end, store.shapes, store.shapeIds, threshold)
+    let startBinding = findBindingTarget(start, store.shapes, store.shapeIds, threshold)
+    // Both ends on the same shape would collapse the arrow; keep the end binding only
+    if (startBinding && endBinding && startBinding.shapeId === endBinding.shapeId) {
+      startBinding = null
+    }
+    if (!startBinding && !endBinding) return shape
+
+    return resolveBoundArrow(
+      { ...shape, props: { ...shape.props, startBinding, endBinding } },
+      store.shapes
+    )
+  }
+
   /**
    * Render arrowhead on preview overlay
    */
@@ -112,7 +112,11 @@ export abstract class BaseLineTool implements ITool {
 
     let createdShape: Shape | undefined
     if (length >= MIN_LENGTH) {
-      createdShape = this.createShape(state.dragStart, endPoint)
+      createdShape = this.finalizeShape(
+        this.createShape(state.dragStart, endPoint),
+        store,
+        ctx.viewport
+      )
     }
 
     // Clear drag state BEFORE adding shape to store.
@@ -141,6 +145,18 @@ export abstract class BaseLineTool implements ITool {
    */
   protected abstract createShape(start: Point, end: Point): Shape
 
+  /**
+   * Hook for subclasses to adjust the created shape against the current
+   * store state before it is added (e.g., arrow bindings)
+   */
+  protected finalizeShape(
+    shape: Shape,
+    _store: WhiteboardStore,
+    _viewport: Viewport
+  ): Shape {
+    return shape
+  }
+
   /**
    * Reset tool state after drawing
    */
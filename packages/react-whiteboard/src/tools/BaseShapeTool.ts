@@ -39,6 +39,22 @@ export abstract class BaseShapeTool implements ITool {
   /** Create the final shape instance to be added to the store */
   protected abstract createShapeInstance(bounds: ShapeBounds, seed: number): Shape
 
+  /** Add the finished shape to the store, recording history */
+  protected addToStore(store: WhiteboardStore, shape: Shape): void {
+    store.addShape(shape, true)
+  }
+
+  /** Bounds of the shape to create when the drag ends, or null to create nothing */
+  protected resolveFinalBounds(bounds: ShapeBounds): ShapeBounds | null {
+    return bounds.width > 5 && bounds.height > 5 ? bounds : null
+  }
+
+  /** Called after the shape is added; by default selects it with the select tool */
+  protected onShapeCreated(_ctx: ToolEventContext, store: WhiteboardStore, shape: Shape): void {
+    store.setTool('select')
+    store.select(shape.id)
+  }
+
   /** Render the preview shape on the overlay canvas */
   protected abstract renderPreview(ctx: CanvasRenderingContext2D, rc: RoughCanvas, shape: Shape): void
 
@@ -98,7 +114,9 @@ export abstract class BaseShapeTool implements ITool {
       return { handled: false }
     }
 
-    const bounds = this.calculateBounds(state.dragStart, ctx.canvasPoint, ctx.shiftKey)
+    const bounds = this.resolveFinalBounds(
+      this.calculateBounds(state.dragStart, ctx.canvasPoint, ctx.shiftKey),
+    )
 
     // Clear drag state BEFORE adding shape to store.
     // Canvas scheduleStaticRender skips when toolManager.isDragging() is true,
@@ -110,18 +128,17 @@ export abstract class BaseShapeTool implements ITool {
     this.previewShape = null
 
     let createdShape: Shape | undefined
-    if (bounds.width > 5 && bounds.height > 5) {
+    if (bounds) {
       // Use the same seed as preview so the shape doesn't visually jump
       createdShape = this.createShapeInstance(bounds, this.previewSeed)
-      store.addShape(createdShape, true)
+      this.addToStore(store, createdShape)
       // Generate new seed for next shape
       this.previewSeed = Math.floor(Math.random() * 2147483647)
     }
 
-    // Switch to select tool with the new shape selected
+    // Hand off the new shape (selected with the select tool by default)
     if (createdShape) {
-      store.setTool('select')
-      store.select(createdShape.id)
+      this.onShapeCreated(ctx, store, createdShape)
     }
 
     return {
@@ -0,0 +1,237 @@
+import type { WhiteboardStore } from '../core/store'
+import type { PathShape, Point, Shape, Viewport } from '../types'
+import type {
+  ITool,
+  ToolEventContext,
+  ToolState,
+  ToolProvider,
+  PointerDownResult,
+  PointerMoveResult,
+  PointerUpResult,
+} from './types'
+import {
+  ERASER_RADIUS,
+  eraserHitsShape,
+  splitPathByEraser,
+  type EraserSegment,
+} from '../utils/eraser'
+import { isFrame } from '../utils/frames'
+
+/** Number of recent trail points drawn in the overlay */
+const TRAIL_LENGTH = 12
+
+/** Top-level shapes and frame children are erased on their own; group members go with their group */
+function isErasable(shape: Shape, shapes: Map<string, Shape>): boolean {
+  if (!shape.parentId) return true
+  const parent = shapes.get(shape.parentId)
+  return isFrame(parent) && parent.props.childIds.includes(shape.id)
+}
+
+/**
+ * Eraser tool options.
+ * @public
+ */
+export interface EraserToolOptions {
+  /** Eraser radius in screen pixels (default: 8) */
+  radius?: number
+  /** Cut freehand paths where the eraser passes instead of deleting them whole (default: false) */
+  partialErase?: boolean
+}
+
+/**
+ * Eraser tool — drag over shapes to erase them.
+ * Touched shapes fade while dragging and are deleted as one undo step on release.
+ * Alt while dragging restores shapes erased earlier in the same drag.
+ * Locked shapes are skipped.
+ * @public
+ */
+export class EraserTool implements ITool {
+  readonly type = 'eraser' as const
+  readonly cursor = 'crosshair'
+  readonly name = 'Eraser'
+
+  /** Cut freehand paths where the eraser passes instead of deleting them whole */
+  partialErase: boolean
+  private readonly radius: number
+  private segments: EraserSegment[] = []
+  private trail: Point[] = []
+  private pointer: Point | null = null
+  private canvasRadius = 0
+
+  constructor(private manager?: ToolProvider, options: EraserToolOptions = {}) {
+    this.radius = options.radius ?? ERASER_RADIUS
+    this.partialErase = options.partialErase ?? false
+  }
+
+  onActivate(store: WhiteboardStore): void {
+    store.clearSelection()
+  }
+
+  onDeactivate(_store: WhiteboardStore): void {
+    this.segments = []
+    this.trail = []
+    this.pointer = null
+  }
+
+  onPointerDown(
+    ctx: ToolEventContext,
+    store: WhiteboardStore,
+    state: ToolState
+  ): PointerDownResult {
+    const { canvasPoint } = ctx
+
+    state.isDragging = true
+    state.dragStart = canvasPoint
+    state.dragCurrent = canvasPoint
+    state.erasingIds.clear()
+
+    this.canvasRadius = this.radius / ctx.viewport.zoom
+    this.segments = []
+    this.trail = [canvasPoint]
+    this.pointer = canvasPoint
+    this.eraseAlong(canvasPoint, canvasPoint, ctx.altKey, store, state)
+
+    return { handled: true, capture: true, cursor: this.cursor }
+  }
+
+  onPointerMove(
+    ctx: ToolEventContext,
+    store: WhiteboardStore,
+    state: ToolState
+  ): PointerMoveResult {
+    this.pointer = ctx.canvasPoint
+    if (!state.isDragging || !state.dragCurrent) {
+      return { handled: false, cursor: this.cursor }
+    }
+
+    const from = state.dragCurrent
+    state.dragCurrent = ctx.canvasPoint
+    this.trail.push(ctx.canvasPoint)
+    if (this.trail.length > TRAIL_LENGTH) this.trail.shift()
+    this.eraseAlong(from, ctx.canvasPoint, ctx.altKey, store, state)
+
+    return { handled: true, cursor: this.cursor }
+  }
+
+  onPointerUp(
+    _ctx: ToolEventContext,
+    store: WhiteboardStore,
+    state: ToolState
+  ): PointerUpResult {
+    this.pointer = null
+    if (!state.isDragging) {
+      return { handled: false }
+    }
+
+    const ids = Array.from(state.erasingIds)
+    const segments = this.segments
+
+    // Clear drag state BEFORE mutating the store so the static canvas re-renders
+    state.isDragging = false
+    state.dragStart = null
+    state.dragCurrent = null
+    state.erasingIds = new Set()
+    this.segments = []
+    this.trail = []
+
+    if (ids.length === 0) return { handled: true }
+
+    if (this.partialErase) {
+      store.replaceShapes(this.buildReplacements(ids, segments, store))
+    } else {
+      store.deleteShapes(ids)
+    }
+
+    return { handled: true }
+  }
+
+  /**
+   * Mark (or with Alt, unmark) every top-level shape touched by the segment
+   */
+  private eraseAlong(
+    from: Point,
+    to: Point,
+    restore: boolean,
+    store: WhiteboardStore,
+    state: ToolState
+  ): void {
+    if (!restore) this.segments.push([from, to])
+
+    const registry = this.manager?.getRegistry?.() ?? undefined
+    const r = this.canvasRadius
+    const area = {
+      x: Math.min(from.x, to.x) - r,
+      y: Math.min(from.y, to.y) - r,
+      width: Math.abs(to.x - from.x) + r * 2,
+      height: Math.abs(to.y - from.y) + r * 2,
+    }
+    for (const id of store.spatialIndex.search(store.shapes, area)) {
+      if (restore !== state.erasingIds.has(id)) continue
+      const shape = store.shapes.get(id)
+      if (!shape || !isErasable(shape, store.shapes)) continue
+      if (!eraserHitsShape(shape, from, to, r, registry)) continue
+      if (restore) {
+        state.erasingIds.delete(id)
+      } else {
+        state.erasingIds.add(id)
+      }
+    }
+  }
+
+  /**
+   * Map each erased shape to its surviving fragments (paths) or nothing (other shapes)
+   */
+  private buildReplacements(
+    ids: string[],
+    segments: EraserSegment[],
+    store: WhiteboardStore
+  ): Map<string, Shape[]> {
+    const replacements = new Map<string, Shape[]>()
+    for (const id of ids) {
+      const shape = store.shapes.get(id)
+      if (!shape) continue
+      if (shape.type !== 'path') {
+        replacements.set(id, [])
+        continue
+      }
+      const fragments = splitPathByEraser(shape as PathShape, segments, this.canvasRadius)
+      // null: the trail missed the stroke itself — leave it alone
+      if (fragments) replacements.set(id, fragments)
+    }
+    return replacements
+  }
+
+  /**
+   * Render the eraser trail and cursor circle
+   */
+  renderOverlay(
+    ctx: CanvasRenderingContext2D,
+    state: ToolState,
+    viewport: Viewport
+  ): void {
+    if (!this.pointer) return
+    const radius = this.radius / viewport.zoom
+
+    ctx.save()
+    ctx.lineCap = 'round'
+    ctx.lineJoin = 'round'
+
+    if (state.isDragging && this.trail.length > 1) {
+      ctx.strokeStyle = 'rgba(128, 128, 128, 0.25)'
+      ctx.lineWidth = radius * 2
+      ctx.beginPath()
+      ctx.moveTo(this.trail[0]!.x, this.trail[0]!.y)
+      for (let i = 1; i < this.trail.length; i++) {
+        ctx.lineTo(this.trail[i]!.x, this.trail[i]!.y)
+      }
+      ctx.stroke()
+    }
+
+    ctx.strokeStyle = 'rgba(96, 96, 96, 0.8)'
+    ctx.lineWidth = 1 / viewport.zoom
+    ctx.beginPath()
+    ctx.arc(this.pointer.x, this.pointer.y, radius, 0, Math.PI * 2)
+    ctx.stroke()
+    ctx.restore()
+  }
+}
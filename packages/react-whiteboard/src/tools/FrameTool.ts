@@ -0,0 +1,48 @@
+import type { RoughCanvas } from 'roughjs/bin/canvas'
+import type { WhiteboardStore } from '../core/store'
+import type { FrameShape, Shape } from '../types'
+import { BaseShapeTool, type ShapeBounds } from './BaseShapeTool'
+
+const DEFAULT_FRAME_PROPS = {
+  name: 'Frame',
+  fill: '#ffffff',
+  stroke: '#d1d5db',
+}
+
+/**
+ * Frame tool — draws frames by dragging.
+ * Shapes lying entirely inside the new frame become its children.
+ */
+export class FrameTool extends BaseShapeTool {
+  readonly type = 'frame' as const
+  readonly name = 'Frame'
+
+  protected createShapeInstance(bounds: ShapeBounds, seed: number): FrameShape {
+    return {
+      id: this.generateId(),
+      type: 'frame',
+      x: bounds.x,
+      y: bounds.y,
+      width: bounds.width,
+      height: bounds.height,
+      rotation: 0,
+      opacity: 1,
+      isLocked: false,
+      parentId: null,
+      seed,
+      roughness: 0,
+      props: { ...DEFAULT_FRAME_PROPS, childIds: [] },
+    }
+  }
+
+  protected addToStore(store: WhiteboardStore, shape: Shape): void {
+    store.addFrame(shape as FrameShape)
+  }
+
+  protected renderPreview(ctx: CanvasRenderingContext2D, _rc: RoughCanvas, shape: Shape): void {
+    const { x, y, width, height, props } = shape as FrameShape
+    ctx.strokeStyle = props.stroke
+    ctx.lineWidth = 1
+    ctx.strokeRect(x, y, width, height)
+  }
+}
@@ -0,0 +1,119 @@
+import type { WhiteboardStore } from '../core/store'
+import type { Point } from '../types'
+import type {
+  ITool,
+  ToolEventContext,
+  ToolState,
+  PointerDownResult,
+  PointerMoveResult,
+  PointerUpResult,
+} from './types'
+
+/** Only pointer samples this recent (ms) count toward the release velocity */
+const VELOCITY_WINDOW = 80
+
+/** Minimum release speed (screen px per ms) that starts a glide */
+const MIN_RELEASE_SPEED = 0.15
+
+interface PointerSample {
+  point: Point
+  time: number
+}
+
+/**
+ * Hand tool — drag to pan the canvas.
+ * Releasing a fast drag keeps the canvas gliding (kinetic panning).
+ * @public
+ */
+export class HandTool implements ITool {
+  readonly type = 'hand' as const
+  readonly cursor = 'grab'
+  readonly name = 'Hand'
+
+  private samples: PointerSample[] = []
+
+  onDeactivate(store: WhiteboardStore): void {
+    this.samples = []
+    store.setIsPanning(false)
+  }
+
+  onPointerDown(
+    ctx: ToolEventContext,
+    store: WhiteboardStore,
+    state: ToolState
+  ): PointerDownResult {
+    store.stopGlide()
+
+    state.isDragging = true
+    state.dragStart = ctx.screenPoint
+    state.dragCurrent = ctx.screenPoint
+    this.samples = [{ point: ctx.screenPoint, time: performance.now() }]
+
+    store.setIsPanning(true)
+    return { handled: true, capture: true, cursor: 'grabbing' }
+  }
+
+  onPointerMove(
+    ctx: ToolEventContext,
+    store: WhiteboardStore,
+    state: ToolState
+  ): PointerMoveResult {
+    if (!state.isDragging || !state.dragCurrent) {
+      return { handled: false, cursor: this.cursor }
+    }
+
+    // Screen-space deltas: canvas coordinates shift as the viewport pans
+    const { screenPoint } = ctx
+    store.pan(screenPoint.x - state.dragCurrent.x, screenPoint.y - state.dragCurrent.y)
+    state.dragCurrent = screenPoint
+
+    const now = performance.now()
+    this.samples.push({ point: screenPoint, time: now })
+    while (this.samples.length > 2 && now - this.samples[0]!.time > VELOCITY_WINDOW) {
+      this.samples.shift()
+    }
+
+    return { handled: true, cursor: 'grabbing' }
+  }
+
+  onPointerUp(
+    _ctx: ToolEventContext,
+    store: WhiteboardStore,
+    state: ToolState
+  ): PointerUpResult {
+    if (!state.isDragging) {
+      return { handled: false }
+    }
+
+    const velocity = this.getReleaseVelocity(performance.now())
+
+    state.isDragging = false
+    state.dragStart = null
+    state.dragCurrent = null
+    this.samples = []
+    store.setIsPanning(false)
+
+    if (velocity && Math.hypot(velocity.x, velocity.y) >= MIN_RELEASE_SPEED) {
+      store.glide(velocity.x, velocity.y)
+    }
+
+    return { handled: true }
+  }
+
+  /**
+   * Average pointer velocity (px per ms) over the recent samples.
+   * Returns null if the pointer paused before release.
+   */
+  private getReleaseVelocity(now: number): Point | null {
+    const last = this.samples[this.samples.length - 1]
+    const first = this.samples[0]
+    if (!first || !last || now - last.time > VELOCITY_WINDOW) return null
+
+    const dt = last.time - first.time
+    if (dt <= 0) return null
+    return {
+      x: (last.point.x - first.point.x) / dt,
+      y: (last.point.y - first.point.y) / dt,
+    }
+  }
+}
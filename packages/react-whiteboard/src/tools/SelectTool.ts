@@ -1,5 +1,5 @@
 import type { WhiteboardStore } from '../core/store'
-import type { Shape, Viewport } from '../types'
+import type { ImageShape, Shape, Viewport } from '../types'
 import { RESIZE_CURSORS } from '../utils/hitTest'
 import { drawSnapLines, type SnapLine } from '../utils/snapping'
 import type { ITool, ToolEventContext, ToolState, PointerDownResult, PointerMoveResult, PointerUpResult, ToolProvider } from './types'
@@ -18,6 +18,12 @@ import {
   startRotation,
   applyRotation,
   handleDoubleClick,
+  getCroppingImage,
+  hitTestCrop,
+  startCrop,
+  applyCropDrag,
+  getCropHoverCursor,
+  type CropTarget,
 } from './handlers'
 
 /** Select tool — thin orchestrator that delegates to focused handler modules. */
@@ -32,12 +38,26 @@ export class SelectTool implements ITool {
   private isMarquee = false
   private rotationInitialAngle = 0
   private activeSnapLines: SnapLine[] = []
+  private cropTarget: CropTarget | null = null
 
   onActivate(_store: WhiteboardStore): void {}
   onDeactivate(store: WhiteboardStore): void { store.clearSelection() }
 
   onPointerDown(ctx: ToolEventContext, store: WhiteboardStore, state: ToolState): PointerDownResult {
     const { canvasPoint, shiftKey } = ctx
+    const cropping = getCroppingImage(store)
+    if (cropping) {
+      const target = hitTestCrop(canvasPoint, cropping)
+      if (target) {
+        const crop = startCrop(canvasPoint, target, cropping, state)
+        this.cropTarget = target
+        this.moveBeforeStates = crop.beforeStates
+        return crop.result
+      }
+      // Clicking elsewhere leaves crop mode
+      store.setCroppingImageId(null)
+    }
+
     const hit = hitTestPointerDown(canvasPoint, store)
 
     if (hit.type === 'rotation') {
@@ -82,6 +102,11 @@ export class SelectTool implements ITool {
       return { handled: true, cursor: 'grab' }
     }
 
+    if (state.isDragging && this.cropTarget && state.dragStart) {
+      state.dragCurrent = canvasPoint
+      return applyCropDrag(store, state, this.moveBeforeStates[0] as ImageShape, this.cropTarget)
+    }
+
     if (state.isDragging && state.resizeHandle && state.dragStart) {
       state.dragCurrent = canvasPoint
       applyResizeDrag(store, state, this.moveBeforeStates, this.resizeStartFontSizes, ctx.shiftKey)
@@ -99,7 +124,7 @@ export class SelectTool implements ITool {
       return { handled: true, cursor: 'move' }
     }
 
-    return getHoverCursor(canvasPoint, store)
+    return getCropHoverCursor(canvasPoint, store) ?? getHoverCursor(canvasPoint, store)
   }
 
   onDoubleClick(ctx: ToolEventContext, store: WhiteboardStore): void {
@@ -126,6 +151,12 @@ export class SelectTool implements ITool {
   private recordHistory(store: WhiteboardStore, state: ToolState): void {
     if (!state.dragStart || !state.dragCurrent || this.moveBeforeStates.length === 0) return
     if (state.dragStart.x === state.dragCurrent.x && state.dragStart.y === state.dragCurrent.y) return
+    if (!state.resizeHandle && !state.isRotating && !this.cropTarget) {
+      // Moves record the drag and any frame drop/exit as one undo step
+      const movedIds = [...state.startPositions.keys()].filter((id) => store.shapes.get(id)?.type !== 'frame')
+      store.updateFrameMembership(movedIds, this.moveBeforeStates)
+      return
+    }
     const afterShapes = this.moveBeforeStates
       .map((before) => store.shapes.get(before.id))
       .filter((s): s is Shape => s !== undefined)
@@ -146,5 +177,6 @@ export class SelectTool implements ITool {
     this.isMarquee = false
     this.rotationInitialAngle = 0
     this.activeSnapLines = []
+    this.cropTarget = null
   }
 }
@@ -0,0 +1,84 @@
+import type { RoughCanvas } from 'roughjs/bin/canvas'
+import type { WhiteboardStore } from '../core/store'
+import type { Shape, StickyShape } from '../types'
+import { STICKY_NOTE_COLORS, STICKY_NOTE_SIZE } from '../utils/stickyNote'
+import { BaseShapeTool, type ShapeBounds } from './BaseShapeTool'
+import type { ToolEventContext, ToolProvider } from './types'
+import type { TextTool } from './TextTool'
+
+/**
+ * Sticky note tool — click to place a note, or drag to size one (always square).
+ * The new note opens straight into text editing.
+ */
+export class StickyNoteTool extends BaseShapeTool {
+  readonly type = 'sticky' as const
+  readonly name = 'Sticky note'
+
+  private color: string = STICKY_NOTE_COLORS[0]
+
+  constructor(private manager: ToolProvider) {
+    super()
+  }
+
+  /** Set the color of the notes placed next */
+  setColor(color: string): void {
+    this.color = color
+  }
+
+  getColor(): string {
+    return this.color
+  }
+
+  protected calculateBounds(
+    start: { x: number; y: number },
+    end: { x: number; y: number },
+  ): ShapeBounds {
+    return super.calculateBounds(start, end, true)
+  }
+
+  /** A click (or tiny drag) places a default-size note centered on the pointer */
+  protected resolveFinalBounds(bounds: ShapeBounds): ShapeBounds {
+    if (bounds.width > 5) return bounds
+    return {
+      x: bounds.x - STICKY_NOTE_SIZE / 2,
+      y: bounds.y - STICKY_NOTE_SIZE / 2,
+      width: STICKY_NOTE_SIZE,
+      height: STICKY_NOTE_SIZE,
+    }
+  }
+
+  protected createShapeInstance(bounds: ShapeBounds, seed: number): StickyShape {
+    return {
+      id: this.generateId(),
+      type: 'sticky',
+      x: bounds.x,
+      y: bounds.y,
+      width: bounds.width,
+      height: bounds.height,
+      rotation: 0,
+      opacity: 1,
+      isLocked: false,
+      parentId: null,
+      seed,
+      roughness: 0,
+      props: { color: this.color, boundTextId: null },
+    }
+  }
+
+  protected onShapeCreated(ctx: ToolEventContext, store: WhiteboardStore, shape: Shape): void {
+    const text = this.manager.getTool('text') as TextTool | undefined
+    const boundText = text ? store.createBoundText(shape.id) : null
+    if (!text || !boundText) {
+      super.onShapeCreated(ctx, store, shape)
+      return
+    }
+    store.setTool('text')
+    text.editBoundText(boundText, shape as StickyShape, ctx.viewport, store)
+  }
+
+  protected renderPreview(ctx: CanvasRenderingContext2D, _rc: RoughCanvas, shape: Shape): void {
+    const { x, y, width, height, props } = shape as StickyShape
+    ctx.fillStyle = props.color
+    ctx.fillRect(x, y, width, height)
+  }
+}
@@ -8,6 +8,8 @@ export interface TextInputCallbacks {
   onCancel: () => void
   /** Called when bold/italic is toggled via keyboard shortcut during editing */
   onStyleChange?: (props: Partial<Omit<TextShapeProps, 'text'>>) => void
+  /** Called with the current text after each edit */
+  onInput?: (text: string) => void
 }
 
 /** Minimum dimensions for the editing textarea */
@@ -235,6 +237,13 @@ export class TextInputManager {
     e.stopPropagation()
   }
 
+  /** Change the font size while editing, e.g. to keep text fitted to a sticky note */
+  setFontSize(fontSize: number): void {
+    if (fontSize === this.textProps.fontSize) return
+    this.textProps = { ...this.textProps, fontSize }
+    this.refreshStyles()
+  }
+
   private toggleBold(): void {
     const next = this.textProps.fontWeight === 700 ? 400 : 700
     this.textProps = { ...this.textProps, fontWeight: next }
@@ -272,6 +281,7 @@ export class TextInputManager {
 
   private handleInput = (): void => {
     this.autoResize()
+    this.callbacks?.onInput?.(this.textareaElement?.value ?? '')
   }
 
   private triggerConfirm(): void {
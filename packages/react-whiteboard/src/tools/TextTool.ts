@@ -1,6 +1,6 @@
 import { nanoid } from 'nanoid'
 import type { WhiteboardStore } from '../core/store'
-import type { TextShape, TextShapeProps, RectangleShape, EllipseShape, Point, Viewport } from '../types'
+import type { TextShape, TextShapeProps, BoundTextContainer, Point, Viewport } from '../types'
 import type {
   ITool,
   ToolEventContext,
@@ -12,6 +12,7 @@ import type {
 import { getShapeAtPoint } from '../utils/hitTest'
 import { wrapTextLines, measureTextLines, DEFAULT_TEXT_MAX_WIDTH } from '../utils/fonts'
 import { BOUND_TEXT_PADDING } from '../utils/boundText'
+import { resolveBoundTextProps } from '../utils/stickyNote'
 import { TextInputManager } from './TextInputManager'
 
 /**
@@ -81,7 +82,7 @@ export class TextTool implements ITool {
 
   editBoundText(
     textShape: TextShape,
-    parent: RectangleShape | EllipseShape,
+    parent: BoundTextContainer,
     viewport: Viewport,
     store: WhiteboardStore,
   ): void {
@@ -106,7 +107,7 @@ export class TextTool implements ITool {
       return { handled: true, capture: false, cursor: 'text' }
     }
 
-    const hitShape = getShapeAtPoint(canvasPoint, store.shapes, store.shapeIds, 5)
+    const hitShape = getShapeAtPoint(canvasPoint, store.shapes, store.shapeIds, 5, undefined, store.spatialIndex)
 
     if (hitShape && hitShape.type === 'text') {
       this.startEditing(hitShape as TextShape, ctx.viewport, store)
@@ -134,7 +135,7 @@ export class TextTool implements ITool {
   }
 
   onDoubleClick(ctx: ToolEventContext, store: WhiteboardStore): void {
-    const hitShape = getShapeAtPoint(ctx.canvasPoint, store.shapes, store.shapeIds, 5)
+    const hitShape = getShapeAtPoint(ctx.canvasPoint, store.shapes, store.shapeIds, 5, undefined, store.spatialIndex)
     if (hitShape && hitShape.type === 'text') {
       this.startEditing(hitShape as TextShape, ctx.viewport, store)
     }
@@ -171,7 +172,7 @@ export class TextTool implements ITool {
 
   private startBoundEditing(
     textShape: TextShape,
-    parent: RectangleShape | EllipseShape,
+    parent: BoundTextContainer,
     viewport: Viewport,
     store: WhiteboardStore,
   ): void {
@@ -185,7 +186,9 @@ export class TextTool implements ITool {
     const maxWidth = Math.max(parent.width - pad * 2, 20)
     const position = { x: parent.x + pad, y: parent.y + pad }
 
-    const { text, ...styleProps } = textShape.props
+    // Sticky notes shrink the font as the text grows
+    const fitProps = (t: string) => resolveBoundTextProps(parent, { ...textShape.props, text: t })
+    const { text, ...styleProps } = fitProps(textShape.props.text)
     this.inputManager.create(
       position,
       text,
@@ -195,6 +198,9 @@ export class TextTool implements ITool {
         onConfirm: (t) => this.handleConfirm(t),
         onCancel: () => this.cancelEdit(),
         onStyleChange: (props) => this.handleStyleChange(props),
+        onInput: parent.type === 'sticky'
+          ? (t) => this.inputManager.setFontSize(fitProps(t).fontSize)
+          : undefined,
       },
       maxWidth,
     )
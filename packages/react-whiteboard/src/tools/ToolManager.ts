@@ -8,10 +8,14 @@ import { createToolState } from './types'
 import { SelectTool } from './SelectTool'
 import { RectangleTool } from './RectangleTool'
 import { EllipseTool } from './EllipseTool'
+import { FrameTool } from './FrameTool'
+import { StickyNoteTool } from './StickyNoteTool'
 import { DrawTool } from './DrawTool'
 import { LineTool } from './LineTool'
 import { ArrowTool } from './ArrowTool'
 import { TextTool } from './TextTool'
+import { EraserTool } from './EraserTool'
+import { HandTool } from './HandTool'
 
 /**
  * Tool manager - handles tool switching and event routing.
@@ -49,10 +53,14 @@ export class ToolManager {
     this.registerTool(new SelectTool(this))
     this.registerTool(new RectangleTool())
     this.registerTool(new EllipseTool())
+    this.registerTool(new FrameTool())
+    this.registerTool(new StickyNoteTool(this))
     this.registerTool(new DrawTool())
     this.registerTool(new LineTool())
     this.registerTool(new ArrowTool())
     this.registerTool(new TextTool())
+    this.registerTool(new EraserTool(this))
+    this.registerTool(new HandTool())
   }
 
   /**
@@ -244,13 +252,16 @@ export class ToolManager {
   }
 
   /**
-   * Get IDs of shapes being actively moved/resized/rotated.
+   * Get IDs of shapes being actively moved/resized/rotated or erased.
    * Used by dual-canvas architecture to render these shapes on the interactive canvas
    * instead of the static canvas during drag operations.
    * Cached to avoid allocations on the hot render path.
    */
   getTransientShapeIds(): ReadonlySet<string> {
-    if (!this.state.isDragging || this.state.startPositions.size === 0) {
+    if (!this.state.isDragging) return ToolManager.EMPTY_SET
+    // Eraser marks grow during the drag — the live set is returned as-is
+    if (this.state.erasingIds.size > 0) return this.state.erasingIds
+    if (this.state.startPositions.size === 0) {
       return ToolManager.EMPTY_SET
     }
     // Rebuild only when the set of dragged shapes changes
@@ -261,6 +272,14 @@ export class ToolManager {
     return this.cachedTransientIds
   }
 
+  /**
+   * Get IDs of shapes marked by the eraser in the current drag.
+   * These are drawn faded on the interactive canvas until pointer up.
+   */
+  getErasingShapeIds(): ReadonlySet<string> {
+    return this.state.isDragging ? this.state.erasingIds : ToolManager.EMPTY_SET
+  }
+
   /**
    * Reset the manager
    */
@@ -1,26 +1,37 @@
-import type { TextShape, RectangleShape, EllipseShape } from '../../types'
+import type { TextShape } from '../../types'
 import type { WhiteboardStore } from '../../core/store'
 import { getShapeAtPoint } from '../../utils/hitTest'
-import { canContainBoundText, getBoundTextShape } from '../../utils/boundText'
+import { isBoundTextContainer, getBoundTextShape } from '../../utils/boundText'
 import type { ToolEventContext } from '../types'
 import type { TextTool } from '../TextTool'
 import type { ToolProvider } from '../types'
 
 /**
- * Double-click to enter text or bound-text edit mode.
+ * Double-click to enter text, bound-text, component edit or image crop mode.
  */
 
 /**
- * Handle double-click: edit existing text shapes or create/edit bound text on containers.
+ * Handle double-click: edit existing text shapes, create/edit bound text on containers,
+ * put a React component shape in edit mode, or toggle crop mode on an image.
  */
 export function handleDoubleClick(
   ctx: ToolEventContext,
   store: WhiteboardStore,
   manager: ToolProvider,
 ): void {
-  const hitShape = getShapeAtPoint(ctx.canvasPoint, store.shapes, store.shapeIds, 2)
+  const hitShape = getShapeAtPoint(ctx.canvasPoint, store.shapes, store.shapeIds, 2, undefined, store.spatialIndex)
   if (!hitShape) return
 
+  if (hitShape.type === 'react-component') {
+    store.setEditingComponentId(hitShape.id)
+    return
+  }
+
+  if (hitShape.type === 'image') {
+    store.setCroppingImageId(store.croppingImageId === hitShape.id ? null : hitShape.id)
+    return
+  }
+
   const text = manager.getTool('text') as TextTool | undefined
   if (!text) return
 
@@ -30,18 +41,17 @@ export function handleDoubleClick(
     return
   }
 
-  if (canContainBoundText(hitShape.type)) {
-    const container = hitShape as RectangleShape | EllipseShape
-    const existingText = getBoundTextShape(container, store.shapes)
+  if (isBoundTextContainer(hitShape)) {
+    const existingText = getBoundTextShape(hitShape, store.shapes)
 
     if (existingText) {
       store.setTool('text')
-      text.editBoundText(existingText, container, ctx.viewport, store)
+      text.editBoundText(existingText, hitShape, ctx.viewport, store)
     } else {
       const newText = store.createBoundText(hitShape.id)
       if (newText) {
         store.setTool('text')
-        text.editBoundText(newText, container, ctx.viewport, store)
+        text.editBoundText(newText, hitShape, ctx.viewport, store)
       }
     }
   }
@@ -0,0 +1,73 @@
+import type { ImageShape, Point } from '../../types'
+import { cloneShape } from '../../types'
+import type { WhiteboardStore } from '../../core/store'
+import { hitTestResizeHandles, rotatePoint, RESIZE_CURSORS, type ResizeHandle } from '../../utils/hitTest'
+import { panImageCrop, resizeImageCrop } from '../../utils/imageEditing'
+import type { ToolState, PointerDownResult, PointerMoveResult } from '../types'
+
+/**
+ * Image crop mode: the handles crop the image, dragging inside it moves the
+ * image under the crop.
+ */
+
+/** A crop handle, or 'pan' inside the crop */
+export type CropTarget = ResizeHandle | 'pan'
+
+/** The image in crop mode, if any */
+export function getCroppingImage(store: WhiteboardStore): ImageShape | null {
+  const shape = store.croppingImageId !== null ? store.shapes.get(store.croppingImageId) : undefined
+  return shape?.type === 'image' ? shape : null
+}
+
+/** What a pointer at `point` would drag in crop mode, or null outside the image */
+export function hitTestCrop(point: Point, image: ImageShape): CropTarget | null {
+  const handle = hitTestResizeHandles(point, image)
+  if (handle) return handle
+  const local = rotatePoint(point, { x: image.x + image.width / 2, y: image.y + image.height / 2 }, -image.rotation)
+  const inside = local.x >= image.x && local.x <= image.x + image.width &&
+    local.y >= image.y && local.y <= image.y + image.height
+  return inside ? 'pan' : null
+}
+
+function cropCursor(target: CropTarget): string {
+  return target === 'pan' ? 'move' : RESIZE_CURSORS[target]
+}
+
+/**
+ * Start dragging a crop handle or the image under the crop.
+ */
+export function startCrop(
+  canvasPoint: Point,
+  target: CropTarget,
+  image: ImageShape,
+  state: ToolState,
+): { result: PointerDownResult; beforeStates: ImageShape[] } {
+  state.isDragging = true
+  state.dragStart = canvasPoint
+  state.dragCurrent = canvasPoint
+  // Drawn on the interactive canvas while dragged, like resized shapes
+  state.startPositions.clear()
+  state.startPositions.set(image.id, { x: image.x, y: image.y, width: image.width, height: image.height })
+  return {
+    result: { handled: true, capture: true, cursor: cropCursor(target) },
+    beforeStates: [cloneShape(image)],
+  }
+}
+
+/**
+ * Apply a crop drag to the image as it was when the drag started.
+ */
+export function applyCropDrag(store: WhiteboardStore, state: ToolState, start: ImageShape, target: CropTarget): PointerMoveResult {
+  const dx = state.dragCurrent!.x - state.dragStart!.x
+  const dy = state.dragCurrent!.y - state.dragStart!.y
+  const next = target === 'pan' ? panImageCrop(start, dx, dy) : resizeImageCrop(start, target, dx, dy)
+  store.updateShape(start.id, next, false)
+  return { handled: true, cursor: cropCursor(target) }
+}
+
+/** Hover cursor in crop mode; null when not in crop mode or outside the image */
+export function getCropHoverCursor(canvasPoint: Point, store: WhiteboardStore): PointerMoveResult | null {
+  const image = getCroppingImage(store)
+  const target = image && hitTestCrop(canvasPoint, image)
+  return target ? { handled: true, cursor: cropCursor(target) } : null
+}
@@ -24,6 +24,11 @@ export function isEdgeHandle(handle: ResizeHandle): boolean {
   return handle.includes('center')
 }
 
+/** Frames can't be rotated, so selections containing one have no rotation handle */
+function canRotate(shapes: Shape[]): boolean {
+  return !shapes.some((s) => s.type === 'frame')
+}
+
 /** Get selected shapes from store */
 export function getSelectedShapes(store: WhiteboardStore): Shape[] {
   return Array.from(store.selectedIds)
@@ -44,7 +49,7 @@ export function hitTestPointerDown(
   canvasPoint: { x: number; y: number },
   store: WhiteboardStore,
 ): HitTestResult {
-  const { shapes, shapeIds, selectedIds } = store
+  const { shapes, shapeIds, selectedIds, spatialIndex } = store
 
   if (selectedIds.size > 0) {
     const selectedShapes = getSelectedShapes(store)
@@ -53,7 +58,7 @@ export function hitTestPointerDown(
     if (selectionBounds) {
       const hasUnlocked = selectedShapes.some((s) => !s.isLocked)
       if (hasUnlocked) {
-        if (hitTestRotationHandle(canvasPoint, selectionBounds)) {
+        if (canRotate(selectedShapes) && hitTestRotationHandle(canvasPoint, selectionBounds)) {
           return { type: 'rotation' }
         }
 
@@ -65,7 +70,7 @@ export function hitTestPointerDown(
     }
   }
 
-  const hitShape = getShapeAtPoint(canvasPoint, shapes, shapeIds, 2)
+  const hitShape = getShapeAtPoint(canvasPoint, shapes, shapeIds, 2, undefined, spatialIndex)
   if (hitShape) {
     return { type: 'shape', shape: hitShape }
   }
@@ -85,7 +90,7 @@ export function getHoverCursor(
     const selectedShapes = getSelectedShapes(store)
     const selectionBounds = getSelectionBounds(selectedShapes)
     if (selectionBounds) {
-      if (hitTestRotationHandle(canvasPoint, selectionBounds)) {
+      if (canRotate(selectedShapes) && hitTestRotationHandle(canvasPoint, selectionBounds)) {
         return { handled: true, cursor: 'grab' }
       }
       const handle = hitTestSelectionResizeHandles(canvasPoint, selectionBounds)
@@ -94,7 +99,7 @@ export function getHoverCursor(
       }
     }
   }
-  const hitShape = getShapeAtPoint(canvasPoint, store.shapes, store.shapeIds, 2)
+  const hitShape = getShapeAtPoint(canvasPoint, store.shapes, store.shapeIds, 2, undefined, store.spatialIndex)
   if (hitShape) {
     return { handled: true, cursor: hitShape.isLocked ? 'not-allowed' : 'move' }
   }
@@ -10,4 +10,7 @@ export { startResize, applyResizeDrag } from './resizeHandler'
 
 export { startRotation, applyRotation } from './rotateHandler'
 
+export { getCroppingImage, hitTestCrop, startCrop, applyCropDrag, getCropHoverCursor } from './cropHandler'
+export type { CropTarget } from './cropHandler'
+
 export { handleDoubleClick } from './boundTextEditHandler'
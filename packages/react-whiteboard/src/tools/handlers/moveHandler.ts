@@ -2,11 +2,12 @@ import type { Shape } from '../../types'
 import { cloneShape } from '../../types'
 import type { WhiteboardStore } from '../../core/store'
 import { snapToShapes, type SnapLine } from '../../utils/snapping'
-import { canContainBoundText, getBoundTextShape, BOUND_TEXT_PADDING } from '../../utils/boundText'
+import { isBoundTextContainer, getBoundTextShape, BOUND_TEXT_PADDING } from '../../utils/boundText'
+import { getFrameChildren, isFrame } from '../../utils/frames'
 import type { ToolState, PointerDownResult } from '../types'
 
 /**
- * Drag-move logic with snap-to-shape guides and bound text sync.
+ * Drag-move logic with snap-to-shape guides, bound text sync and frame children.
  */
 
 export interface MoveState {
@@ -38,9 +39,15 @@ export function startMove(
     }
   })
 
+  // Frame children move with their frame, so their history is recorded too
+  const frameChildren = selectedShapes.flatMap((shape) =>
+    isFrame(shape)
+      ? getFrameChildren(shape, store.shapes).filter((child) => !state.startPositions.has(child.id))
+      : [])
+
   return {
     result: { handled: true, capture: true, cursor: 'move' },
-    beforeStates: selectedShapes.map((s) => cloneShape(s)),
+    beforeStates: [...selectedShapes, ...frameChildren].map((s) => cloneShape(s)),
   }
 }
 
@@ -68,7 +75,9 @@ export function applyMove(
   }
 
   const movingBounds = { x: minX, y: minY, width: maxX - minX, height: maxY - minY }
-  const result = snapToShapes(movingBounds, store.shapes, store.shapeIds, store.selectedIds)
+  const result = snapToShapes(
+    movingBounds, store.shapes, store.shapeIds, store.selectedIds, undefined, store.spatialIndex,
+  )
 
   const snapDx = result.x - minX
   const snapDy = result.y - minY
@@ -80,18 +89,17 @@ export function applyMove(
     const newY = startPos.y + dy + snapDy
     batchUpdates.set(id, { x: newX, y: newY })
 
-    // Move bound text with parent container
     const shape = store.shapes.get(id)
-    if (shape && canContainBoundText(shape.type) && (shape.type === 'rectangle' || shape.type === 'ellipse')) {
-      const textShape = getBoundTextShape(
-        shape,
-        store.shapes,
-      )
-      if (textShape) {
-        batchUpdates.set(textShape.id, {
-          x: newX + BOUND_TEXT_PADDING,
-          y: newY + BOUND_TEXT_PADDING,
-        })
+    if (shape) moveBoundText(shape, newX, newY, store, batchUpdates)
+
+    // Move frame children by the frame's offset (unless selected themselves)
+    if (isFrame(shape)) {
+      const offsetX = newX - shape.x
+      const offsetY = newY - shape.y
+      for (const child of getFrameChildren(shape, store.shapes)) {
+        if (state.startPositions.has(child.id)) continue
+        batchUpdates.set(child.id, { x: child.x + offsetX, y: child.y + offsetY })
+        moveBoundText(child, child.x + offsetX, child.y + offsetY, store, batchUpdates)
       }
     }
   })
@@ -99,3 +107,18 @@ export function applyMove(
 
   return result.snapLines
 }
+
+/** Move bound text with its parent container */
+function moveBoundText(
+  shape: Shape,
+  x: number,
+  y: number,
+  store: WhiteboardStore,
+  batchUpdates: Map<string, Partial<Shape>>,
+): void {
+  if (!isBoundTextContainer(shape)) return
+  const textShape = getBoundTextShape(shape, store.shapes)
+  if (textShape) {
+    batchUpdates.set(textShape.id, { x: x + BOUND_TEXT_PADDING, y: y + BOUND_TEXT_PADDING })
+  }
+}
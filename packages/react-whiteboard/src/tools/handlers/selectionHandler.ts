@@ -1,6 +1,7 @@
 import type { Shape } from '../../types'
 import type { WhiteboardStore } from '../../core/store'
 import { getShapesInBounds } from '../../utils/hitTest'
+import { expandFrameChildren } from '../../utils/frames'
 import type { ToolState, PointerDownResult } from '../types'
 import type { ThemeColors } from '../../types/theme'
 
@@ -63,9 +64,14 @@ export function completeMarquee(store: WhiteboardStore, state: ToolState): void
     const found = getShapesInBounds(
       { x, y, width: w, height: h },
       store.shapes,
-      store.shapeIds,
+      expandFrameChildren(store.shapes, store.shapeIds),
+      true,
+      store.spatialIndex,
     )
-    if (found.length > 0) store.selectMultiple(found.map((s) => s.id))
+    // Children of selected frames move with them, so only the frame is selected
+    const foundIds = new Set(found.map((s) => s.id))
+    const ids = found.filter((s) => !s.parentId || !foundIds.has(s.parentId)).map((s) => s.id)
+    if (ids.length > 0) store.selectMultiple(ids)
   }
 }
 
@@ -8,10 +8,15 @@ export { BaseLineTool } from './BaseLineTool'
 export { SelectTool } from './SelectTool'
 export { RectangleTool } from './RectangleTool'
 export { EllipseTool } from './EllipseTool'
+export { FrameTool } from './FrameTool'
+export { StickyNoteTool } from './StickyNoteTool'
 export { DrawTool } from './DrawTool'
 export { LineTool } from './LineTool'
 export { ArrowTool } from './ArrowTool'
 export { TextTool } from './TextTool'
+export { EraserTool } from './EraserTool'
+export type { EraserToolOptions } from './EraserTool'
+export { HandTool } from './HandTool'
 
 // Tool manager
 export { ToolManager } from './ToolManager'
@@ -79,6 +79,8 @@ export interface ToolState {
   startPositions: Map<string, { x: number; y: number; width: number; height: number }>
   /** Starting rotations of selected shapes (for rotation) */
   startRotations: Map<string, number>
+  /** Shapes marked by the eraser in the current drag (drawn faded until pointer up) */
+  erasingIds: Set<string>
 }
 
 /**
@@ -202,5 +204,6 @@ export function createToolState(): ToolState {
     isRotating: false,
     startPositions: new Map(),
     startRotations: new Map(),
+    erasingIds: new Set(),
   }
 }
\ No newline at end of file
@@ -112,6 +112,8 @@ export type ShapeType =
   | 'path'
   | 'image'
   | 'group'
+  | 'frame'
+  | 'sticky'
   | 'react-component'
   | string // Allow custom shape types
 
@@ -175,6 +177,19 @@ export interface LineShape extends BaseShape {
   }
 }
 
+/**
+ * Attachment of an arrow endpoint to another shape.
+ * @public
+ */
+export interface ArrowBinding {
+  /** ID of the shape the endpoint is attached to */
+  shapeId: string
+  /** Point the arrow aims at, normalized (0-1) to the target's unrotated bounds */
+  focus: Point
+  /** Distance (canvas units) kept between the endpoint and the target's outline */
+  gap: number
+}
+
 /** @public */
 export interface ArrowShape extends BaseShape {
   type: 'arrow'
@@ -186,6 +201,8 @@ export interface ArrowShape extends BaseShape {
     end: Point
     startArrowhead: 'none' | 'arrow' | 'triangle'
     endArrowhead: 'none' | 'arrow' | 'triangle'
+    startBinding?: ArrowBinding | null
+    endBinding?: ArrowBinding | null
   }
 }
 
@@ -231,6 +248,25 @@ export interface PathShape extends BaseShape {
   }
 }
 
+/**
+ * Part of an image that is shown, in natural image pixels.
+ * @public
+ */
+export interface ImageCrop {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/** @public */
+export interface ImageFilter {
+  /** 1 leaves the image unchanged, 0 is black */
+  brightness: number
+  /** 0 (unchanged) to 1 (fully gray) */
+  grayscale: number
+}
+
 /** @public */
 export interface ImageShape extends BaseShape {
   type: 'image'
@@ -238,6 +274,13 @@ export interface ImageShape extends BaseShape {
     src: string
     naturalWidth: number
     naturalHeight: number
+    /** Shown part of the image (non-destructive); the whole image when absent */
+    crop?: ImageCrop
+    /** Mirror the shown image left to right */
+    flipX?: boolean
+    /** Mirror the shown image top to bottom */
+    flipY?: boolean
+    filter?: ImageFilter
   }
 }
 
@@ -249,6 +292,41 @@ export interface GroupShape extends BaseShape {
   }
 }
 
+/**
+ * Slide-like container with a title label. Children keep `parentId` pointing
+ * to the frame, are listed in `childIds` (bottom to top) instead of `shapeIds`,
+ * and are clipped to the frame when rendered. Frames do not nest.
+ * @public
+ */
+export interface FrameShape extends BaseShape {
+  type: 'frame'
+  props: {
+    name: string
+    fill: string
+    stroke: string
+    childIds: string[]
+  }
+}
+
+/**
+ * Sticky note: a colored square whose bound text shrinks its font to fit.
+ * The text shape's `fontSize` is the largest size the note may use.
+ * @public
+ */
+export interface StickyShape extends BaseShape {
+  type: 'sticky'
+  props: {
+    color: string
+    boundTextId?: string | null
+  }
+}
+
+/**
+ * Shapes that can hold bound text.
+ * @public
+ */
+export type BoundTextContainer = RectangleShape | EllipseShape | StickyShape
+
 /** @public */
 export interface ReactComponentShape extends BaseShape {
   type: 'react-component'
@@ -271,6 +349,8 @@ export type Shape =
   | PathShape
   | ImageShape
   | GroupShape
+  | FrameShape
+  | StickyShape
   | ReactComponentShape
 
 /**
@@ -316,6 +396,8 @@ export type ToolType =
   | 'text'
   | 'eraser'
   | 'hand'
+  | 'frame'
+  | 'sticky'
   | string // Allow custom tools
 
 /** @public */
@@ -338,18 +420,132 @@ export interface Selection {
 // History Types
 // ============================================================================
 
-/** @public */
+/**
+ * The fields of a shape an update changed. `props` holds only the changed
+ * props; a field set to `undefined` was absent on that side.
+ * @public
+ */
+export type ShapePatch = { id: string; props?: object } & Partial<Omit<BaseShape, 'id'>>
+
+/**
+ * An undoable change. Update actions may be built from whole shapes; the
+ * history keeps only the fields that differ (see {@link ShapePatch}).
+ * @public
+ */
 export type HistoryAction =
   | { type: 'create'; shapes: Shape[] }
-  | { type: 'update'; before: Shape[]; after: Shape[] }
-  | { type: 'delete'; shapes: Shape[] }
+  | { type: 'update'; before: ShapePatch[]; after: ShapePatch[] }
+  | {
+      type: 'delete'
+      shapes: Shape[]
+      /** Arrows whose bindings to the deleted shapes were cleared, in their prior state */
+      unboundArrows?: ArrowShape[]
+    }
   | { type: 'reorder'; previousShapeIds: string[]; newShapeIds: string[] }
+  /** Several actions applied as one undo step (reverted in reverse order) */
+  | { type: 'batch'; actions: HistoryAction[] }
 
 /** @public */
 export interface HistoryEntry {
   id: string
   timestamp: number
   action: HistoryAction
+  /** Name of the transaction the entry came from (see `transact`) */
+  label?: string
+  /** Approximate memory the entry holds on to, in bytes */
+  size: number
+}
+
+/**
+ * Limits and merging for the undo history.
+ * @public
+ */
+export interface HistoryOptions {
+  /** Most entries kept (default: 100) */
+  maxEntries: number
+  /** Approximate memory the entries may hold, in bytes (default: 32 MB) */
+  maxBytes: number
+  /**
+   * Updates to the same shapes recorded within this many ms of each other
+   * merge into one step, e.g. nudging with the arrow keys (default: 0, off)
+   */
+  mergeWindow: number
+  /**
+   * Keep undone entries as branches of an undo tree instead of dropping them
+   * when a new action is recorded (default: false). The caps then count every
+   * entry in the tree.
+   */
+  undoTree: boolean
+}
+
+/**
+ * An entry in the undo tree (see `HistoryOptions.undoTree`).
+ * @public
+ */
+export interface HistoryTreeNode {
+  entry: HistoryEntry
+  /** The entry this one was recorded after; null for the first ones */
+  parentId: string | null
+  /** Entries recorded after this one, oldest first */
+  childIds: string[]
+}
+
+/**
+ * A path through the undo tree, from a first entry to a leaf.
+ * @public
+ */
+export interface HistoryBranch {
+  entries: HistoryEntry[]
+  /** Whether this is the branch redo follows */
+  isActive: boolean
+}
+
+/**
+ * A named snapshot of the board, saved with `createCheckpoint`.
+ * @public
+ */
+export interface Checkpoint {
+  id: string
+  name: string
+  /** Creation time, in ms since the epoch */
+  createdAt: number
+  /** Number of shapes on the board when it was taken */
+  shapeCount: number
+}
+
+// ============================================================================
+// Presence Types
+// ============================================================================
+
+/**
+ * Identity a peer shows to others.
+ * @public
+ */
+export interface PresenceUser {
+  name: string
+  /** Cursor and selection color; picked from the theme palette when omitted */
+  color?: string
+}
+
+/**
+ * What each peer publishes about itself.
+ * @public
+ */
+export interface PresenceState {
+  user: PresenceUser
+  /** Pointer position in canvas space, or null when the pointer is off the canvas */
+  cursor: Point | null
+  selectedIds: string[]
+  tool: ToolType
+  viewport: Viewport
+}
+
+/**
+ * Presence of a remote peer, keyed by a transport-specific client ID.
+ * @public
+ */
+export interface PeerPresence extends PresenceState {
+  clientId: string
 }
 
 // ============================================================================
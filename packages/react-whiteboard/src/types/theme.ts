@@ -43,6 +43,21 @@ export interface ThemeColors {
 
   /** Default text color for new text shapes */
   defaultTextColor: string
+
+  /** Frame title label color */
+  frameTitle: string
+
+  /** Palette for remote peers' cursors and selections (peers without a color of their own) */
+  presenceColors: string[]
+  /** Text color of the name labels next to remote cursors */
+  presenceLabelText: string
+
+  /** Outline of shapes a highlighted diff added */
+  diffAdded: string
+  /** Outline of shapes a highlighted diff removed */
+  diffRemoved: string
+  /** Outline of shapes a highlighted diff changed */
+  diffChanged: string
 }
 
 /** @public */
@@ -63,6 +78,12 @@ export const LIGHT_THEME: ThemeColors = {
   minimapViewportFill: 'rgba(59, 130, 246, 0.08)',
   minimapBorder: '#e5e7eb',
   defaultTextColor: '#1e1e1e',
+  frameTitle: '#6b7280',
+  presenceColors: ['#e03131', '#2f9e44', '#1971c2', '#f08c00', '#9c36b5', '#0c8599', '#e8590c', '#c2255c'],
+  presenceLabelText: '#ffffff',
+  diffAdded: '#2f9e44',
+  diffRemoved: '#e03131',
+  diffChanged: '#f08c00',
 }
 
 /** @public */
@@ -83,6 +104,12 @@ export const DARK_THEME: ThemeColors = {
   minimapViewportFill: 'rgba(77, 159, 255, 0.1)',
   minimapBorder: '#2a2a40',
   defaultTextColor: '#e0e0e0',
+  frameTitle: '#9ca3af',
+  presenceColors: ['#ff6b6b', '#51cf66', '#4dabf7', '#ffa94d', '#cc5de8', '#3bc9db', '#ff922b', '#f06595'],
+  presenceLabelText: '#1e1e2e',
+  diffAdded: '#51cf66',
+  diffRemoved: '#ff6b6b',
+  diffChanged: '#ffa94d',
 }
 
 /**
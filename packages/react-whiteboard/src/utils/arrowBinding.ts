@@ -0,0 +1,325 @@
+import type { ArrowBinding, ArrowShape, Point, Shape } from '../types'
+import { rotatePoint } from './shapeHitTest'
+
+/** Screen-space distance (px) from a shape's outline within which an arrow endpoint binds */
+export const BINDING_DISTANCE = 12
+
+/** Shape types an arrow endpoint can bind to */
+const BINDABLE_TYPES = new Set(['rectangle', 'ellipse', 'text', 'image'])
+
+/** Check if a shape can be the target of an arrow binding */
+export function canBindArrow(shape: Shape): boolean {
+  return BINDABLE_TYPES.has(shape.type) && !shape.parentId
+}
+
+/** Minimal shape geometry needed for binding math */
+type BindingTarget = Pick<Shape, 'type' | 'x' | 'y' | 'width' | 'height' | 'rotation'>
+
+function getCenter(shape: BindingTarget): Point {
+  return { x: shape.x + shape.width / 2, y: shape.y + shape.height / 2 }
+}
+
+/**
+ * Distance from a point (in the shape's unrotated frame) to the shape's outline.
+ * Returns 0 for points inside the shape.
+ */
+function distanceOutside(shape: BindingTarget, local: Point): number {
+  if (shape.type === 'ellipse') {
+    const rx = Math.max(shape.width / 2, 1)
+    const ry = Math.max(shape.height / 2, 1)
+    const c = getCenter(shape)
+    const dx = local.x - c.x
+    const dy = local.y - c.y
+    const r = Math.hypot(dx / rx, dy / ry)
+    if (r <= 1) return 0
+    return Math.hypot(dx, dy) * (1 - 1 / r)
+  }
+
+  const dx = Math.max(shape.x - local.x, 0, local.x - (shape.x + shape.width))
+  const dy = Math.max(shape.y - local.y, 0, local.y - (shape.y + shape.height))
+  return Math.hypot(dx, dy)
+}
+
+/**
+ * Parameter `t` in [0, 1] where the segment `from → to` enters the shape outline,
+ * or null if it never does. `from` is expected to lie outside the shape.
+ */
+function intersectOutline(shape: BindingTarget, from: Point, to: Point): number | null {
+  const dx = to.x - from.x
+  const dy = to.y - from.y
+
+  if (shape.type === 'ellipse') {
+    const rx = Math.max(shape.width / 2, 1)
+    const ry = Math.max(shape.height / 2, 1)
+    const c = getCenter(shape)
+    const px = (from.x - c.x) / rx
+    const py = (from.y - c.y) / ry
+    const qx = dx / rx
+    const qy = dy / ry
+    const a = qx * qx + qy * qy
+    const b = 2 * (px * qx + py * qy)
+    const cc = px * px + py * py - 1
+    const disc = b * b - 4 * a * cc
+    if (a === 0 || disc < 0) return null
+    const t = (-b - Math.sqrt(disc)) / (2 * a)
+    return t >= 0 && t <= 1 ? t : null
+  }
+
+  // Slab method against the axis-aligned box
+  let tEnter = 0
+  let tExit = 1
+  const slabs: [number, number, number, number][] = [
+    [from.x, dx, shape.x, shape.x + shape.width],
+    [from.y, dy, shape.y, shape.y + shape.height],
+  ]
+  for (const [origin, delta, min, max] of slabs) {
+    if (delta === 0) {
+      if (origin < min || origin > max) return null
+      continue
+    }
+    let t1 = (min - origin) / delta
+    let t2 = (max - origin) / delta
+    if (t1 > t2) [t1, t2] = [t2, t1]
+    tEnter = Math.max(tEnter, t1)
+    tExit = Math.min(tExit, t2)
+    if (tEnter > tExit) return null
+  }
+  return tEnter
+}
+
+/**
+ * Find the topmost shape whose outline is within `threshold` of a point,
+ * and build a binding for it. Points inside a shape bind with zero gap.
+ */
+export function findBindingTarget(
+  point: Point,
+  shapes: Map<string, Shape>,
+  shapeIds: string[],
+  threshold: number,
+): ArrowBinding | null {
+  for (let i = shapeIds.length - 1; i >= 0; i--) {
+    const shape = shapes.get(shapeIds[i]!)
+    if (!shape || !canBindArrow(shape)) continue
+
+    const local = shape.rotation
+      ? rotatePoint(point, getCenter(shape), -shape.rotation)
+      : point
+    const distance = distanceOutside(shape, local)
+    if (distance > threshold) continue
+
+    const width = Math.max(shape.width, 1)
+    const height = Math.max(shape.height, 1)
+    return {
+      shapeId: shape.id,
+      focus: {
+        x: Math.min(Math.max((local.x - shape.x) / width, 0), 1),
+        y: Math.min(Math.max((local.y - shape.y) / height, 0), 1),
+      },
+      gap: distance,
+    }
+  }
+  return null
+}
+
+/** Canvas-space point the binding aims at (focus inside the target) */
+export function getBindingFocusPoint(target: BindingTarget, binding: ArrowBinding): Point {
+  const point = {
+    x: target.x + binding.focus.x * target.width,
+    y: target.y + binding.focus.y * target.height,
+  }
+  return target.rotation ? rotatePoint(point, getCenter(target), target.rotation) : point
+}
+
+/**
+ * Where a bound endpoint should sit: on the segment from `reference` towards
+ * the focus point, stopped at the target's outline and backed off by the gap.
+ */
+export function getBindingPoint(
+  target: BindingTarget,
+  binding: ArrowBinding,
+  reference: Point,
+): Point {
+  const center = getCenter(target)
+  const focus = {
+    x: target.x + binding.focus.x * target.width,
+    y: target.y + binding.focus.y * target.height,
+  }
+  const from = target.rotation ? rotatePoint(reference, center, -target.rotation) : reference
+
+  let tip = focus
+  if (distanceOutside(target, from) > 0) {
+    const t = intersectOutline(target, from, focus)
+    if (t !== null) {
+      const dx = focus.x - from.x
+      const dy = focus.y - from.y
+      const length = Math.hypot(dx, dy)
+      const backoff = length > 0 ? binding.gap / length : 0
+      const tGap = Math.max(t - backoff, 0)
+      tip = { x: from.x + dx * tGap, y: from.y + dy * tGap }
+    }
+  }
+
+  return target.rotation ? rotatePoint(tip, center, target.rotation) : tip
+}
+
+/** Absolute start/end points of an arrow */
+export function getArrowEndpoints(arrow: ArrowShape): { start: Point; end: Point } {
+  return {
+    start: { x: arrow.x + arrow.props.start.x, y: arrow.y + arrow.props.start.y },
+    end: { x: arrow.x + arrow.props.end.x, y: arrow.y + arrow.props.end.y },
+  }
+}
+
+/** Build arrow geometry (position, size, relative points) from absolute endpoints */
+export function arrowGeometryFromPoints(
+  arrow: ArrowShape,
+  start: Point,
+  end: Point,
+): ArrowShape {
+  const minX = Math.min(start.x, end.x)
+  const minY = Math.min(start.y, end.y)
+  return {
+    ...arrow,
+    x: minX,
+    y: minY,
+    width: Math.max(Math.abs(end.x - start.x), 1),
+    height: Math.max(Math.abs(end.y - start.y), 1),
+    props: {
+      ...arrow.props,
+      start: { x: start.x - minX, y: start.y - minY },
+      end: { x: end.x - minX, y: end.y - minY },
+    },
+  }
+}
+
+/**
+ * Recompute a bound arrow's endpoints from its current binding targets.
+ * Returns the arrow unchanged if it has no live bindings.
+ */
+export function resolveBoundArrow(arrow: ArrowShape, shapes: Map<string, Shape>): ArrowShape {
+  const { startBinding, endBinding } = arrow.props
+  const startTarget = startBinding ? shapes.get(startBinding.shapeId) : undefined
+  const endTarget = endBinding ? shapes.get(endBinding.shapeId) : undefined
+  if (!startTarget && !endTarget) return arrow
+
+  let { start, end } = getArrowEndpoints(arrow)
+
+  // Aim each bound end at the other end's focus point (or its free position)
+  const startRef = endTarget && endBinding ? getBindingFocusPoint(endTarget, endBinding) : end
+  const endRef = startTarget && startBinding ? getBindingFocusPoint(startTarget, startBinding) : start
+
+  if (startTarget && startBinding) start = getBindingPoint(startTarget, startBinding, startRef)
+  if (endTarget && endBinding) end = getBindingPoint(endTarget, endBinding, endRef)
+
+  return arrowGeometryFromPoints(arrow, start, end)
+}
+
+/** Check whether an arrow is bound to any of the given shape IDs */
+function isBoundToAny(arrow: ArrowShape, ids: Set<string>): boolean {
+  const { startBinding, endBinding } = arrow.props
+  return (!!startBinding && ids.has(startBinding.shapeId))
+    || (!!endBinding && ids.has(endBinding.shapeId))
+}
+
+/**
+ * Re-position every arrow bound to one of `targetIds`, writing into `shapes`.
+ * Returns the previous state of each arrow that was updated.
+ */
+export function syncBoundArrows(
+  shapes: Map<string, Shape>,
+  targetIds: Iterable<string>,
+): ArrowShape[] {
+  const ids = new Set(targetIds)
+  if (ids.size === 0) return []
+
+  const previous: ArrowShape[] = []
+  for (const shape of shapes.values()) {
+    if (shape.type !== 'arrow' || !isBoundToAny(shape, ids)) continue
+    previous.push(shape)
+    shapes.set(shape.id, resolveBoundArrow(shape, shapes))
+  }
+  return previous
+}
+
+/**
+ * Clear bindings that point at any of `removedIds`, writing into `shapes`.
+ * Arrows keep their current position. Returns the previous state of each changed arrow.
+ */
+export function detachBoundArrows(
+  shapes: Map<string, Shape>,
+  removedIds: Iterable<string>,
+): ArrowShape[] {
+  const ids = new Set(removedIds)
+  if (ids.size === 0) return []
+
+  const previous: ArrowShape[] = []
+  for (const shape of shapes.values()) {
+    if (shape.type !== 'arrow' || ids.has(shape.id) || !isBoundToAny(shape, ids)) continue
+    const { startBinding, endBinding } = shape.props
+    previous.push(shape)
+    shapes.set(shape.id, {
+      ...shape,
+      props: {
+        ...shape.props,
+        startBinding: startBinding && ids.has(startBinding.shapeId) ? null : startBinding,
+        endBinding: endBinding && ids.has(endBinding.shapeId) ? null : endBinding,
+      },
+    })
+  }
+  return previous
+}
+
+/**
+ * Release the bindings of an arrow whose geometry was changed directly
+ * (dragged, resized, rotated) while its target was not part of the same update.
+ */
+export function releaseMovedArrow(
+  before: Shape,
+  after: Shape,
+  updatedIds: Set<string>,
+): Shape {
+  if (before.type !== 'arrow' || after.type !== 'arrow') return after
+  const { startBinding, endBinding } = after.props
+  if (!startBinding && !endBinding) return after
+
+  const moved = before.x !== after.x
+    || before.y !== after.y
+    || before.rotation !== after.rotation
+    || before.props.start.x !== after.props.start.x
+    || before.props.start.y !== after.props.start.y
+    || before.props.end.x !== after.props.end.x
+    || before.props.end.y !== after.props.end.y
+  if (!moved) return after
+
+  const keepStart = !!startBinding && updatedIds.has(startBinding.shapeId)
+  const keepEnd = !!endBinding && updatedIds.has(endBinding.shapeId)
+  if ((keepStart || !startBinding) && (keepEnd || !endBinding)) return after
+
+  return {
+    ...after,
+    props: {
+      ...after.props,
+      startBinding: keepStart ? startBinding : null,
+      endBinding: keepEnd ? endBinding : null,
+    },
+  }
+}
+
+/**
+ * Remap binding targets for copied arrows. Bindings to shapes outside the
+ * copied set are dropped so the copy does not follow the original target.
+ */
+export function remapArrowBindings(shape: Shape, idMap: Map<string, string>): Shape {
+  if (shape.type !== 'arrow') return shape
+  const { startBinding, endBinding } = shape.props
+  if (!startBinding && !endBinding) return shape
+
+  const remap = (binding: ArrowBinding | null | undefined): ArrowBinding | null => {
+    const newId = binding ? idMap.get(binding.shapeId) : undefined
+    return binding && newId ? { ...binding, shapeId: newId } : null
+  }
+  return {
+    ...shape,
+    props: { ...shape.props, startBinding: remap(startBinding), endBinding: remap(endBinding) },
+  }
+}
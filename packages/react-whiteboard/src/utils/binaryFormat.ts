@@ -0,0 +1,380 @@
+import type { Shape, Viewport } from '../types'
+import { readDocument, resolveImageBlobUrls, serializeDocument, type WhiteboardDocument } from './serialization'
+
+/** MIME type for `.wbz` files */
+export const WBZ_MIME_TYPE = 'application/vnd.react-whiteboard+wbz'
+
+/** `WBZ` followed by the container version */
+const MAGIC = [0x57, 0x42, 0x5a, 1]
+const FLAG_GZIP = 1
+
+const DEFAULT_PRECISION = 2
+
+/** Shape types whose `props.points` are quantized */
+const POINT_SHAPE_TYPES = new Set(['path', 'line'])
+
+/**
+ * Largest quantized coordinate: deltas between two of them, zigzag-mapped,
+ * must stay safe integers
+ */
+const MAX_QUANTIZED = Math.floor(Number.MAX_SAFE_INTEGER / 4)
+
+// Value tags. Every string (object keys included) is written once to a
+// string table and referred to by index.
+const TAG_NULL = 0
+const TAG_FALSE = 1
+const TAG_TRUE = 2
+const TAG_INT = 3
+const TAG_FLOAT = 4
+const TAG_STRING = 5
+const TAG_ARRAY = 6
+const TAG_OBJECT = 7
+/** Arrays of `{ x, y, pressure? }`, quantized and delta-encoded */
+const TAG_POINTS = 8
+
+/** @public */
+export interface BinaryExportOptions {
+  /**
+   * Decimal places kept for path and line points (default: 2). Points come
+   * back within half a unit of the last kept place; other numbers are exact.
+   */
+  precision?: number
+  /** Gzip the encoded document when `CompressionStream` is available (default: true) */
+  compress?: boolean
+}
+
+class ByteWriter {
+  private buffer = new Uint8Array(1024)
+  private view = new DataView(this.buffer.buffer)
+  length = 0
+
+  private reserve(size: number): void {
+    if (this.length + size <= this.buffer.length) return
+    let capacity = this.buffer.length * 2
+    while (capacity < this.length + size) capacity *= 2
+    const next = new Uint8Array(capacity)
+    next.set(this.buffer.subarray(0, this.length))
+    this.buffer = next
+    this.view = new DataView(next.buffer)
+  }
+
+  byte(value: number): void {
+    this.reserve(1)
+    this.buffer[this.length++] = value
+  }
+
+  /** Unsigned LEB128, for safe integers */
+  varint(value: number): void {
+    let rest = value
+    while (rest >= 0x80) {
+      this.byte((rest % 0x80) | 0x80)
+      rest = Math.floor(rest / 0x80)
+    }
+    this.byte(rest)
+  }
+
+  /** Zigzag-mapped signed varint, so small negative numbers stay small */
+  signed(value: number): void {
+    this.varint(value >= 0 ? value * 2 : -value * 2 - 1)
+  }
+
+  float(value: number): void {
+    this.reserve(8)
+    this.view.setFloat64(this.length, value)
+    this.length += 8
+  }
+
+  bytes(value: Uint8Array): void {
+    this.reserve(value.length)
+    this.buffer.set(value, this.length)
+    this.length += value.length
+  }
+
+  finish(): Uint8Array<ArrayBuffer> {
+    return this.buffer.slice(0, this.length)
+  }
+}
+
+class ByteReader {
+  private readonly view: DataView
+  offset = 0
+
+  constructor(private readonly buffer: Uint8Array) {
+    this.view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength)
+  }
+
+  byte(): number {
+    if (this.offset >= this.buffer.length) throw new Error('Invalid binary document: unexpected end of data')
+    return this.buffer[this.offset++]!
+  }
+
+  varint(): number {
+    let value = 0
+    let scale = 1
+    for (;;) {
+      const byte = this.byte()
+      value += (byte & 0x7f) * scale
+      if (byte < 0x80) return value
+      scale *= 0x80
+    }
+  }
+
+  signed(): number {
+    const value = this.varint()
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2
+  }
+
+  float(): number {
+    const value = this.view.getFloat64(this.offset)
+    this.offset += 8
+    return value
+  }
+
+  bytes(length: number): Uint8Array {
+    const value = this.buffer.subarray(this.offset, this.offset + length)
+    this.offset += length
+    return value
+  }
+}
+
+type PointLike = { x: number; y: number; pressure?: number }
+
+/** Whether `value` fits the quantized encoding at `scale` */
+function quantizable(value: number, scale: number): boolean {
+  return Math.abs(Math.round(value * scale)) <= MAX_QUANTIZED
+}
+
+/**
+ * Whether `items` is a list of points that can be quantized at `scale`, and
+ * whether they all carry pressure. Null when they must be stored as they are.
+ */
+function pointListKind(items: unknown[], scale: number): 'plain' | 'pressure' | null {
+  if (items.length < 2) return null
+  let withPressure = 0
+  for (const item of items) {
+    if (typeof item !== 'object' || item === null) return null
+    const point = item as Record<string, unknown>
+    const keys = Object.keys(point)
+    if (typeof point.x !== 'number' || typeof point.y !== 'number') return null
+    if (!quantizable(point.x, scale) || !quantizable(point.y, scale)) return null
+    if (point.pressure !== undefined) {
+      if (typeof point.pressure !== 'number' || !quantizable(point.pressure, scale)) return null
+      withPressure++
+    }
+    if (keys.length !== (point.pressure === undefined ? 2 : 3)) return null
+  }
+  if (withPressure === 0) return 'plain'
+  return withPressure === items.length ? 'pressure' : null
+}
+
+/**
+ * Where a value sits in the document: the props of a shape with points, or
+ * those points. Only those points are quantized; any other list of `{ x, y }`
+ * is kept exact.
+ */
+type Field = 'point-props' | 'points' | null
+
+function encodeValue(
+  value: unknown,
+  writer: ByteWriter,
+  strings: Map<string, number>,
+  scale: number,
+  field: Field = null,
+): void {
+  if (value === null || value === undefined) {
+    writer.byte(TAG_NULL)
+  } else if (typeof value === 'boolean') {
+    writer.byte(value ? TAG_TRUE : TAG_FALSE)
+  } else if (typeof value === 'number') {
+    if (Number.isSafeInteger(value)) {
+      writer.byte(TAG_INT)
+      writer.signed(value)
+    } else {
+      writer.byte(TAG_FLOAT)
+      writer.float(value)
+    }
+  } else if (typeof value === 'string') {
+    let index = strings.get(value)
+    if (index === undefined) {
+      index = strings.size
+      strings.set(value, index)
+    }
+    writer.byte(TAG_STRING)
+    writer.varint(index)
+  } else if (Array.isArray(value)) {
+    const kind = field === 'points' ? pointListKind(value, scale) : null
+    if (kind) {
+      writer.byte(TAG_POINTS)
+      writer.varint(value.length)
+      writer.byte(kind === 'pressure' ? 1 : 0)
+      let x = 0
+      let y = 0
+      let pressure = 0
+      for (const point of value as PointLike[]) {
+        const qx = Math.round(point.x * scale)
+        const qy = Math.round(point.y * scale)
+        writer.signed(qx - x)
+        writer.signed(qy - y)
+        x = qx
+        y = qy
+        if (kind === 'pressure') {
+          const qp = Math.round(point.pressure! * scale)
+          writer.signed(qp - pressure)
+          pressure = qp
+        }
+      }
+      return
+    }
+    writer.byte(TAG_ARRAY)
+    writer.varint(value.length)
+    for (const item of value) encodeValue(item, writer, strings, scale)
+  } else if (typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined)
+    const hasPoints = POINT_SHAPE_TYPES.has((value as { type?: unknown }).type as string)
+    writer.byte(TAG_OBJECT)
+    writer.varint(entries.length)
+    for (const [key, v] of entries) {
+      encodeValue(key, writer, strings, scale)
+      const child: Field = hasPoints && key === 'props' ? 'point-props'
+        : field === 'point-props' && key === 'points' ? 'points'
+        : null
+      encodeValue(v, writer, strings, scale, child)
+    }
+  } else {
+    throw new Error(`Cannot encode a ${typeof value}`)
+  }
+}
+
+function decodeValue(reader: ByteReader, strings: string[], scale: number): unknown {
+  const tag = reader.byte()
+  switch (tag) {
+    case TAG_NULL: return null
+    case TAG_FALSE: return false
+    case TAG_TRUE: return true
+    case TAG_INT: return reader.signed()
+    case TAG_FLOAT: return reader.float()
+    case TAG_STRING: {
+      const value = strings[reader.varint()]
+      if (value === undefined) throw new Error('Invalid binary document: unknown string')
+      return value
+    }
+    case TAG_ARRAY:
+      return Array.from({ length: reader.varint() }, () => decodeValue(reader, strings, scale))
+    case TAG_OBJECT: {
+      const result: Record<string, unknown> = {}
+      const count = reader.varint()
+      for (let i = 0; i < count; i++) {
+        const key = decodeValue(reader, strings, scale)
+        if (typeof key !== 'string') throw new Error('Invalid binary document: object key is not a string')
+        result[key] = decodeValue(reader, strings, scale)
+      }
+      return result
+    }
+    case TAG_POINTS: {
+      const count = reader.varint()
+      const withPressure = reader.byte() === 1
+      const points: PointLike[] = []
+      let x = 0
+      let y = 0
+      let pressure = 0
+      for (let i = 0; i < count; i++) {
+        x += reader.signed()
+        y += reader.signed()
+        if (withPressure) {
+          pressure += reader.signed()
+          points.push({ x: x / scale, y: y / scale, pressure: pressure / scale })
+        } else {
+          points.push({ x: x / scale, y: y / scale })
+        }
+      }
+      return points
+    }
+    default:
+      throw new Error(`Invalid binary document: unknown tag ${tag}`)
+  }
+}
+
+/** Run bytes through a (de)compression stream */
+async function pipeThrough(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array<ArrayBuffer>> {
+  const writer = stream.writable.getWriter()
+  const writing = writer.write(bytes as Uint8Array<ArrayBuffer>).then(() => writer.close())
+  const reader = stream.readable.getReader()
+  const output = new ByteWriter()
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    output.bytes(value)
+  }
+  await writing
+  return output.finish()
+}
+
+/**
+ * Encode whiteboard state as a compact binary `.wbz` document.
+ *
+ * Path and line points are quantized to `precision` decimal places and
+ * delta-encoded (kept exact when that would overflow), every string (colors, fonts, keys…) is stored once, and the
+ * result is gzipped. Image blob URLs are inlined as DataURLs, as in `exportToJSON`.
+ * @public
+ */
+export async function exportToBinary(
+  shapes: Map<string, Shape>,
+  shapeIds: string[],
+  viewport: Viewport,
+  options?: BinaryExportOptions,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const precision = options?.precision ?? DEFAULT_PRECISION
+  if (!Number.isInteger(precision) || precision < 0 || precision > 10) {
+    throw new Error(`Invalid precision: ${precision} (expected 0-10 decimal places)`)
+  }
+  const doc = serializeDocument(shapes, shapeIds, viewport)
+  doc.shapes = await resolveImageBlobUrls(doc.shapes)
+
+  const strings = new Map<string, number>()
+  const values = new ByteWriter()
+  encodeValue(doc, values, strings, 10 ** precision)
+
+  const body = new ByteWriter()
+  body.byte(precision)
+  body.varint(strings.size)
+  const encoder = new TextEncoder()
+  for (const value of strings.keys()) {
+    const bytes = encoder.encode(value)
+    body.varint(bytes.length)
+    body.bytes(bytes)
+  }
+  body.bytes(values.finish())
+
+  const compress = (options?.compress ?? true) && typeof CompressionStream !== 'undefined'
+  const payload = compress ? await pipeThrough(body.finish(), new CompressionStream('gzip')) : body.finish()
+  const result = new Uint8Array(MAGIC.length + 1 + payload.length)
+  result.set(MAGIC)
+  result[MAGIC.length] = compress ? FLAG_GZIP : 0
+  result.set(payload, MAGIC.length + 1)
+  return result
+}
+
+/**
+ * Decode a `.wbz` document from `exportToBinary`. Validated and migrated
+ * like `parseDocument`; throws on invalid input.
+ * @public
+ */
+export async function importFromBinary(data: ArrayBuffer | Uint8Array): Promise<WhiteboardDocument> {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data)
+  if (bytes.length <= MAGIC.length || MAGIC.some((byte, i) => bytes[i] !== byte)) {
+    throw new Error('Invalid binary document: not a .wbz file')
+  }
+  let body = bytes.subarray(MAGIC.length + 1)
+  if (bytes[MAGIC.length]! & FLAG_GZIP) {
+    if (typeof DecompressionStream === 'undefined') {
+      throw new Error('Invalid binary document: gzip is not supported in this environment')
+    }
+    body = await pipeThrough(body, new DecompressionStream('gzip'))
+  }
+
+  const reader = new ByteReader(body)
+  const scale = 10 ** reader.byte()
+  const decoder = new TextDecoder()
+  const strings = Array.from({ length: reader.varint() }, () => decoder.decode(reader.bytes(reader.varint())))
+  return readDocument(decodeValue(reader, strings, scale), false).document
+}
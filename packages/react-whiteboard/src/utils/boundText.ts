@@ -1,16 +1,26 @@
-import type { Shape, TextShape, RectangleShape, EllipseShape, Bounds } from '../types'
+import type { Shape, TextShape, BoundTextContainer, Bounds } from '../types'
 
 /** Inset padding for bound text inside parent shape (canvas units) */
 export const BOUND_TEXT_PADDING = 8
 
 /** Shape types that can contain bound text */
-const BOUND_TEXT_CONTAINERS = new Set(['rectangle', 'ellipse'])
+const BOUND_TEXT_CONTAINERS = new Set(['rectangle', 'ellipse', 'sticky'])
 
 /** Check if a shape type can contain bound text */
 export function canContainBoundText(type: string): boolean {
   return BOUND_TEXT_CONTAINERS.has(type)
 }
 
+/** Check if a shape can contain bound text, narrowing its type */
+export function isBoundTextContainer(shape: Shape | undefined): shape is BoundTextContainer {
+  return shape !== undefined && canContainBoundText(shape.type)
+}
+
+/** Copy of a container linked to the given bound text (or unlinked with null) */
+export function withBoundTextId<T extends BoundTextContainer>(container: T, boundTextId: string | null): T {
+  return { ...container, props: { ...container.props, boundTextId } }
+}
+
 /** Get the available text bounds inside a parent shape (with padding) */
 export function getBoundTextBounds(parent: Shape): Bounds {
   const pad = BOUND_TEXT_PADDING
@@ -32,7 +42,7 @@ export function centerTextVertically(parentHeight: number, textHeight: number):
 
 /** Get the bound text shape for a parent, if it exists */
 export function getBoundTextShape(
-  parent: RectangleShape | EllipseShape,
+  parent: BoundTextContainer,
   shapes: Map<string, Shape>,
 ): TextShape | null {
   const boundTextId = parent.props.boundTextId
@@ -64,8 +74,5 @@ export function collectBoundTextIds(
 
 /** Extract boundTextId from shape props if supported */
 export function getBoundTextIdFromShape(shape: Shape): string | null {
-  if (shape.type === 'rectangle' || shape.type === 'ellipse') {
-    return (shape as RectangleShape | EllipseShape).props.boundTextId ?? null
-  }
-  return null
+  return isBoundTextContainer(shape) ? shape.props.boundTextId ?? null : null
 }
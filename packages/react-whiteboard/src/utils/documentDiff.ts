@@ -0,0 +1,68 @@
+/**
+ * Shape-level comparison of two whiteboard documents, e.g. a checkpoint
+ * against the current board.
+ */
+
+import type { Shape } from '../types'
+import { diffShape } from './shapeDiff'
+import type { WhiteboardDocument } from './serialization'
+
+/**
+ * A shape present in both documents with different contents.
+ * @public
+ */
+export interface ShapeChange {
+  id: string
+  before: Shape
+  after: Shape
+  /** The fields that differ; props are listed per prop, as `props.<name>` */
+  fields: string[]
+}
+
+/**
+ * What changed from one document to another.
+ * @public
+ */
+export interface DocumentDiff {
+  /** Shapes only in the second document, in its order */
+  added: Shape[]
+  /** Shapes only in the first document, in its order */
+  removed: Shape[]
+  /** Shapes in both that differ, in the second document's order */
+  changed: ShapeChange[]
+}
+
+/**
+ * Compare two documents shape by shape, pairing shapes by ID.
+ * Stacking order is not compared.
+ * @public
+ */
+export function diffDocuments(
+  a: Pick<WhiteboardDocument, 'shapes'>,
+  b: Pick<WhiteboardDocument, 'shapes'>,
+): DocumentDiff {
+  const before = new Map(a.shapes.map((shape) => [shape.id, shape]))
+  const afterIds = new Set(b.shapes.map((shape) => shape.id))
+  const diff: DocumentDiff = {
+    added: [],
+    removed: a.shapes.filter((shape) => !afterIds.has(shape.id)),
+    changed: [],
+  }
+
+  for (const after of b.shapes) {
+    const prev = before.get(after.id)
+    if (!prev) {
+      diff.added.push(after)
+      continue
+    }
+    const change = diffShape(prev, after)
+    if (!change) continue
+    const fields = Object.keys(change.after).filter((key) => key !== 'id' && key !== 'props')
+    if ('props' in change.after) {
+      const props = { ...change.before.props, ...change.after.props }
+      for (const prop of Object.keys(props)) fields.push(`props.${prop}`)
+    }
+    diff.changed.push({ id: after.id, before: prev, after, fields })
+  }
+  return diff
+}
@@ -0,0 +1,157 @@
+/**
+ * Runtime checks for shapes read from documents. Each problem is reported
+ * with the path to the offending value, e.g.
+ * `shapes[12].props.points[3].x is not a number`.
+ */
+
+/** Checks `value`, adding `<path> <problem>` messages to `errors` */
+type Validator = (value: unknown, path: string, errors: string[]) => void
+
+/** Validators that accept a missing (undefined) value */
+const optionalValidators = new WeakSet<Validator>()
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+const number: Validator = (value, path, errors) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) errors.push(`${path} is not a number`)
+}
+
+const string: Validator = (value, path, errors) => {
+  if (typeof value !== 'string') errors.push(`${path} is not a string`)
+}
+
+const boolean: Validator = (value, path, errors) => {
+  if (typeof value !== 'boolean') errors.push(`${path} is not a boolean`)
+}
+
+const record: Validator = (value, path, errors) => {
+  if (!isObject(value)) errors.push(`${path} is not an object`)
+}
+
+function oneOf(...values: string[]): Validator {
+  return (value, path, errors) => {
+    if (!values.includes(value as string)) {
+      errors.push(`${path} is not one of ${values.map((v) => `'${v}'`).join(', ')}`)
+    }
+  }
+}
+
+function optional(validator: Validator): Validator {
+  const result: Validator = (value, path, errors) => {
+    if (value !== undefined) validator(value, path, errors)
+  }
+  optionalValidators.add(result)
+  return result
+}
+
+function nullable(validator: Validator): Validator {
+  return (value, path, errors) => {
+    if (value !== null) validator(value, path, errors)
+  }
+}
+
+function arrayOf(validator: Validator): Validator {
+  return (value, path, errors) => {
+    if (!Array.isArray(value)) {
+      errors.push(`${path} is not an array`)
+      return
+    }
+    value.forEach((item, i) => validator(item, `${path}[${i}]`, errors))
+  }
+}
+
+function object(fields: Record<string, Validator>): Validator {
+  return (value, path, errors) => {
+    if (!isObject(value)) {
+      errors.push(`${path} is not an object`)
+      return
+    }
+    for (const [key, validator] of Object.entries(fields)) {
+      if (value[key] === undefined && !optionalValidators.has(validator)) errors.push(`${path}.${key} is missing`)
+      else validator(value[key], `${path}.${key}`, errors)
+    }
+  }
+}
+
+const point = object({ x: number, y: number })
+const fillStyle = oneOf('solid', 'hachure', 'cross-hatch', 'dots')
+const strokeStyle = oneOf('solid', 'dashed', 'dotted')
+const arrowhead = oneOf('none', 'arrow', 'triangle')
+const boundTextId = optional(nullable(string))
+const binding = optional(nullable(object({ shapeId: string, focus: point, gap: number })))
+const stroke = { stroke: string, strokeWidth: number, strokeStyle }
+const imageCrop = optional(object({ x: number, y: number, width: number, height: number }))
+const imageFilter = optional(object({ brightness: number, grayscale: number }))
+
+const baseShape = object({
+  id: string,
+  type: string,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  rotation: number,
+  opacity: number,
+  isLocked: boolean,
+  parentId: nullable(string),
+  meta: optional(record),
+  seed: number,
+  roughness: number,
+})
+
+/** Props of the built-in shape types; other (custom) types only need an object */
+const shapeProps: Record<string, Validator> = {
+  rectangle: object({ fill: string, fillStyle, ...stroke, cornerRadius: number, boundTextId }),
+  ellipse: object({ fill: string, fillStyle, ...stroke, boundTextId }),
+  line: object({ ...stroke, points: arrayOf(point) }),
+  arrow: object({
+    ...stroke,
+    start: point,
+    end: point,
+    startArrowhead: arrowhead,
+    endArrowhead: arrowhead,
+    startBinding: binding,
+    endBinding: binding,
+  }),
+  text: object({
+    text: string,
+    fontSize: number,
+    fontFamily: oneOf('hand', 'sans', 'serif', 'mono'),
+    fontWeight: number,
+    fontStyle: oneOf('normal', 'italic'),
+    color: string,
+    backgroundColor: string,
+    align: oneOf('left', 'center', 'right'),
+    lineHeight: number,
+  }),
+  path: object({ ...stroke, points: arrayOf(object({ x: number, y: number, pressure: optional(number) })), isComplete: boolean }),
+  image: object({
+    src: string,
+    naturalWidth: number,
+    naturalHeight: number,
+    crop: imageCrop,
+    flipX: optional(boolean),
+    flipY: optional(boolean),
+    filter: imageFilter,
+  }),
+  group: object({ childIds: arrayOf(string) }),
+  frame: object({ name: string, fill: string, stroke: string, childIds: arrayOf(string) }),
+  sticky: object({ color: string, boundTextId }),
+  'react-component': object({ componentType: string, componentProps: record }),
+}
+
+/**
+ * Problems with a shape read from a document, each prefixed with `path`.
+ * Empty if the shape is valid.
+ * @internal
+ */
+export function validateShape(value: unknown, path: string): string[] {
+  const errors: string[] = []
+  baseShape(value, path, errors)
+  if (errors.length > 0 || !isObject(value)) return errors
+  const props = shapeProps[value.type as string] ?? record
+  props(value.props, `${path}.props`, errors)
+  return errors
+}
@@ -0,0 +1,167 @@
+import { nanoid } from 'nanoid'
+import type { Point, PathPoint, PathShape, Shape } from '../types'
+import type { ShapeRendererRegistry } from '../core/renderer/ShapeRendererRegistry'
+import { distanceToLineSegment, hitTestShape, rotatePoint } from './shapeHitTest'
+
+/** Default eraser radius in screen pixels */
+export const ERASER_RADIUS = 8
+
+/** A straight piece of the eraser trail, in canvas coordinates */
+export type EraserSegment = readonly [Point, Point]
+
+/** Orientation sign of the triangle (a, b, c) */
+function cross(a: Point, b: Point, c: Point): number {
+  return (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x)
+}
+
+/** Minimum distance between segments `a→b` and `c→d` (0 when they cross) */
+export function segmentDistance(a: Point, b: Point, c: Point, d: Point): number {
+  const d1 = cross(c, d, a)
+  const d2 = cross(c, d, b)
+  const d3 = cross(a, b, c)
+  const d4 = cross(a, b, d)
+  if (((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))) {
+    return 0
+  }
+  return Math.min(
+    distanceToLineSegment(a, c, d),
+    distanceToLineSegment(b, c, d),
+    distanceToLineSegment(c, a, b),
+    distanceToLineSegment(d, a, b),
+  )
+}
+
+/** Sample points along `from → to` so consecutive samples are at most `step` apart */
+export function sampleSegment(from: Point, to: Point, step: number): Point[] {
+  const length = Math.hypot(to.x - from.x, to.y - from.y)
+  const count = Math.max(1, Math.ceil(length / Math.max(step, 1)))
+  const samples: Point[] = []
+  for (let i = 0; i <= count; i++) {
+    const t = i / count
+    samples.push({ x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t })
+  }
+  return samples
+}
+
+/** Absolute (canvas-space) points of a path, with rotation applied */
+function getAbsolutePathPoints(path: PathShape): PathPoint[] {
+  const center = { x: path.x + path.width / 2, y: path.y + path.height / 2 }
+  return path.props.points.map((p) => {
+    const abs = { x: path.x + p.x, y: path.y + p.y }
+    const rotated = path.rotation ? rotatePoint(abs, center, path.rotation) : abs
+    return { ...rotated, pressure: p.pressure }
+  })
+}
+
+/** Check whether any part of a polyline comes within `distance` of a segment */
+function polylineNearSegment(points: Point[], from: Point, to: Point, distance: number): boolean {
+  if (points.length === 1) return distanceToLineSegment(points[0]!, from, to) <= distance
+  for (let i = 0; i < points.length - 1; i++) {
+    if (segmentDistance(points[i]!, points[i + 1]!, from, to) <= distance) return true
+  }
+  return false
+}
+
+/**
+ * Check whether an eraser stroke segment of the given radius touches a shape.
+ * Freehand paths are tested against their stroke rather than their bounding box.
+ * Locked shapes are never hit.
+ */
+export function eraserHitsShape(
+  shape: Shape,
+  from: Point,
+  to: Point,
+  radius: number,
+  registry?: ShapeRendererRegistry,
+): boolean {
+  if (shape.isLocked) return false
+
+  if (shape.type === 'path') {
+    const path = shape as PathShape
+    const points = getAbsolutePathPoints(path)
+    if (points.length === 0) return false
+    return polylineNearSegment(points, from, to, radius + path.props.strokeWidth / 2)
+  }
+
+  return sampleSegment(from, to, radius).some((point) => hitTestShape(point, shape, radius, registry))
+}
+
+/** Build a path shape from absolute points, normalized to its own bounds */
+function createPathFragment(source: PathShape, points: PathPoint[], id: string): PathShape {
+  let minX = Infinity
+  let minY = Infinity
+  let maxX = -Infinity
+  let maxY = -Infinity
+  for (const p of points) {
+    minX = Math.min(minX, p.x)
+    minY = Math.min(minY, p.y)
+    maxX = Math.max(maxX, p.x)
+    maxY = Math.max(maxY, p.y)
+  }
+
+  return {
+    ...source,
+    id,
+    x: minX,
+    y: minY,
+    width: maxX - minX,
+    height: maxY - minY,
+    rotation: 0,
+    props: {
+      ...source.props,
+      points: points.map((p) => ({ x: p.x - minX, y: p.y - minY, pressure: p.pressure })),
+    },
+  }
+}
+
+/**
+ * Split a freehand path where the eraser trail touched it.
+ * Returns `null` when the trail never touched the path, otherwise the remaining
+ * fragments (empty when the whole stroke was erased). Fragments are unrotated
+ * and get fresh IDs.
+ */
+export function splitPathByEraser(
+  path: PathShape,
+  segments: readonly EraserSegment[],
+  radius: number,
+  createId: () => string = nanoid,
+): PathShape[] | null {
+  const points = getAbsolutePathPoints(path)
+  if (points.length === 0 || segments.length === 0) return null
+
+  const reach = radius + path.props.strokeWidth / 2
+
+  const pointErased = (p: Point) =>
+    segments.some(([a, b]) => distanceToLineSegment(p, a, b) <= reach)
+  const edgeErased = (p: Point, q: Point) =>
+    segments.some(([a, b]) => segmentDistance(p, q, a, b) <= reach)
+
+  const runs: PathPoint[][] = []
+  let current: PathPoint[] = []
+  let touched = false
+
+  for (let i = 0; i < points.length; i++) {
+    const point = points[i]!
+    if (pointErased(point)) {
+      touched = true
+      if (current.length > 0) runs.push(current)
+      current = []
+      continue
+    }
+    // The trail may cross between two surviving points on sparse strokes
+    const prev = current[current.length - 1]
+    if (prev && edgeErased(prev, point)) {
+      touched = true
+      runs.push(current)
+      current = []
+    }
+    current.push(point)
+  }
+  if (current.length > 0) runs.push(current)
+
+  if (!touched) return null
+
+  return runs
+    .filter((run) => run.length >= 2)
+    .map((run) => createPathFragment(path, run, createId()))
+}
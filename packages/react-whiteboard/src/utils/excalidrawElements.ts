@@ -0,0 +1,355 @@
+import type {
+  ArrowShape,
+  BaseShape,
+  EllipseShape,
+  FillStyle,
+  ImageShape,
+  LineShape,
+  PathPoint,
+  PathShape,
+  Point,
+  RectangleShape,
+  Shape,
+  StrokeStyle,
+  TextFontFamily,
+  TextShape,
+} from '../types'
+import { DEFAULT_TEXT_PROPS } from './fonts'
+import { decodeDataUrl } from './imageBlobStore'
+import { readImageSize } from './imageSize'
+import type {
+  ExcalidrawElement,
+  ExcalidrawFileData,
+  ExcalidrawImportWarningCode,
+} from './excalidrawFormat'
+
+/** Excalidraw font family IDs → closest built-in family */
+const EXCALIDRAW_FONT_FAMILIES: Record<number, TextFontFamily> = {
+  1: 'hand', // Virgil
+  2: 'sans', // Helvetica
+  3: 'mono', // Cascadia
+  4: 'sans', // Assistant
+  5: 'hand', // Excalifont
+  6: 'sans', // Nunito
+  7: 'sans', // Lilita One
+  8: 'mono', // Comic Shanns
+  9: 'sans', // Liberation Sans
+}
+
+const FILL_STYLES = new Set<string>(['solid', 'hachure', 'cross-hatch'])
+const STROKE_STYLES = new Set<string>(['solid', 'dashed', 'dotted'])
+
+/** Excalidraw's fixed radius for adaptive rounded corners */
+const ADAPTIVE_RADIUS = 32
+
+/** Reports a warning about the element being converted */
+export type Warn = (code: ExcalidrawImportWarningCode, message: string) => void
+
+/** Check that a value has the fields every element needs */
+export function isValidElement(value: unknown): value is ExcalidrawElement {
+  if (typeof value !== 'object' || value === null) return false
+  const el = value as Record<string, unknown>
+  return typeof el.id === 'string'
+    && typeof el.type === 'string'
+    && Number.isFinite(el.x)
+    && Number.isFinite(el.y)
+    && Number.isFinite(el.width)
+    && Number.isFinite(el.height)
+}
+
+function isTransparent(color: string | undefined): boolean {
+  return !color || color === 'transparent'
+}
+
+function baseFromElement(el: ExcalidrawElement): Omit<BaseShape, 'type'> {
+  return {
+    id: el.id,
+    x: el.x,
+    y: el.y,
+    width: el.width,
+    height: el.height,
+    rotation: el.angle ?? 0,
+    opacity: (el.opacity ?? 100) / 100,
+    isLocked: el.locked ?? false,
+    parentId: null,
+    seed: el.seed ?? Math.floor(Math.random() * 2147483647),
+    roughness: el.roughness ?? 1,
+  }
+}
+
+function mapFillStyle(el: ExcalidrawElement, warn: Warn): FillStyle {
+  const style = el.fillStyle ?? 'hachure'
+  if (FILL_STYLES.has(style)) return style as FillStyle
+  if (!isTransparent(el.backgroundColor)) {
+    warn('approximated', `Fill style "${style}" drawn as hachure`)
+  }
+  return 'hachure'
+}
+
+function mapStrokeStyle(el: ExcalidrawElement): StrokeStyle {
+  const style = el.strokeStyle ?? 'solid'
+  return STROKE_STYLES.has(style) ? (style as StrokeStyle) : 'solid'
+}
+
+function strokeProps(el: ExcalidrawElement) {
+  return {
+    stroke: el.strokeColor ?? '#1e1e1e',
+    strokeWidth: el.strokeWidth ?? 2,
+    strokeStyle: mapStrokeStyle(el),
+  }
+}
+
+function getCornerRadius(el: ExcalidrawElement): number {
+  if (!el.roundness) return 0
+  const cutoff = Math.min(el.width, el.height) * 0.25
+  // Type 3 (adaptive) uses a fixed radius on large shapes; legacy types are proportional
+  if (el.roundness.type === 3) return Math.min(el.roundness.value ?? ADAPTIVE_RADIUS, cutoff)
+  return cutoff
+}
+
+function mapArrowhead(head: string | null | undefined, warn: Warn): ArrowShape['props']['endArrowhead'] {
+  if (!head) return 'none'
+  if (head === 'arrow') return 'arrow'
+  if (head === 'triangle') return 'triangle'
+  warn('approximated', `Arrowhead "${head}" drawn as "arrow"`)
+  return 'arrow'
+}
+
+/** Absolute points of a linear element */
+function getLinearPoints(el: ExcalidrawElement): Point[] {
+  return (el.points ?? []).map(([px, py]) => ({ x: el.x + px, y: el.y + py }))
+}
+
+export function getPointBounds(points: Point[]): { minX: number; minY: number; maxX: number; maxY: number } {
+  let minX = Infinity
+  let minY = Infinity
+  let maxX = -Infinity
+  let maxY = -Infinity
+  for (const p of points) {
+    minX = Math.min(minX, p.x)
+    minY = Math.min(minY, p.y)
+    maxX = Math.max(maxX, p.x)
+    maxY = Math.max(maxY, p.y)
+  }
+  return { minX, minY, maxX, maxY }
+}
+
+function toPath(el: ExcalidrawElement, points: PathPoint[]): PathShape {
+  const { minX, minY, maxX, maxY } = getPointBounds(points)
+  const { stroke, strokeWidth, strokeStyle } = strokeProps(el)
+  return {
+    ...baseFromElement(el),
+    type: 'path',
+    x: minX,
+    y: minY,
+    width: maxX - minX,
+    height: maxY - minY,
+    props: {
+      stroke,
+      strokeWidth,
+      strokeStyle,
+      points: points.map((p) => ({ x: p.x - minX, y: p.y - minY, pressure: p.pressure })),
+      isComplete: true,
+    },
+  }
+}
+
+function convertRectangle(el: ExcalidrawElement, warn: Warn): RectangleShape {
+  return {
+    ...baseFromElement(el),
+    type: 'rectangle',
+    props: {
+      fill: el.backgroundColor ?? 'transparent',
+      fillStyle: mapFillStyle(el, warn),
+      ...strokeProps(el),
+      cornerRadius: getCornerRadius(el),
+    },
+  }
+}
+
+function convertEllipse(el: ExcalidrawElement, warn: Warn): EllipseShape {
+  return {
+    ...baseFromElement(el),
+    type: 'ellipse',
+    props: {
+      fill: el.backgroundColor ?? 'transparent',
+      fillStyle: mapFillStyle(el, warn),
+      ...strokeProps(el),
+    },
+  }
+}
+
+function convertDiamond(el: ExcalidrawElement, warn: Warn): PathShape {
+  const { x, y, width: w, height: h } = el
+  warn('approximated', isTransparent(el.backgroundColor)
+    ? 'Diamond converted to a freehand outline'
+    : 'Diamond converted to a freehand outline; its fill was dropped')
+  return toPath(el, [
+    { x: x + w / 2, y },
+    { x: x + w, y: y + h / 2 },
+    { x: x + w / 2, y: y + h },
+    { x, y: y + h / 2 },
+    { x: x + w / 2, y },
+  ])
+}
+
+function convertLine(el: ExcalidrawElement, warn: Warn): LineShape | PathShape | null {
+  const points = getLinearPoints(el)
+  if (points.length < 2) return null
+  if (!isTransparent(el.backgroundColor)) {
+    warn('approximated', 'Line fill was dropped')
+  }
+  if (points.length > 2) {
+    warn('approximated', `Line with ${points.length} points converted to a freehand path`)
+    return toPath(el, points)
+  }
+  const { minX, minY, maxX, maxY } = getPointBounds(points)
+  return {
+    ...baseFromElement(el),
+    type: 'line',
+    x: minX,
+    y: minY,
+    width: maxX - minX,
+    height: maxY - minY,
+    props: {
+      ...strokeProps(el),
+      points: points.map((p) => ({ x: p.x - minX, y: p.y - minY })),
+    },
+  }
+}
+
+function convertArrow(el: ExcalidrawElement, warn: Warn): ArrowShape | null {
+  const points = getLinearPoints(el)
+  const start = points[0]
+  const end = points[points.length - 1]
+  if (!start || !end || points.length < 2) return null
+  if (points.length > 2) {
+    warn('approximated', `Arrow with ${points.length} points drawn as a straight arrow`)
+  }
+  const minX = Math.min(start.x, end.x)
+  const minY = Math.min(start.y, end.y)
+  return {
+    ...baseFromElement(el),
+    type: 'arrow',
+    x: minX,
+    y: minY,
+    width: Math.max(Math.abs(end.x - start.x), 1),
+    height: Math.max(Math.abs(end.y - start.y), 1),
+    props: {
+      ...strokeProps(el),
+      start: { x: start.x - minX, y: start.y - minY },
+      end: { x: end.x - minX, y: end.y - minY },
+      startArrowhead: mapArrowhead(el.startArrowhead, warn),
+      endArrowhead: mapArrowhead(el.endArrowhead, warn),
+    },
+  }
+}
+
+function convertFreedraw(el: ExcalidrawElement): PathShape | null {
+  const points = getLinearPoints(el)
+  if (points.length < 2) return null
+  const pressures = !el.simulatePressure && el.pressures?.length === points.length ? el.pressures : null
+  return toPath(el, points.map((p, i) => ({ ...p, pressure: pressures?.[i] })))
+}
+
+function convertText(el: ExcalidrawElement, warn: Warn): TextShape {
+  const family = el.fontFamily !== undefined ? EXCALIDRAW_FONT_FAMILIES[el.fontFamily] : undefined
+  if (!family && el.fontFamily !== undefined) {
+    warn('approximated', `Font family ${el.fontFamily} drawn with the default font`)
+  }
+  const align = el.textAlign === 'center' || el.textAlign === 'right' ? el.textAlign : 'left'
+  return {
+    ...baseFromElement(el),
+    type: 'text',
+    roughness: 0,
+    props: {
+      ...DEFAULT_TEXT_PROPS,
+      text: el.text ?? '',
+      fontSize: el.fontSize ?? DEFAULT_TEXT_PROPS.fontSize,
+      fontFamily: family ?? DEFAULT_TEXT_PROPS.fontFamily,
+      color: el.strokeColor ?? DEFAULT_TEXT_PROPS.color,
+      backgroundColor: el.backgroundColor ?? 'transparent',
+      align,
+      lineHeight: el.lineHeight ?? DEFAULT_TEXT_PROPS.lineHeight,
+    },
+  }
+}
+
+/** Pixel size of a data URL image, or null if it can't be read */
+function pixelSize(dataURL: string): { width: number; height: number } | null {
+  try {
+    const decoded = decodeDataUrl(dataURL)
+    return decoded ? readImageSize(decoded.bytes) : null
+  } catch {
+    return null
+  }
+}
+
+function convertImage(
+  el: ExcalidrawElement,
+  files: Record<string, ExcalidrawFileData>,
+  warn: Warn,
+): ImageShape | null {
+  const file = el.fileId ? files[el.fileId] : undefined
+  if (!file?.dataURL) {
+    warn('missing-file', `Image file "${el.fileId ?? ''}" is missing from the scene`)
+    return null
+  }
+  if (el.scale && (el.scale[0] < 0 || el.scale[1] < 0)) {
+    warn('unsupported-property', 'Image flip was ignored')
+  }
+  if (el.crop) {
+    warn('unsupported-property', 'Image crop was ignored')
+  }
+  // The element's size is how large it's drawn, not the image's own size
+  const size = pixelSize(file.dataURL)
+  return {
+    ...baseFromElement(el),
+    type: 'image',
+    roughness: 0,
+    props: {
+      src: file.dataURL,
+      naturalWidth: size?.width ?? el.width,
+      naturalHeight: size?.height ?? el.height,
+    },
+  }
+}
+
+/** Convert one element, or return null if it has no equivalent */
+export function convertElement(
+  el: ExcalidrawElement,
+  files: Record<string, ExcalidrawFileData>,
+  warn: Warn,
+): Shape | null {
+  let shape: Shape | null
+  switch (el.type) {
+    case 'rectangle':
+      return convertRectangle(el, warn)
+    case 'ellipse':
+      return convertEllipse(el, warn)
+    case 'diamond':
+      return convertDiamond(el, warn)
+    case 'text':
+      return convertText(el, warn)
+    case 'image':
+      return convertImage(el, files, warn)
+    case 'line':
+      shape = convertLine(el, warn)
+      break
+    case 'arrow':
+      shape = convertArrow(el, warn)
+      break
+    case 'freedraw':
+      shape = convertFreedraw(el)
+      break
+    case 'frame':
+    case 'magicframe':
+      warn('unsupported-element', 'Frame was dropped; its contents were kept')
+      return null
+    default:
+      warn('unsupported-element', `Element type "${el.type}" is not supported`)
+      return null
+  }
+  if (!shape) warn('invalid-element', 'Element has fewer than two points')
+  return shape
+}
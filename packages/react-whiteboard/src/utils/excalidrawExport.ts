@@ -0,0 +1,324 @@
+import type {
+  ArrowBinding,
+  ArrowShape,
+  EllipseShape,
+  FrameShape,
+  GroupShape,
+  ImageShape,
+  LineShape,
+  PathShape,
+  RectangleShape,
+  Shape,
+  StickyShape,
+  TextFontFamily,
+  TextShape,
+} from '../types'
+import { getBoundTextIdFromShape, isBoundTextContainer } from './boundText'
+import { resolveBoundTextProps } from './stickyNote'
+import { getFrameChildren } from './frames'
+import { isBlobUrl, blobUrlToDataUrl } from './imageBlobStore'
+import { contentHash } from '../persistence/indexedDBHelpers'
+import type {
+  ExcalidrawBinding,
+  ExcalidrawElement,
+  ExcalidrawFileData,
+  ExcalidrawScene,
+} from './excalidrawFormat'
+
+/** Built-in font family → Excalidraw font family ID */
+const FONT_FAMILY_IDS: Record<TextFontFamily, number> = {
+  hand: 1, // Virgil
+  sans: 2, // Helvetica
+  serif: 2, // Excalidraw has no serif font
+  mono: 3, // Cascadia
+}
+
+/** Excalidraw roundness type for adaptive corners */
+const ADAPTIVE_ROUNDNESS = 3
+
+/** Element fields shared by every shape type */
+function baseElement(
+  shape: Shape,
+  type: string,
+  groupIds: string[],
+): ExcalidrawElement {
+  return {
+    id: shape.id,
+    type,
+    x: shape.x,
+    y: shape.y,
+    width: shape.width,
+    height: shape.height,
+    angle: shape.rotation,
+    strokeColor: '#1e1e1e',
+    backgroundColor: 'transparent',
+    fillStyle: 'solid',
+    strokeWidth: 2,
+    strokeStyle: 'solid',
+    roughness: shape.roughness,
+    opacity: Math.round(shape.opacity * 100),
+    seed: shape.seed,
+    version: 1,
+    versionNonce: Math.floor(Math.random() * 2147483647),
+    updated: Date.now(),
+    groupIds,
+    frameId: null,
+    roundness: null,
+    isDeleted: false,
+    locked: shape.isLocked,
+    link: null,
+    boundElements: null,
+  }
+}
+
+function strokeFields(props: { stroke: string; strokeWidth: number; strokeStyle: string }) {
+  return {
+    strokeColor: props.stroke,
+    strokeWidth: props.strokeWidth,
+    strokeStyle: props.strokeStyle,
+  }
+}
+
+function toBinding(binding: ArrowBinding | null | undefined): ExcalidrawBinding | null {
+  if (!binding) return null
+  return {
+    elementId: binding.shapeId,
+    focus: 0,
+    gap: binding.gap,
+    fixedPoint: [binding.focus.x, binding.focus.y],
+  }
+}
+
+function convertShape(shape: Shape, groupIds: string[]): ExcalidrawElement | null {
+  switch (shape.type) {
+    case 'rectangle': {
+      const { props } = shape as RectangleShape
+      return {
+        ...baseElement(shape, 'rectangle', groupIds),
+        ...strokeFields(props),
+        backgroundColor: props.fill,
+        fillStyle: props.fillStyle === 'dots' ? 'hachure' : props.fillStyle,
+        roundness: props.cornerRadius > 0 ? { type: ADAPTIVE_ROUNDNESS, value: props.cornerRadius } : null,
+      }
+    }
+    case 'sticky':
+      // Excalidraw has no sticky notes; a filled, borderless rectangle is closest
+      return {
+        ...baseElement(shape, 'rectangle', groupIds),
+        strokeColor: 'transparent',
+        backgroundColor: (shape as StickyShape).props.color,
+        roughness: 0,
+      }
+    case 'ellipse': {
+      const { props } = shape as EllipseShape
+      return {
+        ...baseElement(shape, 'ellipse', groupIds),
+        ...strokeFields(props),
+        backgroundColor: props.fill,
+        fillStyle: props.fillStyle === 'dots' ? 'hachure' : props.fillStyle,
+      }
+    }
+    case 'line': {
+      const { props } = shape as LineShape
+      return {
+        ...baseElement(shape, 'line', groupIds),
+        ...strokeFields(props),
+        points: props.points.map((p) => [p.x, p.y]),
+        lastCommittedPoint: null,
+        startBinding: null,
+        endBinding: null,
+        startArrowhead: null,
+        endArrowhead: null,
+      }
+    }
+    case 'arrow': {
+      const { props } = shape as ArrowShape
+      return {
+        ...baseElement(shape, 'arrow', groupIds),
+        ...strokeFields(props),
+        points: [[props.start.x, props.start.y], [props.end.x, props.end.y]],
+        lastCommittedPoint: null,
+        startBinding: toBinding(props.startBinding),
+        endBinding: toBinding(props.endBinding),
+        startArrowhead: props.startArrowhead === 'none' ? null : props.startArrowhead,
+        endArrowhead: props.endArrowhead === 'none' ? null : props.endArrowhead,
+      }
+    }
+    case 'path': {
+      const { props } = shape as PathShape
+      const hasPressure = props.points.some((p) => p.pressure !== undefined)
+      return {
+        ...baseElement(shape, 'freedraw', groupIds),
+        ...strokeFields(props),
+        points: props.points.map((p) => [p.x, p.y]),
+        pressures: hasPressure ? props.points.map((p) => p.pressure ?? 0.5) : [],
+        simulatePressure: !hasPressure,
+        lastCommittedPoint: null,
+      }
+    }
+    case 'text': {
+      const { props } = shape as TextShape
+      return {
+        ...baseElement(shape, 'text', groupIds),
+        strokeColor: props.color,
+        backgroundColor: props.backgroundColor,
+        text: props.text,
+        originalText: props.text,
+        fontSize: props.fontSize,
+        fontFamily: FONT_FAMILY_IDS[props.fontFamily] ?? FONT_FAMILY_IDS.sans,
+        textAlign: props.align,
+        verticalAlign: 'top',
+        lineHeight: props.lineHeight,
+        containerId: null,
+        autoResize: true,
+      }
+    }
+    case 'image':
+      return {
+        ...baseElement(shape, 'image', groupIds),
+        fileId: null,
+        status: 'saved',
+        scale: [1, 1],
+        crop: null,
+      }
+    case 'frame':
+      return {
+        ...baseElement(shape, 'frame', groupIds),
+        strokeColor: '#bbb',
+        roughness: 0,
+        name: (shape as FrameShape).props.name,
+      }
+    default:
+      return null
+  }
+}
+
+/** Read the MIME type from a data URL */
+function getDataUrlMimeType(dataUrl: string): string {
+  const match = /^data:([^;,]+)/.exec(dataUrl)
+  return match?.[1] ?? 'application/octet-stream'
+}
+
+/**
+ * Convert whiteboard state to an Excalidraw scene object.
+ * Group children get their ancestor groups as `groupIds`, frame children get
+ * the frame's `frameId`, bound text is linked to its container, and images are
+ * resolved into the `files` map.
+ * Shapes with no Excalidraw equivalent (React components, custom shapes) are left out.
+ * Async because blob URLs must be resolved to base64 DataURLs.
+ * @public
+ */
+export async function serializeExcalidrawScene(
+  shapes: Map<string, Shape>,
+  shapeIds: string[],
+): Promise<ExcalidrawScene> {
+  const elements: ExcalidrawElement[] = []
+  const elementsById = new Map<string, ExcalidrawElement>()
+  const files: Record<string, ExcalidrawFileData> = {}
+  /** File ID of each distinct data URL */
+  const fileIds = new Map<string, string>()
+  const created = Date.now()
+
+  const fileIdOf = async (dataURL: string): Promise<string> => {
+    let fileId = fileIds.get(dataURL)
+    if (fileId) return fileId
+    fileId = await contentHash(new TextEncoder().encode(dataURL))
+    // Without Web Crypto the hash is weaker; never let two files share an ID
+    if (files[fileId]) fileId = `${fileId}-${fileIds.size}`
+    fileIds.set(dataURL, fileId)
+    files[fileId] = { id: fileId, mimeType: getDataUrlMimeType(dataURL), dataURL, created }
+    return fileId
+  }
+
+  const addBoundElement = (targetId: string, id: string, type: string) => {
+    const target = elementsById.get(targetId)
+    if (!target) return
+    target.boundElements = [...(target.boundElements ?? []), { id, type }]
+  }
+
+  const visit = async (id: string, groupIds: string[], frameId: string | null): Promise<void> => {
+    const shape = shapes.get(id)
+    if (!shape) return
+
+    // Groups have no element of their own — children carry the group chain (innermost first)
+    if (shape.type === 'group') {
+      for (const childId of (shape as GroupShape).props.childIds) {
+        await visit(childId, [shape.id, ...groupIds], frameId)
+      }
+      return
+    }
+
+    // Excalidraw lists frame children before the frame
+    if (shape.type === 'frame') {
+      for (const child of getFrameChildren(shape as FrameShape, shapes)) {
+        await visit(child.id, [], shape.id)
+      }
+    }
+
+    const element = convertShape(shape, groupIds)
+    if (!element) return
+    element.frameId = frameId
+
+    if (shape.type === 'image') {
+      const src = (shape as ImageShape).props.src
+      const dataURL = isBlobUrl(src) ? await blobUrlToDataUrl(src) : src
+      element.fileId = await fileIdOf(dataURL)
+    }
+
+    elements.push(element)
+    elementsById.set(element.id, element)
+
+    const boundTextId = getBoundTextIdFromShape(shape)
+    const boundText = boundTextId ? shapes.get(boundTextId) : undefined
+    if (boundText?.type === 'text' && isBoundTextContainer(shape)) {
+      const textElement = convertShape(boundText, groupIds)!
+      textElement.fontSize = resolveBoundTextProps(shape, boundText.props).fontSize
+      textElement.containerId = shape.id
+      textElement.frameId = frameId
+      textElement.verticalAlign = 'middle'
+      elements.push(textElement)
+      elementsById.set(textElement.id, textElement)
+      addBoundElement(shape.id, textElement.id, 'text')
+    }
+  }
+
+  for (const id of shapeIds) {
+    await visit(id, [], null)
+  }
+
+  // Targets list the arrows bound to them, as Excalidraw expects;
+  // bindings to shapes that were not exported are dropped
+  for (const element of elements) {
+    if (element.type !== 'arrow') continue
+    for (const key of ['startBinding', 'endBinding'] as const) {
+      const binding = element[key]
+      if (!binding) continue
+      if (elementsById.has(binding.elementId)) {
+        addBoundElement(binding.elementId, element.id, 'arrow')
+      } else {
+        element[key] = null
+      }
+    }
+  }
+
+  return {
+    type: 'excalidraw',
+    version: 2,
+    source: 'react-whiteboard',
+    elements,
+    appState: { viewBackgroundColor: '#ffffff', gridSize: null },
+    files,
+  }
+}
+
+/**
+ * Serialize whiteboard state to an `.excalidraw` JSON string.
+ * @public
+ */
+export async function exportToExcalidraw(
+  shapes: Map<string, Shape>,
+  shapeIds: string[],
+): Promise<string> {
+  const scene = await serializeExcalidrawScene(shapes, shapeIds)
+  return JSON.stringify(scene, null, 2)
+}
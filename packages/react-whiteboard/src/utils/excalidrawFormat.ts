@@ -0,0 +1,133 @@
+// ============================================================================
+// Excalidraw scene format (.excalidraw files)
+// ============================================================================
+
+/**
+ * Subset of an Excalidraw element read and written by the converters.
+ * Fields are optional because files from older Excalidraw versions omit some of them.
+ * @public
+ */
+export interface ExcalidrawElement {
+  id: string
+  type: string
+  x: number
+  y: number
+  width: number
+  height: number
+  angle?: number
+  strokeColor?: string
+  backgroundColor?: string
+  fillStyle?: string
+  strokeWidth?: number
+  strokeStyle?: string
+  roughness?: number
+  /** 0-100 */
+  opacity?: number
+  seed?: number
+  version?: number
+  versionNonce?: number
+  updated?: number
+  /** Innermost group first */
+  groupIds?: string[]
+  frameId?: string | null
+  roundness?: { type: number; value?: number } | null
+  isDeleted?: boolean
+  locked?: boolean
+  link?: string | null
+  boundElements?: { id: string; type: string }[] | null
+  // text
+  text?: string
+  originalText?: string
+  autoResize?: boolean
+  fontSize?: number
+  fontFamily?: number
+  textAlign?: string
+  verticalAlign?: string
+  lineHeight?: number
+  containerId?: string | null
+  // line / arrow / freedraw — points are relative to x, y
+  points?: [number, number][]
+  pressures?: number[]
+  simulatePressure?: boolean
+  startBinding?: ExcalidrawBinding | null
+  endBinding?: ExcalidrawBinding | null
+  startArrowhead?: string | null
+  endArrowhead?: string | null
+  // image
+  fileId?: string | null
+  status?: string
+  scale?: [number, number]
+  crop?: unknown
+  // frame
+  name?: string | null
+  [key: string]: unknown
+}
+
+/** @public */
+export interface ExcalidrawBinding {
+  elementId: string
+  focus: number
+  gap: number
+  /** Point on the target, normalized to its bounds (0-1) */
+  fixedPoint?: [number, number] | null
+}
+
+/** @public */
+export interface ExcalidrawFileData {
+  id: string
+  mimeType: string
+  dataURL: string
+  created?: number
+}
+
+/**
+ * An `.excalidraw` scene file.
+ * @public
+ */
+export interface ExcalidrawScene {
+  type: 'excalidraw'
+  version: number
+  source?: string
+  elements: ExcalidrawElement[]
+  appState?: {
+    viewBackgroundColor?: string
+    scrollX?: number
+    scrollY?: number
+    zoom?: { value: number }
+    [key: string]: unknown
+  }
+  files?: Record<string, ExcalidrawFileData>
+}
+
+// ============================================================================
+// Import diagnostics
+// ============================================================================
+
+/**
+ * Why an Excalidraw element could not be imported as-is.
+ * - `invalid-element`: malformed element, dropped
+ * - `unsupported-element`: element type has no equivalent, dropped
+ * - `missing-file`: image without file data, dropped
+ * - `approximated`: converted with visible differences
+ * - `detached-text`: container text imported as free text
+ * - `dropped-binding`: arrow binding to a shape arrows cannot bind to
+ * - `unsupported-property`: a property was ignored
+ * @public
+ */
+export type ExcalidrawImportWarningCode =
+  | 'invalid-element'
+  | 'unsupported-element'
+  | 'missing-file'
+  | 'approximated'
+  | 'detached-text'
+  | 'dropped-binding'
+  | 'unsupported-property'
+
+/** @public */
+export interface ExcalidrawImportWarning {
+  code: ExcalidrawImportWarningCode
+  /** ID of the Excalidraw element the warning is about */
+  elementId: string
+  elementType: string
+  message: string
+}
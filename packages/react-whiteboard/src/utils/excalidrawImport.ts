@@ -0,0 +1,271 @@
+import type {
+  ArrowBinding,
+  ArrowShape,
+  GroupShape,
+  Point,
+  Shape,
+  Viewport,
+} from '../types'
+import { updateShapeFields } from '../types'
+import { FORMAT_VERSION, type WhiteboardDocument } from './serialization'
+import { BOUND_TEXT_PADDING } from './boundText'
+import { canBindArrow, getArrowEndpoints } from './arrowBinding'
+import { rotatePoint } from './shapeHitTest'
+import { convertElement, getPointBounds, isValidElement, type Warn } from './excalidrawElements'
+import type {
+  ExcalidrawBinding,
+  ExcalidrawElement,
+  ExcalidrawImportWarning,
+  ExcalidrawScene,
+} from './excalidrawFormat'
+
+/** @public */
+export interface ExcalidrawImportResult {
+  document: WhiteboardDocument
+  warnings: ExcalidrawImportWarning[]
+}
+
+/**
+ * Build an arrow binding from an Excalidraw one. Uses the binding's fixed point
+ * when present, otherwise aims at the endpoint's position on the target.
+ */
+function toArrowBinding(target: Shape, binding: ExcalidrawBinding, endpoint: Point): ArrowBinding {
+  const clamp = (v: number) => Math.min(Math.max(v, 0), 1)
+  const gap = Math.max(binding.gap ?? 0, 0)
+  const fixed = binding.fixedPoint
+  if (fixed && Number.isFinite(fixed[0]) && Number.isFinite(fixed[1])) {
+    return { shapeId: target.id, focus: { x: clamp(fixed[0]), y: clamp(fixed[1]) }, gap }
+  }
+
+  const center = { x: target.x + target.width / 2, y: target.y + target.height / 2 }
+  const local = target.rotation ? rotatePoint(endpoint, center, -target.rotation) : endpoint
+  return {
+    shapeId: target.id,
+    focus: {
+      x: clamp((local.x - target.x) / Math.max(target.width, 1)),
+      y: clamp((local.y - target.y) / Math.max(target.height, 1)),
+    },
+    gap,
+  }
+}
+
+/** A converted element awaiting placement in z-order */
+interface ConvertedElement {
+  shape: Shape
+  element: ExcalidrawElement
+}
+
+/**
+ * Bind container text into its rectangle/ellipse. Text in other containers
+ * (diamonds, arrows) stays free text. Returns the IDs of bound text shapes.
+ */
+function bindContainerText(
+  converted: ConvertedElement[],
+  shapes: Map<string, Shape>,
+  elements: Map<string, ExcalidrawElement>,
+  warnings: ExcalidrawImportWarning[],
+): Set<string> {
+  const boundTextIds = new Set<string>()
+  for (const { shape: text, element } of converted) {
+    const containerId = element.containerId
+    if (text.type !== 'text' || !containerId) continue
+    const container = shapes.get(containerId)
+    if (container && (container.type === 'rectangle' || container.type === 'ellipse') && !container.props.boundTextId) {
+      const pad = BOUND_TEXT_PADDING
+      shapes.set(text.id, updateShapeFields(text, {
+        x: container.x + pad,
+        y: container.y + pad,
+        width: Math.max(container.width - pad * 2, 20),
+        rotation: 0,
+        parentId: containerId,
+      }))
+      shapes.set(containerId, updateShapeFields(container, { props: { ...container.props, boundTextId: text.id } }))
+      boundTextIds.add(text.id)
+      continue
+    }
+    warnings.push({
+      code: 'detached-text',
+      elementId: element.id,
+      elementType: element.type,
+      message: `Text in a container of type "${elements.get(containerId)?.type ?? 'missing'}" was imported as free text`,
+    })
+  }
+  return boundTextIds
+}
+
+/** Attach arrows to the shapes their Excalidraw bindings point at */
+function bindArrows(
+  arrow: ArrowShape,
+  element: ExcalidrawElement,
+  shapes: Map<string, Shape>,
+  elements: Map<string, ExcalidrawElement>,
+  warn: Warn,
+): ArrowShape {
+  const { start, end } = getArrowEndpoints(arrow)
+  const bind = (binding: ExcalidrawBinding | null | undefined, endpoint: Point): ArrowBinding | null => {
+    if (!binding?.elementId) return null
+    const target = shapes.get(binding.elementId)
+    if (!target || !canBindArrow(target)) {
+      warn('dropped-binding', `Binding to ${elements.get(binding.elementId)?.type ?? 'a missing element'} was dropped`)
+      return null
+    }
+    return toArrowBinding(target, binding, endpoint)
+  }
+
+  let startBinding = bind(element.startBinding, start)
+  const endBinding = bind(element.endBinding, end)
+  // Both ends on one shape would collapse the arrow — keep the end, as the arrow tool does
+  if (startBinding && endBinding && startBinding.shapeId === endBinding.shapeId) {
+    warn('dropped-binding', 'Start binding to the same shape as the end was dropped')
+    startBinding = null
+  }
+  if (!startBinding && !endBinding) return arrow
+  return updateShapeFields(arrow, { props: { ...arrow.props, startBinding, endBinding } })
+}
+
+/**
+ * Turn Excalidraw `groupIds` (innermost first) into nested group shapes.
+ * Each outermost group takes the z-order slot of its first child.
+ * Returns the top-level shape IDs.
+ */
+function buildGroups(ordered: ConvertedElement[], shapes: Map<string, Shape>): string[] {
+  const shapeIds: string[] = []
+  const childIds = new Map<string, string[]>()
+  const parents = new Map<string, string>()
+
+  for (const { shape, element } of ordered) {
+    let childId = shape.id
+    let isNewChain = true
+    for (const groupId of element.groupIds ?? []) {
+      parents.set(childId, groupId)
+      const siblings = childIds.get(groupId)
+      if (siblings) {
+        siblings.push(childId)
+        isNewChain = false
+        break
+      }
+      childIds.set(groupId, [childId])
+      childId = groupId
+    }
+    if (isNewChain) shapeIds.push(childId)
+  }
+
+  for (const [childId, groupId] of parents) {
+    const child = shapes.get(childId)
+    if (child) shapes.set(childId, updateShapeFields(child, { parentId: groupId }))
+  }
+
+  const createGroup = (groupId: string): GroupShape => {
+    const children = childIds.get(groupId)!.map((id) =>
+      childIds.has(id) ? createGroup(id) : shapes.get(id)!,
+    )
+    const { minX, minY, maxX, maxY } = getPointBounds(children.flatMap((c) => [
+      { x: c.x, y: c.y },
+      { x: c.x + c.width, y: c.y + c.height },
+    ]))
+    const group: GroupShape = {
+      id: groupId,
+      type: 'group',
+      x: minX,
+      y: minY,
+      width: maxX - minX,
+      height: maxY - minY,
+      rotation: 0,
+      opacity: 1,
+      isLocked: false,
+      parentId: parents.get(groupId) ?? null,
+      seed: Math.floor(Math.random() * 2147483647),
+      roughness: 0,
+      props: { childIds: childIds.get(groupId)! },
+    }
+    shapes.set(groupId, group)
+    return group
+  }
+  for (const id of shapeIds) {
+    if (childIds.has(id)) createGroup(id)
+  }
+
+  return shapeIds
+}
+
+/**
+ * Parse an `.excalidraw` file and convert it to a whiteboard document.
+ *
+ * Elements without an equivalent are dropped or approximated, and each such
+ * case is reported in `warnings`. Excalidraw IDs are kept, images are inlined
+ * from the scene's `files` map, and groups become nested group shapes.
+ * Throws if the input is not an Excalidraw scene.
+ * @public
+ */
+export function importExcalidraw(json: string): ExcalidrawImportResult {
+  const raw: unknown = JSON.parse(json)
+  if (typeof raw !== 'object' || raw === null) {
+    throw new Error('Invalid Excalidraw file: not an object')
+  }
+  const scene = raw as Partial<ExcalidrawScene> & { type?: unknown }
+  if (scene.type !== 'excalidraw' && scene.type !== 'excalidraw/clipboard') {
+    throw new Error('Invalid Excalidraw file: unrecognized type')
+  }
+  if (!Array.isArray(scene.elements)) {
+    throw new Error('Invalid Excalidraw file: missing elements')
+  }
+
+  const warnings: ExcalidrawImportWarning[] = []
+  const shapes = new Map<string, Shape>()
+  const elements = new Map<string, ExcalidrawElement>()
+  const converted: ConvertedElement[] = []
+
+  for (const value of scene.elements as unknown[]) {
+    if (!isValidElement(value)) {
+      const el = (value ?? {}) as Partial<ExcalidrawElement>
+      warnings.push({
+        code: 'invalid-element',
+        elementId: typeof el.id === 'string' ? el.id : '',
+        elementType: typeof el.type === 'string' ? el.type : 'unknown',
+        message: 'Element is missing its id, type or geometry',
+      })
+      continue
+    }
+    if (value.isDeleted) continue
+    const el = value
+    elements.set(el.id, el)
+
+    const warn: Warn = (code, message) =>
+      warnings.push({ code, elementId: el.id, elementType: el.type, message })
+    const shape = convertElement(el, scene.files ?? {}, warn)
+    if (!shape) continue
+
+    shapes.set(shape.id, shape)
+    converted.push({ shape, element: el })
+  }
+
+  const boundTextIds = bindContainerText(converted, shapes, elements, warnings)
+  const ordered = converted.filter(({ shape }) => !boundTextIds.has(shape.id))
+
+  for (const { shape, element } of ordered) {
+    if (shape.type !== 'arrow') continue
+    const warn: Warn = (code, message) =>
+      warnings.push({ code, elementId: element.id, elementType: element.type, message })
+    shapes.set(shape.id, bindArrows(shape as ArrowShape, element, shapes, elements, warn))
+  }
+
+  const shapeIds = buildGroups(ordered, shapes)
+
+  const zoom = scene.appState?.zoom?.value ?? 1
+  const viewport: Viewport = {
+    x: (scene.appState?.scrollX ?? 0) * zoom,
+    y: (scene.appState?.scrollY ?? 0) * zoom,
+    zoom,
+  }
+
+  return {
+    document: {
+      version: FORMAT_VERSION,
+      source: 'react-whiteboard',
+      viewport,
+      shapes: Array.from(shapes.values()),
+      shapeIds,
+    },
+    warnings,
+  }
+}
@@ -2,6 +2,7 @@ import type { Shape } from '../types'
 import { CanvasRenderer } from '../core/renderer'
 import type { ShapeRendererRegistry } from '../core/renderer/ShapeRendererRegistry'
 import { getShapesBounds } from './shapeBounds'
+import { isFrame } from './frames'
 
 /**
  * Options for PNG export.
@@ -16,6 +17,8 @@ export interface ExportPngOptions {
   scale?: number
   /** Custom shape renderer registry for custom shapes */
   registry?: ShapeRendererRegistry
+  /** Export only this frame and its children, cropped to the frame (padding defaults to 0) */
+  frameId?: string
 }
 
 /**
@@ -23,7 +26,7 @@ export interface ExportPngOptions {
  * Creates an offscreen canvas, renders all shapes using the real renderer,
  * and returns a data URL.
  *
- * Returns null if there are no shapes to export.
+ * Returns null if there are no shapes to export, or if `frameId` is not a frame.
  * @public
  */
 export function exportToPng(
@@ -32,9 +35,14 @@ export function exportToPng(
   selectedIds: Set<string>,
   options: ExportPngOptions = {},
 ): string | null {
-  const { padding = 32, backgroundColor = '#ffffff', scale = 2 } = options
+  const frame = options.frameId !== undefined ? shapes.get(options.frameId) : undefined
+  if (options.frameId !== undefined && !isFrame(frame)) return null
+  const { padding = frame ? 0 : 32, backgroundColor = '#ffffff', scale = 2 } = options
 
-  const bounds = getShapesBounds(shapes, shapeIds)
+  const ids = frame ? [frame.id] : shapeIds
+  const bounds = frame
+    ? { minX: frame.x, minY: frame.y, maxX: frame.x + frame.width, maxY: frame.y + frame.height }
+    : getShapesBounds(shapes, shapeIds)
   if (!bounds) return null
 
   const contentWidth = bounds.maxX - bounds.minX
@@ -58,12 +66,19 @@ export function exportToPng(
   const offsetY = padding - bounds.minY
   ctx.setTransform(scale, 0, 0, scale, offsetX * scale, offsetY * scale)
 
+  // Crop to the frame, leaving out its title label
+  if (frame) {
+    ctx.beginPath()
+    ctx.rect(frame.x, frame.y, frame.width, frame.height)
+    ctx.clip()
+  }
+
   // Render shapes using the real renderer (pass allShapes for bound text)
   const renderer = new CanvasRenderer(ctx)
   if (options.registry) {
     renderer.setRegistry(options.registry)
   }
-  for (const id of shapeIds) {
+  for (const id of ids) {
     const shape = shapes.get(id)
     if (shape) {
       renderer.drawShape(shape, selectedIds.has(id), shapes)
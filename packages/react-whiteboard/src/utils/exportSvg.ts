@@ -8,9 +8,14 @@ import type {
   TextShape,
   PathShape,
   ImageShape,
+  FrameShape,
+  StickyShape,
+  ReactComponentShape,
 } from '../types'
-import { updateShapeFields } from '../types'
+import { updateShapeFields, LIGHT_THEME } from '../types'
+import type { RoughSVG } from 'roughjs/bin/svg'
 import type { ShapeRendererRegistry } from '../core/renderer/ShapeRendererRegistry'
+import { COMPONENT_PLACEHOLDER, componentPlaceholderLabel } from '../core/renderer/shapeRenderers/drawComponentPlaceholder'
 import {
   renderRectangle,
   renderEllipse,
@@ -19,9 +24,12 @@ import {
   renderPath,
   renderText,
   renderImage,
+  renderSticky,
 } from './svgShapeRenderers'
 import { isBlobUrl, blobUrlToDataUrl } from './imageBlobStore'
 import { getShapesBounds } from './shapeBounds'
+import { getBoundTextIdFromShape } from './boundText'
+import { FRAME_TITLE_FONT_SIZE, expandFrameChildren, getFrameChildren, isFrame } from './frames'
 
 // ============================================================================
 // Types
@@ -35,8 +43,12 @@ export interface ExportSvgOptions {
   backgroundColor?: string
   /** Custom shape renderer registry for SVG export of custom shapes */
   registry?: ShapeRendererRegistry
+  /** Export only this frame and its children, cropped to the frame (padding defaults to 0) */
+  frameId?: string
 }
 
+const SVG_NS = 'http://www.w3.org/2000/svg'
+
 // ============================================================================
 // Helpers
 // ============================================================================
@@ -60,10 +72,106 @@ async function resolveImageSrcs(
   return resolved
 }
 
+/**
+ * Render a frame with its children clipped to it, and optionally its title label.
+ */
+function renderFrame(
+  frame: FrameShape,
+  children: SVGGElement[],
+  withTitle: boolean,
+): SVGGElement {
+  const { x, y, width, height, opacity, props } = frame
+  const g = document.createElementNS(SVG_NS, 'g')
+  if (opacity < 1) g.setAttribute('opacity', String(opacity))
+
+  const setRect = (el: Element) => {
+    el.setAttribute('x', String(x))
+    el.setAttribute('y', String(y))
+    el.setAttribute('width', String(width))
+    el.setAttribute('height', String(height))
+  }
+
+  const clipId = `clip-${frame.id}`
+  const defs = document.createElementNS(SVG_NS, 'defs')
+  const clipPath = document.createElementNS(SVG_NS, 'clipPath')
+  clipPath.setAttribute('id', clipId)
+  const clipRect = document.createElementNS(SVG_NS, 'rect')
+  setRect(clipRect)
+  clipPath.appendChild(clipRect)
+  defs.appendChild(clipPath)
+  g.appendChild(defs)
+
+  const background = document.createElementNS(SVG_NS, 'rect')
+  setRect(background)
+  background.setAttribute('fill', props.fill && props.fill !== 'transparent' ? props.fill : 'none')
+  g.appendChild(background)
+
+  const content = document.createElementNS(SVG_NS, 'g')
+  content.setAttribute('clip-path', `url(#${clipId})`)
+  for (const child of children) content.appendChild(child)
+  g.appendChild(content)
+
+  const border = document.createElementNS(SVG_NS, 'rect')
+  setRect(border)
+  border.setAttribute('fill', 'none')
+  border.setAttribute('stroke', props.stroke)
+  g.appendChild(border)
+
+  if (withTitle && props.name) {
+    const title = document.createElementNS(SVG_NS, 'text')
+    title.setAttribute('x', String(x))
+    title.setAttribute('y', String(y - 4))
+    title.setAttribute('font-family', 'sans-serif')
+    title.setAttribute('font-size', String(FRAME_TITLE_FONT_SIZE))
+    title.setAttribute('font-weight', '500')
+    title.setAttribute('fill', LIGHT_THEME.frameTitle)
+    title.textContent = props.name
+    g.appendChild(title)
+  }
+  return g
+}
+
+/**
+ * Render a React component shape as its placeholder: live components only
+ * exist in the DOM, so exports show their type (or title) instead.
+ */
+function renderComponentPlaceholder(shape: ReactComponentShape): SVGGElement {
+  const { x, y, width, height, rotation, opacity } = shape
+  const g = document.createElementNS(SVG_NS, 'g')
+  if (opacity < 1) g.setAttribute('opacity', String(opacity))
+  if (rotation !== 0) {
+    g.setAttribute('transform', `rotate(${(rotation * 180) / Math.PI} ${x + width / 2} ${y + height / 2})`)
+  }
+
+  const box = document.createElementNS(SVG_NS, 'rect')
+  box.setAttribute('x', String(x))
+  box.setAttribute('y', String(y))
+  box.setAttribute('width', String(width))
+  box.setAttribute('height', String(height))
+  box.setAttribute('rx', String(COMPONENT_PLACEHOLDER.cornerRadius))
+  box.setAttribute('fill', COMPONENT_PLACEHOLDER.fill)
+  box.setAttribute('stroke', COMPONENT_PLACEHOLDER.stroke)
+  box.setAttribute('stroke-dasharray', COMPONENT_PLACEHOLDER.dash.join(' '))
+  g.appendChild(box)
+
+  const label = document.createElementNS(SVG_NS, 'text')
+  label.setAttribute('x', String(x + width / 2))
+  label.setAttribute('y', String(y + height / 2))
+  label.setAttribute('text-anchor', 'middle')
+  label.setAttribute('dominant-baseline', 'central')
+  label.setAttribute('font-family', COMPONENT_PLACEHOLDER.fontFamily)
+  label.setAttribute('font-size', String(COMPONENT_PLACEHOLDER.fontSize))
+  label.setAttribute('font-weight', '500')
+  label.setAttribute('fill', COMPONENT_PLACEHOLDER.labelColor)
+  label.textContent = componentPlaceholderLabel(shape)
+  g.appendChild(label)
+  return g
+}
+
 /**
  * Export all shapes to an SVG string using RoughJS SVG mode for hand-drawn aesthetics.
  * Async because blob URLs in image shapes must be resolved to base64 DataURLs.
- * Returns null if there are no shapes to export.
+ * Returns null if there are no shapes to export, or if `frameId` is not a frame.
  * @public
  */
 export async function exportToSvg(
@@ -71,13 +179,19 @@ export async function exportToSvg(
   shapeIds: string[],
   options: ExportSvgOptions = {},
 ): Promise<string | null> {
-  const { padding = 32, backgroundColor = '#ffffff' } = options
+  const frame = options.frameId !== undefined ? shapes.get(options.frameId) : undefined
+  if (options.frameId !== undefined && !isFrame(frame)) return null
+  const { padding = frame ? 0 : 32, backgroundColor = '#ffffff' } = options
 
-  const bounds = getShapesBounds(shapes, shapeIds)
+  const ids = frame ? [frame.id] : shapeIds
+  const bounds = frame
+    ? { minX: frame.x, minY: frame.y, maxX: frame.x + frame.width, maxY: frame.y + frame.height }
+    : getShapesBounds(shapes, shapeIds)
   if (!bounds) return null
 
-  // Resolve blob URLs in image shapes to base64 DataURLs for self-contained SVG
-  const resolvedShapes = await resolveImageSrcs(shapes, shapeIds)
+  // Resolve blob URLs in image shapes (including frame children) to base64 DataURLs for self-contained SVG
+  const allIds = expandFrameChildren(shapes, ids)
+  const resolvedShapes = await resolveImageSrcs(shapes, allIds)
 
   const contentWidth = bounds.maxX - bounds.minX
   const contentHeight = bounds.maxY - bounds.minY
@@ -86,21 +200,21 @@ export async function exportToSvg(
   const offsetX = padding - bounds.minX
   const offsetY = padding - bounds.minY
 
-  const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg')
-  svg.setAttribute('xmlns', 'http://www.w3.org/2000/svg')
+  const svg = document.createElementNS(SVG_NS, 'svg')
+  svg.setAttribute('xmlns', SVG_NS)
   svg.setAttribute('width', String(svgWidth))
   svg.setAttribute('height', String(svgHeight))
   svg.setAttribute('viewBox', `0 0 ${svgWidth} ${svgHeight}`)
 
   if (backgroundColor && backgroundColor !== 'transparent') {
-    const bg = document.createElementNS('http://www.w3.org/2000/svg', 'rect')
+    const bg = document.createElementNS(SVG_NS, 'rect')
     bg.setAttribute('width', String(svgWidth))
     bg.setAttribute('height', String(svgHeight))
     bg.setAttribute('fill', backgroundColor)
     svg.appendChild(bg)
   }
 
-  const contentGroup = document.createElementNS('http://www.w3.org/2000/svg', 'g')
+  const contentGroup = document.createElementNS(SVG_NS, 'g')
   contentGroup.setAttribute('transform', `translate(${offsetX} ${offsetY})`)
   svg.appendChild(contentGroup)
 
@@ -108,59 +222,65 @@ export async function exportToSvg(
 
   // Collect bound text IDs to skip standalone rendering
   const boundTextIds = new Set<string>()
-  for (const id of shapeIds) {
+  for (const id of allIds) {
     const shape = resolvedShapes.get(id)
     if (!shape) continue
-    if ((shape.type === 'rectangle' || shape.type === 'ellipse') && 'boundTextId' in shape.props) {
-      const btId = (shape as RectangleShape | EllipseShape).props.boundTextId
-      if (btId) boundTextIds.add(btId)
-    }
+    const btId = getBoundTextIdFromShape(shape)
+    if (btId) boundTextIds.add(btId)
   }
 
-  for (const id of shapeIds) {
+  for (const id of ids) {
     const shape = resolvedShapes.get(id)
-    if (!shape) continue
-    if (shape.type === 'text' && boundTextIds.has(shape.id)) continue
-
-    let el: SVGGElement | null = null
-
-    switch (shape.type) {
-      case 'rectangle':
-        el = renderRectangle(rs, shape as RectangleShape, resolvedShapes)
-        break
-      case 'ellipse':
-        el = renderEllipse(rs, shape as EllipseShape, resolvedShapes)
-        break
-      case 'line':
-        el = renderLine(rs, shape as LineShape)
-        break
-      case 'arrow':
-        el = renderArrow(rs, shape as ArrowShape)
-        break
-      case 'path':
-        el = renderPath(shape as PathShape)
-        break
-      case 'text':
-        el = renderText(shape as TextShape)
-        break
-      case 'image':
-        el = renderImage(shape as ImageShape)
-        break
-      default: {
-        const custom = options.registry?.getRenderer(shape.type)
-        if (custom?.svgRender) {
-          el = custom.svgRender({ roughSvg: rs, shape, allShapes: resolvedShapes })
-        }
-        break
-      }
-    }
-
+    if (!shape || (shape.type === 'text' && boundTextIds.has(shape.id))) continue
+    const el = renderShape(rs, shape, resolvedShapes, boundTextIds, options.registry, !frame)
     if (el) contentGroup.appendChild(el)
   }
 
   return new XMLSerializer().serializeToString(svg)
 }
 
+/** Render one shape to SVG; frames render their children inside them */
+function renderShape(
+  rs: RoughSVG,
+  shape: Shape,
+  allShapes: Map<string, Shape>,
+  boundTextIds: Set<string>,
+  registry: ShapeRendererRegistry | undefined,
+  withFrameTitle: boolean,
+): SVGGElement | null {
+  switch (shape.type) {
+    case 'rectangle':
+      return renderRectangle(rs, shape as RectangleShape, allShapes)
+    case 'ellipse':
+      return renderEllipse(rs, shape as EllipseShape, allShapes)
+    case 'line':
+      return renderLine(rs, shape as LineShape)
+    case 'arrow':
+      return renderArrow(rs, shape as ArrowShape)
+    case 'path':
+      return renderPath(shape as PathShape)
+    case 'text':
+      return renderText(shape as TextShape)
+    case 'image':
+      return renderImage(shape as ImageShape)
+    case 'sticky':
+      return renderSticky(shape as StickyShape, allShapes)
+    case 'frame': {
+      const children = getFrameChildren(shape as FrameShape, allShapes)
+        .filter((child) => !(child.type === 'text' && boundTextIds.has(child.id)))
+        .map((child) => renderShape(rs, child, allShapes, boundTextIds, registry, withFrameTitle))
+        .filter((el): el is SVGGElement => el !== null)
+      return renderFrame(shape as FrameShape, children, withFrameTitle)
+    }
+    case 'react-component':
+      return renderComponentPlaceholder(shape as ReactComponentShape)
+    default: {
+      const custom = registry?.getRenderer(shape.type)
+      return custom?.svgRender ? custom.svgRender({ roughSvg: rs, shape, allShapes }) : null
+    }
+  }
+}
+
 /**
  * Export shapes to SVG and trigger a download.
  * Returns false if there are no shapes.
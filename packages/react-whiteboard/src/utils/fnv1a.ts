@@ -21,6 +21,20 @@ export function fnv1a32(input: string): number {
   return hash >>> 0
 }
 
+/**
+ * Hash of binary data: two FNV-1a passes with different seeds plus the
+ * length, as a hex string. Used to tell files apart by content.
+ */
+export function hashBytes(data: Uint8Array): string {
+  let h1 = FNV_OFFSET_BASIS
+  let h2 = FNV_PRIME
+  for (const byte of data) {
+    h1 = Math.imul(h1 ^ byte, FNV_PRIME) >>> 0
+    h2 = Math.imul(h2 ^ byte, FNV_PRIME) >>> 0
+  }
+  return `${h1.toString(16)}${h2.toString(16)}-${data.length}`
+}
+
 /**
  * Round a number to 4 decimal places (multiply by 1e4, round, keep as int).
  * Prevents floating-point precision drift from producing different cache keys
@@ -0,0 +1,240 @@
+import type { Bounds, FrameShape, Point, Shape } from '../types'
+import { updateShapeFields } from '../types'
+
+/** Height of the title label band drawn above a frame (canvas units) */
+export const FRAME_TITLE_HEIGHT = 20
+
+/** Font size of the frame title label (canvas units) */
+export const FRAME_TITLE_FONT_SIZE = 13
+
+/** Distance (canvas units) within which a frame's border is hit */
+const FRAME_BORDER_TOLERANCE = 4
+
+/** Check if a shape is a frame */
+export function isFrame(shape: Shape | undefined): shape is FrameShape {
+  return shape?.type === 'frame'
+}
+
+/**
+ * Children of a frame, bottom to top.
+ * Skips stale IDs (deleted shapes, or shapes that moved to another parent).
+ */
+export function getFrameChildren(frame: FrameShape, shapes: Map<string, Shape>): Shape[] {
+  const children: Shape[] = []
+  for (const id of frame.props.childIds) {
+    const child = shapes.get(id)
+    if (child?.parentId === frame.id) children.push(child)
+  }
+  return children
+}
+
+/**
+ * Collect the children of the frames among the given shapes.
+ * Used when deleting or copying frames to include their contents.
+ */
+export function collectFrameChildIds(
+  shapeIds: Iterable<string>,
+  shapes: Map<string, Shape>,
+): string[] {
+  const ids: string[] = []
+  for (const id of shapeIds) {
+    const shape = shapes.get(id)
+    if (isFrame(shape)) {
+      for (const child of getFrameChildren(shape, shapes)) ids.push(child.id)
+    }
+  }
+  return ids
+}
+
+/**
+ * Shape IDs in paint order, with each frame's children right after the frame.
+ * Use where frame children must be reachable (hit testing, marquee selection).
+ */
+export function expandFrameChildren(shapes: Map<string, Shape>, shapeIds: string[]): string[] {
+  const ids: string[] = []
+  for (const id of shapeIds) {
+    ids.push(id)
+    const shape = shapes.get(id)
+    if (isFrame(shape)) {
+      for (const child of getFrameChildren(shape, shapes)) ids.push(child.id)
+    }
+  }
+  return ids
+}
+
+/** Bounds of the title label above a frame */
+export function getFrameTitleBounds(frame: FrameShape): Bounds {
+  return { x: frame.x, y: frame.y - FRAME_TITLE_HEIGHT, width: frame.width, height: FRAME_TITLE_HEIGHT }
+}
+
+function containsPoint(bounds: Bounds, point: Point, margin = 0): boolean {
+  return (
+    point.x >= bounds.x - margin &&
+    point.x <= bounds.x + bounds.width + margin &&
+    point.y >= bounds.y - margin &&
+    point.y <= bounds.y + bounds.height + margin
+  )
+}
+
+/**
+ * Hit test a frame by its title label or border.
+ * The inside is left to its children, so a drag there starts a marquee.
+ */
+export function hitTestFrame(point: Point, frame: FrameShape, tolerance: number = 0): boolean {
+  if (containsPoint(getFrameTitleBounds(frame), point, tolerance)) return true
+  const margin = Math.max(tolerance, FRAME_BORDER_TOLERANCE)
+  return containsPoint(frame, point, margin) && !containsPoint(frame, point, -margin)
+}
+
+/** Topmost frame whose area contains the point */
+export function getFrameAtPoint(
+  point: Point,
+  shapes: Map<string, Shape>,
+  shapeIds: string[],
+): FrameShape | null {
+  for (let i = shapeIds.length - 1; i >= 0; i--) {
+    const shape = shapes.get(shapeIds[i]!)
+    if (isFrame(shape) && containsPoint(shape, point)) return shape
+  }
+  return null
+}
+
+/** Frames hold top-level shapes and each other's children, but not bound text, group children or frames */
+function canJoinFrame(shape: Shape, shapes: Map<string, Shape>): boolean {
+  if (shape.type === 'frame') return false
+  return !shape.parentId || isFrame(shapes.get(shape.parentId))
+}
+
+/**
+ * Move a shape into a frame (or out to the top level when `frameId` is null).
+ * Mutates `shapes`; returns the new `shapeIds`. Shapes leaving a frame are
+ * placed right above it; shapes joining one go on top of its children.
+ */
+function setParentFrame(
+  shapes: Map<string, Shape>,
+  shapeIds: string[],
+  shape: Shape,
+  frameId: string | null,
+): string[] {
+  const oldFrame = shape.parentId ? shapes.get(shape.parentId) : undefined
+  shapes.set(shape.id, updateShapeFields(shape, { parentId: frameId }))
+
+  // Deleted children keep their slot, so undoing the delete restores them in place
+  const pruneChildren = (frame: FrameShape) =>
+    frame.props.childIds.filter((id) => id !== shape.id && (shapes.get(id)?.parentId ?? frame.id) === frame.id)
+
+  let ids = shapeIds
+  if (isFrame(oldFrame)) {
+    shapes.set(oldFrame.id, updateShapeFields(oldFrame, {
+      props: { ...oldFrame.props, childIds: pruneChildren(oldFrame) },
+    }))
+    if (!frameId) {
+      const index = ids.indexOf(oldFrame.id) + 1 || ids.length
+      ids = [...ids.slice(0, index), shape.id, ...ids.slice(index)]
+    }
+  } else if (frameId) {
+    ids = ids.filter((id) => id !== shape.id)
+  }
+
+  const frame = frameId ? shapes.get(frameId) : undefined
+  if (isFrame(frame)) {
+    shapes.set(frame.id, updateShapeFields(frame, {
+      props: { ...frame.props, childIds: [...pruneChildren(frame), shape.id] },
+    }))
+  }
+  return ids
+}
+
+/** Result of a frame membership change */
+export interface FrameMembershipResult {
+  shapes: Map<string, Shape>
+  shapeIds: string[]
+  /** Shapes and frames whose objects were replaced */
+  changedIds: Set<string>
+}
+
+/**
+ * Re-parent shapes to the topmost frame under their center: shapes dropped
+ * into a frame become its children, children moved out of their frame return
+ * to the top level. Returns the inputs unchanged when nothing moves.
+ */
+export function reparentToFrames(
+  shapes: Map<string, Shape>,
+  shapeIds: string[],
+  ids: Iterable<string>,
+): FrameMembershipResult {
+  let newShapes = shapes
+  let newShapeIds = shapeIds
+  const changedIds = new Set<string>()
+
+  for (const id of ids) {
+    const shape = newShapes.get(id)
+    if (!shape || !canJoinFrame(shape, newShapes)) continue
+    const center = { x: shape.x + shape.width / 2, y: shape.y + shape.height / 2 }
+    const target = getFrameAtPoint(center, newShapes, newShapeIds)?.id ?? null
+    if (target === shape.parentId) continue
+
+    if (newShapes === shapes) newShapes = new Map(shapes)
+    changedIds.add(id)
+    if (shape.parentId) changedIds.add(shape.parentId)
+    if (target) changedIds.add(target)
+    newShapeIds = setParentFrame(newShapes, newShapeIds, shape, target)
+  }
+
+  return { shapes: newShapes, shapeIds: newShapeIds, changedIds }
+}
+
+/**
+ * Make the top-level shapes that lie entirely inside a frame its children,
+ * keeping their stacking order.
+ */
+export function adoptEnclosedShapes(
+  frame: FrameShape,
+  shapes: Map<string, Shape>,
+  shapeIds: string[],
+): FrameMembershipResult {
+  const enclosed = shapeIds.filter((id) => {
+    const shape = shapes.get(id)
+    return (
+      shape !== undefined &&
+      id !== frame.id &&
+      canJoinFrame(shape, shapes) &&
+      shape.x >= frame.x &&
+      shape.y >= frame.y &&
+      shape.x + shape.width <= frame.x + frame.width &&
+      shape.y + shape.height <= frame.y + frame.height
+    )
+  })
+  if (enclosed.length === 0) return { shapes, shapeIds, changedIds: new Set() }
+
+  const newShapes = new Map(shapes)
+  let newShapeIds = shapeIds
+  for (const id of enclosed) {
+    newShapeIds = setParentFrame(newShapes, newShapeIds, newShapes.get(id)!, frame.id)
+  }
+  return { shapes: newShapes, shapeIds: newShapeIds, changedIds: new Set([frame.id, ...enclosed]) }
+}
+
+/**
+ * Put replacement shapes (e.g. the pieces of an erased path) in their
+ * original's slot in its frame. Mutates `shapes`; returns the frames changed.
+ */
+export function replaceFrameChildren(
+  shapes: Map<string, Shape>,
+  replacements: Map<string, Shape[]>,
+): { before: FrameShape[]; after: FrameShape[] } {
+  const before = new Map<string, FrameShape>()
+  for (const [id, pieces] of replacements) {
+    const parentId = pieces[0]?.parentId
+    const frame = parentId ? shapes.get(parentId) : undefined
+    if (!isFrame(frame) || !frame.props.childIds.includes(id)) continue
+    if (!before.has(frame.id)) before.set(frame.id, frame)
+    const childIds = frame.props.childIds.flatMap((childId) =>
+      childId === id ? pieces.map((piece) => piece.id) : [childId])
+    shapes.set(frame.id, updateShapeFields(frame, { props: { ...frame.props, childIds } }))
+  }
+  return {
+    before: [...before.values()],
+    after: [...before.keys()].map((id) => shapes.get(id) as FrameShape),
+  }
+}
@@ -1,5 +1,6 @@
 import type { Point, Shape, Bounds, PathShape } from '../types'
 import type { ShapeRendererRegistry } from '../core/renderer/ShapeRendererRegistry'
+import type { SpatialIndex } from './spatialIndex'
 
 // Re-export from sub-modules
 export {
@@ -66,11 +67,14 @@ export function getShapeBounds(shape: Shape): Bounds {
   }
 }
 
-import { hitTestShape } from './shapeHitTest'
+import { hitTestRectangle, hitTestShape } from './shapeHitTest'
+import { getFrameChildren, isFrame } from './frames'
 
 /**
  * Find the shape at a given point (returns the topmost shape).
- * Pass an optional registry for custom shape hit testing.
+ * Frame children are tested before their frame, within the frame's clip.
+ * Pass an optional registry for custom shape hit testing, and the store's
+ * spatial index to only test the shapes near the point.
  * @public
  */
 export function getShapeAtPoint(
@@ -79,12 +83,27 @@ export function getShapeAtPoint(
   shapeIds: string[],
   tolerance: number = 0,
   registry?: ShapeRendererRegistry,
+  index?: SpatialIndex,
 ): Shape | null {
-  for (let i = shapeIds.length - 1; i >= 0; i--) {
-    const id = shapeIds[i]
+  const ids = index
+    ? index.queryShapeIds(shapes, shapeIds, {
+        x: point.x - tolerance,
+        y: point.y - tolerance,
+        width: tolerance * 2,
+        height: tolerance * 2,
+      })
+    : shapeIds
+  for (let i = ids.length - 1; i >= 0; i--) {
+    const id = ids[i]
     if (!id) continue
 
     const shape = shapes.get(id)
+    if (isFrame(shape) && hitTestRectangle(point, shape, 0)) {
+      const children = getFrameChildren(shape, shapes)
+      for (let j = children.length - 1; j >= 0; j--) {
+        if (hitTestShape(point, children[j]!, tolerance, registry)) return children[j]!
+      }
+    }
     if (shape && hitTestShape(point, shape, tolerance, registry)) {
       return shape
     }
@@ -118,17 +137,19 @@ export function getShapesAtPoint(
 
 /**
  * Find shapes within a selection box (marquee selection).
+ * Pass the store's spatial index to only test the shapes near the box.
  * @public
  */
 export function getShapesInBounds(
   bounds: Bounds,
   shapes: Map<string, Shape>,
   shapeIds: string[],
-  fullyContained: boolean = true
+  fullyContained: boolean = true,
+  index?: SpatialIndex,
 ): Shape[] {
   const result: Shape[] = []
 
-  for (const id of shapeIds) {
+  for (const id of index ? index.queryShapeIds(shapes, shapeIds, bounds) : shapeIds) {
     const shape = shapes.get(id)
     if (!shape || shape.isLocked) continue
 
@@ -1,3 +1,5 @@
+import { assetStore } from '../assets/AssetStore'
+
 /**
  * In-memory blob store for image data.
  * Stores image blobs and provides short ObjectURLs for efficient shape storage.
@@ -7,20 +9,18 @@
  * - On paste/import: store blob → get short ObjectURL for shape.props.src
  * - On render: ObjectURL works directly as img.src (browser handles it)
  * - On export/serialize: resolve ObjectURL → base64 DataURL
+ *
+ * Blobs live in the shared {@link assetStore}, which dedupes them by content
+ * and releases them once no bound board refers to them.
  */
 
-/** Map from ObjectURL to the underlying Blob */
-const blobRegistry = new Map<string, Blob>()
-
 /**
  * Store a blob and return an ObjectURL reference.
  * The ObjectURL is a short string (~50 chars) suitable for shape.props.src.
  * @public
  */
 export function storeBlobAsUrl(blob: Blob): string {
-  const url = URL.createObjectURL(blob)
-  blobRegistry.set(url, blob)
-  return url
+  return assetStore.addSync(blob)
 }
 
 /**
@@ -36,7 +36,7 @@ export function isBlobUrl(src: string): boolean {
  * @internal
  */
 export function getBlob(url: string): Blob | undefined {
-  return blobRegistry.get(url)
+  return assetStore.getBlob(url)
 }
 
 /**
@@ -44,22 +44,18 @@ export function getBlob(url: string): Blob | undefined {
  * @internal
  */
 export function revokeBlob(url: string): void {
-  if (blobRegistry.has(url)) {
-    URL.revokeObjectURL(url)
-    blobRegistry.delete(url)
-  }
+  assetStore.remove(url)
 }
 
 /**
- * Convert a base64 DataURL to a blob URL for efficient storage.
- * Returns the original string if it's not a data URL.
- * @public
+ * Decode a base64 DataURL's bytes and MIME type. Returns null if it's not a data URL.
+ * @internal
  */
-export function dataUrlToBlobUrl(dataUrl: string): string {
-  if (!dataUrl.startsWith('data:')) return dataUrl
+export function decodeDataUrl(dataUrl: string): { bytes: Uint8Array<ArrayBuffer>; mime: string } | null {
+  if (!dataUrl.startsWith('data:')) return null
 
   const [header, base64] = dataUrl.split(',')
-  if (!header || !base64) return dataUrl
+  if (!header || !base64) return null
 
   const mimeMatch = header.match(/data:([^;]+)/)
   const mime = mimeMatch?.[1] ?? 'image/png'
@@ -70,34 +66,57 @@ export function dataUrlToBlobUrl(dataUrl: string): string {
     bytes[i] = binary.charCodeAt(i)
   }
 
-  const blob = new Blob([bytes], { type: mime })
-  return storeBlobAsUrl(blob)
+  return { bytes, mime }
 }
 
 /**
- * Convert a blob URL back to a base64 DataURL for serialization.
- * Returns the original string if it's not a blob URL or not in the registry.
+ * Decode a base64 DataURL into a blob. Returns null if it's not a data URL.
+ * @internal
+ */
+export function dataUrlToBlob(dataUrl: string): Blob | null {
+  const decoded = decodeDataUrl(dataUrl)
+  return decoded ? new Blob([decoded.bytes], { type: decoded.mime }) : null
+}
+
+/**
+ * Convert a base64 DataURL to a blob URL for efficient storage.
+ * The same image always gets the same URL.
+ * Returns the original string if it's not a data URL.
  * @public
  */
-export async function blobUrlToDataUrl(url: string): Promise<string> {
-  const blob = blobRegistry.get(url)
-  if (!blob) return url
+export function dataUrlToBlobUrl(dataUrl: string): string {
+  const decoded = decodeDataUrl(dataUrl)
+  return decoded ? assetStore.addBytes(decoded.bytes, decoded.mime) : dataUrl
+}
 
+/**
+ * Read a blob as a base64 DataURL; resolves with `fallback` if reading fails.
+ * @internal
+ */
+export function blobToDataUrl(blob: Blob, fallback = ''): Promise<string> {
   return new Promise<string>((resolve) => {
     const reader = new FileReader()
     reader.onload = () => resolve(reader.result as string)
-    reader.onerror = () => resolve(url)
+    reader.onerror = () => resolve(fallback)
     reader.readAsDataURL(blob)
   })
 }
 
+/**
+ * Convert a blob URL back to a base64 DataURL for serialization.
+ * Returns the original string if it's not a blob URL or not in the registry.
+ * @public
+ */
+export async function blobUrlToDataUrl(url: string): Promise<string> {
+  const blob = assetStore.getBlob(url)
+  if (!blob) return url
+  return blobToDataUrl(blob, url)
+}
+
 /**
  * Clear all stored blobs and revoke their URLs.
  * @public
  */
 export function clearBlobStore(): void {
-  for (const url of blobRegistry.keys()) {
-    URL.revokeObjectURL(url)
-  }
-  blobRegistry.clear()
+  assetStore.clear()
 }
@@ -0,0 +1,153 @@
+import type { Bounds, ImageCrop, ImageFilter, ImageShape, Point } from '../types'
+import { calculateResizedBounds, type ResizeHandle } from './resizeHandles'
+import { rotatePoint } from './shapeHitTest'
+
+/** Smallest cropped size, in canvas units */
+const MIN_CROP_SIZE = 10
+
+/** @internal */
+export const DEFAULT_IMAGE_FILTER: ImageFilter = { brightness: 1, grayscale: 0 }
+
+/**
+ * The shown part of an image: its crop, or the whole image.
+ * @internal
+ */
+export function getImageCrop(shape: ImageShape): ImageCrop {
+  const { crop, naturalWidth, naturalHeight } = shape.props
+  return crop ?? { x: 0, y: 0, width: naturalWidth, height: naturalHeight }
+}
+
+/**
+ * Where the whole (uncropped) image would be drawn, at the shape's scale,
+ * in its unrotated frame. Equals the shape's bounds when there is no crop.
+ * @internal
+ */
+export function getUncroppedImageBounds(shape: ImageShape): Bounds {
+  const { naturalWidth, naturalHeight, flipX, flipY } = shape.props
+  const crop = getImageCrop(shape)
+  const scaleX = shape.width / crop.width
+  const scaleY = shape.height / crop.height
+  // Flipped images show the part left of (above) the crop on the other side
+  const left = flipX ? naturalWidth - crop.x - crop.width : crop.x
+  const top = flipY ? naturalHeight - crop.y - crop.height : crop.y
+  return {
+    x: shape.x - left * scaleX,
+    y: shape.y - top * scaleY,
+    width: naturalWidth * scaleX,
+    height: naturalHeight * scaleY,
+  }
+}
+
+/** Shape showing the part of `full` (the uncropped image) covered by `bounds` */
+function withShownBounds(shape: ImageShape, bounds: Bounds, full: Bounds): ImageShape {
+  const { naturalWidth, naturalHeight, flipX, flipY } = shape.props
+  const scaleX = full.width / naturalWidth
+  const scaleY = full.height / naturalHeight
+  const width = bounds.width / scaleX
+  const height = bounds.height / scaleY
+  const left = (bounds.x - full.x) / scaleX
+  const top = (bounds.y - full.y) / scaleY
+  return {
+    ...shape,
+    ...bounds,
+    props: {
+      ...shape.props,
+      crop: {
+        x: flipX ? naturalWidth - left - width : left,
+        y: flipY ? naturalHeight - top - height : top,
+        width,
+        height,
+      },
+    },
+  }
+}
+
+/** Shift a rotated shape so resizing its unrotated bounds doesn't move the part that stays */
+function keepInPlace(start: ImageShape, next: ImageShape): ImageShape {
+  if (start.rotation === 0) return next
+  const startCenter = { x: start.x + start.width / 2, y: start.y + start.height / 2 }
+  const shift = { x: next.x + next.width / 2 - startCenter.x, y: next.y + next.height / 2 - startCenter.y }
+  const rotated = rotatePoint(shift, { x: 0, y: 0 }, start.rotation)
+  return { ...next, x: next.x + rotated.x - shift.x, y: next.y + rotated.y - shift.y }
+}
+
+/** A canvas-space drag in the shape's unrotated frame */
+function toShapeFrame(shape: ImageShape, dx: number, dy: number): Point {
+  return rotatePoint({ x: dx, y: dy }, { x: 0, y: 0 }, -shape.rotation)
+}
+
+/**
+ * Crop `start` by dragging one of its handles by (dx, dy), without going
+ * past the edges of the image.
+ * @internal
+ */
+export function resizeImageCrop(start: ImageShape, handle: ResizeHandle, dx: number, dy: number): ImageShape {
+  const full = getUncroppedImageBounds(start)
+  const delta = toShapeFrame(start, dx, dy)
+  const resized = calculateResizedBounds(start, handle, delta.x, delta.y, MIN_CROP_SIZE)
+  const left = Math.max(resized.x, full.x)
+  const top = Math.max(resized.y, full.y)
+  const right = Math.min(resized.x + resized.width, full.x + full.width)
+  const bottom = Math.min(resized.y + resized.height, full.y + full.height)
+  const bounds = { x: left, y: top, width: right - left, height: bottom - top }
+  return keepInPlace(start, withShownBounds(start, bounds, full))
+}
+
+/**
+ * Move the image under the crop of `start` by (dx, dy), keeping the crop
+ * inside the image. The shape's bounds don't change.
+ * @internal
+ */
+export function panImageCrop(start: ImageShape, dx: number, dy: number): ImageShape {
+  const full = getUncroppedImageBounds(start)
+  const delta = toShapeFrame(start, dx, dy)
+  const x = Math.min(Math.max(full.x + delta.x, start.x + start.width - full.width), start.x)
+  const y = Math.min(Math.max(full.y + delta.y, start.y + start.height - full.height), start.y)
+  return withShownBounds(start, start, { ...full, x, y })
+}
+
+/**
+ * The largest centered crop of a `naturalWidth` x `naturalHeight` image with
+ * the given aspect ratio (width / height).
+ * @internal
+ */
+export function coverCrop(naturalWidth: number, naturalHeight: number, aspectRatio: number): ImageCrop {
+  const width = Math.min(naturalWidth, naturalHeight * aspectRatio)
+  const height = width / aspectRatio
+  return { x: (naturalWidth - width) / 2, y: (naturalHeight - height) / 2, width, height }
+}
+
+/**
+ * CSS/canvas filter for an image filter, or 'none'.
+ * @internal
+ */
+export function imageFilterCss(filter: ImageFilter | undefined): string {
+  if (!filter) return 'none'
+  const parts: string[] = []
+  if (filter.brightness !== 1) parts.push(`brightness(${filter.brightness})`)
+  if (filter.grayscale !== 0) parts.push(`grayscale(${filter.grayscale})`)
+  return parts.length > 0 ? parts.join(' ') : 'none'
+}
+
+/**
+ * SVG `<filter>` matching {@link imageFilterCss}: brightness, then grayscale.
+ * @internal
+ */
+export function createSvgImageFilter({ brightness, grayscale }: ImageFilter, id: string): SVGFilterElement {
+  const ns = 'http://www.w3.org/2000/svg'
+  const filter = document.createElementNS(ns, 'filter')
+  filter.setAttribute('id', id)
+  filter.setAttribute('color-interpolation-filters', 'sRGB')
+  const transfer = document.createElementNS(ns, 'feComponentTransfer')
+  for (const channel of ['feFuncR', 'feFuncG', 'feFuncB']) {
+    const func = document.createElementNS(ns, channel)
+    func.setAttribute('type', 'linear')
+    func.setAttribute('slope', String(brightness))
+    transfer.appendChild(func)
+  }
+  const saturate = document.createElementNS(ns, 'feColorMatrix')
+  saturate.setAttribute('type', 'saturate')
+  saturate.setAttribute('values', String(1 - grayscale))
+  filter.append(transfer, saturate)
+  return filter
+}
@@ -0,0 +1,65 @@
+/**
+ * Read an encoded image's pixel size from its header, without decoding it.
+ * Supports PNG, GIF, JPEG and WebP. Returns null for other formats or
+ * truncated data.
+ * @internal
+ */
+export function readImageSize(bytes: Uint8Array): { width: number; height: number } | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const ascii = (offset: number, length: number) =>
+    String.fromCharCode(...bytes.subarray(offset, offset + length))
+
+  try {
+    // PNG: IHDR is always the first chunk
+    if (ascii(1, 3) === 'PNG' && ascii(12, 4) === 'IHDR') {
+      return sized(view.getUint32(16), view.getUint32(20))
+    }
+    // GIF: logical screen size
+    if (ascii(0, 3) === 'GIF') {
+      return sized(view.getUint16(6, true), view.getUint16(8, true))
+    }
+    if (ascii(0, 4) === 'RIFF' && ascii(8, 4) === 'WEBP') return readWebpSize(view, ascii(12, 4))
+    if (view.getUint16(0) === 0xffd8) return readJpegSize(view)
+  } catch {
+    // Truncated header
+  }
+  return null
+}
+
+function readWebpSize(view: DataView, chunk: string) {
+  switch (chunk) {
+    case 'VP8 ':
+      return sized(view.getUint16(26, true) & 0x3fff, view.getUint16(28, true) & 0x3fff)
+    case 'VP8L': {
+      const bits = view.getUint32(21, true)
+      return sized((bits & 0x3fff) + 1, ((bits >> 14) & 0x3fff) + 1)
+    }
+    case 'VP8X':
+      return sized(readUint24(view, 24) + 1, readUint24(view, 27) + 1)
+    default:
+      return null
+  }
+}
+
+/** Walk the markers up to the first start-of-frame segment */
+function readJpegSize(view: DataView) {
+  let offset = 2
+  while (offset + 9 < view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) return null
+    const marker = view.getUint8(offset + 1)
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return sized(view.getUint16(offset + 7), view.getUint16(offset + 5))
+    }
+    offset += 2 + view.getUint16(offset + 2)
+  }
+  return null
+}
+
+function readUint24(view: DataView, offset: number): number {
+  return view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getUint8(offset + 2) << 16)
+}
+
+function sized(width: number, height: number) {
+  return width > 0 && height > 0 ? { width, height } : null
+}
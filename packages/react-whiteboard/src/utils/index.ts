@@ -4,5 +4,8 @@ export * from './hitTest'
 export * from './fonts'
 export * from './snapping'
 export * from './rotationHandle'
+export * from './presence'
 export * from './serialization'
+export * from './excalidrawImport'
+export * from './excalidrawExport'
 export * from './exportPng'
@@ -0,0 +1,38 @@
+import { nanoid } from 'nanoid'
+import type { Point, ReactComponentShape } from '../types'
+
+/**
+ * `componentType` of link cards: React component shapes for pasted URLs,
+ * rendered by the built-in `LinkCard` component.
+ * @public
+ */
+export const LINK_CARD_COMPONENT = 'link-card'
+
+export const LINK_CARD_SIZE = { width: 320, height: 72 }
+
+/** Props of a link card shape */
+export interface LinkCardProps {
+  url: string
+  title: string
+}
+
+/** A link card for `url`, titled with its host name and centered on `center` */
+export function createLinkCardShape(url: string, center: Point): ReactComponentShape {
+  const { width, height } = LINK_CARD_SIZE
+  const componentProps: LinkCardProps = { url, title: new URL(url).hostname }
+  return {
+    id: nanoid(),
+    type: 'react-component',
+    x: center.x - width / 2,
+    y: center.y - height / 2,
+    width,
+    height,
+    rotation: 0,
+    opacity: 1,
+    isLocked: false,
+    parentId: null,
+    seed: Math.floor(Math.random() * 2 ** 31),
+    roughness: 0,
+    props: { componentType: LINK_CARD_COMPONENT, componentProps: { ...componentProps } },
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Upgrade step for a raw (parsed but not yet validated) document. It gets the
+ * document at its `from` version and returns it in the `to` format; the
+ * `version` field is updated afterwards.
+ * @public
+ */
+export type DocumentMigration = (doc: Record<string, unknown>) => Record<string, unknown>
+
+const migrations = new Map<number, { to: number; migrate: DocumentMigration }>()
+
+/**
+ * Register how to upgrade documents from format version `from` to `to`.
+ * `parseDocument` chains registered steps until a document reaches the
+ * current version. Returns a function that removes the step.
+ * @public
+ */
+export function registerMigration(from: number, to: number, migrate: DocumentMigration): () => void {
+  if (to <= from) throw new Error(`Migration must upgrade to a later version (${from} -> ${to})`)
+  const step = { to, migrate }
+  migrations.set(from, step)
+  return () => {
+    if (migrations.get(from) === step) migrations.delete(from)
+  }
+}
+
+/**
+ * Run registered migrations until `doc.version` reaches `target`.
+ * Throws if a step is missing.
+ * @internal
+ */
+export function migrateDocument(doc: Record<string, unknown>, target: number): Record<string, unknown> {
+  let current = doc
+  while ((current.version as number) < target) {
+    const version = current.version as number
+    const step = migrations.get(version)
+    if (!step) throw new Error(`Unsupported document version: ${version} (no migration to a later version)`)
+    current = { ...step.migrate(current), version: step.to }
+  }
+  return current
+}
@@ -0,0 +1,17 @@
+import type { PeerPresence } from '../types'
+import { fnv1a32 } from './fnv1a'
+
+/**
+ * Color used for a peer's cursor and selections: the peer's own color if it
+ * set one, otherwise a palette entry picked from its client ID, so every
+ * peer sees the same color for the same client.
+ * @public
+ */
+export function getPeerColor(
+  peer: Pick<PeerPresence, 'clientId' | 'user'>,
+  palette: readonly string[],
+): string {
+  if (peer.user.color) return peer.user.color
+  if (palette.length === 0) return '#000000'
+  return palette[fnv1a32(peer.clientId) % palette.length]!
+}
@@ -0,0 +1,168 @@
+/** Axis-aligned box stored in a {@link QuadTree} */
+export interface QuadTreeBox {
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+}
+
+/** Entries a leaf holds before it splits */
+const NODE_CAPACITY = 16
+
+/** Nodes smaller than this never split (canvas units) */
+const MIN_NODE_SIZE = 32
+
+/** Side length of the root cell before it grows */
+const INITIAL_ROOT_SIZE = 4096
+
+interface QuadNode {
+  x: number
+  y: number
+  size: number
+  entries: Map<string, QuadTreeBox>
+  children: QuadNode[] | null
+}
+
+function createNode(x: number, y: number, size: number): QuadNode {
+  return { x, y, size, entries: new Map(), children: null }
+}
+
+function isFiniteBox(box: QuadTreeBox): boolean {
+  return Number.isFinite(box.minX + box.minY + box.maxX + box.maxY)
+}
+
+function intersects(a: QuadTreeBox, b: QuadTreeBox): boolean {
+  return a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY
+}
+
+/** Index of the child cell holding a point */
+function quadrant(node: QuadNode, x: number, y: number): number {
+  const half = node.size / 2
+  return (x >= node.x + half ? 1 : 0) + (y >= node.y + half ? 2 : 0)
+}
+
+/**
+ * Loose quadtree of boxes keyed by ID.
+ *
+ * An entry lives in the deepest node whose cell holds its center and is at
+ * least twice its size, so it never reaches more than a quarter cell past its
+ * node. Searches prune nodes by that loose extent. The root doubles outward
+ * when an entry lands outside it, so the tree covers an unbounded canvas.
+ */
+export class QuadTree {
+  private root = createNode(-INITIAL_ROOT_SIZE / 2, -INITIAL_ROOT_SIZE / 2, INITIAL_ROOT_SIZE)
+  private nodeOf = new Map<string, QuadNode>()
+  /** Entries with non-finite boxes; every search returns them */
+  private unbounded = new Map<string, QuadTreeBox>()
+
+  /** Number of entries */
+  get size(): number {
+    return this.nodeOf.size + this.unbounded.size
+  }
+
+  /** Box stored for an entry */
+  get(id: string): QuadTreeBox | undefined {
+    return this.nodeOf.get(id)?.entries.get(id) ?? this.unbounded.get(id)
+  }
+
+  /** Insert an entry, replacing any previous box for the same ID */
+  insert(id: string, box: QuadTreeBox): void {
+    this.remove(id)
+    if (!isFiniteBox(box)) {
+      this.unbounded.set(id, box)
+      return
+    }
+
+    const cx = (box.minX + box.maxX) / 2
+    const cy = (box.minY + box.maxY) / 2
+    const extent = Math.max(box.maxX - box.minX, box.maxY - box.minY)
+    this.growToFit(cx, cy, extent)
+
+    let node = this.root
+    while (node.children) {
+      const child = node.children[quadrant(node, cx, cy)]!
+      if (extent > child.size / 2) break
+      node = child
+    }
+    node.entries.set(id, box)
+    this.nodeOf.set(id, node)
+    this.splitIfFull(node)
+  }
+
+  /** Remove an entry; returns whether it was present */
+  remove(id: string): boolean {
+    const node = this.nodeOf.get(id)
+    if (node) {
+      node.entries.delete(id)
+      this.nodeOf.delete(id)
+      return true
+    }
+    return this.unbounded.delete(id)
+  }
+
+  /** IDs of the entries whose boxes intersect the given box, in no particular order */
+  search(box: QuadTreeBox): string[] {
+    const result = [...this.unbounded.keys()]
+    const stack = [this.root]
+    while (stack.length > 0) {
+      const node = stack.pop()!
+      const pad = node.size / 4
+      if (
+        node.x - pad > box.maxX ||
+        node.x + node.size + pad < box.minX ||
+        node.y - pad > box.maxY ||
+        node.y + node.size + pad < box.minY
+      ) {
+        continue
+      }
+      for (const [id, entry] of node.entries) {
+        if (intersects(entry, box)) result.push(id)
+      }
+      if (node.children) stack.push(...node.children)
+    }
+    return result
+  }
+
+  /** Remove every entry */
+  clear(): void {
+    this.root = createNode(-INITIAL_ROOT_SIZE / 2, -INITIAL_ROOT_SIZE / 2, INITIAL_ROOT_SIZE)
+    this.nodeOf.clear()
+    this.unbounded.clear()
+  }
+
+  /** Double the root toward the point until it can hold the entry */
+  private growToFit(cx: number, cy: number, extent: number): void {
+    let root = this.root
+    while (
+      cx < root.x || cx >= root.x + root.size ||
+      cy < root.y || cy >= root.y + root.size ||
+      extent > root.size / 2
+    ) {
+      const x = cx < root.x ? root.x - root.size : root.x
+      const y = cy < root.y ? root.y - root.size : root.y
+      const grown = createNode(x, y, root.size * 2)
+      const half = root.size
+      grown.children = [0, 1, 2, 3].map((i) => createNode(x + (i & 1) * half, y + (i >> 1) * half, half))
+      grown.children[quadrant(grown, root.x, root.y)] = root
+      root = grown
+    }
+    this.root = root
+  }
+
+  /** Push the entries of an over-full leaf down into new children */
+  private splitIfFull(node: QuadNode): void {
+    if (node.children || node.entries.size <= NODE_CAPACITY || node.size / 2 < MIN_NODE_SIZE) return
+
+    const half = node.size / 2
+    const children = [0, 1, 2, 3].map((i) => createNode(node.x + (i & 1) * half, node.y + (i >> 1) * half, half))
+    node.children = children
+    for (const [id, box] of node.entries) {
+      if (Math.max(box.maxX - box.minX, box.maxY - box.minY) > half / 2) continue
+      const child = children[quadrant(node, (box.minX + box.maxX) / 2, (box.minY + box.maxY) / 2)]!
+      node.entries.delete(id)
+      child.entries.set(id, box)
+      this.nodeOf.set(id, child)
+    }
+    for (const child of children) this.splitIfFull(child)
+  }
+}
@@ -1,10 +1,14 @@
 import type { Shape, Viewport } from '../types'
 import { updateShapeFields } from '../types'
 import { collectBoundTextIds } from './boundText'
+import { expandFrameChildren } from './frames'
 import { isBlobUrl, blobUrlToDataUrl, dataUrlToBlobUrl } from './imageBlobStore'
+import { assetStore } from '../assets/AssetStore'
+import { validateShape } from './documentSchema'
+import { migrateDocument } from './migrations'
 
 /** Current file format version */
-const FORMAT_VERSION = 1
+export const FORMAT_VERSION = 1
 
 /**
  * Serialized whiteboard document format.
@@ -29,7 +33,9 @@ export function serializeDocument(
 ): WhiteboardDocument {
   const shapeArray: Shape[] = []
   const addedIds = new Set<string>()
-  for (const id of shapeIds) {
+  // Frame children live in their frame's childIds rather than shapeIds
+  const allIds = expandFrameChildren(shapes, shapeIds)
+  for (const id of allIds) {
     const shape = shapes.get(id)
     if (shape) {
       shapeArray.push(shape)
@@ -38,7 +44,7 @@ export function serializeDocument(
   }
 
   // Include bound text shapes (they live in shapes Map but not in shapeIds)
-  for (const btId of collectBoundTextIds(shapeIds, shapes)) {
+  for (const btId of collectBoundTextIds(allIds, shapes)) {
     if (!addedIds.has(btId)) {
       const btShape = shapes.get(btId)
       if (btShape) shapeArray.push(btShape)
@@ -55,14 +61,17 @@ export function serializeDocument(
 }
 
 /**
- * Resolve blob URLs in image shapes to base64 DataURLs for persistence.
+ * Resolve blob URLs in image shapes to base64 DataURLs (or the URLs they
+ * were uploaded to) for persistence.
+ * @internal
  */
-async function resolveImageBlobUrls(shapes: Shape[]): Promise<Shape[]> {
+export async function resolveImageBlobUrls(shapes: Shape[]): Promise<Shape[]> {
   const resolved: Shape[] = []
   for (const shape of shapes) {
     if (shape.type === 'image' && isBlobUrl(shape.props.src)) {
-      const dataUrl = await blobUrlToDataUrl(shape.props.src)
-      resolved.push(updateShapeFields(shape, { props: { ...shape.props, src: dataUrl } }))
+      // Uploaded images are saved by their uploaded URL
+      const src = assetStore.getRemoteUrl(shape.props.src) ?? await blobUrlToDataUrl(shape.props.src)
+      resolved.push(updateShapeFields(shape, { props: { ...shape.props, src } }))
     } else {
       resolved.push(shape)
     }
@@ -86,18 +95,65 @@ export async function exportToJSON(
 }
 
 /**
- * Parse and validate a JSON string into a WhiteboardDocument.
- * Throws on invalid input.
+ * Lenient parse result: the document without the shapes that failed
+ * validation, and what was wrong with them.
  * @public
  */
-export function parseDocument(json: string): WhiteboardDocument {
-  const raw: unknown = JSON.parse(json)
+export interface ParsedDocument {
+  document: WhiteboardDocument
+  warnings: string[]
+}
+
+/**
+ * Copies of `shapes` without references to `dropped` shapes: parents,
+ * child lists, arrow bindings and bound text. Each one cleared is noted in
+ * `problems`, with `paths[i]` naming `shapes[i]`.
+ */
+function unlinkDroppedShapes(shapes: Shape[], paths: string[], dropped: Set<string>, problems: string[]): Shape[] {
+  return shapes.map((shape, i) => {
+    const path = paths[i]!
+    let result = shape
+    if (shape.parentId !== null && dropped.has(shape.parentId)) {
+      problems.push(`${path}.parentId '${shape.parentId}' was dropped`)
+      result = updateShapeFields(result, { parentId: null })
+    }
+    const props: Record<string, unknown> = { ...shape.props }
+    let propsChanged = false
+    if (Array.isArray(props.childIds)) {
+      const childIds = props.childIds as string[]
+      const kept = childIds.filter((id) => !dropped.has(id))
+      for (const id of childIds) if (dropped.has(id)) problems.push(`${path}.props.childIds '${id}' was dropped`)
+      if (kept.length !== childIds.length) {
+        props.childIds = kept
+        propsChanged = true
+      }
+    }
+    for (const key of ['startBinding', 'endBinding']) {
+      const binding = props[key] as { shapeId: string } | null | undefined
+      if (!binding || !dropped.has(binding.shapeId)) continue
+      problems.push(`${path}.props.${key}.shapeId '${binding.shapeId}' was dropped`)
+      props[key] = null
+      propsChanged = true
+    }
+    if (typeof props.boundTextId === 'string' && dropped.has(props.boundTextId)) {
+      problems.push(`${path}.props.boundTextId '${props.boundTextId}' was dropped`)
+      props.boundTextId = null
+      propsChanged = true
+    }
+    return propsChanged ? ({ ...result, props } as Shape) : result
+  })
+}
 
+/**
+ * Migrate and validate a decoded document; see `parseDocument`.
+ * @internal
+ */
+export function readDocument(raw: unknown, lenient: boolean): ParsedDocument {
   if (typeof raw !== 'object' || raw === null) {
     throw new Error('Invalid document: not an object')
   }
 
-  const data = raw as Record<string, unknown>
+  let data = raw as Record<string, unknown>
 
   if (data.source !== 'react-whiteboard') {
     throw new Error('Invalid document: unrecognized source')
@@ -107,6 +163,11 @@ export function parseDocument(json: string): WhiteboardDocument {
     throw new Error(`Unsupported document version: ${data.version}`)
   }
 
+  data = migrateDocument(data, FORMAT_VERSION)
+  if (data.version !== FORMAT_VERSION) {
+    throw new Error(`Unsupported document version: ${data.version}`)
+  }
+
   if (!Array.isArray(data.shapes) || !Array.isArray(data.shapeIds)) {
     throw new Error('Invalid document: missing shapes or shapeIds')
   }
@@ -116,15 +177,83 @@ export function parseDocument(json: string): WhiteboardDocument {
     throw new Error('Invalid document: invalid viewport')
   }
 
+  const problems: string[] = []
+  let shapes: Shape[] = []
+  const paths: string[] = []
+  const ids = new Set<string>()
+  const droppedIds = new Set<string>()
+  data.shapes.forEach((value: unknown, i) => {
+    const errors = validateShape(value, `shapes[${i}]`)
+    const shape = value as Shape
+    if (errors.length === 0 && ids.has(shape.id)) errors.push(`shapes[${i}].id '${shape.id}' is used by an earlier shape`)
+    if (errors.length > 0) {
+      problems.push(...errors)
+      const id = (value as { id?: unknown } | null)?.id
+      if (typeof id === 'string') droppedIds.add(id)
+      return
+    }
+    ids.add(shape.id)
+    shapes.push(shape)
+    paths.push(`shapes[${i}]`)
+  })
+
+  // IDs of dropped shapes that no kept shape uses
+  const dropped = new Set([...droppedIds].filter((id) => !ids.has(id)))
+  // Children of a dropped parent become top-level, in its place
+  const orphans = new Map<string, string[]>()
+  const listed = new Set(data.shapeIds)
+  for (const { id, parentId } of shapes) {
+    if (parentId === null || !dropped.has(parentId) || listed.has(id)) continue
+    orphans.set(parentId, [...(orphans.get(parentId) ?? []), id])
+  }
+  if (dropped.size > 0) shapes = unlinkDroppedShapes(shapes, paths, dropped, problems)
+
+  const shapeIds: string[] = []
+  data.shapeIds.forEach((id: unknown, i) => {
+    if (typeof id !== 'string') problems.push(`shapeIds[${i}] is not a string`)
+    else if (ids.has(id)) shapeIds.push(id)
+    else {
+      problems.push(`shapeIds[${i}] '${id}' has no shape`)
+      shapeIds.push(...(orphans.get(id) ?? []))
+      orphans.delete(id)
+    }
+  })
+  for (const children of orphans.values()) shapeIds.push(...children)
+
+  if (problems.length > 0 && !lenient) {
+    const more = problems.length > 1 ? ` (and ${problems.length - 1} more)` : ''
+    throw new Error(`Invalid document: ${problems[0]}${more}`)
+  }
+
   return {
-    version: data.version,
-    source: data.source as 'react-whiteboard',
-    viewport,
-    shapes: data.shapes as Shape[],
-    shapeIds: data.shapeIds as string[],
+    document: { version: FORMAT_VERSION, source: 'react-whiteboard', viewport, shapes, shapeIds },
+    warnings: problems,
   }
 }
 
+/**
+ * Parse and validate a JSON string into a WhiteboardDocument.
+ * Older documents are upgraded with the registered migrations (see
+ * `registerMigration`). Throws on invalid input, naming the first invalid
+ * value, e.g. `shapes[12].props.points[3].x is not a number`.
+ * @public
+ */
+export function parseDocument(json: string): WhiteboardDocument {
+  return readDocument(JSON.parse(json), false).document
+}
+
+/**
+ * Like `parseDocument`, but drops invalid shapes (and `shapeIds` without a
+ * shape) instead of throwing, and returns what was dropped as warnings.
+ * References to dropped shapes are cleared and reported too; children of a
+ * dropped frame or group become top-level shapes.
+ * Still throws if the document itself is unusable.
+ * @public
+ */
+export function parseDocumentLenient(json: string): ParsedDocument {
+  return readDocument(JSON.parse(json), true)
+}
+
 /**
  * Convert a parsed document into store-ready data structures.
  * Converts base64 DataURL image sources to efficient blob URLs.
@@ -160,7 +289,7 @@ export function documentToStoreData(doc: WhiteboardDocument): {
  * Trigger a file download in the browser.
  * @public
  */
-export function downloadFile(content: string, filename: string, mimeType: string): void {
+export function downloadFile(content: string | Uint8Array<ArrayBuffer>, filename: string, mimeType: string): void {
   const blob = new Blob([content], { type: mimeType })
   const url = URL.createObjectURL(blob)
   const a = document.createElement('a')
@@ -1,4 +1,5 @@
 import type { Shape } from '../types'
+import { FRAME_TITLE_HEIGHT } from './frames'
 
 /** @public */
 export interface ShapesBounds {
@@ -25,7 +26,8 @@ export function getShapesBounds(
     const s = shapes.get(id)
     if (!s) continue
     minX = Math.min(minX, s.x)
-    minY = Math.min(minY, s.y)
+    // Frame titles sit above the frame
+    minY = Math.min(minY, s.type === 'frame' ? s.y - FRAME_TITLE_HEIGHT : s.y)
     maxX = Math.max(maxX, s.x + s.width)
     maxY = Math.max(maxY, s.y + s.height)
   }
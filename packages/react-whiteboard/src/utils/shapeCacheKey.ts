@@ -56,7 +56,10 @@ export function shapeCacheKey(shape: Shape, zoom: number): string {
     }
     case 'image': {
       const p = (shape as ImageShape).props
-      return `${base}|${p.src.length}|${p.naturalWidth}|${p.naturalHeight}`
+      const crop = p.crop ? `${p.crop.x},${p.crop.y},${p.crop.width},${p.crop.height}` : ''
+      const filter = p.filter ? `${p.filter.brightness},${p.filter.grayscale}` : ''
+      // Length and tail of src tell replaced images apart without hashing data URLs
+      return `${base}|${p.src.length}|${p.src.slice(-32)}|${p.naturalWidth}|${p.naturalHeight}|${crop}|${p.flipX}|${p.flipY}|${filter}`
     }
     default: {
       // Custom shapes: use FNV-1a hash of sorted props for a stable, compact key
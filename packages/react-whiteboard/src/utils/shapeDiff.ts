@@ -0,0 +1,113 @@
+/**
+ * Structural diffs between shapes, used to keep undo history compact:
+ * an update records only the fields (and props) it changed.
+ */
+
+import type { Shape, ShapePatch } from '../types'
+
+type Fields = Record<string, unknown>
+
+function isPlainObject(value: unknown): value is Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/** Deep equality for JSON-like values (objects, arrays, primitives) */
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false
+  if (Array.isArray(a)) {
+    if (!Array.isArray(b) || a.length !== b.length) return false
+    return a.every((item, i) => isDeepEqual(item, b[i]))
+  }
+  if (Array.isArray(b)) return false
+  const keysA = Object.keys(a)
+  if (keysA.length !== Object.keys(b).length) return false
+  return keysA.every((key) => key in b && isDeepEqual((a as Fields)[key], (b as Fields)[key]))
+}
+
+/** Record the keys whose values differ into `before` and `after` */
+function diffFields(prev: Fields, next: Fields, before: Fields, after: Fields, skip?: string): boolean {
+  let changed = false
+  for (const key of new Set([...Object.keys(prev), ...Object.keys(next)])) {
+    if (key === skip || isDeepEqual(prev[key], next[key])) continue
+    before[key] = prev[key]
+    after[key] = next[key]
+    changed = true
+  }
+  return changed
+}
+
+/**
+ * The fields that differ between two states of the same shape, or null when
+ * nothing does. Accepts whole shapes or patches; props are diffed per prop.
+ */
+export function diffShape(prev: ShapePatch, next: ShapePatch): { before: ShapePatch; after: ShapePatch } | null {
+  const before: ShapePatch = { id: prev.id }
+  const after: ShapePatch = { id: next.id }
+  let changed = diffFields(prev, next, before, after, 'props')
+
+  if (isPlainObject(prev.props) && isPlainObject(next.props)) {
+    const beforeProps: Fields = {}
+    const afterProps: Fields = {}
+    if (diffFields(prev.props, next.props, beforeProps, afterProps)) {
+      before.props = beforeProps
+      after.props = afterProps
+      changed = true
+    }
+  } else if (!isDeepEqual(prev.props, next.props)) {
+    before.props = prev.props
+    after.props = next.props
+    changed = true
+  }
+  return changed ? { before, after } : null
+}
+
+/**
+ * Pair up `before` and `after` by ID and keep only what changed.
+ * Shapes that didn't change are dropped.
+ */
+export function diffShapes(
+  before: ShapePatch[],
+  after: ShapePatch[],
+): { before: ShapePatch[]; after: ShapePatch[] } {
+  const afterById = new Map(after.map((shape) => [shape.id, shape]))
+  const result = { before: [] as ShapePatch[], after: [] as ShapePatch[] }
+  for (const prev of before) {
+    const next = afterById.get(prev.id)
+    const diff = next && diffShape(prev, next)
+    if (!diff) continue
+    result.before.push(diff.before)
+    result.after.push(diff.after)
+  }
+  return result
+}
+
+function setField(target: Fields, key: string, value: unknown): void {
+  if (value === undefined) delete target[key]
+  else target[key] = value
+}
+
+/** A shape with a patch's fields (and props) applied on top */
+export function applyShapePatch(shape: Shape, patch: ShapePatch): Shape {
+  const next: Fields = { ...shape }
+  for (const [key, value] of Object.entries(patch)) {
+    if (key === 'id') continue
+    if (key === 'props' && isPlainObject(value) && isPlainObject(shape.props)) {
+      const props: Fields = { ...shape.props }
+      for (const [prop, propValue] of Object.entries(value)) setField(props, prop, propValue)
+      next.props = props
+    } else {
+      setField(next, key, value)
+    }
+  }
+  return next as unknown as Shape
+}
+
+/** `over` laid on top of `base`, props merged per prop */
+export function mergeShapePatches(base: ShapePatch, over: ShapePatch): ShapePatch {
+  const merged: ShapePatch = { ...base, ...over }
+  if (isPlainObject(base.props) && isPlainObject(over.props)) {
+    merged.props = { ...base.props, ...over.props }
+  }
+  return merged
+}
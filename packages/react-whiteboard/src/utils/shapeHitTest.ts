@@ -1,5 +1,6 @@
 import type { Point, Shape, PathShape, LineShape, ArrowShape } from '../types'
 import type { ShapeRendererRegistry } from '../core/renderer/ShapeRendererRegistry'
+import { hitTestFrame } from './frames'
 
 /** Threshold for detecting degenerate shapes */
 const EPSILON = 0.0001
@@ -265,6 +266,9 @@ export function hitTestShape(
 ): boolean {
   if (shape.isLocked) return false
 
+  // Frames are hit by their title label, which lies above their bounds
+  if (shape.type === 'frame') return hitTestFrame(point, shape, tolerance)
+
   // Fast AABB reject — avoids expensive per-point path iteration etc.
   if (shape.rotation === 0 && outsideBounds(point, shape, tolerance)) return false
 
@@ -280,6 +284,7 @@ export function hitTestShape(
     case 'arrow':
       return hitTestArrow(point, shape as ArrowShape, tolerance)
     case 'text':
+    case 'sticky':
     case 'image':
     case 'group':
       return hitTestRectangle(point, shape, tolerance)
@@ -1,4 +1,5 @@
 import type { Bounds, Point, Shape } from '../types'
+import type { SpatialIndex } from './spatialIndex'
 
 /** @public */
 export interface SnapLine {
@@ -17,6 +18,9 @@ export interface SnapResult {
 
 const SNAP_THRESHOLD = 5
 
+/** Half-length of the bands searched for snap targets; beyond any real canvas */
+const SNAP_SEARCH_REACH = 1e9
+
 /**
  * Snap a point to the nearest grid intersection.
  * @public
@@ -32,6 +36,7 @@ export function snapToGrid(point: Point, gridSize: number): Point {
  * Snap moving bounds to other shape edges/centers (smart guides).
  * Returns the snapped position and visual snap lines.
  * Uses proximity culling to skip shapes that are too far away to snap.
+ * Pass the store's spatial index to only visit the shapes in snapping range.
  * @public
  */
 export function snapToShapes(
@@ -40,6 +45,7 @@ export function snapToShapes(
   shapeIds: string[],
   excludeIds: Set<string>,
   threshold: number = SNAP_THRESHOLD,
+  index?: SpatialIndex,
 ): SnapResult {
   const snapLines: SnapLine[] = []
   let bestDx = Infinity
@@ -55,7 +61,27 @@ export function snapToShapes(
   const mCenterY = movingBounds.y + movingBounds.height / 2
   const mBottom = movingBounds.y + movingBounds.height
 
-  for (const id of shapeIds) {
+  // Shapes can snap along either axis: search the column and row the bounds sweep
+  const candidateIds = index
+    ? index.queryShapeIds(
+        allShapes,
+        shapeIds,
+        {
+          x: mLeft - threshold,
+          y: -SNAP_SEARCH_REACH,
+          width: movingBounds.width + threshold * 2,
+          height: SNAP_SEARCH_REACH * 2,
+        },
+        {
+          x: -SNAP_SEARCH_REACH,
+          y: mTop - threshold,
+          width: SNAP_SEARCH_REACH * 2,
+          height: movingBounds.height + threshold * 2,
+        },
+      )
+    : shapeIds
+
+  for (const id of candidateIds) {
     if (excludeIds.has(id)) continue
     const shape = allShapes.get(id)
     if (!shape) continue
@@ -0,0 +1,134 @@
+import type { Bounds, Shape } from '../types'
+import { FRAME_TITLE_HEIGHT } from './frames'
+import { QuadTree, type QuadTreeBox } from './quadTree'
+
+/** Slack around each shape's box for stroke width and arrowheads (matches hit testing) */
+const SHAPE_MARGIN = 10
+
+/**
+ * Box a shape is indexed under: its rectangle, widened to cover any rotation,
+ * plus the frame title and some slack. Always contains the unrotated
+ * rectangle, which culling and snapping compare against.
+ */
+export function getIndexBox(shape: Shape): QuadTreeBox {
+  let { y, height } = shape
+  if (shape.type === 'frame') {
+    y -= FRAME_TITLE_HEIGHT
+    height += FRAME_TITLE_HEIGHT
+  }
+  const cx = shape.x + shape.width / 2
+  const cy = y + height / 2
+  let halfW = Math.abs(shape.width) / 2
+  let halfH = Math.abs(height) / 2
+  if (shape.rotation) {
+    const cos = Math.abs(Math.cos(shape.rotation))
+    const sin = Math.abs(Math.sin(shape.rotation))
+    const rotatedW = halfW * cos + halfH * sin
+    const rotatedH = halfW * sin + halfH * cos
+    halfW = Math.max(halfW, rotatedW)
+    halfH = Math.max(halfH, rotatedH)
+  }
+  halfW += SHAPE_MARGIN
+  halfH += SHAPE_MARGIN
+  return { minX: cx - halfW, minY: cy - halfH, maxX: cx + halfW, maxY: cy + halfH }
+}
+
+function toBox(bounds: Bounds): QuadTreeBox {
+  return { minX: bounds.x, minY: bounds.y, maxX: bounds.x + bounds.width, maxY: bounds.y + bounds.height }
+}
+
+/**
+ * Spatial index over a store's shapes, used to narrow hit testing, marquee
+ * selection, snapping and viewport culling to the shapes near an area.
+ *
+ * The store owns one index. Its actions report the IDs they change through
+ * {@link SpatialIndex.applyChanges}; any other change to `shapes` (sync
+ * adapters, direct `setState`) is picked up by diffing the next time the
+ * index is queried with the new map.
+ * @public
+ */
+export class SpatialIndex {
+  private tree = new QuadTree()
+  /** Shapes map the tree reflects */
+  private source: Map<string, Shape> = new Map()
+  /** Position of each ID in a shapeIds array, cached per array */
+  private orders = new WeakMap<readonly string[], Map<string, number>>()
+
+  /** Number of indexed shapes */
+  get size(): number {
+    return this.tree.size
+  }
+
+  /** Index a whole shapes map from scratch */
+  rebuild(shapes: Map<string, Shape>): void {
+    this.tree.clear()
+    for (const [id, shape] of shapes) this.tree.insert(id, getIndexBox(shape))
+    this.source = shapes
+  }
+
+  /**
+   * Record the shapes an action added, updated or removed going from `prev`
+   * to `next`. When the index isn't at `prev` (a change it didn't see came
+   * first), this is skipped and the next query diffs instead.
+   */
+  applyChanges(prev: Map<string, Shape>, next: Map<string, Shape>, ids: Iterable<string>): void {
+    if (this.source !== prev) return
+    for (const id of ids) {
+      const shape = next.get(id)
+      if (!shape) this.tree.remove(id)
+      else if (shape !== prev.get(id)) this.tree.insert(id, getIndexBox(shape))
+    }
+    this.source = next
+  }
+
+  /** Bring the index up to date with `shapes`, diffing against the last map it saw */
+  sync(shapes: Map<string, Shape>): void {
+    if (shapes === this.source) return
+    const prev = this.source
+    for (const [id, shape] of shapes) {
+      if (prev.get(id) !== shape) this.tree.insert(id, getIndexBox(shape))
+    }
+    for (const id of prev.keys()) {
+      if (!shapes.has(id)) this.tree.remove(id)
+    }
+    this.source = shapes
+  }
+
+  /** IDs of all shapes (top-level or not) whose indexed box meets the area, unordered */
+  search(shapes: Map<string, Shape>, area: Bounds): string[] {
+    this.sync(shapes)
+    return this.tree.search(toBox(area))
+  }
+
+  /**
+   * The IDs from `shapeIds` whose indexed box meets any of the areas, in
+   * `shapeIds` order. A superset of the shapes actually there: callers still
+   * run their exact tests on the result.
+   */
+  queryShapeIds(shapes: Map<string, Shape>, shapeIds: readonly string[], ...areas: Bounds[]): string[] {
+    this.sync(shapes)
+    const found = new Set<string>()
+    for (const area of areas) {
+      for (const id of this.tree.search(toBox(area))) found.add(id)
+    }
+
+    // Most shapes in range (e.g. zoomed out): filtering beats sorting
+    if (found.size * 4 > shapeIds.length) return shapeIds.filter((id) => found.has(id))
+
+    const order = this.getOrder(shapeIds)
+    const ranked: string[] = []
+    for (const id of found) {
+      if (order.has(id)) ranked.push(id)
+    }
+    return ranked.sort((a, b) => order.get(a)! - order.get(b)!)
+  }
+
+  private getOrder(shapeIds: readonly string[]): Map<string, number> {
+    let order = this.orders.get(shapeIds)
+    if (!order) {
+      order = new Map(shapeIds.map((id, index) => [id, index]))
+      this.orders.set(shapeIds, order)
+    }
+    return order
+  }
+}
@@ -0,0 +1,72 @@
+import type { BoundTextContainer, TextShapeProps } from '../types'
+import { measureTextLines, wrapTextLines } from './fonts'
+import { getBoundTextBounds } from './boundText'
+
+/**
+ * Note colors offered by the sticky note tool, first is the default.
+ * @public
+ */
+export const STICKY_NOTE_COLORS = [
+  '#fef08a', // yellow
+  '#fbcfe8', // pink
+  '#bfdbfe', // blue
+  '#bbf7d0', // green
+  '#fed7aa', // orange
+  '#ddd6fe', // purple
+] as const
+
+/** Side length of a sticky note placed with a click (canvas units) */
+export const STICKY_NOTE_SIZE = 200
+
+/** Smallest font size text shrinks to before it is clipped */
+export const STICKY_NOTE_MIN_FONT_SIZE = 8
+
+type FitProps = Pick<TextShapeProps, 'fontSize' | 'fontFamily' | 'fontWeight' | 'fontStyle' | 'lineHeight'>
+
+/** Whether text set at `fontSize` fits the box without breaking words */
+function fitsAt(text: string, props: FitProps, fontSize: number, width: number, height: number): boolean {
+  const sized = { ...props, fontSize }
+  // measureTextLines pads its width, so measure words against the padded box too
+  const longestWord = measureTextLines(text.split(/\s+/).join('\n'), sized)
+  if (longestWord.width > width + 8) return false
+  return wrapTextLines(text, width, sized).height <= height
+}
+
+/**
+ * Largest font size, up to `props.fontSize`, at which the text fits a
+ * `width` x `height` box. Whole font sizes only; never below the minimum.
+ * @public
+ */
+export function fitStickyNoteFontSize(
+  text: string,
+  props: FitProps,
+  width: number,
+  height: number,
+): number {
+  const max = Math.max(Math.floor(props.fontSize), STICKY_NOTE_MIN_FONT_SIZE)
+  if (!text || fitsAt(text, props, max, width, height)) return max
+
+  // Binary search for the largest size that fits
+  let low = STICKY_NOTE_MIN_FONT_SIZE
+  let high = max - 1
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2)
+    if (fitsAt(text, props, mid, width, height)) low = mid
+    else high = mid - 1
+  }
+  return low
+}
+
+/**
+ * Text props used to lay out a container's bound text. Sticky notes shrink
+ * the font to fit the note; other containers use the props as they are.
+ */
+export function resolveBoundTextProps<T extends FitProps & { text: string }>(
+  parent: BoundTextContainer,
+  props: T,
+): T {
+  if (parent.type !== 'sticky') return props
+  const { width, height } = getBoundTextBounds(parent)
+  const fontSize = fitStickyNoteFontSize(props.text, props, width, height)
+  return fontSize === props.fontSize ? props : { ...props, fontSize }
+}
@@ -0,0 +1,361 @@
+import { nanoid } from 'nanoid'
+import type {
+  BaseShape,
+  EllipseShape,
+  ImageShape,
+  LineShape,
+  PathShape,
+  Point,
+  RectangleShape,
+  Shape,
+  StrokeStyle,
+  TextFontFamily,
+  TextShape,
+} from '../types'
+import { DEFAULT_TEXT_PROPS, measureTextLines } from './fonts'
+import { getPointBounds } from './excalidrawElements'
+import { parsePathData } from './svgPathData'
+
+/** 2D affine transform `[a, b, c, d, e, f]`, as in SVG `matrix()` */
+type Matrix = [number, number, number, number, number, number]
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0]
+
+/** Presentation attributes that matter for import, inherited down the tree */
+interface SvgStyle {
+  fill: string
+  stroke: string
+  strokeWidth: number
+  dashed: boolean
+  opacity: number
+  fontSize: number
+  fontFamily: string
+  fontWeight: number
+  italic: boolean
+  textAnchor: string
+}
+
+const DEFAULT_STYLE: SvgStyle = {
+  fill: '#000000',
+  stroke: 'transparent',
+  strokeWidth: 1,
+  dashed: false,
+  opacity: 1,
+  fontSize: 16,
+  fontFamily: 'sans-serif',
+  fontWeight: 400,
+  italic: false,
+  textAnchor: 'start',
+}
+
+/** Elements whose content is never drawn directly */
+const SKIPPED_ELEMENTS = new Set([
+  'defs', 'clipPath', 'mask', 'marker', 'pattern', 'symbol', 'style', 'script',
+  'title', 'desc', 'metadata', 'linearGradient', 'radialGradient', 'filter',
+])
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ]
+}
+
+function apply(m: Matrix, p: Point): Point {
+  return { x: m[0] * p.x + m[2] * p.y + m[4], y: m[1] * p.x + m[3] * p.y + m[5] }
+}
+
+/** Parse a `transform` attribute into one matrix */
+function parseTransform(value: string | null): Matrix {
+  let result = IDENTITY
+  if (!value) return result
+  for (const [, name, args] of value.matchAll(/(\w+)\s*\(([^)]*)\)/g)) {
+    const n = (args ?? '').trim().split(/[\s,]+/).map(Number)
+    const rad = ((n[0] ?? 0) * Math.PI) / 180
+    let step: Matrix | null = null
+    switch (name) {
+      case 'matrix':
+        if (n.length === 6) step = n as Matrix
+        break
+      case 'translate':
+        step = [1, 0, 0, 1, n[0] ?? 0, n[1] ?? 0]
+        break
+      case 'scale':
+        step = [n[0] ?? 1, 0, 0, n[1] ?? n[0] ?? 1, 0, 0]
+        break
+      case 'rotate': {
+        const [cx = 0, cy = 0] = n.slice(1)
+        const rotate: Matrix = [Math.cos(rad), Math.sin(rad), -Math.sin(rad), Math.cos(rad), 0, 0]
+        step = multiply(multiply([1, 0, 0, 1, cx, cy], rotate), [1, 0, 0, 1, -cx, -cy])
+        break
+      }
+      case 'skewX':
+        step = [1, 0, Math.tan(rad), 1, 0, 0]
+        break
+      case 'skewY':
+        step = [1, Math.tan(rad), 0, 1, 0, 0]
+        break
+    }
+    if (step && step.every(Number.isFinite)) result = multiply(result, step)
+  }
+  return result
+}
+
+/**
+ * Rotation and axis scales of a matrix without skew, or null if it skews
+ * (then boxes can't stay rectangles and ellipses)
+ */
+function decompose(m: Matrix): { rotation: number; scaleX: number; scaleY: number } | null {
+  const scaleX = Math.hypot(m[0], m[1])
+  const scaleY = Math.hypot(m[2], m[3])
+  if (scaleX === 0 || scaleY === 0) return null
+  if (Math.abs(m[0] * m[2] + m[1] * m[3]) > 1e-6 * scaleX * scaleY) return null
+  return { rotation: Math.atan2(m[1], m[0]), scaleX, scaleY }
+}
+
+/** A presentation property, from the `style` attribute or the attribute itself */
+function readProperty(el: Element, name: string): string | null {
+  for (const declaration of (el.getAttribute('style') ?? '').split(';')) {
+    const colon = declaration.indexOf(':')
+    if (colon > 0 && declaration.slice(0, colon).trim() === name) return declaration.slice(colon + 1).trim()
+  }
+  return el.getAttribute(name)
+}
+
+function parseColor(value: string, fallback: string): string {
+  if (value === 'none' || value === 'transparent') return 'transparent'
+  // Gradients and patterns can't be shown; currentColor has no context here
+  if (value.startsWith('url(') || value === 'currentColor' || value === 'inherit') return fallback
+  return value
+}
+
+function parseLength(value: string | null, fallback: number): number {
+  const number = value === null ? NaN : parseFloat(value)
+  return Number.isFinite(number) ? number : fallback
+}
+
+/** Style of `el`, given the style it inherits */
+function resolveStyle(el: Element, parent: SvgStyle): SvgStyle {
+  const style = { ...parent }
+  const fill = readProperty(el, 'fill')
+  if (fill) style.fill = parseColor(fill, parent.fill)
+  const stroke = readProperty(el, 'stroke')
+  if (stroke) style.stroke = parseColor(stroke, parent.stroke)
+  style.strokeWidth = parseLength(readProperty(el, 'stroke-width'), parent.strokeWidth)
+  const dash = readProperty(el, 'stroke-dasharray')
+  if (dash) style.dashed = dash !== 'none'
+  style.opacity = parent.opacity * parseLength(readProperty(el, 'opacity'), 1)
+  style.fontSize = parseLength(readProperty(el, 'font-size'), parent.fontSize)
+  style.fontFamily = readProperty(el, 'font-family') ?? parent.fontFamily
+  const weight = readProperty(el, 'font-weight')
+  if (weight) style.fontWeight = weight === 'bold' ? 700 : parseLength(weight, parent.fontWeight)
+  const fontStyle = readProperty(el, 'font-style')
+  if (fontStyle) style.italic = fontStyle === 'italic'
+  style.textAnchor = readProperty(el, 'text-anchor') ?? parent.textAnchor
+  return style
+}
+
+function mapFontFamily(family: string): TextFontFamily {
+  const name = family.toLowerCase()
+  if (/mono|courier|consolas/.test(name)) return 'mono'
+  if (/virgil|excalifont|hand|comic/.test(name)) return 'hand'
+  if (/serif/.test(name) && !/sans/.test(name)) return 'serif'
+  return 'sans'
+}
+
+function baseShape(x: number, y: number, width: number, height: number, style: SvgStyle): Omit<BaseShape, 'id' | 'type'> {
+  return {
+    x,
+    y,
+    width,
+    height,
+    rotation: 0,
+    opacity: Math.min(Math.max(style.opacity, 0), 1),
+    isLocked: false,
+    parentId: null,
+    seed: Math.floor(Math.random() * 2147483647),
+    // Imported artwork keeps its exact outlines
+    roughness: 0,
+  }
+}
+
+function strokeProps(style: SvgStyle, m: Matrix): { stroke: string; strokeWidth: number; strokeStyle: StrokeStyle } {
+  const scale = Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2])) || 1
+  return {
+    stroke: style.stroke,
+    strokeWidth: style.stroke === 'transparent' ? 1 : style.strokeWidth * scale,
+    strokeStyle: style.dashed ? 'dashed' : 'solid',
+  }
+}
+
+/** A polyline as a line (two points) or a freehand path */
+function polylineShape(local: Point[], m: Matrix, style: SvgStyle): LineShape | PathShape | null {
+  const points = local.map((p) => apply(m, p))
+  if (points.length < 2) return null
+  const { minX, minY, maxX, maxY } = getPointBounds(points)
+  const base = baseShape(minX, minY, maxX - minX, maxY - minY, style)
+  const relative = points.map((p) => ({ x: p.x - minX, y: p.y - minY }))
+  // Paths have no fill: filled outlines without a stroke keep the fill color
+  const stroke = style.stroke === 'transparent' && style.fill !== 'transparent' ? { ...style, stroke: style.fill } : style
+  if (points.length === 2) {
+    return { ...base, id: nanoid(), type: 'line', props: { ...strokeProps(stroke, m), points: relative } }
+  }
+  return { ...base, id: nanoid(), type: 'path', props: { ...strokeProps(stroke, m), points: relative, isComplete: true } }
+}
+
+/** A rectangle or ellipse box, or its outline when the transform skews it */
+function boxShape(
+  type: 'rectangle' | 'ellipse',
+  x: number, y: number, width: number, height: number,
+  cornerRadius: number,
+  m: Matrix,
+  style: SvgStyle,
+): Shape | null {
+  if (width <= 0 || height <= 0) return null
+  const parts = decompose(m)
+  if (!parts) {
+    const outline = type === 'rectangle'
+      ? [{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }, { x, y }]
+      : Array.from({ length: 33 }, (_, i) => ({
+        x: x + width / 2 + (width / 2) * Math.cos((i / 32) * Math.PI * 2),
+        y: y + height / 2 + (height / 2) * Math.sin((i / 32) * Math.PI * 2),
+      }))
+    return polylineShape(outline, m, style)
+  }
+  const center = apply(m, { x: x + width / 2, y: y + height / 2 })
+  const w = width * parts.scaleX
+  const h = height * parts.scaleY
+  const base = { ...baseShape(center.x - w / 2, center.y - h / 2, w, h, style), rotation: parts.rotation }
+  const fill = { fill: style.fill, fillStyle: 'solid' as const, ...strokeProps(style, m) }
+  if (type === 'ellipse') return { ...base, id: nanoid(), type: 'ellipse', props: fill } satisfies EllipseShape
+  return { ...base, id: nanoid(), type: 'rectangle', props: { ...fill, cornerRadius: cornerRadius * parts.scaleX } } satisfies RectangleShape
+}
+
+function textShape(el: Element, m: Matrix, style: SvgStyle): TextShape | null {
+  const tspans = Array.from(el.children).filter((child) => child.tagName === 'tspan')
+  const lines = tspans.length > 0 ? tspans.map((tspan) => tspan.textContent ?? '') : [el.textContent ?? '']
+  const text = lines.join('\n').trim()
+  if (!text) return null
+
+  const parts = decompose(m)
+  const scale = parts?.scaleY ?? 1
+  const props = {
+    ...DEFAULT_TEXT_PROPS,
+    text,
+    fontSize: style.fontSize * scale,
+    fontFamily: mapFontFamily(style.fontFamily),
+    fontWeight: style.fontWeight,
+    fontStyle: style.italic ? 'italic' as const : 'normal' as const,
+    color: style.fill === 'transparent' ? DEFAULT_TEXT_PROPS.color : style.fill,
+    align: style.textAnchor === 'middle' ? 'center' as const : style.textAnchor === 'end' ? 'right' as const : 'left' as const,
+  }
+  const { width, height } = measureTextLines(text, props)
+  const anchor = apply(m, {
+    x: parseLength(el.getAttribute('x') ?? tspans[0]?.getAttribute('x') ?? null, 0),
+    y: parseLength(el.getAttribute('y') ?? tspans[0]?.getAttribute('y') ?? null, 0),
+  })
+  // `y` is the first baseline; shapes are positioned by their top-left corner
+  const shift = props.align === 'center' ? width / 2 : props.align === 'right' ? width : 0
+  const base = baseShape(anchor.x - shift, anchor.y - props.fontSize * 0.8, width, height, style)
+  return { ...base, id: nanoid(), type: 'text', rotation: parts?.rotation ?? 0, props }
+}
+
+function imageShape(el: Element, m: Matrix, style: SvgStyle): ImageShape | null {
+  const src = el.getAttribute('href') ?? el.getAttribute('xlink:href')
+  const width = parseLength(el.getAttribute('width'), 0)
+  const height = parseLength(el.getAttribute('height'), 0)
+  if (!src || width <= 0 || height <= 0) return null
+  const box = boxShape('rectangle', parseLength(el.getAttribute('x'), 0), parseLength(el.getAttribute('y'), 0), width, height, 0, m, style)
+  if (!box || box.type !== 'rectangle') return null
+  return { ...box, type: 'image', props: { src, naturalWidth: width, naturalHeight: height } }
+}
+
+function convertElement(el: Element, m: Matrix, style: SvgStyle): Shape[] {
+  const num = (name: string) => parseLength(el.getAttribute(name), 0)
+  switch (el.tagName) {
+    case 'rect': {
+      const shape = boxShape('rectangle', num('x'), num('y'), num('width'), num('height'), Math.max(num('rx'), num('ry')), m, style)
+      return shape ? [shape] : []
+    }
+    case 'circle': {
+      const r = num('r')
+      const shape = boxShape('ellipse', num('cx') - r, num('cy') - r, r * 2, r * 2, 0, m, style)
+      return shape ? [shape] : []
+    }
+    case 'ellipse': {
+      const rx = num('rx')
+      const ry = num('ry')
+      const shape = boxShape('ellipse', num('cx') - rx, num('cy') - ry, rx * 2, ry * 2, 0, m, style)
+      return shape ? [shape] : []
+    }
+    case 'line': {
+      const shape = polylineShape([{ x: num('x1'), y: num('y1') }, { x: num('x2'), y: num('y2') }], m, style)
+      return shape ? [shape] : []
+    }
+    case 'polyline':
+    case 'polygon': {
+      const n = (el.getAttribute('points') ?? '').trim().split(/[\s,]+/).map(Number)
+      const points: Point[] = []
+      for (let i = 0; i + 1 < n.length; i += 2) points.push({ x: n[i]!, y: n[i + 1]! })
+      if (el.tagName === 'polygon' && points.length > 2) points.push(points[0]!)
+      const shape = polylineShape(points, m, style)
+      return shape ? [shape] : []
+    }
+    case 'path':
+      // One shape per subpath, so separate outlines aren't joined up
+      return parsePathData(el.getAttribute('d') ?? '')
+        .map((subpath) => polylineShape(subpath, m, style))
+        .filter((shape): shape is LineShape | PathShape => shape !== null)
+    case 'text': {
+      const shape = textShape(el, m, style)
+      return shape ? [shape] : []
+    }
+    case 'image': {
+      const shape = imageShape(el, m, style)
+      return shape ? [shape] : []
+    }
+    default:
+      return []
+  }
+}
+
+function walk(el: Element, parentMatrix: Matrix, parentStyle: SvgStyle, out: Shape[]): void {
+  if (SKIPPED_ELEMENTS.has(el.tagName)) return
+  if (readProperty(el, 'display') === 'none' || readProperty(el, 'visibility') === 'hidden') return
+  let m = multiply(parentMatrix, parseTransform(el.getAttribute('transform')))
+  const style = resolveStyle(el, parentStyle)
+
+  if (el.tagName === 'svg' || el.tagName === 'g' || el.tagName === 'a') {
+    // Nested viewports are placed at their x/y
+    if (el.tagName === 'svg' && el.parentElement) {
+      m = multiply(m, [1, 0, 0, 1, parseLength(el.getAttribute('x'), 0), parseLength(el.getAttribute('y'), 0)])
+    }
+    for (const child of Array.from(el.children)) walk(child, m, style, out)
+    return
+  }
+  out.push(...convertElement(el, m, style))
+}
+
+/**
+ * Convert SVG markup into whiteboard shapes: rects, circles and ellipses
+ * (rotated ones included), lines, polylines, polygons and paths (as
+ * freehand paths, one per subpath), text and images. Gradients, filters,
+ * clipping and `<use>` references are not reproduced. Shapes keep the SVG's
+ * user-space coordinates.
+ * Throws if the markup is not an SVG document.
+ * @public
+ */
+export function importFromSvg(markup: string): Shape[] {
+  const doc = new DOMParser().parseFromString(markup, 'image/svg+xml')
+  const root = doc.documentElement
+  if (doc.getElementsByTagName('parsererror').length > 0 || root.tagName !== 'svg') {
+    throw new Error('Invalid SVG: expected an <svg> document')
+  }
+  const shapes: Shape[] = []
+  walk(root, IDENTITY, DEFAULT_STYLE, shapes)
+  return shapes
+}
@@ -0,0 +1,249 @@
+import type { Point } from '../types'
+
+/** Curve whose last control point S or T reflects */
+type ControlKind = 'cubic' | 'quadratic' | null
+
+/** Segments each Bézier curve is flattened into */
+const CURVE_STEPS = 12
+/** Largest angle (radians) covered by one segment of a flattened arc */
+const ARC_STEP = Math.PI / 12
+
+/** Reads numbers and flags from path data, which allows `1.5.5`, `-1-2` and `011` (arc flags) */
+class PathScanner {
+  private index = 0
+
+  constructor(private readonly d: string) {}
+
+  private skipSeparators(): void {
+    while (this.index < this.d.length && /[\s,]/.test(this.d[this.index]!)) this.index++
+  }
+
+  /** Next command letter, or null if a number (an implicit repeat) or the end follows */
+  command(): string | null {
+    this.skipSeparators()
+    const char = this.d[this.index]
+    if (char && /[a-zA-Z]/.test(char)) {
+      this.index++
+      return char
+    }
+    return null
+  }
+
+  hasNumber(): boolean {
+    this.skipSeparators()
+    return this.index < this.d.length && /[-+.\d]/.test(this.d[this.index]!)
+  }
+
+  number(): number {
+    this.skipSeparators()
+    const match = /^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/.exec(this.d.slice(this.index))
+    if (!match) throw new Error(`Invalid path data at "${this.d.slice(this.index, this.index + 10)}"`)
+    this.index += match[0].length
+    return Number(match[0])
+  }
+
+  flag(): boolean {
+    this.skipSeparators()
+    const char = this.d[this.index++]
+    if (char !== '0' && char !== '1') throw new Error('Invalid path data: bad arc flag')
+    return char === '1'
+  }
+
+  get done(): boolean {
+    this.skipSeparators()
+    return this.index >= this.d.length
+  }
+}
+
+function cubic(p0: Point, p1: Point, p2: Point, p3: Point): Point[] {
+  return Array.from({ length: CURVE_STEPS }, (_, i) => {
+    const t = (i + 1) / CURVE_STEPS
+    const u = 1 - t
+    return {
+      x: u * u * u * p0.x + 3 * u * u * t * p1.x + 3 * u * t * t * p2.x + t * t * t * p3.x,
+      y: u * u * u * p0.y + 3 * u * u * t * p1.y + 3 * u * t * t * p2.y + t * t * t * p3.y,
+    }
+  })
+}
+
+function quadratic(p0: Point, p1: Point, p2: Point): Point[] {
+  return Array.from({ length: CURVE_STEPS }, (_, i) => {
+    const t = (i + 1) / CURVE_STEPS
+    const u = 1 - t
+    return { x: u * u * p0.x + 2 * u * t * p1.x + t * t * p2.x, y: u * u * p0.y + 2 * u * t * p1.y + t * t * p2.y }
+  })
+}
+
+/** Points along an elliptical arc (SVG endpoint parameterization, spec appendix F.6.5) */
+function arc(from: Point, rx: number, ry: number, degrees: number, largeArc: boolean, sweep: boolean, to: Point): Point[] {
+  if (rx === 0 || ry === 0 || (from.x === to.x && from.y === to.y)) return [to]
+  rx = Math.abs(rx)
+  ry = Math.abs(ry)
+  const phi = (degrees * Math.PI) / 180
+  const cos = Math.cos(phi)
+  const sin = Math.sin(phi)
+  const dx = (from.x - to.x) / 2
+  const dy = (from.y - to.y) / 2
+  const x1 = cos * dx + sin * dy
+  const y1 = -sin * dx + cos * dy
+
+  // Radii too small to reach the endpoint are scaled up
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry)
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda)
+    ry *= Math.sqrt(lambda)
+  }
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1
+  const coefficient = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator))
+  const cx1 = (coefficient * rx * y1) / ry
+  const cy1 = (-coefficient * ry * x1) / rx
+  const cx = cos * cx1 - sin * cy1 + (from.x + to.x) / 2
+  const cy = sin * cx1 + cos * cy1 + (from.y + to.y) / 2
+
+  const start = Math.atan2((y1 - cy1) / ry, (x1 - cx1) / rx)
+  let delta = Math.atan2((-y1 - cy1) / ry, (-x1 - cx1) / rx) - start
+  if (sweep && delta < 0) delta += Math.PI * 2
+  if (!sweep && delta > 0) delta -= Math.PI * 2
+
+  const steps = Math.max(2, Math.ceil(Math.abs(delta) / ARC_STEP))
+  return Array.from({ length: steps }, (_, i) => {
+    if (i === steps - 1) return to
+    const angle = start + (delta * (i + 1)) / steps
+    return {
+      x: cx + rx * Math.cos(angle) * cos - ry * Math.sin(angle) * sin,
+      y: cy + rx * Math.cos(angle) * sin + ry * Math.sin(angle) * cos,
+    }
+  })
+}
+
+/**
+ * Flatten SVG path data (`d`) into one polyline per subpath, with curves and
+ * arcs sampled into points. Malformed data ends the path where it breaks,
+ * as browsers render it.
+ */
+export function parsePathData(d: string): Point[][] {
+  const scanner = new PathScanner(d)
+  const subpaths: Point[][] = []
+  let points: Point[] = []
+  let current: Point = { x: 0, y: 0 }
+  let start: Point = { x: 0, y: 0 }
+  // Last control point, reflected by S (after C or S) and T (after Q or T)
+  let control: Point | null = null
+  let controlKind: ControlKind = null
+  let command: string | null = null
+
+  const finishSubpath = () => {
+    if (points.length > 1) subpaths.push(points)
+    points = []
+  }
+
+  try {
+    while (!scanner.done) {
+      const next = scanner.command()
+      if (next) command = next
+      else if (!command || !scanner.hasNumber()) break
+      const relative: boolean = command === command.toLowerCase()
+      const point = (): Point => {
+        const x = scanner.number()
+        const y = scanner.number()
+        return relative ? { x: current.x + x, y: current.y + y } : { x, y }
+      }
+      const reflected = (kind: ControlKind): Point =>
+        control && controlKind === kind ? { x: 2 * current.x - control.x, y: 2 * current.y - control.y } : current
+
+      let nextControl: Point | null = null
+      let nextKind: ControlKind = null
+      switch (command.toUpperCase()) {
+        case 'M':
+          finishSubpath()
+          current = point()
+          start = current
+          points.push(current)
+          // Further pairs after a moveto are linetos
+          command = relative ? 'l' : 'L'
+          break
+        case 'L':
+          current = point()
+          points.push(current)
+          break
+        case 'H': {
+          const x = scanner.number()
+          current = { x: relative ? current.x + x : x, y: current.y }
+          points.push(current)
+          break
+        }
+        case 'V': {
+          const y = scanner.number()
+          current = { x: current.x, y: relative ? current.y + y : y }
+          points.push(current)
+          break
+        }
+        case 'C': {
+          const c1 = point()
+          const c2 = point()
+          const end = point()
+          points.push(...cubic(current, c1, c2, end))
+          nextControl = c2
+          nextKind = 'cubic'
+          current = end
+          break
+        }
+        case 'S': {
+          const c2 = point()
+          const end = point()
+          points.push(...cubic(current, reflected('cubic'), c2, end))
+          nextControl = c2
+          nextKind = 'cubic'
+          current = end
+          break
+        }
+        case 'Q': {
+          const c = point()
+          const end = point()
+          points.push(...quadratic(current, c, end))
+          nextControl = c
+          nextKind = 'quadratic'
+          current = end
+          break
+        }
+        case 'T': {
+          const c = reflected('quadratic')
+          const end = point()
+          points.push(...quadratic(current, c, end))
+          nextControl = c
+          nextKind = 'quadratic'
+          current = end
+          break
+        }
+        case 'A': {
+          const rx = scanner.number()
+          const ry = scanner.number()
+          const rotation = scanner.number()
+          const largeArc = scanner.flag()
+          const sweep = scanner.flag()
+          const end = point()
+          points.push(...arc(current, rx, ry, rotation, largeArc, sweep, end))
+          current = end
+          break
+        }
+        case 'Z':
+          if (points.length > 0) points.push(start)
+          current = start
+          finishSubpath()
+          // A drawing command right after Z starts from the subpath's start
+          points = [start]
+          command = null
+          break
+        default:
+          throw new Error(`Invalid path data: unknown command ${command}`)
+      }
+      control = nextControl
+      controlKind = nextKind
+    }
+  } catch {
+    // Keep what was parsed before the error
+  }
+  finishSubpath()
+  return subpaths
+}
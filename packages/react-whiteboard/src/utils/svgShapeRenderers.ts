@@ -10,12 +10,16 @@ import type {
   TextShape,
   PathShape,
   ImageShape,
+  StickyShape,
+  BoundTextContainer,
   FillStyle,
   StrokeStyle,
 } from '../types'
 import { wrapTextLines, FONT_FAMILIES } from './fonts'
 import { calculateArrowhead } from './canvas'
 import { getBoundTextShape, BOUND_TEXT_PADDING, centerTextVertically } from './boundText'
+import { resolveBoundTextProps } from './stickyNote'
+import { createSvgImageFilter, getUncroppedImageBounds, imageFilterCss } from './imageEditing'
 
 // ============================================================================
 // Helpers
@@ -50,6 +54,12 @@ function rotationTransform(rotation: number, x: number, y: number, w: number, h:
   return `rotate(${deg} ${cx} ${cy})`
 }
 
+function svgElement(tag: string, attrs: Record<string, string | number>): SVGElement {
+  const el = document.createElementNS('http://www.w3.org/2000/svg', tag)
+  for (const [name, value] of Object.entries(attrs)) el.setAttribute(name, String(value))
+  return el
+}
+
 function createSvgGroup(opacity: number, rotation: number, x: number, y: number, w: number, h: number): SVGGElement {
   const g = document.createElementNS('http://www.w3.org/2000/svg', 'g')
   if (opacity < 1) g.setAttribute('opacity', String(opacity))
@@ -128,6 +138,27 @@ export function renderEllipse(
   return g
 }
 
+export function renderSticky(shape: StickyShape, allShapes: Map<string, Shape>): SVGGElement {
+  const { x, y, width, height, rotation, opacity, props } = shape
+
+  const g = createSvgGroup(opacity, rotation, x, y, width, height)
+  const filterId = `shadow-${shape.id}`
+  const defs = document.createElementNS('http://www.w3.org/2000/svg', 'defs')
+  const filter = document.createElementNS('http://www.w3.org/2000/svg', 'filter')
+  filter.setAttribute('id', filterId)
+  filter.appendChild(svgElement('feDropShadow', { dx: 0, dy: 4, stdDeviation: 5, 'flood-opacity': 0.18 }))
+  defs.appendChild(filter)
+  g.appendChild(defs)
+  g.appendChild(svgElement('rect', { x, y, width, height, fill: props.color, filter: `url(#${filterId})` }))
+
+  if (props.boundTextId) {
+    const textEl = renderBoundText(shape, allShapes)
+    if (textEl) g.appendChild(textEl)
+  }
+
+  return g
+}
+
 export function renderLine(rs: RoughSVG, shape: LineShape): SVGGElement {
   const { x, y, width, height, rotation, opacity, props, seed, roughness } = shape
   const { stroke, strokeWidth, strokeStyle, points } = props
@@ -283,30 +314,40 @@ export function renderImage(shape: ImageShape): SVGGElement {
   const { x, y, width, height, rotation, opacity, props } = shape
 
   const g = createSvgGroup(opacity, rotation, x, y, width, height)
-  const img = document.createElementNS('http://www.w3.org/2000/svg', 'image')
-  img.setAttribute('x', String(x))
-  img.setAttribute('y', String(y))
-  img.setAttribute('width', String(width))
-  img.setAttribute('height', String(height))
-  img.setAttribute('href', props.src)
-  img.setAttribute('preserveAspectRatio', 'none')
-  g.appendChild(img)
+  // The whole (uncropped) image
+  const full = getUncroppedImageBounds(shape)
+  const img = svgElement('image', { ...full, href: props.src, preserveAspectRatio: 'none' })
+  if (props.flipX || props.flipY) {
+    const tx = props.flipX ? 2 * full.x + full.width : 0
+    const ty = props.flipY ? 2 * full.y + full.height : 0
+    img.setAttribute('transform', `matrix(${props.flipX ? -1 : 1} 0 0 ${props.flipY ? -1 : 1} ${tx} ${ty})`)
+  }
+  if (props.filter && imageFilterCss(props.filter) !== 'none') {
+    const id = `image-filter-${shape.id}`
+    g.appendChild(svgElement('defs', {})).appendChild(createSvgImageFilter(props.filter, id))
+    img.setAttribute('filter', `url(#${id})`)
+  }
+  // A nested viewport clips cropped images to the shape's bounds
+  const view = props.crop ? svgElement('svg', { x, y, width, height, viewBox: `${x} ${y} ${width} ${height}` }) : null
+  view?.appendChild(img)
+  g.appendChild(view ?? img)
   return g
 }
 
 function renderBoundText(
-  parent: RectangleShape | EllipseShape,
+  parent: BoundTextContainer,
   allShapes: Map<string, Shape>,
 ): SVGGElement | null {
   const textShape = getBoundTextShape(parent, allShapes)
   if (!textShape) return null
 
-  const { text, fontSize, color, align, lineHeight, fontFamily } = textShape.props
+  const props = resolveBoundTextProps(parent, textShape.props)
+  const { text, fontSize, color, align, lineHeight, fontFamily } = props
   if (!text) return null
 
   const pad = BOUND_TEXT_PADDING
   const maxWidth = Math.max(parent.width - pad * 2, 20)
-  const { lines, height: textHeight } = wrapTextLines(text, maxWidth, textShape.props)
+  const { lines, height: textHeight } = wrapTextLines(text, maxWidth, props)
   const offsetY = centerTextVertically(parent.height, textHeight)
   const lineSpacing = fontSize * (lineHeight ?? 1.25)
   const cssFontFamily = FONT_FAMILIES[fontFamily] ?? FONT_FAMILIES.sans
@@ -325,21 +366,10 @@ function renderBoundText(
   const clipPath = document.createElementNS('http://www.w3.org/2000/svg', 'clipPath')
   clipPath.setAttribute('id', clipId)
 
-  if (parent.type === 'ellipse') {
-    const el = document.createElementNS('http://www.w3.org/2000/svg', 'ellipse')
-    el.setAttribute('cx', String(parent.x + parent.width / 2))
-    el.setAttribute('cy', String(parent.y + parent.height / 2))
-    el.setAttribute('rx', String(parent.width / 2))
-    el.setAttribute('ry', String(parent.height / 2))
-    clipPath.appendChild(el)
-  } else {
-    const el = document.createElementNS('http://www.w3.org/2000/svg', 'rect')
-    el.setAttribute('x', String(parent.x))
-    el.setAttribute('y', String(parent.y))
-    el.setAttribute('width', String(parent.width))
-    el.setAttribute('height', String(parent.height))
-    clipPath.appendChild(el)
-  }
+  const { x, y, width, height } = parent
+  clipPath.appendChild(parent.type === 'ellipse'
+    ? svgElement('ellipse', { cx: x + width / 2, cy: y + height / 2, rx: width / 2, ry: height / 2 })
+    : svgElement('rect', { x, y, width, height }))
 
   defs.appendChild(clipPath)
   g.appendChild(defs)
@@ -348,8 +378,8 @@ function renderBoundText(
   textEl.setAttribute('clip-path', `url(#${clipId})`)
   textEl.setAttribute('font-family', cssFontFamily)
   textEl.setAttribute('font-size', String(fontSize))
-  textEl.setAttribute('font-weight', String(textShape.props.fontWeight))
-  if (textShape.props.fontStyle === 'italic') textEl.setAttribute('font-style', 'italic')
+  textEl.setAttribute('font-weight', String(props.fontWeight))
+  if (props.fontStyle === 'italic') textEl.setAttribute('font-style', 'italic')
   textEl.setAttribute('fill', color)
   textEl.setAttribute('text-anchor', textAnchor)
   textEl.setAttribute('dominant-baseline', 'text-before-edge')
@@ -0,0 +1,163 @@
+import type { Shape } from '../types'
+import { validateShape } from './documentSchema'
+import { FORMAT_VERSION, resolveImageBlobUrls } from './serialization'
+import { exportToPng } from './exportPng'
+import { exportToSvg } from './exportSvg'
+
+/**
+ * Clipboard format for copied shapes. The `web ` prefix marks a custom
+ * format of the async Clipboard API; `text/plain` carries the same payload
+ * for browsers without custom formats.
+ * @public
+ */
+export const CLIPBOARD_MIME_TYPE = 'web application/x-react-whiteboard+json'
+
+const PAYLOAD_TYPE = 'react-whiteboard/shapes'
+
+/**
+ * What a paste brings in, in order of preference: shapes copied from a
+ * whiteboard, an image, SVG markup, a URL or plain text.
+ * @public
+ */
+export type ClipboardContent =
+  | { kind: 'shapes'; shapes: Shape[] }
+  | { kind: 'image'; blob: Blob }
+  | { kind: 'svg'; markup: string }
+  | { kind: 'url'; url: string }
+  | { kind: 'text'; text: string }
+
+/**
+ * Encode shapes (with their frame children and bound text) as a clipboard
+ * payload. Image blob URLs are inlined as DataURLs so other tabs can read them.
+ */
+export async function serializeClipboardShapes(shapes: Shape[]): Promise<string> {
+  return JSON.stringify({ type: PAYLOAD_TYPE, version: FORMAT_VERSION, shapes: await resolveImageBlobUrls(shapes) })
+}
+
+/** Shapes from a clipboard payload, or null if `text` is not one. Invalid shapes are dropped. */
+export function parseClipboardShapes(text: string): Shape[] | null {
+  if (!text.trimStart().startsWith('{')) return null
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return null
+  }
+  const payload = data as { type?: unknown; version?: unknown; shapes?: unknown }
+  if (payload?.type !== PAYLOAD_TYPE || !Array.isArray(payload.shapes)) return null
+  if (typeof payload.version !== 'number' || payload.version > FORMAT_VERSION) return null
+  return payload.shapes.filter((shape, i) => validateShape(shape, `shapes[${i}]`).length === 0)
+}
+
+function isSvgMarkup(text: string): boolean {
+  return /^(?:<\?xml[^>]*>\s*)?(?:<!--[\s\S]*?-->\s*)*(?:<!DOCTYPE svg[^>]*>\s*)?<svg[\s>]/i.test(text)
+}
+
+function asUrl(text: string): string | null {
+  if (/\s/.test(text)) return null
+  try {
+    const url = new URL(text)
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null
+  } catch {
+    return null
+  }
+}
+
+/** Classify pasted text; null if it is blank */
+export function classifyClipboardText(text: string): ClipboardContent | null {
+  const trimmed = text.trim()
+  if (!trimmed) return null
+  const shapes = parseClipboardShapes(trimmed)
+  if (shapes) return { kind: 'shapes', shapes }
+  if (isSvgMarkup(trimmed)) return { kind: 'svg', markup: trimmed }
+  const url = asUrl(trimmed)
+  if (url) return { kind: 'url', url }
+  return { kind: 'text', text: text.replace(/\r\n?/g, '\n').replace(/^\n+|\s+$/g, '') }
+}
+
+/** Read a paste event's data */
+export function readClipboardData(data: DataTransfer): ClipboardContent | null {
+  const text = data.getData('text/plain')
+  const shapes = parseClipboardShapes(text)
+  if (shapes) return { kind: 'shapes', shapes }
+
+  const svg = data.getData('image/svg+xml')
+  if (svg && isSvgMarkup(svg.trim())) return { kind: 'svg', markup: svg.trim() }
+  for (const item of Array.from(data.items ?? [])) {
+    if (item.kind !== 'file' || !item.type.startsWith('image/')) continue
+    const blob = item.getAsFile()
+    if (blob) return { kind: 'image', blob }
+  }
+  return classifyClipboardText(text)
+}
+
+/**
+ * Read the system clipboard with the async Clipboard API. Null when it is
+ * empty, unavailable or permission is denied.
+ */
+export async function readSystemClipboard(): Promise<ClipboardContent | null> {
+  const clipboard = typeof navigator !== 'undefined' ? navigator.clipboard : undefined
+  if (!clipboard?.read) return null
+  try {
+    for (const item of await clipboard.read()) {
+      const read = async (type: string) => (item.types.includes(type) ? (await item.getType(type)).text() : '')
+      const shapes = parseClipboardShapes(await read(CLIPBOARD_MIME_TYPE)) ?? parseClipboardShapes(await read('text/plain'))
+      if (shapes) return { kind: 'shapes', shapes }
+
+      const svg = (await read('image/svg+xml')).trim()
+      if (svg && isSvgMarkup(svg)) return { kind: 'svg', markup: svg }
+      const imageType = item.types.find((type) => type.startsWith('image/') && type !== 'image/svg+xml')
+      if (imageType) return { kind: 'image', blob: await item.getType(imageType) }
+      const content = classifyClipboardText(await read('text/plain'))
+      if (content) return content
+    }
+  } catch {
+    // Permission denied or the clipboard changed while reading
+  }
+  return null
+}
+
+/** PNG data URL of the shapes; null if they can't be rendered, so the other formats are still written */
+function renderPng(shapes: Map<string, Shape>, ids: string[]): string | null {
+  try {
+    return exportToPng(shapes, ids, new Set())
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Put shapes on the system clipboard: the JSON payload (as the custom format
+ * where supported, and as `text/plain`), plus PNG and SVG renderings for apps
+ * that don't know the format. `shapes` is what `copySelectedShapes` copied.
+ * Resolves to false when the async Clipboard API is unavailable or refuses.
+ */
+export async function writeSystemClipboard(shapes: Shape[]): Promise<boolean> {
+  const clipboard = typeof navigator !== 'undefined' ? navigator.clipboard : undefined
+  if (!clipboard?.write || typeof ClipboardItem === 'undefined' || shapes.length === 0) return false
+
+  const shapeMap = new Map(shapes.map((shape) => [shape.id, shape]))
+  const topLevel = shapes.filter((shape) => !shape.parentId || !shapeMap.has(shape.parentId)).map((shape) => shape.id)
+  const supports = (type: string) => ClipboardItem.supports?.(type) ?? false
+
+  try {
+    // Promised values keep the write inside the user gesture that triggered it
+    const json = serializeClipboardShapes(shapes)
+    const items: Record<string, Promise<Blob>> = {
+      'text/plain': json.then((text) => new Blob([text], { type: 'text/plain' })),
+    }
+    if (supports(CLIPBOARD_MIME_TYPE)) {
+      items[CLIPBOARD_MIME_TYPE] = json.then((text) => new Blob([text], { type: 'application/json' }))
+    }
+    const png = renderPng(shapeMap, topLevel)
+    if (png) items['image/png'] = fetch(png).then((response) => response.blob())
+    if (supports('image/svg+xml')) {
+      items['image/svg+xml'] = exportToSvg(shapeMap, topLevel, { backgroundColor: 'transparent' })
+        .then((svg) => new Blob([svg ?? ''], { type: 'image/svg+xml' }))
+    }
+    await clipboard.write([new ClipboardItem(items)])
+    return true
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import type { AddressInfo } from 'node:net'
+import WebSocket from 'ws'
+import type { SyncClientMessage, SyncServerMessage } from '@ozdemircibaris/react-whiteboard/sync'
+import { createSyncServer, type SyncServer } from '../server'
+
+const rect = (id: string) => ({
+  id, type: 'rectangle', x: 0, y: 0, width: 10, height: 10, rotation: 0, opacity: 1,
+  isLocked: false, parentId: null, props: {},
+})
+
+/** Test peer that records every message it receives */
+class Peer {
+  readonly messages: SyncServerMessage[] = []
+  private waiters: Array<() => void> = []
+  readonly socket: WebSocket
+
+  constructor(url: string) {
+    this.socket = new WebSocket(url)
+    this.socket.on('message', (data) => {
+      this.messages.push(JSON.parse(String(data)) as SyncServerMessage)
+      for (const wake of this.waiters.splice(0)) wake()
+    })
+  }
+
+  opened(): Promise<void> {
+    return new Promise((resolve) => this.socket.once('open', () => resolve()))
+  }
+
+  send(message: SyncClientMessage | string): void {
+    this.socket.send(typeof message === 'string' ? message : JSON.stringify(message))
+  }
+
+  /** Resolve once `count` messages have arrived */
+  async received(count: number): Promise<SyncServerMessage[]> {
+    while (this.messages.length < count) {
+      await new Promise<void>((resolve) => this.waiters.push(resolve))
+    }
+    return this.messages
+  }
+}
+
+describe('createSyncServer', () => {
+  let server: SyncServer
+  let url: string
+  const peers: Peer[] = []
+
+  const connect = async (room = '', clientId?: string) => {
+    const peer = new Peer(`${url}/${room}`)
+    peers.push(peer)
+    await peer.opened()
+    if (clientId) {
+      peer.send({ type: 'hello', clientId })
+      await peer.received(1)
+    }
+    return peer
+  }
+
+  beforeEach(async () => {
+    server = createSyncServer({ port: 0, heartbeatInterval: 0 })
+    await new Promise<void>((resolve) => server.wss.once('listening', () => resolve()))
+    url = `ws://localhost:${(server.wss.address() as AddressInfo).port}`
+  })
+
+  afterEach(async () => {
+    for (const peer of peers.splice(0)) peer.socket.close()
+    await server.close()
+  })
+
+  it('welcomes a client with the empty document', async () => {
+    const peer = await connect('board', 'a')
+    expect(peer.messages[0]).toMatchObject({
+      type: 'welcome',
+      snapshot: { seq: 0, shapeIds: [] },
+      changes: [],
+      lastClientSeq: 0,
+    })
+    expect(server.rooms.has('board')).toBe(true)
+  })
+
+  it('broadcasts changes to every peer in the room, the sender included', async () => {
+    const a = await connect('board', 'a')
+    const b = await connect('board', 'b')
+    a.send({
+      type: 'change',
+      change: {
+        clientId: 'a',
+        clientSeq: 1,
+        ops: [{ type: 'create', shapes: [{ shape: rect('r') as never, version: { a: 1 } }] }],
+      },
+    })
+
+    const [, ack] = await a.received(2)
+    const [, relayed] = await b.received(2)
+    expect(ack).toMatchObject({ type: 'change', change: { seq: 1, clientId: 'a' } })
+    expect(relayed).toEqual(ack)
+  })
+
+  it('catches late joiners up and keeps rooms apart', async () => {
+    const a = await connect('one', 'a')
+    a.send({
+      type: 'change',
+      change: {
+        clientId: 'a',
+        clientSeq: 1,
+        ops: [
+          { type: 'create', shapes: [{ shape: rect('r') as never, version: { a: 1 } }] },
+          { type: 'reorder', shapeIds: ['r'], version: { a: 1 } },
+        ],
+      },
+    })
+    await a.received(2)
+
+    const late = await connect('one', 'late')
+    expect(late.messages[0]).toMatchObject({ type: 'welcome', changes: [{ seq: 1 }] })
+    const other = await connect('two', 'other')
+    expect(other.messages[0]).toMatchObject({ type: 'welcome', changes: [] })
+    expect(server.rooms.get('one')!.getSnapshot().shapeIds).toEqual(['r'])
+    expect(server.rooms.get('two')!.seq).toBe(0)
+  })
+
+  it('uses the default room for the root path and rejects malformed messages', async () => {
+    const peer = await connect()
+    peer.send('not json')
+    const [error] = await peer.received(1)
+    expect(error).toEqual({ type: 'error', message: 'Malformed message' })
+    expect(server.rooms.has('default')).toBe(true)
+  })
+})
@@ -0,0 +1,15 @@
+#!/usr/bin/env node
+import { createSyncServer } from './server'
+
+const port = Number(process.env.PORT ?? 1234)
+const server = createSyncServer({ port })
+
+server.wss.on('listening', () => {
+  console.log(`Whiteboard sync server listening on ws://localhost:${port}/<room>`)
+})
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    server.close().finally(() => process.exit(0))
+  })
+}
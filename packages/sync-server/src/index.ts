@@ -0,0 +1,2 @@
+export { createSyncServer, getRoomName } from './server'
+export type { SyncServerOptions, SyncServer } from './server'
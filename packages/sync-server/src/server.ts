@@ -0,0 +1,106 @@
+import type { IncomingMessage, Server } from 'node:http'
+import { WebSocketServer, type WebSocket } from 'ws'
+import { SyncRoom } from '@ozdemircibaris/react-whiteboard/sync'
+import type { SyncClientMessage, SyncServerMessage } from '@ozdemircibaris/react-whiteboard/sync'
+
+/** @public */
+export interface SyncServerOptions {
+  /** Port to listen on (ignored when `server` is given) */
+  port?: number
+  /** Existing HTTP server to attach to */
+  server?: Server
+  /** Changes kept per room before they are folded into its snapshot (default: 500) */
+  maxLogLength?: number
+  /** Interval for dropping unresponsive connections in ms (default: 30000, 0 disables) */
+  heartbeatInterval?: number
+}
+
+/** @public */
+export interface SyncServer {
+  wss: WebSocketServer
+  /** Rooms by name; created on first connection */
+  rooms: Map<string, SyncRoom>
+  close(): Promise<void>
+}
+
+const DEFAULT_HEARTBEAT_INTERVAL = 30000
+
+/** Room name from the request path: `ws://host/my-board` → `my-board` */
+export function getRoomName(request: IncomingMessage): string {
+  const path = new URL(request.url ?? '/', 'http://localhost').pathname
+  return decodeURIComponent(path.replace(/^\/+|\/+$/g, '')) || 'default'
+}
+
+function parseMessage(data: unknown): SyncClientMessage | null {
+  try {
+    const message = JSON.parse(String(data)) as SyncClientMessage
+    return message && typeof message === 'object' && typeof message.type === 'string' ? message : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * WebSocket server hosting one `SyncRoom` per URL path.
+ *
+ * Rooms live in memory for the lifetime of the process: each keeps the
+ * authoritative snapshot and the changes after it, relays accepted changes
+ * to every connection, and catches late joiners up on `hello`.
+ * @public
+ */
+export function createSyncServer(options: SyncServerOptions = {}): SyncServer {
+  const rooms = new Map<string, SyncRoom>()
+  const wss = options.server
+    ? new WebSocketServer({ server: options.server })
+    : new WebSocketServer({ port: options.port ?? 1234 })
+  const alive = new WeakSet<WebSocket>()
+
+  const getRoom = (name: string): SyncRoom => {
+    let room = rooms.get(name)
+    if (!room) {
+      room = new SyncRoom({ maxLogLength: options.maxLogLength })
+      rooms.set(name, room)
+    }
+    return room
+  }
+
+  wss.on('connection', (socket, request) => {
+    const send = (message: SyncServerMessage) => {
+      if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message))
+    }
+    const connection = getRoom(getRoomName(request)).connect(send)
+    alive.add(socket)
+
+    socket.on('pong', () => alive.add(socket))
+    socket.on('message', (data) => {
+      const message = parseMessage(data)
+      if (message) connection.receive(message)
+      else send({ type: 'error', message: 'Malformed message' })
+    })
+    socket.on('close', () => connection.disconnect())
+  })
+
+  const heartbeatInterval = options.heartbeatInterval ?? DEFAULT_HEARTBEAT_INTERVAL
+  const heartbeat = heartbeatInterval > 0
+    ? setInterval(() => {
+      for (const socket of wss.clients) {
+        if (!alive.has(socket)) {
+          socket.terminate()
+          continue
+        }
+        alive.delete(socket)
+        socket.ping()
+      }
+    }, heartbeatInterval)
+    : null
+
+  return {
+    wss,
+    rooms,
+    close: () => new Promise<void>((resolve, reject) => {
+      if (heartbeat) clearInterval(heartbeat)
+      for (const socket of wss.clients) socket.terminate()
+      wss.close((err) => (err ? reject(err) : resolve()))
+    }),
+  }
+}
@@ -0,0 +1,17 @@
+import { fileURLToPath } from 'node:url'
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      // Test against the library source, no build needed
+      '@ozdemircibaris/react-whiteboard/sync': fileURLToPath(
+        new URL('../react-whiteboard/src/sync/index.ts', import.meta.url),
+      ),
+    },
+  },
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+  },
+})